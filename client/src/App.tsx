@@ -7,6 +7,7 @@ import { Reporting } from './pages/Reporting';
 import { MISDeck } from './pages/mis/MISDeck';
 import { ComplianceHome } from './pages/compliance/ComplianceHome';
 import { ComplianceCategory } from './pages/compliance/ComplianceCategory';
+import { ComplianceDueDates } from './pages/compliance/ComplianceDueDates';
 
 // Legacy feature pages (kept alive under new routes)
 import { TaskTracker } from './pages/TaskTracker';
@@ -36,6 +37,11 @@ import { ToolsHome } from './pages/guide/tools/ToolsHome';
 import { InvoiceBookingSuggester } from './pages/guide/tools/InvoiceBookingSuggester';
 import { AmazonToTranzactTool } from './pages/guide/tools/AmazonToTranzactTool';
 import { ExpenseBooking } from './pages/tools/ExpenseBooking';
+import { BankReconciliation } from './pages/tools/BankReconciliation';
+import { GstReconciliation } from './pages/tools/GstReconciliation';
+import { TdsLedger } from './pages/tools/TdsLedger';
+import { InventoryValuation } from './pages/tools/InventoryValuation';
+import { SettlementReconciliation } from './pages/tools/SettlementReconciliation';
 
 function App() {
   return (
@@ -51,6 +57,7 @@ function App() {
           <Route path="reporting" element={<Reporting />} />
           <Route path="reporting/mis" element={<MISDeck />} />
           <Route path="compliance" element={<ComplianceHome />} />
+          <Route path="compliance/due-dates" element={<ComplianceDueDates />} />
           <Route path="compliance/:category" element={<ComplianceCategory />} />
 
           {/* Legacy feature routes */}
@@ -87,6 +94,11 @@ function App() {
           <Route path="tools/invoice-booking" element={<InvoiceBookingSuggester />} />
           <Route path="tools/amazon-to-tranzact" element={<AmazonToTranzactTool />} />
           <Route path="tools/expense-booking" element={<ExpenseBooking />} />
+          <Route path="tools/bank-reconciliation" element={<BankReconciliation />} />
+          <Route path="tools/gst-reconciliation" element={<GstReconciliation />} />
+          <Route path="tools/tds-ledger" element={<TdsLedger />} />
+          <Route path="tools/inventory-valuation" element={<InventoryValuation />} />
+          <Route path="tools/settlements" element={<SettlementReconciliation />} />
 
           {/* Back-compat redirects from old routes */}
           <Route path="business-guide" element={<Navigate to="/guide" replace />} />
@@ -0,0 +1,241 @@
+import { useMemo, useState } from 'react';
+import {
+  BOARD_PACK_SECTIONS,
+  boardPackPeriods,
+  exportBoardPack,
+  type BoardPackGranularity,
+  type BoardPackSection,
+} from '../../utils/boardPack';
+import { channelObservations } from '../../data/misDeck/analytics';
+
+interface BoardPackModalProps {
+  onClose: () => void;
+}
+
+// Commentary drafts per period, so closing the modal doesn't lose them.
+const COMMENTARY_KEY = 'heatronics_board_pack_commentary';
+
+function loadDrafts(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(COMMENTARY_KEY) || '{}') as Record<string, string>;
+  } catch {
+    return {};
+  }
+}
+
+function saveDraft(periodKey: string, text: string) {
+  const drafts = loadDrafts();
+  if (text.trim()) drafts[periodKey] = text;
+  else delete drafts[periodKey];
+  localStorage.setItem(COMMENTARY_KEY, JSON.stringify(drafts));
+}
+
+const iconPdf = (
+  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2zm2-9h6m-6 4h6" />
+  </svg>
+);
+
+export function BoardPackModal({ onClose }: BoardPackModalProps) {
+  const [busy, setBusy] = useState(false);
+  const [g, setG] = useState<BoardPackGranularity>('month');
+  const periods = useMemo(() => boardPackPeriods(g), [g]);
+  const [periodKey, setPeriodKey] = useState(() => boardPackPeriods('month').at(-1)?.key ?? '');
+  const [sections, setSections] = useState<BoardPackSection[]>(BOARD_PACK_SECTIONS.map((s) => s.id));
+  const [blendCogm, setBlendCogm] = useState(true);
+  const [commentary, setCommentary] = useState(() => loadDrafts()[periodKey] ?? '');
+
+  const period = periods.find((p) => p.key === periodKey);
+
+  const changeGranularity = (next: BoardPackGranularity) => {
+    setG(next);
+    const latest = boardPackPeriods(next).at(-1)?.key ?? '';
+    setPeriodKey(latest);
+    setCommentary(loadDrafts()[latest] ?? '');
+  };
+
+  const changePeriod = (key: string) => {
+    setPeriodKey(key);
+    setCommentary(loadDrafts()[key] ?? '');
+  };
+
+  const editCommentary = (text: string) => {
+    setCommentary(text);
+    saveDraft(periodKey, text);
+  };
+
+  const toggleSection = (id: BoardPackSection) =>
+    setSections((s) => (s.includes(id) ? s.filter((x) => x !== id) : [...s, id]));
+
+  const printed = sections.filter((s) => s !== 'commentary' || commentary.trim()).length;
+
+  const run = async () => {
+    setBusy(true);
+    try {
+      await exportBoardPack({ granularity: g, periodKey, sections, commentary, blendCogm });
+      setTimeout(onClose, 400);
+    } catch (err) {
+      console.error('Board pack export failed:', err);
+      alert('Failed to build the board pack. Please try again.');
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl border border-slate-200 shadow-xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b border-slate-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">Board pack (PDF)</h2>
+            <p className="text-sm text-slate-500 mt-0.5">
+              A paginated pack for one month or quarter — contents page, numbered pages, vector charts
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg text-slate-400">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-5">
+          {/* Period */}
+          <div className="p-3 bg-slate-50 rounded-lg">
+            <div className="font-medium text-slate-800 mb-1">Period</div>
+            <div className="flex flex-wrap items-center gap-2">
+              {(['month', 'quarter'] as BoardPackGranularity[]).map((id) => (
+                <button
+                  key={id}
+                  onClick={() => changeGranularity(id)}
+                  className={`px-3 py-1.5 rounded text-sm border transition-colors ${
+                    g === id
+                      ? 'bg-brand-50 text-brand-700 border-brand-200'
+                      : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-100'
+                  }`}
+                >
+                  {id === 'month' ? 'Month' : 'Quarter'}
+                </button>
+              ))}
+              <select
+                value={periodKey}
+                onChange={(e) => changePeriod(e.target.value)}
+                className="px-3 py-1.5 text-sm rounded-lg border border-slate-200 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-brand-200"
+              >
+                {[...periods].reverse().map((p) => (
+                  <option key={p.key} value={p.key}>{p.longLabel}</option>
+                ))}
+              </select>
+              {period && period.monthsCount > 1 && (
+                <span className="text-xs text-slate-400">{period.firstMonthShort}–{period.lastMonthShort}</span>
+              )}
+              {period && g === 'quarter' && period.monthsCount < 3 && (
+                <span className="text-xs text-amber-600">Part quarter — {period.monthsCount} of 3 months</span>
+              )}
+            </div>
+
+            <label className="mt-3 flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={blendCogm}
+                onChange={() => setBlendCogm((b) => !b)}
+                className="mt-0.5 w-4 h-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+              />
+              <span className="text-sm">
+                <span className="font-medium text-slate-800">Blend COGM to FY rate</span>
+                <span className="block text-slate-500">
+                  As on the deck's Blended view. Off = actual as-booked COGM. The footer of every page says which.
+                </span>
+              </span>
+            </label>
+          </div>
+
+          {/* Sections */}
+          <div className="space-y-2">
+            {BOARD_PACK_SECTIONS.map((s) => (
+              <label
+                key={s.id}
+                className="flex items-start gap-3 p-3 bg-slate-50 rounded-lg cursor-pointer hover:bg-slate-100 transition-colors"
+              >
+                <input
+                  type="checkbox"
+                  checked={sections.includes(s.id)}
+                  onChange={() => toggleSection(s.id)}
+                  className="mt-1 w-4 h-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                />
+                <span>
+                  <span className="block font-medium text-slate-800">{s.title}</span>
+                  <span className="block text-sm text-slate-500">{s.desc}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {/* Commentary */}
+          {sections.includes('commentary') && (
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <span className="font-medium text-slate-800 text-sm">Commentary for {period?.longLabel ?? 'the period'}</span>
+                <button
+                  onClick={() =>
+                    editCommentary([commentary.trim(), ...channelObservations().map((o) => `- ${o}`)].filter(Boolean).join('\n'))
+                  }
+                  className="text-xs text-brand-600 hover:text-brand-700"
+                >
+                  Add the deck's channel observations
+                </button>
+              </div>
+              <textarea
+                value={commentary}
+                onChange={(e) => editCommentary(e.target.value)}
+                rows={6}
+                placeholder={'Blank lines start a new paragraph; lines starting with "-" become bullets.'}
+                className="w-full px-3 py-2 text-sm rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-brand-200"
+              />
+              <p className="text-[11px] text-slate-400 mt-1">Kept as a draft in this browser for each period. Left blank, the section is dropped.</p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-200 flex items-center justify-between">
+          <div className="text-sm text-slate-500">
+            {printed > 0 ? `${printed} section${printed !== 1 ? 's' : ''} selected` : 'Nothing selected'}
+          </div>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-500 hover:text-slate-800">
+              Cancel
+            </button>
+            <button
+              onClick={run}
+              disabled={busy || printed === 0 || !period}
+              className={`flex items-center gap-2 px-5 py-2 rounded-lg text-sm font-medium transition-colors ${
+                busy || printed === 0 || !period
+                  ? 'bg-slate-100 text-slate-400 cursor-not-allowed'
+                  : 'bg-brand-600 text-white hover:bg-brand-700'
+              }`}
+            >
+              {busy ? (
+                <>
+                  <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                  </svg>
+                  Building…
+                </>
+              ) : (
+                <>
+                  {iconPdf}
+                  Build PDF
+                </>
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default BoardPackModal;
@@ -0,0 +1,206 @@
+import { useMemo, useRef, useState } from 'react';
+import { SectionCard } from '../ui/Card';
+import { MIS_ENTITIES, type MisEntity } from '../../data/misDeck/misSheet';
+import { fiscalYearMonthKeys } from '../../data/misDeck/budget';
+import { useBudget } from '../../data/budget/useBudget';
+import { getCurrentUser, setCurrentUser } from '../../data/currentUser';
+import { BUDGET_ROWS, downloadBudgetTemplate, parseBudgetTemplate } from '../../utils/budgetTemplate';
+import type { BudgetCell } from '../../types/budget';
+
+const LAC = 1e5;
+const MONTHS_SHORT = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function monthLabel(key: string): string {
+  const [y, m] = key.split('-').map(Number);
+  return `${MONTHS_SHORT[m - 1]} '${String(y).slice(2)}`;
+}
+
+/**
+ * Grid editor for one entity's budget over a fiscal year (all twelve months,
+ * including ones with no actuals yet). Figures are typed in ₹ Lac like the
+ * sheet; saving sends only the cells that changed.
+ */
+export function BudgetEditor({ entity, fyKey, onClose }: { entity: MisEntity; fyKey: string; onClose: () => void }) {
+  const { budget, save } = useBudget();
+  const months = useMemo(() => fiscalYearMonthKeys(fyKey), [fyKey]);
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const [user, setUser] = useState(getCurrentUser());
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ tone: 'ok' | 'error'; text: string } | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const cellId = (month: string, field: string) => `${month}|${field}`;
+
+  const savedText = (month: string, field: string, count?: boolean): string => {
+    const v = budget.months[month]?.[entity]?.[field];
+    if (v === undefined) return '';
+    return count ? String(Math.round(v)) : String(Math.round((v / LAC) * 100) / 100);
+  };
+
+  const dirtyCells = (): BudgetCell[] | string => {
+    const cells: BudgetCell[] = [];
+    for (const [id, text] of Object.entries(draft)) {
+      const [monthKey, line] = id.split('|');
+      const row = BUDGET_ROWS.find((r) => r.field === line)!;
+      const trimmed = text.trim().replace(/,/g, '');
+      if (trimmed === savedText(monthKey, line, row.count)) continue;
+      if (trimmed === '') {
+        cells.push({ monthKey, entity, line, value: null });
+        continue;
+      }
+      const n = Number(trimmed);
+      if (!isFinite(n)) return `"${text}" for ${row.label} (${monthLabel(monthKey)}) is not a number`;
+      cells.push({ monthKey, entity, line, value: row.count ? n : n * LAC });
+    }
+    return cells;
+  };
+
+  const persist = async (cells: BudgetCell[], done: string) => {
+    if (!user.trim()) {
+      setMessage({ tone: 'error', text: 'Enter your name before saving the budget.' });
+      return;
+    }
+    setSaving(true);
+    setMessage(null);
+    try {
+      setCurrentUser(user);
+      await save(cells, user.trim());
+      setMessage({ tone: 'ok', text: done });
+    } catch (err) {
+      setMessage({ tone: 'error', text: err instanceof Error ? err.message : 'Failed to save budget' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const onSave = async () => {
+    const cells = dirtyCells();
+    if (typeof cells === 'string') {
+      setMessage({ tone: 'error', text: cells });
+      return;
+    }
+    if (cells.length === 0) {
+      setMessage({ tone: 'ok', text: 'Nothing to save.' });
+      return;
+    }
+    await persist(cells, `Saved ${cells.length} budget figure${cells.length === 1 ? '' : 's'}.`);
+    setDraft({});
+  };
+
+  const onImport = async (file: File) => {
+    setMessage(null);
+    try {
+      const parsed = parseBudgetTemplate(await file.arrayBuffer());
+      if (!parsed) {
+        setMessage({ tone: 'error', text: 'Could not find a budget grid in that file. Start from the downloaded template.' });
+        return;
+      }
+      if (parsed.cells.length === 0) {
+        setMessage({ tone: 'error', text: 'The template has no figures filled in.' });
+        return;
+      }
+      const note = parsed.skipped.length ? ` Skipped ${parsed.skipped.length} unrecognised row(s): ${parsed.skipped.slice(0, 3).join('; ')}${parsed.skipped.length > 3 ? '…' : ''}` : '';
+      await persist(parsed.cells, `Imported ${parsed.cells.length} budget figure${parsed.cells.length === 1 ? '' : 's'}.${note}`);
+      setDraft({});
+    } catch {
+      setMessage({ tone: 'error', text: 'Failed to read that file. Please upload a valid .xlsx.' });
+    }
+  };
+
+  const entityLabel = MIS_ENTITIES.find((e) => e.id === entity)?.label ?? entity;
+
+  return (
+    <SectionCard
+      title={`Edit budget · ${entityLabel} · ${fyKey}`}
+      description="₹ Lac (Qty as a count); costs as positive numbers. Leave margin lines blank to derive them from the cascade. Clearing a cell removes that figure."
+      actions={
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => downloadBudgetTemplate(fyKey, budget)}
+            className="px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-slate-700 text-xs font-medium hover:bg-slate-50"
+          >
+            Download template
+          </button>
+          <button
+            onClick={() => fileRef.current?.click()}
+            disabled={saving}
+            className="px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-slate-700 text-xs font-medium hover:bg-slate-50 disabled:opacity-50"
+          >
+            Import template
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".xlsx,.xls"
+            className="hidden"
+            onChange={(e) => { const f = e.target.files?.[0]; if (f) onImport(f); e.target.value = ''; }}
+          />
+          <button onClick={onClose} className="text-xs text-slate-500 hover:text-slate-800">Close</button>
+        </div>
+      }
+    >
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm whitespace-nowrap">
+          <thead>
+            <tr className="text-xs text-slate-400 border-b border-slate-200">
+              <th className="py-2 pr-4 text-left font-medium sticky left-0 bg-white">Particulars</th>
+              {months.map((m) => (
+                <th key={m} className="py-2 px-1 text-right font-medium text-slate-600">{monthLabel(m)}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {BUDGET_ROWS.map((row) => (
+              <tr key={row.label} className={`border-b border-slate-50 ${row.bold ? 'font-semibold text-slate-800' : 'text-slate-600'}`}>
+                <td className="py-1 pr-4 text-left sticky left-0 bg-white">{row.label}</td>
+                {months.map((m) => {
+                  const id = cellId(m, row.field!);
+                  return (
+                    <td key={m} className="py-1 px-1">
+                      <input
+                        inputMode="decimal"
+                        value={draft[id] ?? savedText(m, row.field!, row.count)}
+                        onChange={(e) => setDraft((d) => ({ ...d, [id]: e.target.value }))}
+                        className="w-20 px-1.5 py-0.5 text-right tabular-nums text-sm rounded border border-slate-200 focus:outline-none focus:ring-2 focus:ring-brand-200"
+                      />
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-4 flex items-center gap-2 flex-wrap">
+        <input
+          type="text"
+          value={user}
+          onChange={(e) => setUser(e.target.value)}
+          placeholder="Your name"
+          className="px-3 py-1.5 text-sm rounded-lg border border-slate-200 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-brand-200"
+        />
+        <button
+          onClick={onSave}
+          disabled={saving}
+          className="px-3 py-1.5 rounded-lg bg-brand-600 text-white text-sm font-medium hover:bg-brand-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving…' : 'Save budget'}
+        </button>
+        {Object.keys(draft).length > 0 && !saving && (
+          <button onClick={() => setDraft({})} className="text-xs text-slate-500 hover:text-slate-800">Discard changes</button>
+        )}
+        {message && (
+          <span className={`text-xs ${message.tone === 'ok' ? 'text-emerald-600' : 'text-rose-600'}`}>{message.text}</span>
+        )}
+        {budget.updatedAt && (
+          <span className="text-xs text-slate-400 ml-auto">
+            Last saved {new Date(budget.updatedAt).toLocaleString('en-IN')}{budget.updatedBy ? ` by ${budget.updatedBy}` : ''}
+          </span>
+        )}
+      </div>
+    </SectionCard>
+  );
+}
+
+export default BudgetEditor;
@@ -0,0 +1,22 @@
+// Actual | vs Budget switch shared by the P&L and MIS Sheet tabs.
+export function BudgetCompareToggle({ value, onChange }: { value: boolean; onChange: (v: boolean) => void }) {
+  const opts: { id: boolean; label: string }[] = [
+    { id: false, label: 'Actual' },
+    { id: true, label: 'vs Budget' },
+  ];
+  return (
+    <div className="inline-flex bg-slate-100 rounded-lg p-0.5">
+      {opts.map((o) => (
+        <button
+          key={String(o.id)}
+          onClick={() => onChange(o.id)}
+          className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+            value === o.id ? 'bg-white text-brand-700 shadow-soft' : 'text-slate-500 hover:text-slate-800'
+          }`}
+        >
+          {o.label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { useEffect, useState } from 'react';
+import { SectionCard } from '../ui/Card';
+import { LineChart, Legend, inr, SERIES_COLORS } from './charts';
+import { loadMISData } from '../../utils/googleSheetsStorage';
+import { buildCashFlow, type CashFlowMonth, type CashFlowStatement, type WorkingCapitalMetrics } from '../../utils/cashFlow';
+
+const MAX_MONTHS = 12;
+
+type StatementRow = { label: string; key: keyof CashFlowStatement; kind: 'line' | 'subtotal' | 'total' | 'memo' };
+
+const STATEMENT_ROWS: StatementRow[] = [
+  { label: 'EBITDA', key: 'ebitda', kind: 'subtotal' },
+  { label: '  (Increase) / decrease in inventory', key: 'inventory', kind: 'line' },
+  { label: '  (Increase) / decrease in receivables', key: 'receivables', kind: 'line' },
+  { label: '  Increase / (decrease) in payables', key: 'payables', kind: 'line' },
+  { label: '  Increase / (decrease) in GST & duties payable', key: 'gst', kind: 'line' },
+  { label: '  Other working capital', key: 'otherWorkingCapital', kind: 'line' },
+  { label: 'Cash from operations before interest & tax', key: 'cashFromOperationsBeforeTax', kind: 'subtotal' },
+  { label: '  Interest & income tax', key: 'interestAndTax', kind: 'line' },
+  { label: 'Cash from operations', key: 'cashFromOperations', kind: 'total' },
+  { label: '  Capex (net block + depreciation)', key: 'capex', kind: 'line' },
+  { label: '  Investments', key: 'investments', kind: 'line' },
+  { label: 'Cash from investing', key: 'cashFromInvesting', kind: 'total' },
+  { label: '  Loans', key: 'loans', kind: 'line' },
+  { label: '  Capital', key: 'capital', kind: 'line' },
+  { label: 'Cash from financing', key: 'cashFromFinancing', kind: 'total' },
+  { label: 'Net cash flow', key: 'netCashFlow', kind: 'total' },
+  { label: 'Opening cash & bank', key: 'openingCash', kind: 'memo' },
+  { label: 'Closing cash & bank', key: 'closingCash', kind: 'memo' },
+  { label: 'Unexplained difference', key: 'unexplained', kind: 'memo' },
+];
+
+const METRIC_ROWS: { label: string; key: keyof WorkingCapitalMetrics; days: boolean }[] = [
+  { label: 'DSO (days)', key: 'dso', days: true },
+  { label: 'DIO (days)', key: 'dio', days: true },
+  { label: 'DPO (days)', key: 'dpo', days: true },
+  { label: 'Cash conversion cycle (days)', key: 'ccc', days: true },
+  { label: 'Net working capital', key: 'netWorkingCapital', days: false },
+];
+
+function fmtDays(v: number | null): string {
+  return v === null || !isFinite(v) ? '–' : v.toFixed(0);
+}
+
+function KpiTile({ label, value, sub }: { label: string; value: string; sub?: string }) {
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-soft p-4">
+      <div className="text-[11px] uppercase tracking-wide text-slate-400 font-medium">{label}</div>
+      <div className="text-2xl font-semibold mt-1 text-slate-900">{value}</div>
+      {sub && <div className="text-xs text-slate-500 mt-1">{sub}</div>}
+    </div>
+  );
+}
+
+/**
+ * Indirect-method cash flow and working-capital metrics from the MIS periods
+ * saved in MIS Tracking (needs the Balance Sheet side of the Tally upload).
+ */
+export function CashFlowTab() {
+  const [months, setMonths] = useState<CashFlowMonth[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadMISData().then((data) => {
+      if (!cancelled) setMonths(buildCashFlow(data.periods).slice(-MAX_MONTHS));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (months === null) {
+    return <p className="text-sm text-slate-400">Loading saved MIS periods…</p>;
+  }
+
+  if (months.length === 0) {
+    return (
+      <SectionCard title="No balance sheet positions yet" description="Cash flow needs the Liabilities / Assets side of the Tally balance sheet.">
+        <p className="text-sm text-slate-500">
+          In MIS Tracking, upload a balance sheet that includes the Balance Sheet (not only Trading and P&amp;L) for two
+          consecutive months and recalculate. Each month then shows its cash flow against the month before.
+        </p>
+      </SectionCard>
+    );
+  }
+
+  const latest = months[months.length - 1];
+  const withStatement = months.filter((m) => m.statement);
+  const labels = months.map((m) => m.label);
+  const dayLines = METRIC_ROWS.filter((r) => r.days).map((r, i) => ({
+    name: r.label.replace(' (days)', ''),
+    color: SERIES_COLORS[i],
+    values: months.map((m) => m.metrics[r.key]),
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-sm font-semibold text-slate-700">Cash flow &amp; working capital</h2>
+        <p className="text-xs text-slate-400">
+          Indirect method from the saved MIS periods: EBITDA adjusted for the month's change in stock, debtors, creditors and
+          GST balances, then capex and financing. Balances are summed across the states uploaded for each month.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
+        <KpiTile label="DSO" value={fmtDays(latest.metrics.dso)} sub={`days · ${latest.label}`} />
+        <KpiTile label="DIO" value={fmtDays(latest.metrics.dio)} sub={`days · ${latest.label}`} />
+        <KpiTile label="DPO" value={fmtDays(latest.metrics.dpo)} sub={`days · ${latest.label}`} />
+        <KpiTile label="Cash conversion cycle" value={fmtDays(latest.metrics.ccc)} sub="DSO + DIO − DPO" />
+        <KpiTile label="Closing cash & bank" value={inr(latest.position.cash)} sub={`NWC ${inr(latest.metrics.netWorkingCapital)}`} />
+      </div>
+
+      <SectionCard
+        title="Cash flow statement"
+        description={
+          withStatement.length
+            ? 'Each month against the previous month\'s closing balances. Brackets in the labels mark outflows; figures are signed cash impact.'
+            : 'Upload the next month\'s balance sheet to see the first cash flow — a statement needs the opening (previous month) position.'
+        }
+      >
+        {withStatement.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm whitespace-nowrap">
+              <thead>
+                <tr className="text-xs text-slate-400 border-b border-slate-200">
+                  <th className="py-2 pr-4 text-left font-medium">Particulars</th>
+                  {withStatement.map((m) => (
+                    <th key={m.periodKey} className="py-2 px-3 text-right font-medium text-slate-600">{m.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {STATEMENT_ROWS.map((row) => (
+                  <tr
+                    key={row.key}
+                    className={`border-b border-slate-50 ${
+                      row.kind === 'total' ? 'font-semibold text-slate-900 bg-slate-50/60'
+                      : row.kind === 'subtotal' ? 'font-semibold text-slate-800'
+                      : row.kind === 'memo' ? 'text-slate-400 text-xs'
+                      : 'text-slate-600'
+                    }`}
+                  >
+                    <td className="py-2 pr-4 text-left whitespace-pre">{row.label}</td>
+                    {withStatement.map((m) => {
+                      const v = m.statement![row.key];
+                      const flag = row.key === 'unexplained' && Math.abs(v) >= 1;
+                      return (
+                        <td key={m.periodKey} className={`py-2 px-3 text-right tabular-nums ${flag ? 'text-amber-600' : ''}`}>
+                          {inr(v)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </SectionCard>
+
+      <SectionCard title="Working-capital days" description="DSO on revenue incl. GST; DIO and DPO on COGM. Closing balances over the month's flow × days in month.">
+        <LineChart labels={labels} series={dayLines} yFormat={(n) => n.toFixed(0)} valueFormat={(n) => `${n.toFixed(0)} days`} />
+        <div className="mt-3"><Legend items={dayLines.map((l) => ({ label: l.name, color: l.color }))} /></div>
+
+        <div className="overflow-x-auto mt-5">
+          <table className="w-full text-sm whitespace-nowrap">
+            <thead>
+              <tr className="text-xs text-slate-400 border-b border-slate-200">
+                <th className="py-2 pr-4 text-left font-medium">Metric</th>
+                {months.map((m) => (
+                  <th key={m.periodKey} className="py-2 px-3 text-right font-medium text-slate-600">{m.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {METRIC_ROWS.map((row) => (
+                <tr key={row.key} className={`border-b border-slate-50 ${row.key === 'ccc' ? 'font-semibold text-slate-800' : 'text-slate-600'}`}>
+                  <td className="py-2 pr-4 text-left">{row.label}</td>
+                  {months.map((m) => {
+                    const v = m.metrics[row.key];
+                    return (
+                      <td key={m.periodKey} className="py-2 px-3 text-right tabular-nums">
+                        {row.days ? fmtDays(v) : inr(v ?? 0)}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+              {([
+                ['Sundry debtors', 'sundryDebtors'],
+                ['Closing stock', 'closingStock'],
+                ['Sundry creditors', 'sundryCreditors'],
+                ['Duties & taxes (net payable)', 'dutiesAndTaxes'],
+                ['Cash & bank', 'cash'],
+              ] as const).map(([label, key]) => (
+                <tr key={key} className="border-b border-slate-50 text-xs text-slate-400">
+                  <td className="py-1.5 pr-4 text-left">{label}</td>
+                  {months.map((m) => (
+                    <td key={m.periodKey} className="py-1.5 px-3 text-right tabular-nums">{inr(m.position[key])}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </SectionCard>
+    </div>
+  );
+}
+
+export default CashFlowTab;
@@ -0,0 +1,218 @@
+import { useCallback, useEffect, useState } from 'react';
+import { SectionCard, Pill } from '../ui/Card';
+import { getCurrentUser, setCurrentUser } from '../../data/currentUser';
+import { BUNDLED_DATASET } from '../../data/misDeck/dataset';
+import {
+  DatasetRejectedError,
+  activateDatasetVersion,
+  fetchDatasetIndex,
+  importDatasetFeed,
+  publishDataset,
+  useDeckDataset,
+} from '../../data/deckDatasets/useDeckDataset';
+import { DECK_FEEDS, type DeckDatasetIndex, type DeckFeed } from '../../types/deckDataset';
+
+const FEED_INFO: Record<DeckFeed, { label: string; accept: string; hint: string }> = {
+  mis: {
+    label: 'Monthly MIS workbook',
+    accept: '.xlsx,.xls',
+    hint: 'MIS-Sheet_FINAL_channels.xlsx — every "Mon YYYY" P&L sheet',
+  },
+  sku: {
+    label: 'SKU × channel feed',
+    accept: '.csv,.xlsx',
+    hint: 'month, channel, product, revenue, cogs, other, units',
+  },
+  ads: {
+    label: 'Measured ad feed',
+    accept: '.csv,.xlsx',
+    hint: 'month, channel (D2C / Amazon), product, ad — Amazon "TOTAL" rows = gross spend',
+  },
+  channels: {
+    label: 'Channel actuals feed',
+    accept: '.csv,.xlsx',
+    hint: 'month, channel + Blinkit settlement / Amazon payments / D2C cost columns',
+  },
+};
+
+const fileInputCls =
+  'block w-full text-xs text-slate-500 file:mr-3 file:py-1.5 file:px-3 file:rounded-lg file:border-0 file:text-xs file:font-medium file:bg-slate-100 file:text-slate-700 hover:file:bg-slate-200 file:cursor-pointer cursor-pointer';
+
+type Status = { tone: 'ok' | 'error'; text: string; details: string[] } | null;
+
+function when(iso: string): string {
+  return new Date(iso).toLocaleString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+export function DatasetVersionsPanel() {
+  const { version: active } = useDeckDataset();
+  const [index, setIndex] = useState<DeckDatasetIndex | null>(null);
+  const [user, setUser] = useState(getCurrentUser());
+  const [replaceRestated, setReplaceRestated] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<Status>(null);
+
+  const refresh = useCallback(() => {
+    fetchDatasetIndex().then(setIndex).catch(() => setIndex(null));
+  }, []);
+  useEffect(refresh, [refresh]);
+
+  async function run(action: (by: string) => Promise<{ text: string; details?: string[] }>) {
+    if (!user.trim()) return setStatus({ tone: 'error', text: 'Enter your name first.', details: [] });
+    setBusy(true);
+    setStatus(null);
+    try {
+      setCurrentUser(user);
+      const { text, details = [] } = await action(user.trim());
+      setStatus({ tone: 'ok', text, details });
+    } catch (err) {
+      setStatus({
+        tone: 'error',
+        text: err instanceof Error ? err.message : 'Request failed',
+        details: err instanceof DatasetRejectedError ? err.errors : [],
+      });
+    } finally {
+      setBusy(false);
+      refresh();
+    }
+  }
+
+  const onFile = (feed: DeckFeed) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    run(async (by) => {
+      const v = await importDatasetFeed(feed, file, { replaceRestated: feed === 'mis' && replaceRestated }, by);
+      return {
+        text: `${file.name} published as v${v.version} — ${v.firstMonth} → ${v.lastMonth}, ${v.warnings.length} warning(s).`,
+        details: v.warnings,
+      };
+    });
+  };
+
+  const versions = [...(index?.versions ?? [])].reverse();
+
+  return (
+    <SectionCard
+      title="Dataset versions"
+      description={
+        active
+          ? `The deck is showing v${active.version} (${active.firstMonth} → ${active.lastMonth}), published ${when(active.createdAt)} by ${active.createdBy}.`
+          : 'No snapshot published yet — the deck is running on the bundled extract.'
+      }
+      actions={
+        <input
+          type="text"
+          value={user}
+          onChange={(e) => setUser(e.target.value)}
+          placeholder="Your name"
+          className="px-3 py-1.5 text-sm rounded-lg border border-slate-200 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-brand-200"
+        />
+      }
+    >
+      <div className="space-y-4">
+        {index && index.versions.length === 0 ? (
+          <div className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800 flex items-center justify-between gap-3">
+            <span>Publish the bundled extract as v1 — feed imports are applied on top of the active version.</span>
+            <button
+              disabled={busy}
+              onClick={() => run(async (by) => {
+                const v = await publishDataset(BUNDLED_DATASET, 'Bundled extract', by);
+                return { text: `Bundled extract published as v${v.version}.` };
+              })}
+              className="px-3 py-1.5 rounded-lg bg-amber-600 text-white text-xs font-medium hover:bg-amber-700 disabled:opacity-50"
+            >
+              Publish v1
+            </button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {DECK_FEEDS.map((feed) => (
+              <div key={feed} className="rounded-lg border border-slate-200 p-3 space-y-1.5">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-slate-800">{FEED_INFO[feed].label}</span>
+                  {active?.sourceFiles[feed] && (
+                    <span className="text-[11px] text-slate-400 truncate max-w-[50%]">{active.sourceFiles[feed]}</span>
+                  )}
+                </div>
+                <input type="file" accept={FEED_INFO[feed].accept} disabled={busy || !index} onChange={onFile(feed)} className={fileInputCls} />
+                <p className="text-[11px] text-slate-500">{FEED_INFO[feed].hint}</p>
+                {feed === 'mis' && (
+                  <label className="flex items-center gap-1.5 text-[11px] text-slate-500">
+                    <input type="checkbox" checked={replaceRestated} onChange={(e) => setReplaceRestated(e.target.checked)} />
+                    Replace restated months (otherwise they are kept as restated)
+                  </label>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {busy && <p className="text-xs text-slate-400">Working…</p>}
+        {status && (
+          <div className={`text-xs ${status.tone === 'error' ? 'text-rose-600' : 'text-emerald-700'}`}>
+            {status.text && <p>{status.text}</p>}
+            {status.details.length > 0 && (
+              <ul className="mt-1 list-disc pl-4 text-slate-500 max-h-40 overflow-y-auto">
+                {status.details.map((d, i) => <li key={i}>{d}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {versions.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-slate-400 border-b border-slate-200 text-left">
+                  <th className="py-2 pr-3 font-medium">Version</th>
+                  <th className="py-2 pr-3 font-medium">Published</th>
+                  <th className="py-2 pr-3 font-medium">Feeds</th>
+                  <th className="py-2 pr-3 font-medium">Months</th>
+                  <th className="py-2 pr-3 font-medium">Note</th>
+                  <th className="py-2 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {versions.map((v) => (
+                  <tr key={v.version} className="border-b border-slate-50 align-top text-slate-600">
+                    <td className="py-2 pr-3 font-medium text-slate-800">
+                      v{v.version}
+                      {v.basedOn !== null && <span className="block text-[11px] font-normal text-slate-400">on v{v.basedOn}</span>}
+                    </td>
+                    <td className="py-2 pr-3 text-xs">{when(v.createdAt)}<span className="block text-slate-400">{v.createdBy}</span></td>
+                    <td className="py-2 pr-3 text-xs">{v.feeds.map((f) => FEED_INFO[f].label).join(', ')}</td>
+                    <td className="py-2 pr-3 text-xs whitespace-nowrap">
+                      {v.firstMonth} → {v.lastMonth}
+                      <span className="block text-slate-400">{v.counts.months} months · {v.counts.skuCells} SKU cells</span>
+                    </td>
+                    <td className="py-2 pr-3 text-xs">
+                      {v.note}
+                      {v.warnings.length > 0 && <span className="block text-amber-600">{v.warnings.length} warning(s)</span>}
+                    </td>
+                    <td className="py-2 text-right">
+                      {index?.active === v.version ? (
+                        <Pill size="xs" color="emerald">Active</Pill>
+                      ) : (
+                        <button
+                          disabled={busy}
+                          onClick={() => run(async (by) => {
+                            await activateDatasetVersion(v.version, by);
+                            return { text: `The deck now shows v${v.version}.` };
+                          })}
+                          className="px-2.5 py-1 text-xs rounded-lg bg-slate-100 text-slate-600 hover:bg-slate-200 disabled:opacity-50"
+                        >
+                          {index?.active != null && v.version < index.active ? 'Roll back' : 'Activate'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </SectionCard>
+  );
+}
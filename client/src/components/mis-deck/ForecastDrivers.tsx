@@ -0,0 +1,208 @@
+import { SectionCard } from '../ui/Card';
+import { SALES_CHANNELS, type SalesChannel } from '../../data/misDeck/misDeckData';
+import { channelLabel } from '../../data/misDeck/analytics';
+import {
+  COST_BUCKETS,
+  FORECAST_HORIZONS,
+  DEFAULT_FORECAST_CONFIG,
+  type CostBucket,
+  type CostDriver,
+  type Forecast,
+  type ForecastConfig,
+  type RevenueMethod,
+} from '../../data/misDeck/forecast';
+
+const LAC = 1e5;
+
+// Drivers are edited in the unit they apply in: % of revenue, or ₹ Lac / month.
+function toInput(d: CostDriver): string {
+  return d.kind === 'pctOfRevenue' ? (d.value * 100).toFixed(1) : (d.value / LAC).toFixed(2);
+}
+function fromInput(kind: CostDriver['kind'], text: string): CostDriver | null {
+  const n = Number(text.trim().replace(/,/g, ''));
+  if (text.trim() === '' || !isFinite(n)) return null;
+  return { kind, value: kind === 'pctOfRevenue' ? n / 100 : n * LAC };
+}
+const unit = (kind: CostDriver['kind']) => (kind === 'pctOfRevenue' ? '% rev' : '₹ L/mo');
+
+const inputCls = 'w-20 px-1.5 py-0.5 text-right tabular-nums text-sm rounded border border-slate-200 focus:outline-none focus:ring-2 focus:ring-brand-200';
+const selectCls = 'px-2 py-1 text-xs rounded-lg border border-slate-200 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-brand-200';
+
+/**
+ * Assumptions behind the rolling forecast: horizon, revenue method per
+ * channel, a driver per cost bucket, and per-month driver overrides.
+ */
+export function ForecastDrivers({ forecast, config, onChange }: {
+  forecast: Forecast;
+  config: ForecastConfig;
+  onChange: (next: ForecastConfig) => void;
+}) {
+  const driverFor = (b: CostBucket): CostDriver => config.drivers[b] ?? forecast.defaults[b];
+
+  const setMethod = (c: SalesChannel, method: RevenueMethod | 'auto') => {
+    const channelMethods = { ...config.channelMethods };
+    if (method === 'auto') delete channelMethods[c];
+    else channelMethods[c] = method;
+    onChange({ ...config, channelMethods });
+  };
+
+  const setDriver = (b: CostBucket, driver: CostDriver | null) => {
+    const drivers = { ...config.drivers };
+    if (driver) drivers[b] = driver;
+    else delete drivers[b];
+    // Month overrides are in the bucket's unit, so a kind change drops them.
+    const overrides = driver && driver.kind !== driverFor(b).kind
+      ? Object.fromEntries(Object.entries(config.overrides).map(([k, o]) => {
+          const rest = { ...o };
+          delete rest[b];
+          return [k, rest];
+        }))
+      : config.overrides;
+    onChange({ ...config, drivers, overrides });
+  };
+
+  const setOverride = (monthKey: string, b: CostBucket, driver: CostDriver | null) => {
+    const month = { ...(config.overrides[monthKey] ?? {}) };
+    if (driver) month[b] = driver;
+    else delete month[b];
+    const overrides = { ...config.overrides, [monthKey]: month };
+    if (Object.keys(month).length === 0) delete overrides[monthKey];
+    onChange({ ...config, overrides });
+  };
+
+  return (
+    <SectionCard
+      title="Forecast drivers"
+      description="Defaults come from the trailing 6 months of actuals. Blank month cells use the horizon driver; type a value to override a single month."
+      actions={
+        <div className="flex items-center gap-2">
+          <select
+            value={config.horizon}
+            onChange={(e) => onChange({ ...config, horizon: Number(e.target.value) })}
+            className={selectCls}
+          >
+            {FORECAST_HORIZONS.map((h) => <option key={h} value={h}>{h} months</option>)}
+          </select>
+          <button
+            onClick={() => onChange({ ...DEFAULT_FORECAST_CONFIG, horizon: config.horizon })}
+            className="text-xs text-slate-500 hover:text-slate-800"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      }
+    >
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        <div>
+          <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">Revenue by channel</h4>
+          <table className="w-full text-sm">
+            <tbody>
+              {SALES_CHANNELS.map((c) => (
+                <tr key={c} className="border-b border-slate-50">
+                  <td className="py-1.5 text-slate-700">{channelLabel(c)}</td>
+                  <td className="py-1.5 text-right">
+                    <select
+                      value={config.channelMethods[c] ?? 'auto'}
+                      onChange={(e) => setMethod(c, e.target.value as RevenueMethod | 'auto')}
+                      className={selectCls}
+                    >
+                      <option value="auto">Auto ({forecast.methods[c]})</option>
+                      <option value="trend">Trend</option>
+                      <option value="seasonal">Seasonality</option>
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-[11px] text-slate-400 mt-2">
+            Seasonality mirrors the same month last year grown at the channel's TTM rate (needs 24 months of history);
+            trend compounds the last 3 months' level at its recent monthly growth, capped at ±8%/month.
+          </p>
+        </div>
+
+        <div>
+          <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">Cost drivers (whole horizon)</h4>
+          <table className="w-full text-sm">
+            <tbody>
+              {COST_BUCKETS.map((b) => {
+                const d = driverFor(b.id);
+                const custom = !!config.drivers[b.id];
+                return (
+                  <tr key={b.id} className="border-b border-slate-50">
+                    <td className="py-1.5 text-slate-700">{b.label}</td>
+                    <td className="py-1.5 text-right">
+                      <select
+                        value={d.kind}
+                        onChange={(e) => {
+                          const kind = e.target.value as CostDriver['kind'];
+                          const fallback = forecast.defaults[b.id];
+                          setDriver(b.id, fallback.kind === kind ? fallback : { kind, value: 0 });
+                        }}
+                        className={selectCls}
+                      >
+                        <option value="pctOfRevenue">% of revenue</option>
+                        <option value="fixed">Fixed / month</option>
+                      </select>
+                    </td>
+                    <td className="py-1.5 pl-2 text-right">
+                      <input
+                        key={`${b.id}:${d.kind}:${d.value}`}
+                        defaultValue={toInput(d)}
+                        onBlur={(e) => setDriver(b.id, fromInput(d.kind, e.target.value))}
+                        className={`${inputCls} ${custom ? 'border-brand-300 bg-brand-50/40' : ''}`}
+                      />
+                    </td>
+                    <td className="py-1.5 pl-1 text-[11px] text-slate-400 whitespace-nowrap">{unit(d.kind)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">Month overrides</h4>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm whitespace-nowrap">
+          <thead>
+            <tr className="text-xs text-slate-400 border-b border-slate-200">
+              <th className="py-2 pr-4 text-left font-medium sticky left-0 bg-white">Driver</th>
+              {forecast.months.map((m) => (
+                <th key={m.key} className="py-2 px-1 text-right font-medium text-slate-600">{m.label.replace(/ 20/, " '")}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {COST_BUCKETS.map((b) => {
+              const d = driverFor(b.id);
+              return (
+                <tr key={b.id} className="border-b border-slate-50 text-slate-600">
+                  <td className="py-1 pr-4 text-left sticky left-0 bg-white">
+                    {b.label} <span className="text-[10px] text-slate-400">({unit(d.kind)})</span>
+                  </td>
+                  {forecast.months.map((m) => {
+                    const o = config.overrides[m.key]?.[b.id];
+                    return (
+                      <td key={m.key} className="py-1 px-1">
+                        <input
+                          key={`${m.key}:${b.id}:${o?.value ?? ''}`}
+                          defaultValue={o ? toInput(o) : ''}
+                          placeholder={toInput(d)}
+                          onBlur={(e) => setOverride(m.key, b.id, fromInput(d.kind, e.target.value))}
+                          className={`${inputCls} ${o ? 'border-brand-300 bg-brand-50/40' : ''}`}
+                        />
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </SectionCard>
+  );
+}
+
+export default ForecastDrivers;
@@ -1,4 +1,4 @@
-import { useMemo, useRef, useState } from 'react';
+import { Fragment, useMemo, useRef, useState } from 'react';
 import { SectionCard } from '../ui/Card';
 import {
   MIS_SHEET_ROWS,
@@ -7,7 +7,13 @@ import {
   sumPoints,
   misFiscalYears,
   type MisEntity,
+  type MisPoint,
+  type MisSheetRow,
 } from '../../data/misDeck/misSheet';
+import { budgetPoint, budgetVariance, varianceTone } from '../../data/misDeck/budget';
+import { useBudget } from '../../data/budget/useBudget';
+import { BudgetCompareToggle } from './BudgetVariance';
+import { BudgetEditor } from './BudgetEditor';
 import {
   downloadMisFormat,
   parseMisFormat,
@@ -28,6 +34,14 @@ function fmtPct(v: number | null): string {
   if (v === null || !isFinite(v)) return '–';
   return `${(v * 100).toFixed(1)}%`;
 }
+function fmtCell(row: MisSheetRow, v: number | null): string {
+  return row.pct ? fmtPct(v) : row.count ? fmtCount(v) : fmtLac(v);
+}
+function fmtSignedCell(row: MisSheetRow, v: number | null): string {
+  if (v === null || !isFinite(v)) return '–';
+  const text = fmtCell(row, v);
+  return v > 0 ? `+${text}` : text;
+}
 function fmtRaw(v: number | null): string {
   if (v === null || !isFinite(v)) return '–';
   return v.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
@@ -45,14 +59,19 @@ export function MisSheetTab() {
   const [entity, setEntity] = useState<MisEntity>('company');
   const [imported, setImported] = useState<ImportedMis | null>(null);
   const [importError, setImportError] = useState<string | null>(null);
+  const [compare, setCompare] = useState(false);
+  const [editingBudget, setEditingBudget] = useState(false);
   const fileRef = useRef<HTMLInputElement>(null);
+  const { budget } = useBudget();
 
   const fy = fiscalYears[Math.min(fyIdx, fiscalYears.length - 1)];
   const monthPoints = fy.months.map((m) => misPoint(m, entity));
   const totalPoint = sumPoints(monthPoints);
-  const columns = [
-    ...fy.months.map((m, i) => ({ label: m.label, point: monthPoints[i] })),
-    { label: `${fy.name} Total`, point: totalPoint },
+  // The FY total budget covers the same months as the actuals, so a year in
+  // progress is compared like for like.
+  const columns: { label: string; point: MisPoint; budget: MisPoint | null }[] = [
+    ...fy.months.map((m, i) => ({ label: m.label, point: monthPoints[i], budget: budgetPoint(budget, [m.key], entity) })),
+    { label: `${fy.name} Total`, point: totalPoint, budget: budgetPoint(budget, fy.months.map((m) => m.key), entity) },
   ];
 
   const onImport = async (file: File) => {
@@ -81,6 +100,15 @@ export function MisSheetTab() {
           </p>
         </div>
         <div className="flex items-center gap-2 flex-wrap">
+          <BudgetCompareToggle value={compare} onChange={setCompare} />
+          <button
+            onClick={() => setEditingBudget((v) => !v)}
+            className={`px-3 py-1.5 rounded-lg border text-sm font-medium transition-colors ${
+              editingBudget ? 'border-brand-200 bg-brand-50 text-brand-700' : 'border-slate-200 bg-white text-slate-700 hover:bg-slate-50'
+            }`}
+          >
+            Edit budget
+          </button>
           <select
             value={entity}
             onChange={(e) => setEntity(e.target.value as MisEntity)}
@@ -127,9 +155,14 @@ export function MisSheetTab() {
         <div className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-700">{importError}</div>
       )}
 
+      {editingBudget && <BudgetEditor entity={entity} fyKey={fy.key} onClose={() => setEditingBudget(false)} />}
+
       <SectionCard
-        title={`MIS · ${MIS_ENTITIES.find((e) => e.id === entity)?.label} · ${fy.name}`}
-        description="Particulars in ₹ Lac. Costs are positive magnitudes; contribution margins are signed. Percentages are of net revenue (GM%/CM%/EBITDA%) or of gross revenue (Net Revenue %)."
+        title={`MIS · ${MIS_ENTITIES.find((e) => e.id === entity)?.label} · ${fy.name}${compare ? ' · vs Budget' : ''}`}
+        description={
+          'Particulars in ₹ Lac. Costs are positive magnitudes; contribution margins are signed. Percentages are of net revenue (GM%/CM%/EBITDA%) or of gross revenue (Net Revenue %).' +
+          (compare ? ' Variance is actual − budget (percentage points for % rows), coloured favourable (emerald) or adverse (rose) — under budget is favourable for cost lines.' : '')
+        }
       >
         <div className="overflow-x-auto">
           <table className="w-full text-sm whitespace-nowrap">
@@ -137,9 +170,22 @@ export function MisSheetTab() {
               <tr className="text-xs text-slate-400 border-b border-slate-200">
                 <th className="py-2 pr-4 text-left font-medium sticky left-0 bg-white">Particulars in INR Lac</th>
                 {columns.map((c) => (
-                  <th key={c.label} className="py-2 px-3 text-right font-medium text-slate-600">{c.label}</th>
+                  <th key={c.label} colSpan={compare ? 4 : 1} className={`py-2 px-3 font-medium text-slate-600 ${compare ? 'text-center border-l border-slate-100' : 'text-right'}`}>{c.label}</th>
                 ))}
               </tr>
+              {compare && (
+                <tr className="text-[10px] uppercase tracking-wide text-slate-400 border-b border-slate-200">
+                  <th className="sticky left-0 bg-white" />
+                  {columns.map((c) => (
+                    <Fragment key={c.label}>
+                      <th className="py-1 px-3 text-right font-medium border-l border-slate-100">Actual</th>
+                      <th className="py-1 px-3 text-right font-medium">Budget</th>
+                      <th className="py-1 px-3 text-right font-medium">Var</th>
+                      <th className="py-1 px-3 text-right font-medium">Var %</th>
+                    </Fragment>
+                  ))}
+                </tr>
+              )}
             </thead>
             <tbody>
               {MIS_SHEET_ROWS.map((row) => (
@@ -148,11 +194,24 @@ export function MisSheetTab() {
                   {columns.map((c, ci) => {
                     const raw = row.get(c.point);
                     const isTotal = ci === columns.length - 1;
-                    return (
-                      <td key={c.label} className={`py-1.5 px-3 text-right tabular-nums ${isTotal ? 'font-medium bg-slate-50/60' : ''}`}>
-                        {row.pct ? fmtPct(raw) : row.count ? fmtCount(raw) : fmtLac(raw)}
+                    const actual = (
+                      <td key={c.label} className={`py-1.5 px-3 text-right tabular-nums ${isTotal ? 'font-medium bg-slate-50/60' : ''} ${compare ? 'border-l border-slate-100' : ''}`}>
+                        {fmtCell(row, raw)}
                       </td>
                     );
+                    if (!compare) return actual;
+                    const v = budgetVariance(raw, c.budget ? row.get(c.budget) : null, row.cost);
+                    const tone = varianceTone(v);
+                    return (
+                      <Fragment key={c.label}>
+                        {actual}
+                        <td className={`py-1.5 px-3 text-right tabular-nums text-slate-500 ${isTotal ? 'bg-slate-50/60' : ''}`}>{fmtCell(row, v.budget)}</td>
+                        <td className={`py-1.5 px-3 text-right tabular-nums ${tone} ${isTotal ? 'bg-slate-50/60' : ''}`}>{fmtSignedCell(row, v.variance)}</td>
+                        <td className={`py-1.5 px-3 text-right tabular-nums ${tone} ${isTotal ? 'bg-slate-50/60' : ''}`}>
+                          {row.pct ? '–' : v.variancePct === null ? '–' : `${v.variancePct > 0 ? '+' : ''}${(v.variancePct * 100).toFixed(1)}%`}
+                        </td>
+                      </Fragment>
+                    );
                   })}
                 </tr>
               ))}
@@ -0,0 +1,399 @@
+import { useMemo, useState } from 'react';
+import { SectionCard } from '../ui/Card';
+import { inr, pctStr, pctSigned, CHANNEL_COLORS } from './charts';
+import {
+  seriesFor,
+  channelLabel,
+  COGS_RATE,
+  FACTORY_PCT,
+  type Granularity,
+} from '../../data/misDeck/analytics';
+import {
+  EMPTY_LEVERS,
+  applyScenario,
+  feedRates,
+  leverCount,
+  scenarioBase,
+  totalOf,
+  type ScenarioTotals,
+} from '../../data/misDeck/scenario';
+import { useScenarios } from '../../data/scenarios/useScenarios';
+import { getCurrentUser, setCurrentUser } from '../../data/currentUser';
+import type { Scenario, ScenarioLevers } from '../../types/scenario';
+
+const inputCls = 'w-20 px-1.5 py-0.5 text-right tabular-nums text-sm rounded border border-slate-200 focus:outline-none focus:ring-2 focus:ring-brand-200';
+const selectCls = 'px-3 py-1.5 text-sm rounded-lg border border-slate-200 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-brand-200';
+
+type LeverMap = 'growth' | 'adSpend' | 'feeRate';
+
+const CASCADE: { label: string; key: keyof ScenarioTotals; kind: 'rev' | 'cost' | 'margin' }[] = [
+  { label: 'Net Revenue', key: 'netRevenue', kind: 'rev' },
+  { label: '  COGM', key: 'cogm', kind: 'cost' },
+  { label: 'Gross Margin', key: 'grossMargin', kind: 'margin' },
+  { label: '  Channel & Fulfillment', key: 'channelFulfillment', kind: 'cost' },
+  { label: 'CM1', key: 'cm1', kind: 'margin' },
+  { label: '  Sales & Marketing', key: 'salesMarketing', kind: 'cost' },
+  { label: 'CM2', key: 'cm2', kind: 'margin' },
+  { label: '  Brand Investment', key: 'platformCosts', kind: 'cost' },
+  { label: 'CM3', key: 'cm3', kind: 'margin' },
+  { label: '  Operating Expenses', key: 'opex', kind: 'cost' },
+  { label: 'EBITDA', key: 'ebitda', kind: 'margin' },
+  { label: '  Non-Operating', key: 'nonOperating', kind: 'cost' },
+  { label: 'Net Income', key: 'netIncome', kind: 'margin' },
+];
+
+// Levers are typed as percentages; blank leaves the lever at the base.
+function toPct(v: number | undefined): string {
+  return v === undefined ? '' : String(Math.round(v * 1000) / 10);
+}
+function fromPct(text: string): number | undefined {
+  const n = Number(text.trim().replace(/%/g, ''));
+  return text.trim() === '' || !isFinite(n) ? undefined : n / 100;
+}
+
+function PctInput({ value, placeholder, onCommit }: {
+  value: number | undefined;
+  placeholder: string;
+  onCommit: (v: number | undefined) => void;
+}) {
+  return (
+    <input
+      key={String(value)}
+      defaultValue={toPct(value)}
+      placeholder={placeholder}
+      onBlur={(e) => onCommit(fromPct(e.target.value))}
+      className={`${inputCls} ${value !== undefined ? 'border-brand-300 bg-brand-50/40' : ''}`}
+    />
+  );
+}
+
+/**
+ * What-if sandbox over one base period: move channel growth, ad spend, fee
+ * rates and the COGS / factory assumptions, save the set as a named scenario
+ * and compare saved scenarios side by side against the base.
+ */
+export function ScenarioTab() {
+  const [g, setG] = useState<Granularity>('year');
+  const series = useMemo(() => seriesFor(g), [g]);
+  const [periodKey, setPeriodKey] = useState<string | null>(null);
+  const p = series.find((s) => s.key === periodKey) ?? series[series.length - 1];
+
+  const base = useMemo(() => scenarioBase(g, p), [g, p]);
+  const baseTotal = useMemo(() => totalOf(base), [base]);
+  const feed = useMemo(() => feedRates(g, p), [g, p]);
+
+  const { scenarios, save, remove } = useScenarios();
+  const [levers, setLevers] = useState<ScenarioLevers>(EMPTY_LEVERS);
+  const [loadedId, setLoadedId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [user, setUser] = useState(getCurrentUser());
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ tone: 'ok' | 'error'; text: string } | null>(null);
+
+  const working = applyScenario(base, levers);
+  const columns = [
+    { id: 'working', title: name.trim() || 'Working scenario', total: working.total },
+    ...scenarios
+      .filter((s) => compareIds.includes(s.id) && s.id !== loadedId)
+      .map((s) => ({ id: s.id, title: s.name, total: applyScenario(base, s.levers).total })),
+  ];
+
+  const setChannelLever = (map: LeverMap, channel: string, v: number | undefined) => {
+    setLevers((l) => {
+      const next = { ...l[map] };
+      if (v === undefined) delete next[channel];
+      else next[channel] = v;
+      return { ...l, [map]: next };
+    });
+  };
+
+  const load = (s: Scenario) => {
+    setLevers(s.levers);
+    setLoadedId(s.id);
+    setName(s.name);
+    setMessage(null);
+  };
+
+  const reset = () => {
+    setLevers(EMPTY_LEVERS);
+    setLoadedId(null);
+    setName('');
+    setMessage(null);
+  };
+
+  const onSave = async (asNew: boolean) => {
+    if (!name.trim()) return setMessage({ tone: 'error', text: 'Give the scenario a name first.' });
+    if (!user.trim()) return setMessage({ tone: 'error', text: 'Enter your name before saving.' });
+    setBusy(true);
+    setMessage(null);
+    try {
+      setCurrentUser(user);
+      const saved = await save(name.trim(), levers, user.trim(), asNew ? undefined : loadedId ?? undefined);
+      setLoadedId(saved.id);
+      setMessage({ tone: 'ok', text: `Saved "${saved.name}".` });
+    } catch (err) {
+      setMessage({ tone: 'error', text: err instanceof Error ? err.message : 'Failed to save scenario' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onDelete = async (s: Scenario) => {
+    if (!window.confirm(`Delete scenario "${s.name}"?`)) return;
+    try {
+      await remove(s.id, user.trim() || 'unknown');
+      setCompareIds((ids) => ids.filter((id) => id !== s.id));
+      if (loadedId === s.id) setLoadedId(null);
+    } catch (err) {
+      setMessage({ tone: 'error', text: err instanceof Error ? err.message : 'Failed to delete scenario' });
+    }
+  };
+
+  const signed = (kind: 'rev' | 'cost' | 'margin', v: number) => (kind === 'cost' ? -v : v);
+  // Cost deltas are favourable when the cost falls.
+  const deltaTone = (kind: 'rev' | 'cost' | 'margin', d: number) => {
+    if (Math.abs(d) < 1) return 'text-slate-400';
+    return (kind === 'cost' ? d < 0 : d > 0) ? 'text-emerald-600' : 'text-rose-600';
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <div>
+          <h2 className="text-sm font-semibold text-slate-700">Scenarios</h2>
+          <p className="text-xs text-slate-400">
+            What-if levers on a base period's channel P&amp;L. Revenue, COGM and fees move with volume; ad spend moves on its own;
+            brand investment, opex and non-operating stay fixed.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select value={g} onChange={(e) => { setG(e.target.value as Granularity); setPeriodKey(null); }} className={selectCls}>
+            <option value="month">Monthly</option>
+            <option value="quarter">Quarterly</option>
+            <option value="year">Yearly</option>
+          </select>
+          <select value={p.key} onChange={(e) => setPeriodKey(e.target.value)} className={selectCls}>
+            {series.map((s) => <option key={s.key} value={s.key}>{s.longLabel}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <SectionCard
+        title="Levers"
+        description={`Base: ${p.longLabel}. Blank cells keep the base value; type a % to move a lever. Ad spend doesn't move revenue by itself — pair it with a growth assumption.`}
+        actions={
+          <button onClick={reset} className="text-xs text-slate-500 hover:text-slate-800">Clear levers</button>
+        }
+      >
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm whitespace-nowrap">
+            <thead>
+              <tr className="text-xs text-slate-400 border-b border-slate-200">
+                <th className="py-2 pr-4 text-left font-medium">Channel</th>
+                <th className="py-2 px-3 text-right font-medium">Base revenue</th>
+                <th className="py-2 px-3 text-right font-medium">Revenue growth %</th>
+                <th className="py-2 px-3 text-right font-medium">Base ad spend</th>
+                <th className="py-2 px-3 text-right font-medium">Ad spend change %</th>
+                <th className="py-2 px-3 text-right font-medium">Fee rate % of rev</th>
+              </tr>
+            </thead>
+            <tbody>
+              {base.map((b) => {
+                const feeBase = b.netRevenue > 0 ? b.channelFulfillment / b.netRevenue : 0;
+                const fr = feed[b.channel];
+                return (
+                  <tr key={b.channel} className="border-b border-slate-50 text-slate-700">
+                    <td className="py-1.5 pr-4">
+                      <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ background: CHANNEL_COLORS[b.channel] }} />
+                      {channelLabel(b.channel)}
+                    </td>
+                    <td className="py-1.5 px-3 text-right tabular-nums text-slate-500">{inr(b.netRevenue)}</td>
+                    <td className="py-1.5 px-3 text-right">
+                      <PctInput value={levers.growth[b.channel]} placeholder="0" onCommit={(v) => setChannelLever('growth', b.channel, v)} />
+                    </td>
+                    <td className="py-1.5 px-3 text-right tabular-nums text-slate-500">{inr(b.salesMarketing)}</td>
+                    <td className="py-1.5 px-3 text-right">
+                      <PctInput value={levers.adSpend[b.channel]} placeholder="0" onCommit={(v) => setChannelLever('adSpend', b.channel, v)} />
+                    </td>
+                    <td className="py-1.5 px-3 text-right">
+                      <PctInput value={levers.feeRate[b.channel]} placeholder={toPct(feeBase)} onCommit={(v) => setChannelLever('feeRate', b.channel, v)} />
+                      {fr && <div className="text-[10px] text-slate-400 mt-0.5">feed {pctStr(fr.feeRate)}</div>}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mt-4 flex items-center gap-6 flex-wrap text-sm text-slate-700">
+          <label className="flex items-center gap-2">
+            Product COGS % of rev
+            <PctInput value={levers.cogsRate} placeholder={toPct(COGS_RATE)} onCommit={(v) => setLevers((l) => ({ ...l, cogsRate: v }))} />
+          </label>
+          <label className="flex items-center gap-2">
+            Factory % of rev
+            <PctInput value={levers.factoryPct} placeholder={toPct(FACTORY_PCT)} onCommit={(v) => setLevers((l) => ({ ...l, factoryPct: v }))} />
+          </label>
+          <span className="text-[11px] text-slate-400">
+            Changes vs today's {pctStr(COGS_RATE, 0)} / {pctStr(FACTORY_PCT, 0)} assumptions shift every channel's booked COGM %.
+          </span>
+        </div>
+
+        <div className="mt-5 flex items-center gap-2 flex-wrap">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Scenario name"
+            className="px-3 py-1.5 text-sm rounded-lg border border-slate-200 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-brand-200"
+          />
+          <input
+            type="text"
+            value={user}
+            onChange={(e) => setUser(e.target.value)}
+            placeholder="Your name"
+            className="px-3 py-1.5 text-sm rounded-lg border border-slate-200 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-brand-200"
+          />
+          <button
+            onClick={() => onSave(false)}
+            disabled={busy}
+            className="px-3 py-1.5 rounded-lg bg-brand-600 text-white text-sm font-medium hover:bg-brand-700 disabled:opacity-50"
+          >
+            {busy ? 'Saving…' : loadedId ? 'Save changes' : 'Save scenario'}
+          </button>
+          {loadedId && (
+            <button
+              onClick={() => onSave(true)}
+              disabled={busy}
+              className="px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-slate-700 text-sm font-medium hover:bg-slate-50 disabled:opacity-50"
+            >
+              Save as new
+            </button>
+          )}
+          <span className="text-xs text-slate-400">{leverCount(levers)} lever{leverCount(levers) === 1 ? '' : 's'} set</span>
+          {message && (
+            <span className={`text-xs ${message.tone === 'ok' ? 'text-emerald-600' : 'text-rose-600'}`}>{message.text}</span>
+          )}
+        </div>
+      </SectionCard>
+
+      {scenarios.length > 0 && (
+        <SectionCard title="Saved scenarios" description="Tick scenarios to add them to the comparison; Load copies the levers into the editor.">
+          <table className="w-full text-sm">
+            <tbody>
+              {scenarios.map((s) => (
+                <tr key={s.id} className={`border-b border-slate-50 ${s.id === loadedId ? 'bg-brand-50/40' : ''}`}>
+                  <td className="py-1.5 pr-2 w-6">
+                    <input
+                      type="checkbox"
+                      checked={compareIds.includes(s.id)}
+                      onChange={(e) => setCompareIds((ids) => (e.target.checked ? [...ids, s.id] : ids.filter((id) => id !== s.id)))}
+                    />
+                  </td>
+                  <td className="py-1.5 text-slate-800 font-medium">{s.name}</td>
+                  <td className="py-1.5 text-xs text-slate-400">
+                    {leverCount(s.levers)} levers · {new Date(s.updatedAt).toLocaleDateString('en-IN')}{s.updatedBy ? ` by ${s.updatedBy}` : ''}
+                  </td>
+                  <td className="py-1.5 text-right whitespace-nowrap">
+                    <button onClick={() => load(s)} className="text-xs text-brand-700 hover:underline mr-3">Load</button>
+                    <button onClick={() => onDelete(s)} className="text-xs text-rose-600 hover:underline">Delete</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </SectionCard>
+      )}
+
+      <SectionCard
+        title={`Scenario vs base · ${p.longLabel}`}
+        description="Each scenario column shows the figure and its change vs base; margins show % of revenue. Green is favourable."
+      >
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm whitespace-nowrap">
+            <thead>
+              <tr className="text-xs text-slate-400 border-b border-slate-200">
+                <th className="py-2 pr-4 text-left font-medium">Line</th>
+                <th className="py-2 px-3 text-right font-medium text-slate-600">Base</th>
+                {columns.map((c) => (
+                  <th key={c.id} className="py-2 px-3 text-right font-medium text-slate-600">{c.title}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {CASCADE.map((row) => {
+                const isMargin = row.kind !== 'cost';
+                const baseV = baseTotal[row.key];
+                return (
+                  <tr key={row.key} className={`border-b border-slate-50 ${isMargin ? 'font-semibold text-slate-800' : 'text-slate-600'}`}>
+                    <td className="py-2 pr-4 text-left whitespace-pre">{row.label}</td>
+                    <td className="py-2 px-3 text-right tabular-nums">
+                      {inr(signed(row.kind, baseV))}
+                      {row.kind === 'margin' && <div className="text-[10px] font-normal text-slate-400">{pctStr(baseTotal.netRevenue ? baseV / baseTotal.netRevenue : null)}</div>}
+                    </td>
+                    {columns.map((c) => {
+                      const v = c.total[row.key];
+                      const d = v - baseV;
+                      return (
+                        <td key={c.id} className="py-2 px-3 text-right tabular-nums">
+                          {inr(signed(row.kind, v))}
+                          <div className={`text-[10px] font-normal ${deltaTone(row.kind, d)}`}>
+                            {inr(d, { sign: true })}
+                            {row.kind === 'margin' && ` · ${pctStr(c.total.netRevenue ? v / c.total.netRevenue : null)}`}
+                          </div>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </SectionCard>
+
+      <SectionCard
+        title="By channel · working scenario"
+        description="Where the change lands: each channel's revenue, CM2 and EBITDA contribution, base → scenario."
+      >
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm whitespace-nowrap">
+            <thead>
+              <tr className="text-xs text-slate-400 border-b border-slate-200">
+                <th className="py-2 pr-4 text-left font-medium">Channel</th>
+                <th className="py-2 px-3 text-right font-medium">Revenue</th>
+                <th className="py-2 px-3 text-right font-medium">Revenue Δ</th>
+                <th className="py-2 px-3 text-right font-medium">CM2</th>
+                <th className="py-2 px-3 text-right font-medium">CM2 %</th>
+                <th className="py-2 px-3 text-right font-medium">CM2 Δ</th>
+                <th className="py-2 px-3 text-right font-medium">EBITDA Δ</th>
+              </tr>
+            </thead>
+            <tbody>
+              {working.rows.map((r, i) => {
+                const b = base[i];
+                return (
+                  <tr key={r.channel} className="border-b border-slate-50 text-slate-700">
+                    <td className="py-1.5 pr-4">{channelLabel(r.channel)}</td>
+                    <td className="py-1.5 px-3 text-right tabular-nums">{inr(r.netRevenue)}</td>
+                    <td className={`py-1.5 px-3 text-right tabular-nums ${deltaTone('rev', r.netRevenue - b.netRevenue)}`}>
+                      {b.netRevenue > 0 ? pctSigned(r.netRevenue / b.netRevenue - 1) : '–'}
+                    </td>
+                    <td className="py-1.5 px-3 text-right tabular-nums">{inr(r.cm2)}</td>
+                    <td className="py-1.5 px-3 text-right tabular-nums text-slate-500">{pctStr(r.netRevenue ? r.cm2 / r.netRevenue : null)}</td>
+                    <td className={`py-1.5 px-3 text-right tabular-nums ${deltaTone('margin', r.cm2 - b.cm2)}`}>{inr(r.cm2 - b.cm2, { sign: true })}</td>
+                    <td className={`py-1.5 px-3 text-right tabular-nums ${deltaTone('margin', r.ebitda - b.ebitda)}`}>{inr(r.ebitda - b.ebitda, { sign: true })}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </SectionCard>
+    </div>
+  );
+}
+
+export default ScenarioTab;
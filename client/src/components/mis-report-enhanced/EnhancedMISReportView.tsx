@@ -4,11 +4,14 @@ import { formatCurrencyFull } from '../../utils/misCalculator';
 import { CollapsibleSection, MarginRow } from './CollapsibleSection';
 import { SubheadRow } from './SubheadRow';
 import { FormulaInfoModal, InfoTooltip } from './FormulaInfoModal';
-import { ReclassifyModal } from './ReclassifyModal';
+import { ReclassifyModal, ReclassifyAudit } from './ReclassifyModal';
 import { IgnoredTransactionsSection } from './IgnoredTransactionsSection';
 import { MIS_FORMULAS, MarginType, SUBHEAD_DESCRIPTIONS, HEAD_DESCRIPTIONS } from '../../config/misFormulas';
 import { saveLearnedPattern } from '../../utils/googleSheetsStorage';
-import { ArrowsPointingOutIcon, ArrowsPointingInIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { usePeriodClose, assertPeriodWritable } from '../../data/periodClose/usePeriodClose';
+import { appendReclassification } from '../../data/reclassifications/reclassificationLog';
+import { reclassificationMatchKey } from '../../types/reclassification';
+import { ArrowsPointingOutIcon, ArrowsPointingInIcon, ArrowDownTrayIcon, LockClosedIcon } from '@heroicons/react/24/outline';
 
 interface EnhancedMISReportViewProps {
   misRecord: MISRecord;
@@ -31,6 +34,14 @@ export function EnhancedMISReportView({ misRecord, onRecalculate }: EnhancedMISR
   // Expand/Collapse all state
   const [allExpanded, setAllExpanded] = useState(true);
 
+  // Locked periods are read-only: no reclassification until reopened
+  const { getRecord } = usePeriodClose();
+  const closeRecord = getRecord(misRecord.periodKey);
+  const isLocked = closeRecord?.status === 'locked';
+  // Aggregated ranges ("2024-04_to_2024-06") have no log of their own
+  const isSinglePeriod = !misRecord.periodKey.includes('_to_');
+  const canReclassify = !isLocked && isSinglePeriod;
+
   const netRevenue = misRecord.revenue.netRevenue || 1;
   const transactionsByHead = misRecord.transactionsByHead || {};
 
@@ -51,6 +62,8 @@ export function EnhancedMISReportView({ misRecord, onRecalculate }: EnhancedMISR
 
   // Handle reclassify button click
   const handleReclassifyClick = useCallback((transactionId: string, head: MISHead, subhead: string) => {
+    if (!canReclassify) return;
+
     // Find the transaction in transactionsByHead
     let foundTxn: TransactionRef | null = null;
 
@@ -84,17 +97,35 @@ export function EnhancedMISReportView({ misRecord, onRecalculate }: EnhancedMISR
       setSelectedTransaction(foundTxn);
       setReclassifyModalOpen(true);
     }
-  }, [transactionsByHead, misRecord.unclassifiedTransactions]);
+  }, [canReclassify, transactionsByHead, misRecord.unclassifiedTransactions]);
 
   // Handle reclassification
   const handleReclassify = useCallback(async (
     transactionId: string,
     newHead: MISHead,
     newSubhead: string,
+    audit: ReclassifyAudit,
     createRule: boolean,
     pattern?: string,
     matchType?: 'exact' | 'contains' | 'regex'
   ) => {
+    await assertPeriodWritable(misRecord.periodKey);
+    if (!selectedTransaction) return;
+
+    // Record the move in the period's log; it is replayed on every recompute
+    await appendReclassification(misRecord.periodKey, {
+      transactionId,
+      matchKey: reclassificationMatchKey(selectedTransaction),
+      account: selectedTransaction.account,
+      amount: selectedTransaction.amount,
+      fromHead: selectedTxnHead,
+      fromSubhead: selectedTxnSubhead,
+      toHead: newHead,
+      toSubhead: newSubhead,
+      user: audit.user,
+      reason: audit.reason
+    });
+
     if (createRule && pattern) {
       // Create a new rule
       const newPattern: LearnedPattern = {
@@ -118,7 +149,7 @@ export function EnhancedMISReportView({ misRecord, onRecalculate }: EnhancedMISR
     if (onRecalculate) {
       await onRecalculate();
     }
-  }, [selectedTransaction, onRecalculate]);
+  }, [misRecord.periodKey, selectedTransaction, selectedTxnHead, selectedTxnSubhead, onRecalculate]);
 
   // Get subheads for a head with their transactions
   const getSubheadsForHead = (headKey: string) => {
@@ -145,6 +176,19 @@ export function EnhancedMISReportView({ misRecord, onRecalculate }: EnhancedMISR
             <p className="text-sm text-slate-400 mt-1">
               {misRecord.states.join(', ')} | {totalTransactions} transactions
             </p>
+            {isLocked && (
+              <p className="flex items-center gap-1.5 text-xs text-amber-700 mt-1">
+                <LockClosedIcon className="h-3.5 w-3.5" />
+                Locked{closeRecord?.lockedBy ? ` by ${closeRecord.lockedBy}` : ''} — reclassification disabled until the period is reopened
+              </p>
+            )}
+            {misRecord.reclassifications && (
+              <p className="text-xs text-slate-500 mt-1">
+                {misRecord.reclassifications.applied} manual reclassification{misRecord.reclassifications.applied === 1 ? '' : 's'} applied
+                {misRecord.reclassifications.unmatched.length > 0 &&
+                  ` · ${misRecord.reclassifications.unmatched.length} no longer match an uploaded transaction`}
+              </p>
+            )}
           </div>
           <div className="flex items-center gap-3">
             {/* Expand/Collapse All */}
@@ -4,6 +4,12 @@ import { MISHead, TransactionRef, LearnedPattern } from '../../types/misTracking
 import { MIS_HEADS_CONFIG } from '../../utils/misClassifier';
 import { formatCurrencyFull } from '../../utils/misCalculator';
 import { saveLearnedPattern } from '../../utils/googleSheetsStorage';
+import { getCurrentUser, setCurrentUser } from '../../data/currentUser';
+
+export interface ReclassifyAudit {
+  user: string;
+  reason: string;
+}
 
 interface ReclassifyModalProps {
   isOpen: boolean;
@@ -11,7 +17,7 @@ interface ReclassifyModalProps {
   transaction: TransactionRef | null;
   currentHead: MISHead;
   currentSubhead: string;
-  onReclassify: (transactionId: string, newHead: MISHead, newSubhead: string, createRule: boolean, pattern?: string, matchType?: 'exact' | 'contains' | 'regex') => Promise<void>;
+  onReclassify: (transactionId: string, newHead: MISHead, newSubhead: string, audit: ReclassifyAudit, createRule: boolean, pattern?: string, matchType?: 'exact' | 'contains' | 'regex') => Promise<void>;
 }
 
 type MatchType = 'exact' | 'contains' | 'regex';
@@ -29,6 +35,8 @@ export function ReclassifyModal({
   const [createRule, setCreateRule] = useState(true);
   const [pattern, setPattern] = useState('');
   const [matchType, setMatchType] = useState<MatchType>('contains');
+  const [user, setUser] = useState(getCurrentUser());
+  const [reason, setReason] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -42,6 +50,7 @@ export function ReclassifyModal({
       const defaultPattern = extractDefaultPattern(transaction.account);
       setPattern(defaultPattern);
       setMatchType('contains');
+      setReason('');
       setError(null);
     }
   }, [transaction, currentHead, currentSubhead]);
@@ -72,6 +81,11 @@ export function ReclassifyModal({
       return;
     }
 
+    if (!user.trim() || !reason.trim()) {
+      setError('Please enter your name and a reason for the change');
+      return;
+    }
+
     if (createRule && !pattern.trim()) {
       setError('Please enter a pattern for the rule');
       return;
@@ -81,10 +95,12 @@ export function ReclassifyModal({
     setError(null);
 
     try {
+      setCurrentUser(user.trim());
       await onReclassify(
         transaction.id,
         selectedHead,
         selectedSubhead,
+        { user: user.trim(), reason: reason.trim() },
         createRule,
         createRule ? pattern.trim() : undefined,
         createRule ? matchType : undefined
@@ -187,6 +203,34 @@ export function ReclassifyModal({
             </div>
           </div>
 
+          {/* Audit Trail */}
+          <div className="bg-white/50 rounded-lg p-4 border border-slate-200 space-y-3">
+            <p className="text-xs text-slate-500 uppercase tracking-wide">Audit Trail</p>
+            <div>
+              <label className="block text-sm text-slate-400 mb-2">Your name</label>
+              <input
+                type="text"
+                value={user}
+                onChange={(e) => setUser(e.target.value)}
+                placeholder="Who is making this change"
+                className="w-full bg-white border border-slate-300 rounded-lg px-3 py-2 text-slate-800 focus:outline-none focus:border-teal-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-slate-400 mb-2">Reason</label>
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={2}
+                placeholder="Why does this transaction belong under the new head?"
+                className="w-full bg-white border border-slate-300 rounded-lg px-3 py-2 text-slate-800 focus:outline-none focus:border-teal-500"
+              />
+              <p className="text-xs text-slate-500 mt-1">
+                Recorded in the period's reclassification log and re-applied on every recompute
+              </p>
+            </div>
+          </div>
+
           {/* Create Rule Option */}
           <div className="bg-white/50 rounded-lg p-4 border border-slate-200">
             <label className="flex items-center gap-3 cursor-pointer mb-4">
@@ -268,10 +312,10 @@ export function ReclassifyModal({
           </button>
           <button
             onClick={handleSubmit}
-            disabled={!isChanged || isSubmitting || !selectedSubhead}
+            disabled={!isChanged || isSubmitting || !selectedSubhead || !reason.trim()}
             className={`
               px-4 py-2 rounded-lg flex items-center gap-2 transition-colors
-              ${isChanged && selectedSubhead
+              ${isChanged && selectedSubhead && reason.trim()
                 ? 'bg-teal-600 hover:bg-teal-500 text-white'
                 : 'bg-slate-100 text-slate-500 cursor-not-allowed'}
             `}
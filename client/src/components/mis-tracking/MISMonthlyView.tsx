@@ -348,11 +348,12 @@ interface MISMonthlyViewProps {
   savedPeriods: { periodKey: string; period: MISPeriod }[];
   onPeriodChange: (periodKey: string) => void;
   allMISRecords?: MISRecord[]; // All records for aggregation
+  onRegenerate?: (periodKey: string) => Promise<void>; // Recompute a single month (e.g. after a reclassification)
 }
 
 type ViewMode = 'classic' | 'enhanced';
 
-export function MISMonthlyView({ currentMIS, savedPeriods, onPeriodChange, allMISRecords = [] }: MISMonthlyViewProps) {
+export function MISMonthlyView({ currentMIS, savedPeriods, onPeriodChange, allMISRecords = [], onRegenerate }: MISMonthlyViewProps) {
   const [showChannelBreakdown, setShowChannelBreakdown] = useState(true);
   const [showAlgorithmGuide, setShowAlgorithmGuide] = useState(false);
   const [selectionMode, setSelectionMode] = useState<SelectionMode>('single');
@@ -792,7 +793,11 @@ export function MISMonthlyView({ currentMIS, savedPeriods, onPeriodChange, allMI
         {displayMIS && viewMode === 'enhanced' && (
           <EnhancedMISReportView
             misRecord={displayMIS}
-            onRecalculate={undefined}
+            onRecalculate={
+              onRegenerate && selectionMode === 'single'
+                ? () => onRegenerate(displayMIS.periodKey)
+                : undefined
+            }
           />
         )}
 
@@ -0,0 +1,21 @@
+// Amazon location / disposition → Tranzact store
+// Update this when stores are added in Tranzact (names must match exactly)
+
+/** Sellable FBA stock, when its fulfilment centre has no store of its own. */
+export const AMAZON_SELLABLE_STORE = 'Amazon (Pan-India)';
+
+/** Stock listed for merchant fulfilment (-FBM SKUs) — held in our own warehouse. */
+export const AMAZON_FBM_STORE = 'Amazon FBM (Own Warehouse)';
+
+/** Unsellable stock whose disposition has no store below. */
+export const AMAZON_UNSELLABLE_STORE = 'Amazon Unsellable';
+
+/** Fulfilment centre code → store, for FCs tracked separately (e.g. "BOM7": "Amazon BOM7"). */
+export const fcToStore: Record<string, string> = {};
+
+/** Non-sellable disposition → store. */
+export const dispositionToStore: Record<string, string> = {
+  CUSTOMER_DAMAGED: 'Amazon Customer Damaged',
+  CARRIER_DAMAGED: 'Amazon Carrier Damaged',
+  DEFECTIVE: 'Amazon Defective',
+};
@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react';
+import { BudgetCell, BudgetState } from '../../types/budget';
+
+// ---------------------------------------------------------------------------
+// Budget (annual operating plan) for the MIS deck.
+//
+// The server (/api/mis/budgets) holds the figures. One module-level cache is
+// shared by the Overview, P&L and MIS Sheet tabs so an edit in one shows up
+// in the others without a refetch.
+// ---------------------------------------------------------------------------
+
+const API_BASE = '/api/mis/budgets';
+
+const EMPTY: BudgetState = { months: {}, updatedAt: '', updatedBy: '' };
+
+let cache: BudgetState | null = null;
+let inflight: Promise<BudgetState> | null = null;
+const subscribers = new Set<() => void>();
+
+function notify() {
+  subscribers.forEach((cb) => cb());
+}
+
+async function fetchBudget(): Promise<BudgetState> {
+  if (inflight) return inflight;
+  inflight = (async () => {
+    const res = await fetch(API_BASE);
+    if (!res.ok) throw new Error(`Budget fetch failed (${res.status})`);
+    return (await res.json()) as BudgetState;
+  })();
+  try {
+    cache = await inflight;
+    return cache;
+  } finally {
+    inflight = null;
+  }
+}
+
+/** Upsert (value) or clear (null) a batch of budget cells. */
+export async function saveBudgetCells(cells: BudgetCell[], by: string): Promise<BudgetState> {
+  const res = await fetch(API_BASE, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ cells, by }),
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || `Budget save failed (${res.status})`);
+  }
+  cache = (await res.json()) as BudgetState;
+  notify();
+  return cache;
+}
+
+export interface UseBudgetResult {
+  budget: BudgetState;
+  loading: boolean;
+  save: typeof saveBudgetCells;
+}
+
+export function useBudget(): UseBudgetResult {
+  const [budget, setBudget] = useState<BudgetState | null>(cache);
+
+  useEffect(() => {
+    const onUpdate = () => setBudget(cache);
+    subscribers.add(onUpdate);
+    if (cache === null) {
+      fetchBudget()
+        .then(() => notify())
+        .catch(() => {
+          // Server unreachable — show actuals only until the next load.
+          cache = cache ?? EMPTY;
+          notify();
+        });
+    }
+    return () => {
+      subscribers.delete(onUpdate);
+    };
+  }, []);
+
+  return {
+    budget: budget ?? EMPTY,
+    loading: budget === null,
+    save: saveBudgetCells,
+  };
+}
@@ -0,0 +1,292 @@
+import type {
+  ComplianceCategory,
+  ComplianceCategoryKey,
+  ComplianceDueRule,
+  ComplianceHoliday,
+  ComplianceItem,
+  DueDateOverride,
+  DueDateSettings,
+  GstStateGroup,
+  ProgressMap,
+  YearMonth,
+} from './types';
+import { GST_STATE_GROUP_DEFAULTS } from './types';
+import { isDueInMonth, yearMonth } from './storage';
+
+// ---------------------------------------------------------------------------
+// Compliance due-date engine.
+//
+// An item's rule (dueDay / months / dueMonth, or its QRMP variant when the
+// company files quarterly) gives the statutory date for a period — one per
+// QRMP state group when the day depends on it (GSTR-3B). A date on
+// a Sunday or a calendar holiday moves to the next working day — s.10 of the
+// General Clauses Act; Saturdays stay, the portals are open. A per-period
+// override (a CBIC / CBDT extension) replaces the date outright.
+//
+// Dates are "YYYY-MM-DD" strings throughout, compared as strings and
+// counted in UTC so the browser's time zone never shifts a day.
+// ---------------------------------------------------------------------------
+
+/** The due-date engine's shared inputs, kept on the server. */
+export interface DueDateCalendar {
+  holidays: Record<string, ComplianceHoliday>;
+  /** overrides[itemId][yearMonth] */
+  overrides: Record<string, Record<YearMonth, DueDateOverride>>;
+  settings: DueDateSettings;
+}
+
+export type DueDateAdjustment = 'extended' | 'holiday' | 'weekend';
+
+export interface ResolvedDueDate {
+  itemId: string;
+  period: YearMonth;
+  /** The rule's date, before holidays and extensions. */
+  statutory: string;
+  due: string;
+  adjustment?: DueDateAdjustment;
+  /** Holiday name, or the extension's reason. */
+  reason?: string;
+  /** The registrations this date is for, when the item's day differs by QRMP group. */
+  states?: string[];
+}
+
+/** Days ahead the dashboard looks. */
+export const UPCOMING_DAYS = 30;
+
+/** Unfinished periods older than this drop off the overdue list — they're history, not a to-do. */
+export const OVERDUE_LOOKBACK_MONTHS = 3;
+
+/** Overdue longer than this escalates to the owner's manager… */
+export const ESCALATE_AFTER_DAYS = 7;
+
+/** …and longer than this to the directors. */
+export const CRITICAL_AFTER_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function todayIso(now: Date = new Date()): string {
+  return isoDate(now.getFullYear(), now.getMonth() + 1, now.getDate());
+}
+
+function isoDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function toUtc(iso: string): Date {
+  const [y, m, d] = iso.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+function fromUtc(d: Date): string {
+  return isoDate(d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate());
+}
+
+export function addDays(iso: string, days: number): string {
+  return fromUtc(new Date(toUtc(iso).getTime() + days * DAY_MS));
+}
+
+/** b − a in days. */
+export function daysBetween(a: string, b: string): number {
+  return Math.round((toUtc(b).getTime() - toUtc(a).getTime()) / DAY_MS);
+}
+
+/** "2026-10-20" → "20/10/2026", matching formatDueDate. */
+export function formatIsoDate(iso: string): string {
+  const [y, m, d] = iso.split('-');
+  return `${d}/${m}/${y}`;
+}
+
+/** The first working day on or after `iso`, and why it moved if it did. */
+export function nextWorkingDay(
+  iso: string,
+  holidays: Record<string, ComplianceHoliday>
+): { date: string; adjustment?: 'holiday' | 'weekend'; reason?: string } {
+  let date = iso;
+  let adjustment: 'holiday' | 'weekend' | undefined;
+  let reason: string | undefined;
+  for (;;) {
+    const holiday = holidays[date];
+    const sunday = toUtc(date).getUTCDay() === 0;
+    if (!holiday && !sunday) break;
+    if (!adjustment) {
+      adjustment = holiday ? 'holiday' : 'weekend';
+      reason = holiday ? holiday.name : 'Sunday';
+    }
+    date = addDays(date, 1);
+  }
+  return { date, adjustment, reason };
+}
+
+/** The rule in force for the company's GST scheme; null when the item isn't filed under it. */
+export function ruleFor(item: ComplianceItem, settings: DueDateCalendar['settings']): ComplianceDueRule | null {
+  if (settings.gstScheme === 'qrmp') {
+    if (item.qrmp === null) return null;
+    if (item.qrmp) return item.qrmp;
+    return item;
+  }
+  return item.qrmpOnly ? null : item;
+}
+
+export function isItemDue(item: ComplianceItem, year: number, month: number, calendar: DueDateCalendar): boolean {
+  const rule = ruleFor(item, calendar.settings);
+  return !!rule && isDueInMonth(rule, year, month);
+}
+
+/** Registrations by QRMP group; settings saved before groups were per state fall back to the statutory table. */
+export function stateGroups(settings: DueDateSettings): [GstStateGroup, string[]][] {
+  const groups = { ...GST_STATE_GROUP_DEFAULTS, ...settings.gstStateGroups };
+  const byGroup = new Map<GstStateGroup, string[]>();
+  for (const [code, group] of Object.entries(groups)) byGroup.set(group, [...(byGroup.get(group) ?? []), code]);
+  return [...byGroup].sort(([a], [b]) => a.localeCompare(b));
+}
+
+/**
+ * The period's due dates: one, or one per QRMP group for rules whose day
+ * depends on it; an extension sets a single date for every registration.
+ * Empty for items without a single date (daily, weekly, one-time, or no due
+ * day) and for periods the item isn't due in.
+ */
+export function resolveDueDates(
+  item: ComplianceItem,
+  year: number,
+  month: number,
+  calendar: DueDateCalendar
+): ResolvedDueDate[] {
+  const rule = ruleFor(item, calendar.settings);
+  if (!rule || !isDueInMonth(rule, year, month)) return [];
+  if (rule.frequency === 'daily' || rule.frequency === 'weekly' || rule.frequency === 'one-time') return [];
+  const { dueDay, dueDayGroupB } = rule;
+  if (!dueDay) return [];
+  if (!dueDayGroupB || calendar.overrides[item.id]?.[yearMonth(year, month)]) {
+    return [resolveDay(item, year, month, dueDay, calendar)];
+  }
+  return stateGroups(calendar.settings).map(([group, states]) => ({
+    ...resolveDay(item, year, month, group === 'B' ? dueDayGroupB : dueDay, calendar),
+    states,
+  }));
+}
+
+function resolveDay(item: ComplianceItem, year: number, month: number, day: number, calendar: DueDateCalendar): ResolvedDueDate {
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const statutory = isoDate(year, month, Math.min(day, lastDay));
+  const period = yearMonth(year, month);
+
+  const override = calendar.overrides[item.id]?.[period];
+  if (override) {
+    return { itemId: item.id, period, statutory, due: override.dueDate, adjustment: 'extended', reason: override.reason };
+  }
+  const working = nextWorkingDay(statutory, calendar.holidays);
+  return { itemId: item.id, period, statutory, due: working.date, adjustment: working.adjustment, reason: working.reason };
+}
+
+// ---------- Penalty accrual ----------
+
+export interface PenaltyAccrual {
+  perDay: number;
+  flat: number;
+  /** Late fee run up so far: flat + perDay × days late. */
+  accrued: number;
+  /** The text also carries interest or a discretionary range that needs the tax amount. */
+  variable: boolean;
+}
+
+/**
+ * Reads the late fee out of an item's free-text `penalty`, e.g.
+ * "Rs.50/day (Rs.20/day for nil) late fee + 18% p.a. interest" → ₹50 a day
+ * (the first per-day rate is the regular one), or "Rs.1,00,000 + Rs.5,000/day".
+ * Ranges ("Rs.10,000 to Rs.1,00,000") are an officer's call, not an accrual.
+ */
+export function accruePenalty(penalty: string | undefined, daysLate: number): PenaltyAccrual | null {
+  if (!penalty) return null;
+  let perDay = 0;
+  let flat = 0;
+  let variable = /%|interest|damages/i.test(penalty);
+  for (const m of penalty.matchAll(/Rs\.?\s*([\d,]+)(\s*\/\s*day)?/gi)) {
+    const amount = Number(m[1].replace(/,/g, ''));
+    if (!amount) continue;
+    const before = penalty.slice(0, m.index);
+    const after = penalty.slice((m.index ?? 0) + m[0].length);
+    if (/\bto\s*$/i.test(before) || /^\s*to\b/i.test(after)) {
+      variable = true;
+      continue;
+    }
+    if (m[2]) {
+      if (!perDay) perDay = amount;
+    } else if (!flat) {
+      flat = amount;
+    }
+  }
+  if (!perDay && !flat && !variable) return null;
+  const late = Math.max(0, daysLate);
+  return { perDay, flat, accrued: late > 0 ? flat + perDay * late : 0, variable };
+}
+
+// ---------- Dashboard ----------
+
+export type DeadlineStatus = 'upcoming' | 'due-today' | 'overdue' | 'escalated' | 'critical';
+
+export interface DeadlineRow extends ResolvedDueDate {
+  category: ComplianceCategoryKey;
+  item: ComplianceItem;
+  status: DeadlineStatus;
+  /** Days past due; negative while still upcoming. */
+  daysLate: number;
+  penalty: PenaltyAccrual | null;
+}
+
+export function statusFor(daysLate: number): DeadlineStatus {
+  if (daysLate > CRITICAL_AFTER_DAYS) return 'critical';
+  if (daysLate > ESCALATE_AFTER_DAYS) return 'escalated';
+  if (daysLate > 0) return 'overdue';
+  if (daysLate === 0) return 'due-today';
+  return 'upcoming';
+}
+
+/**
+ * Unfinished items across every category: overdue (most late first) and
+ * due within UPCOMING_DAYS (soonest first).
+ */
+export function buildDeadlines(
+  categories: ComplianceCategory[],
+  progress: ProgressMap,
+  calendar: DueDateCalendar,
+  today: string = todayIso()
+): { overdue: DeadlineRow[]; upcoming: DeadlineRow[] } {
+  const horizon = addDays(today, UPCOMING_DAYS);
+  const [ty, tm] = today.split('-').map(Number);
+  const [hy, hm] = horizon.split('-').map(Number);
+  const periods: { year: number; month: number }[] = [];
+  for (let i = -OVERDUE_LOOKBACK_MONTHS; ; i++) {
+    const d = new Date(Date.UTC(ty, tm - 1 + i, 1));
+    const year = d.getUTCFullYear();
+    const month = d.getUTCMonth() + 1;
+    if (year > hy || (year === hy && month > hm)) break;
+    periods.push({ year, month });
+  }
+
+  const overdue: DeadlineRow[] = [];
+  const upcoming: DeadlineRow[] = [];
+  for (const cat of categories) {
+    for (const item of cat.items) {
+      for (const { year, month } of periods) {
+        for (const resolved of resolveDueDates(item, year, month, calendar)) {
+          if (resolved.due > horizon) continue;
+          if (progress[item.id]?.[resolved.period]?.completed) continue;
+          const daysLate = daysBetween(resolved.due, today);
+          const row: DeadlineRow = {
+            ...resolved,
+            category: cat.category,
+            item,
+            status: statusFor(daysLate),
+            daysLate,
+            penalty: accruePenalty(item.penalty, daysLate),
+          };
+          (daysLate > 0 ? overdue : upcoming).push(row);
+        }
+      }
+    }
+  }
+  overdue.sort((a, b) => b.daysLate - a.daysLate || a.item.title.localeCompare(b.item.title));
+  upcoming.sort((a, b) => a.due.localeCompare(b.due) || a.item.title.localeCompare(b.item.title));
+  return { overdue, upcoming };
+}
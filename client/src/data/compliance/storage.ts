@@ -1,119 +1,310 @@
 import {
+  ALL_CATEGORIES,
+  CalendarFeeds,
   ComplianceCategory,
   ComplianceCategoryKey,
+  ComplianceCategoryOverride,
+  ComplianceDigestSettings,
   ComplianceItem,
+  ComplianceItemHistory,
+  ComplianceServerState,
+  DueDateSettings,
+  EvidenceKind,
+  GST_STATE_GROUP_DEFAULTS,
   ProgressEntry,
   ProgressMap,
   YearMonth,
 } from './types';
+import { getCurrentUser } from '../currentUser';
+import type { DueDateCalendar } from './dueDates';
 
 /**
  * Compliance data is loaded from static JSON templates in /public/data/compliance/*.json.
- * Users can edit items in the UI — edits are persisted to localStorage as an "override"
- * layer on top of the template. This keeps templates as the canonical seed while letting
- * teams iterate quickly before backend wiring.
+ * The calendar itself is shared through /api/compliance: an edited category's items
+ * replace the template's, and progress check-marks (per item × year-month) record who
+ * completed them and the evidence filed, which is uploaded to Drive.
  *
- * Progress check-marks (per item × year-month) are also stored in localStorage.
- *
- * When the backend is ready, replace load/save functions with authenticated fetches to
- * the Drive-backed store — the shape of the payload matches ComplianceCategory.
+ * The server state is cached per page load; writes update the cache and notify
+ * subscribers, so every open view shows the same completion states.
  */
 
-const OVERRIDE_KEY = (cat: ComplianceCategoryKey) => `compliance:override:${cat}`;
-const PROGRESS_KEY = 'compliance:progress';
+const API_BASE = '/api/compliance';
+
+// Before the calendar was shared it lived in each browser's localStorage.
+const LEGACY_OVERRIDE_KEY = (cat: ComplianceCategoryKey) => `compliance:override:${cat}`;
+const LEGACY_PROGRESS_KEY = 'compliance:progress';
+
+const EMPTY: ComplianceServerState = {
+  categories: {},
+  progress: {},
+  holidays: {},
+  dueDateOverrides: {},
+  dueDateSettings: { gstScheme: 'monthly', gstStateGroups: { ...GST_STATE_GROUP_DEFAULTS }, updatedAt: '', updatedBy: '' },
+  digest: { enabled: false, recipients: [], weekday: 1, hour: 9, updatedAt: '', updatedBy: '' },
+  updatedAt: '',
+  updatedBy: '',
+};
+
+let cache: ComplianceServerState | null = null;
+let inflight: Promise<ComplianceServerState> | null = null;
+const subscribers = new Set<() => void>();
+
+function notify() {
+  subscribers.forEach((cb) => cb());
+}
+
+/** Called whenever the shared state changes; returns the unsubscribe. */
+export function subscribeCompliance(cb: () => void): () => void {
+  subscribers.add(cb);
+  return () => {
+    subscribers.delete(cb);
+  };
+}
+
+/** The shared calendar state, fetched once per page load. Falls back to empty when offline. */
+export async function loadCompliance(): Promise<ComplianceServerState> {
+  if (cache) return cache;
+  if (inflight) return inflight;
+  inflight = (async () => {
+    try {
+      const res = await fetch(API_BASE);
+      if (!res.ok) throw new Error(`Compliance fetch failed (${res.status})`);
+      cache = (await res.json()) as ComplianceServerState;
+      await importLegacyCalendar();
+    } catch {
+      cache = cache ?? EMPTY;
+    }
+    notify();
+    return cache;
+  })();
+  try {
+    return await inflight;
+  } finally {
+    inflight = null;
+  }
+}
 
-/** Fetch a category's template JSON from /public/data/compliance and merge overrides. */
+async function send<T>(path: string, method: string, body?: unknown): Promise<T> {
+  const by = getCurrentUser();
+  if (!by) throw new Error('Enter your name first — completions are recorded against it.');
+  const res = await fetch(`${API_BASE}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', 'X-User': by },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || `Compliance save failed (${res.status})`);
+  }
+  return (await res.json()) as T;
+}
+
+function install(state: ComplianceServerState & { events?: unknown }): void {
+  // Writes answer with the whole stored state; the event log is only read per item.
+  const next = { ...state };
+  delete next.events;
+  cache = next;
+  notify();
+}
+
+/**
+ * One-off: hand this browser's old localStorage calendar to the server, which
+ * keeps only what it doesn't already have, then forget the local copy.
+ */
+async function importLegacyCalendar(): Promise<void> {
+  if (!getCurrentUser()) return;
+  let progress: ProgressMap = {};
+  const categories: Partial<Record<ComplianceCategoryKey, ComplianceItem[]>> = {};
+  try {
+    progress = JSON.parse(localStorage.getItem(LEGACY_PROGRESS_KEY) || '{}') as ProgressMap;
+    for (const cat of ALL_CATEGORIES) {
+      const raw = localStorage.getItem(LEGACY_OVERRIDE_KEY(cat));
+      if (raw) categories[cat] = (JSON.parse(raw) as { items: ComplianceItem[] }).items;
+    }
+  } catch {
+    return;
+  }
+  if (Object.keys(progress).length === 0 && Object.keys(categories).length === 0) return;
+
+  const result = await send<{ state: ComplianceServerState; categories: number; entries: number }>('/import', 'POST', {
+    categories,
+    progress,
+  });
+  cache = result.state;
+  localStorage.removeItem(LEGACY_PROGRESS_KEY);
+  for (const cat of ALL_CATEGORIES) localStorage.removeItem(LEGACY_OVERRIDE_KEY(cat));
+}
+
+/** Fetch a category's template JSON from /public/data/compliance and apply the shared edits. */
 export async function loadCategory(cat: ComplianceCategoryKey): Promise<ComplianceCategory> {
-  const res = await fetch(`/data/compliance/${cat}.json`, { cache: 'no-cache' });
+  const [res, state] = await Promise.all([fetch(`/data/compliance/${cat}.json`, { cache: 'no-cache' }), loadCompliance()]);
   if (!res.ok) {
     throw new Error(`Unable to load compliance template for ${cat} (status ${res.status})`);
   }
   const template = (await res.json()) as ComplianceCategory;
 
-  const override = readOverride(cat);
+  const override = state.categories[cat];
   if (!override) return template;
 
   return {
     ...template,
-    // If the user has saved an override, it wins over the template.
+    // Once the team has edited a category, its saved items win over the template.
     items: override.items,
-    version: override.version ?? template.version,
-    updatedAt: override.updatedAt ?? template.updatedAt,
+    updatedAt: override.updatedAt.slice(0, 10),
   };
 }
 
-interface OverridePayload {
-  items: ComplianceItem[];
-  version?: number;
-  updatedAt?: string;
+/** The shared edit of a category, if it has one. Read after loadCategory. */
+export function getOverride(cat: ComplianceCategoryKey): ComplianceCategoryOverride | null {
+  return cache?.categories[cat] ?? null;
 }
 
-function readOverride(cat: ComplianceCategoryKey): OverridePayload | null {
-  try {
-    const raw = localStorage.getItem(OVERRIDE_KEY(cat));
-    if (!raw) return null;
-    return JSON.parse(raw) as OverridePayload;
-  } catch {
-    return null;
-  }
+export function hasOverride(cat: ComplianceCategoryKey): boolean {
+  return !!cache?.categories[cat];
 }
 
-export function saveOverride(cat: ComplianceCategoryKey, items: ComplianceItem[]): void {
-  const payload: OverridePayload = {
-    items,
-    updatedAt: new Date().toISOString().slice(0, 10),
-  };
-  localStorage.setItem(OVERRIDE_KEY(cat), JSON.stringify(payload));
+/** Save a category's items. Fails with a conflict if someone else saved it since it was loaded. */
+export async function saveOverride(cat: ComplianceCategoryKey, items: ComplianceItem[]): Promise<void> {
+  install(
+    await send<ComplianceServerState>(`/categories/${cat}`, 'PUT', {
+      items,
+      baseRevision: getOverride(cat)?.revision ?? 0,
+    })
+  );
 }
 
-export function clearOverride(cat: ComplianceCategoryKey): void {
-  localStorage.removeItem(OVERRIDE_KEY(cat));
+export async function clearOverride(cat: ComplianceCategoryKey): Promise<void> {
+  if (!hasOverride(cat)) return;
+  install(await send<ComplianceServerState>(`/categories/${cat}`, 'DELETE'));
 }
 
-export function hasOverride(cat: ComplianceCategoryKey): boolean {
-  return localStorage.getItem(OVERRIDE_KEY(cat)) != null;
+// ---------- Progress ----------
+
+export function getProgress(itemId: string, ym: YearMonth): ProgressEntry | undefined {
+  return cache?.progress[itemId]?.[ym];
 }
 
-// ---------- Progress ----------
+export function getAllProgress(): ProgressMap {
+  return cache?.progress ?? {};
+}
 
-function readProgress(): ProgressMap {
-  try {
-    const raw = localStorage.getItem(PROGRESS_KEY);
-    return raw ? (JSON.parse(raw) as ProgressMap) : {};
-  } catch {
-    return {};
-  }
+export async function setProgress(itemId: string, ym: YearMonth, update: { completed: boolean; note?: string }): Promise<void> {
+  install(
+    await send<ComplianceServerState>(`/progress/${encodeURIComponent(itemId)}/${ym}`, 'PUT', update)
+  );
 }
 
-function writeProgress(p: ProgressMap): void {
-  localStorage.setItem(PROGRESS_KEY, JSON.stringify(p));
+export function clearProgress(itemId: string, ym: YearMonth): Promise<void> {
+  return setProgress(itemId, ym, { completed: false });
 }
 
-export function getProgress(itemId: string, ym: YearMonth): ProgressEntry | undefined {
-  const p = readProgress();
-  return p[itemId]?.[ym];
+function fileToBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = reader.result as string;
+      resolve(result.split(',')[1] || '');
+    };
+    reader.onerror = () => reject(reader.error || new Error('File read failed'));
+    reader.readAsDataURL(file);
+  });
 }
 
-export function getAllProgress(): ProgressMap {
-  return readProgress();
+/** Upload a challan / acknowledgement to Drive and file it against the item's period. */
+export async function attachEvidence(itemId: string, ym: YearMonth, file: File, kind: EvidenceKind): Promise<void> {
+  install(
+    await send<ComplianceServerState>(`/progress/${encodeURIComponent(itemId)}/${ym}/evidence`, 'POST', {
+      kind,
+      fileName: file.name,
+      mimeType: file.type || 'application/octet-stream',
+      dataBase64: await fileToBase64(file),
+    })
+  );
+}
+
+export async function detachEvidence(itemId: string, ym: YearMonth, fileId: string): Promise<void> {
+  install(
+    await send<ComplianceServerState>(
+      `/progress/${encodeURIComponent(itemId)}/${ym}/evidence/${encodeURIComponent(fileId)}`,
+      'DELETE'
+    )
+  );
+}
+
+/** Link that streams an evidence file back through the Drive proxy. */
+export function evidenceUrl(e: { fileId: string; fileName: string; mimeType: string }): string {
+  return `/api/drive/download/${encodeURIComponent(e.fileId)}?name=${encodeURIComponent(e.fileName)}&mimeType=${encodeURIComponent(e.mimeType)}`;
+}
+
+export async function loadItemHistory(itemId: string): Promise<ComplianceItemHistory> {
+  const res = await fetch(`${API_BASE}/items/${encodeURIComponent(itemId)}/history`);
+  if (!res.ok) throw new Error(`History fetch failed (${res.status})`);
+  return (await res.json()) as ComplianceItemHistory;
+}
+
+// ---------- Due-date calendar ----------
+
+/** Holidays, extensions and the GST scheme — the due-date engine's shared inputs. */
+export function getDueDateCalendar(): DueDateCalendar {
+  const state = cache ?? EMPTY;
+  return { holidays: state.holidays, overrides: state.dueDateOverrides, settings: state.dueDateSettings };
 }
 
-export function setProgress(itemId: string, ym: YearMonth, entry: ProgressEntry): void {
-  const p = readProgress();
-  if (!p[itemId]) p[itemId] = {};
-  p[itemId][ym] = entry;
-  writeProgress(p);
+export async function saveHoliday(date: string, name: string): Promise<void> {
+  install(await send<ComplianceServerState>(`/holidays/${date}`, 'PUT', { name }));
 }
 
-export function clearProgress(itemId: string, ym: YearMonth): void {
-  const p = readProgress();
-  if (p[itemId]) {
-    delete p[itemId][ym];
-    if (Object.keys(p[itemId]).length === 0) delete p[itemId];
-    writeProgress(p);
+export async function removeHoliday(date: string): Promise<void> {
+  install(await send<ComplianceServerState>(`/holidays/${date}`, 'DELETE'));
+}
+
+/** Move one period's due date, e.g. for a notified extension. `reason` should cite the notification. */
+export async function moveDueDate(itemId: string, ym: YearMonth, dueDate: string, reason: string): Promise<void> {
+  install(
+    await send<ComplianceServerState>(`/due-dates/${encodeURIComponent(itemId)}/${ym}`, 'PUT', { dueDate, reason })
+  );
+}
+
+export async function restoreDueDate(itemId: string, ym: YearMonth): Promise<void> {
+  install(await send<ComplianceServerState>(`/due-dates/${encodeURIComponent(itemId)}/${ym}`, 'DELETE'));
+}
+
+export async function saveDueDateSettings(settings: Pick<DueDateSettings, 'gstScheme' | 'gstStateGroups'>): Promise<void> {
+  install(await send<ComplianceServerState>('/settings', 'PUT', settings));
+}
+
+// ---------- Calendar feeds & weekly digest ----------
+
+export async function loadCalendarFeeds(): Promise<CalendarFeeds> {
+  const res = await fetch('/api/calendar/feeds');
+  if (!res.ok) throw new Error(`Calendar feeds fetch failed (${res.status})`);
+  return (await res.json()) as CalendarFeeds;
+}
+
+export function getDigestSettings(): ComplianceDigestSettings {
+  return (cache ?? EMPTY).digest;
+}
+
+export async function saveDigestSettings(
+  settings: Pick<ComplianceDigestSettings, 'enabled' | 'recipients' | 'weekday' | 'hour'>
+): Promise<void> {
+  const digest = await send<ComplianceDigestSettings>('/digest', 'PUT', settings);
+  install({ ...(cache ?? EMPTY), digest });
+}
+
+/** Send this week's digest to the saved recipients now. */
+export async function sendDigestNow(): Promise<void> {
+  try {
+    await send<unknown>('/digest/send', 'POST', {});
+  } finally {
+    // Re-read either way so the last-send line shows what happened
+    const res = await fetch(`${API_BASE}/digest`);
+    if (res.ok) install({ ...(cache ?? EMPTY), digest: (await res.json()) as ComplianceDigestSettings });
   }
 }
 
+export const DIGEST_PREVIEW_URL = `${API_BASE}/digest/preview`;
+
 // ---------- Date helpers ----------
 
 export function currentYearMonth(): YearMonth {
@@ -16,6 +16,30 @@ export type ComplianceCategoryKey =
   | 'investors'
   | 'admin';
 
+export type GstScheme = 'monthly' | 'qrmp';
+
+/** QRMP GSTR-3B falls on the 22nd for group A states and the 24th for group B. */
+export type GstStateGroup = 'A' | 'B';
+
+/** The company's GST registrations and the QRMP group each state is in (Notification 76/2020-CT). */
+export const GST_STATE_GROUP_DEFAULTS: Readonly<Record<string, GstStateGroup>> = {
+  KA: 'A',
+  MH: 'A',
+  TG: 'A',
+  HR: 'B',
+  UP: 'B',
+};
+
+/** The scheduling half of an item — what the due-date engine reads. */
+export interface ComplianceDueRule {
+  frequency: ComplianceFrequency;
+  dueDay?: number;
+  dueMonth?: number;
+  months?: number[];
+  /** Due day for group B states, where it differs (QRMP GSTR-3B). */
+  dueDayGroupB?: number;
+}
+
 export interface ComplianceItem {
   /** Stable identifier. Kept stable across edits so progress tracking survives renames. */
   id: string;
@@ -38,6 +62,10 @@ export interface ComplianceItem {
   penalty?: string;
   /** Any additional notes. */
   notes?: string;
+  /** GST items scheduled differently under QRMP; null = not filed by QRMP taxpayers. */
+  qrmp?: ComplianceDueRule | null;
+  /** Only filed by QRMP taxpayers (PMT-06). */
+  qrmpOnly?: boolean;
 }
 
 export interface ComplianceCategory {
@@ -52,15 +80,136 @@ export interface ComplianceCategory {
 /** "2026-04" style key used for monthly progress buckets. */
 export type YearMonth = string;
 
+export type EvidenceKind = 'challan' | 'acknowledgement' | 'other';
+
+export const EVIDENCE_KIND_LABELS: Record<EvidenceKind, string> = {
+  challan: 'Challan',
+  acknowledgement: 'Acknowledgement',
+  other: 'Other',
+};
+
+/** A file filed against a completion. The bytes live on Drive. */
+export interface ComplianceEvidence {
+  fileId: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  kind: EvidenceKind;
+  webViewLink?: string;
+  uploadedAt: string;
+  uploadedBy: string;
+}
+
 export interface ProgressEntry {
   completed: boolean;
   completedAt?: string;
+  /** Who ticked it off — the name typed in this browser. */
+  completedBy?: string;
   note?: string;
+  evidence?: ComplianceEvidence[];
+  updatedAt?: string;
+  updatedBy?: string;
 }
 
 /** progress[itemId][yearMonth] = entry */
 export type ProgressMap = Record<string, Record<YearMonth, ProgressEntry>>;
 
+/** A category whose items were edited in the app; it replaces the template's items. */
+export interface ComplianceCategoryOverride {
+  items: ComplianceItem[];
+  revision: number;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+/** A day on the shared holiday calendar, keyed by "YYYY-MM-DD". */
+export interface ComplianceHoliday {
+  name: string;
+  addedAt: string;
+  addedBy: string;
+}
+
+/** A due date moved for one period, e.g. by a CBIC / CBDT notification. */
+export interface DueDateOverride {
+  /** YYYY-MM-DD */
+  dueDate: string;
+  reason: string;
+  setAt: string;
+  setBy: string;
+}
+
+export interface DueDateSettings {
+  gstScheme: GstScheme;
+  /** QRMP group per registration, by state code. */
+  gstStateGroups: Record<string, GstStateGroup>;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+/** Who gets the weekly digest email, and when (India time). */
+export interface ComplianceDigestSettings {
+  enabled: boolean;
+  recipients: string[];
+  /** 0 = Sunday … 6 = Saturday */
+  weekday: number;
+  hour: number;
+  updatedAt: string;
+  updatedBy: string;
+  lastSentWeek?: string;
+  lastSentAt?: string;
+  lastResult?: string;
+  lastFailedAt?: string;
+  lastFailure?: string;
+}
+
+/** A subscribable .ics feed served under /api/calendar. */
+export interface CalendarFeed {
+  label: string;
+  path: string;
+}
+
+export interface CalendarFeeds {
+  compliance: CalendarFeed[];
+  owners: CalendarFeed[];
+  tasks: CalendarFeed[];
+}
+
+/** What /api/compliance keeps for the whole team. */
+export interface ComplianceServerState {
+  categories: Partial<Record<ComplianceCategoryKey, ComplianceCategoryOverride>>;
+  progress: ProgressMap;
+  holidays: Record<string, ComplianceHoliday>;
+  /** dueDateOverrides[itemId][yearMonth] */
+  dueDateOverrides: Record<string, Record<YearMonth, DueDateOverride>>;
+  dueDateSettings: DueDateSettings;
+  digest: ComplianceDigestSettings;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface ComplianceEvent {
+  at: string;
+  by: string;
+  period: YearMonth;
+  action:
+    | 'completed'
+    | 'reopened'
+    | 'note'
+    | 'evidence-added'
+    | 'evidence-removed'
+    | 'due-date-moved'
+    | 'due-date-restored'
+    | 'imported';
+  detail?: string;
+}
+
+/** One item across every period it was worked in, newest first. */
+export interface ComplianceItemHistory {
+  itemId: string;
+  periods: ({ period: YearMonth } & ProgressEntry)[];
+  events: ComplianceEvent[];
+}
+
 export const CATEGORY_META: Record<
   ComplianceCategoryKey,
   { name: string; accent: 'brand' | 'emerald' | 'violet' | 'amber' | 'sky' | 'rose'; blurb: string }
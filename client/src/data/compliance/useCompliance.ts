@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import type { ComplianceDigestSettings, ProgressMap } from './types';
+import type { DueDateCalendar } from './dueDates';
+import { getAllProgress, getDigestSettings, getDueDateCalendar, loadCompliance, subscribeCompliance } from './storage';
+
+// ---------------------------------------------------------------------------
+// Shared compliance state for a view. Re-renders whenever a write
+// from this page load lands (storage.ts keeps the one cache).
+// ---------------------------------------------------------------------------
+
+export function useComplianceProgress(): ProgressMap {
+  const [progress, setProgressMap] = useState<ProgressMap>(getAllProgress);
+
+  useEffect(() => {
+    const unsubscribe = subscribeCompliance(() => setProgressMap(getAllProgress()));
+    loadCompliance().then(() => setProgressMap(getAllProgress()));
+    return unsubscribe;
+  }, []);
+
+  return progress;
+}
+
+/** Holidays, extensions and GST scheme, kept current the same way. */
+export function useDueDateCalendar(): DueDateCalendar {
+  const [calendar, setCalendar] = useState<DueDateCalendar>(getDueDateCalendar);
+
+  useEffect(() => {
+    const unsubscribe = subscribeCompliance(() => setCalendar(getDueDateCalendar()));
+    loadCompliance().then(() => setCalendar(getDueDateCalendar()));
+    return unsubscribe;
+  }, []);
+
+  return calendar;
+}
+
+/** Weekly digest recipients, schedule and last send. */
+export function useDigestSettings(): ComplianceDigestSettings {
+  const [digest, setDigest] = useState<ComplianceDigestSettings>(getDigestSettings);
+
+  useEffect(() => {
+    const unsubscribe = subscribeCompliance(() => setDigest(getDigestSettings()));
+    loadCompliance().then(() => setDigest(getDigestSettings()));
+    return unsubscribe;
+  }, []);
+
+  return digest;
+}
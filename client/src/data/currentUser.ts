@@ -0,0 +1,27 @@
+// ---------------------------------------------------------------------------
+// Who is using this browser.
+//
+// There is no login; the finance team types their name once and it is
+// remembered in localStorage. Server-side workflows (period close, audit
+// logs) record it as the actor.
+// ---------------------------------------------------------------------------
+
+const USER_KEY = 'heatronics_current_user';
+
+export function getCurrentUser(): string {
+  try {
+    return localStorage.getItem(USER_KEY) || '';
+  } catch {
+    return '';
+  }
+}
+
+export function setCurrentUser(name: string): void {
+  try {
+    const trimmed = name.trim();
+    if (trimmed) localStorage.setItem(USER_KEY, trimmed);
+    else localStorage.removeItem(USER_KEY);
+  } catch {
+    // Private mode / quota — name just won't persist.
+  }
+}
@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import { installDeckDataset } from '../misDeck/dataset';
+import type { DeckDataset, DeckDatasetIndex, DeckDatasetVersion, DeckFeed } from '../../types/deckDataset';
+
+// ---------------------------------------------------------------------------
+// Deck dataset versions.
+//
+// The server (/api/mis/datasets) keeps every published snapshot of the deck's
+// source data; the active one is loaded once per session and installed into
+// data/misDeck/dataset.ts. Until a snapshot has been published (or when the
+// server is unreachable) the deck runs on the bundled extract.
+// ---------------------------------------------------------------------------
+
+const API_BASE = '/api/mis/datasets';
+
+/** Rejected import or publish, with the validator's findings. */
+export class DatasetRejectedError extends Error {
+  constructor(message: string, public readonly errors: string[]) {
+    super(message);
+    this.name = 'DatasetRejectedError';
+  }
+}
+
+interface ActiveState {
+  /** Active snapshot; null = running on the bundled extract. */
+  version: DeckDatasetVersion | null;
+  /** Bumped on every install so views keyed on it remount with the new data. */
+  revision: number;
+}
+
+let active: ActiveState | null = null;
+let inflight: Promise<ActiveState> | null = null;
+const subscribers = new Set<() => void>();
+
+function notify() {
+  subscribers.forEach((cb) => cb());
+}
+
+async function loadActive(): Promise<ActiveState> {
+  if (inflight) return inflight;
+  inflight = (async () => {
+    const revision = (active?.revision ?? 0) + 1;
+    const res = await fetch(`${API_BASE}/active`);
+    if (res.status === 404) return { version: null, revision: active?.revision ?? 0 };
+    if (!res.ok) throw new Error(`Dataset fetch failed (${res.status})`);
+    const body = (await res.json()) as { version: DeckDatasetVersion; data: DeckDataset };
+    installDeckDataset(body.data);
+    return { version: body.version, revision };
+  })();
+  try {
+    active = await inflight;
+    notify();
+    return active;
+  } finally {
+    inflight = null;
+  }
+}
+
+async function send(path: string, init: RequestInit, by: string): Promise<Response> {
+  const res = await fetch(`${API_BASE}${path}`, {
+    ...init,
+    headers: { ...(init.headers as Record<string, string>), 'X-User': by },
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new DatasetRejectedError(body.error || `Dataset request failed (${res.status})`, body.errors ?? []);
+  }
+  return res;
+}
+
+export async function fetchDatasetIndex(): Promise<DeckDatasetIndex> {
+  const res = await fetch(API_BASE);
+  if (!res.ok) throw new Error(`Dataset versions fetch failed (${res.status})`);
+  return (await res.json()) as DeckDatasetIndex;
+}
+
+/** Publish a complete dataset as a new active version. */
+export async function publishDataset(data: DeckDataset, note: string, by: string): Promise<DeckDatasetVersion> {
+  const res = await send('', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ data, note }),
+  }, by);
+  const version = (await res.json()) as DeckDatasetVersion;
+  await loadActive();
+  return version;
+}
+
+/** Import one source file on top of the active version. */
+export async function importDatasetFeed(
+  feed: DeckFeed,
+  file: File,
+  opts: { note?: string; replaceRestated?: boolean },
+  by: string
+): Promise<DeckDatasetVersion> {
+  const params = new URLSearchParams();
+  if (opts.note) params.set('note', opts.note);
+  if (opts.replaceRestated) params.set('replaceRestated', '1');
+  const query = params.toString() ? `?${params}` : '';
+  const res = await send(`/import/${feed}${query}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/octet-stream', 'X-File-Name': encodeURIComponent(file.name) },
+    body: await file.arrayBuffer(),
+  }, by);
+  const version = (await res.json()) as DeckDatasetVersion;
+  await loadActive();
+  return version;
+}
+
+/** Make an earlier (or later) version the active one. */
+export async function activateDatasetVersion(version: number, by: string): Promise<DeckDatasetIndex> {
+  const res = await send(`/${version}/activate`, { method: 'POST' }, by);
+  const index = (await res.json()) as DeckDatasetIndex;
+  await loadActive();
+  return index;
+}
+
+export interface UseDeckDatasetResult {
+  version: DeckDatasetVersion | null;
+  revision: number;
+  loading: boolean;
+}
+
+export function useDeckDataset(): UseDeckDatasetResult {
+  const [state, setState] = useState<ActiveState | null>(active);
+
+  useEffect(() => {
+    const onUpdate = () => setState(active);
+    subscribers.add(onUpdate);
+    if (active === null) {
+      loadActive().catch(() => {
+        // Server unreachable — stay on the bundled extract.
+        active = active ?? { version: null, revision: 0 };
+        notify();
+      });
+    }
+    return () => {
+      subscribers.delete(onUpdate);
+    };
+  }, []);
+
+  return {
+    version: state?.version ?? null,
+    revision: state?.revision ?? 0,
+    loading: state === null,
+  };
+}
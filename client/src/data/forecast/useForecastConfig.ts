@@ -0,0 +1,36 @@
+import { useCallback, useState } from 'react';
+import { DEFAULT_FORECAST_CONFIG, type ForecastConfig } from '../misDeck/forecast';
+
+// ---------------------------------------------------------------------------
+// Rolling-forecast drivers for the P&L tab. These are working assumptions, so
+// they live in this browser's localStorage rather than on the server; the
+// forecast itself is recomputed from the actuals on every render.
+// ---------------------------------------------------------------------------
+
+const CONFIG_KEY = 'heatronics_forecast_config';
+
+function readConfig(): ForecastConfig {
+  try {
+    const raw = localStorage.getItem(CONFIG_KEY);
+    return raw ? { ...DEFAULT_FORECAST_CONFIG, ...(JSON.parse(raw) as Partial<ForecastConfig>) } : DEFAULT_FORECAST_CONFIG;
+  } catch {
+    return DEFAULT_FORECAST_CONFIG;
+  }
+}
+
+function writeConfig(config: ForecastConfig): void {
+  try {
+    localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+  } catch {
+    // Private mode / quota — drivers just won't persist.
+  }
+}
+
+export function useForecastConfig(): [ForecastConfig, (next: ForecastConfig) => void] {
+  const [config, setConfig] = useState<ForecastConfig>(readConfig);
+  const update = useCallback((next: ForecastConfig) => {
+    writeConfig(next);
+    setConfig(next);
+  }, []);
+  return [config, update];
+}
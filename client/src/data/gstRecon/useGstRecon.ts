@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+import type { GstReconSummary, GstReturnType } from '../../types/gstRecon';
+
+// ---------------------------------------------------------------------------
+// GST return reconciliation summaries (GSTR-1 / GSTR-2B vs the registers).
+//
+// The server (/api/mis/gst-recon) keeps the last result per GSTIN, period
+// and return; the Accounts compliance page reads them. One module-level
+// cache, shared by every view.
+// ---------------------------------------------------------------------------
+
+const API_BASE = '/api/mis/gst-recon';
+
+export interface GstReconState {
+  summaries: Record<string, GstReconSummary>;
+  updatedAt: string;
+}
+
+const EMPTY: GstReconState = { summaries: {}, updatedAt: '' };
+
+let cache: GstReconState | null = null;
+let inflight: Promise<GstReconState> | null = null;
+const subscribers = new Set<() => void>();
+
+function notify() {
+  subscribers.forEach((cb) => cb());
+}
+
+async function fetchGstRecon(): Promise<GstReconState> {
+  if (inflight) return inflight;
+  inflight = (async () => {
+    const res = await fetch(API_BASE);
+    if (!res.ok) throw new Error(`GST reconciliation fetch failed (${res.status})`);
+    return (await res.json()) as GstReconState;
+  })();
+  try {
+    cache = await inflight;
+    return cache;
+  } finally {
+    inflight = null;
+  }
+}
+
+/** Record a reconciliation run; replaces the previous one for the same GSTIN, period and return. */
+export async function saveGstReconSummary(
+  summary: Omit<GstReconSummary, 'reconciledAt' | 'reconciledBy'>,
+  by: string
+): Promise<GstReconState> {
+  const { gstin, period, returnType, ...body } = summary;
+  const res = await fetch(`${API_BASE}/${gstin}/${period}/${returnType}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', 'X-User': by },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || `GST reconciliation save failed (${res.status})`);
+  }
+  cache = (await res.json()) as GstReconState;
+  notify();
+  return cache;
+}
+
+/** Summaries for one period, keyed by return. A state may file under one GSTIN only. */
+export function summariesForPeriod(
+  state: GstReconState,
+  period: string
+): GstReconSummary[] {
+  return Object.values(state.summaries)
+    .filter((s) => s.period === period)
+    .sort((a, b) => a.state.localeCompare(b.state) || a.returnType.localeCompare(b.returnType));
+}
+
+export function findSummary(
+  state: GstReconState,
+  gstin: string,
+  period: string,
+  returnType: GstReturnType
+): GstReconSummary | undefined {
+  return state.summaries[`${gstin}:${period}:${returnType}`];
+}
+
+export interface UseGstReconResult {
+  gstRecon: GstReconState;
+  loading: boolean;
+  save: typeof saveGstReconSummary;
+}
+
+export function useGstRecon(): UseGstReconResult {
+  const [gstRecon, setGstRecon] = useState<GstReconState | null>(cache);
+
+  useEffect(() => {
+    const onUpdate = () => setGstRecon(cache);
+    subscribers.add(onUpdate);
+    if (cache === null) {
+      fetchGstRecon()
+        .then(() => notify())
+        .catch(() => {
+          // Server unreachable — show nothing reconciled; the tool still works locally.
+          cache = cache ?? EMPTY;
+          notify();
+        });
+    }
+    return () => {
+      subscribers.delete(onUpdate);
+    };
+  }, []);
+
+  return {
+    gstRecon: gstRecon ?? EMPTY,
+    loading: gstRecon === null,
+    save: saveGstReconSummary,
+  };
+}
@@ -0,0 +1,362 @@
+/**
+ * Batch mode for the Invoice Booking Suggester.
+ *
+ * Reads a CSV / XLSX of transactions (one per row), runs `suggest()` on each,
+ * resolves every ledger and voucher type against the loaded Tally master and
+ * writes one voucher per valid row into a Tally import file. Rows that can't
+ * be posted as-is are reported with the reason and left out of the XML.
+ *
+ * Columns (header names are matched case-insensitively):
+ *   date, type, channel, mode, payment mode, party, hsn, gst %, amount,
+ *   place of supply (intra / inter), reference, direction (in / out, Banking
+ *   only), ledger (overrides the suggested master ledger — sales / purchase /
+ *   expense / bank), party ledger (overrides the counter-party ledger),
+ *   voucher type (overrides the suggested one), narration
+ */
+
+import { readGrid, parseAmount, toIsoDate } from '../../utils/bankStatementParsers';
+import type { TallyMaster } from '../tally/useTallyMaster';
+import { renderVoucher, tallyImportEnvelope } from '../tally/tallyXml';
+import type { TallyEntry, TallyVoucher } from '../tally/tallyXml';
+import { CHANNELS, suggest } from './suggester';
+import type { Mode, PaymentMode, SuggesterInput, SuggesterOutput, TxnType } from './suggester';
+
+export interface BatchRow {
+  /** 1-based row number in the source sheet, for error messages. */
+  rowNumber: number;
+  date: string | null;
+  input: SuggesterInput;
+  reference?: string;
+  direction?: 'in' | 'out';
+  ledger?: string;
+  partyLedger?: string;
+  voucherType?: string;
+  narration?: string;
+}
+
+export interface BatchParseResult {
+  rows: BatchRow[];
+  /** Rows that couldn't be read at all (unknown type / channel). */
+  errors: { rowNumber: number; reason: string }[];
+}
+
+export interface BatchRowResult {
+  row: BatchRow;
+  suggestion: SuggesterOutput | null;
+  voucher: TallyVoucher | null;
+  problems: string[];
+  warnings: string[];
+}
+
+export interface BatchExport {
+  xml: string;
+  vouchersExported: number;
+  results: BatchRowResult[];
+}
+
+export const BATCH_TEMPLATE_HEADERS = [
+  'Date',
+  'Type',
+  'Channel',
+  'Mode',
+  'Payment mode',
+  'Party',
+  'HSN',
+  'GST %',
+  'Amount',
+  'Place of supply',
+  'Reference',
+  'Direction',
+  'Ledger',
+  'Party ledger',
+  'Voucher type',
+  'Narration',
+];
+
+const TXN_TYPES: TxnType[] = ['Sales', 'Purchase', 'Expense', 'Banking', 'Capital Goods', 'Job Work'];
+const PAYMENT_MODES: PaymentMode[] = ['Prepaid', 'COD', 'Credit', 'On Account'];
+
+// Tally's base voucher type per transaction type, used when the suggested
+// (series-specific) voucher type isn't in the master.
+const BASE_VOUCHER_TYPE: Record<TxnType, string> = {
+  Sales: 'Sales',
+  Purchase: 'Purchase',
+  Expense: 'Purchase',
+  'Capital Goods': 'Purchase',
+  'Job Work': 'Purchase',
+  Banking: 'Receipt',
+};
+
+function norm(s: string): string {
+  return s.toLowerCase().replace(/[—–]/g, '-').replace(/\s+/g, ' ').trim();
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function pickEnum<T extends string>(value: string, options: readonly T[]): T | undefined {
+  return options.find((o) => norm(o) === norm(value));
+}
+
+// Channel by id or display name ("amazon", "Amazon", "Shopify (D2C)").
+function pickChannel(value: string, txnType: TxnType) {
+  const v = norm(value);
+  const candidates = CHANNELS.filter((c) => c.supports.includes(txnType));
+  return (
+    candidates.find((c) => c.id === v || norm(c.name) === v) ||
+    candidates.find((c) => norm(c.name).startsWith(v) || c.id.startsWith(v))
+  );
+}
+
+export function parseBatchFile(data: ArrayBuffer): BatchParseResult {
+  const grid = readGrid(data);
+  const headerIdx = grid.findIndex((r, i) => {
+    const text = (r || []).map((c) => norm(String(c ?? ''))).join('|');
+    return i < 20 && /\btype\b/.test(text) && /amount/.test(text);
+  });
+  if (headerIdx < 0) {
+    return { rows: [], errors: [{ rowNumber: 1, reason: 'No header row with "Type" and "Amount" columns' }] };
+  }
+  const headers = grid[headerIdx].map((c) => norm(String(c ?? '')));
+  const col = (...names: string[]) => {
+    for (const n of names) {
+      const i = headers.indexOf(n);
+      if (i >= 0) return i;
+    }
+    return -1;
+  };
+  const cols = {
+    date: col('date', 'invoice date', 'voucher date'),
+    type: col('type', 'txn type', 'transaction type'),
+    channel: col('channel'),
+    mode: col('mode'),
+    paymentMode: col('payment mode', 'payment'),
+    party: col('party', 'party name', 'customer', 'vendor'),
+    hsn: col('hsn', 'hsn / sac', 'sac'),
+    gstRate: col('gst %', 'gst rate', 'gst'),
+    amount: col('amount', 'amount (incl. tax)', 'total'),
+    supply: col('place of supply', 'supply', 'intra state'),
+    reference: col('reference', 'invoice no', 'invoice number', 'bill no'),
+    direction: col('direction', 'dr/cr', 'in/out'),
+    ledger: col('ledger', 'master ledger'),
+    partyLedger: col('party ledger', 'counter ledger'),
+    voucherType: col('voucher type'),
+    narration: col('narration'),
+  };
+
+  const rows: BatchRow[] = [];
+  const errors: BatchParseResult['errors'] = [];
+  for (let i = headerIdx + 1; i < grid.length; i++) {
+    const raw = grid[i] || [];
+    const cell = (idx: number) => (idx >= 0 ? String(raw[idx] ?? '').trim() : '');
+    if (raw.every((c) => String(c ?? '').trim() === '')) continue;
+    const rowNumber = i + 1;
+
+    const txnType = pickEnum(cell(cols.type), TXN_TYPES);
+    if (!txnType) {
+      errors.push({ rowNumber, reason: `Unknown type "${cell(cols.type)}" — expected ${TXN_TYPES.join(', ')}` });
+      continue;
+    }
+    const channel = pickChannel(cell(cols.channel), txnType);
+    if (!channel) {
+      errors.push({ rowNumber, reason: `Channel "${cell(cols.channel)}" doesn't handle ${txnType}` });
+      continue;
+    }
+    const mode = pickEnum(cell(cols.mode), channel.modes) ?? channel.modes[0];
+    const supply = norm(cell(cols.supply));
+    const gstCell = cell(cols.gstRate);
+    const direction = norm(cell(cols.direction));
+
+    rows.push({
+      rowNumber,
+      date: toIsoDate(raw[cols.date]),
+      input: {
+        txnType,
+        mode: mode as Mode,
+        channelId: channel.id,
+        paymentMode: pickEnum(cell(cols.paymentMode), PAYMENT_MODES),
+        party: cell(cols.party) || undefined,
+        hsn: cell(cols.hsn) || undefined,
+        gstRate: gstCell ? parseAmount(gstCell) : undefined,
+        amount: Math.abs(parseAmount(raw[cols.amount])) || undefined,
+        intraState: supply ? !/inter|igst|^no$|^false$/.test(supply) : undefined,
+      },
+      reference: cell(cols.reference) || undefined,
+      direction: /^(out|payment|paid|dr|debit|withdrawal)/.test(direction) ? 'out' : direction ? 'in' : undefined,
+      ledger: cell(cols.ledger) || undefined,
+      partyLedger: cell(cols.partyLedger) || undefined,
+      voucherType: cell(cols.voucherType) || undefined,
+      narration: cell(cols.narration) || undefined,
+    });
+  }
+  return { rows, errors };
+}
+
+// Exact name, then case / dash / spacing differences, then without the
+// "(Sundry Debtor)" style suffix the suggester adds to party names.
+function resolveName(name: string, names: string[]): string | null {
+  if (names.includes(name)) return name;
+  const wanted = norm(name);
+  const loose = names.find((n) => norm(n) === wanted);
+  if (loose) return loose;
+  const bare = wanted.replace(/\s*\((sundry (debtor|creditor)|clearing)\)$/, '').replace(/\s*\/\s*clearing$/, '');
+  return bare !== wanted ? names.find((n) => norm(n) === bare) ?? null : null;
+}
+
+// The suggester names GST ledgers generically ("Output CGST"); the master
+// keeps one per rate ("CGST Output - 9%"). CGST / SGST carry half the rate.
+function gstLedgerName(name: string, gstRate: number | undefined): string | null {
+  const m = /^(Input|Output) (CGST|SGST|IGST)\b/.exec(name);
+  if (!m || !gstRate) return null;
+  const rate = m[2] === 'IGST' ? gstRate : gstRate / 2;
+  return `${m[2]} ${m[1]} - ${rate}%`;
+}
+
+// Which suggested line is the party: the counter-party, or for Banking
+// whatever isn't the bank.
+function isPartyLine(ledger: string, row: BatchRow, s: SuggesterOutput): boolean {
+  return row.input.txnType === 'Banking' ? ledger !== s.masterLedger : ledger === s.counterParty;
+}
+
+// Which suggested line is the master ledger: the one named after it, else the
+// first line that isn't the party, GST or TDS (Capital Goods suggests a
+// combined "Plant & Machinery / Office Equipment" but posts to one of them).
+function masterIndex(row: BatchRow, s: SuggesterOutput): number {
+  const named = s.journal.findIndex((l) => l.ledger === s.masterLedger);
+  if (named >= 0) return named;
+  return s.journal.findIndex(
+    (l) => !isPartyLine(l.ledger, row, s) && !s.gstLedgers.includes(l.ledger) && !/^TDS/i.test(l.ledger)
+  );
+}
+
+function buildRow(row: BatchRow, master: TallyMaster): BatchRowResult {
+  const problems: string[] = [];
+  const warnings: string[] = [];
+  const s = suggest(row.input);
+  const result = (voucher: TallyVoucher | null): BatchRowResult => ({ row, suggestion: s, voucher, problems, warnings });
+
+  if (s.journal.length === 0) {
+    problems.push('No booking rule for this type / channel');
+    return result(null);
+  }
+  if (!row.date) problems.push('Missing or unreadable date');
+  const amount = row.input.amount;
+  if (!amount) problems.push('Missing amount');
+
+  // Amounts: the suggester formats them for display ("₹1,180.00").
+  const isBanking = row.input.txnType === 'Banking';
+  const masterAt = masterIndex(row, s);
+  let lines = s.journal
+    .map((l, i) => {
+      const isParty = isPartyLine(l.ledger, row, s);
+      const override = isParty ? row.partyLedger : i === masterAt ? row.ledger : undefined;
+      return {
+        side: l.side,
+        ledger: override || l.ledger,
+        amount: l.amount ? round2(parseAmount(l.amount)) : null,
+        optional: /if applicable/i.test(l.note || ''),
+        isGst: s.gstLedgers.includes(l.ledger),
+        isParty,
+      };
+    })
+    .filter((l) => !l.optional && !(l.isGst && !row.input.gstRate));
+  if (isBanking) {
+    // Receipt: Dr bank / Cr party. Payment flips both sides.
+    const flip = row.direction === 'out';
+    lines = lines.map((l) => ({
+      ...l,
+      side: flip ? (l.side === 'Dr' ? 'Cr' : 'Dr') : l.side,
+      amount: l.amount ?? amount ?? null,
+    }));
+  }
+  const missing = lines.filter((l) => l.amount == null);
+  if (missing.length === 1 && amount) {
+    // The one line without a figure takes the balance (zero-rated rows).
+    const dr = lines.filter((l) => l.side === 'Dr').reduce((t, l) => t + (l.amount ?? 0), 0);
+    const cr = lines.filter((l) => l.side === 'Cr').reduce((t, l) => t + (l.amount ?? 0), 0);
+    missing[0].amount = round2(Math.abs(dr - cr));
+  }
+  for (const l of lines) {
+    if (l.amount == null || l.amount <= 0) problems.push(`No amount for "${l.ledger}"`);
+  }
+  const drTotal = lines.filter((l) => l.side === 'Dr').reduce((t, l) => t + (l.amount ?? 0), 0);
+  const crTotal = lines.filter((l) => l.side === 'Cr').reduce((t, l) => t + (l.amount ?? 0), 0);
+  const gap = round2(drTotal - crTotal);
+  const base = lines.find((l) => !l.isParty && !l.isGst && l.amount != null);
+  if (gap !== 0 && Math.abs(gap) <= 0.05 && base) {
+    // Paise lost splitting GST into CGST + SGST; Tally won't import a voucher
+    // that's off by even 0.01, so the taxable line absorbs it.
+    base.amount = round2((base.amount as number) + (base.side === 'Dr' ? -gap : gap));
+  } else if (gap !== 0) {
+    problems.push(`Lines don't balance: Dr ${drTotal.toFixed(2)} vs Cr ${crTotal.toFixed(2)}`);
+  }
+
+  // Every ledger must exist in the master.
+  const ledgerNames = (master.ledgers || []).map((l) => l.name);
+  const entries: TallyEntry[] = [];
+  for (const l of lines) {
+    if (/^\[.*\]$/.test(l.ledger)) {
+      problems.push(`"${l.ledger}" is a placeholder — set the ${l.isParty ? 'Party ledger' : 'Ledger'} column`);
+      continue;
+    }
+    const gstName = l.isGst ? gstLedgerName(l.ledger, row.input.gstRate) : null;
+    const resolved =
+      resolveName(l.ledger, ledgerNames) ?? (gstName ? resolveName(gstName, ledgerNames) : null);
+    if (!resolved) {
+      problems.push(`Ledger "${l.ledger}" is not in the Tally master`);
+      continue;
+    }
+    if (resolved !== l.ledger) warnings.push(`"${l.ledger}" matched to master ledger "${resolved}"`);
+    entries.push({ dr_or_cr: l.side, ledger: resolved, amount: l.amount ?? 0, isParty: l.isParty });
+  }
+
+  // Voucher type: the row's override, the suggested series, then the base type.
+  const voucherNames = (master.voucherTypes || []).map((v) => v.name);
+  const baseType = isBanking && row.direction === 'out' ? 'Payment' : BASE_VOUCHER_TYPE[row.input.txnType];
+  const candidates = row.voucherType
+    ? [row.voucherType]
+    : isBanking
+      ? [baseType]
+      : [s.voucherType, baseType, ...s.voucherType.split(' / ')];
+  const voucherType = candidates.map((c) => resolveName(c, voucherNames)).find(Boolean) ?? null;
+  if (!voucherType) {
+    problems.push(`Voucher type "${row.voucherType || s.voucherType}" is not in the Tally master`);
+  } else if (!row.voucherType && voucherType !== s.voucherType) {
+    warnings.push(`Voucher type "${s.voucherType}" is not in the master — used "${voucherType}"`);
+  }
+  if (problems.length > 0 || !voucherType) return result(null);
+
+  // Bill-wise: invoices open a New Ref on the party, receipts and payments
+  // settle Agst Ref the same bill.
+  const party = entries.find((e) => e.isParty);
+  const isJournal = /journal/i.test(voucherType);
+  if (party && row.reference) {
+    party.bill = { name: row.reference, type: isBanking ? 'Agst Ref' : 'New Ref' };
+  }
+  for (const e of entries) {
+    if (isJournal || e !== party) e.isParty = false;
+  }
+
+  const channel = CHANNELS.find((c) => c.id === row.input.channelId);
+  return result({
+    voucherType,
+    date: row.date as string,
+    reference: row.reference,
+    narration:
+      row.narration ||
+      [row.input.txnType, channel?.name, row.input.party, row.reference].filter(Boolean).join(' · '),
+    partyLedger: isJournal ? undefined : party?.ledger,
+    entries,
+  });
+}
+
+export function buildBatchXml(rows: BatchRow[], master: TallyMaster, companyName?: string): BatchExport {
+  const results = rows.map((row) => buildRow(row, master));
+  const vouchers = results.flatMap((r) => (r.voucher ? [r.voucher] : []));
+  return {
+    xml: tallyImportEnvelope(companyName || master.company || 'Heatronics', vouchers.map(renderVoucher)),
+    vouchersExported: vouchers.length,
+    results,
+  };
+}
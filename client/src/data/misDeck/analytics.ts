@@ -1,23 +1,25 @@
 // Derived analytics for the MIS Reporting deck.
-// Everything here is computed from the bundled MONTHLY_MIS / FY_SUMMARY data.
+// Everything here is computed from the active deck dataset (MONTHLY_MIS /
+// FY_SUMMARY and the channel & SKU feeds). Lookups built from the data are
+// rebuilt whenever a different dataset version is installed.
 
+import { SALES_CHANNELS, type MonthlyMIS, type SalesChannel } from './misDeckData';
+import { COGS_RATE } from './channelActuals';
+import type { SkuCell } from './skuChannelPnl';
 import {
   MONTHLY_MIS,
   FY_SUMMARY,
-  SALES_CHANNELS,
   D2C_AD_SPEND,
   AMAZON_AD_SPEND,
-  type MonthlyMIS,
-  type SalesChannel,
-} from './misDeckData';
-import {
-  COGS_RATE,
   BLINKIT_ACTUALS,
   AMAZON_ACTUALS,
   D2C_COSTS,
-} from './channelActuals';
-import { SKU_CELLS, type SkuCell } from './skuChannelPnl';
-import { AD_MIX_D2C, AD_MIX_AMZN, AMAZON_AD_MONTHLY } from './adMeasured';
+  SKU_CELLS,
+  AD_MIX_D2C,
+  AD_MIX_AMZN,
+  AMAZON_AD_MONTHLY,
+  onDeckDatasetChange,
+} from './dataset';
 
 export type Granularity = 'month' | 'quarter' | 'year';
 
@@ -49,6 +51,7 @@ export interface PeriodMIS {
   opexLines: Record<string, number>;   // aggregated opex ledger breakup (for drill-down)
   cogmLines: Record<string, number>;   // aggregated COGM ledger breakup (for drill-down)
   monthsCount: number;  // how many months rolled into this period
+  monthKeys: string[];  // "YYYY-MM" of each month rolled into this period
   firstMonthShort: string; // e.g. "Dec '23" — first month covered
   lastMonthShort: string;  // e.g. "Mar '24" — last month covered
 }
@@ -88,6 +91,7 @@ function aggregate(records: MonthlyMIS[], key: string, label: string, longLabel:
     cogm: 0, channelFulfillment: 0, salesMarketing: 0, platformCosts: 0, opex: 0, nonOperating: 0,
     costOfFundraising: 0, nonOpOther: 0, opexLines: {}, cogmLines: {},
     monthsCount: records.length,
+    monthKeys: records.map((r) => r.key),
     firstMonthShort: records.length ? shortMonth(records[0].label) : '',
     lastMonthShort: records.length ? shortMonth(records[records.length - 1].label) : '',
   };
@@ -129,9 +133,16 @@ function reclassifyEarlyAmazon(m: MonthlyMIS): MonthlyMIS {
     returnsByChannel: move(m.returnsByChannel),
   };
 }
-const monthsAsc = [...MONTHLY_MIS]
+const sortedMonths = () => [...MONTHLY_MIS]
   .map(reclassifyEarlyAmazon)
   .sort((a, b) => a.year - b.year || a.month - b.month);
+let monthsAsc = sortedMonths();
+onDeckDatasetChange(() => { monthsAsc = sortedMonths(); });
+
+/** The actual months (Amazon-reclassified), oldest first — the base for projections. */
+export function actualMonths(): MonthlyMIS[] {
+  return monthsAsc;
+}
 
 // The series builders take an explicit source array so the same aggregation can
 // be reused for the actual months (default) and for the blended-GM months.
@@ -411,7 +422,13 @@ export function channelObservations(): string[] {
 // Like-for-like (YoY same-frame) channel comparison
 // ----------------------------------------------------------------------------
 
-const monthByKey = new Map(monthsAsc.map((m) => [m.key, m]));
+const monthByKey = new Map<string, MonthlyMIS>();
+function indexMonths() {
+  monthByKey.clear();
+  for (const m of monthsAsc) monthByKey.set(m.key, m);
+}
+indexMonths();
+onDeckDatasetChange(indexMonths);
 
 /** The underlying monthly records that compose a given period in granularity `g`. */
 function membersOf(g: Granularity, period: PeriodMIS): MonthlyMIS[] {
@@ -843,6 +860,7 @@ export interface ChannelActualRow {
   cogs: number;               // real per-unit product COGS from the actual SKU mix on this channel
   factory: number;            // factory / conversion cost (FACTORY_PCT of revenue) — part of COGM
   channelCosts: number;       // marketplace fees + marketing + platform (from the SKU feed's `oth`)
+  fees: number;              // the non-ad part of channelCosts (marketplace, shipping, gateway)
   contribution: number;       // revenue − cogs − factory − channelCosts
   cmPct: number;              // contribution / revenue
 }
@@ -861,9 +879,14 @@ const MODEL_REV_BY_MONTH: Record<SalesChannel, Record<string, number>> = SALES_C
   acc[c] = {};
   return acc;
 }, {} as Record<SalesChannel, Record<string, number>>);
-for (const m of monthsAsc) {
-  for (const c of SALES_CHANNELS) MODEL_REV_BY_MONTH[c][m.key] = Math.max(0, m.netByChannel[c] || 0);
+function indexModelRevenue() {
+  for (const c of SALES_CHANNELS) MODEL_REV_BY_MONTH[c] = {};
+  for (const m of monthsAsc) {
+    for (const c of SALES_CHANNELS) MODEL_REV_BY_MONTH[c][m.key] = Math.max(0, m.netByChannel[c] || 0);
+  }
 }
+indexModelRevenue();
+onDeckDatasetChange(indexModelRevenue);
 
 // Channels with real per-channel COST feeds (marketplace fees + ad spend).
 const FEED_CHANNELS: SalesChannel[] = ['D2C', 'Amazon', 'Blinkit'];
@@ -892,6 +915,7 @@ export function channelActualPnl(g: Granularity, period: PeriodMIS): ChannelActu
       cogs: a.cogs,
       factory: a.fac,
       channelCosts: a.oth,
+      fees: a.cf,
       contribution: a.con,
       cmPct: a.rev > 0 ? a.con / a.rev : 0,
     };
@@ -986,27 +1010,33 @@ const oldAdTotal = adTotalOf;
 const newAdTotal = adTotalOf;
 const SKU_REV_BY_CH_MONTH = new Map<string, number>();   // ch||m -> Σ positive rev
 const SKU_REV_BY_CMP = new Map<string, number>();         // ch||m||p -> Σ positive rev
-for (const c of SKU_CELLS) {
-  SKU_REV_BY_CH_MONTH.set(`${c.ch}||${c.m}`, (SKU_REV_BY_CH_MONTH.get(`${c.ch}||${c.m}`) ?? 0) + Math.max(0, c.rev));
-  SKU_REV_BY_CMP.set(`${c.ch}||${c.m}||${c.p}`, (SKU_REV_BY_CMP.get(`${c.ch}||${c.m}||${c.p}`) ?? 0) + Math.max(0, c.rev));
-}
 // Measured mapped ad by month||product, per channel with a product feed.
-const AD_MIX: Partial<Record<SalesChannel, Map<string, number>>> = {
-  D2C: new Map(AD_MIX_D2C.map((r) => [`${r.m}||${r.p}`, r.ad])),
-  Amazon: new Map(AD_MIX_AMZN.map((r) => [`${r.m}||${r.p}`, r.ad])),
-};
+const AD_MIX: Partial<Record<SalesChannel, Map<string, number>>> = { D2C: new Map(), Amazon: new Map() };
 // Denominator per channel||month = Σ mapped ad over products present WITH positive
 // revenue that month (products present only via returns are excluded so the split
 // renormalises exactly to the channel-month ad total — keeping CM2 backward-compatible).
 const AD_MIX_DENOM = new Map<string, number>();
-for (const [key, prodRev] of SKU_REV_BY_CMP) {
-  if (prodRev <= 0) continue;
-  const [ch, m, p] = key.split('||');
-  const mix = AD_MIX[ch as SalesChannel];
-  if (!mix) continue;
-  const mapped = mix.get(`${m}||${p}`) ?? 0;
-  if (mapped) AD_MIX_DENOM.set(`${ch}||${m}`, (AD_MIX_DENOM.get(`${ch}||${m}`) ?? 0) + mapped);
+function indexSkuFeed() {
+  SKU_REV_BY_CH_MONTH.clear();
+  SKU_REV_BY_CMP.clear();
+  AD_MIX_DENOM.clear();
+  for (const c of SKU_CELLS) {
+    SKU_REV_BY_CH_MONTH.set(`${c.ch}||${c.m}`, (SKU_REV_BY_CH_MONTH.get(`${c.ch}||${c.m}`) ?? 0) + Math.max(0, c.rev));
+    SKU_REV_BY_CMP.set(`${c.ch}||${c.m}||${c.p}`, (SKU_REV_BY_CMP.get(`${c.ch}||${c.m}||${c.p}`) ?? 0) + Math.max(0, c.rev));
+  }
+  AD_MIX.D2C = new Map(AD_MIX_D2C.map((r) => [`${r.m}||${r.p}`, r.ad]));
+  AD_MIX.Amazon = new Map(AD_MIX_AMZN.map((r) => [`${r.m}||${r.p}`, r.ad]));
+  for (const [key, prodRev] of SKU_REV_BY_CMP) {
+    if (prodRev <= 0) continue;
+    const [ch, m, p] = key.split('||');
+    const mix = AD_MIX[ch as SalesChannel];
+    if (!mix) continue;
+    const mapped = mix.get(`${m}||${p}`) ?? 0;
+    if (mapped) AD_MIX_DENOM.set(`${ch}||${m}`, (AD_MIX_DENOM.get(`${ch}||${m}`) ?? 0) + mapped);
+  }
 }
+indexSkuFeed();
+onDeckDatasetChange(indexSkuFeed);
 /** Ad already embedded in the cell's `oth` bucket (revenue-allocated) — removed to isolate cf. */
 function cellOldAd(c: SkuCell): number {
   const tot = oldAdTotal(c.ch, c.m);
@@ -1033,7 +1063,6 @@ function cellNewAd(c: SkuCell): number {
   return rd > 0 ? tot * (Math.max(0, c.rev) / rd) : 0;
 }
 
-const ALL_SKU_MONTHS = [...new Set(SKU_CELLS.map((c) => c.m))].sort();
 
 export function skuChannelMatrix(g: Granularity, period: PeriodMIS): SkuChannelMatrix {
   const months = new Set(membersOf(g, period).map((m) => m.key));
@@ -1073,7 +1102,14 @@ export function skuChannelMatrix(g: Granularity, period: PeriodMIS): SkuChannelM
 }
 
 /** Earliest → latest month present in the SKU feed (for a coverage note). */
-export const SKU_COVERAGE = { first: ALL_SKU_MONTHS[0], last: ALL_SKU_MONTHS[ALL_SKU_MONTHS.length - 1] };
+export const SKU_COVERAGE = { first: '', last: '' };
+function skuCoverage() {
+  const months = [...new Set(SKU_CELLS.map((c) => c.m))].sort();
+  SKU_COVERAGE.first = months[0];
+  SKU_COVERAGE.last = months[months.length - 1];
+}
+skuCoverage();
+onDeckDatasetChange(skuCoverage);
 
 // ----------------------------------------------------------------------------
 // Channel P&L — ANCHORED (company totals hold; COGS split driven by real SKU mix)
@@ -0,0 +1,120 @@
+// Budget vs actual for the MIS deck. Budget figures come from the server
+// (see data/budget/useBudget) keyed by month → entity → MisPoint field, in ₹
+// with costs as positive magnitudes, exactly like the actuals. Margin
+// subtotals that weren't entered are derived from the cascade so a plan
+// with only revenue and cost lines still gets GM / CM1–3 / EBITDA.
+
+import type { BudgetState } from '../../types/budget';
+import { MIS_POINT_KEYS, sumPoints, type MisEntity, type MisPoint } from './misSheet';
+import type { PeriodMIS } from './analytics';
+
+/** "FY 2025-26" → ["2025-04", …, "2026-03"] */
+export function fiscalYearMonthKeys(fyKey: string): string[] {
+  const start = parseInt(fyKey.slice(3, 7), 10);
+  return Array.from({ length: 12 }, (_, i) => {
+    const month = ((i + 3) % 12) + 1;
+    const year = month >= 4 ? start : start + 1;
+    return `${year}-${String(month).padStart(2, '0')}`;
+  });
+}
+
+// base − costs, but only once at least one cost line is budgeted — otherwise a
+// revenue-only plan would show every margin equal to revenue.
+function cascade(base: number | null, costs: (number | null)[]): number | null {
+  if (base === null || costs.every((c) => c === null)) return null;
+  return base - costs.reduce<number>((s, c) => s + (c ?? 0), 0);
+}
+
+function monthPoint(values: Record<string, number>): MisPoint {
+  const p = {} as MisPoint;
+  for (const k of MIS_POINT_KEYS) p[k] = typeof values[k] === 'number' ? values[k] : null;
+  p.grossMargin ??= cascade(p.netRevenue, [p.cogs]);
+  p.cm1 ??= cascade(p.grossMargin, [p.logistics]);
+  p.cm2 ??= cascade(p.cm1, [p.marketing]);
+  p.cm3 ??= cascade(p.cm2, [p.branding]);
+  p.ebitda ??= cascade(p.cm3, [p.payroll, p.profFee, p.otherExpense, p.otherIncome === null ? null : -p.otherIncome]);
+  return p;
+}
+
+/**
+ * Budget for an entity over a set of months, summed like the actuals.
+ * null when none of the months has a budget for the entity.
+ */
+export function budgetPoint(budget: BudgetState, monthKeys: string[], entity: MisEntity): MisPoint | null {
+  const points = monthKeys
+    .map((k) => budget.months[k]?.[entity])
+    .filter((v): v is Record<string, number> => !!v && Object.keys(v).length > 0)
+    .map(monthPoint);
+  if (points.length === 0) return null;
+  return points.length === 1 ? points[0] : sumPoints(points);
+}
+
+// ----------------------------------------------------------------------------
+// P&L tab (PeriodMIS keys). Opex there is everything between CM3 and EBITDA,
+// so its budget is payroll + professional fee + other expense − other income.
+// Lines below EBITDA have no budget.
+// ----------------------------------------------------------------------------
+
+const PNL_BUDGET: Partial<Record<keyof PeriodMIS, (p: MisPoint) => number | null>> = {
+  netRevenue: (p) => p.netRevenue,
+  cogm: (p) => p.cogs,
+  grossMargin: (p) => p.grossMargin,
+  channelFulfillment: (p) => p.logistics,
+  cm1: (p) => p.cm1,
+  salesMarketing: (p) => p.marketing,
+  cm2: (p) => p.cm2,
+  platformCosts: (p) => p.branding,
+  cm3: (p) => p.cm3,
+  opex: (p) => {
+    const net = cascade(0, [p.payroll, p.profFee, p.otherExpense, p.otherIncome === null ? null : -p.otherIncome]);
+    return net === null ? null : -net;
+  },
+  ebitda: (p) => p.ebitda,
+};
+
+export function isBudgetedPnlLine(key: keyof PeriodMIS): boolean {
+  return key in PNL_BUDGET;
+}
+
+/** Budget for a P&L line, as a positive magnitude for costs (like PeriodMIS). */
+export function pnlBudget(point: MisPoint | null, key: keyof PeriodMIS): number | null {
+  const get = PNL_BUDGET[key];
+  return point && get ? get(point) : null;
+}
+
+// ----------------------------------------------------------------------------
+
+export interface BudgetVariance {
+  budget: number | null;
+  /** actual − budget */
+  variance: number | null;
+  /** variance ÷ |budget| */
+  variancePct: number | null;
+  /** null when there is nothing to compare */
+  favourable: boolean | null;
+}
+
+/**
+ * Text colour for a variance cell. Unlike the deck's trend charts, variance
+ * *is* a good/bad signal, so it is coloured: emerald favourable, rose adverse.
+ */
+export function varianceTone(v: Pick<BudgetVariance, 'favourable'>): string {
+  return v.favourable === null ? 'text-slate-400' : v.favourable ? 'text-emerald-600' : 'text-rose-600';
+}
+
+/**
+ * Compare an actual with its budget. For cost lines (positive magnitudes)
+ * spending under budget is favourable; for revenue and margins, beating it is.
+ */
+export function budgetVariance(actual: number | null, budget: number | null, lowerIsBetter = false): BudgetVariance {
+  if (actual === null || budget === null || !isFinite(actual) || !isFinite(budget)) {
+    return { budget, variance: null, variancePct: null, favourable: null };
+  }
+  const variance = actual - budget;
+  return {
+    budget,
+    variance,
+    variancePct: budget ? variance / Math.abs(budget) : null,
+    favourable: variance === 0 ? null : lowerIsBetter ? variance < 0 : variance > 0,
+  };
+}
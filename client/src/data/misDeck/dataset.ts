@@ -0,0 +1,85 @@
+// The deck's active dataset.
+// The MIS deck reads its source data through these bindings instead of the
+// generated modules. They start as the bundled extract (misDeckData,
+// skuChannelPnl, adMeasured, channelActuals) and are swapped for the server's
+// active snapshot by installDeckDataset(); modules that build lookups from
+// the data rebuild them in an onDeckDatasetChange() listener.
+
+import * as misDeck from './misDeckData';
+import { SKU_CELLS as BUNDLED_SKU_CELLS } from './skuChannelPnl';
+import * as adMeasured from './adMeasured';
+import * as channelActuals from './channelActuals';
+import type { DeckDataset } from '../../types/deckDataset';
+
+/** The extract compiled into the client — the fallback when no snapshot has been published. */
+export const BUNDLED_DATASET: DeckDataset = {
+  mis: {
+    sourceFile: misDeck.MIS_SOURCE_FILE,
+    generatedAt: misDeck.MIS_GENERATED_AT,
+    months: misDeck.MONTHLY_MIS,
+    fySummary: misDeck.FY_SUMMARY,
+    d2cRepeats: misDeck.D2C_REPEATS,
+    amazonRepeats: misDeck.AMAZON_REPEATS,
+    discounts: misDeck.DISCOUNT_DATA,
+    d2cAdSpend: misDeck.D2C_AD_SPEND,
+    amazonAdSpend: misDeck.AMAZON_AD_SPEND,
+  },
+  sku: { cells: BUNDLED_SKU_CELLS },
+  ads: {
+    d2cMix: adMeasured.AD_MIX_D2C,
+    amazonMix: adMeasured.AD_MIX_AMZN,
+    amazonMonthly: adMeasured.AMAZON_AD_MONTHLY,
+  },
+  channels: {
+    blinkit: channelActuals.BLINKIT_ACTUALS,
+    amazon: channelActuals.AMAZON_ACTUALS,
+    d2c: channelActuals.D2C_COSTS,
+  },
+};
+
+export let MIS_SOURCE_FILE = BUNDLED_DATASET.mis.sourceFile;
+export let MIS_GENERATED_AT = BUNDLED_DATASET.mis.generatedAt;
+export let MONTHLY_MIS = BUNDLED_DATASET.mis.months;
+export let FY_SUMMARY = BUNDLED_DATASET.mis.fySummary;
+export let D2C_REPEATS = BUNDLED_DATASET.mis.d2cRepeats;
+export let AMAZON_REPEATS = BUNDLED_DATASET.mis.amazonRepeats;
+export let DISCOUNT_DATA = BUNDLED_DATASET.mis.discounts;
+export let D2C_AD_SPEND = BUNDLED_DATASET.mis.d2cAdSpend;
+export let AMAZON_AD_SPEND = BUNDLED_DATASET.mis.amazonAdSpend;
+export let SKU_CELLS = BUNDLED_DATASET.sku.cells;
+export let AD_MIX_D2C = BUNDLED_DATASET.ads.d2cMix;
+export let AD_MIX_AMZN = BUNDLED_DATASET.ads.amazonMix;
+export let AMAZON_AD_MONTHLY = BUNDLED_DATASET.ads.amazonMonthly;
+export let BLINKIT_ACTUALS = BUNDLED_DATASET.channels.blinkit;
+export let AMAZON_ACTUALS = BUNDLED_DATASET.channels.amazon;
+export let D2C_COSTS = BUNDLED_DATASET.channels.d2c;
+
+const listeners = new Set<() => void>();
+
+/** Point every binding at `data` and let dependent modules rebuild, in import order. */
+export function installDeckDataset(data: DeckDataset): void {
+  MIS_SOURCE_FILE = data.mis.sourceFile;
+  MIS_GENERATED_AT = data.mis.generatedAt;
+  MONTHLY_MIS = data.mis.months;
+  FY_SUMMARY = data.mis.fySummary;
+  D2C_REPEATS = data.mis.d2cRepeats;
+  AMAZON_REPEATS = data.mis.amazonRepeats;
+  DISCOUNT_DATA = data.mis.discounts;
+  D2C_AD_SPEND = data.mis.d2cAdSpend;
+  AMAZON_AD_SPEND = data.mis.amazonAdSpend;
+  SKU_CELLS = data.sku.cells;
+  AD_MIX_D2C = data.ads.d2cMix;
+  AD_MIX_AMZN = data.ads.amazonMix;
+  AMAZON_AD_MONTHLY = data.ads.amazonMonthly;
+  BLINKIT_ACTUALS = data.channels.blinkit;
+  AMAZON_ACTUALS = data.channels.amazon;
+  D2C_COSTS = data.channels.d2c;
+  listeners.forEach((fn) => fn());
+}
+
+export function onDeckDatasetChange(fn: () => void): () => void {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
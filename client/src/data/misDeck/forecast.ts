@@ -0,0 +1,196 @@
+// Rolling forecast — extends the ARR projection from a single revenue line to
+// the full P&L. Each channel's net revenue is projected on its own, either by
+// seasonality (same month last year × the channel's TTM growth) or by trend
+// (recent level compounded at its recent monthly growth). Each cost bucket
+// then follows a driver: a % of projected revenue, or a fixed ₹ per month.
+// Drivers default to the trailing-6-month actuals and can be overridden for
+// the whole horizon or for individual months.
+//
+// Output is plain MonthlyMIS records, so seriesFor() can roll actual + forecast
+// months into month / quarter / year periods with the existing builders.
+
+import { SALES_CHANNELS, type MonthlyMIS, type SalesChannel } from './misDeckData';
+
+export type RevenueMethod = 'trend' | 'seasonal';
+export type CostBucket = 'cogm' | 'channelFulfillment' | 'salesMarketing' | 'platformCosts' | 'opex' | 'nonOperating';
+
+export interface CostDriver {
+  kind: 'pctOfRevenue' | 'fixed';
+  /** Fraction of net revenue (0.4 = 40%) or ₹ per month */
+  value: number;
+}
+
+export interface ForecastConfig {
+  /** Months to project, 12–18 */
+  horizon: number;
+  /** Per-channel method; missing = pick automatically from the history */
+  channelMethods: Partial<Record<SalesChannel, RevenueMethod>>;
+  /** Horizon-wide drivers; missing = trailing-6-month default */
+  drivers: Partial<Record<CostBucket, CostDriver>>;
+  /** Per-month overrides, keyed "YYYY-MM" */
+  overrides: Record<string, Partial<Record<CostBucket, CostDriver>>>;
+}
+
+export interface Forecast {
+  months: MonthlyMIS[];
+  keys: Set<string>;
+  /** Method actually used per channel */
+  methods: Record<SalesChannel, RevenueMethod>;
+  /** Trailing-6-month drivers the config falls back to */
+  defaults: Record<CostBucket, CostDriver>;
+}
+
+export const COST_BUCKETS: { id: CostBucket; label: string; defaultKind: CostDriver['kind'] }[] = [
+  { id: 'cogm', label: 'COGM', defaultKind: 'pctOfRevenue' },
+  { id: 'channelFulfillment', label: 'Channel & Fulfillment', defaultKind: 'pctOfRevenue' },
+  { id: 'salesMarketing', label: 'Sales & Marketing', defaultKind: 'pctOfRevenue' },
+  { id: 'platformCosts', label: 'Brand Investment', defaultKind: 'fixed' },
+  { id: 'opex', label: 'Operating Expenses', defaultKind: 'fixed' },
+  { id: 'nonOperating', label: 'Non-Operating', defaultKind: 'fixed' },
+];
+
+export const FORECAST_HORIZONS = [12, 15, 18];
+
+export const DEFAULT_FORECAST_CONFIG: ForecastConfig = {
+  horizon: 12,
+  channelMethods: {},
+  drivers: {},
+  overrides: {},
+};
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const DRIVER_WINDOW = 6;
+// Keep a hot or cold streak from compounding into nonsense over 18 months.
+const TREND_MONTHLY_CAP = 0.08;
+const SEASONAL_ANNUAL_CAP = 1.5;
+
+const clamp = (v: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, v));
+const mean = (xs: number[]) => (xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0);
+const sum = (xs: number[]) => xs.reduce((a, b) => a + b, 0);
+
+function nextMonth(month: number, year: number, k: number): { month: number; year: number } {
+  const m0 = month - 1 + k;
+  return { month: (m0 % 12) + 1, year: year + Math.floor(m0 / 12) };
+}
+
+// Seasonality needs two full years with the channel actually selling.
+function pickMethod(series: number[]): RevenueMethod {
+  const last24 = series.slice(-24);
+  return last24.length === 24 && last24.filter((v) => v > 0).length >= 20 ? 'seasonal' : 'trend';
+}
+
+function projectTrend(series: number[], horizon: number): number[] {
+  const recent = series.slice(-3);
+  const prior = series.slice(-6, -3);
+  const base = mean(recent);
+  const prevBase = mean(prior);
+  const g = base > 0 && prevBase > 0 ? clamp(Math.pow(base / prevBase, 1 / 3) - 1, -TREND_MONTHLY_CAP, TREND_MONTHLY_CAP) : 0;
+  return Array.from({ length: horizon }, (_, k) => Math.max(0, base * Math.pow(1 + g, k + 1)));
+}
+
+function projectSeasonal(series: number[], horizon: number): number[] {
+  const ttm = sum(series.slice(-12));
+  const prior = sum(series.slice(-24, -12));
+  const g = prior > 0 ? clamp(ttm / prior - 1, -0.5, SEASONAL_ANNUAL_CAP) : 0;
+  const out: number[] = [];
+  for (let k = 0; k < horizon; k++) {
+    // Same month last year: from the actuals for the first 12, then from the projection itself.
+    const ref = k < 12 ? series[series.length - 12 + k] : out[k - 12];
+    out.push(Math.max(0, ref * (1 + g)));
+  }
+  return out;
+}
+
+function defaultDrivers(history: MonthlyMIS[]): Record<CostBucket, CostDriver> {
+  const window = history.slice(-DRIVER_WINDOW);
+  const revenue = sum(window.map((m) => m.netRevenue));
+  const out = {} as Record<CostBucket, CostDriver>;
+  for (const b of COST_BUCKETS) {
+    const costs = window.map((m) => m[b.id]);
+    out[b.id] = b.defaultKind === 'pctOfRevenue'
+      ? { kind: 'pctOfRevenue', value: revenue ? sum(costs) / revenue : 0 }
+      : { kind: 'fixed', value: mean(costs) };
+  }
+  return out;
+}
+
+function driverCost(driver: CostDriver, netRevenue: number): number {
+  return driver.kind === 'pctOfRevenue' ? netRevenue * driver.value : driver.value;
+}
+
+/** Project `config.horizon` months past the last month of `history` (oldest first). Empty history → empty forecast. */
+export function buildForecast(history: MonthlyMIS[], config: ForecastConfig): Forecast {
+  const horizon = clamp(Math.round(config.horizon), 1, 18);
+  const defaults = defaultDrivers(history);
+  const last = history[history.length - 1];
+
+  const methods = {} as Record<SalesChannel, RevenueMethod>;
+  const byChannel = {} as Record<SalesChannel, number[]>;
+  for (const c of SALES_CHANNELS) {
+    const series = history.map((m) => m.netByChannel[c] ?? 0);
+    const method = config.channelMethods[c] ?? pickMethod(series);
+    // Seasonal falls back to trend when there isn't a full prior year to mirror.
+    methods[c] = method === 'seasonal' && series.length < 24 ? 'trend' : method;
+    byChannel[c] = methods[c] === 'seasonal' ? projectSeasonal(series, horizon) : projectTrend(series, horizon);
+  }
+
+  // Nothing to project from — no actuals loaded yet.
+  if (!last) return { months: [], keys: new Set(), methods, defaults };
+
+  const months: MonthlyMIS[] = [];
+  for (let k = 0; k < horizon; k++) {
+    const { month, year } = nextMonth(last.month, last.year, k + 1);
+    const key = `${year}-${String(month).padStart(2, '0')}`;
+    const netByChannel: Partial<Record<SalesChannel, number>> = {};
+    for (const c of SALES_CHANNELS) netByChannel[c] = byChannel[c][k];
+    const netRevenue = sum(SALES_CHANNELS.map((c) => byChannel[c][k]));
+
+    const cost = (b: CostBucket) => {
+      const driver = config.overrides[key]?.[b] ?? config.drivers[b] ?? defaults[b];
+      return driverCost(driver, netRevenue);
+    };
+    const cogm = cost('cogm');
+    const channelFulfillment = cost('channelFulfillment');
+    const salesMarketing = cost('salesMarketing');
+    const platformCosts = cost('platformCosts');
+    const opex = cost('opex');
+    const nonOperating = cost('nonOperating');
+    const grossMargin = netRevenue - cogm;
+    const cm1 = grossMargin - channelFulfillment;
+    const cm2 = cm1 - salesMarketing;
+    const cm3 = cm2 - platformCosts;
+    const ebitda = cm3 - opex;
+
+    months.push({
+      key,
+      label: `${MONTH_NAMES[month - 1]} ${year}`,
+      month,
+      year,
+      netByChannel,
+      grossByChannel: {},
+      returnsByChannel: {},
+      totalGrossRevenue: 0,
+      totalReturns: 0,
+      totalTaxes: 0,
+      netRevenue,
+      interBranch: 0,
+      turnover: netRevenue,
+      grossMargin,
+      cm1,
+      cm2,
+      cm3,
+      ebitda,
+      netIncome: ebitda - nonOperating,
+      cogm,
+      channelFulfillment,
+      salesMarketing,
+      platformCosts,
+      opex,
+      nonOperating,
+      cogmLines: {},
+      opexLines: {},
+    });
+  }
+
+  return { months, keys: new Set(months.map((m) => m.key)), methods, defaults };
+}
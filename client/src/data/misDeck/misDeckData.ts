@@ -1,5 +1,6 @@
 // AUTO-GENERATED from MIS-Sheet_FINAL_channels.xlsx (extracted 2026-06-19).
-// Do not edit by hand. Regenerate via the extraction script if the source workbook changes.
+// Do not edit by hand. This is the bundled fallback: new months are imported through the
+// Data Inputs tab (/api/mis/datasets) and read via ./dataset, not by regenerating this file.
 // All monetary values are in INR (₹). Margin percentages are fractions (0.59 = 59%).
 //
 // NOTE: FY 2025-26 is restated to tie to the company's provisional Profit & Loss A/c as on
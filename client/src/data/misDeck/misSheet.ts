@@ -1,15 +1,11 @@
 // "MIS Sheet" — the company/channel P&L in the line-item structure of the
 // target MIS format (Masterchow layout): Gross Revenue → … → CM1/2/3 → EBITDA,
 // months as columns grouped by fiscal year, values in ₹ Lac. Everything is
-// derived from the bundled MONTHLY_MIS + the channel-P&L allocation, so the
+// derived from the active MONTHLY_MIS + the channel-P&L allocation, so the
 // rows that Heatronics actually tracks are filled and the rest stay blank.
 
-import {
-  MONTHLY_MIS,
-  SALES_CHANNELS,
-  DISCOUNT_DATA,
-  type SalesChannel,
-} from './misDeckData';
+import { SALES_CHANNELS, type MonthlyMIS, type SalesChannel } from './misDeckData';
+import { MONTHLY_MIS, DISCOUNT_DATA, onDeckDatasetChange } from './dataset';
 import {
   monthlySeries,
   channelPnl,
@@ -53,7 +49,7 @@ export interface MisPoint {
   runway: number | null;
 }
 
-const MIS_POINT_KEYS: (keyof MisPoint)[] = [
+export const MIS_POINT_KEYS: (keyof MisPoint)[] = [
   'qty', 'grossRevenue', 'channelMargin', 'returns', 'gst', 'ssClaim', 'discounts',
   'netRevenue', 'cogs', 'grossMargin', 'logistics', 'cm1', 'marketing', 'cm2',
   'branding', 'cm3', 'payroll', 'profFee', 'otherExpense', 'otherIncome', 'ebitda',
@@ -62,59 +58,76 @@ const MIS_POINT_KEYS: (keyof MisPoint)[] = [
 
 // A row of the statement. `pct` rows render as %, others as ₹ Lac. `bold` marks
 // the margin subtotal lines. `get` returns the value in ₹ (or a fraction for pct).
+// `field` is set on rows that read one MisPoint field directly — those are the
+// lines a budget can be entered for. `cost` rows are better when lower, which
+// flips the favourable/adverse reading of a budget variance.
 export interface MisSheetRow {
   label: string;
   pct?: boolean;
   bold?: boolean;
   /** Plain count (rendered as an integer, not ₹ Lac). */
   count?: boolean;
+  field?: keyof MisPoint;
+  cost?: boolean;
   get: (pt: MisPoint) => number | null;
 }
 
+const line = (label: string, field: keyof MisPoint, opts: Omit<MisSheetRow, 'label' | 'field' | 'get'> = {}): MisSheetRow =>
+  ({ label, field, ...opts, get: (p) => p[field] });
+
 const ratio = (a: number | null, b: number | null): number | null =>
   a !== null && b ? a / b : null;
 
 export const MIS_SHEET_ROWS: MisSheetRow[] = [
-  { label: 'Qty', count: true, get: (p) => p.qty },
-  { label: 'Gross Revenue', get: (p) => p.grossRevenue },
-  { label: 'Channel Margin', get: (p) => p.channelMargin },
-  { label: 'Returns', get: (p) => p.returns },
-  { label: 'GST', get: (p) => p.gst },
-  { label: 'SS Claim', get: (p) => p.ssClaim },
-  { label: 'Discounts (Promo)', get: (p) => p.discounts },
-  { label: 'Net Revenue', bold: true, get: (p) => p.netRevenue },
+  line('Qty', 'qty', { count: true }),
+  line('Gross Revenue', 'grossRevenue'),
+  line('Channel Margin', 'channelMargin', { cost: true }),
+  line('Returns', 'returns', { cost: true }),
+  line('GST', 'gst', { cost: true }),
+  line('SS Claim', 'ssClaim', { cost: true }),
+  line('Discounts (Promo)', 'discounts', { cost: true }),
+  line('Net Revenue', 'netRevenue', { bold: true }),
   { label: 'Net Revenue %', pct: true, get: (p) => ratio(p.netRevenue, p.grossRevenue) },
-  { label: 'COGS', get: (p) => p.cogs },
-  { label: 'Gross Margin', bold: true, get: (p) => p.grossMargin },
+  line('COGS', 'cogs', { cost: true }),
+  line('Gross Margin', 'grossMargin', { bold: true }),
   { label: 'GM%', pct: true, get: (p) => ratio(p.grossMargin, p.netRevenue) },
-  { label: 'Logistics', get: (p) => p.logistics },
-  { label: 'CM1', bold: true, get: (p) => p.cm1 },
+  line('Logistics', 'logistics', { cost: true }),
+  line('CM1', 'cm1', { bold: true }),
   { label: 'CM1%', pct: true, get: (p) => ratio(p.cm1, p.netRevenue) },
-  { label: 'Marketing', get: (p) => p.marketing },
-  { label: 'CM2', bold: true, get: (p) => p.cm2 },
+  line('Marketing', 'marketing', { cost: true }),
+  line('CM2', 'cm2', { bold: true }),
   { label: 'CM2%', pct: true, get: (p) => ratio(p.cm2, p.netRevenue) },
-  { label: 'Brand Investment', get: (p) => p.branding },
-  { label: 'CM3', bold: true, get: (p) => p.cm3 },
+  line('Brand Investment', 'branding', { cost: true }),
+  line('CM3', 'cm3', { bold: true }),
   { label: 'CM3%', pct: true, get: (p) => ratio(p.cm3, p.netRevenue) },
-  { label: 'Payroll Costs', get: (p) => p.payroll },
-  { label: 'Professional Fee', get: (p) => p.profFee },
-  { label: 'Other Expense', get: (p) => p.otherExpense },
-  { label: 'Other income', get: (p) => p.otherIncome },
-  { label: 'EBITDA', bold: true, get: (p) => p.ebitda },
+  line('Payroll Costs', 'payroll', { cost: true }),
+  line('Professional Fee', 'profFee', { cost: true }),
+  line('Other Expense', 'otherExpense', { cost: true }),
+  line('Other income', 'otherIncome'),
+  line('EBITDA', 'ebitda', { bold: true }),
   { label: 'EBITDA%', pct: true, get: (p) => ratio(p.ebitda, p.netRevenue) },
-  { label: 'Opening Cash Balance (Cr)', get: (p) => p.openingCash },
-  { label: 'Funding (equity)', get: (p) => p.funding },
-  { label: 'Closing Cash Balance (Cr)', get: (p) => p.closingCash },
-  { label: 'Total Cash Burn', get: (p) => p.cashBurn },
-  { label: 'EBITDA Burn', get: (p) => p.ebitdaBurn },
-  { label: 'Runway (Qtr)', get: (p) => p.runway },
+  line('Opening Cash Balance (Cr)', 'openingCash'),
+  line('Funding (equity)', 'funding'),
+  line('Closing Cash Balance (Cr)', 'closingCash'),
+  line('Total Cash Burn', 'cashBurn', { cost: true }),
+  line('EBITDA Burn', 'ebitdaBurn', { cost: true }),
+  line('Runway (Qtr)', 'runway'),
 ];
 
 // ----------------------------------------------------------------------------
 
-const monthByKey = new Map(MONTHLY_MIS.map((m) => [m.key, m]));
-const discByKey = new Map(DISCOUNT_DATA.map((d) => [d.key, d.discount]));
-const monthsSeries = monthlySeries();
+const monthByKey = new Map<string, MonthlyMIS>();
+const discByKey = new Map<string, number>();
+let monthsSeries: PeriodMIS[] = [];
+function indexMonths() {
+  monthByKey.clear();
+  discByKey.clear();
+  for (const m of MONTHLY_MIS) monthByKey.set(m.key, m);
+  for (const d of DISCOUNT_DATA) discByKey.set(d.key, d.discount);
+  monthsSeries = monthlySeries();
+}
+indexMonths();
+onDeckDatasetChange(indexMonths);
 
 const EMPTY_CASH = {
   channelMargin: null, ssClaim: null, payroll: null, profFee: null, otherIncome: null,
@@ -0,0 +1,98 @@
+// Scenario sandbox — what-if levers applied to one base period's channel P&L.
+// The base is channelPnl() with marketing attributed from the ad-spend feeds,
+// so it reconciles to the booked company P&L. Levers then move each channel:
+//   • growth      → net revenue × (1 + g); COGM and fees are volume-linked
+//   • cogsRate / factoryPct → shift every channel's COGM % by the change vs
+//                   today's COGS_RATE / FACTORY_PCT assumptions
+//   • feeRate     → Channel & Fulfilment as a % of the new revenue
+//   • adSpend     → attributed Sales & Marketing × (1 + change)
+// Brand investment, opex and non-operating are treated as fixed for the
+// period, so each channel keeps its base allocation of them.
+
+import {
+  channelPnl,
+  channelActualPnl,
+  adSpendForPeriod,
+  FACTORY_PCT,
+  COGS_RATE,
+  SALES_CHANNELS,
+  type ChannelPnlRow,
+  type Granularity,
+  type PeriodMIS,
+  type SalesChannel,
+} from './analytics';
+import type { ScenarioLevers } from '../../types/scenario';
+
+export const EMPTY_LEVERS: ScenarioLevers = { growth: {}, adSpend: {}, feeRate: {} };
+
+export type ScenarioTotals = Omit<ChannelPnlRow, 'channel' | 'share'>;
+
+export interface ScenarioResult {
+  rows: ChannelPnlRow[];
+  total: ScenarioTotals;
+}
+
+/** The period's channel P&L every scenario starts from. */
+export function scenarioBase(g: Granularity, p: PeriodMIS): ChannelPnlRow[] {
+  return channelPnl(p, adSpendForPeriod(g, p));
+}
+
+export function totalOf(rows: ChannelPnlRow[]): ScenarioTotals {
+  const t: ScenarioTotals = {
+    netRevenue: 0, cogm: 0, grossMargin: 0, channelFulfillment: 0, cm1: 0,
+    salesMarketing: 0, cm2: 0, platformCosts: 0, cm3: 0,
+    opex: 0, ebitda: 0, nonOperating: 0, netIncome: 0,
+  };
+  for (const r of rows) {
+    for (const k of Object.keys(t) as (keyof ScenarioTotals)[]) t[k] += r[k];
+  }
+  return t;
+}
+
+export function applyScenario(base: ChannelPnlRow[], levers: ScenarioLevers): ScenarioResult {
+  const cogmShift = (levers.cogsRate ?? COGS_RATE) - COGS_RATE + (levers.factoryPct ?? FACTORY_PCT) - FACTORY_PCT;
+  const moved = base.map((b) => {
+    const rate = (v: number) => (b.netRevenue > 0 ? v / b.netRevenue : 0);
+    const netRevenue = b.netRevenue * (1 + (levers.growth[b.channel] ?? 0));
+    const cogm = netRevenue * Math.max(0, rate(b.cogm) + cogmShift);
+    const grossMargin = netRevenue - cogm;
+    const channelFulfillment = netRevenue * (levers.feeRate[b.channel] ?? rate(b.channelFulfillment));
+    const cm1 = grossMargin - channelFulfillment;
+    const salesMarketing = b.salesMarketing * (1 + (levers.adSpend[b.channel] ?? 0));
+    const cm2 = cm1 - salesMarketing;
+    const cm3 = cm2 - b.platformCosts;
+    const ebitda = cm3 - b.opex;
+    return {
+      ...b, netRevenue, cogm, grossMargin, channelFulfillment, cm1,
+      salesMarketing, cm2, cm3, ebitda, netIncome: ebitda - b.nonOperating,
+    };
+  });
+  const totalRevenue = moved.reduce((s, r) => s + r.netRevenue, 0);
+  const rows = moved.map((r) => ({ ...r, share: totalRevenue > 0 ? r.netRevenue / totalRevenue : 0 }));
+  return { rows, total: totalOf(rows) };
+}
+
+/** Number of levers a scenario sets; unset levers stay at the base. */
+export function leverCount(levers: ScenarioLevers): number {
+  return (
+    SALES_CHANNELS.filter((c) => levers.growth[c] !== undefined).length +
+    SALES_CHANNELS.filter((c) => levers.adSpend[c] !== undefined).length +
+    SALES_CHANNELS.filter((c) => levers.feeRate[c] !== undefined).length +
+    (levers.cogsRate !== undefined ? 1 : 0) +
+    (levers.factoryPct !== undefined ? 1 : 0)
+  );
+}
+
+/**
+ * Reference rates from the channels' own settlement / SKU feeds (Channel P&L
+ * actuals), shown next to the levers as a reality check. Only channels with
+ * feed revenue in the period appear.
+ */
+export function feedRates(g: Granularity, p: PeriodMIS): Partial<Record<SalesChannel, { cogsRate: number; feeRate: number }>> {
+  const out: Partial<Record<SalesChannel, { cogsRate: number; feeRate: number }>> = {};
+  for (const r of channelActualPnl(g, p).rows) {
+    if (r.revenue <= 0) continue;
+    out[r.channel] = { cogsRate: r.cogs / r.revenue, feeRate: r.fees / r.revenue };
+  }
+  return out;
+}
@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import { misDataStore } from '../../services/misDataStore';
+import {
+  PeriodCloseAction,
+  PeriodCloseRecord,
+  PeriodCloseStatus,
+  PeriodLockedError,
+} from '../../types/periodClose';
+
+// ---------------------------------------------------------------------------
+// Period close workflow (draft → under review → locked) for monthly MIS.
+//
+// The server (/api/mis/periods) is the source of truth. One module-level
+// cache is shared by every component that shows a lock badge; the locked
+// set is also pushed into misDataStore so its write paths refuse locked
+// months even when called outside React.
+// ---------------------------------------------------------------------------
+
+const API_BASE = '/api/mis/periods';
+
+let cache: Record<string, PeriodCloseRecord> | null = null;
+let inflight: Promise<Record<string, PeriodCloseRecord>> | null = null;
+const subscribers = new Set<() => void>();
+
+function notify() {
+  if (cache) {
+    misDataStore.setLockedMonths(
+      Object.values(cache).filter((r) => r.status === 'locked').map((r) => r.periodKey)
+    );
+  }
+  subscribers.forEach((cb) => cb());
+}
+
+async function fetchPeriods(): Promise<Record<string, PeriodCloseRecord>> {
+  if (inflight) return inflight;
+  inflight = (async () => {
+    const res = await fetch(API_BASE);
+    if (!res.ok) throw new Error(`Period status fetch failed (${res.status})`);
+    const records = (await res.json()) as PeriodCloseRecord[];
+    return Object.fromEntries(records.map((r) => [r.periodKey, r]));
+  })();
+  try {
+    cache = await inflight;
+    return cache;
+  } finally {
+    inflight = null;
+  }
+}
+
+export function getPeriodStatus(periodKey: string): PeriodCloseStatus {
+  return cache?.[periodKey]?.status ?? 'draft';
+}
+
+/**
+ * Ask the server whether a period may be written to. Throws
+ * PeriodLockedError when it is locked. Network failures are logged and
+ * fall back to the cached status so an offline dev server doesn't block
+ * uploads entirely.
+ */
+export async function assertPeriodWritable(periodKey: string): Promise<void> {
+  let res: Response;
+  try {
+    res = await fetch(`${API_BASE}/${encodeURIComponent(periodKey)}/guard`, { method: 'POST' });
+  } catch (error) {
+    console.warn('Period guard unreachable, using cached status:', error);
+    if (getPeriodStatus(periodKey) === 'locked') throw new PeriodLockedError(periodKey);
+    return;
+  }
+  if (res.status === 423) {
+    const body = await res.json().catch(() => ({}));
+    throw new PeriodLockedError(periodKey, body.error);
+  }
+}
+
+export async function transitionPeriod(
+  periodKey: string,
+  action: PeriodCloseAction,
+  by: string,
+  reason?: string
+): Promise<PeriodCloseRecord> {
+  const res = await fetch(`${API_BASE}/${encodeURIComponent(periodKey)}/transition`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action, by, reason }),
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || `Transition failed (${res.status})`);
+  }
+  const record = (await res.json()) as PeriodCloseRecord;
+  cache = { ...(cache || {}), [record.periodKey]: record };
+  notify();
+  return record;
+}
+
+export interface UsePeriodCloseResult {
+  periods: Record<string, PeriodCloseRecord> | null;
+  loading: boolean;
+  getRecord: (periodKey: string) => PeriodCloseRecord | null;
+  isLocked: (periodKey: string) => boolean;
+  transition: typeof transitionPeriod;
+  refresh: () => Promise<void>;
+}
+
+export function usePeriodClose(): UsePeriodCloseResult {
+  const [periods, setPeriods] = useState<Record<string, PeriodCloseRecord> | null>(cache);
+
+  useEffect(() => {
+    const onUpdate = () => setPeriods(cache);
+    subscribers.add(onUpdate);
+    if (cache === null) {
+      fetchPeriods()
+        .then(() => notify())
+        .catch(() => {
+          // Server unreachable — treat every period as draft until refresh.
+          cache = cache ?? {};
+          notify();
+        });
+    }
+    return () => {
+      subscribers.delete(onUpdate);
+    };
+  }, []);
+
+  function getRecord(periodKey: string): PeriodCloseRecord | null {
+    return periods?.[periodKey] ?? null;
+  }
+
+  function isLocked(periodKey: string): boolean {
+    return periods?.[periodKey]?.status === 'locked';
+  }
+
+  async function refresh(): Promise<void> {
+    cache = null;
+    await fetchPeriods();
+    notify();
+  }
+
+  return {
+    periods,
+    loading: periods === null,
+    getRecord,
+    isLocked,
+    transition: transitionPeriod,
+    refresh,
+  };
+}
@@ -0,0 +1,40 @@
+import { NewReclassificationEntry, ReclassificationEntry } from '../../types/reclassification';
+
+// ---------------------------------------------------------------------------
+// Client for the per-period reclassification log (/api/mis/periods/:key/
+// reclassifications). The log is append-only on the server; calculateMIS
+// replays it so manual moves survive a re-upload.
+// ---------------------------------------------------------------------------
+
+const API_BASE = '/api/mis/periods';
+
+/**
+ * Fetch the log for a period. Returns [] when the server is unreachable so
+ * MIS generation still works offline (without replaying manual fixes).
+ */
+export async function fetchReclassifications(periodKey: string): Promise<ReclassificationEntry[]> {
+  try {
+    const res = await fetch(`${API_BASE}/${encodeURIComponent(periodKey)}/reclassifications`);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return (await res.json()) as ReclassificationEntry[];
+  } catch (error) {
+    console.warn(`Reclassification log unavailable for ${periodKey}:`, error);
+    return [];
+  }
+}
+
+export async function appendReclassification(
+  periodKey: string,
+  entry: NewReclassificationEntry
+): Promise<ReclassificationEntry> {
+  const res = await fetch(`${API_BASE}/${encodeURIComponent(periodKey)}/reclassifications`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(entry),
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || `Failed to record reclassification (${res.status})`);
+  }
+  return (await res.json()) as ReclassificationEntry;
+}
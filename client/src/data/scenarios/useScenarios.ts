@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react';
+import { Scenario, ScenarioLevers } from '../../types/scenario';
+
+// ---------------------------------------------------------------------------
+// Saved what-if scenarios for the MIS deck.
+//
+// The server (/api/mis/scenarios) keeps only the levers; results are
+// recomputed against whichever base period is on screen.
+// ---------------------------------------------------------------------------
+
+const API_BASE = '/api/mis/scenarios';
+
+let cache: Scenario[] | null = null;
+let inflight: Promise<Scenario[]> | null = null;
+const subscribers = new Set<() => void>();
+
+function notify() {
+  subscribers.forEach((cb) => cb());
+}
+
+async function fetchScenarios(): Promise<Scenario[]> {
+  if (inflight) return inflight;
+  inflight = (async () => {
+    const res = await fetch(API_BASE);
+    if (!res.ok) throw new Error(`Scenario fetch failed (${res.status})`);
+    return ((await res.json()) as { scenarios: Scenario[] }).scenarios;
+  })();
+  try {
+    cache = await inflight;
+    return cache;
+  } finally {
+    inflight = null;
+  }
+}
+
+async function send(url: string, method: string, by: string, body?: unknown): Promise<Response> {
+  const res = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json', 'X-User': by },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || `Scenario ${method.toLowerCase()} failed (${res.status})`);
+  }
+  return res;
+}
+
+/** Save under a new name, or overwrite `id` when given. */
+export async function saveScenario(name: string, levers: ScenarioLevers, by: string, id?: string): Promise<Scenario> {
+  const res = id
+    ? await send(`${API_BASE}/${encodeURIComponent(id)}`, 'PUT', by, { name, levers })
+    : await send(API_BASE, 'POST', by, { name, levers });
+  const saved = (await res.json()) as Scenario;
+  const list = cache ?? [];
+  cache = list.some((s) => s.id === saved.id) ? list.map((s) => (s.id === saved.id ? saved : s)) : [...list, saved];
+  notify();
+  return saved;
+}
+
+export async function deleteScenario(id: string, by: string): Promise<void> {
+  await send(`${API_BASE}/${encodeURIComponent(id)}`, 'DELETE', by);
+  cache = (cache ?? []).filter((s) => s.id !== id);
+  notify();
+}
+
+export interface UseScenariosResult {
+  scenarios: Scenario[];
+  loading: boolean;
+  save: typeof saveScenario;
+  remove: typeof deleteScenario;
+}
+
+export function useScenarios(): UseScenariosResult {
+  const [scenarios, setScenarios] = useState<Scenario[] | null>(cache);
+
+  useEffect(() => {
+    const onUpdate = () => setScenarios(cache);
+    subscribers.add(onUpdate);
+    if (cache === null) {
+      fetchScenarios()
+        .then(() => notify())
+        .catch(() => {
+          // Server unreachable — the sandbox still works, just without saved scenarios.
+          cache = cache ?? [];
+          notify();
+        });
+    }
+    return () => {
+      subscribers.delete(onUpdate);
+    };
+  }, []);
+
+  return {
+    scenarios: scenarios ?? [],
+    loading: scenarios === null,
+    save: saveScenario,
+    remove: deleteScenario,
+  };
+}
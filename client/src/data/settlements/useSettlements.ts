@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react';
+import type { ParsedSettlementMonth, SettlementChannel, SettlementState } from '../../types/settlement';
+
+// ---------------------------------------------------------------------------
+// Marketplace settlements (Amazon / Blinkit) and escrow receipts.
+//
+// The server (/api/mis/settlements) holds the monthly summaries parsed from
+// the uploaded reports. One module-level cache, shared by every view.
+// ---------------------------------------------------------------------------
+
+const API_BASE = '/api/mis/settlements';
+
+const EMPTY: SettlementState = { months: {}, bankReceipts: {}, updatedAt: '', updatedBy: '' };
+
+let cache: SettlementState | null = null;
+let inflight: Promise<SettlementState> | null = null;
+const subscribers = new Set<() => void>();
+
+function notify() {
+  subscribers.forEach((cb) => cb());
+}
+
+async function fetchSettlements(): Promise<SettlementState> {
+  if (inflight) return inflight;
+  inflight = (async () => {
+    const res = await fetch(API_BASE);
+    if (!res.ok) throw new Error(`Settlements fetch failed (${res.status})`);
+    return (await res.json()) as SettlementState;
+  })();
+  try {
+    cache = await inflight;
+    return cache;
+  } finally {
+    inflight = null;
+  }
+}
+
+async function put(path: string, body: unknown, by: string): Promise<SettlementState> {
+  const res = await fetch(`${API_BASE}/${path}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', 'X-User': by },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || `Settlements save failed (${res.status})`);
+  }
+  cache = (await res.json()) as SettlementState;
+  notify();
+  return cache;
+}
+
+/** Replace the months a report covers for one channel. */
+export function saveSettlementMonths(
+  channel: SettlementChannel,
+  months: Record<string, ParsedSettlementMonth>,
+  by: string
+): Promise<SettlementState> {
+  return put(channel, { months }, by);
+}
+
+/** Replace the escrow receipts for the months a bank statement covers. */
+export function saveBankReceipts(
+  receipts: Record<string, Partial<Record<SettlementChannel, number>>>,
+  by: string
+): Promise<SettlementState> {
+  return put('bank-receipts', { receipts }, by);
+}
+
+export interface UseSettlementsResult {
+  settlements: SettlementState;
+  loading: boolean;
+  saveMonths: typeof saveSettlementMonths;
+  saveReceipts: typeof saveBankReceipts;
+}
+
+export function useSettlements(): UseSettlementsResult {
+  const [settlements, setSettlements] = useState<SettlementState | null>(cache);
+
+  useEffect(() => {
+    const onUpdate = () => setSettlements(cache);
+    subscribers.add(onUpdate);
+    if (cache === null) {
+      fetchSettlements()
+        .then(() => notify())
+        .catch(() => {
+          // Server unreachable — start empty; uploads will retry the save.
+          cache = cache ?? EMPTY;
+          notify();
+        });
+    }
+    return () => {
+      subscribers.delete(onUpdate);
+    };
+  }, []);
+
+  return {
+    settlements: settlements ?? EMPTY,
+    loading: settlements === null,
+    saveMonths: saveSettlementMonths,
+    saveReceipts: saveBankReceipts,
+  };
+}
@@ -0,0 +1,117 @@
+import { useEffect, useMemo, useState } from 'react';
+import { skuToFgMapping } from '../skuToFgMapping';
+
+// ---------------------------------------------------------------------------
+// Amazon SKU → FG item mappings added from the Amazon → Tranzact tool.
+//
+// The server (/api/mis/sku-mappings) keeps them on top of the shipped
+// mapping in data/skuToFgMapping.ts; a saved entry wins. One module-level
+// cache, shared by every view.
+// ---------------------------------------------------------------------------
+
+export interface SkuMapping {
+  sku: string;
+  fgItemId: string;
+  addedAt: string;
+  addedBy: string;
+}
+
+export interface SkuMappingState {
+  mappings: Record<string, SkuMapping>;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+const API_BASE = '/api/mis/sku-mappings';
+
+const EMPTY: SkuMappingState = { mappings: {}, updatedAt: '', updatedBy: '' };
+
+let cache: SkuMappingState | null = null;
+let inflight: Promise<SkuMappingState> | null = null;
+const subscribers = new Set<() => void>();
+
+function notify() {
+  subscribers.forEach((cb) => cb());
+}
+
+async function fetchMappings(): Promise<SkuMappingState> {
+  if (inflight) return inflight;
+  inflight = (async () => {
+    const res = await fetch(API_BASE);
+    if (!res.ok) throw new Error(`SKU mappings fetch failed (${res.status})`);
+    return (await res.json()) as SkuMappingState;
+  })();
+  try {
+    cache = await inflight;
+    return cache;
+  } finally {
+    inflight = null;
+  }
+}
+
+async function send(sku: string, method: string, by: string, body?: unknown): Promise<SkuMappingState> {
+  const res = await fetch(`${API_BASE}/${encodeURIComponent(sku)}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', 'X-User': by },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || `SKU mapping save failed (${res.status})`);
+  }
+  cache = (await res.json()) as SkuMappingState;
+  notify();
+  return cache;
+}
+
+export function saveSkuMapping(sku: string, fgItemId: string, by: string): Promise<SkuMappingState> {
+  return send(sku, 'PUT', by, { fgItemId });
+}
+
+export function removeSkuMapping(sku: string, by: string): Promise<SkuMappingState> {
+  return send(sku, 'DELETE', by);
+}
+
+export interface UseSkuMappingsResult {
+  /** Shipped mapping with the saved additions applied. */
+  skuMap: Record<string, string>;
+  saved: SkuMappingState;
+  loading: boolean;
+  saveSkuMapping: typeof saveSkuMapping;
+  removeSkuMapping: typeof removeSkuMapping;
+}
+
+export function useSkuMappings(): UseSkuMappingsResult {
+  const [saved, setSaved] = useState<SkuMappingState | null>(cache);
+
+  useEffect(() => {
+    const onUpdate = () => setSaved(cache);
+    subscribers.add(onUpdate);
+    if (cache === null) {
+      fetchMappings()
+        .then(() => notify())
+        .catch(() => {
+          // Server unreachable — the shipped mapping still applies.
+          cache = cache ?? EMPTY;
+          notify();
+        });
+    }
+    return () => {
+      subscribers.delete(onUpdate);
+    };
+  }, []);
+
+  const skuMap = useMemo(() => {
+    const map: Record<string, string> = { ...skuToFgMapping };
+    for (const m of Object.values(saved?.mappings ?? {})) map[m.sku] = m.fgItemId;
+    return map;
+  }, [saved]);
+
+  return {
+    skuMap,
+    saved: saved ?? EMPTY,
+    loading: saved === null,
+    saveSkuMapping,
+    removeSkuMapping,
+  };
+}
@@ -10,16 +10,24 @@
 // - Amount signs follow Tally's "deemed positive" rule:
 //     ISDEEMEDPOSITIVE=No  → credit side of the voucher  → AMOUNT = +value
 //     ISDEEMEDPOSITIVE=Yes → debit side of the voucher   → AMOUNT = -value
+//   A negative line amount from the advisor is treated as the opposite side.
 // - Bill reference uses the vendor's invoice number (per locked decision).
+//   Stage 1 opens it as a "New Ref" on the party line; later stages that
+//   touch the party ledger settle "Agst Ref" the same bill, and every
+//   voucher of the booking carries it in REFERENCE.
 // - Voucher number is OMITTED so Tally Prime auto-numbers per series.
-// - Voucher types restricted to Purchase-Services and Purchase-Capital.
-//   Any subsequent stages (e.g. monthly prepaid amortisation Journals) are
-//   intentionally skipped — those are booked manually outside this tool.
+// - Every stage becomes its own voucher. Stage 1 is dated on the invoice
+//   date; later stages on their own `date` (else the invoice date). A stage
+//   with a monthly `recurrence` (prepaid amortisation) is expanded into one
+//   future-dated Journal per month, and the last one absorbs the rounding so
+//   the schedule clears exactly what stage 1 parked on the prepaid ledger.
 // - Cost centre allocation is added only to expense lines, not to GST/TDS
 //   lines (those are tax-handling, not P&L allocations).
 // ---------------------------------------------------------------------------
 
 import type { TallyMaster } from './useTallyMaster';
+import { fmtAmount, renderVoucher, tallyImportEnvelope } from './tallyXml';
+import type { TallyVoucher } from './tallyXml';
 
 // Local copies of the scenario / advice shapes — kept here so the builder is
 // independent of the page module.
@@ -30,6 +38,14 @@ export interface BookingLine {
   notes?: string;
 }
 
+export interface StageRecurrence {
+  frequency: 'monthly';
+  /** Number of vouchers in the schedule. */
+  count: number;
+  /** YYYY-MM-DD of the first voucher; month-ends from the invoice month when absent. */
+  startDate?: string | null;
+}
+
 export interface BookingStage {
   step: number;
   title: string;
@@ -38,6 +54,10 @@ export interface BookingStage {
   costCentre?: string | null;
   lines: BookingLine[];
   notes?: string | null;
+  /** YYYY-MM-DD for a one-off stage booked after the invoice date. */
+  date?: string | null;
+  /** Recurring stage; line amounts are per voucher. */
+  recurrence?: StageRecurrence | null;
 }
 
 export interface ExpenseAdvice {
@@ -75,11 +95,37 @@ export interface ExportError {
   reason: string;
 }
 
+export type BillType = 'New Ref' | 'Agst Ref';
+
+export interface VoucherLine {
+  dr_or_cr: 'Dr' | 'Cr';
+  ledger: string;
+  amount: number;
+  /** Set on lines that carry a bill-wise allocation against `billRef`. */
+  billType?: BillType;
+}
+
+// One generated voucher, as listed in the export preview.
+export interface VoucherPreview {
+  itemId: string;
+  vendor?: string;
+  step: number;
+  /** Position in a recurring schedule, e.g. 3 of 12. */
+  installment?: { index: number; count: number };
+  voucherType: string;
+  date: string; // YYYY-MM-DD
+  narration: string;
+  billRef: string;
+  costCentre: string;
+  lines: VoucherLine[];
+  total: number;
+}
+
 export interface ExportSummary {
   xml: string;
   vouchersExported: number;
+  vouchers: VoucherPreview[];
   itemsSkipped: ExportError[];
-  stagesSkipped: { itemId: string; voucherType: string; step: number }[];
   warnings: string[];
 }
 
@@ -94,40 +140,45 @@ const ALLOWED_VOUCHER_TYPES = new Set([
   'Purchase-Services',
   'Purchase-Capital',
 ]);
+// What the advisor appends to names it couldn't find in the master.
+export const NOT_IN_MASTER_SUFFIX = ' (NOT IN MASTER)';
 const TAX_GROUPS_LOWER = ['duties & taxes', 'duties and taxes', 'gst input', 'gst output', 'tds payable'];
 
-// Standard XML special-character escape.
-function xmlEscape(s: string): string {
-  return s
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&apos;');
+function isoFrom(y: number, m: number, d: number): string {
+  return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
 }
 
-// YYYY-MM-DD -> YYYYMMDD. Falls back to today if input is invalid.
-function tallyDate(input?: string, fallback?: string): string {
-  const s = input || fallback || '';
-  const m = /^(\d{4})-(\d{2})-(\d{2})/.exec(s);
-  if (m) return `${m[1]}${m[2]}${m[3]}`;
+// First valid YYYY-MM-DD among the inputs. Falls back to today.
+function isoDate(...inputs: (string | null | undefined)[]): string {
+  for (const s of inputs) {
+    const m = /^(\d{4})-(\d{2})-(\d{2})/.exec(s || '');
+    if (m) return `${m[1]}-${m[2]}-${m[3]}`;
+  }
   // ultimate fallback: today
   const d = new Date();
-  const yyyy = d.getFullYear();
-  const mm = String(d.getMonth() + 1).padStart(2, '0');
-  const dd = String(d.getDate()).padStart(2, '0');
-  return `${yyyy}${mm}${dd}`;
+  return isoFrom(d.getFullYear(), d.getMonth() + 1, d.getDate());
+}
+
+// `iso` moved forward by `months`. With `monthEnd` the result is the last day
+// of that month; otherwise the day of month is kept (clamped, so 31 Jan + 1
+// month is 28/29 Feb).
+function addMonths(iso: string, months: number, monthEnd: boolean): string {
+  const [y, m, d] = iso.split('-').map(Number);
+  const index = y * 12 + (m - 1) + months;
+  const year = Math.floor(index / 12);
+  const month = (index % 12) + 1;
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return isoFrom(year, month, monthEnd ? lastDay : Math.min(d, lastDay));
 }
 
-function fmtAmount(n: number): string {
-  // Two decimals; Tally is lenient but consistent precision avoids surprises.
-  return n.toFixed(2);
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
 }
 
 // Walk the master's group hierarchy and decide if a ledger is a tax line
 // (Input GST / Output GST / TDS Payable etc.). Tax lines do not get cost
 // centre allocations.
-function isTaxLedger(ledgerName: string, master: TallyMaster): boolean {
+export function isTaxLedger(ledgerName: string, master: TallyMaster): boolean {
   const ledger = master.ledgers?.find((l) => l.name === ledgerName);
   if (!ledger) return false;
   const groupByName = new Map((master.groups || []).map((g) => [g.name, g]));
@@ -149,109 +200,218 @@ function costCentreCategory(name: string, master: TallyMaster): string {
   return cc?.category || 'Channel';
 }
 
-// Validate and normalise one stage into a Voucher XML chunk. Returns either
-// the XML string or an error reason.
-function buildVoucher(
-  item: QueueItemForExport,
-  stage: BookingStage,
-  master: TallyMaster,
-  opts: BuildOptions
-): { xml: string } | { error: string } {
+// The advisor writes "Each month for 12 months" in `when`; queues saved
+// before `recurrence` existed only have that sentence to go on.
+function stageRecurrence(stage: BookingStage): StageRecurrence | null {
+  if (stage.recurrence) return stage.recurrence;
+  const m =
+    /\b(?:each|every)\s+month\s+for\s+(\d+)\s+months?\b/i.exec(stage.when || '') ||
+    /\bmonthly\s+(?:for|over)\s+(\d+)\s+months?\b/i.exec(stage.when || '');
+  return m ? { frequency: 'monthly', count: parseInt(m[1], 10) } : null;
+}
+
+// Validate one stage's lines: ledger and amount present, negatives moved to
+// the other side, totals balanced.
+function normaliseLines(stage: BookingStage): { lines: VoucherLine[] } | { error: string } {
   if (!ALLOWED_VOUCHER_TYPES.has(stage.voucherType)) {
     return {
-      error: `Voucher type "${stage.voucherType}" is not Purchase-Services or Purchase-Capital`,
+      error: `Voucher type "${stage.voucherType}" is not one of ${[...ALLOWED_VOUCHER_TYPES].join(', ')}`,
     };
   }
-  const lines = stage.lines || [];
-  if (lines.length < 2) {
+  const raw = stage.lines || [];
+  if (raw.length < 2) {
     return { error: 'Stage has fewer than 2 ledger lines' };
   }
 
   // Every line must have an amount we can write.
-  for (const l of lines) {
+  const lines: VoucherLine[] = [];
+  for (const l of raw) {
     if (l.amount == null) {
       return { error: `Line for "${l.ledger}" has no amount` };
     }
     if (!l.ledger) return { error: 'Line has no ledger name' };
+    if (l.ledger.endsWith(NOT_IN_MASTER_SUFFIX)) {
+      return { error: `Ledger "${l.ledger.slice(0, -NOT_IN_MASTER_SUFFIX.length)}" is not in the Tally master` };
+    }
+    const flip = l.amount < 0;
+    const side = flip ? (l.dr_or_cr === 'Dr' ? 'Cr' : 'Dr') : l.dr_or_cr;
+    lines.push({ dr_or_cr: side, ledger: l.ledger, amount: round2(Math.abs(l.amount)) });
   }
 
   // Totals must balance.
-  const drTotal = lines.filter((l) => l.dr_or_cr === 'Dr').reduce((s, l) => s + (l.amount || 0), 0);
-  const crTotal = lines.filter((l) => l.dr_or_cr === 'Cr').reduce((s, l) => s + (l.amount || 0), 0);
+  const drTotal = lines.filter((l) => l.dr_or_cr === 'Dr').reduce((s, l) => s + l.amount, 0);
+  const crTotal = lines.filter((l) => l.dr_or_cr === 'Cr').reduce((s, l) => s + l.amount, 0);
   if (Math.abs(drTotal - crTotal) > 0.01) {
     return {
       error: `Lines don't balance: Dr ${drTotal.toFixed(2)} vs Cr ${crTotal.toFixed(2)}`,
     };
   }
+  return { lines };
+}
+
+// Amounts per voucher of a recurring stage. Each voucher gets the stage's
+// lines as written; when a line clears a ledger an earlier stage posted to
+// (Cr Prepaid after Dr Prepaid), the last voucher is trued up so the schedule
+// clears that amount exactly. Differences bigger than rounding are left alone
+// and reported.
+function scheduleAmounts(
+  lines: VoucherLine[],
+  count: number,
+  earlier: VoucherPreview[],
+  warn: (message: string) => void
+): VoucherLine[][] {
+  const last = lines.map((l) => ({ ...l }));
+  for (const line of lines) {
+    const opposite = line.dr_or_cr === 'Dr' ? 'Cr' : 'Dr';
+    const target = earlier
+      .flatMap((v) => v.lines)
+      .filter((l) => l.ledger === line.ledger && l.dr_or_cr === opposite)
+      .reduce((s, l) => s + l.amount, 0);
+    if (target === 0) continue;
+
+    const diff = round2(target - line.amount * count);
+    if (diff === 0) continue;
+    if (Math.abs(diff) > 0.01 * count + 0.005) {
+      warn(
+        `${count} × ${fmtAmount(line.amount)} on "${line.ledger}" doesn't clear the ${fmtAmount(target)} booked earlier`
+      );
+      continue;
+    }
+    // Move the rounding onto this line and the largest line on the other
+    // side so the last voucher still balances.
+    const counterpart = last
+      .filter((l) => l.dr_or_cr === opposite)
+      .reduce((a, b) => (b.amount > a.amount ? b : a));
+    last[lines.indexOf(line)].amount = round2(last[lines.indexOf(line)].amount + diff);
+    counterpart.amount = round2(counterpart.amount + diff);
+    break;
+  }
+  return Array.from({ length: count }, (_, i) =>
+    i === count - 1 ? last : lines.map((l) => ({ ...l }))
+  );
+}
+
+// Plan the vouchers for one queue item: one per stage, or one per month for
+// a recurring stage. All-or-nothing — an item with any unbuildable stage is
+// skipped entirely so Tally never gets half a booking.
+function planItem(
+  item: QueueItemForExport,
+  master: TallyMaster,
+  opts: BuildOptions
+): { vouchers: VoucherPreview[]; warnings: string[] } | { error: string } {
+  const stages = item.advice.stages || [];
+  if (stages.length === 0) return { error: 'No stages' };
 
-  // Identify the party line — first Cr line that lives under Sundry
-  // Creditors / Loans & Advances (i.e. NOT a tax/TDS Cr).
-  const crLines = lines.filter((l) => l.dr_or_cr === 'Cr');
-  const partyLine =
-    crLines.find((l) => !isTaxLedger(l.ledger, master)) || crLines[0];
   const invoiceNumber = item.advice.invoiceExtract?.invoiceNumber || '';
-  const date = tallyDate(item.advice.invoiceExtract?.invoiceDate, opts.fallbackDate);
-  const vendorForNarration =
-    item.advice.invoiceExtract?.vendor || item.answers.party || partyLine.ledger;
-  const narrationParts = [stage.title, vendorForNarration, invoiceNumber].filter(Boolean);
-  const narration = narrationParts.join(' · ');
-  const costCentre =
-    stage.costCentre || item.answers.costCentre || opts.defaultCostCentre || 'HO';
-  const ccCategory = costCentreCategory(costCentre, master);
-
-  const ledgerEntries: string[] = [];
-
-  for (const l of lines) {
-    const amount = l.amount as number;
-    const isDeemedPositive = l.dr_or_cr === 'Dr' ? 'Yes' : 'No';
-    const signedAmount = l.dr_or_cr === 'Dr' ? -amount : amount;
-
-    const entryParts: string[] = [];
-    entryParts.push(`            <LEDGERNAME>${xmlEscape(l.ledger)}</LEDGERNAME>`);
-    entryParts.push(`            <ISDEEMEDPOSITIVE>${isDeemedPositive}</ISDEEMEDPOSITIVE>`);
-    entryParts.push(`            <AMOUNT>${fmtAmount(signedAmount)}</AMOUNT>`);
-
-    // Bill reference on the party line.
-    if (l === partyLine) {
-      const billName = invoiceNumber || `EXP-${item.id.slice(-8).toUpperCase()}`;
-      entryParts.push(`            <BILLALLOCATIONS.LIST>`);
-      entryParts.push(`              <NAME>${xmlEscape(billName)}</NAME>`);
-      entryParts.push(`              <BILLTYPE>New Ref</BILLTYPE>`);
-      entryParts.push(`              <AMOUNT>${fmtAmount(signedAmount)}</AMOUNT>`);
-      entryParts.push(`            </BILLALLOCATIONS.LIST>`);
+  const billRef = invoiceNumber || `EXP-${item.id.slice(-8).toUpperCase()}`;
+  const invoiceDate = isoDate(item.advice.invoiceExtract?.invoiceDate, opts.fallbackDate);
+  const vouchers: VoucherPreview[] = [];
+  const warnings: string[] = [];
+  let partyLedger = '';
+
+  for (const [index, stage] of stages.entries()) {
+    const normalised = normaliseLines(stage);
+    if ('error' in normalised) return { error: `Stage ${stage.step}: ${normalised.error}` };
+    const lines = normalised.lines;
+
+    if (index === 0) {
+      // Identify the party line — first Cr line that lives under Sundry
+      // Creditors / Loans & Advances (i.e. NOT a tax/TDS Cr).
+      const crLines = lines.filter((l) => l.dr_or_cr === 'Cr');
+      const partyLine = crLines.find((l) => !isTaxLedger(l.ledger, master)) || crLines[0];
+      if (!partyLine) return { error: `Stage ${stage.step}: no Cr line for the party` };
+      partyLine.billType = 'New Ref';
+      partyLedger = partyLine.ledger;
+    } else {
+      for (const l of lines) {
+        if (l.ledger === partyLedger) l.billType = 'Agst Ref';
+      }
     }
 
-    // Cost centre allocation on Dr expense lines (skip GST / TDS Dr lines).
-    if (l.dr_or_cr === 'Dr' && !isTaxLedger(l.ledger, master)) {
-      entryParts.push(`            <CATEGORYALLOCATIONS.LIST>`);
-      entryParts.push(`              <CATEGORY>${xmlEscape(ccCategory)}</CATEGORY>`);
-      entryParts.push(`              <COSTCENTREALLOCATIONS.LIST>`);
-      entryParts.push(`                <NAME>${xmlEscape(costCentre)}</NAME>`);
-      entryParts.push(`                <AMOUNT>${fmtAmount(signedAmount)}</AMOUNT>`);
-      entryParts.push(`              </COSTCENTREALLOCATIONS.LIST>`);
-      entryParts.push(`            </CATEGORYALLOCATIONS.LIST>`);
+    const vendor = item.advice.invoiceExtract?.vendor || item.answers.party || partyLedger;
+    const costCentre =
+      stage.costCentre || item.answers.costCentre || opts.defaultCostCentre || 'HO';
+    if (costCentre.endsWith(NOT_IN_MASTER_SUFFIX)) {
+      return { error: `Stage ${stage.step}: cost centre "${costCentre.slice(0, -NOT_IN_MASTER_SUFFIX.length)}" is not in the Tally master` };
     }
+    const voucherFor = (
+      date: string,
+      voucherLines: VoucherLine[],
+      installment?: VoucherPreview['installment']
+    ): VoucherPreview => {
+      const title = installment
+        ? `${stage.title} (${installment.index}/${installment.count})`
+        : stage.title;
+      return {
+        itemId: item.id,
+        vendor: item.advice.invoiceExtract?.vendor,
+        step: stage.step,
+        installment,
+        voucherType: stage.voucherType,
+        date,
+        narration: [title, vendor, billRef].filter(Boolean).join(' · '),
+        billRef,
+        costCentre,
+        lines: voucherLines,
+        total: round2(
+          voucherLines.filter((l) => l.dr_or_cr === 'Dr').reduce((s, l) => s + l.amount, 0)
+        ),
+      };
+    };
 
-    ledgerEntries.push(
-      `          <ALLLEDGERENTRIES.LIST>\n${entryParts.join('\n')}\n          </ALLLEDGERENTRIES.LIST>`
+    const recurrence = stageRecurrence(stage);
+    if (!recurrence || recurrence.count === 1) {
+      const date = index === 0 ? invoiceDate : isoDate(stage.date, recurrence?.startDate, invoiceDate);
+      vouchers.push(voucherFor(date, lines));
+      continue;
+    }
+
+    if (index === 0) {
+      return { error: `Stage ${stage.step}: the purchase stage can't recur` };
+    }
+    if (!Number.isInteger(recurrence.count) || recurrence.count < 1 || recurrence.count > 120) {
+      return { error: `Stage ${stage.step}: recurrence count ${recurrence.count} is not 1–120` };
+    }
+    const explicitStart = /^\d{4}-\d{2}-\d{2}/.test(recurrence.startDate || '');
+    const start = explicitStart ? isoDate(recurrence.startDate) : invoiceDate;
+    const schedule = scheduleAmounts(lines, recurrence.count, vouchers, (message) =>
+      warnings.push(`"${vendor}" stage ${stage.step}: ${message}`)
     );
+    schedule.forEach((voucherLines, i) => {
+      const date = addMonths(start, i, !explicitStart);
+      vouchers.push(voucherFor(date, voucherLines, { index: i + 1, count: recurrence.count }));
+    });
   }
+  return { vouchers, warnings };
+}
 
-  // Journal vouchers don't carry a PARTYLEDGERNAME header in Tally Prime —
-  // they balance through individual ledger entries. Purchase vouchers do.
-  const isPurchase = stage.voucherType.startsWith('Purchase');
-  const partyHeader = isPurchase
-    ? `\n          <PARTYLEDGERNAME>${xmlEscape(partyLine.ledger)}</PARTYLEDGERNAME>`
-    : '';
-
-  const xml = `        <VOUCHER VCHTYPE="${xmlEscape(stage.voucherType)}" ACTION="Create">
-          <DATE>${date}</DATE>
-          <NARRATION>${xmlEscape(narration)}</NARRATION>
-          <VOUCHERTYPENAME>${xmlEscape(stage.voucherType)}</VOUCHERTYPENAME>${partyHeader}
-${ledgerEntries.join('\n')}
-        </VOUCHER>`;
-
-  return { xml };
+// Map one planned voucher onto Tally's entry shape.
+function toTallyVoucher(voucher: VoucherPreview, master: TallyMaster): TallyVoucher {
+  const category = costCentreCategory(voucher.costCentre, master);
+  const isPurchase = voucher.voucherType.startsWith('Purchase');
+  const partyLine = voucher.lines.find((l) => l.billType === 'New Ref');
+  return {
+    voucherType: voucher.voucherType,
+    date: voucher.date,
+    reference: voucher.billRef,
+    narration: voucher.narration,
+    // Journal vouchers don't carry a PARTYLEDGERNAME header in Tally Prime —
+    // they balance through individual ledger entries. Purchase vouchers do.
+    partyLedger: isPurchase ? partyLine?.ledger : undefined,
+    entries: voucher.lines.map((l) => ({
+      dr_or_cr: l.dr_or_cr,
+      ledger: l.ledger,
+      amount: l.amount,
+      isParty: isPurchase && l === partyLine,
+      // Bill-wise allocation: New Ref on the purchase, Agst Ref afterwards.
+      bill: l.billType ? { name: voucher.billRef, type: l.billType } : undefined,
+      // Cost centre allocation on Dr expense lines (skip GST / TDS Dr lines).
+      costCentre:
+        l.dr_or_cr === 'Dr' && !isTaxLedger(l.ledger, master)
+          ? { name: voucher.costCentre, category }
+          : undefined,
+    })),
+  };
 }
 
 export function buildTallyXml(
@@ -261,35 +421,20 @@ export function buildTallyXml(
 ): ExportSummary {
   const company = opts.companyName || 'Heatronics';
   const errors: ExportError[] = [];
-  const stagesSkipped: ExportSummary['stagesSkipped'] = [];
   const warnings: string[] = [];
-  const voucherChunks: string[] = [];
+  const vouchers: VoucherPreview[] = [];
 
   for (const item of queue) {
-    const stages = item.advice.stages || [];
-    if (stages.length === 0) {
+    const result = planItem(item, master, opts);
+    if ('error' in result) {
       errors.push({
         itemId: item.id,
         vendor: item.advice.invoiceExtract?.vendor,
-        reason: 'No stages',
+        reason: result.error,
       });
       continue;
     }
 
-    // Only the FIRST stage is exported as a voucher; subsequent stages
-    // (prepaid amortisation Journals etc.) are out of scope per the locked
-    // decisions and are flagged for manual handling.
-    const primary = stages[0];
-    if (stages.length > 1) {
-      for (let i = 1; i < stages.length; i++) {
-        stagesSkipped.push({
-          itemId: item.id,
-          voucherType: stages[i].voucherType,
-          step: stages[i].step,
-        });
-      }
-    }
-
     if (!item.advice.invoiceExtract?.invoiceNumber) {
       warnings.push(
         `Invoice for "${
@@ -297,47 +442,20 @@ export function buildTallyXml(
         }" has no invoice number — used a generated ref starting "EXP-".`
       );
     }
-
-    const result = buildVoucher(item, primary, master, opts);
-    if ('error' in result) {
-      errors.push({
-        itemId: item.id,
-        vendor: item.advice.invoiceExtract?.vendor,
-        reason: result.error,
-      });
-      continue;
-    }
-    voucherChunks.push(result.xml);
+    warnings.push(...result.warnings);
+    vouchers.push(...result.vouchers);
   }
 
-  const xml = `<?xml version="1.0" encoding="UTF-8"?>
-<ENVELOPE>
-  <HEADER>
-    <TALLYREQUEST>Import Data</TALLYREQUEST>
-  </HEADER>
-  <BODY>
-    <IMPORTDATA>
-      <REQUESTDESC>
-        <REPORTNAME>Vouchers</REPORTNAME>
-        <STATICVARIABLES>
-          <SVCURRENTCOMPANY>${xmlEscape(company)}</SVCURRENTCOMPANY>
-        </STATICVARIABLES>
-      </REQUESTDESC>
-      <REQUESTDATA>
-        <TALLYMESSAGE xmlns:UDF="TallyUDF">
-${voucherChunks.join('\n')}
-        </TALLYMESSAGE>
-      </REQUESTDATA>
-    </IMPORTDATA>
-  </BODY>
-</ENVELOPE>
-`;
+  const xml = tallyImportEnvelope(
+    company,
+    vouchers.map((v) => renderVoucher(toTallyVoucher(v, master)))
+  );
 
   return {
     xml,
-    vouchersExported: voucherChunks.length,
+    vouchersExported: vouchers.length,
+    vouchers,
     itemsSkipped: errors,
-    stagesSkipped,
     warnings,
   };
 }
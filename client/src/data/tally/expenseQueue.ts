@@ -0,0 +1,32 @@
+// ---------------------------------------------------------------------------
+// Expense Booking queue persistence.
+//
+// The queue lives in this browser's localStorage. Expense Booking owns its
+// shape; other tools (the TDS ledger) read it through their own narrower
+// types, the way buildTallyXml does.
+// ---------------------------------------------------------------------------
+
+// Bumped from v4 → v5 because the saved scenario shape changed
+// (`expenseType` was replaced by a 3-way `category`, and `paymentTiming` /
+// `paidFrom` were dropped). Old queues get discarded automatically.
+const QUEUE_LS_KEY = 'heatronics.expense-booking.queue.v5';
+
+export function readPersistedQueue<T>(): T[] {
+  try {
+    const raw = localStorage.getItem(QUEUE_LS_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed as T[];
+  } catch {
+    return [];
+  }
+}
+
+export function persistQueue<T>(q: T[]) {
+  try {
+    localStorage.setItem(QUEUE_LS_KEY, JSON.stringify(q));
+  } catch {
+    // Quota exceeded — queue still works in memory until refresh.
+  }
+}
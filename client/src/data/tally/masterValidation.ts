@@ -0,0 +1,281 @@
+// ---------------------------------------------------------------------------
+// Master validation for the Expense Booking queue.
+//
+// Walks every queued booking and lists the ledgers, parties and cost centres
+// the Tally master doesn't have, with the closest existing names by fuzzy
+// match. Names the advisor flagged come back as "X (NOT IN MASTER)"; the
+// suffix is stripped before matching.
+//
+// A party with no convincing match is probably a new vendor. For those the
+// module writes a masters-import XML — a ledger under Sundry Creditors with
+// GSTIN, state and TDS nature — to import before the vouchers:
+//   Gateway of Tally → Import → Masters → File path → Import.
+// ---------------------------------------------------------------------------
+
+import type { TallyMaster } from './useTallyMaster';
+import { isTaxLedger, NOT_IN_MASTER_SUFFIX } from './buildTallyXml';
+import type { QueueItemForExport } from './buildTallyXml';
+import { tallyImportEnvelope, xmlEscape } from './tallyXml';
+
+export type MasterKind = 'ledger' | 'party' | 'costCentre';
+
+export interface MasterSuggestion {
+  name: string;
+  score: number; // 0–1
+}
+
+export interface NewPartyLedger {
+  name: string;
+  parent: string;
+  gstin?: string;
+  state?: string;
+  /** TDS section from the booking's TDS line, e.g. "194J". */
+  tdsSection?: string;
+  tdsNature?: string;
+  deducteeType?: string;
+}
+
+export interface UnknownMaster {
+  kind: MasterKind;
+  name: string;
+  usedBy: { itemId: string; vendor?: string; step?: number }[];
+  suggestions: MasterSuggestion[];
+  /** Parties only: what a new ledger would be created with. */
+  newParty?: NewPartyLedger;
+  /** Parties only: no suggestion is close enough to be the same vendor. */
+  likelyNew?: boolean;
+}
+
+// Best suggestion at or above this is treated as a typo, not a new party.
+const SAME_PARTY_SCORE = 0.85;
+const MIN_SUGGESTION_SCORE = 0.4;
+
+const PARTY_GROUPS_LOWER = ['sundry creditors', 'service creditors', 'loans & advances', 'loans and advances'];
+
+// GSTIN state codes (first two digits).
+const GST_STATES: Record<string, string> = {
+  '01': 'Jammu & Kashmir', '02': 'Himachal Pradesh', '03': 'Punjab', '04': 'Chandigarh',
+  '05': 'Uttarakhand', '06': 'Haryana', '07': 'Delhi', '08': 'Rajasthan',
+  '09': 'Uttar Pradesh', '10': 'Bihar', '11': 'Sikkim', '12': 'Arunachal Pradesh',
+  '13': 'Nagaland', '14': 'Manipur', '15': 'Mizoram', '16': 'Tripura',
+  '17': 'Meghalaya', '18': 'Assam', '19': 'West Bengal', '20': 'Jharkhand',
+  '21': 'Odisha', '22': 'Chhattisgarh', '23': 'Madhya Pradesh', '24': 'Gujarat',
+  '26': 'Dadra & Nagar Haveli and Daman & Diu', '27': 'Maharashtra', '29': 'Karnataka',
+  '30': 'Goa', '31': 'Lakshadweep', '32': 'Kerala', '33': 'Tamil Nadu',
+  '34': 'Puducherry', '35': 'Andaman & Nicobar Islands', '36': 'Telangana',
+  '37': 'Andhra Pradesh', '38': 'Ladakh',
+};
+
+// Tally's deductee type from the PAN's 4th character (GSTIN chars 3–12 are the PAN).
+const DEDUCTEE_TYPES: Record<string, string> = {
+  C: 'Company - Resident',
+  P: 'Individual/HUF - Resident',
+  H: 'Individual/HUF - Resident',
+  F: 'Partnership Firm',
+  A: 'Association of Persons',
+  B: 'Body of Individuals',
+  T: 'Association of Persons',
+  L: 'Local Authority',
+  J: 'Artificial Juridical Person',
+  G: 'Government',
+};
+
+// Nature of payment per TDS section, as named in Tally's statutory masters.
+const TDS_NATURES: Record<string, string> = {
+  '194A': 'Interest other than Interest on Securities',
+  '194C': 'Payments to Contractors',
+  '194H': 'Commission or Brokerage',
+  '194I': 'Rent on Land and Building',
+  '194IA': 'Transfer of Immovable Property',
+  '194J': 'Fees for Professional or Technical Services',
+  '194Q': 'Purchase of Goods',
+  '194R': 'Benefits or Perquisites of Business',
+};
+
+export function cleanMasterName(name: string): string {
+  return name.endsWith(NOT_IN_MASTER_SUFFIX) ? name.slice(0, -NOT_IN_MASTER_SUFFIX.length) : name;
+}
+
+function normaliseForMatch(s: string): string {
+  return s
+    .toLowerCase()
+    .replace(/\b(private|pvt|limited|ltd|llp|co|company|the|and|&)\b\.?/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function bigrams(s: string): Map<string, number> {
+  const grams = new Map<string, number>();
+  const padded = ` ${s} `;
+  for (let i = 0; i < padded.length - 1; i++) {
+    const g = padded.slice(i, i + 2);
+    grams.set(g, (grams.get(g) || 0) + 1);
+  }
+  return grams;
+}
+
+// Dice coefficient over character bigrams, after dropping legal suffixes
+// ("Pvt Ltd", "LLP") and punctuation. 1 = same name.
+export function nameSimilarity(a: string, b: string): number {
+  const x = normaliseForMatch(a);
+  const y = normaliseForMatch(b);
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  const gx = bigrams(x);
+  const gy = bigrams(y);
+  let overlap = 0;
+  for (const [g, n] of gx) overlap += Math.min(n, gy.get(g) || 0);
+  const total = [...gx.values(), ...gy.values()].reduce((s, n) => s + n, 0);
+  return (2 * overlap) / total;
+}
+
+export function closestMasters(name: string, candidates: string[], limit = 3): MasterSuggestion[] {
+  return candidates
+    .map((c) => ({ name: c, score: Math.round(nameSimilarity(name, c) * 100) / 100 }))
+    .filter((s) => s.score >= MIN_SUGGESTION_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+function underGroups(ledgerGroup: string | null, master: TallyMaster, groupsLower: string[]): boolean {
+  const groupByName = new Map((master.groups || []).map((g) => [g.name, g]));
+  let cursor: string | null | undefined = ledgerGroup;
+  const seen = new Set<string>();
+  while (cursor && !seen.has(cursor)) {
+    seen.add(cursor);
+    if (groupsLower.includes(cursor.toLowerCase())) return true;
+    cursor = groupByName.get(cursor)?.parent;
+  }
+  return false;
+}
+
+// The party line of a booking: the first Cr on stage 1 that isn't a tax
+// ledger — the same line buildTallyXml opens the bill on.
+function partyLineName(item: QueueItemForExport, master: TallyMaster): string | null {
+  const stage = item.advice.stages?.[0];
+  const cr = (stage?.lines || []).filter((l) => l.dr_or_cr === 'Cr' && l.ledger);
+  const line =
+    cr.find((l) => !isTaxLedger(cleanMasterName(l.ledger), master) && !/^TDS\b/i.test(l.ledger)) || cr[0];
+  return line ? cleanMasterName(line.ledger) : null;
+}
+
+function newPartyFor(name: string, item: QueueItemForExport): NewPartyLedger {
+  const gstin = (item.advice.invoiceExtract?.gstin || '').trim().toUpperCase();
+  const validGstin = /^\d{2}[A-Z]{5}\d{4}[A-Z][A-Z0-9]Z[A-Z0-9]$/.test(gstin) ? gstin : undefined;
+  const tdsLine = item.advice.stages
+    ?.flatMap((s) => s.lines || [])
+    .find((l) => /^TDS Payable\b/i.test(cleanMasterName(l.ledger)));
+  const section = tdsLine ? /\b(194[A-Z]*)\b/i.exec(tdsLine.ledger)?.[1]?.toUpperCase() : undefined;
+  return {
+    name,
+    parent: 'Sundry Creditors',
+    gstin: validGstin,
+    state: validGstin ? GST_STATES[validGstin.slice(0, 2)] : undefined,
+    tdsSection: section,
+    tdsNature: section ? TDS_NATURES[section] : undefined,
+    deducteeType: validGstin ? DEDUCTEE_TYPES[validGstin[5]] : undefined,
+  };
+}
+
+export function validateQueueMasters(queue: QueueItemForExport[], master: TallyMaster): UnknownMaster[] {
+  const ledgers = master.ledgers || [];
+  const ledgerNames = new Set(ledgers.map((l) => l.name));
+  const partyNames = ledgers.filter((l) => underGroups(l.group, master, PARTY_GROUPS_LOWER)).map((l) => l.name);
+  const costCentreNames = (master.costCentres || []).map((c) => c.name);
+  const costCentreSet = new Set(costCentreNames);
+  const found = new Map<string, UnknownMaster>();
+
+  function note(kind: MasterKind, name: string, item: QueueItemForExport, step?: number) {
+    const key = `${kind}:${name}`;
+    let entry = found.get(key);
+    if (!entry) {
+      const pool = kind === 'party' ? partyNames : kind === 'costCentre' ? costCentreNames : [...ledgerNames];
+      const suggestions = closestMasters(name, pool);
+      entry = { kind, name, usedBy: [], suggestions };
+      if (kind === 'party') {
+        entry.likelyNew = (suggestions[0]?.score ?? 0) < SAME_PARTY_SCORE;
+        entry.newParty = newPartyFor(name, item);
+      }
+      found.set(key, entry);
+    }
+    if (!entry.usedBy.some((u) => u.itemId === item.id && u.step === step)) {
+      entry.usedBy.push({ itemId: item.id, vendor: item.advice.invoiceExtract?.vendor, step });
+    }
+  }
+
+  for (const item of queue) {
+    const party = partyLineName(item, master);
+    const answeredParty = item.answers.party?.trim();
+    if (answeredParty && !ledgerNames.has(answeredParty) && answeredParty !== party) {
+      note('party', answeredParty, item);
+    }
+    for (const stage of item.advice.stages || []) {
+      for (const line of stage.lines || []) {
+        const name = cleanMasterName(line.ledger || '');
+        if (!name || ledgerNames.has(name)) continue;
+        note(name === party ? 'party' : 'ledger', name, item, stage.step);
+      }
+      const cc = stage.costCentre ? cleanMasterName(stage.costCentre) : '';
+      if (cc && !costCentreSet.has(cc)) note('costCentre', cc, item, stage.step);
+    }
+    const answeredCc = item.answers.costCentre?.trim();
+    if (answeredCc && !costCentreSet.has(answeredCc)) note('costCentre', answeredCc, item);
+  }
+
+  const order: Record<MasterKind, number> = { party: 0, ledger: 1, costCentre: 2 };
+  return [...found.values()].sort((a, b) => order[a.kind] - order[b.kind] || a.name.localeCompare(b.name));
+}
+
+/** Replace a ledger / party / cost centre name across one queued booking. */
+export function renameMaster<T extends QueueItemForExport>(item: T, kind: MasterKind, from: string, to: string): T {
+  const same = (name: string | null | undefined) => !!name && cleanMasterName(name) === from;
+  return {
+    ...item,
+    answers: {
+      ...item.answers,
+      ...(kind === 'party' && same(item.answers.party) ? { party: to } : {}),
+      ...(kind === 'costCentre' && same(item.answers.costCentre) ? { costCentre: to } : {}),
+    },
+    advice: {
+      ...item.advice,
+      stages: (item.advice.stages || []).map((stage) => ({
+        ...stage,
+        costCentre: kind === 'costCentre' && same(stage.costCentre) ? to : stage.costCentre,
+        lines: (stage.lines || []).map((line) =>
+          kind !== 'costCentre' && same(line.ledger) ? { ...line, ledger: to } : line
+        ),
+      })),
+    },
+  };
+}
+
+function ledgerXml(p: NewPartyLedger): string {
+  const parts: string[] = [];
+  parts.push(`          <NAME.LIST TYPE="String">`);
+  parts.push(`            <NAME>${xmlEscape(p.name)}</NAME>`);
+  parts.push(`          </NAME.LIST>`);
+  parts.push(`          <PARENT>${xmlEscape(p.parent)}</PARENT>`);
+  parts.push(`          <ISBILLWISEON>Yes</ISBILLWISEON>`);
+  parts.push(`          <COUNTRYOFRESIDENCE>India</COUNTRYOFRESIDENCE>`);
+  if (p.state) parts.push(`          <LEDSTATENAME>${xmlEscape(p.state)}</LEDSTATENAME>`);
+  if (p.gstin) {
+    parts.push(`          <GSTREGISTRATIONTYPE>Regular</GSTREGISTRATIONTYPE>`);
+    parts.push(`          <PARTYGSTIN>${xmlEscape(p.gstin)}</PARTYGSTIN>`);
+    parts.push(`          <INCOMETAXNUMBER>${xmlEscape(p.gstin.slice(2, 12))}</INCOMETAXNUMBER>`);
+  } else {
+    parts.push(`          <GSTREGISTRATIONTYPE>Unregistered</GSTREGISTRATIONTYPE>`);
+  }
+  if (p.tdsNature) {
+    parts.push(`          <ISTDSAPPLICABLE>Yes</ISTDSAPPLICABLE>`);
+    if (p.deducteeType) parts.push(`          <TDSDEDUCTEETYPE>${xmlEscape(p.deducteeType)}</TDSDEDUCTEETYPE>`);
+    parts.push(`          <TDSAPPLICABLE>${xmlEscape(p.tdsNature)}</TDSAPPLICABLE>`);
+  }
+  return `        <LEDGER NAME="${xmlEscape(p.name)}" ACTION="Create">
+${parts.join('\n')}
+        </LEDGER>`;
+}
+
+/** Masters-import XML creating each party ledger; import it before the vouchers. */
+export function buildMastersXml(parties: NewPartyLedger[], companyName: string): string {
+  return tallyImportEnvelope(companyName, parties.map(ledgerXml), 'All Masters');
+}
@@ -0,0 +1,127 @@
+// ---------------------------------------------------------------------------
+// Tally Prime import XML primitives shared by the exporters (Expense Booking
+// queue and its masters, Invoice Booking Suggester batch).
+//
+// The exporters decide WHAT to post; this module only knows how Tally wants
+// it written:
+// - Date format YYYYMMDD (no separators) — Tally's only accepted form.
+// - ISDEEMEDPOSITIVE=Yes → debit,  AMOUNT = -value
+//   ISDEEMEDPOSITIVE=No  → credit, AMOUNT = +value
+// - Voucher number is OMITTED so Tally Prime auto-numbers per series.
+// ---------------------------------------------------------------------------
+
+export interface TallyEntry {
+  dr_or_cr: 'Dr' | 'Cr';
+  ledger: string;
+  amount: number; // always positive; the side carries the sign
+  /** Marks the party line of a Purchase / Sales / Receipt / Payment voucher. */
+  isParty?: boolean;
+  bill?: { name: string; type: 'New Ref' | 'Agst Ref' | 'On Account' };
+  costCentre?: { name: string; category: string };
+}
+
+export interface TallyVoucher {
+  voucherType: string;
+  date: string; // YYYY-MM-DD
+  reference?: string;
+  narration: string;
+  /** Written as PARTYLEDGERNAME; Journals balance without one. */
+  partyLedger?: string;
+  entries: TallyEntry[];
+}
+
+// Standard XML special-character escape.
+export function xmlEscape(s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// YYYY-MM-DD -> YYYYMMDD.
+export function tallyDate(iso: string): string {
+  return iso.replace(/-/g, '');
+}
+
+export function fmtAmount(n: number): string {
+  // Two decimals; Tally is lenient but consistent precision avoids surprises.
+  return n.toFixed(2);
+}
+
+export function renderVoucher(voucher: TallyVoucher): string {
+  const ledgerEntries = voucher.entries.map((e) => {
+    const signedAmount = e.dr_or_cr === 'Dr' ? -e.amount : e.amount;
+    const parts: string[] = [];
+    parts.push(`            <LEDGERNAME>${xmlEscape(e.ledger)}</LEDGERNAME>`);
+    parts.push(`            <ISDEEMEDPOSITIVE>${e.dr_or_cr === 'Dr' ? 'Yes' : 'No'}</ISDEEMEDPOSITIVE>`);
+    if (e.isParty) parts.push(`            <ISPARTYLEDGER>Yes</ISPARTYLEDGER>`);
+    parts.push(`            <AMOUNT>${fmtAmount(signedAmount)}</AMOUNT>`);
+
+    if (e.bill) {
+      parts.push(`            <BILLALLOCATIONS.LIST>`);
+      parts.push(`              <NAME>${xmlEscape(e.bill.name)}</NAME>`);
+      parts.push(`              <BILLTYPE>${e.bill.type}</BILLTYPE>`);
+      parts.push(`              <AMOUNT>${fmtAmount(signedAmount)}</AMOUNT>`);
+      parts.push(`            </BILLALLOCATIONS.LIST>`);
+    }
+
+    if (e.costCentre) {
+      parts.push(`            <CATEGORYALLOCATIONS.LIST>`);
+      parts.push(`              <CATEGORY>${xmlEscape(e.costCentre.category)}</CATEGORY>`);
+      parts.push(`              <COSTCENTREALLOCATIONS.LIST>`);
+      parts.push(`                <NAME>${xmlEscape(e.costCentre.name)}</NAME>`);
+      parts.push(`                <AMOUNT>${fmtAmount(signedAmount)}</AMOUNT>`);
+      parts.push(`              </COSTCENTREALLOCATIONS.LIST>`);
+      parts.push(`            </CATEGORYALLOCATIONS.LIST>`);
+    }
+
+    return `          <ALLLEDGERENTRIES.LIST>\n${parts.join('\n')}\n          </ALLLEDGERENTRIES.LIST>`;
+  });
+
+  const reference = voucher.reference
+    ? `\n          <REFERENCE>${xmlEscape(voucher.reference)}</REFERENCE>`
+    : '';
+  const partyHeader = voucher.partyLedger
+    ? `\n          <PARTYLEDGERNAME>${xmlEscape(voucher.partyLedger)}</PARTYLEDGERNAME>`
+    : '';
+
+  return `        <VOUCHER VCHTYPE="${xmlEscape(voucher.voucherType)}" ACTION="Create">
+          <DATE>${tallyDate(voucher.date)}</DATE>${reference}
+          <NARRATION>${xmlEscape(voucher.narration)}</NARRATION>
+          <VOUCHERTYPENAME>${xmlEscape(voucher.voucherType)}</VOUCHERTYPENAME>${partyHeader}
+${ledgerEntries.join('\n')}
+        </VOUCHER>`;
+}
+
+// The import envelope Gateway of Tally → Import expects. `reportName` is
+// "Vouchers" for transactions and "All Masters" for ledgers.
+export function tallyImportEnvelope(
+  companyName: string,
+  chunks: string[],
+  reportName: 'Vouchers' | 'All Masters' = 'Vouchers'
+): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<ENVELOPE>
+  <HEADER>
+    <TALLYREQUEST>Import Data</TALLYREQUEST>
+  </HEADER>
+  <BODY>
+    <IMPORTDATA>
+      <REQUESTDESC>
+        <REPORTNAME>${reportName}</REPORTNAME>
+        <STATICVARIABLES>
+          <SVCURRENTCOMPANY>${xmlEscape(companyName)}</SVCURRENTCOMPANY>
+        </STATICVARIABLES>
+      </REQUESTDESC>
+      <REQUESTDATA>
+        <TALLYMESSAGE xmlns:UDF="TallyUDF">
+${chunks.join('\n')}
+        </TALLYMESSAGE>
+      </REQUESTDATA>
+    </IMPORTDATA>
+  </BODY>
+</ENVELOPE>
+`;
+}
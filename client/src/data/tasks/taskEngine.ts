@@ -0,0 +1,218 @@
+import type { TaskRun, TaskState, UnifiedTask } from '../../types/tasks';
+import { addDays, daysBetween } from '../compliance/dueDates';
+
+// ---------------------------------------------------------------------------
+// Task schedule and dependency engine.
+//
+// A task's period for a given day: the day itself (daily), its ISO week
+// (weekly), its month (monthly and rarer) or "once" (ad-hoc). A task is
+// blocked while anything it depends on isn't done for the period that
+// covers the task's due date.
+//
+// The month-close plan takes the tasks flagged as part of the close, plus
+// everything they wait on that falls in the same month, and lays them out
+// as bars ending on their due dates. The tasks holding up the close are
+// the open ones nothing is waiting on themselves — the first link of each
+// stuck chain — ranked by how much is queued behind them.
+//
+// Dates are "YYYY-MM-DD" strings, as in the compliance due-date engine.
+// ---------------------------------------------------------------------------
+
+export type TaskStatus = 'done' | 'skipped' | 'blocked' | 'overdue' | 'open';
+
+export interface ClosePlanRow {
+  task: UnifiedTask;
+  period: string;
+  start: string;
+  due: string;
+  run?: TaskRun;
+  status: TaskStatus;
+  /** Days past due; 0 when not late. */
+  daysLate: number;
+  /** Direct dependencies not yet done. */
+  waitingOn: UnifiedTask[];
+  /** Everything downstream in the plan that isn't done, directly or not. */
+  holdingUp: UnifiedTask[];
+  /** Starts before a dependency is due to finish. */
+  startsTooEarly: boolean;
+}
+
+export interface ClosePlan {
+  month: string;
+  rows: ClosePlanRow[];
+  done: number;
+  /** Open tasks that other close tasks are stuck behind, worst first. */
+  holdingUp: ClosePlanRow[];
+  /** The last due date in the plan. */
+  targetDate: string | null;
+}
+
+function isoDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/** "2026-10-18" → "2026-W42" */
+export function isoWeekKey(iso: string): string {
+  const [y, m, d] = iso.split('-').map(Number);
+  const date = new Date(Date.UTC(y, m - 1, d));
+  const weekday = date.getUTCDay() || 7;
+  date.setUTCDate(date.getUTCDate() + 4 - weekday);
+  const yearStart = Date.UTC(date.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((date.getTime() - yearStart) / 86400000 + 1) / 7);
+  return `${date.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
+
+/** The run a task's work on `iso` counts towards. */
+export function periodFor(task: UnifiedTask, iso: string): string {
+  switch (task.frequency) {
+    case 'daily':
+      return iso;
+    case 'weekly':
+      return isoWeekKey(iso);
+    case 'adhoc':
+      return 'once';
+    default:
+      return iso.slice(0, 7);
+  }
+}
+
+export function isDueInMonth(task: UnifiedTask, month: number): boolean {
+  switch (task.frequency) {
+    case 'quarterly':
+    case 'half-yearly':
+    case 'yearly':
+      return (task.months ?? []).includes(month);
+    case 'adhoc':
+      return false;
+    default:
+      return true;
+  }
+}
+
+/** The due date in "YYYY-MM", for tasks dated by day of month. 31 means the month's last day. */
+export function dueDateInMonth(task: UnifiedTask, ym: string): string | null {
+  if (task.frequency === 'daily' || task.frequency === 'weekly' || task.frequency === 'adhoc') return null;
+  const [year, month] = ym.split('-').map(Number);
+  if (!task.dueDay || !isDueInMonth(task, month)) return null;
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return isoDate(year, month, Math.min(task.dueDay, lastDay));
+}
+
+/**
+ * The period a task's tick on the task list applies to: today's for daily,
+ * weekly and monthly tasks; for rarer ones the next month they fall due in
+ * (this one included), so a quarterly filing can be ticked ahead.
+ */
+export function currentPeriod(task: UnifiedTask, today: string): string {
+  if (task.frequency !== 'quarterly' && task.frequency !== 'half-yearly' && task.frequency !== 'yearly') {
+    return periodFor(task, today);
+  }
+  const [year, month] = today.split('-').map(Number);
+  for (let i = 0; i < 12; i++) {
+    const d = new Date(Date.UTC(year, month - 1 + i, 1));
+    if (isDueInMonth(task, d.getUTCMonth() + 1)) return `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, '0')}`;
+  }
+  return today.slice(0, 7);
+}
+
+export function runOf(state: TaskState, taskId: string, period: string): TaskRun | undefined {
+  return state.runs[taskId]?.[period];
+}
+
+export function isFinished(run: TaskRun | undefined): boolean {
+  return run?.status === 'done' || run?.status === 'skipped';
+}
+
+/** Direct dependencies not done for the period covering `iso`. */
+export function unfinishedDependencies(state: TaskState, task: UnifiedTask, iso: string): UnifiedTask[] {
+  return task.dependsOn
+    .map((id) => state.tasks[id])
+    .filter((dep): dep is UnifiedTask => !!dep && !isFinished(runOf(state, dep.id, periodFor(dep, iso))));
+}
+
+/** Tasks that (directly or through others) wait on `taskId`. */
+export function dependentsOf(state: TaskState, taskId: string): UnifiedTask[] {
+  const found = new Map<string, UnifiedTask>();
+  const walk = (id: string) => {
+    for (const t of Object.values(state.tasks)) {
+      if (t.dependsOn.includes(id) && !found.has(t.id)) {
+        found.set(t.id, t);
+        walk(t.id);
+      }
+    }
+  };
+  walk(taskId);
+  return [...found.values()];
+}
+
+/** Dependencies first; ties by due date, then title. */
+function topological(rows: ClosePlanRow[]): ClosePlanRow[] {
+  const byId = new Map(rows.map((r) => [r.task.id, r]));
+  const placed = new Set<string>();
+  const out: ClosePlanRow[] = [];
+  const place = (row: ClosePlanRow) => {
+    if (placed.has(row.task.id)) return;
+    placed.add(row.task.id);
+    for (const dep of row.task.dependsOn) {
+      const depRow = byId.get(dep);
+      if (depRow) place(depRow);
+    }
+    out.push(row);
+  };
+  [...rows].sort((a, b) => a.due.localeCompare(b.due) || a.task.title.localeCompare(b.task.title)).forEach(place);
+  return out;
+}
+
+/** The close tasks due in "YYYY-MM" and what they wait on that month. */
+export function buildClosePlan(state: TaskState, ym: string, today: string): ClosePlan {
+  const included = new Map<string, { task: UnifiedTask; due: string }>();
+  const include = (task: UnifiedTask) => {
+    if (included.has(task.id)) return;
+    const due = dueDateInMonth(task, ym);
+    if (!due) return;
+    included.set(task.id, { task, due });
+    for (const dep of task.dependsOn) if (state.tasks[dep]) include(state.tasks[dep]);
+  };
+  Object.values(state.tasks).filter((t) => t.monthClose).forEach(include);
+
+  const rows: ClosePlanRow[] = [...included.values()].map(({ task, due }) => {
+    const period = periodFor(task, due);
+    const run = runOf(state, task.id, period);
+    const waitingOn = unfinishedDependencies(state, task, due);
+    const start = addDays(due, -(Math.max(1, task.durationDays) - 1));
+    const daysLate = Math.max(0, daysBetween(due, today));
+    const status: TaskStatus =
+      run?.status === 'done' ? 'done'
+        : run?.status === 'skipped' ? 'skipped'
+          : waitingOn.length > 0 ? 'blocked'
+            : daysLate > 0 ? 'overdue'
+              : 'open';
+    const startsTooEarly = task.dependsOn.some((dep) => {
+      const depDue = included.get(dep)?.due;
+      return !!depDue && depDue >= start;
+    });
+    return { task, period, start, due, run, status, daysLate, waitingOn, holdingUp: [], startsTooEarly };
+  });
+
+  const open = (r: ClosePlanRow) => r.status !== 'done' && r.status !== 'skipped';
+  const rowById = new Map(rows.map((r) => [r.task.id, r]));
+  for (const row of rows) {
+    if (!open(row)) continue;
+    row.holdingUp = dependentsOf(state, row.task.id).filter((t) => {
+      const downstream = rowById.get(t.id);
+      return !!downstream && open(downstream);
+    });
+  }
+
+  const holdingUp = rows
+    .filter((r) => open(r) && r.status !== 'blocked' && r.holdingUp.length > 0)
+    .sort((a, b) => b.holdingUp.length - a.holdingUp.length || b.daysLate - a.daysLate || a.due.localeCompare(b.due));
+
+  return {
+    month: ym,
+    rows: topological(rows),
+    done: rows.filter((r) => !open(r)).length,
+    holdingUp,
+    targetDate: rows.reduce<string | null>((max, r) => (max === null || r.due > max ? r.due : max), null),
+  };
+}
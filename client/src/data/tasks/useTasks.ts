@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import type { ImportPreviewTask, TaskImportRecord, TaskInput, TaskRunStatus, TaskSource, TaskState } from '../../types/tasks';
+import { getCurrentUser } from '../currentUser';
+import { loadTaskData } from '../../utils/taskStorage';
+
+// ---------------------------------------------------------------------------
+// Tasks, their runs and the migrations from the legacy systems.
+//
+// The server (/api/tasks) keeps everything; compliance-linked tasks come
+// back with the ticks recorded on their compliance item. One module-level
+// cache, shared by every view.
+// ---------------------------------------------------------------------------
+
+const API_BASE = '/api/tasks';
+
+const EMPTY: TaskState = { tasks: {}, runs: {}, imports: [], updatedAt: '', updatedBy: '' };
+
+let cache: TaskState | null = null;
+let inflight: Promise<TaskState> | null = null;
+const subscribers = new Set<() => void>();
+
+function notify() {
+  subscribers.forEach((cb) => cb());
+}
+
+async function fetchTasks(): Promise<TaskState> {
+  if (inflight) return inflight;
+  inflight = (async () => {
+    const res = await fetch(API_BASE);
+    if (!res.ok) throw new Error(`Tasks fetch failed (${res.status})`);
+    return (await res.json()) as TaskState;
+  })();
+  try {
+    cache = await inflight;
+    return cache;
+  } finally {
+    inflight = null;
+  }
+}
+
+async function send<T extends TaskState = TaskState>(path: string, method: string, body?: unknown): Promise<T> {
+  const by = getCurrentUser();
+  if (!by) throw new Error('Enter your name first — task changes are recorded against it.');
+  const res = await fetch(`${API_BASE}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', 'X-User': by },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || `Task save failed (${res.status})`);
+  }
+  const state = (await res.json()) as T;
+  cache = state;
+  notify();
+  return state;
+}
+
+export function createTask(task: TaskInput): Promise<TaskState> {
+  return send('', 'POST', task);
+}
+
+export function updateTask(id: string, task: TaskInput): Promise<TaskState> {
+  return send(`/${encodeURIComponent(id)}`, 'PUT', task);
+}
+
+export function deleteTask(id: string): Promise<TaskState> {
+  return send(`/${encodeURIComponent(id)}`, 'DELETE');
+}
+
+export function setTaskRun(id: string, period: string, update: { status?: TaskRunStatus; notes?: string }): Promise<TaskState> {
+  return send(`/${encodeURIComponent(id)}/runs/${encodeURIComponent(period)}`, 'PUT', update);
+}
+
+export function setTaskStep(id: string, period: string, stepId: string, done: boolean): Promise<TaskState> {
+  return send(`/${encodeURIComponent(id)}/runs/${encodeURIComponent(period)}/steps/${encodeURIComponent(stepId)}`, 'PUT', { done });
+}
+
+/**
+ * What a migration would bring over. The Task Tracker lives in this
+ * browser (sheet tasks plus localStorage ticks), so it's read here; the
+ * checklist and compliance calendar are read by the server.
+ */
+export async function previewImport(source: Exclude<TaskSource, 'manual'>): Promise<ImportPreviewTask[]> {
+  if (source === 'tracker') {
+    const legacy = await loadTaskData();
+    return legacy.tasks.map((t) => ({
+      id: `tracker:${t.id}`,
+      sourceRef: t.id,
+      title: t.title,
+      description: t.description || undefined,
+      category: t.category || undefined,
+      frequency: t.frequency,
+      dueDay: t.dueDay,
+      steps: [],
+    }));
+  }
+  const res = await fetch(`${API_BASE}/import/${source}`);
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || `Import preview failed (${res.status})`);
+  }
+  return ((await res.json()) as { tasks: ImportPreviewTask[] }).tasks;
+}
+
+/** Bring the picked source tasks over; running it again refreshes them in place. */
+export async function importTasks(source: Exclude<TaskSource, 'manual'>, refs: string[]): Promise<TaskImportRecord> {
+  const body: Record<string, unknown> = { refs };
+  if (source === 'tracker') {
+    const legacy = await loadTaskData();
+    body.tasks = legacy.tasks;
+    body.completions = legacy.completions;
+  }
+  const { imported } = await send<TaskState & { imported: TaskImportRecord }>(`/import/${source}`, 'POST', body);
+  return imported;
+}
+
+export interface UseTasksResult {
+  state: TaskState;
+  loading: boolean;
+  error: string | null;
+}
+
+export function useTasks(): UseTasksResult {
+  const [state, setState] = useState<TaskState | null>(cache);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const onUpdate = () => setState(cache);
+    subscribers.add(onUpdate);
+    if (cache === null) {
+      fetchTasks()
+        .then(() => notify())
+        .catch((err) => {
+          setError(err instanceof Error ? err.message : 'Tasks could not be loaded');
+          cache = cache ?? EMPTY;
+          notify();
+        });
+    }
+    return () => {
+      subscribers.delete(onUpdate);
+    };
+  }, []);
+
+  return { state: state ?? EMPTY, loading: state === null, error };
+}
@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+import type { TdsChallan, TdsDeductee, TdsState } from '../../types/tds';
+
+// ---------------------------------------------------------------------------
+// TDS deductee master and challans.
+//
+// The server (/api/mis/tds) keeps each deductee's PAN, type and lower-
+// deduction certificate, and the challans TDS was deposited under. One
+// module-level cache, shared by every view.
+// ---------------------------------------------------------------------------
+
+const API_BASE = '/api/mis/tds';
+
+const EMPTY: TdsState = { deductees: {}, challans: [], nextChallanId: 1, updatedAt: '', updatedBy: '' };
+
+let cache: TdsState | null = null;
+let inflight: Promise<TdsState> | null = null;
+const subscribers = new Set<() => void>();
+
+function notify() {
+  subscribers.forEach((cb) => cb());
+}
+
+async function fetchTds(): Promise<TdsState> {
+  if (inflight) return inflight;
+  inflight = (async () => {
+    const res = await fetch(API_BASE);
+    if (!res.ok) throw new Error(`TDS fetch failed (${res.status})`);
+    return (await res.json()) as TdsState;
+  })();
+  try {
+    cache = await inflight;
+    return cache;
+  } finally {
+    inflight = null;
+  }
+}
+
+async function send(path: string, method: string, by: string, body?: unknown): Promise<TdsState> {
+  const res = await fetch(`${API_BASE}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', 'X-User': by },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || `TDS save failed (${res.status})`);
+  }
+  cache = (await res.json()) as TdsState;
+  notify();
+  return cache;
+}
+
+export function saveDeductee(
+  deductee: Omit<TdsDeductee, 'updatedAt' | 'updatedBy'>,
+  by: string
+): Promise<TdsState> {
+  const { party, ...body } = deductee;
+  return send(`/deductees/${encodeURIComponent(party)}`, 'PUT', by, body);
+}
+
+export function removeDeductee(party: string, by: string): Promise<TdsState> {
+  return send(`/deductees/${encodeURIComponent(party)}`, 'DELETE', by);
+}
+
+export function addChallan(
+  challan: Omit<TdsChallan, 'id' | 'addedAt' | 'addedBy'>,
+  by: string
+): Promise<TdsState> {
+  return send('/challans', 'POST', by, challan);
+}
+
+export function removeChallan(id: string, by: string): Promise<TdsState> {
+  return send(`/challans/${encodeURIComponent(id)}`, 'DELETE', by);
+}
+
+export interface UseTdsResult {
+  tds: TdsState;
+  loading: boolean;
+  saveDeductee: typeof saveDeductee;
+  removeDeductee: typeof removeDeductee;
+  addChallan: typeof addChallan;
+  removeChallan: typeof removeChallan;
+}
+
+export function useTds(): UseTdsResult {
+  const [tds, setTds] = useState<TdsState | null>(cache);
+
+  useEffect(() => {
+    const onUpdate = () => setTds(cache);
+    subscribers.add(onUpdate);
+    if (cache === null) {
+      fetchTds()
+        .then(() => notify())
+        .catch(() => {
+          // Server unreachable — no PANs or challans; the ledger still builds.
+          cache = cache ?? EMPTY;
+          notify();
+        });
+    }
+    return () => {
+      subscribers.delete(onUpdate);
+    };
+  }, []);
+
+  return {
+    tds: tds ?? EMPTY,
+    loading: tds === null,
+    saveDeductee,
+    removeDeductee,
+    addChallan,
+    removeChallan,
+  };
+}
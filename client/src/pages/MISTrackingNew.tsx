@@ -9,7 +9,7 @@ import {
   periodToKey
 } from '../types/misTracking';
 import { loadMISData, saveMISRecord, getAllPeriods, getMISRecord } from '../utils/googleSheetsStorage';
-import { parseSalesRegister, parsePurchaseRegister, parseBalanceSheet } from '../utils/misTrackingParser';
+import { parseSalesRegister, parsePurchaseRegister, parseBalanceSheet, salesDataFromRegister } from '../utils/misTrackingParser';
 import { parseBalanceSheetEnhanced } from '../utils/balanceSheetParser';
 import {
   calculateMIS,
@@ -39,9 +39,13 @@ import { StateName } from '../types/stateData';
 import {
   storeBalanceSheet as storeStateBSData,
   storeSalesRegister as storeStateSRData,
-  storePurchaseRegister as storeStatePRData
+  storePurchaseRegister as storeStatePRData,
+  getStateData
 } from '../services/stateDataStore';
 import { StateBalanceSheet, StateSalesRegister, StatePurchaseRegister } from '../types/stateData';
+import { parseAndStoreTallyDayBook } from '../utils/stateDataParsers';
+import { usePeriodClose, assertPeriodWritable } from '../data/periodClose/usePeriodClose';
+import { fetchReclassifications } from '../data/reclassifications/reclassificationLog';
 
 // ============================================
 // DRIVE STATE CODE MAPPING
@@ -69,6 +73,20 @@ const INDIAN_STATE_TO_ABBREV: Record<IndianState, StateName> = {
   'Telangana': 'TG'
 };
 
+// A day book import lands in the state data store; copy the sales and
+// purchase registers it built onto the month's upload so the MIS sees them.
+function applyTallyDayBook(stateUpload: StateUploadData, periodKey: string): void {
+  const stored = getStateData(periodKey, INDIAN_STATE_TO_ABBREV[stateUpload.state]);
+  if (stored?.salesRegister?.entries.length) {
+    stateUpload.salesData = salesDataFromRegister(stored.salesRegister);
+    stateUpload.salesParsed = true;
+  }
+  if (stored?.purchaseRegister?.entries.length) {
+    stateUpload.purchaseTotal = stored.purchaseRegister.totalPurchases;
+    stateUpload.purchaseParsed = true;
+  }
+}
+
 // ============================================
 // TYPES
 // ============================================
@@ -206,6 +224,9 @@ export function MISTrackingNew() {
   const [fetchProgress, setFetchProgress] = useState<{ current: number; total: number; currentMonth: string } | null>(null);
   const [hasCachedData, setHasCachedData] = useState(false); // Track if we have cached data
 
+  // Period close — locked months can't be re-parsed or regenerated
+  const { isLocked } = usePeriodClose();
+
   // ============================================
   // EFFECTS
   // ============================================
@@ -390,6 +411,7 @@ export function MISTrackingNew() {
     try {
       const monthData = monthsData[periodKey];
       if (!monthData) return;
+      await assertPeriodWritable(periodKey);
 
       const stateData = monthData.uploadData[state] || createEmptyStateUploadData(state);
       let updatedStateData = { ...stateData };
@@ -486,7 +508,7 @@ export function MISTrackingNew() {
           }
           console.log('=========================');
 
-          updatedStateData.balanceSheetData = bsResult.data;
+          updatedStateData.balanceSheetData = { ...bsResult.data, position: enhancedResult.data?.position };
           updatedStateData.balanceSheetParsed = true;
 
           // Store enhanced balance sheet data for expense extraction
@@ -550,6 +572,7 @@ export function MISTrackingNew() {
     try {
       const monthData = monthsData[periodKey];
       if (!monthData) return;
+      await assertPeriodWritable(periodKey);
 
       // Gather all months with data for proration (only from the SAME FY as the target month)
       const proratedData: Record<string, {
@@ -590,6 +613,7 @@ export function MISTrackingNew() {
 
       console.log(`Generating MIS for ${periodKey} with prorated raw materials: ${proratedAmount}`);
 
+      const reclassifications = await fetchReclassifications(periodKey);
       const mis = await calculateMIS(
         monthData.period,
         monthData.uploadData,
@@ -602,7 +626,8 @@ export function MISTrackingNew() {
             fyClosingStock: proratedResult.fyClosingStock,
             fyTotalRawMaterials: proratedResult.fyTotalRawMaterials,
             revenueRatio: allocation?.revenueRatio ?? 0
-          }
+          },
+          reclassifications
         }
       );
 
@@ -792,6 +817,7 @@ export function MISTrackingNew() {
     try {
       const monthData = monthsData[periodKey];
       if (!monthData) return;
+      await assertPeriodWritable(periodKey);
 
       let updatedUploadData = { ...monthData.uploadData };
 
@@ -835,6 +861,12 @@ export function MISTrackingNew() {
                 stateUpload.enhancedBalanceSheetData = enhancedBsResult.data;
               }
               break;
+
+            case 'tally_daybook':
+              // Goes straight to the state data store as this month's SR, PR and JR
+              await parseAndStoreTallyDayBook(file, INDIAN_STATE_TO_ABBREV[indianState], periodKey);
+              applyTallyDayBook(stateUpload, periodKey);
+              break;
           }
         }
 
@@ -860,7 +892,8 @@ export function MISTrackingNew() {
   // Helper to fetch and parse a single file
   const fetchAndParseFile = async (
     fileInfo: { id: string; name: string; mimeType: string; type: string },
-    indianState: IndianState
+    indianState: IndianState,
+    periodKey: string
   ): Promise<{ type: string; result: any } | null> => {
     try {
       const content = await getFileContent(fileInfo.id);
@@ -887,6 +920,10 @@ export function MISTrackingNew() {
               enhancedData: enhancedBsResult.success ? enhancedBsResult.data : undefined
             }
           };
+        case 'tally_daybook': {
+          const dayBookResult = await parseAndStoreTallyDayBook(file, INDIAN_STATE_TO_ABBREV[indianState], periodKey);
+          return { type: 'tally_daybook', result: { file, months: dayBookResult.months } };
+        }
         default:
           return null;
       }
@@ -931,8 +968,8 @@ export function MISTrackingNew() {
           return data?.salesParsed || data?.purchaseParsed || data?.balanceSheetParsed;
         });
 
-        if (hasAllData) {
-          // Already have data for this month, skip
+        if (hasAllData || isLocked(periodKey)) {
+          // Already have data for this month (or it's locked), skip
           processedMonths++;
           continue;
         }
@@ -958,7 +995,7 @@ export function MISTrackingNew() {
 
           // Fetch all files for this state in parallel
           const fileResults = await Promise.all(
-            stateData.files.map((fileInfo: any) => fetchAndParseFile(fileInfo, indianState))
+            stateData.files.map((fileInfo: any) => fetchAndParseFile(fileInfo, indianState, periodKey))
           );
 
           // Apply results
@@ -983,6 +1020,9 @@ export function MISTrackingNew() {
                   stateUpload.enhancedBalanceSheetData = result.result.enhancedData;
                 }
                 break;
+              case 'tally_daybook':
+                applyTallyDayBook(stateUpload, periodKey);
+                break;
             }
           }
 
@@ -1091,6 +1131,10 @@ export function MISTrackingNew() {
 
       // Generate MIS for each month with prorated raw materials (using correct FY's proration)
       for (const [periodKey, monthData] of monthsWithData) {
+        if (isLocked(periodKey)) {
+          console.log(`Skipping ${periodKey}: period is locked`);
+          continue;
+        }
         try {
           // Get the correct FY's proration result
           const fy = getFinancialYear(monthData.period.month, monthData.period.year);
@@ -1104,6 +1148,7 @@ export function MISTrackingNew() {
 
           console.log(`Generating MIS for ${periodKey} (${fy.fyKey}) with prorated raw materials: ${proratedAmount}`);
 
+          const reclassifications = await fetchReclassifications(periodKey);
           const mis = await calculateMIS(
             monthData.period,
             monthData.uploadData,
@@ -1116,7 +1161,8 @@ export function MISTrackingNew() {
                 fyClosingStock: proratedResult?.fyClosingStock ?? 0,
                 fyTotalRawMaterials: proratedResult?.fyTotalRawMaterials ?? 0,
                 revenueRatio: allocation?.revenueRatio ?? 0
-              }
+              },
+              reclassifications
             }
           );
           await saveMISRecord(mis);
@@ -1570,6 +1616,7 @@ export function MISTrackingNew() {
             if (mis) setViewingMIS(mis);
           }}
           allMISRecords={allMISData}
+          onRegenerate={handleGenerateMIS}
         />
       )}
 
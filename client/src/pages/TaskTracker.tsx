@@ -1,574 +1,467 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import { useMemo, useState } from 'react';
+import { PageHeader } from '../components/ui/PageHeader';
+import { Pill, SectionCard } from '../components/ui/Card';
 import {
-  Task,
-  TaskCompletion,
-  TaskFrequency,
-  TaskTrackerData,
-  getCurrentPeriodKey,
-  formatPeriod,
-  generateTaskId
-} from '../types/taskTracker';
+  TASK_FREQUENCY_LABELS,
+  TASK_SOURCE_LABELS,
+  type TaskFrequency,
+  type TaskInput,
+  type UnifiedTask,
+} from '../types/tasks';
+import { createTask, deleteTask, setTaskRun, setTaskStep, updateTask, useTasks } from '../data/tasks/useTasks';
 import {
-  loadTaskData,
-  saveTaskData,
-  addTask,
-  deleteTask,
-  markTaskComplete,
-  unmarkTaskComplete,
-  getTaskCompletion,
-  getTasksSheetUrl
-} from '../utils/taskStorage';
-
-type ViewMode = 'all' | 'daily' | 'weekly' | 'monthly' | 'adhoc';
-
-const frequencyLabels: Record<TaskFrequency, string> = {
+  buildClosePlan,
+  currentPeriod,
+  isFinished,
+  runOf,
+  unfinishedDependencies,
+} from '../data/tasks/taskEngine';
+import { formatIsoDate, todayIso } from '../data/compliance/dueDates';
+import { getCurrentUser, setCurrentUser } from '../data/currentUser';
+import { CloseTimeline } from './tasks/CloseTimeline';
+import { TaskEditor } from './tasks/TaskEditor';
+import { TaskMigration } from './tasks/TaskMigration';
+
+type Tab = 'tasks' | 'close' | 'import';
+type ViewMode = 'all' | 'daily' | 'weekly' | 'monthly' | 'periodic' | 'adhoc';
+
+const VIEW_LABELS: Record<ViewMode, string> = {
+  all: 'All Tasks',
   daily: 'Daily',
   weekly: 'Weekly',
   monthly: 'Monthly',
-  adhoc: 'Ad-hoc'
+  periodic: 'Quarterly & yearly',
+  adhoc: 'Ad-hoc',
 };
 
 const frequencyColors: Record<TaskFrequency, string> = {
   daily: 'bg-blue-50 text-blue-600',
   weekly: 'bg-purple-50 text-purple-600',
   monthly: 'bg-emerald-50 text-emerald-600',
-  adhoc: 'bg-orange-50 text-orange-600'
+  quarterly: 'bg-teal-50 text-teal-600',
+  'half-yearly': 'bg-sky-50 text-sky-600',
+  yearly: 'bg-indigo-50 text-indigo-600',
+  adhoc: 'bg-orange-50 text-orange-600',
 };
 
-const categoryColors: Record<string, string> = {
-  GST: 'bg-rose-50 border-rose-200',
-  TDS: 'bg-purple-50 border-purple-200',
-  Payroll: 'bg-emerald-50 border-emerald-200',
-  Accounting: 'bg-blue-50 border-blue-200',
-  Reporting: 'bg-yellow-50 border-yellow-200',
-  Payments: 'bg-orange-50 border-orange-200',
-  Receivables: 'bg-teal-50 border-teal-200',
-  Banking: 'bg-indigo-50 border-indigo-200',
-  Invoicing: 'bg-pink-50 border-pink-200',
-  default: 'bg-white border-slate-200'
-};
-
-export function TaskTracker() {
-  const [data, setData] = useState<TaskTrackerData | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [viewMode, setViewMode] = useState<ViewMode>('monthly');
-  const [selectedPeriod, setSelectedPeriod] = useState<string>('');
-  const [showAddModal, setShowAddModal] = useState(false);
-  const [editingTask, setEditingTask] = useState<Task | null>(null);
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
-  // Load data on mount
-  useEffect(() => {
-    loadData();
-  }, []);
+const iconTasks = (
+  <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+  </svg>
+);
 
-  // Set initial period when data loads
-  useEffect(() => {
-    if (data && !selectedPeriod) {
-      setSelectedPeriod(getCurrentPeriodKey(viewMode === 'all' ? 'monthly' : viewMode));
-    }
-  }, [data, viewMode]);
-
-  const loadData = async () => {
-    setLoading(true);
-    const taskData = await loadTaskData();
-    setData(taskData);
-    setLoading(false);
-  };
-
-  // Filter tasks based on view mode
-  const filteredTasks = useMemo(() => {
-    if (!data) return [];
-    if (viewMode === 'all') return data.tasks;
-    return data.tasks.filter(task => task.frequency === viewMode);
-  }, [data, viewMode]);
-
-  // Get completion status for a task
-  const getCompletionStatus = (taskId: string): TaskCompletion | undefined => {
-    if (!data) return undefined;
-    const period = getCurrentPeriodKey(
-      data.tasks.find(t => t.id === taskId)?.frequency || 'monthly'
-    );
-    return getTaskCompletion(data.completions, taskId, period);
-  };
-
-  // Toggle task completion
-  const toggleComplete = async (task: Task) => {
-    const period = getCurrentPeriodKey(task.frequency);
-    const existing = getTaskCompletion(data?.completions || [], task.id, period);
+function matchesView(task: UnifiedTask, view: ViewMode): boolean {
+  if (view === 'all') return true;
+  if (view === 'periodic') return task.frequency === 'quarterly' || task.frequency === 'half-yearly' || task.frequency === 'yearly';
+  return task.frequency === view;
+}
 
-    if (existing?.status === 'completed') {
-      await unmarkTaskComplete(task.id, period);
-    } else {
-      await markTaskComplete(task.id, period, 'completed');
-    }
-    await loadData();
-  };
+function describeDue(task: UnifiedTask): string | null {
+  if (task.dueDay === undefined) return null;
+  if (task.frequency === 'weekly') return `Due ${WEEKDAY_NAMES[task.dueDay] ?? ''}`;
+  if (task.frequency === 'daily' || task.frequency === 'adhoc') return null;
+  const day = task.dueDay >= 31 ? 'last day' : `${task.dueDay}${getDaySuffix(task.dueDay)}`;
+  if (task.frequency === 'monthly') return `Due: ${day} of month`;
+  return `Due: ${day} of ${(task.months ?? []).map((m) => MONTH_NAMES[m - 1]).join(', ') || '—'}`;
+}
 
-  // Handle adding a new task
-  const handleAddTask = async (taskData: Omit<Task, 'id' | 'createdAt'>) => {
-    await addTask(taskData);
-    await loadData();
-    setShowAddModal(false);
-  };
+function formatPeriodLabel(period: string): string {
+  if (period === 'once') return 'One-off';
+  if (/^\d{4}-W\d{2}$/.test(period)) return `Week ${period.slice(6)}, ${period.slice(0, 4)}`;
+  if (/^\d{4}-\d{2}$/.test(period)) return `${MONTH_NAMES[Number(period.slice(5)) - 1]} ${period.slice(0, 4)}`;
+  return formatIsoDate(period);
+}
 
-  // Handle deleting a task
-  const handleDeleteTask = async (taskId: string) => {
-    if (confirm('Are you sure you want to delete this task?')) {
-      await deleteTask(taskId);
-      await loadData();
+export function TaskTracker() {
+  const { state, loading, error } = useTasks();
+  const [tab, setTab] = useState<Tab>('tasks');
+  const [viewMode, setViewMode] = useState<ViewMode>('monthly');
+  const [user, setUser] = useState(getCurrentUser());
+  const [status, setStatus] = useState<{ tone: 'ok' | 'error'; text: string } | null>(null);
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [editingTask, setEditingTask] = useState<UnifiedTask | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const today = todayIso();
+  const [closeMonth, setCloseMonth] = useState(today.slice(0, 7));
+
+  const tasks = useMemo(
+    () => Object.values(state.tasks).sort((a, b) => (a.dueDay ?? 99) - (b.dueDay ?? 99) || a.title.localeCompare(b.title)),
+    [state.tasks]
+  );
+  const filteredTasks = useMemo(() => tasks.filter((t) => matchesView(t, viewMode)), [tasks, viewMode]);
+  const plan = useMemo(() => buildClosePlan(state, closeMonth, today), [state, closeMonth, today]);
+
+  const run = async (action: () => Promise<void>, done: string) => {
+    setStatus(null);
+    try {
+      setCurrentUser(user);
+      await action();
+      setStatus({ tone: 'ok', text: done });
+    } catch (err) {
+      setStatus({ tone: 'error', text: err instanceof Error ? err.message : 'Save failed' });
     }
   };
 
   // Calculate stats
   const stats = useMemo(() => {
-    if (!data) return { total: 0, completed: 0, pending: 0 };
-
-    const tasksToCount = viewMode === 'all' ? data.tasks : data.tasks.filter(t => t.frequency === viewMode);
     let completed = 0;
-
-    tasksToCount.forEach(task => {
-      const period = getCurrentPeriodKey(task.frequency);
-      const completion = getTaskCompletion(data.completions, task.id, period);
-      if (completion?.status === 'completed') completed++;
+    let blocked = 0;
+    filteredTasks.forEach((task) => {
+      const period = currentPeriod(task, today);
+      if (isFinished(runOf(state, task.id, period))) completed++;
+      else if (unfinishedDependencies(state, task, today).length > 0) blocked++;
     });
+    return { total: filteredTasks.length, completed, blocked, pending: filteredTasks.length - completed };
+  }, [filteredTasks, state, today]);
 
-    return {
-      total: tasksToCount.length,
-      completed,
-      pending: tasksToCount.length - completed
-    };
-  }, [data, viewMode]);
-
-  if (loading) {
-    return (
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-8">
-        <div className="animate-pulse space-y-4">
-          <div className="h-8 bg-slate-100 rounded w-1/4"></div>
-          <div className="h-4 bg-slate-100 rounded w-1/2"></div>
-          <div className="grid grid-cols-3 gap-4 mt-8">
-            {[1, 2, 3].map(i => (
-              <div key={i} className="h-24 bg-white rounded-xl"></div>
-            ))}
-          </div>
-        </div>
-      </div>
-    );
-  }
+  const toggleComplete = (task: UnifiedTask) => {
+    const period = currentPeriod(task, today);
+    const done = isFinished(runOf(state, task.id, period));
+    return run(() => setTaskRun(task.id, period, { status: done ? 'open' : 'done' }).then(() => undefined), done ? 'Reopened.' : 'Marked done.');
+  };
+
+  const handleDeleteTask = (task: UnifiedTask) => {
+    if (!confirm(`Delete “${task.title}”?`)) return;
+    return run(() => deleteTask(task.id).then(() => undefined), 'Task deleted.');
+  };
+
+  const saveTask = async (input: TaskInput) => {
+    setCurrentUser(user);
+    if (editingTask) await updateTask(editingTask.id, input);
+    else await createTask(input);
+    setShowAddModal(false);
+    setEditingTask(null);
+  };
 
   return (
-    <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6">
-      {/* Header */}
-      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
-        <div>
-          <h1 className="text-xl font-semibold text-slate-900">Task Tracker</h1>
-          <p className="text-slate-400 text-sm mt-1">Manage your accounting tasks and deadlines</p>
-        </div>
-        <div className="flex items-center gap-3">
-          <a
-            href={getTasksSheetUrl()}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-emerald-600 bg-emerald-50 border border-emerald-200 rounded-lg hover:bg-emerald-100 transition-colors"
-          >
-            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
-            </svg>
-            Open Sheet
-          </a>
+    <>
+      <PageHeader
+        title="Task Tracker"
+        description="Recurring finance work in one place — schedules, owners, steps and what each task waits on, with the month-end close laid out day by day."
+        accent="sky"
+        icon={iconTasks}
+        actions={
           <button
             onClick={() => setShowAddModal(true)}
-            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 transition-colors"
+            className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-white bg-brand-500 hover:bg-brand-600 rounded-lg transition-colors"
           >
             <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
             </svg>
             Add Task
           </button>
+        }
+      />
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 space-y-5">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex gap-2">
+            {(['tasks', 'close', 'import'] as Tab[]).map((t) => (
+              <button
+                key={t}
+                onClick={() => setTab(t)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  tab === t ? 'bg-slate-100 text-blue-600' : 'text-slate-400 hover:bg-white hover:text-slate-700'
+                }`}
+              >
+                {t === 'tasks' ? 'Tasks' : t === 'close' ? 'Month close' : 'Bring tasks over'}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-3">
+            {status && (
+              <span className={`text-xs ${status.tone === 'ok' ? 'text-emerald-700' : 'text-rose-600'}`}>{status.text}</span>
+            )}
+            <label className="flex items-center gap-2 text-xs text-slate-500">
+              Your name
+              <input
+                value={user}
+                onChange={(e) => setUser(e.target.value)}
+                className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-sm w-48 focus:outline-none focus:ring-2 focus:ring-brand-500"
+              />
+            </label>
+          </div>
         </div>
-      </div>
 
-      {/* Stats Cards */}
-      <div className="grid grid-cols-3 gap-3 mb-6">
-        <div className="bg-white rounded-lg border border-slate-200 p-3">
-          <div className="text-xs text-slate-400">Total Tasks</div>
-          <div className="text-xl font-semibold text-slate-800 mt-0.5">{stats.total}</div>
-        </div>
-        <div className="bg-emerald-50 rounded-lg border border-emerald-200 p-3">
-          <div className="text-xs text-slate-400">Completed</div>
-          <div className="text-xl font-semibold text-emerald-600 mt-0.5">{stats.completed}</div>
-        </div>
-        <div className="bg-amber-50 rounded-lg border border-amber-200 p-3">
-          <div className="text-xs text-slate-400">Pending</div>
-          <div className="text-xl font-semibold text-amber-600 mt-0.5">{stats.pending}</div>
-        </div>
-      </div>
+        {error && <p className="text-xs text-rose-600">{error}</p>}
 
-      {/* View Mode Tabs */}
-      <div className="flex gap-2 mb-5 overflow-x-auto pb-2">
-        {(['all', 'daily', 'weekly', 'monthly', 'adhoc'] as ViewMode[]).map((mode) => (
-          <button
-            key={mode}
-            onClick={() => {
-              setViewMode(mode);
-              setSelectedPeriod(getCurrentPeriodKey(mode === 'all' ? 'monthly' : mode));
-            }}
-            className={`
-              px-4 py-2 rounded-lg text-sm font-medium whitespace-nowrap transition-colors
-              ${viewMode === mode
-                ? 'bg-slate-100 text-blue-600'
-                : 'text-slate-400 hover:bg-white hover:text-slate-700'
-              }
-            `}
-          >
-            {mode === 'all' ? 'All Tasks' : frequencyLabels[mode]}
-          </button>
-        ))}
-      </div>
+        {tab === 'tasks' && (
+          <>
+            {/* Stats Cards */}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <div className="bg-white rounded-lg border border-slate-200 p-3">
+                <div className="text-xs text-slate-400">Total Tasks</div>
+                <div className="text-xl font-semibold text-slate-800 mt-0.5">{stats.total}</div>
+              </div>
+              <div className="bg-emerald-50 rounded-lg border border-emerald-200 p-3">
+                <div className="text-xs text-slate-400">Completed</div>
+                <div className="text-xl font-semibold text-emerald-600 mt-0.5">{stats.completed}</div>
+              </div>
+              <div className="bg-amber-50 rounded-lg border border-amber-200 p-3">
+                <div className="text-xs text-slate-400">Pending</div>
+                <div className="text-xl font-semibold text-amber-600 mt-0.5">{stats.pending}</div>
+              </div>
+              <div className="bg-rose-50 rounded-lg border border-rose-200 p-3">
+                <div className="text-xs text-slate-400">Blocked</div>
+                <div className="text-xl font-semibold text-rose-600 mt-0.5">{stats.blocked}</div>
+              </div>
+            </div>
 
-      {/* Progress Bar */}
-      {stats.total > 0 && (
-        <div className="mb-5">
-          <div className="flex items-center justify-between text-sm mb-2">
-            <span className="text-slate-400">Progress</span>
-            <span className="font-medium text-slate-700">
-              {stats.completed} / {stats.total} completed
-            </span>
-          </div>
-          <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
-            <div
-              className="h-full bg-emerald-500 rounded-full transition-all duration-300"
-              style={{ width: `${(stats.completed / stats.total) * 100}%` }}
-            />
-          </div>
-        </div>
-      )}
+            {/* View Mode Tabs */}
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {(Object.keys(VIEW_LABELS) as ViewMode[]).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setViewMode(mode)}
+                  className={`px-3 py-1.5 rounded-lg text-xs font-medium whitespace-nowrap transition-colors ${
+                    viewMode === mode ? 'bg-slate-100 text-blue-600' : 'text-slate-400 hover:bg-white hover:text-slate-700'
+                  }`}
+                >
+                  {VIEW_LABELS[mode]}
+                </button>
+              ))}
+            </div>
 
-      {/* Task List */}
-      <div className="space-y-2">
-        {filteredTasks.length === 0 ? (
-          <div className="text-center py-12 bg-white rounded-xl border border-slate-200">
-            <svg className="h-12 w-12 text-slate-600 mx-auto mb-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
-            </svg>
-            <p className="text-slate-400">No tasks found</p>
-            <button
-              onClick={() => setShowAddModal(true)}
-              className="mt-4 text-blue-600 font-medium hover:text-blue-300"
-            >
-              Add your first task
-            </button>
-          </div>
-        ) : (
-          filteredTasks.map((task) => {
-            const completion = getCompletionStatus(task.id);
-            const isCompleted = completion?.status === 'completed';
-            const categoryColor = categoryColors[task.category || ''] || categoryColors.default;
-
-            return (
-              <div
-                key={task.id}
-                className={`
-                  rounded-lg border p-3 transition-all
-                  ${isCompleted ? 'bg-emerald-50 border-emerald-200' : categoryColor}
-                `}
-              >
-                <div className="flex items-start gap-3">
-                  {/* Checkbox */}
-                  <button
-                    onClick={() => toggleComplete(task)}
-                    className={`
-                      flex-shrink-0 w-5 h-5 rounded-full border-2 flex items-center justify-center transition-colors mt-0.5
-                      ${isCompleted
-                        ? 'bg-emerald-500 border-emerald-500 text-white'
-                        : 'border-slate-500 hover:border-emerald-400'
-                      }
-                    `}
-                  >
-                    {isCompleted && (
-                      <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
-                      </svg>
-                    )}
+            {/* Task List */}
+            <div className="space-y-2">
+              {loading ? (
+                <div className="animate-pulse space-y-2">
+                  {[1, 2, 3].map((i) => (
+                    <div key={i} className="h-16 bg-slate-100 rounded-lg" />
+                  ))}
+                </div>
+              ) : filteredTasks.length === 0 ? (
+                <div className="text-center py-12 bg-white rounded-xl border border-slate-200">
+                  <p className="text-slate-400 text-sm">No tasks here yet.</p>
+                  <button onClick={() => setTab('import')} className="mt-3 text-blue-600 text-sm font-medium hover:text-blue-700">
+                    Bring tasks over from the Task Tracker, checklist or compliance calendar
                   </button>
-
-                  {/* Task Content */}
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-start justify-between gap-2">
-                      <div>
-                        <h3 className={`text-sm font-medium ${isCompleted ? 'text-slate-500 line-through' : 'text-slate-800'}`}>
-                          {task.title}
-                        </h3>
-                        {task.description && (
-                          <p className="text-xs text-slate-500 mt-0.5">{task.description}</p>
-                        )}
-                      </div>
-                      <div className="flex items-center gap-2 flex-shrink-0">
-                        <span className={`text-xs px-2 py-0.5 rounded-full ${frequencyColors[task.frequency]}`}>
-                          {frequencyLabels[task.frequency]}
-                        </span>
-                        {task.isRepeatable && (
-                          <span className="text-xs px-2 py-0.5 rounded-full bg-slate-100 text-slate-400">
-                            Repeatable
-                          </span>
-                        )}
-                      </div>
-                    </div>
-
-                    {/* Task Meta */}
-                    <div className="flex items-center gap-4 mt-1.5 text-xs text-slate-500">
-                      {task.category && (
-                        <span className="flex items-center gap-1">
-                          <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
-                          </svg>
-                          {task.category}
-                        </span>
-                      )}
-                      {task.dueDay && task.frequency === 'monthly' && (
-                        <span className="flex items-center gap-1">
-                          <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                          </svg>
-                          Due: {task.dueDay}{getDaySuffix(task.dueDay)} of month
-                        </span>
-                      )}
-                      {isCompleted && completion?.completedAt && (
-                        <span className="text-emerald-600">
-                          Completed {new Date(completion.completedAt).toLocaleDateString()}
-                        </span>
-                      )}
-                    </div>
-                  </div>
-
-                  {/* Actions */}
-                  <div className="flex items-center gap-1 flex-shrink-0">
-                    <button
-                      onClick={() => setEditingTask(task)}
-                      className="p-1.5 text-slate-500 hover:text-slate-700 hover:bg-slate-100 rounded-lg transition-colors"
-                      title="Edit task"
-                    >
-                      <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                      </svg>
-                    </button>
-                    <button
-                      onClick={() => handleDeleteTask(task.id)}
-                      className="p-1.5 text-slate-500 hover:text-rose-600 hover:bg-rose-50 rounded-lg transition-colors"
-                      title="Delete task"
-                    >
-                      <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                      </svg>
-                    </button>
-                  </div>
                 </div>
-              </div>
-            );
-          })
+              ) : (
+                filteredTasks.map((task) => (
+                  <TaskRow
+                    key={task.id}
+                    task={task}
+                    state={state}
+                    today={today}
+                    expanded={expanded === task.id}
+                    onExpand={() => setExpanded(expanded === task.id ? null : task.id)}
+                    onToggle={() => toggleComplete(task)}
+                    onSkip={(period) => run(() => setTaskRun(task.id, period, { status: 'skipped' }).then(() => undefined), 'Skipped for this period.')}
+                    onStep={(period, stepId, done) => run(() => setTaskStep(task.id, period, stepId, done).then(() => undefined), done ? 'Step ticked.' : 'Step unticked.')}
+                    onEdit={() => setEditingTask(task)}
+                    onDelete={() => handleDeleteTask(task)}
+                  />
+                ))
+              )}
+            </div>
+          </>
+        )}
+
+        {tab === 'close' && (
+          <SectionCard
+            title="Month-end close"
+            description="Close tasks and what they wait on, as bars ending on their due dates. Blocked tasks wait on something upstream; the box up top names the tasks everything else is stuck behind."
+            actions={
+              <input
+                type="month"
+                value={closeMonth}
+                onChange={(e) => setCloseMonth(e.target.value || today.slice(0, 7))}
+                className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-sm"
+              />
+            }
+          >
+            <p className="text-xs text-slate-500 mb-4">
+              {plan.done} of {plan.rows.length} done
+              {plan.targetDate && <> · close due by {formatIsoDate(plan.targetDate)}</>}
+              {plan.rows.some((r) => r.status === 'blocked') && (
+                <> · <span className="text-amber-700">{plan.rows.filter((r) => r.status === 'blocked').length} blocked</span></>
+              )}
+            </p>
+            <CloseTimeline plan={plan} today={today} />
+          </SectionCard>
+        )}
+
+        {tab === 'import' && (
+          <SectionCard
+            title="Bring tasks over"
+            description="Move the three old checklists into this one. Nothing is deleted at the source; running a source again refreshes what came from it and keeps owners, links and close flags set here."
+          >
+            <TaskMigration state={state} run={run} />
+          </SectionCard>
         )}
       </div>
 
       {/* Add/Edit Task Modal */}
       {(showAddModal || editingTask) && (
-        <TaskModal
+        <TaskEditor
           task={editingTask}
+          tasks={tasks}
           onClose={() => {
             setShowAddModal(false);
             setEditingTask(null);
           }}
-          onSave={async (taskData) => {
-            if (editingTask) {
-              // Update existing task
-              const updatedData = { ...data! };
-              const index = updatedData.tasks.findIndex(t => t.id === editingTask.id);
-              if (index >= 0) {
-                updatedData.tasks[index] = { ...updatedData.tasks[index], ...taskData };
-                await saveTaskData(updatedData);
-              }
-            } else {
-              await handleAddTask(taskData);
-            }
-            await loadData();
-            setShowAddModal(false);
-            setEditingTask(null);
-          }}
+          onSave={saveTask}
         />
       )}
-    </div>
+    </>
   );
 }
 
-// Helper function for day suffix
-function getDaySuffix(day: number): string {
-  if (day >= 11 && day <= 13) return 'th';
-  switch (day % 10) {
-    case 1: return 'st';
-    case 2: return 'nd';
-    case 3: return 'rd';
-    default: return 'th';
-  }
-}
-
-// Task Modal Component
-interface TaskModalProps {
-  task?: Task | null;
-  onClose: () => void;
-  onSave: (task: Omit<Task, 'id' | 'createdAt'>) => void;
+interface TaskRowProps {
+  task: UnifiedTask;
+  state: ReturnType<typeof useTasks>['state'];
+  today: string;
+  expanded: boolean;
+  onExpand: () => void;
+  onToggle: () => void;
+  onSkip: (period: string) => void;
+  onStep: (period: string, stepId: string, done: boolean) => void;
+  onEdit: () => void;
+  onDelete: () => void;
 }
 
-function TaskModal({ task, onClose, onSave }: TaskModalProps) {
-  const [title, setTitle] = useState(task?.title || '');
-  const [description, setDescription] = useState(task?.description || '');
-  const [frequency, setFrequency] = useState<TaskFrequency>(task?.frequency || 'monthly');
-  const [isRepeatable, setIsRepeatable] = useState(task?.isRepeatable ?? true);
-  const [dueDay, setDueDay] = useState(task?.dueDay?.toString() || '');
-  const [category, setCategory] = useState(task?.category || '');
-
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!title.trim()) return;
-
-    onSave({
-      title: title.trim(),
-      description: description.trim() || undefined,
-      frequency,
-      isRepeatable,
-      dueDay: dueDay ? parseInt(dueDay) : undefined,
-      category: category.trim() || undefined
-    });
-  };
+function TaskRow({ task, state, today, expanded, onExpand, onToggle, onSkip, onStep, onEdit, onDelete }: TaskRowProps) {
+  const period = currentPeriod(task, today);
+  const taskRun = runOf(state, task.id, period);
+  const isCompleted = isFinished(taskRun);
+  const waitingOn = isCompleted ? [] : unfinishedDependencies(state, task, today);
+  const due = describeDue(task);
+  const dependencies = task.dependsOn.map((id) => state.tasks[id]).filter((t): t is UnifiedTask => !!t);
 
   return (
-    <div className="fixed inset-0 bg-white/40 flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-xl shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto border border-slate-200">
-        <form onSubmit={handleSubmit}>
-          <div className="p-5 border-b border-slate-200">
-            <h2 className="text-lg font-semibold text-slate-900">
-              {task ? 'Edit Task' : 'Add New Task'}
-            </h2>
-          </div>
-
-          <div className="p-5 space-y-4">
-            {/* Title */}
-            <div>
-              <label className="block text-sm font-medium text-slate-700 mb-1">
-                Task Title *
-              </label>
-              <input
-                type="text"
-                value={title}
-                onChange={(e) => setTitle(e.target.value)}
-                className="w-full px-3 py-2 bg-slate-100 border border-slate-300 rounded-lg text-slate-800 placeholder-slate-400 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                placeholder="e.g., GSTR-1 Filing"
-                required
-              />
-            </div>
+    <div
+      className={`rounded-lg border p-3 transition-all ${
+        isCompleted ? 'bg-emerald-50 border-emerald-200' : waitingOn.length > 0 ? 'bg-amber-50/50 border-amber-200' : 'bg-white border-slate-200'
+      }`}
+    >
+      <div className="flex items-start gap-3">
+        {/* Checkbox */}
+        <button
+          onClick={onToggle}
+          title={waitingOn.length > 0 ? `Waiting on ${waitingOn.map((t) => t.title).join(', ')}` : undefined}
+          className={`flex-shrink-0 w-5 h-5 rounded-full border-2 flex items-center justify-center transition-colors mt-0.5 ${
+            isCompleted ? 'bg-emerald-500 border-emerald-500 text-white' : 'border-slate-500 hover:border-emerald-400'
+          }`}
+        >
+          {isCompleted && (
+            <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+            </svg>
+          )}
+        </button>
 
-            {/* Description */}
+        {/* Task Content */}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-start justify-between gap-2">
             <div>
-              <label className="block text-sm font-medium text-slate-700 mb-1">
-                Description
-              </label>
-              <textarea
-                value={description}
-                onChange={(e) => setDescription(e.target.value)}
-                className="w-full px-3 py-2 bg-slate-100 border border-slate-300 rounded-lg text-slate-800 placeholder-slate-400 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                placeholder="Optional description..."
-                rows={2}
-              />
+              <h3 className={`text-sm font-medium ${isCompleted ? 'text-slate-500 line-through' : 'text-slate-800'}`}>{task.title}</h3>
+              {task.description && <p className="text-xs text-slate-500 mt-0.5">{task.description}</p>}
             </div>
-
-            {/* Frequency */}
-            <div>
-              <label className="block text-sm font-medium text-slate-700 mb-1">
-                Frequency
-              </label>
-              <select
-                value={frequency}
-                onChange={(e) => setFrequency(e.target.value as TaskFrequency)}
-                className="w-full px-3 py-2 bg-slate-100 border border-slate-300 rounded-lg text-slate-800 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              >
-                <option value="daily">Daily</option>
-                <option value="weekly">Weekly</option>
-                <option value="monthly">Monthly</option>
-                <option value="adhoc">Ad-hoc (One-time)</option>
-              </select>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              {task.monthClose && <Pill size="xs" color="violet">Close</Pill>}
+              {task.source !== 'manual' && <Pill size="xs">{TASK_SOURCE_LABELS[task.source]}</Pill>}
+              <span className={`text-xs px-2 py-0.5 rounded-full ${frequencyColors[task.frequency]}`}>
+                {TASK_FREQUENCY_LABELS[task.frequency]}
+              </span>
             </div>
+          </div>
 
-            {/* Due Day (for monthly tasks) */}
-            {frequency === 'monthly' && (
-              <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">
-                  Due Day of Month
-                </label>
-                <input
-                  type="number"
-                  value={dueDay}
-                  onChange={(e) => setDueDay(e.target.value)}
-                  className="w-full px-3 py-2 bg-slate-100 border border-slate-300 rounded-lg text-slate-800 placeholder-slate-400 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                  placeholder="e.g., 20 (for 20th of each month)"
-                  min="1"
-                  max="31"
-                />
-              </div>
+          {/* Task Meta */}
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-1.5 text-xs text-slate-500">
+            <span>{formatPeriodLabel(period)}</span>
+            {task.owner && <span>{task.owner}</span>}
+            {task.category && <span>{task.category}</span>}
+            {due && <span>{due}</span>}
+            {taskRun?.status === 'skipped' && <span className="text-slate-400">Skipped by {taskRun.completedBy}</span>}
+            {taskRun?.status === 'done' && taskRun.completedAt && (
+              <span className="text-emerald-600">
+                Done{taskRun.completedBy ? ` by ${taskRun.completedBy}` : ''} on {formatIsoDate(taskRun.completedAt.slice(0, 10))}
+              </span>
             )}
+            {task.steps.length > 0 && (
+              <button onClick={onExpand} className="text-blue-600 hover:text-blue-700">
+                {taskRun?.stepsDone.length ?? 0}/{task.steps.length} steps
+              </button>
+            )}
+          </div>
 
-            {/* Category */}
-            <div>
-              <label className="block text-sm font-medium text-slate-700 mb-1">
-                Category
-              </label>
-              <select
-                value={category}
-                onChange={(e) => setCategory(e.target.value)}
-                className="w-full px-3 py-2 bg-slate-100 border border-slate-300 rounded-lg text-slate-800 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              >
-                <option value="">Select category...</option>
-                <option value="GST">GST</option>
-                <option value="TDS">TDS</option>
-                <option value="Payroll">Payroll</option>
-                <option value="Accounting">Accounting</option>
-                <option value="Reporting">Reporting</option>
-                <option value="Payments">Payments</option>
-                <option value="Receivables">Receivables</option>
-                <option value="Banking">Banking</option>
-                <option value="Invoicing">Invoicing</option>
-                <option value="Other">Other</option>
-              </select>
-            </div>
-
-            {/* Repeatable */}
-            <div className="flex items-center gap-3">
-              <input
-                type="checkbox"
-                id="isRepeatable"
-                checked={isRepeatable}
-                onChange={(e) => setIsRepeatable(e.target.checked)}
-                className="h-4 w-4 text-blue-500 focus:ring-blue-500 bg-slate-100 border-slate-300 rounded"
-              />
-              <label htmlFor="isRepeatable" className="text-sm text-slate-400">
-                This task repeats every {frequency === 'adhoc' ? 'time' : frequency.replace('ly', '')}
-              </label>
+          {dependencies.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1.5 mt-1.5 text-[11px]">
+              <span className="text-slate-400">After</span>
+              {dependencies.map((dep) => {
+                const done = !waitingOn.some((w) => w.id === dep.id);
+                return (
+                  <Pill key={dep.id} size="xs" color={done ? 'emerald' : 'amber'}>
+                    {done ? '✓ ' : ''}
+                    {dep.title}
+                  </Pill>
+                );
+              })}
             </div>
-          </div>
+          )}
+
+          {expanded && task.steps.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {task.steps.map((step) => {
+                const ticked = taskRun?.stepsDone.includes(step.id) ?? false;
+                return (
+                  <li key={step.id}>
+                    <label className="flex items-center gap-2 text-xs text-slate-700">
+                      <input type="checkbox" checked={ticked} onChange={(e) => onStep(period, step.id, e.target.checked)} />
+                      <span className={ticked ? 'line-through text-slate-400' : ''}>{step.title}</span>
+                    </label>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
 
-          <div className="p-5 border-t border-slate-200 flex justify-end gap-3">
+        {/* Actions */}
+        <div className="flex items-center gap-1 flex-shrink-0">
+          {!isCompleted && task.source !== 'compliance' && (
             <button
-              type="button"
-              onClick={onClose}
-              className="px-4 py-2 text-sm font-medium text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200 transition-colors"
+              onClick={() => onSkip(period)}
+              className="px-2 py-1 text-[11px] text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-lg transition-colors"
+              title="Not needed this period"
             >
-              Cancel
+              Skip
             </button>
-            <button
-              type="submit"
-              className="px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 transition-colors"
-            >
-              {task ? 'Save Changes' : 'Add Task'}
-            </button>
-          </div>
-        </form>
+          )}
+          <button
+            onClick={onEdit}
+            className="p-1.5 text-slate-500 hover:text-slate-700 hover:bg-slate-100 rounded-lg transition-colors"
+            title="Edit task"
+          >
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+            </svg>
+          </button>
+          <button
+            onClick={onDelete}
+            className="p-1.5 text-slate-500 hover:text-rose-600 hover:bg-rose-50 rounded-lg transition-colors"
+            title="Delete task"
+          >
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+          </button>
+        </div>
       </div>
     </div>
   );
 }
+
+// Helper function for day suffix
+function getDaySuffix(day: number): string {
+  if (day >= 11 && day <= 13) return 'th';
+  switch (day % 10) {
+    case 1: return 'st';
+    case 2: return 'nd';
+    case 3: return 'rd';
+    default: return 'th';
+  }
+}
@@ -6,25 +6,50 @@ import type {
   ComplianceCategory as ComplianceCategoryData,
   ComplianceCategoryKey,
   ComplianceFrequency,
+  ComplianceEvent,
   ComplianceItem,
+  ComplianceItemHistory,
+  DueDateOverride,
+  EvidenceKind,
+  ProgressEntry,
+  ProgressMap,
+  YearMonth,
 } from '../../data/compliance/types';
 import {
   ALL_CATEGORIES,
   CATEGORY_META,
+  EVIDENCE_KIND_LABELS,
 } from '../../data/compliance/types';
 import {
+  attachEvidence,
   clearOverride,
-  clearProgress,
+  detachEvidence,
+  evidenceUrl,
   formatDueDate,
   frequencyLabel,
-  getAllProgress,
-  hasOverride,
-  isDueInMonth,
+  getOverride,
   loadCategory,
+  loadItemHistory,
+  moveDueDate,
+  restoreDueDate,
   saveOverride,
   setProgress,
   yearMonth,
 } from '../../data/compliance/storage';
+import {
+  accruePenalty,
+  daysBetween,
+  formatIsoDate,
+  isItemDue,
+  resolveDueDates,
+  ruleFor,
+  todayIso,
+  type DueDateCalendar,
+  type ResolvedDueDate,
+} from '../../data/compliance/dueDates';
+import { useComplianceProgress, useDueDateCalendar } from '../../data/compliance/useCompliance';
+import { getCurrentUser, setCurrentUser } from '../../data/currentUser';
+import { GstReconStatus } from './GstReconStatus';
 
 const iconCal = (
   <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -57,13 +82,15 @@ function CategoryView({ categoryKey }: { categoryKey: ComplianceCategoryKey }) {
   const [data, setData] = useState<ComplianceCategoryData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [overridden, setOverridden] = useState(false);
+  const [override, setOverride] = useState(() => getOverride(categoryKey));
+  const [user, setUser] = useState(getCurrentUser());
+  const [actionError, setActionError] = useState<string | null>(null);
 
   const now = useMemo(() => new Date(), []);
   const [year, setYear] = useState(now.getFullYear());
   const [month, setMonth] = useState(now.getMonth() + 1);
 
-  const [progressTick, setProgressTick] = useState(0); // force re-render when toggling checks
+  const [expandedId, setExpandedId] = useState<string | null>(null);
   const [editorOpen, setEditorOpen] = useState(false);
   const [editingItem, setEditingItem] = useState<ComplianceItem | null>(null);
 
@@ -73,7 +100,7 @@ function CategoryView({ categoryKey }: { categoryKey: ComplianceCategoryKey }) {
     try {
       const d = await loadCategory(categoryKey);
       setData(d);
-      setOverridden(hasOverride(categoryKey));
+      setOverride(getOverride(categoryKey));
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Failed to load');
     } finally {
@@ -86,67 +113,74 @@ function CategoryView({ categoryKey }: { categoryKey: ComplianceCategoryKey }) {
   }, [reload]);
 
   const ym = yearMonth(year, month);
+  const calendar = useDueDateCalendar();
 
   const dueItems = useMemo(() => {
     if (!data) return [];
-    return data.items.filter((i) => isDueInMonth(i, year, month));
-  }, [data, year, month]);
+    return data.items.filter((i) => isItemDue(i, year, month, calendar));
+  }, [data, year, month, calendar]);
 
   const nonDueItems = useMemo(() => {
     if (!data) return [];
-    return data.items.filter((i) => !isDueInMonth(i, year, month));
-  }, [data, year, month]);
+    return data.items.filter((i) => !isItemDue(i, year, month, calendar));
+  }, [data, year, month, calendar]);
 
-  const progress = getAllProgress();
+  const progress = useComplianceProgress();
   const doneCount = dueItems.filter((i) => progress[i.id]?.[ym]?.completed).length;
   const pct = dueItems.length === 0 ? 0 : Math.round((doneCount / dueItems.length) * 100);
 
   // --- handlers ---
-  const persist = (items: ComplianceItem[]) => {
-    if (!data) return;
-    const next = { ...data, items };
-    setData(next);
-    saveOverride(categoryKey, items);
-    setOverridden(true);
+  // Every write is recorded against the name typed here; errors land in the banner.
+  const run = async (action: () => Promise<void>): Promise<boolean> => {
+    setActionError(null);
+    try {
+      setCurrentUser(user);
+      await action();
+      return true;
+    } catch (e) {
+      setActionError(e instanceof Error ? e.message : 'Save failed');
+      return false;
+    }
   };
 
-  const handleToggle = (item: ComplianceItem) => {
-    const existing = progress[item.id]?.[ym];
-    if (existing?.completed) {
-      clearProgress(item.id, ym);
-    } else {
-      setProgress(item.id, ym, {
-        completed: true,
-        completedAt: new Date().toISOString(),
-      });
+  const persist = async (items: ComplianceItem[]): Promise<boolean> => {
+    if (!data) return false;
+    const saved = await run(() => saveOverride(categoryKey, items));
+    if (saved) {
+      setData({ ...data, items });
+      setOverride(getOverride(categoryKey));
     }
-    setProgressTick((t) => t + 1);
+    return saved;
   };
 
-  const handleSaveItem = (item: ComplianceItem) => {
+  const handleToggle = (item: ComplianceItem) => {
+    const done = !!progress[item.id]?.[ym]?.completed;
+    run(() => setProgress(item.id, ym, { completed: !done }));
+  };
+
+  const handleSaveItem = async (item: ComplianceItem) => {
     if (!data) return;
     const existingIdx = data.items.findIndex((i) => i.id === item.id);
     const items =
       existingIdx >= 0
         ? data.items.map((i, idx) => (idx === existingIdx ? item : i))
         : [...data.items, item];
-    persist(items);
+    if (!(await persist(items))) return;
     setEditorOpen(false);
     setEditingItem(null);
   };
 
   const handleDelete = (id: string) => {
     if (!data) return;
-    if (!confirm('Delete this compliance item? Progress history for it will remain in storage.'))
+    if (!confirm('Delete this compliance item? Its progress and evidence history are kept on the server.'))
       return;
     persist(data.items.filter((i) => i.id !== id));
   };
 
   const handleResetToTemplate = async () => {
-    if (!confirm('Discard all local edits and reload the template JSON? Progress is kept.'))
+    if (!confirm('Discard the team\'s edits to this category and reload the template JSON? Progress is kept.'))
       return;
-    clearOverride(categoryKey);
-    await reload();
+    if (await run(() => clearOverride(categoryKey))) await reload();
   };
 
   const handleExport = () => {
@@ -250,11 +284,31 @@ function CategoryView({ categoryKey }: { categoryKey: ComplianceCategoryKey }) {
           </div>
         </div>
 
+        <div className="rounded-xl border border-slate-200 bg-white px-4 py-3 flex flex-wrap items-center justify-between gap-3">
+          <label className="flex items-center gap-2 text-xs text-slate-500">
+            Your name
+            <input
+              value={user}
+              onChange={(e) => setUser(e.target.value)}
+              placeholder="Recorded on completions and evidence"
+              className="w-56 rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-brand-500"
+            />
+          </label>
+          <span className="text-[11px] text-slate-400">Progress is shared with everyone using the calendar.</span>
+        </div>
+
+        {actionError && (
+          <div className="rounded-lg border border-rose-200 bg-rose-50 px-4 py-2.5 text-xs text-rose-700">
+            {actionError}
+          </div>
+        )}
+
         {/* Overridden banner */}
-        {overridden && (
+        {override && (
           <div className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-2.5 text-xs text-amber-800 flex items-center justify-between gap-3">
             <span>
-              You are viewing locally-edited items. The template JSON in the repo is unchanged.
+              These items were edited in the app (last saved by {override.updatedBy} on {formatTimestamp(override.updatedAt)}).
+              The template JSON in the repo is unchanged.
             </span>
             <button
               onClick={handleResetToTemplate}
@@ -265,15 +319,20 @@ function CategoryView({ categoryKey }: { categoryKey: ComplianceCategoryKey }) {
           </div>
         )}
 
+        {categoryKey === 'accounts' && <GstReconStatus year={year} month={month} />}
+
         {/* Due items */}
         <ItemsTable
-          key={`due-${progressTick}`}
           title={`Due in ${new Date(year, month - 1).toLocaleDateString('en-IN', { month: 'long', year: 'numeric' })}`}
           items={dueItems}
           year={year}
           month={month}
           progress={progress}
+          calendar={calendar}
           onToggle={handleToggle}
+          expandedId={expandedId}
+          onExpand={(id) => setExpandedId((cur) => (cur === id ? null : id))}
+          run={run}
           onEdit={(i) => { setEditingItem(i); setEditorOpen(true); }}
           onDelete={handleDelete}
           emptyLabel="Nothing due in this month."
@@ -287,7 +346,11 @@ function CategoryView({ categoryKey }: { categoryKey: ComplianceCategoryKey }) {
             year={year}
             month={month}
             progress={progress}
+            calendar={calendar}
             onToggle={handleToggle}
+            expandedId={expandedId}
+            onExpand={(id) => setExpandedId((cur) => (cur === id ? null : id))}
+            run={run}
             onEdit={(i) => { setEditingItem(i); setEditorOpen(true); }}
             onDelete={handleDelete}
             muted
@@ -364,7 +427,11 @@ function ItemsTable({
   year,
   month,
   progress,
+  calendar,
   onToggle,
+  expandedId,
+  onExpand,
+  run,
   onEdit,
   onDelete,
   emptyLabel,
@@ -374,14 +441,19 @@ function ItemsTable({
   items: ComplianceItem[];
   year: number;
   month: number;
-  progress: ReturnType<typeof getAllProgress>;
+  progress: ProgressMap;
+  calendar: DueDateCalendar;
   onToggle: (item: ComplianceItem) => void;
+  expandedId: string | null;
+  onExpand: (id: string) => void;
+  run: (action: () => Promise<void>) => Promise<boolean>;
   onEdit: (item: ComplianceItem) => void;
   onDelete: (id: string) => void;
   emptyLabel?: string;
   muted?: boolean;
 }) {
   const ym = yearMonth(year, month);
+  const today = todayIso();
   return (
     <div className={`rounded-xl border border-slate-200 bg-white ${muted ? 'opacity-90' : ''}`}>
       <div className="flex items-center justify-between px-5 py-3 border-b border-slate-100">
@@ -393,72 +465,122 @@ function ItemsTable({
       ) : (
         <div className="divide-y divide-slate-100">
           {items.map((item) => {
-            const done = !!progress[item.id]?.[ym]?.completed;
-            const dueText = formatDueDate(item, year, month);
+            const entry = progress[item.id]?.[ym];
+            const done = !!entry?.completed;
+            const evidenceCount = entry?.evidence?.length ?? 0;
+            const resolved = resolveDueDates(item, year, month, calendar);
+            const rule = ruleFor(item, calendar.settings);
+            const dueText = resolved.length > 0
+              ? resolved.map((r) => `${formatIsoDate(r.due)}${r.states ? ` (${r.states.join(', ')})` : ''}`).join(' · ')
+              : rule
+                ? formatDueDate(rule, year, month)
+                : 'Not filed under QRMP';
+            // Late from the earliest registration's date
+            const daysLate = done ? 0 : Math.max(0, ...resolved.map((r) => daysBetween(r.due, today)));
+            const accrual = daysLate > 0 ? accruePenalty(item.penalty, daysLate) : null;
             return (
-              <div key={item.id} className="px-5 py-3 flex items-start gap-3 group">
-                <button
-                  onClick={() => onToggle(item)}
-                  className={`mt-0.5 flex-shrink-0 w-5 h-5 rounded-md border transition-all flex items-center justify-center ${
-                    done
-                      ? 'bg-emerald-500 border-emerald-500 text-white'
-                      : 'bg-white border-slate-300 hover:border-emerald-400'
-                  }`}
-                  aria-label={done ? 'Mark incomplete' : 'Mark complete'}
-                >
-                  {done && (
-                    <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}>
-                      <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
-                    </svg>
-                  )}
-                </button>
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center flex-wrap gap-2">
-                    <span className={`text-sm font-medium ${done ? 'text-slate-500 line-through' : 'text-slate-900'}`}>
-                      {item.title}
-                    </span>
-                    {item.form && <Pill color="sky" size="xs">{item.form}</Pill>}
-                    <Pill color="slate" size="xs">{frequencyLabel(item.frequency)}</Pill>
-                    {item.authority && <Pill color="violet" size="xs">{item.authority}</Pill>}
-                  </div>
-                  {item.description && (
-                    <p className="mt-1 text-xs text-slate-600 leading-relaxed">{item.description}</p>
-                  )}
-                  <div className="mt-1.5 flex flex-wrap items-center gap-x-4 gap-y-1 text-[11px] text-slate-500">
-                    <span>
-                      <span className="text-slate-400">Due:</span>{' '}
-                      <span className="font-medium text-slate-700">{dueText}</span>
-                    </span>
-                    {item.owner && (
-                      <span>
-                        <span className="text-slate-400">Owner:</span>{' '}
-                        <span className="font-medium text-slate-700">{item.owner}</span>
+              <div key={item.id} className="px-5 py-3">
+                <div className="flex items-start gap-3 group">
+                  <button
+                    onClick={() => onToggle(item)}
+                    className={`mt-0.5 flex-shrink-0 w-5 h-5 rounded-md border transition-all flex items-center justify-center ${
+                      done
+                        ? 'bg-emerald-500 border-emerald-500 text-white'
+                        : 'bg-white border-slate-300 hover:border-emerald-400'
+                    }`}
+                    aria-label={done ? 'Mark incomplete' : 'Mark complete'}
+                  >
+                    {done && (
+                      <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}>
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+                      </svg>
+                    )}
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center flex-wrap gap-2">
+                      <span className={`text-sm font-medium ${done ? 'text-slate-500 line-through' : 'text-slate-900'}`}>
+                        {item.title}
                       </span>
+                      {item.form && <Pill color="sky" size="xs">{item.form}</Pill>}
+                      <Pill color="slate" size="xs">{frequencyLabel(item.frequency)}</Pill>
+                      {item.authority && <Pill color="violet" size="xs">{item.authority}</Pill>}
+                    </div>
+                    {item.description && (
+                      <p className="mt-1 text-xs text-slate-600 leading-relaxed">{item.description}</p>
                     )}
-                    {item.penalty && (
-                      <span className="text-rose-600">
-                        <span className="text-rose-400">Penalty:</span> {item.penalty}
+                    <div className="mt-1.5 flex flex-wrap items-center gap-x-4 gap-y-1 text-[11px] text-slate-500">
+                      <span>
+                        <span className="text-slate-400">Due:</span>{' '}
+                        <span className="font-medium text-slate-700">{dueText}</span>
+                        {resolved.map((r) =>
+                          r.adjustment && (
+                            <span key={r.states?.join('-') ?? r.period} className="text-slate-400">
+                              {' '}
+                              ({r.adjustment === 'extended' ? 'extended' : 'moved'} from {formatIsoDate(r.statutory)}: {r.reason})
+                            </span>
+                          )
+                        )}
                       </span>
+                      {daysLate > 0 && (
+                        <span className="font-medium text-rose-600">
+                          {daysLate} day{daysLate === 1 ? '' : 's'} late
+                          {accrual && accrual.accrued > 0 && <> · ₹{accrual.accrued.toLocaleString('en-IN')} late fee so far</>}
+                        </span>
+                      )}
+                      {item.owner && (
+                        <span>
+                          <span className="text-slate-400">Owner:</span>{' '}
+                          <span className="font-medium text-slate-700">{item.owner}</span>
+                        </span>
+                      )}
+                      {item.penalty && (
+                        <span className="text-rose-600">
+                          <span className="text-rose-400">Penalty:</span> {item.penalty}
+                        </span>
+                      )}
+                    </div>
+                    {item.notes && (
+                      <p className="mt-1 text-[11px] text-slate-500 italic">{item.notes}</p>
+                    )}
+                    {done && entry?.completedBy && (
+                      <p className="mt-1 text-[11px] text-emerald-700">
+                        Done by {entry.completedBy}
+                        {entry.completedAt && <> on {formatTimestamp(entry.completedAt)}</>}
+                      </p>
                     )}
                   </div>
-                  {item.notes && (
-                    <p className="mt-1 text-[11px] text-slate-500 italic">{item.notes}</p>
-                  )}
-                </div>
-                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                  <button
-                    onClick={() => onEdit(item)}
-                    className="px-2 py-1 text-[11px] rounded border border-slate-200 bg-white hover:bg-slate-50 text-slate-600"
-                  >
-                    Edit
-                  </button>
                   <button
-                    onClick={() => onDelete(item.id)}
-                    className="px-2 py-1 text-[11px] rounded border border-slate-200 bg-white hover:bg-rose-50 hover:border-rose-200 hover:text-rose-700 text-slate-600"
+                    onClick={() => onExpand(item.id)}
+                    className="flex-shrink-0 px-2 py-1 text-[11px] rounded border border-slate-200 bg-white hover:bg-slate-50 text-slate-600"
                   >
-                    Delete
+                    {expandedId === item.id ? 'Hide' : 'Evidence'}
+                    {evidenceCount > 0 && <span className="ml-1 text-emerald-700">({evidenceCount})</span>}
                   </button>
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => onEdit(item)}
+                      className="px-2 py-1 text-[11px] rounded border border-slate-200 bg-white hover:bg-slate-50 text-slate-600"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => onDelete(item.id)}
+                      className="px-2 py-1 text-[11px] rounded border border-slate-200 bg-white hover:bg-rose-50 hover:border-rose-200 hover:text-rose-700 text-slate-600"
+                    >
+                      Delete
+                    </button>
+                  </div>
                 </div>
+                {expandedId === item.id && (
+                  <ItemDetails
+                    itemId={item.id}
+                    ym={ym}
+                    entry={entry}
+                    resolved={resolved[0] ?? null}
+                    extension={calendar.overrides[item.id]?.[ym]}
+                    run={run}
+                  />
+                )}
               </div>
             );
           })}
@@ -468,6 +590,222 @@ function ItemsTable({
   );
 }
 
+// ---------------- ItemDetails ----------------
+
+// Due date, note, evidence and the item's history across periods. History
+// is re-read after each change so it shows the event just recorded.
+function ItemDetails({
+  itemId,
+  ym,
+  entry,
+  resolved,
+  extension,
+  run,
+}: {
+  itemId: string;
+  ym: YearMonth;
+  entry: ProgressEntry | undefined;
+  resolved: ResolvedDueDate | null;
+  extension: DueDateOverride | undefined;
+  run: (action: () => Promise<void>) => Promise<boolean>;
+}) {
+  const [extDate, setExtDate] = useState('');
+  const [extReason, setExtReason] = useState('');
+  const [note, setNote] = useState(entry?.note ?? '');
+  const [kind, setKind] = useState<EvidenceKind>('challan');
+  const [uploading, setUploading] = useState(false);
+  const [history, setHistory] = useState<ComplianceItemHistory | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const revision = `${entry?.updatedAt ?? ''}|${extension?.setAt ?? ''}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    loadItemHistory(itemId)
+      .then((h) => {
+        if (!cancelled) setHistory(h);
+      })
+      .catch((e) => {
+        if (!cancelled) setHistoryError(e instanceof Error ? e.message : 'Failed to load history');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [itemId, revision]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setUploading(true);
+    await run(() => attachEvidence(itemId, ym, file, kind));
+    setUploading(false);
+  };
+
+  const evidence = entry?.evidence ?? [];
+  const pastPeriods = (history?.periods ?? []).filter((p) => p.period !== ym);
+
+  return (
+    <div className="mt-3 ml-8 rounded-lg border border-slate-200 bg-slate-50 p-4 grid gap-4 md:grid-cols-2">
+      <div className="space-y-3">
+        {resolved && (
+          <div>
+            <div className="text-[11px] uppercase tracking-wider text-slate-500 mb-1">Due date for {ym}</div>
+            {extension ? (
+              <p className="text-xs text-slate-700">
+                Extended to <span className="font-medium">{formatIsoDate(extension.dueDate)}</span> from{' '}
+                {formatIsoDate(resolved.statutory)} — {extension.reason} ({extension.setBy}){' '}
+                <button
+                  onClick={() => run(() => restoreDueDate(itemId, ym))}
+                  className="ml-1 text-[11px] text-slate-400 hover:text-rose-600"
+                >
+                  Remove extension
+                </button>
+              </p>
+            ) : (
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="date"
+                  value={extDate}
+                  onChange={(e) => setExtDate(e.target.value)}
+                  className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs"
+                />
+                <input
+                  value={extReason}
+                  onChange={(e) => setExtReason(e.target.value)}
+                  placeholder="Notification, e.g. CBIC 12/2026-CT"
+                  className="flex-1 min-w-[10rem] rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs"
+                />
+                <button
+                  onClick={() => run(() => moveDueDate(itemId, ym, extDate, extReason.trim()))}
+                  disabled={!extDate || !extReason.trim()}
+                  className="px-2.5 py-1 bg-white border border-slate-200 hover:bg-slate-100 disabled:opacity-50 text-slate-700 text-[11px] font-medium rounded-md"
+                >
+                  Extend
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div>
+          <div className="text-[11px] uppercase tracking-wider text-slate-500 mb-1">Note for {ym}</div>
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={2}
+            placeholder="e.g. ARN, challan number, filed late because…"
+            className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-xs focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-brand-500"
+          />
+          <button
+            onClick={() => run(() => setProgress(itemId, ym, { completed: !!entry?.completed, note: note.trim() }))}
+            disabled={note.trim() === (entry?.note ?? '')}
+            className="mt-1 px-2.5 py-1 bg-white border border-slate-200 hover:bg-slate-100 disabled:opacity-50 text-slate-700 text-[11px] font-medium rounded-md"
+          >
+            Save note
+          </button>
+        </div>
+
+        <div>
+          <div className="text-[11px] uppercase tracking-wider text-slate-500 mb-1">Evidence for {ym}</div>
+          {evidence.length === 0 ? (
+            <p className="text-xs text-slate-500">No challan or acknowledgement filed yet.</p>
+          ) : (
+            <ul className="space-y-1">
+              {evidence.map((ev) => (
+                <li key={ev.fileId} className="flex items-center gap-2 text-xs">
+                  <Pill color="slate" size="xs">{EVIDENCE_KIND_LABELS[ev.kind]}</Pill>
+                  <a href={evidenceUrl(ev)} className="text-brand-600 hover:underline truncate" target="_blank" rel="noreferrer">
+                    {ev.fileName}
+                  </a>
+                  <span className="text-[11px] text-slate-400 whitespace-nowrap">
+                    {ev.uploadedBy} · {formatTimestamp(ev.uploadedAt)}
+                  </span>
+                  <button
+                    onClick={() => {
+                      if (confirm(`Detach ${ev.fileName}? The file stays on Drive.`)) run(() => detachEvidence(itemId, ym, ev.fileId));
+                    }}
+                    className="ml-auto text-[11px] text-slate-400 hover:text-rose-600"
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="mt-2 flex items-center gap-2">
+            <select
+              value={kind}
+              onChange={(e) => setKind(e.target.value as EvidenceKind)}
+              className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs"
+            >
+              {(Object.keys(EVIDENCE_KIND_LABELS) as EvidenceKind[]).map((k) => (
+                <option key={k} value={k}>{EVIDENCE_KIND_LABELS[k]}</option>
+              ))}
+            </select>
+            <label className="px-2.5 py-1 bg-white border border-slate-200 hover:bg-slate-100 text-slate-700 text-[11px] font-medium rounded-md cursor-pointer">
+              {uploading ? 'Uploading…' : 'Attach file'}
+              <input type="file" onChange={handleUpload} disabled={uploading} className="hidden" />
+            </label>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <div className="text-[11px] uppercase tracking-wider text-slate-500 mb-1">History</div>
+        {historyError && <p className="text-xs text-rose-600">{historyError}</p>}
+        {!history && !historyError && <p className="text-xs text-slate-500">Loading…</p>}
+        {history && (
+          <div className="space-y-3">
+            {pastPeriods.length > 0 && (
+              <ul className="space-y-0.5 text-xs">
+                {pastPeriods.map((p) => (
+                  <li key={p.period} className="flex items-center gap-2">
+                    <span className="font-mono text-slate-500">{p.period}</span>
+                    <span className={p.completed ? 'text-emerald-700' : 'text-slate-500'}>
+                      {p.completed ? `Done by ${p.completedBy ?? '—'}` : 'Open'}
+                    </span>
+                    {(p.evidence?.length ?? 0) > 0 && (
+                      <span className="text-slate-400">{p.evidence?.length} file{p.evidence?.length === 1 ? '' : 's'}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {history.events.length === 0 ? (
+              <p className="text-xs text-slate-500">Nothing recorded yet.</p>
+            ) : (
+              <ul className="space-y-0.5 text-[11px] text-slate-600 max-h-48 overflow-y-auto">
+                {[...history.events].reverse().map((ev, i) => (
+                  <li key={i}>
+                    <span className="text-slate-400">{formatTimestamp(ev.at)}</span> · {ev.by} · {ev.period} ·{' '}
+                    {EVENT_LABELS[ev.action]}
+                    {ev.detail && <span className="text-slate-500"> — {ev.detail}</span>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const EVENT_LABELS: Record<ComplianceEvent['action'], string> = {
+  completed: 'marked done',
+  reopened: 'reopened',
+  note: 'note',
+  'evidence-added': 'attached',
+  'evidence-removed': 'detached',
+  'due-date-moved': 'due date moved',
+  'due-date-restored': 'extension removed',
+  imported: 'imported',
+};
+
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
 // ---------------- ItemEditor ----------------
 
 function ItemEditor({
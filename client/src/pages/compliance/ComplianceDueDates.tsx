@@ -0,0 +1,421 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { PageHeader } from '../../components/ui/PageHeader';
+import { SectionCard } from '../../components/ui/Card';
+import {
+  ALL_CATEGORIES,
+  CATEGORY_META,
+  CalendarFeed,
+  CalendarFeeds,
+  ComplianceCategory,
+  GST_STATE_GROUP_DEFAULTS,
+  GstScheme,
+  GstStateGroup,
+} from '../../data/compliance/types';
+import {
+  DIGEST_PREVIEW_URL,
+  currentYearMonth,
+  loadCalendarFeeds,
+  loadCategory,
+  moveDueDate,
+  parseYearMonth,
+  removeHoliday,
+  restoreDueDate,
+  saveDigestSettings,
+  saveDueDateSettings,
+  saveHoliday,
+  sendDigestNow,
+} from '../../data/compliance/storage';
+import { formatIsoDate, resolveDueDates } from '../../data/compliance/dueDates';
+import { useDigestSettings, useDueDateCalendar } from '../../data/compliance/useCompliance';
+import { getCurrentUser, setCurrentUser } from '../../data/currentUser';
+
+const iconCalendar = (
+  <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+  </svg>
+);
+
+const inputCls =
+  'rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-brand-500';
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const buttonCls =
+  'px-3 py-1.5 bg-brand-500 hover:bg-brand-600 disabled:opacity-50 text-white text-xs font-medium rounded-lg transition-colors';
+
+function FeedList({ title, feeds }: { title: string; feeds: CalendarFeed[] }) {
+  if (feeds.length === 0) return null;
+  return (
+    <div>
+      <h4 className="text-xs font-semibold text-slate-700 mb-1">{title}</h4>
+      <ul className="divide-y divide-slate-100 text-sm">
+        {feeds.map((feed) => {
+          const url = `${window.location.origin}${feed.path}`;
+          return (
+            <li key={feed.path} className="py-1.5 flex items-center gap-3">
+              <span className="text-slate-900 w-48 truncate">{feed.label}</span>
+              <input readOnly value={url} onFocus={(e) => e.target.select()} className={`${inputCls} flex-1 font-mono text-[11px]`} />
+              <a href={url.replace(/^https?:/, 'webcal:')} className="text-[11px] text-brand-600 hover:underline">
+                Subscribe
+              </a>
+              <a href={feed.path} className="text-[11px] text-slate-500 hover:underline">
+                .ics
+              </a>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+export function ComplianceDueDates() {
+  const calendar = useDueDateCalendar();
+  const digest = useDigestSettings();
+  const [categories, setCategories] = useState<ComplianceCategory[]>([]);
+  const [user, setUser] = useState(getCurrentUser());
+  const [status, setStatus] = useState<{ tone: 'ok' | 'error'; text: string } | null>(null);
+
+  const [scheme, setScheme] = useState<GstScheme | null>(null);
+  const [groupEdits, setGroupEdits] = useState<Record<string, GstStateGroup>>({});
+  const [holidayDate, setHolidayDate] = useState('');
+  const [holidayName, setHolidayName] = useState('');
+  const [extItemId, setExtItemId] = useState('');
+  const [extPeriod, setExtPeriod] = useState(currentYearMonth());
+  const [extDate, setExtDate] = useState('');
+  const [extReason, setExtReason] = useState('');
+  const [feeds, setFeeds] = useState<CalendarFeeds | null>(null);
+  const [feedsError, setFeedsError] = useState<string | null>(null);
+  const [digestEnabled, setDigestEnabled] = useState<boolean | null>(null);
+  const [recipientsText, setRecipientsText] = useState<string | null>(null);
+  const [digestWeekday, setDigestWeekday] = useState<number | null>(null);
+  const [digestHour, setDigestHour] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(ALL_CATEGORIES.map((cat) => loadCategory(cat).catch(() => null))).then((results) => {
+      if (!cancelled) setCategories(results.filter((r): r is ComplianceCategory => r !== null));
+    });
+    loadCalendarFeeds()
+      .then((f) => !cancelled && setFeeds(f))
+      .catch((err) => !cancelled && setFeedsError(err instanceof Error ? err.message : 'Could not list feeds'));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const items = useMemo(() => categories.flatMap((c) => c.items.map((item) => ({ category: c.category, item }))), [categories]);
+  const titleOf = (itemId: string) => items.find((i) => i.item.id === itemId)?.item.title ?? itemId;
+
+  const run = async (action: () => Promise<void>, done: string) => {
+    setStatus(null);
+    try {
+      setCurrentUser(user);
+      await action();
+      setStatus({ tone: 'ok', text: done });
+    } catch (err) {
+      setStatus({ tone: 'error', text: err instanceof Error ? err.message : 'Save failed' });
+    }
+  };
+
+  const gstScheme = scheme ?? calendar.settings.gstScheme;
+  const savedGroups = { ...GST_STATE_GROUP_DEFAULTS, ...calendar.settings.gstStateGroups };
+  const gstStateGroups = { ...savedGroups, ...groupEdits };
+  const groupsChanged = Object.keys(gstStateGroups).some((code) => gstStateGroups[code] !== savedGroups[code]);
+
+  const enabled = digestEnabled ?? digest.enabled;
+  const recipients = (recipientsText ?? digest.recipients.join(', '))
+    .split(/[,;\s]+/)
+    .map((r) => r.trim())
+    .filter(Boolean);
+  const weekday = digestWeekday ?? digest.weekday;
+  const hour = digestHour ?? digest.hour;
+
+  const holidays = Object.entries(calendar.holidays).sort(([a], [b]) => a.localeCompare(b));
+  const extensions = Object.entries(calendar.overrides)
+    .flatMap(([itemId, periods]) => Object.entries(periods).map(([period, o]) => ({ itemId, period, ...o })))
+    .sort((a, b) => b.period.localeCompare(a.period) || a.itemId.localeCompare(b.itemId));
+
+  // The date the extension replaces, for the chosen item and period.
+  const extItem = items.find((i) => i.item.id === extItemId)?.item;
+  const { year: extYear, month: extMonth } = parseYearMonth(extPeriod || currentYearMonth());
+  const ruleDates = extItem ? resolveDueDates(extItem, extYear, extMonth, { ...calendar, overrides: {} }) : [];
+
+  return (
+    <>
+      <PageHeader
+        title="Due-date calendar"
+        description="Holidays, notified extensions and the GST filing scheme that every compliance due date is worked out from."
+        accent="amber"
+        icon={iconCalendar}
+        actions={
+          <Link to="/compliance" className="px-3 py-1.5 bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 text-xs font-medium rounded-lg">
+            &larr; Compliance
+          </Link>
+        }
+      />
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 py-6 space-y-5">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <label className="flex items-center gap-2 text-xs text-slate-500">
+            Your name
+            <input value={user} onChange={(e) => setUser(e.target.value)} className={`${inputCls} w-56`} />
+          </label>
+          {status && (
+            <span className={`text-xs ${status.tone === 'ok' ? 'text-emerald-700' : 'text-rose-600'}`}>{status.text}</span>
+          )}
+        </div>
+
+        <SectionCard
+          title="GST filing scheme"
+          description="QRMP taxpayers file GSTR-1 and GSTR-3B quarterly and pay by PMT-06 in the first two months of the quarter."
+        >
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="block text-xs text-slate-500">
+              Scheme
+              <select value={gstScheme} onChange={(e) => setScheme(e.target.value as GstScheme)} className={`${inputCls} block mt-1`}>
+                <option value="monthly">Monthly returns</option>
+                <option value="qrmp">QRMP (quarterly)</option>
+              </select>
+            </label>
+            {Object.keys(gstStateGroups).map((code) => (
+              <label key={code} className="block text-xs text-slate-500">
+                {code} (QRMP GSTR-3B)
+                <select
+                  value={gstStateGroups[code]}
+                  onChange={(e) => setGroupEdits((g) => ({ ...g, [code]: e.target.value as GstStateGroup }))}
+                  className={`${inputCls} block mt-1`}
+                >
+                  <option value="A">Group A — 22nd</option>
+                  <option value="B">Group B — 24th</option>
+                </select>
+              </label>
+            ))}
+            <button
+              className={buttonCls}
+              disabled={gstScheme === calendar.settings.gstScheme && !groupsChanged}
+              onClick={() => run(() => saveDueDateSettings({ gstScheme, gstStateGroups }), 'GST scheme saved.')}
+            >
+              Save
+            </button>
+            {calendar.settings.updatedBy && (
+              <span className="text-[11px] text-slate-400">
+                Last changed by {calendar.settings.updatedBy} on {calendar.settings.updatedAt.slice(0, 10)}
+              </span>
+            )}
+          </div>
+        </SectionCard>
+
+        <SectionCard
+          title="Holidays"
+          description="A due date on a Sunday or on one of these days moves to the next working day."
+        >
+          <div className="flex flex-wrap items-end gap-3 mb-4">
+            <input type="date" value={holidayDate} onChange={(e) => setHolidayDate(e.target.value)} className={inputCls} />
+            <input
+              value={holidayName}
+              onChange={(e) => setHolidayName(e.target.value)}
+              placeholder="e.g. Diwali"
+              className={`${inputCls} w-64`}
+            />
+            <button
+              className={buttonCls}
+              disabled={!holidayDate || !holidayName.trim()}
+              onClick={() =>
+                run(async () => {
+                  await saveHoliday(holidayDate, holidayName.trim());
+                  setHolidayDate('');
+                  setHolidayName('');
+                }, 'Holiday added.')
+              }
+            >
+              Add holiday
+            </button>
+          </div>
+          {holidays.length === 0 ? (
+            <p className="text-xs text-slate-500">No holidays on the calendar yet.</p>
+          ) : (
+            <ul className="divide-y divide-slate-100 text-sm">
+              {holidays.map(([date, h]) => (
+                <li key={date} className="py-1.5 flex items-center gap-3">
+                  <span className="font-mono text-xs text-slate-500 w-24">{formatIsoDate(date)}</span>
+                  <span className="text-slate-900">{h.name}</span>
+                  <span className="text-[11px] text-slate-400">added by {h.addedBy}</span>
+                  <button
+                    onClick={() => run(() => removeHoliday(date), 'Holiday removed.')}
+                    className="ml-auto text-[11px] text-slate-400 hover:text-rose-600"
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </SectionCard>
+
+        <SectionCard
+          title="Extensions"
+          description="A notified extension replaces one period's due date for one item. Cite the notification in the reason."
+        >
+          <div className="flex flex-wrap items-end gap-3 mb-2">
+            <select value={extItemId} onChange={(e) => setExtItemId(e.target.value)} className={`${inputCls} w-72`}>
+              <option value="">Choose an item…</option>
+              {categories.map((c) => (
+                <optgroup key={c.category} label={CATEGORY_META[c.category].name}>
+                  {c.items.map((i) => (
+                    <option key={i.id} value={i.id}>{i.form ? `${i.form} — ${i.title}` : i.title}</option>
+                  ))}
+                </optgroup>
+              ))}
+            </select>
+            <input type="month" value={extPeriod} onChange={(e) => setExtPeriod(e.target.value)} className={inputCls} />
+            <input type="date" value={extDate} onChange={(e) => setExtDate(e.target.value)} className={inputCls} />
+            <input
+              value={extReason}
+              onChange={(e) => setExtReason(e.target.value)}
+              placeholder="e.g. CBIC Notification 12/2026-CT"
+              className={`${inputCls} w-64`}
+            />
+            <button
+              className={buttonCls}
+              disabled={!extItemId || !extPeriod || !extDate || !extReason.trim()}
+              onClick={() =>
+                run(async () => {
+                  await moveDueDate(extItemId, extPeriod, extDate, extReason.trim());
+                  setExtDate('');
+                  setExtReason('');
+                }, 'Extension saved.')
+              }
+            >
+              Extend
+            </button>
+          </div>
+          <p className="text-[11px] text-slate-500 mb-4">
+            {extItem
+              ? ruleDates.length > 0
+                ? `Due ${ruleDates
+                    .map((d) => `${formatIsoDate(d.due)}${d.states ? ` (${d.states.join(', ')})` : ''}`)
+                    .join(', ')} for ${extPeriod} without an extension.`
+                : `${extItem.title} has no dated filing in ${extPeriod}.`
+              : 'Pick an item to see the date it replaces.'}
+          </p>
+          {extensions.length === 0 ? (
+            <p className="text-xs text-slate-500">No extensions recorded.</p>
+          ) : (
+            <ul className="divide-y divide-slate-100 text-sm">
+              {extensions.map((x) => (
+                <li key={`${x.itemId}:${x.period}`} className="py-1.5 flex items-center gap-3">
+                  <span className="font-mono text-xs text-slate-500 w-16">{x.period}</span>
+                  <span className="text-slate-900">{titleOf(x.itemId)}</span>
+                  <span className="text-xs text-slate-700">→ {formatIsoDate(x.dueDate)}</span>
+                  <span className="text-[11px] text-slate-400 truncate">{x.reason} · {x.setBy}</span>
+                  <button
+                    onClick={() => run(() => restoreDueDate(x.itemId, x.period), 'Extension removed.')}
+                    className="ml-auto text-[11px] text-slate-400 hover:text-rose-600"
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </SectionCard>
+
+        <SectionCard
+          title="Calendar feeds"
+          description="Subscribe in Google Calendar, Outlook or Apple Calendar. Feeds refresh every few hours and carry holidays and extensions."
+        >
+          {feedsError ? (
+            <p className="text-xs text-rose-600">{feedsError}</p>
+          ) : !feeds ? (
+            <p className="text-xs text-slate-500">Loading feeds…</p>
+          ) : (
+            <div className="space-y-4">
+              <FeedList title="Compliance" feeds={feeds.compliance} />
+              <FeedList title="By owner" feeds={feeds.owners} />
+              <FeedList title="Task Tracker" feeds={feeds.tasks} />
+            </div>
+          )}
+        </SectionCard>
+
+        <SectionCard
+          title="Weekly digest"
+          description="One email a week: what is overdue, what falls due in the next two weeks and what was done. Times are India time."
+        >
+          <div className="flex flex-wrap items-end gap-3 mb-3">
+            <label className="flex items-center gap-2 text-xs text-slate-500 pb-2">
+              <input type="checkbox" checked={enabled} onChange={(e) => setDigestEnabled(e.target.checked)} />
+              Send every week
+            </label>
+            <label className="block text-xs text-slate-500">
+              Recipients
+              <input
+                value={recipientsText ?? digest.recipients.join(', ')}
+                onChange={(e) => setRecipientsText(e.target.value)}
+                placeholder="accounts@…, cfo@…"
+                className={`${inputCls} block mt-1 w-80`}
+              />
+            </label>
+            <label className="block text-xs text-slate-500">
+              Day
+              <select value={weekday} onChange={(e) => setDigestWeekday(Number(e.target.value))} className={`${inputCls} block mt-1`}>
+                {WEEKDAY_NAMES.map((name, i) => (
+                  <option key={name} value={i}>{name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-xs text-slate-500">
+              From
+              <select value={hour} onChange={(e) => setDigestHour(Number(e.target.value))} className={`${inputCls} block mt-1`}>
+                {Array.from({ length: 24 }, (_, h) => (
+                  <option key={h} value={h}>{`${String(h).padStart(2, '0')}:00`}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              className={buttonCls}
+              onClick={() =>
+                run(async () => {
+                  await saveDigestSettings({ enabled, recipients, weekday, hour });
+                  setDigestEnabled(null);
+                  setRecipientsText(null);
+                  setDigestWeekday(null);
+                  setDigestHour(null);
+                }, 'Digest settings saved.')
+              }
+            >
+              Save
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-3 text-[11px]">
+            <a href={DIGEST_PREVIEW_URL} target="_blank" rel="noreferrer" className="text-brand-600 hover:underline">
+              Preview this week's digest
+            </a>
+            <button
+              disabled={digest.recipients.length === 0}
+              onClick={() =>
+                run(sendDigestNow, 'Digest sent.')
+              }
+              className="text-slate-600 hover:text-brand-600 disabled:opacity-50"
+            >
+              Send now to saved recipients
+            </button>
+            {digest.lastSentAt && (
+              <span className="text-slate-400">
+                Last sent {digest.lastSentAt.slice(0, 10)} — {digest.lastResult}
+              </span>
+            )}
+            {digest.lastFailedAt && (
+              <span className="text-rose-600">
+                Last attempt {digest.lastFailedAt.slice(0, 10)} — {digest.lastFailure}
+              </span>
+            )}
+            {digest.updatedBy && (
+              <span className="text-slate-400">Settings changed by {digest.updatedBy} on {digest.updatedAt.slice(0, 10)}</span>
+            )}
+          </div>
+        </SectionCard>
+      </div>
+    </>
+  );
+}
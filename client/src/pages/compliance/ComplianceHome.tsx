@@ -1,4 +1,5 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { NavCard } from '../../components/ui/Card';
 import { PageHeader } from '../../components/ui/PageHeader';
 import {
@@ -9,11 +10,12 @@ import {
 } from '../../data/compliance/types';
 import {
   currentYearMonth,
-  getAllProgress,
-  isDueInMonth,
   loadCategory,
   parseYearMonth,
 } from '../../data/compliance/storage';
+import { buildDeadlines, isItemDue } from '../../data/compliance/dueDates';
+import { useComplianceProgress, useDueDateCalendar } from '../../data/compliance/useCompliance';
+import { DeadlinesPanel } from './DeadlinesPanel';
 
 const iconCalendar = (
   <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -28,33 +30,19 @@ interface CategoryStats {
 }
 
 export function ComplianceHome() {
-  const [stats, setStats] = useState<Partial<Record<ComplianceCategoryKey, CategoryStats>>>({});
+  const [categories, setCategories] = useState<ComplianceCategory[] | null>(null);
+  const progress = useComplianceProgress();
+  const calendar = useDueDateCalendar();
 
   useEffect(() => {
     let cancelled = false;
-    const ym = currentYearMonth();
-    const { year, month } = parseYearMonth(ym);
-    const progress = getAllProgress();
 
     (async () => {
       const results = await Promise.all(
-        ALL_CATEGORIES.map(async (cat): Promise<[ComplianceCategoryKey, CategoryStats] | null> => {
-          try {
-            const data: ComplianceCategory = await loadCategory(cat);
-            const due = data.items.filter((i) => isDueInMonth(i, year, month));
-            const done = due.filter((i) => progress[i.id]?.[ym]?.completed).length;
-            return [cat, { dueThisMonth: due.length, doneThisMonth: done, total: data.items.length }];
-          } catch {
-            return null;
-          }
-        })
+        ALL_CATEGORIES.map((cat) => loadCategory(cat).catch(() => null))
       );
       if (cancelled) return;
-      const next: Partial<Record<ComplianceCategoryKey, CategoryStats>> = {};
-      results.forEach((r) => {
-        if (r) next[r[0]] = r[1];
-      });
-      setStats(next);
+      setCategories(results.filter((r): r is ComplianceCategory => r !== null));
     })();
 
     return () => {
@@ -62,6 +50,23 @@ export function ComplianceHome() {
     };
   }, []);
 
+  const stats = useMemo(() => {
+    const ym = currentYearMonth();
+    const { year, month } = parseYearMonth(ym);
+    const next: Partial<Record<ComplianceCategoryKey, CategoryStats>> = {};
+    for (const data of categories ?? []) {
+      const due = data.items.filter((i) => isItemDue(i, year, month, calendar));
+      const done = due.filter((i) => progress[i.id]?.[ym]?.completed).length;
+      next[data.category] = { dueThisMonth: due.length, doneThisMonth: done, total: data.items.length };
+    }
+    return next;
+  }, [categories, progress, calendar]);
+
+  const deadlines = useMemo(
+    () => buildDeadlines(categories ?? [], progress, calendar),
+    [categories, progress, calendar]
+  );
+
   const ym = currentYearMonth();
   const { year, month } = parseYearMonth(ym);
   const monthLabel = new Date(year, month - 1).toLocaleDateString('en-IN', {
@@ -84,6 +89,15 @@ export function ComplianceHome() {
           <TotalsBadge stats={stats} />
         </div>
 
+        {/* Deadlines across categories */}
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-slate-900">Deadlines</h2>
+          <Link to="/compliance/due-dates" className="text-xs font-medium text-brand-600 hover:text-brand-700">
+            Holidays, extensions &amp; GST scheme &rarr;
+          </Link>
+        </div>
+        <DeadlinesPanel overdue={deadlines.overdue} upcoming={deadlines.upcoming} loading={categories === null} />
+
         {/* Category cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           {ALL_CATEGORIES.map((cat) => {
@@ -0,0 +1,124 @@
+import { Link } from 'react-router-dom';
+import { Pill } from '../../components/ui/Card';
+import { CATEGORY_META } from '../../data/compliance/types';
+import {
+  CRITICAL_AFTER_DAYS,
+  ESCALATE_AFTER_DAYS,
+  UPCOMING_DAYS,
+  formatIsoDate,
+  type DeadlineRow,
+  type DeadlineStatus,
+} from '../../data/compliance/dueDates';
+
+const STATUS_PILL: Record<DeadlineStatus, { label: string; color: 'slate' | 'amber' | 'rose' | 'violet' | 'sky' }> = {
+  upcoming: { label: 'Upcoming', color: 'sky' },
+  'due-today': { label: 'Due today', color: 'amber' },
+  overdue: { label: 'Overdue', color: 'rose' },
+  escalated: { label: 'Escalate to manager', color: 'rose' },
+  critical: { label: 'Escalate to directors', color: 'violet' },
+};
+
+function rupees(n: number): string {
+  return `₹${Math.round(n).toLocaleString('en-IN')}`;
+}
+
+/** Overdue and next-30-days compliance across every category. */
+export function DeadlinesPanel({
+  overdue,
+  upcoming,
+  loading,
+}: {
+  overdue: DeadlineRow[];
+  upcoming: DeadlineRow[];
+  loading: boolean;
+}) {
+  const accrued = overdue.reduce((sum, r) => sum + (r.penalty?.accrued ?? 0), 0);
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      <DeadlineTable
+        title="Overdue"
+        subtitle={
+          overdue.length === 0
+            ? 'Nothing overdue.'
+            : `${overdue.length} open · late fees run up ${rupees(accrued)} · escalates after ${ESCALATE_AFTER_DAYS} days, to directors after ${CRITICAL_AFTER_DAYS}`
+        }
+        rows={overdue}
+        loading={loading}
+        tone="rose"
+      />
+      <DeadlineTable
+        title={`Due in the next ${UPCOMING_DAYS} days`}
+        subtitle={upcoming.length === 0 ? 'Nothing due.' : `${upcoming.length} open`}
+        rows={upcoming}
+        loading={loading}
+        tone="slate"
+      />
+    </div>
+  );
+}
+
+function DeadlineTable({
+  title,
+  subtitle,
+  rows,
+  loading,
+  tone,
+}: {
+  title: string;
+  subtitle: string;
+  rows: DeadlineRow[];
+  loading: boolean;
+  tone: 'rose' | 'slate';
+}) {
+  return (
+    <div className={`rounded-xl border bg-white ${tone === 'rose' && rows.length > 0 ? 'border-rose-200' : 'border-slate-200'}`}>
+      <div className="px-5 py-3 border-b border-slate-100">
+        <h3 className="text-sm font-semibold text-slate-900">{title}</h3>
+        <p className="text-[11px] text-slate-500 mt-0.5">{loading ? 'Loading…' : subtitle}</p>
+      </div>
+      {rows.length > 0 && (
+        <div className="divide-y divide-slate-100 max-h-[28rem] overflow-y-auto">
+          {rows.map((r) => {
+            const pill = STATUS_PILL[r.status];
+            return (
+              <div key={`${r.itemId}:${r.period}:${r.states?.join('-') ?? ''}`} className="px-5 py-2.5 flex items-start gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center flex-wrap gap-2">
+                    <Link to={`/compliance/${r.category}`} className="text-sm font-medium text-slate-900 hover:text-brand-600">
+                      {r.item.title}
+                    </Link>
+                    <Pill color="slate" size="xs">{CATEGORY_META[r.category].name}</Pill>
+                    {r.item.form && <Pill color="sky" size="xs">{r.item.form}</Pill>}
+                  </div>
+                  <div className="mt-0.5 text-[11px] text-slate-500">
+                    Due <span className="font-medium text-slate-700">{formatIsoDate(r.due)}</span>
+                    {r.states && <> for {r.states.join(', ')}</>}
+                    {r.adjustment && (
+                      <span className="text-slate-400">
+                        {' '}
+                        (rule date {formatIsoDate(r.statutory)} · {r.adjustment === 'extended' ? 'extended' : 'moved'}: {r.reason})
+                      </span>
+                    )}
+                    {r.item.owner && <> · {r.item.owner}</>}
+                  </div>
+                  {r.penalty && r.daysLate > 0 && (
+                    <div className="mt-0.5 text-[11px] text-rose-600" title={r.item.penalty}>
+                      {r.penalty.accrued > 0 ? `${rupees(r.penalty.accrued)} late fee so far` : 'Late fee not fixed'}
+                      {r.penalty.variable && ' + interest / penalty on the amount due'}
+                    </div>
+                  )}
+                </div>
+                <div className="flex flex-col items-end gap-1 flex-shrink-0">
+                  <Pill color={pill.color} size="xs">{pill.label}</Pill>
+                  <span className="text-[11px] text-slate-500 whitespace-nowrap">
+                    {r.daysLate > 0 ? `${r.daysLate}d late` : r.daysLate === 0 ? 'today' : `in ${-r.daysLate}d`}
+                  </span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
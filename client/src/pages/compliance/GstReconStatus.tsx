@@ -0,0 +1,86 @@
+import { Link } from 'react-router-dom';
+import { Pill } from '../../components/ui/Card';
+import { summariesForPeriod, useGstRecon } from '../../data/gstRecon/useGstRecon';
+import { GST_RETURN_LABELS } from '../../types/gstRecon';
+
+function rupees(n: number): string {
+  return `₹${n.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+}
+
+/**
+ * GSTR-1 / GSTR-2B reconciliation results on the Accounts compliance page.
+ * Returns for a month are filed and generated in the month after, so the
+ * period shown is the one before the selected compliance month.
+ */
+export function GstReconStatus({ year, month }: { year: number; month: number }) {
+  const { gstRecon, loading } = useGstRecon();
+  const prev = new Date(year, month - 2, 1);
+  const period = `${prev.getFullYear()}-${String(prev.getMonth() + 1).padStart(2, '0')}`;
+  const summaries = summariesForPeriod(gstRecon, period);
+  const periodLabel = prev.toLocaleDateString('en-IN', { month: 'long', year: 'numeric' });
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white overflow-hidden">
+      <div className="px-4 py-3 border-b border-slate-100 flex items-center justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-semibold text-slate-900">GST return reconciliation · {periodLabel}</h3>
+          <p className="text-[11px] text-slate-500">GSTR-1 against the sales register, GSTR-2B against the purchase register, per state GSTIN.</p>
+        </div>
+        <Link
+          to="/tools/gst-reconciliation"
+          className="px-3 py-1.5 bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 text-xs font-medium rounded-lg transition-colors whitespace-nowrap"
+        >
+          Reconcile a return
+        </Link>
+      </div>
+      {loading ? (
+        <p className="px-4 py-3 text-xs text-slate-400">Loading…</p>
+      ) : summaries.length === 0 ? (
+        <p className="px-4 py-3 text-xs text-slate-400">No return reconciled for {periodLabel} yet.</p>
+      ) : (
+        <table className="w-full text-xs">
+          <thead className="bg-slate-50 text-slate-500 uppercase text-[10px] tracking-wider">
+            <tr>
+              <th className="text-left px-4 py-2 font-medium">State · GSTIN</th>
+              <th className="text-left px-4 py-2 font-medium">Return</th>
+              <th className="text-left px-4 py-2 font-medium">Result</th>
+              <th className="text-right px-4 py-2 font-medium">ITC at risk</th>
+              <th className="text-left px-4 py-2 font-medium">Reconciled</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {summaries.map((s) => {
+              const open = s.counts.mismatch + s.counts.missingInBooks + s.counts.missingInPortal;
+              return (
+                <tr key={`${s.gstin}:${s.returnType}`} className="align-top">
+                  <td className="px-4 py-2 text-slate-700">
+                    {s.state}
+                    <div className="font-mono text-[10px] text-slate-400">{s.gstin}</div>
+                  </td>
+                  <td className="px-4 py-2 text-slate-600">{GST_RETURN_LABELS[s.returnType]}</td>
+                  <td className="px-4 py-2 space-x-1">
+                    <Pill size="xs" color="emerald">{s.counts.matched} matched</Pill>
+                    {s.counts.mismatch > 0 && <Pill size="xs" color="amber">{s.counts.mismatch} mismatch</Pill>}
+                    {s.counts.missingInPortal > 0 && <Pill size="xs" color="rose">{s.counts.missingInPortal} not in portal</Pill>}
+                    {s.counts.missingInBooks > 0 && <Pill size="xs" color="sky">{s.counts.missingInBooks} not in books</Pill>}
+                    {open === 0 && <Pill size="xs" color="emerald">Clean</Pill>}
+                  </td>
+                  <td className={`px-4 py-2 text-right tabular-nums ${s.itcAtRisk > 0 ? 'text-rose-600' : 'text-slate-300'}`}>
+                    {s.returnType === 'GSTR2B' ? rupees(s.itcAtRisk) : '—'}
+                    {s.suppliers.length > 0 && (
+                      <div className="text-[10px] text-slate-400">{s.suppliers.length} supplier{s.suppliers.length === 1 ? '' : 's'}</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-slate-500">
+                    {new Date(s.reconciledAt).toLocaleDateString('en-IN')}
+                    <div className="text-[10px] text-slate-400">{s.reconciledBy}</div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
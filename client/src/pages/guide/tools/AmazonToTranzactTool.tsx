@@ -1,11 +1,19 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { PageHeader } from '../../../components/ui/PageHeader';
 import {
   transformAmazonToTranzact,
   generateTranzactExcel,
+  bookStockFromSummary,
+  amazonStores,
   TransformResult,
   OutputRow,
+  BookStock,
+  UnmatchedSku,
 } from '../../../utils/amazonToTranzact';
+import { parseStockSummary } from '../../../utils/tranzactStockParsers';
+import { useSkuMappings } from '../../../data/skuMappings/useSkuMappings';
+import { getCurrentUser, setCurrentUser } from '../../../data/currentUser';
+import { fgMaster } from '../../../data/fgMaster';
 
 const icon = (
   <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -13,26 +21,68 @@ const icon = (
   </svg>
 );
 
+const fileInputCls =
+  'block w-full text-xs text-slate-500 file:mr-3 file:py-1.5 file:px-3 file:rounded-lg file:border-0 file:text-xs file:font-medium file:bg-slate-100 file:text-slate-700 hover:file:bg-slate-200 file:cursor-pointer cursor-pointer';
+const selectCls = 'w-full rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-sm text-slate-700';
+
 export function AmazonToTranzactTool() {
+  const { skuMap, saveSkuMapping } = useSkuMappings();
   const [amazonFile, setAmazonFile] = useState<File | null>(null);
-  const [result, setResult] = useState<TransformResult | null>(null);
+  const [amazonText, setAmazonText] = useState<string | null>(null);
+  const [bookStock, setBookStock] = useState<BookStock | undefined>(undefined);
+  const [bookFiles, setBookFiles] = useState<string[]>([]);
+  const [bookStore, setBookStore] = useState('');
+  const [user, setUser] = useState(getCurrentUser());
   const [error, setError] = useState<string | null>(null);
   const [processing, setProcessing] = useState(false);
 
+  // Re-runs when a SKU gets mapped or book stock is added
+  const transformed = useMemo((): { result: TransformResult | null; error: string | null } => {
+    if (amazonText === null) return { result: null, error: null };
+    try {
+      return { result: transformAmazonToTranzact(amazonText, skuMap, bookStock), error: null };
+    } catch (err) {
+      return { result: null, error: err instanceof Error ? err.message : 'An unexpected error occurred' };
+    }
+  }, [amazonText, skuMap, bookStock]);
+  const result = transformed.result;
+  const shownError = error ?? transformed.error;
+
   const handleAmazonFile = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     setAmazonFile(e.target.files?.[0] || null);
-    setResult(null);
+    setAmazonText(null);
     setError(null);
   }, []);
 
+  const handleBookStock = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const summary = parseStockSummary(await file.arrayBuffer(), file.name);
+      if (!summary.items.length) throw new Error(summary.warnings[0] ?? `${file.name}: no items found`);
+      if (!bookStore && !summary.items.some((i) => i.store)) {
+        throw new Error(`${file.name} has no Store column — pick the store it was exported for.`);
+      }
+      const added = bookStockFromSummary(summary, bookStore);
+      setBookStock((prev) => {
+        const next: BookStock = { ...prev };
+        for (const [store, items] of Object.entries(added)) next[store] = items;
+        return next;
+      });
+      setBookFiles((prev) => [...prev, `${file.name} → ${Object.keys(added).join(', ')}`]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the stock summary');
+    }
+  }, [bookStore]);
+
   const handleTransform = useCallback(async () => {
     if (!amazonFile) return;
     setProcessing(true);
     setError(null);
-    setResult(null);
     try {
-      const amazonText = await amazonFile.text();
-      setResult(transformAmazonToTranzact(amazonText));
+      setAmazonText(await amazonFile.text());
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An unexpected error occurred');
     } finally {
@@ -40,18 +90,29 @@ export function AmazonToTranzactTool() {
     }
   }, [amazonFile]);
 
-  const handleDownload = useCallback(() => {
+  const handleDownload = useCallback((store: string) => {
     if (!result) return;
-    const blob = generateTranzactExcel(result.outputRows);
+    const blob = generateTranzactExcel(result.outputRows.filter((r) => r.store === store));
     const today = new Date().toISOString().split('T')[0];
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `Tranzact_Adjustment_${today}.xlsx`;
+    a.download = `Tranzact_Adjustment_${store.replace(/[^A-Za-z0-9]+/g, '_').replace(/_+$/, '')}_${today}.xlsx`;
     a.click();
     URL.revokeObjectURL(url);
   }, [result]);
 
+  const handleMap = useCallback(async (sku: string, fgItemId: string) => {
+    if (!user.trim()) return setError('Enter your name before adding a mapping.');
+    setError(null);
+    try {
+      setCurrentUser(user);
+      await saveSkuMapping(sku, fgItemId, user.trim());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the mapping');
+    }
+  }, [user, saveSkuMapping]);
+
   return (
     <>
       <PageHeader
@@ -73,40 +134,56 @@ export function AmazonToTranzactTool() {
               </p>
               <ul className="mt-1.5 space-y-0.5 list-disc pl-4">
                 <li>Type of report: <b>Summary view</b></li>
-                <li>Aggregate by location: <b>Country</b></li>
+                <li>Aggregate by location: <b>Country</b> — or <b>Fulfilment centre</b> for the stock split by FC</li>
                 <li>Aggregate by time period: <b>Monthly</b></li>
                 <li>Date range: the month you're reconciling (leave ASIN/FNSKU/MSKU blank for all products)</li>
                 <li>Click <b>Request .txt Download</b> — <span className="text-rose-600 font-medium">not .csv</span> (csv drops the leading zeros in MSKUs/ASINs and breaks SKU matching)</li>
               </ul>
               <p className="mt-1.5">
                 When it appears in the list below with a <b>Download</b> button, grab the <code className="bg-slate-100 px-1 rounded">.txt</code> file.
-                (The older <b>Manage Inventory</b> snapshot also works — the tool auto-detects either. Both use the <b>SELLABLE</b> closing quantity.)
+                (The older <b>Manage Inventory</b> snapshot also works — the tool auto-detects either. Sellable, customer-damaged,
+                carrier-damaged and defective stock each go to their own Tranzact store; FBM listings go to the own-warehouse store.)
               </p>
             </Step>
             <Step n={2} title="Upload & transform here">
-              <p>Upload the .txt file below — SKUs are auto-mapped to FG Items. Review the output preview and then download the Excel.</p>
+              <p>
+                Upload the .txt file below — SKUs are auto-mapped to FG Items. Add Tranzact's stock summary for the Amazon stores
+                (Inventory → Stock Summary, filtered by store) to fill in the Difference column. Map any new SKUs, review the
+                preview and download one Excel per store.
+              </p>
             </Step>
             <Step n={3} title="Upload to Tranzact">
               <p>
                 In Tranzact go to{' '}
                 <a className="text-brand-600 hover:text-brand-700 underline underline-offset-2" href="https://app.letstranzact.com/v3/inventory/?section=item_master" target="_blank" rel="noopener noreferrer">Inventory → Item Master</a>
-                {' '}→ Actions → <b>Physical Stock Reconciliation</b>. Pick Category "Finished Goods", Store "Amazon (Pan-India)", drop the file and submit.
+                {' '}→ Actions → <b>Physical Stock Reconciliation</b>. Pick Category "Finished Goods" and the store the file is named
+                after (e.g. "Amazon (Pan-India)"), drop the file and submit. Repeat for each store.
               </p>
             </Step>
           </div>
         </div>
 
         {/* File Upload */}
-        <div className="rounded-xl border border-slate-200 bg-white p-5 max-w-md">
-          <label className="block text-sm font-medium text-slate-900 mb-2">Amazon FBA Inventory Report</label>
-          <input
-            type="file"
-            accept=".txt,.tsv"
-            onChange={handleAmazonFile}
-            className="block w-full text-xs text-slate-500 file:mr-3 file:py-1.5 file:px-3 file:rounded-lg file:border-0 file:text-xs file:font-medium file:bg-slate-100 file:text-slate-700 hover:file:bg-slate-200 file:cursor-pointer cursor-pointer"
-          />
-          <p className="mt-1.5 text-[11px] text-slate-500">Tab-separated .txt file from Amazon Seller Central</p>
-          {amazonFile && <p className="mt-1.5 text-[11px] text-emerald-600">Selected: {amazonFile.name}</p>}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="rounded-xl border border-slate-200 bg-white p-5">
+            <label className="block text-sm font-medium text-slate-900 mb-2">Amazon FBA Inventory Report</label>
+            <input type="file" accept=".txt,.tsv" onChange={handleAmazonFile} className={fileInputCls} />
+            <p className="mt-1.5 text-[11px] text-slate-500">Tab-separated .txt file from Amazon Seller Central</p>
+            {amazonFile && <p className="mt-1.5 text-[11px] text-emerald-600">Selected: {amazonFile.name}</p>}
+          </div>
+          <div className="rounded-xl border border-slate-200 bg-white p-5 space-y-2">
+            <label className="block text-sm font-medium text-slate-900">Tranzact book stock (optional)</label>
+            <select value={bookStore} onChange={(e) => setBookStore(e.target.value)} className={selectCls}>
+              <option value="">Store column in the file</option>
+              {amazonStores().map((s) => (
+                <option key={s} value={s}>{s}</option>
+              ))}
+            </select>
+            <input type="file" accept=".xlsx,.xls,.csv" onChange={handleBookStock} className={fileInputCls} />
+            {bookFiles.map((f) => (
+              <p key={f} className="text-[11px] text-emerald-600">{f}</p>
+            ))}
+          </div>
         </div>
 
         {/* Transform */}
@@ -120,8 +197,8 @@ export function AmazonToTranzactTool() {
           </button>
         </div>
 
-        {error && (
-          <div className="rounded-lg border border-rose-200 bg-rose-50 p-4 text-sm text-rose-700">{error}</div>
+        {shownError && (
+          <div className="rounded-lg border border-rose-200 bg-rose-50 p-4 text-sm text-rose-700">{shownError}</div>
         )}
 
         {result && (
@@ -138,13 +215,23 @@ export function AmazonToTranzactTool() {
               <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
                 <SummaryCard label="FG Items" value={result.totalFgItems} color="emerald" />
                 <SummaryCard label="Units Mapped" value={result.totalUnitsMapped} color="brand" />
-                <SummaryCard label="Unsellable (skipped)" value={result.totalUnsellable} color="slate" />
-                <SummaryCard label="FBM Skipped" value={result.skippedFbm} color="slate" />
+                <SummaryCard label="Unsellable units" value={result.totalUnsellable} color="amber" />
+                <SummaryCard label="FBM units" value={result.fbmUnits} color="slate" />
               </div>
               {result.unmatchedSkus.length > 0 && (
                 <div className="mt-4 p-3 rounded-lg bg-amber-50 border border-amber-100">
-                  <p className="text-xs font-medium text-amber-700">Unmatched Amazon SKUs ({result.unmatchedSkus.length})</p>
-                  <p className="mt-1 text-xs font-mono text-amber-700/80">{result.unmatchedSkus.join(', ')}</p>
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="text-xs font-medium text-amber-700">Unmatched Amazon SKUs ({result.unmatchedSkus.length})</p>
+                    <label className="flex items-center gap-2 text-[11px] text-amber-700">
+                      Your name
+                      <input value={user} onChange={(e) => setUser(e.target.value)} className="w-32 rounded border border-amber-200 bg-white px-2 py-0.5 text-xs text-slate-700" />
+                    </label>
+                  </div>
+                  <ul className="mt-2 space-y-1.5">
+                    {result.unmatchedSkus.map((u) => (
+                      <UnmatchedSkuRow key={u.sku} sku={u} onMap={handleMap} />
+                    ))}
+                  </ul>
                 </div>
               )}
               {result.missingFgItems.length > 0 && (
@@ -155,32 +242,77 @@ export function AmazonToTranzactTool() {
               )}
             </div>
 
+            {result.stores.length > 0 && (
+              <div className="rounded-xl border border-slate-200 bg-white overflow-hidden">
+                <div className="px-5 py-3 border-b border-slate-100">
+                  <h3 className="text-sm font-semibold text-slate-900">By Tranzact store</h3>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs">
+                    <thead className="bg-slate-50 text-slate-500 uppercase text-[10px] tracking-wider">
+                      <tr>
+                        <th className="text-left px-4 py-2 font-medium">Store</th>
+                        <th className="text-right px-4 py-2 font-medium">Items</th>
+                        <th className="text-right px-4 py-2 font-medium">Amazon</th>
+                        <th className="text-right px-4 py-2 font-medium">Tranzact</th>
+                        <th className="text-right px-4 py-2 font-medium">Difference</th>
+                        <th className="px-4 py-2" />
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {result.stores.map((s) => (
+                        <tr key={s.store} className="hover:bg-slate-50">
+                          <td className="px-4 py-2 text-slate-700">{s.store}</td>
+                          <td className="px-4 py-2 text-right text-slate-600">{s.items}</td>
+                          <td className="px-4 py-2 text-right text-slate-900 font-medium">{s.physical}</td>
+                          <td className="px-4 py-2 text-right text-slate-600">{s.book ?? '—'}</td>
+                          <td className={`px-4 py-2 text-right font-medium ${s.difference ? 'text-rose-600' : 'text-slate-500'}`}>
+                            {s.difference === null ? '—' : s.difference > 0 ? `+${s.difference}` : s.difference}
+                          </td>
+                          <td className="px-4 py-2 text-right">
+                            <button onClick={() => handleDownload(s.store)} className="px-3 py-1 bg-emerald-500 hover:bg-emerald-600 text-white text-[11px] font-medium rounded-lg transition-colors">
+                              Download Excel
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
             {result.outputRows.length > 0 && (
               <div className="rounded-xl border border-slate-200 bg-white overflow-hidden">
-                <div className="flex items-center justify-between px-5 py-3 border-b border-slate-100">
+                <div className="px-5 py-3 border-b border-slate-100">
                   <h3 className="text-sm font-semibold text-slate-900">Output Preview ({result.outputRows.length} rows)</h3>
-                  <button onClick={handleDownload} className="px-4 py-1.5 bg-emerald-500 hover:bg-emerald-600 text-white text-xs font-medium rounded-lg transition-colors">
-                    Download Excel
-                  </button>
                 </div>
                 <div className="overflow-x-auto">
                   <table className="w-full text-xs">
                     <thead className="bg-slate-50 text-slate-500 uppercase text-[10px] tracking-wider">
                       <tr>
+                        <th className="text-left px-4 py-2 font-medium">Store</th>
                         <th className="text-left px-4 py-2 font-medium">Item ID</th>
                         <th className="text-left px-4 py-2 font-medium">Item Name</th>
                         <th className="text-left px-4 py-2 font-medium">UOM</th>
                         <th className="text-right px-4 py-2 font-medium">Physical Stock</th>
+                        <th className="text-right px-4 py-2 font-medium">Book</th>
+                        <th className="text-right px-4 py-2 font-medium">Difference</th>
                         <th className="text-left px-4 py-2 font-medium">Comment</th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-slate-100">
                       {result.outputRows.map((row: OutputRow) => (
-                        <tr key={row.itemId} className="hover:bg-slate-50">
+                        <tr key={`${row.store}|${row.itemId}`} className="hover:bg-slate-50">
+                          <td className="px-4 py-2 text-slate-500 text-[11px]">{row.store}</td>
                           <td className="px-4 py-2 text-slate-700 font-mono">{row.itemId}</td>
                           <td className="px-4 py-2 text-slate-700">{row.itemName}</td>
                           <td className="px-4 py-2 text-slate-500">{row.uom}</td>
                           <td className="px-4 py-2 text-right text-slate-900 font-medium">{row.physicalStock}</td>
+                          <td className="px-4 py-2 text-right text-slate-500">{row.bookStock ?? '—'}</td>
+                          <td className={`px-4 py-2 text-right ${row.difference ? 'text-rose-600 font-medium' : 'text-slate-500'}`}>
+                            {row.difference === '' ? '—' : row.difference > 0 ? `+${row.difference}` : row.difference}
+                          </td>
                           <td className="px-4 py-2 text-slate-500 text-[11px]">{row.comment}</td>
                         </tr>
                       ))}
@@ -196,6 +328,35 @@ export function AmazonToTranzactTool() {
   );
 }
 
+function UnmatchedSkuRow({ sku, onMap }: { sku: UnmatchedSku; onMap: (sku: string, fgItemId: string) => Promise<void> }) {
+  const [fgItemId, setFgItemId] = useState(sku.suggestedFgId ?? '');
+  const [saving, setSaving] = useState(false);
+  return (
+    <li className="flex items-center gap-2 text-xs">
+      <span className="font-mono text-amber-800 w-36 shrink-0">{sku.sku}</span>
+      <span className="text-amber-700/80 w-12 shrink-0 text-right">{sku.qty}</span>
+      <span className="text-amber-700/80 truncate flex-1" title={sku.title}>{sku.title}</span>
+      <select value={fgItemId} onChange={(e) => setFgItemId(e.target.value)} className="w-56 rounded border border-amber-200 bg-white px-1.5 py-0.5 text-xs text-slate-700">
+        <option value="">Pick an FG item…</option>
+        {Object.values(fgMaster).map((fg) => (
+          <option key={fg.itemId} value={fg.itemId}>{fg.itemId} · {fg.itemName}</option>
+        ))}
+      </select>
+      <button
+        disabled={!fgItemId || saving}
+        onClick={async () => {
+          setSaving(true);
+          await onMap(sku.sku, fgItemId);
+          setSaving(false);
+        }}
+        className="px-2.5 py-0.5 rounded bg-amber-500 hover:bg-amber-600 disabled:bg-slate-200 disabled:text-slate-400 text-white text-[11px] font-medium"
+      >
+        {saving ? 'Adding…' : 'Add mapping'}
+      </button>
+    </li>
+  );
+}
+
 function Step({ n, title, children }: { n: number; title: string; children: React.ReactNode }) {
   return (
     <div>
@@ -0,0 +1,205 @@
+import { useState } from 'react';
+import { Pill } from '../../../components/ui/Card';
+import { useTallyMaster } from '../../../data/tally/useTallyMaster';
+import {
+  BATCH_TEMPLATE_HEADERS,
+  buildBatchXml,
+  parseBatchFile,
+} from '../../../data/guide/suggesterBatch';
+import type { BatchExport, BatchParseResult } from '../../../data/guide/suggesterBatch';
+import { MasterPanel } from '../../tools/MasterPanel';
+
+const TEMPLATE_SAMPLE = [
+  ['2026-04-05', 'Sales', 'Blinkit', 'B2B', '', '', '8516', '18', '1180', 'Intra', 'BLK-0001', '', 'Blinkit Sales', '', '', ''],
+  ['2026-04-07', 'Purchase', 'Raw Material', 'B2B', '', 'ABC Materials Pvt Ltd', '', '18', '23600', 'Inter', 'INV-778', '', 'RM Purchases', '', '', ''],
+  ['2026-04-20', 'Banking', 'Central Bank', 'N/A', '', 'ABC Materials Pvt Ltd', '', '', '23600', '', 'INV-778', 'out', '', '', '', ''],
+];
+
+function downloadFile(content: string, name: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+function downloadTemplate() {
+  const csv = [BATCH_TEMPLATE_HEADERS, ...TEMPLATE_SAMPLE]
+    .map((r) => r.map((c) => (/[",]/.test(c) ? `"${c.replace(/"/g, '""')}"` : c)).join(','))
+    .join('\n');
+  downloadFile(csv, 'booking-batch-template.csv', 'text/csv');
+}
+
+export function SuggesterBatchPanel() {
+  const masterState = useTallyMaster();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<BatchParseResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Re-validated whenever the master changes (e.g. a fresh export is loaded).
+  const batch: BatchExport | null =
+    parsed && masterState.master ? buildBatchXml(parsed.rows, masterState.master) : null;
+  const failed = batch ? batch.results.filter((r) => !r.voucher).length + (parsed?.errors.length ?? 0) : 0;
+
+  async function onFile(file: File) {
+    setError(null);
+    try {
+      setParsed(parseBatchFile(await file.arrayBuffer()));
+      setFileName(file.name);
+    } catch (e) {
+      setParsed(null);
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  function download() {
+    if (!batch || batch.vouchersExported === 0) return;
+    const today = new Date().toISOString().slice(0, 10);
+    downloadFile(batch.xml, `tally-batch-${today}.xml`, 'application/xml');
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 py-8 space-y-4">
+      <MasterPanel state={masterState} />
+
+      <div className="rounded-xl border border-slate-200 bg-white p-5">
+        <div className="flex items-start justify-between flex-wrap gap-3">
+          <div>
+            <h3 className="text-sm font-semibold text-slate-900">Transactions file</h3>
+            <p className="mt-1 text-xs text-slate-500 max-w-2xl">
+              CSV or Excel, one transaction per row. Each row runs through the same rules as the single
+              suggester; every ledger and voucher type is checked against the Tally master before it goes
+              into the XML. Use <b>Ledger</b> / <b>Party ledger</b> to name the master ledgers where the
+              suggested names differ from your books.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={downloadTemplate}
+            className="rounded-lg border border-slate-300 bg-white hover:bg-slate-50 px-3 py-1.5 text-xs font-medium text-slate-700"
+          >
+            Download template
+          </button>
+        </div>
+        <label className="mt-4 block">
+          <input
+            type="file"
+            accept=".csv,.xlsx,.xls"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void onFile(file);
+              e.target.value = '';
+            }}
+            className="block w-full text-sm text-slate-600 file:mr-3 file:rounded-lg file:border-0 file:bg-brand-50 file:px-3 file:py-2 file:text-sm file:font-medium file:text-brand-700 hover:file:bg-brand-100"
+          />
+        </label>
+        {fileName && <p className="mt-2 text-xs text-slate-500">Loaded {fileName}</p>}
+        {error && <p className="mt-2 text-xs text-rose-700">{error}</p>}
+        {parsed && !masterState.master && !masterState.loading && (
+          <p className="mt-2 text-xs text-amber-700">Load a Tally master to validate the rows.</p>
+        )}
+      </div>
+
+      {batch && parsed && (
+        <div className="rounded-xl border border-slate-200 bg-white">
+          <div className="flex items-center justify-between flex-wrap gap-2 px-5 py-3 border-b border-slate-100">
+            <div className="text-sm text-slate-700">
+              <span className="font-semibold text-slate-900">{batch.vouchersExported}</span> voucher
+              {batch.vouchersExported === 1 ? '' : 's'} ready
+              {failed > 0 && (
+                <>
+                  {' '}· <span className="font-semibold text-rose-700">{failed}</span> row
+                  {failed === 1 ? '' : 's'} need fixing
+                </>
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={download}
+              disabled={batch.vouchersExported === 0}
+              className="rounded-lg bg-emerald-600 hover:bg-emerald-700 disabled:bg-slate-300 disabled:cursor-not-allowed text-white font-medium px-4 py-2 text-sm"
+            >
+              Download Tally XML
+            </button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-50 text-slate-500 uppercase tracking-wider text-[10px]">
+                <tr>
+                  <th className="text-left px-3 py-2 w-12">Row</th>
+                  <th className="text-left px-3 py-2 w-24">Date</th>
+                  <th className="text-left px-3 py-2">Transaction</th>
+                  <th className="text-left px-3 py-2">Voucher</th>
+                  <th className="text-right px-3 py-2 w-28">Amount</th>
+                  <th className="text-left px-3 py-2 w-20">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {parsed.errors.map((e) => (
+                  <tr key={`e${e.rowNumber}`} className="border-t border-slate-100 align-top">
+                    <td className="px-3 py-2 tabular-nums text-slate-500">{e.rowNumber}</td>
+                    <td className="px-3 py-2 text-rose-700" colSpan={4}>
+                      {e.reason}
+                    </td>
+                    <td className="px-3 py-2">
+                      <Pill color="rose">Skipped</Pill>
+                    </td>
+                  </tr>
+                ))}
+                {batch.results.map((r) => (
+                  <tr key={r.row.rowNumber} className="border-t border-slate-100 align-top">
+                    <td className="px-3 py-2 tabular-nums text-slate-500">{r.row.rowNumber}</td>
+                    <td className="px-3 py-2 tabular-nums text-slate-700">{r.row.date || '—'}</td>
+                    <td className="px-3 py-2 text-slate-700">
+                      <div className="font-medium text-slate-900">
+                        {r.row.input.txnType} · {r.row.input.channelId}
+                      </div>
+                      {r.row.input.party && <div className="text-[10px] text-slate-500">{r.row.input.party}</div>}
+                    </td>
+                    <td className="px-3 py-2 text-slate-700">
+                      {r.voucher ? (
+                        <>
+                          <div className="font-medium text-slate-900">{r.voucher.voucherType}</div>
+                          {r.voucher.entries.map((e, i) => (
+                            <div key={i}>
+                              <span className="font-semibold">{e.dr_or_cr}</span> {e.ledger}{' '}
+                              <span className="tabular-nums text-slate-500">{e.amount.toLocaleString('en-IN')}</span>
+                              {e.bill && <span className="ml-1 text-[10px] text-slate-500">({e.bill.type} {e.bill.name})</span>}
+                            </div>
+                          ))}
+                        </>
+                      ) : (
+                        <ul className="list-disc list-inside text-rose-700 space-y-0.5">
+                          {r.problems.map((p, i) => (
+                            <li key={i}>{p}</li>
+                          ))}
+                        </ul>
+                      )}
+                      {r.warnings.length > 0 && (
+                        <ul className="mt-1 text-[10px] text-amber-700 space-y-0.5">
+                          {r.warnings.map((w, i) => (
+                            <li key={i}>{w}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right tabular-nums text-slate-900">
+                      {r.row.input.amount?.toLocaleString('en-IN') ?? '—'}
+                    </td>
+                    <td className="px-3 py-2">
+                      {r.voucher ? <Pill color="emerald">Ready</Pill> : <Pill color="rose">Fix</Pill>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
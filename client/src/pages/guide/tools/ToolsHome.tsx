@@ -13,12 +13,42 @@ const iconConvert = (
   </svg>
 );
 
+const iconGst = (
+  <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 14l6-6m-5.5.5h.01m4.99 5h.01M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16l3.5-2 3.5 2 3.5-2 3.5 2z" />
+  </svg>
+);
+
+const iconTds = (
+  <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
+  </svg>
+);
+
+const iconStock = (
+  <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
+  </svg>
+);
+
 const iconExpense = (
   <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M7 15h2m4 0h6M5 5h14a2 2 0 012 2v10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2z" />
   </svg>
 );
 
+const iconBank = (
+  <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10l9-6 9 6M5 10v8m4-8v8m6-8v8m4-8v8M3 20h18" />
+  </svg>
+);
+
+const iconPayout = (
+  <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 9V7a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2m2 4h10a2 2 0 002-2v-6a2 2 0 00-2-2H9a2 2 0 00-2 2v6a2 2 0 002 2zm7-5a2 2 0 11-4 0 2 2 0 014 0z" />
+  </svg>
+);
+
 export function ToolsHome() {
   return (
     <>
@@ -40,6 +70,46 @@ export function ToolsHome() {
             icon={iconBooking}
             accent="brand"
           />
+          <NavCard
+            to="/tools/bank-reconciliation"
+            title="Bank Reconciliation"
+            description="Upload an ICICI, HDFC Escrow, Central Bank or Easebuzz statement with the Tally journal register — matched, unmatched and suggested pairs, plus the BRS in Excel."
+            icon={iconBank}
+            accent="sky"
+            badge="New"
+          />
+          <NavCard
+            to="/tools/gst-reconciliation"
+            title="GST Return Reconciliation"
+            description="Upload the GSTR-1 or GSTR-2B download for a state GSTIN — matched invoice by invoice against the sales or purchase register, with missing invoices, value mismatches and ITC at risk per supplier."
+            icon={iconGst}
+            accent="violet"
+            badge="New"
+          />
+          <NavCard
+            to="/tools/tds-ledger"
+            title="TDS Ledger & 26Q"
+            description="TDS deducted by section, deductee and quarter from the booking queue and the Tally day book — vendor thresholds, 197 certificates, deposits due and the 26Q working file for the RPU."
+            icon={iconTds}
+            accent="amber"
+            badge="New"
+          />
+          <NavCard
+            to="/tools/inventory-valuation"
+            title="Inventory Valuation"
+            description="Upload the Tranzact stock summary and movement exports — FG and raw material valued at weighted average, aged by receipt, slow-moving SKUs flagged and month-end stock reconciled to Tally's closing stock."
+            icon={iconStock}
+            accent="sky"
+            badge="New"
+          />
+          <NavCard
+            to="/tools/settlements"
+            title="Marketplace Settlements"
+            description="Upload the Amazon date range report and the Blinkit settlement file — payouts broken into sales, fees, ads and taxes, tied to escrow receipts and the sales register each month."
+            icon={iconPayout}
+            accent="violet"
+            badge="New"
+          />
           <NavCard
             to="/tools/amazon-to-tranzact"
             title="Amazon → Tranzact"
@@ -12,16 +12,27 @@ import {
   periodGrowth, yoyGrowth, marginsOf, channelMix, deckFacts, arrProjection,
   channelObservations, channelHHI, topChannel, channelsAbove, likeForLikeChannel,
   ordersByChannel, channelLabel, channelPnl, adSpendForPeriod, CHANNEL_AOV,
-  channelPnlAnchored, FACTORY_PCT,
+  channelPnlAnchored, FACTORY_PCT, actualMonths, blendedMonths,
   skuChannelMatrix, SKU_COVERAGE,
   SALES_CHANNELS, FY_SUMMARY,
   type Granularity, type PeriodMIS, type ChannelPnlRow, type SkuAgg, type SalesChannel,
 } from '../../data/misDeck/analytics';
 import {
   MIS_GENERATED_AT, MIS_SOURCE_FILE, DISCOUNT_DATA, D2C_REPEATS, AMAZON_REPEATS,
-} from '../../data/misDeck/misDeckData';
+} from '../../data/misDeck/dataset';
 import { DeckExportModal } from '../../components/mis-deck/DeckExportModal';
+import { BoardPackModal } from '../../components/mis-deck/BoardPackModal';
 import { MisSheetTab } from '../../components/mis-deck/MisSheetTab';
+import { ScenarioTab } from '../../components/mis-deck/ScenarioTab';
+import { CashFlowTab } from '../../components/mis-deck/CashFlowTab';
+import { BudgetCompareToggle } from '../../components/mis-deck/BudgetVariance';
+import { useBudget } from '../../data/budget/useBudget';
+import { budgetPoint, budgetVariance, isBudgetedPnlLine, pnlBudget, varianceTone } from '../../data/misDeck/budget';
+import { buildForecast } from '../../data/misDeck/forecast';
+import { useForecastConfig } from '../../data/forecast/useForecastConfig';
+import { ForecastDrivers } from '../../components/mis-deck/ForecastDrivers';
+import { DatasetVersionsPanel } from '../../components/mis-deck/DatasetVersionsPanel';
+import { useDeckDataset } from '../../data/deckDatasets/useDeckDataset';
 
 const iconDeck = (
   <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -29,7 +40,7 @@ const iconDeck = (
   </svg>
 );
 
-type TabId = 'overview' | 'growth' | 'channels' | 'repeats' | 'profitability' | 'pnl' | 'channelactuals' | 'skuchannel' | 'missheet' | 'datainputs' | 'monthclose';
+type TabId = 'overview' | 'growth' | 'channels' | 'repeats' | 'profitability' | 'pnl' | 'channelactuals' | 'scenarios' | 'cashflow' | 'skuchannel' | 'missheet' | 'datainputs' | 'monthclose';
 
 const TABS: { id: TabId; label: string }[] = [
   { id: 'overview', label: 'Overview' },
@@ -39,6 +50,8 @@ const TABS: { id: TabId; label: string }[] = [
   { id: 'profitability', label: 'Profitability' },
   { id: 'pnl', label: 'P&L' },
   { id: 'channelactuals', label: 'Channel P&L' },
+  { id: 'scenarios', label: 'Scenarios' },
+  { id: 'cashflow', label: 'Cash Flow' },
   { id: 'skuchannel', label: 'SKU × Channel' },
   { id: 'missheet', label: 'MIS Sheet' },
   { id: 'datainputs', label: 'Data Inputs' },
@@ -50,8 +63,10 @@ const TABS: { id: TabId; label: string }[] = [
 export function MISDeck() {
   const [tab, setTab] = useState<TabId>('overview');
   const [showExport, setShowExport] = useState(false);
+  const [showBoardPack, setShowBoardPack] = useState(false);
   // Shared across the margin-bearing tabs so the Actual|Blended choice is consistent.
   const [blended, setBlended] = useState(true);
+  const dataset = useDeckDataset();
 
   return (
     <>
@@ -64,7 +79,7 @@ export function MISDeck() {
         actions={
           <div className="flex items-center gap-3">
             <span className="text-[11px] text-slate-400 hidden sm:block">
-              Source: {MIS_SOURCE_FILE} · {MIS_GENERATED_AT}
+              Source: {MIS_SOURCE_FILE} · {MIS_GENERATED_AT} · {dataset.version ? `dataset v${dataset.version.version}` : 'bundled extract'}
             </span>
             <button
               onClick={() => setShowExport(true)}
@@ -75,11 +90,21 @@ export function MISDeck() {
               </svg>
               Export Excel
             </button>
+            <button
+              onClick={() => setShowBoardPack(true)}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-brand-600 text-white text-sm font-medium hover:bg-brand-700 transition-colors"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2zm2-9h6m-6 4h6" />
+              </svg>
+              Board Pack PDF
+            </button>
           </div>
         }
       />
 
       {showExport && <DeckExportModal onClose={() => setShowExport(false)} />}
+      {showBoardPack && <BoardPackModal onClose={() => setShowBoardPack(false)} />}
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 space-y-6">
         {/* Tabs */}
@@ -97,16 +122,28 @@ export function MISDeck() {
           ))}
         </div>
 
-        {tab === 'overview' && <OverviewTab blended={blended} setBlended={setBlended} />}
-        {tab === 'growth' && <GrowthTab />}
-        {tab === 'channels' && <ChannelsTab />}
-        {tab === 'repeats' && <RepeatsTab />}
-        {tab === 'profitability' && <ProfitabilityTab blended={blended} setBlended={setBlended} />}
-        {tab === 'pnl' && <PnlTab blended={blended} setBlended={setBlended} />}
-        {tab === 'channelactuals' && <ChannelActualsTab />}
-        {tab === 'skuchannel' && <SkuChannelTab />}
-        {tab === 'missheet' && <MisSheetTab />}
-        {tab === 'datainputs' && <DataInputsTab />}
+        {/* The dataset panel sits outside the keyed block so its status survives an install. */}
+        {tab === 'datainputs' && <DatasetVersionsPanel />}
+
+        {dataset.loading ? (
+          <p className="text-sm text-slate-400">Loading the active dataset…</p>
+        ) : (
+          // Remount on every dataset install — the tabs memoise on the deck's module-level data.
+          <Fragment key={dataset.revision}>
+            {tab === 'overview' && <OverviewTab blended={blended} setBlended={setBlended} />}
+            {tab === 'growth' && <GrowthTab />}
+            {tab === 'channels' && <ChannelsTab />}
+            {tab === 'repeats' && <RepeatsTab />}
+            {tab === 'profitability' && <ProfitabilityTab blended={blended} setBlended={setBlended} />}
+            {tab === 'pnl' && <PnlTab blended={blended} setBlended={setBlended} />}
+            {tab === 'channelactuals' && <ChannelActualsTab />}
+            {tab === 'scenarios' && <ScenarioTab />}
+            {tab === 'cashflow' && <CashFlowTab />}
+            {tab === 'skuchannel' && <SkuChannelTab />}
+            {tab === 'missheet' && <MisSheetTab />}
+            {tab === 'datainputs' && <DataInputsTab />}
+          </Fragment>
+        )}
         {tab === 'monthclose' && <MonthCloseTab />}
       </div>
     </>
@@ -290,6 +327,8 @@ function OverviewTab({ blended, setBlended }: BlendProps) {
           sub="COGM + opex (pre-interest)" />
       </div>
 
+      <BudgetVsActualSection p={p} />
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         <SectionCard
           title="Net Revenue & EBITDA"
@@ -900,6 +939,72 @@ function pnlShare(p: PeriodMIS, key: keyof PeriodMIS, kind: PnlMetricKind): numb
   return pnlAmount(p, key, kind) / p.netRevenue;
 }
 
+// Budget vs actual for one P&L line: budget and variance in the same signed
+// display as pnlAmount, with favourability judged on the raw magnitudes.
+function pnlBudgetCells(p: PeriodMIS, budget: ReturnType<typeof budgetPoint>, key: keyof PeriodMIS, kind: PnlMetricKind) {
+  const raw = pnlBudget(budget, key);
+  const v = budgetVariance(p[key] as number, raw, kind === 'cost');
+  const sign = kind === 'cost' ? -1 : 1;
+  return {
+    budget: raw === null ? null : sign * raw,
+    variance: v.variance === null ? null : sign * v.variance,
+    variancePct: v.variancePct === null ? null : sign * v.variancePct,
+    v,
+  };
+}
+
+function BudgetVsActualSection({ p }: { p: PeriodMIS }) {
+  const { budget, loading } = useBudget();
+  const point = budgetPoint(budget, p.monthKeys, 'company');
+  const rows = COMPANY_PNL_ROWS.filter((r) => isBudgetedPnlLine(r.key));
+
+  return (
+    <SectionCard
+      title={`Budget vs Actual · ${p.longLabel}`}
+      description="Company P&L against the operating plan. Costs shown as negatives; variance is coloured favourable (emerald) or adverse (rose)."
+    >
+      {loading ? (
+        <p className="text-sm text-slate-400">Loading budget…</p>
+      ) : !point ? (
+        <p className="text-sm text-slate-400">
+          No budget entered for {p.longLabel}. Add one in the MIS Sheet tab (Edit budget) or import the Excel template.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm whitespace-nowrap">
+            <thead>
+              <tr className="text-xs text-slate-400 border-b border-slate-200">
+                <th className="py-2 pr-4 text-left font-medium">Particulars</th>
+                <th className="py-2 px-3 text-right font-medium">Actual</th>
+                <th className="py-2 px-3 text-right font-medium">Budget</th>
+                <th className="py-2 px-3 text-right font-medium">Variance</th>
+                <th className="py-2 px-3 text-right font-medium">Var %</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => {
+                const isMargin = row.kind === 'margin' || row.kind === 'rev';
+                const c = pnlBudgetCells(p, point, row.key, row.kind);
+                return (
+                  <tr key={row.label} className={`border-b border-slate-50 ${isMargin ? 'font-semibold text-slate-800' : 'text-slate-600'}`}>
+                    <td className={`py-2 pr-4 text-left ${row.label.startsWith('  ') ? 'pl-4' : ''}`}>{row.label.trim()}</td>
+                    <td className="py-2 px-3 text-right tabular-nums">{inr(pnlAmount(p, row.key, row.kind))}</td>
+                    <td className="py-2 px-3 text-right tabular-nums text-slate-500">{c.budget === null ? '–' : inr(c.budget)}</td>
+                    <td className={`py-2 px-3 text-right tabular-nums ${varianceTone(c.v)}`}>
+                      {c.variance === null ? '–' : inr(c.variance, { sign: true })}
+                    </td>
+                    <td className={`py-2 px-3 text-right tabular-nums ${varianceTone(c.v)}`}>{pctSigned(c.variancePct)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </SectionCard>
+  );
+}
+
 // ----------------------------------------------------------------------------
 // P&L metric-trends chart (overlay any P&L lines across month/quarter/year)
 // ----------------------------------------------------------------------------
@@ -1043,10 +1148,47 @@ function PnlDisplayToggle({ value, onChange }: { value: PnlDisplay; onChange: (v
   );
 }
 
+function ForecastToggle({ value, onChange }: { value: boolean; onChange: (v: boolean) => void }) {
+  const opts: { id: boolean; label: string }[] = [
+    { id: false, label: 'Actuals' },
+    { id: true, label: '+ Forecast' },
+  ];
+  return (
+    <div className="inline-flex bg-slate-100 rounded-lg p-0.5">
+      {opts.map((o) => (
+        <button
+          key={String(o.id)}
+          onClick={() => onChange(o.id)}
+          className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+            value === o.id ? 'bg-white text-brand-700 shadow-soft' : 'text-slate-500 hover:text-slate-800'
+          }`}
+        >
+          {o.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
 function PnlTab({ blended, setBlended }: BlendProps) {
   const [g, setG] = useState<Granularity>('year');
   const [display, setDisplay] = useState<PnlDisplay>('both');
-  const series = useMemo(() => (blended ? seriesForBlended(g) : seriesFor(g)), [g, blended]);
+  const [compare, setCompare] = useState(false);
+  const [showForecast, setShowForecast] = useState(false);
+  const [fcConfig, setFcConfig] = useForecastConfig();
+  // The forecast continues whichever history is on screen (actual or blended COGM).
+  const history = useMemo(() => (blended ? blendedMonths() : actualMonths()), [blended]);
+  const forecast = useMemo(() => buildForecast(history, fcConfig), [history, fcConfig]);
+  const series = useMemo(
+    () => seriesFor(g, showForecast ? [...history, ...forecast.months] : history),
+    [g, history, forecast, showForecast],
+  );
+  // Projected months in a period (a quarter or FY can straddle actual and forecast).
+  const projectedCount = (p: PeriodMIS) => (showForecast ? p.monthKeys.filter((k) => forecast.keys.has(k)).length : 0);
+  const projectedCls = (p: PeriodMIS) =>
+    projectedCount(p) > 0 ? 'italic bg-slate-50/70 border-x border-dashed border-slate-300' : '';
+  const { budget } = useBudget();
+  const budgets = useMemo(() => series.map((p) => budgetPoint(budget, p.monthKeys, 'company')), [series, budget]);
   const [open, setOpen] = useState<Set<string>>(() => new Set());
   const breakupKeys = (field: 'opexLines' | 'cogmLines'): string[] => {
     const seen: string[] = [];
@@ -1064,12 +1206,22 @@ function PnlTab({ blended, setBlended }: BlendProps) {
       : display === 'both'
         ? 'Figures in ₹ with each line’s % of net revenue beneath. Costs shown as negatives; column scope under each heading.'
         : 'All figures in ₹. Costs shown as negatives. Column scope shown under each heading — partial periods are annotated.';
+  // Ledger breakup lines have no budget of their own.
+  const noBudgetCells = (
+    <>
+      <td className="py-1.5 px-3 text-right tabular-nums text-xs text-slate-300">–</td>
+      <td className="py-1.5 px-3 text-right tabular-nums text-xs text-slate-300">–</td>
+      <td className="py-1.5 px-3 text-right tabular-nums text-xs text-slate-300">–</td>
+    </>
+  );
 
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between gap-3 flex-wrap">
         <h2 className="text-sm font-semibold text-slate-700">Profit &amp; Loss statement</h2>
         <div className="flex items-center gap-2">
+          <ForecastToggle value={showForecast} onChange={setShowForecast} />
+          <BudgetCompareToggle value={compare} onChange={setCompare} />
           <BlendToggle value={blended} onChange={setBlended} />
           <GranularityToggle value={g} onChange={setG} />
         </div>
@@ -1078,8 +1230,11 @@ function PnlTab({ blended, setBlended }: BlendProps) {
       {blended && <BlendNote />}
 
       <SectionCard
-        title={`P&L · ${capitalizeGran(g)}`}
-        description={desc}
+        title={`P&L · ${capitalizeGran(g)}${compare ? ' · vs Budget' : ''}${showForecast ? ` · ${forecast.months.length}-month rolling forecast` : ''}`}
+        description={
+          (compare ? `${desc} Budget, variance and variance-% follow each period; variance is coloured favourable (emerald) or adverse (rose).` : desc) +
+          (showForecast ? ' Projected periods are shown in dashed, italic columns.' : '')
+        }
         actions={<PnlDisplayToggle value={display} onChange={setDisplay} />}
       >
         <div className="overflow-x-auto">
@@ -1095,17 +1250,35 @@ function PnlTab({ blended, setBlended }: BlendProps) {
                       ? `${p.firstMonthShort}–${p.lastMonthShort}`
                       : p.firstMonthShort;
                   return (
-                    <th key={p.key} className="py-2 px-3 text-right font-medium align-bottom">
+                    <th key={p.key} colSpan={compare ? 4 : 1} className={`py-2 px-3 font-medium align-bottom ${compare ? 'text-center border-l border-slate-100' : 'text-right'} ${projectedCls(p)}`}>
                       <div className="text-slate-600 font-semibold">{p.label}</div>
                       {scope && (
                         <div className="text-[10px] font-normal text-slate-400 mt-0.5">
                           {scope} · {p.monthsCount}m{partial ? ' (partial)' : ''}
                         </div>
                       )}
+                      {projectedCount(p) > 0 && (
+                        <div className="text-[10px] font-normal text-slate-400 mt-0.5">
+                          {projectedCount(p) === p.monthsCount ? 'Forecast' : `incl. ${projectedCount(p)}m forecast`}
+                        </div>
+                      )}
                     </th>
                   );
                 })}
               </tr>
+              {compare && (
+                <tr className="text-[10px] uppercase tracking-wide text-slate-400 border-b border-slate-200">
+                  <th className="sticky left-0 bg-white" />
+                  {series.map((p) => (
+                    <Fragment key={p.key}>
+                      <th className="py-1 px-3 text-right font-medium border-l border-slate-100">Actual</th>
+                      <th className="py-1 px-3 text-right font-medium">Budget</th>
+                      <th className="py-1 px-3 text-right font-medium">Var</th>
+                      <th className="py-1 px-3 text-right font-medium">Var %</th>
+                    </Fragment>
+                  ))}
+                </tr>
+              )}
             </thead>
             <tbody>
               {COMPANY_PNL_ROWS.map((row) => {
@@ -1125,11 +1298,11 @@ function PnlTab({ blended, setBlended }: BlendProps) {
                           </button>
                         ) : row.label.trim()}
                       </td>
-                      {series.map((p) => {
+                      {series.map((p, pi) => {
                         const val = pnlAmount(p, row.key, row.kind);
                         const share = pnlShare(p, row.key, row.kind);
-                        return (
-                          <td key={p.key} className={`py-2 px-3 text-right tabular-nums ${isMargin ? 'text-slate-800' : 'text-slate-600'}`}>
+                        const actual = (
+                          <td key={p.key} className={`py-2 px-3 text-right tabular-nums ${isMargin ? 'text-slate-800' : 'text-slate-600'} ${compare ? 'border-l border-slate-100' : ''} ${projectedCls(p)}`}>
                             {display !== 'percent' && <div>{inr(val)}</div>}
                             {display !== 'amount' && (
                               <div className={display === 'both' ? 'text-[10px] font-normal text-slate-400 mt-0.5' : ''}>
@@ -1138,6 +1311,18 @@ function PnlTab({ blended, setBlended }: BlendProps) {
                             )}
                           </td>
                         );
+                        if (!compare) return actual;
+                        const c = pnlBudgetCells(p, budgets[pi], row.key, row.kind);
+                        return (
+                          <Fragment key={p.key}>
+                            {actual}
+                            <td className="py-2 px-3 text-right tabular-nums text-slate-500 font-normal">{c.budget === null ? '–' : inr(c.budget)}</td>
+                            <td className={`py-2 px-3 text-right tabular-nums font-normal ${varianceTone(c.v)}`}>
+                              {c.variance === null ? '–' : inr(c.variance, { sign: true })}
+                            </td>
+                            <td className={`py-2 px-3 text-right tabular-nums font-normal ${varianceTone(c.v)}`}>{pctSigned(c.variancePct)}</td>
+                          </Fragment>
+                        );
                       })}
                     </tr>
                     {isOpen && field && subKeys.map((sk) => (
@@ -1147,14 +1332,17 @@ function PnlTab({ blended, setBlended }: BlendProps) {
                           const raw = p[field][sk] ?? 0;
                           const share = p.netRevenue ? raw / p.netRevenue : null;
                           return (
-                            <td key={p.key} className="py-1.5 px-3 text-right tabular-nums text-xs">
-                              {display !== 'percent' && <div>{inr(raw)}</div>}
-                              {display !== 'amount' && (
-                                <div className={display === 'both' ? 'text-[10px] text-slate-400 mt-0.5' : ''}>
-                                  {pctStr(share)}
-                                </div>
-                              )}
-                            </td>
+                            <Fragment key={p.key}>
+                              <td className={`py-1.5 px-3 text-right tabular-nums text-xs ${compare ? 'border-l border-slate-100' : ''} ${projectedCls(p)}`}>
+                                {display !== 'percent' && <div>{inr(raw)}</div>}
+                                {display !== 'amount' && (
+                                  <div className={display === 'both' ? 'text-[10px] text-slate-400 mt-0.5' : ''}>
+                                    {pctStr(share)}
+                                  </div>
+                                )}
+                              </td>
+                              {compare && noBudgetCells}
+                            </Fragment>
                           );
                         })}
                       </tr>
@@ -1167,6 +1355,8 @@ function PnlTab({ blended, setBlended }: BlendProps) {
         </div>
       </SectionCard>
 
+      {showForecast && <ForecastDrivers forecast={forecast} config={fcConfig} onChange={setFcConfig} />}
+
       <MetricTrendsSection blended={blended} />
 
       <p className="text-xs text-slate-400">
@@ -2,6 +2,9 @@ import { useMemo, useState } from 'react';
 import { SectionCard } from '../../components/ui/Card';
 import { inr, pctStr } from '../../components/mis-deck/charts';
 import { seriesFor, type PeriodMIS } from '../../data/misDeck/analytics';
+import { usePeriodClose } from '../../data/periodClose/usePeriodClose';
+import { PERIOD_STATUS_LABELS, type PeriodCloseAction, type PeriodCloseStatus } from '../../types/periodClose';
+import { getCurrentUser, setCurrentUser } from '../../data/currentUser';
 
 // ----------------------------------------------------------------------------
 // Month Close — intake + consolidation to a full monthly P&L, plus forward ARR.
@@ -10,6 +13,10 @@ import { seriesFor, type PeriodMIS } from '../../data/misDeck/analytics';
 // income) comes from Tally. Enter costs as POSITIVE magnitudes — the cascade
 // subtracts them. Nothing is persisted; use "Copy P&L column" to paste the
 // finalised month into the MIS workbook.
+//
+// The Period close card drives the server-side close state for the month
+// (draft → under review → locked). Locked months refuse re-uploads,
+// regeneration and reclassification in MIS Tracking until reopened.
 // ----------------------------------------------------------------------------
 
 type Sign = 'rev' | 'cost';
@@ -254,6 +261,8 @@ export function MonthCloseTab() {
 
         {/* Live P&L + ARR */}
         <div className="space-y-4">
+          <PeriodCloseCard />
+
           <SectionCard
             title={`P&L · ${monthLabel || 'this month'}`}
             description="Live as you type."
@@ -312,6 +321,121 @@ export function MonthCloseTab() {
   );
 }
 
+// ---- Period close: draft → under review → locked, reopen needs a reason ----
+const STATUS_STYLES: Record<PeriodCloseStatus, string> = {
+  draft: 'bg-slate-100 text-slate-600',
+  under_review: 'bg-amber-50 text-amber-700 border border-amber-200',
+  locked: 'bg-emerald-50 text-emerald-700 border border-emerald-200',
+};
+
+const ACTIONS_BY_STATUS: Record<PeriodCloseStatus, { action: PeriodCloseAction; label: string }[]> = {
+  draft: [{ action: 'submit', label: 'Submit for review' }],
+  under_review: [{ action: 'lock', label: 'Approve & lock' }, { action: 'return', label: 'Return to draft' }],
+  locked: [{ action: 'reopen', label: 'Reopen…' }],
+};
+
+function previousMonthKey(): string {
+  const d = new Date();
+  d.setDate(1);
+  d.setMonth(d.getMonth() - 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function PeriodCloseCard() {
+  const { getRecord, transition, loading } = usePeriodClose();
+  const [periodKey, setPeriodKey] = useState(previousMonthKey);
+  const [user, setUser] = useState(getCurrentUser);
+  const [reason, setReason] = useState('');
+  const [reopening, setReopening] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const record = getRecord(periodKey);
+  const status: PeriodCloseStatus = record?.status ?? 'draft';
+
+  const run = async (action: PeriodCloseAction) => {
+    if (action === 'reopen' && !reopening) { setReopening(true); return; }
+    if (!user.trim()) { setError('Enter your name first.'); return; }
+    setBusy(true); setError(null);
+    try {
+      setCurrentUser(user);
+      await transition(periodKey, action, user.trim(), reason || undefined);
+      setReason(''); setReopening(false);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Transition failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <SectionCard
+      title="Period close"
+      description="Draft → under review → locked. Locked months reject re-uploads and reclassifications."
+    >
+      <div className="space-y-3 text-sm">
+        <div className="flex items-center gap-2">
+          <input
+            type="month"
+            value={periodKey}
+            onChange={(e) => { if (e.target.value) { setPeriodKey(e.target.value); setReopening(false); setError(null); } }}
+            className="px-2 py-1 text-sm rounded border border-slate-200 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-brand-200"
+          />
+          <span className={`px-2 py-0.5 rounded-full text-[11px] font-medium ${STATUS_STYLES[status]}`}>
+            {loading ? '…' : PERIOD_STATUS_LABELS[status]}
+          </span>
+        </div>
+        {record?.lockedBy && status === 'locked' && (
+          <div className="text-[11px] text-slate-400">Locked by {record.lockedBy} · {new Date(record.lockedAt || '').toLocaleString('en-IN')}</div>
+        )}
+        <input
+          value={user}
+          onChange={(e) => setUser(e.target.value)}
+          placeholder="Your name"
+          className="w-full px-2 py-1 text-sm rounded border border-slate-200 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-brand-200"
+        />
+        {(reopening || status === 'under_review') && (
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={2}
+            placeholder={reopening ? 'Reason for reopening (required)' : 'Note (optional)'}
+            className="w-full px-2 py-1 text-sm rounded border border-slate-200 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-brand-200"
+          />
+        )}
+        <div className="flex flex-wrap gap-2">
+          {ACTIONS_BY_STATUS[status].map(({ action, label }) => (
+            <button
+              key={action}
+              onClick={() => run(action)}
+              disabled={busy || loading || (reopening && action === 'reopen' && !reason.trim())}
+              className="px-3 py-1 rounded-lg text-xs font-medium bg-brand-50 text-brand-700 border border-brand-200 disabled:opacity-40 hover:bg-brand-100"
+            >
+              {reopening && action === 'reopen' ? 'Confirm reopen' : label}
+            </button>
+          ))}
+          {reopening && (
+            <button onClick={() => { setReopening(false); setReason(''); }} className="px-3 py-1 rounded-lg text-xs text-slate-500 hover:text-slate-700">
+              Cancel
+            </button>
+          )}
+        </div>
+        {error && <div className="text-xs text-rose-600">{error}</div>}
+        {record && record.history.length > 0 && (
+          <div className="pt-2 border-t border-slate-100 space-y-1">
+            {[...record.history].reverse().slice(0, 5).map((ev) => (
+              <div key={ev.at} className="text-[11px] text-slate-500">
+                <span className="font-medium text-slate-600">{ev.by}</span> {ev.action} · {new Date(ev.at).toLocaleDateString('en-IN')}
+                {ev.reason && <span className="text-slate-400"> — {ev.reason}</span>}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </SectionCard>
+  );
+}
+
 function Row({ label, value, strong }: { label: string; value: string; strong?: boolean }) {
   return (
     <div className="flex items-center justify-between">
@@ -0,0 +1,142 @@
+import { Pill } from '../../components/ui/Card';
+import { formatIsoDate } from '../../data/compliance/dueDates';
+import type { ClosePlan, ClosePlanRow, TaskStatus } from '../../data/tasks/taskEngine';
+
+const STATUS_STYLE: Record<TaskStatus, { label: string; bar: string; color: 'emerald' | 'slate' | 'amber' | 'rose' | 'sky' }> = {
+  done: { label: 'Done', bar: 'bg-emerald-400', color: 'emerald' },
+  skipped: { label: 'Skipped', bar: 'bg-slate-300', color: 'slate' },
+  blocked: { label: 'Blocked', bar: 'bg-amber-400', color: 'amber' },
+  overdue: { label: 'Overdue', bar: 'bg-rose-500', color: 'rose' },
+  open: { label: 'Open', bar: 'bg-sky-400', color: 'sky' },
+};
+
+function dayOf(iso: string): number {
+  return Number(iso.slice(8, 10));
+}
+
+/** Month-close Gantt: one bar per task ending on its due date, dependencies above what waits on them. */
+export function CloseTimeline({ plan, today }: { plan: ClosePlan; today: string }) {
+  const [year, month] = plan.month.split('-').map(Number);
+  const days = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const sundays = Array.from({ length: days }, (_, i) => i + 1).filter(
+    (d) => new Date(Date.UTC(year, month - 1, d)).getUTCDay() === 0
+  );
+  const todayCol = today.slice(0, 7) === plan.month ? dayOf(today) : null;
+
+  if (plan.rows.length === 0) {
+    return (
+      <p className="text-xs text-slate-500">
+        No close tasks fall due this month. Tick “Part of the month-end close” on the tasks that make up the close.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-5">
+      {plan.holdingUp.length > 0 && <HoldingUp rows={plan.holdingUp} />}
+
+      <div className="overflow-x-auto">
+        <div className="min-w-[760px]">
+          <div className="flex text-[10px] text-slate-400 mb-1">
+            <div className="w-64 flex-shrink-0" />
+            <div className="flex-1 grid" style={{ gridTemplateColumns: `repeat(${days}, minmax(0, 1fr))` }}>
+              {Array.from({ length: days }, (_, i) => (
+                <div key={i} className={`text-center ${todayCol === i + 1 ? 'text-brand-600 font-semibold' : ''}`}>
+                  {i + 1}
+                </div>
+              ))}
+            </div>
+          </div>
+          <div className="divide-y divide-slate-100 border-y border-slate-100">
+            {plan.rows.map((row) => (
+              <TimelineRow key={row.task.id} row={row} days={days} sundays={sundays} todayCol={todayCol} />
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-3 mt-2 text-[11px] text-slate-500">
+            {(Object.keys(STATUS_STYLE) as TaskStatus[]).map((s) => (
+              <span key={s} className="flex items-center gap-1">
+                <span className={`inline-block w-3 h-2 rounded-sm ${STATUS_STYLE[s].bar}`} />
+                {STATUS_STYLE[s].label}
+              </span>
+            ))}
+            <span className="flex items-center gap-1">
+              <span className="inline-block w-3 h-2 rounded-sm bg-slate-100" />
+              Sunday
+            </span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function TimelineRow({
+  row,
+  days,
+  sundays,
+  todayCol,
+}: {
+  row: ClosePlanRow;
+  days: number;
+  sundays: number[];
+  todayCol: number | null;
+}) {
+  const style = STATUS_STYLE[row.status];
+  // A bar that starts last month is drawn from the 1st
+  const from = row.start.slice(0, 7) === row.due.slice(0, 7) ? dayOf(row.start) : 1;
+  const to = dayOf(row.due);
+  return (
+    <div className="flex items-center py-1.5">
+      <div className="w-64 flex-shrink-0 pr-3">
+        <div className="text-xs font-medium text-slate-900 truncate" title={row.task.title}>
+          {row.task.title}
+        </div>
+        <div className="text-[10px] text-slate-500 truncate">
+          {row.task.owner ?? 'No owner'} · due {formatIsoDate(row.due)}
+          {row.waitingOn.length > 0 && <span className="text-amber-700"> · waiting on {row.waitingOn.map((t) => t.title).join(', ')}</span>}
+          {row.startsTooEarly && <span className="text-rose-600"> · starts before a dependency is due</span>}
+        </div>
+      </div>
+      <div className="flex-1 relative h-6">
+        {sundays.map((d) => (
+          <div
+            key={d}
+            className="absolute inset-y-0 bg-slate-100"
+            style={{ left: `${((d - 1) / days) * 100}%`, width: `${100 / days}%` }}
+          />
+        ))}
+        {todayCol !== null && (
+          <div className="absolute inset-y-0 w-px bg-brand-500" style={{ left: `${((todayCol - 0.5) / days) * 100}%` }} />
+        )}
+        <div
+          className={`absolute top-1 bottom-1 rounded ${style.bar}`}
+          style={{ left: `${((from - 1) / days) * 100}%`, width: `${((to - from + 1) / days) * 100}%` }}
+          title={`${style.label}${row.daysLate > 0 && row.status !== 'done' && row.status !== 'skipped' ? ` · ${row.daysLate} days late` : ''}`}
+        />
+      </div>
+    </div>
+  );
+}
+
+/** The first open link of each stuck chain, and what's queued behind it. */
+function HoldingUp({ rows }: { rows: ClosePlanRow[] }) {
+  return (
+    <div className="rounded-lg border border-amber-200 bg-amber-50 p-3">
+      <h4 className="text-xs font-semibold text-amber-900 mb-2">Holding up the close</h4>
+      <ul className="space-y-1.5">
+        {rows.map((row) => (
+          <li key={row.task.id} className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="font-medium text-slate-900">{row.task.title}</span>
+            <Pill size="xs" color={STATUS_STYLE[row.status].color}>
+              {row.status === 'overdue' ? `${row.daysLate} day${row.daysLate === 1 ? '' : 's'} late` : `due ${formatIsoDate(row.due)}`}
+            </Pill>
+            {row.task.owner && <span className="text-slate-500">{row.task.owner}</span>}
+            <span className="text-amber-800">
+              blocks {row.holdingUp.length}: {row.holdingUp.map((t) => t.title).join(', ')}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import React, { useMemo, useState } from 'react';
+import { TASK_FREQUENCIES, TASK_FREQUENCY_LABELS, type TaskFrequency, type TaskInput, type UnifiedTask } from '../../types/tasks';
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const fieldCls =
+  'w-full px-3 py-2 bg-slate-100 border border-slate-300 rounded-lg text-slate-800 placeholder-slate-400 focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+interface TaskEditorProps {
+  task?: UnifiedTask | null;
+  tasks: UnifiedTask[];
+  onClose: () => void;
+  onSave: (task: TaskInput) => Promise<void>;
+}
+
+/** Add or edit a task: schedule, owner, steps, and what it waits on. */
+export function TaskEditor({ task, tasks, onClose, onSave }: TaskEditorProps) {
+  const [title, setTitle] = useState(task?.title || '');
+  const [description, setDescription] = useState(task?.description || '');
+  const [category, setCategory] = useState(task?.category || '');
+  const [owner, setOwner] = useState(task?.owner || '');
+  const [frequency, setFrequency] = useState<TaskFrequency>(task?.frequency || 'monthly');
+  const [dueDay, setDueDay] = useState(task?.dueDay?.toString() || '');
+  const [months, setMonths] = useState<number[]>(task?.months || []);
+  const [durationDays, setDurationDays] = useState(String(task?.durationDays ?? 1));
+  const [steps, setSteps] = useState((task?.steps || []).map((s) => s.title).join('\n'));
+  const [dependsOn, setDependsOn] = useState<string[]>(task?.dependsOn || []);
+  const [monthClose, setMonthClose] = useState(task?.monthClose ?? false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const candidates = useMemo(
+    () => tasks.filter((t) => t.id !== task?.id).sort((a, b) => a.title.localeCompare(b.title)),
+    [tasks, task]
+  );
+  const rare = frequency === 'quarterly' || frequency === 'half-yearly' || frequency === 'yearly';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+    // Keep step ids stable for steps whose text didn't change, so ticks survive an edit
+    const previous = new Map((task?.steps || []).map((s) => [s.title, s.id]));
+    let nextId = (task?.steps || []).reduce((max, s) => Math.max(max, Number(s.id.replace(/\D/g, '')) || 0), 0);
+    const stepList = steps
+      .split('\n')
+      .map((s) => s.trim())
+      .filter(Boolean)
+      .map((s) => {
+        const id = previous.get(s);
+        previous.delete(s);
+        return { id: id ?? `s${++nextId}`, title: s };
+      });
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave({
+        title: title.trim(),
+        description: description.trim() || undefined,
+        category: category.trim() || undefined,
+        owner: owner.trim() || undefined,
+        frequency,
+        dueDay: dueDay && frequency !== 'daily' && frequency !== 'adhoc' ? parseInt(dueDay) : undefined,
+        months: rare ? months : undefined,
+        durationDays: Math.max(1, parseInt(durationDays) || 1),
+        steps: stepList,
+        dependsOn,
+        monthClose,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Save failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-white/40 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto border border-slate-200">
+        <form onSubmit={handleSubmit}>
+          <div className="p-5 border-b border-slate-200">
+            <h2 className="text-lg font-semibold text-slate-900">{task ? 'Edit Task' : 'Add New Task'}</h2>
+          </div>
+
+          <div className="p-5 grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-slate-700 mb-1">Task Title *</label>
+              <input
+                type="text"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                className={fieldCls}
+                placeholder="e.g., Close books"
+                required
+              />
+            </div>
+
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-slate-700 mb-1">Description</label>
+              <textarea value={description} onChange={(e) => setDescription(e.target.value)} className={fieldCls} rows={2} />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Owner</label>
+              <input value={owner} onChange={(e) => setOwner(e.target.value)} className={fieldCls} placeholder="e.g., Accounts Manager" />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Category</label>
+              <input value={category} onChange={(e) => setCategory(e.target.value)} className={fieldCls} placeholder="e.g., Reporting" />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Frequency</label>
+              <select value={frequency} onChange={(e) => setFrequency(e.target.value as TaskFrequency)} className={fieldCls}>
+                {TASK_FREQUENCIES.map((f) => (
+                  <option key={f} value={f}>{TASK_FREQUENCY_LABELS[f]}</option>
+                ))}
+              </select>
+            </div>
+
+            {frequency === 'weekly' ? (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Due on</label>
+                <select value={dueDay} onChange={(e) => setDueDay(e.target.value)} className={fieldCls}>
+                  <option value="">Any day</option>
+                  {WEEKDAY_NAMES.map((d, i) => (
+                    <option key={d} value={i}>{d}</option>
+                  ))}
+                </select>
+              </div>
+            ) : frequency !== 'daily' && frequency !== 'adhoc' ? (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Due Day of Month</label>
+                <input
+                  type="number"
+                  value={dueDay}
+                  onChange={(e) => setDueDay(e.target.value)}
+                  className={fieldCls}
+                  placeholder="e.g., 5 (31 = last day)"
+                  min="1"
+                  max="31"
+                />
+              </div>
+            ) : (
+              <div />
+            )}
+
+            {rare && (
+              <div className="sm:col-span-2">
+                <label className="block text-sm font-medium text-slate-700 mb-1">Falls due in</label>
+                <div className="flex flex-wrap gap-1.5">
+                  {MONTH_NAMES.map((name, i) => {
+                    const m = i + 1;
+                    const on = months.includes(m);
+                    return (
+                      <button
+                        key={name}
+                        type="button"
+                        onClick={() => setMonths(on ? months.filter((x) => x !== m) : [...months, m].sort((a, b) => a - b))}
+                        className={`px-2 py-1 rounded text-xs border ${on ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-white border-slate-200 text-slate-500'}`}
+                      >
+                        {name}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Takes (days)</label>
+              <input
+                type="number"
+                value={durationDays}
+                onChange={(e) => setDurationDays(e.target.value)}
+                className={fieldCls}
+                min="1"
+                max="31"
+              />
+            </div>
+
+            <div className="flex items-center gap-3 pt-6">
+              <input
+                type="checkbox"
+                id="monthClose"
+                checked={monthClose}
+                onChange={(e) => setMonthClose(e.target.checked)}
+                className="h-4 w-4 text-blue-500 focus:ring-blue-500 bg-slate-100 border-slate-300 rounded"
+              />
+              <label htmlFor="monthClose" className="text-sm text-slate-600">Part of the month-end close</label>
+            </div>
+
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-slate-700 mb-1">Steps (one per line)</label>
+              <textarea value={steps} onChange={(e) => setSteps(e.target.value)} className={fieldCls} rows={4} />
+            </div>
+
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-slate-700 mb-1">Waits on</label>
+              <div className="max-h-40 overflow-y-auto rounded-lg border border-slate-200 divide-y divide-slate-100">
+                {candidates.length === 0 && <p className="px-3 py-2 text-xs text-slate-400">No other tasks yet.</p>}
+                {candidates.map((t) => (
+                  <label key={t.id} className="flex items-center gap-2 px-3 py-1.5 text-sm text-slate-700">
+                    <input
+                      type="checkbox"
+                      checked={dependsOn.includes(t.id)}
+                      onChange={(e) => setDependsOn(e.target.checked ? [...dependsOn, t.id] : dependsOn.filter((d) => d !== t.id))}
+                    />
+                    <span className="flex-1 truncate">{t.title}</span>
+                    <span className="text-[11px] text-slate-400">{TASK_FREQUENCY_LABELS[t.frequency]}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="p-5 border-t border-slate-200 flex items-center justify-end gap-3">
+            {error && <span className="text-xs text-rose-600 mr-auto">{error}</span>}
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 disabled:opacity-50 transition-colors"
+            >
+              {task ? 'Save Changes' : 'Add Task'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { Pill } from '../../components/ui/Card';
+import { importTasks, previewImport } from '../../data/tasks/useTasks';
+import { TASK_FREQUENCY_LABELS, TASK_SOURCE_LABELS, type ImportPreviewTask, type TaskSource, type TaskState } from '../../types/tasks';
+
+type LegacySource = Exclude<TaskSource, 'manual'>;
+
+const SOURCES: { source: LegacySource; description: string }[] = [
+  {
+    source: 'tracker',
+    description: 'The Task Tracker sheet and the ticks kept in this browser. Run it from each browser that ticked tasks.',
+  },
+  {
+    source: 'checklist',
+    description: 'The accounts checklist defaults, with their steps and responsible person.',
+  },
+  {
+    source: 'compliance',
+    description: 'Compliance calendar items. Ticks and evidence stay on the item — ticking the task ticks the item.',
+  },
+];
+
+function normalise(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/** Preview and bring over each legacy system's tasks; picks skip look-alikes of tasks already here. */
+export function TaskMigration({
+  state,
+  run,
+}: {
+  state: TaskState;
+  run: (action: () => Promise<void>, done: string) => Promise<void>;
+}) {
+  return (
+    <div className="space-y-4">
+      {SOURCES.map(({ source, description }) => (
+        <SourcePanel key={source} source={source} description={description} state={state} run={run} />
+      ))}
+    </div>
+  );
+}
+
+function SourcePanel({
+  source,
+  description,
+  state,
+  run,
+}: {
+  source: LegacySource;
+  description: string;
+  state: TaskState;
+  run: (action: () => Promise<void>, done: string) => Promise<void>;
+}) {
+  const [preview, setPreview] = useState<ImportPreviewTask[] | null>(null);
+  const [picked, setPicked] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const lastImport = [...state.imports].reverse().find((r) => r.source === source);
+
+  // Same title as a task from somewhere else — most likely the same work
+  const lookalike = (t: ImportPreviewTask) =>
+    Object.values(state.tasks).find((existing) => existing.id !== t.id && normalise(existing.title) === normalise(t.title));
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const tasks = await previewImport(source);
+      setPreview(tasks);
+      setPicked(new Set(tasks.filter((t) => !lookalike(t)).map((t) => t.sourceRef)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Preview failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = (ref: string) => {
+    const next = new Set(picked);
+    if (next.has(ref)) next.delete(ref);
+    else next.add(ref);
+    setPicked(next);
+  };
+
+  return (
+    <div className="rounded-lg border border-slate-200 p-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h4 className="text-sm font-semibold text-slate-900">{TASK_SOURCE_LABELS[source]}</h4>
+          <p className="text-xs text-slate-500 mt-0.5 max-w-2xl">{description}</p>
+          {lastImport && (
+            <p className="text-[11px] text-slate-400 mt-1">
+              Last brought over {lastImport.at.slice(0, 10)} by {lastImport.by}: {lastImport.created} new, {lastImport.updated} refreshed,{' '}
+              {lastImport.runs} ticks
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={load}
+            disabled={loading}
+            className="px-3 py-1.5 bg-white border border-slate-200 hover:bg-slate-50 disabled:opacity-50 text-slate-700 text-xs font-medium rounded-lg"
+          >
+            {loading ? 'Reading…' : preview ? 'Reload' : 'Preview'}
+          </button>
+          {preview && (
+            <button
+              disabled={picked.size === 0}
+              onClick={() =>
+                run(async () => {
+                  await importTasks(source, [...picked]);
+                  setPreview(null);
+                }, `${picked.size} ${TASK_SOURCE_LABELS[source]} task${picked.size === 1 ? '' : 's'} brought over.`)
+              }
+              className="px-3 py-1.5 bg-brand-500 hover:bg-brand-600 disabled:opacity-50 text-white text-xs font-medium rounded-lg"
+            >
+              Bring over {picked.size}
+            </button>
+          )}
+        </div>
+      </div>
+      {error && <p className="text-xs text-rose-600 mt-2">{error}</p>}
+      {preview && (
+        <ul className="mt-3 divide-y divide-slate-100 text-sm max-h-80 overflow-y-auto">
+          {preview.map((t) => {
+            const existing = state.tasks[t.id];
+            const twin = lookalike(t);
+            return (
+              <li key={t.sourceRef} className="py-1.5 flex items-center gap-3">
+                <input type="checkbox" checked={picked.has(t.sourceRef)} onChange={() => toggle(t.sourceRef)} />
+                <span className="text-slate-900 flex-1 truncate">{t.title}</span>
+                <span className="text-[11px] text-slate-400">{t.category}</span>
+                <Pill size="xs">{TASK_FREQUENCY_LABELS[t.frequency]}</Pill>
+                {existing && <Pill size="xs" color="sky">Already here — refreshes</Pill>}
+                {!existing && twin && (
+                  <Pill size="xs" color="amber">
+                    Looks like “{twin.title}”
+                  </Pill>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,369 @@
+import { useCallback, useMemo, useState } from 'react';
+import { PageHeader } from '../../components/ui/PageHeader';
+import { SectionCard, Pill } from '../../components/ui/Card';
+import { BANK_IDS, BANK_PROFILES, detectBank, parseBankStatement } from '../../utils/bankStatementParsers';
+import {
+  DEFAULT_MATCH_OPTIONS,
+  applyDecisions,
+  bookEntriesFromJournal,
+  buildBrs,
+  pairKey,
+  reconcile,
+} from '../../utils/bankReconciliation';
+import { downloadBrs } from '../../utils/brsExport';
+import { parseAndStoreJournalRegister, parseAndStoreTallyDayBook } from '../../utils/stateDataParsers';
+import { isTallyXmlFile } from '../../utils/tallyDayBookParser';
+import { getStateData } from '../../services/stateDataStore';
+import { STATE_NAMES, type StateName } from '../../types/stateData';
+import type {
+  BankId,
+  BankStatementLine,
+  BankStatementParseResult,
+  BookEntry,
+  ReconciliationPair,
+  ReconciliationResult,
+} from '../../types/bankReconciliation';
+
+const iconBank = (
+  <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10l9-6 9 6M5 10v8m4-8v8m6-8v8m4-8v8M3 20h18" />
+  </svg>
+);
+
+const fileInputCls =
+  'block w-full text-xs text-slate-500 file:mr-3 file:py-1.5 file:px-3 file:rounded-lg file:border-0 file:text-xs file:font-medium file:bg-slate-100 file:text-slate-700 hover:file:bg-slate-200 file:cursor-pointer cursor-pointer';
+const selectCls = 'w-full rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-sm text-slate-700';
+
+function rupees(n: number | null): string {
+  return n === null ? '—' : `₹${n.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function previousMonth(): string {
+  const d = new Date();
+  d.setDate(1);
+  d.setMonth(d.getMonth() - 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+}
+
+export function BankReconciliation() {
+  const [bank, setBank] = useState<BankId>('central');
+  const [statementFile, setStatementFile] = useState<File | null>(null);
+  const [month, setMonth] = useState(previousMonth);
+  const [state, setState] = useState<StateName>('UP');
+  const [journalFile, setJournalFile] = useState<File | null>(null);
+  const [windowDays, setWindowDays] = useState(DEFAULT_MATCH_OPTIONS.dateWindowDays);
+
+  const [statement, setStatement] = useState<BankStatementParseResult | null>(null);
+  const [result, setResult] = useState<ReconciliationResult | null>(null);
+  const [decisions, setDecisions] = useState<Record<string, 'accept' | 'reject'>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [processing, setProcessing] = useState(false);
+
+  const handleStatementFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] || null;
+    setStatementFile(file);
+    setResult(null);
+    if (!file) return;
+    try {
+      const detected = detectBank(await file.arrayBuffer(), file.name);
+      if (detected) setBank(detected);
+    } catch {
+      // Unreadable here means unreadable on Reconcile too; the error shows there.
+    }
+  }, []);
+
+  const handleReconcile = useCallback(async () => {
+    if (!statementFile) return;
+    setProcessing(true);
+    setError(null);
+    setResult(null);
+    setDecisions({});
+    try {
+      const parsed = parseBankStatement(await statementFile.arrayBuffer(), bank);
+      let journal = getStateData(month, state)?.journalRegister;
+      if (journalFile && isTallyXmlFile(journalFile)) {
+        // Day book receipts, payments and contras land in the journal register
+        await parseAndStoreTallyDayBook(journalFile, state, month);
+        journal = getStateData(month, state)?.journalRegister;
+      } else if (journalFile) {
+        journal = await parseAndStoreJournalRegister(journalFile, month, state);
+      }
+      if (!journal) {
+        throw new Error(`No journal register for ${state} · ${month}. Upload the Tally journal register or day book export.`);
+      }
+      const entries = bookEntriesFromJournal(journal.entries, bank);
+      setStatement(parsed);
+      setResult(reconcile(parsed.lines, entries, { ...DEFAULT_MATCH_OPTIONS, dateWindowDays: windowDays }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setProcessing(false);
+    }
+  }, [statementFile, journalFile, bank, month, state, windowDays]);
+
+  const reviewed = useMemo(() => (result ? applyDecisions(result, decisions) : null), [result, decisions]);
+  const brs = useMemo(
+    () => (reviewed && statement ? buildBrs(statement.bank, reviewed, statement.toDate, statement.closingBalance) : null),
+    [reviewed, statement]
+  );
+
+  const decide = (pair: ReconciliationPair, decision: 'accept' | 'reject') =>
+    setDecisions((d) => ({ ...d, [pairKey(pair)]: decision }));
+
+  return (
+    <>
+      <PageHeader
+        title="Bank Reconciliation"
+        description="Match a bank statement against the bank entries in the Tally journal register, review the suggestions and download the BRS."
+        accent="sky"
+        icon={iconBank}
+      />
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 py-8 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="rounded-xl border border-slate-200 bg-white p-5 space-y-3">
+            <h3 className="text-sm font-semibold text-slate-900">1 · Bank statement</h3>
+            <input type="file" accept=".csv,.xlsx,.xls" onChange={handleStatementFile} className={fileInputCls} />
+            <label className="block text-xs text-slate-500">
+              Bank
+              <select value={bank} onChange={(e) => setBank(e.target.value as BankId)} className={`${selectCls} mt-1`}>
+                {BANK_IDS.map((id) => (
+                  <option key={id} value={id}>{BANK_PROFILES[id].label}</option>
+                ))}
+              </select>
+            </label>
+            <p className="text-[11px] text-slate-500">
+              CSV or Excel as downloaded from the bank portal (Easebuzz: the daily payout CSV). The bank is picked from the
+              file's headers when it can be; check it before reconciling.
+            </p>
+          </div>
+
+          <div className="rounded-xl border border-slate-200 bg-white p-5 space-y-3">
+            <h3 className="text-sm font-semibold text-slate-900">2 · Tally journal register</h3>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block text-xs text-slate-500">
+                Month
+                <input type="month" value={month} onChange={(e) => setMonth(e.target.value)} className={`${selectCls} mt-1`} />
+              </label>
+              <label className="block text-xs text-slate-500">
+                State
+                <select value={state} onChange={(e) => setState(e.target.value as StateName)} className={`${selectCls} mt-1`}>
+                  {STATE_NAMES.map((s) => (
+                    <option key={s} value={s}>{s}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <input type="file" accept=".xlsx,.xls,.csv,.xml" onChange={(e) => setJournalFile(e.target.files?.[0] || null)} className={fileInputCls} />
+            <p className="text-[11px] text-slate-500">
+              {getStateData(month, state)?.journalRegister && !journalFile
+                ? `Using the journal register already loaded for ${state} · ${month}. Upload a file to replace it.`
+                : 'Journal register export from Tally (Date, Particulars, Debit, Credit), or the Day Book XML export. Entries on the bank ledger are the ones matched.'}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <label className="block text-xs text-slate-500">
+            Date window (days)
+            <input
+              type="number"
+              min={0}
+              max={15}
+              value={windowDays}
+              onChange={(e) => setWindowDays(Math.max(0, Number(e.target.value) || 0))}
+              className={`${selectCls} mt-1 w-24`}
+            />
+          </label>
+          <button
+            onClick={handleReconcile}
+            disabled={!statementFile || processing}
+            className="px-5 py-2.5 bg-sky-600 hover:bg-sky-700 disabled:bg-slate-200 disabled:text-slate-400 text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            {processing ? 'Reconciling…' : 'Reconcile'}
+          </button>
+        </div>
+
+        {error && <div className="rounded-lg border border-rose-200 bg-rose-50 p-4 text-sm text-rose-700">{error}</div>}
+
+        {statement && statement.warnings.length > 0 && (
+          <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800 space-y-0.5">
+            {statement.warnings.map((w) => <p key={w}>{w}</p>)}
+          </div>
+        )}
+
+        {reviewed && statement && brs && (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+              <SummaryCard label="Statement lines" value={statement.lines.length} color="slate" />
+              <SummaryCard label="Matched" value={reviewed.matched.length} color="emerald" />
+              <SummaryCard label="To review" value={reviewed.suggested.length} color="amber" />
+              <SummaryCard label="Unmatched — bank" value={reviewed.unmatchedLines.length} color="rose" />
+              <SummaryCard label="Unmatched — books" value={reviewed.unmatchedEntries.length} color="rose" />
+            </div>
+
+            {reviewed.suggested.length > 0 && (
+              <SectionCard
+                title="Suggested pairs"
+                description="Same amount within the date window, but either the score is low or another pairing came close. Accept or reject each."
+              >
+                <PairTable
+                  pairs={reviewed.suggested}
+                  actions={(p) => (
+                    <div className="flex gap-1.5 justify-end">
+                      <button onClick={() => decide(p, 'accept')} className="px-2 py-1 text-[11px] rounded bg-emerald-50 text-emerald-700 hover:bg-emerald-100">Accept</button>
+                      <button onClick={() => decide(p, 'reject')} className="px-2 py-1 text-[11px] rounded bg-slate-100 text-slate-600 hover:bg-slate-200">Reject</button>
+                    </div>
+                  )}
+                />
+              </SectionCard>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <SectionCard title="In the bank, not in the books" description="Charges, interest, auto-debits and receipts still to be booked in Tally.">
+                <LineTable lines={reviewed.unmatchedLines} />
+              </SectionCard>
+              <SectionCard title="In the books, not in the bank" description="Cheques not yet presented, deposits not yet credited — or entries booked to the wrong bank.">
+                <EntryTable entries={reviewed.unmatchedEntries} />
+              </SectionCard>
+            </div>
+
+            <SectionCard
+              title="Bank Reconciliation Statement"
+              description={`${BANK_PROFILES[statement.bank].ledger} · as at ${brs.asOf ?? '—'}. Pairs still under review count as unmatched.`}
+              actions={
+                <button
+                  onClick={() => downloadBrs(brs, reviewed)}
+                  className="px-4 py-1.5 bg-emerald-500 hover:bg-emerald-600 text-white text-xs font-medium rounded-lg transition-colors"
+                >
+                  Download BRS
+                </button>
+              }
+            >
+              <table className="w-full text-sm max-w-xl">
+                <tbody>
+                  <BrsRow label="Balance as per bank statement" value={brs.balancePerBank} bold />
+                  <BrsRow label="+ Deposits not yet credited" value={sumOf(brs.depositsNotCredited.map((e) => e.amount))} />
+                  <BrsRow label="+ Bank debits not yet booked" value={sumOf(brs.bankDebitsNotInBooks.map((l) => l.debit))} />
+                  <BrsRow label="− Payments not yet presented" value={sumOf(brs.paymentsNotPresented.map((e) => e.amount))} />
+                  <BrsRow label="− Bank credits not yet booked" value={sumOf(brs.bankCreditsNotInBooks.map((l) => l.credit))} />
+                  <BrsRow label="Balance as per books" value={brs.balancePerBooks} bold />
+                </tbody>
+              </table>
+              {brs.balancePerBank === null && (
+                <p className="mt-2 text-[11px] text-slate-500">This export has no running balance, so only the reconciling items are listed.</p>
+              )}
+            </SectionCard>
+
+            {reviewed.matched.length > 0 && (
+              <SectionCard title={`Matched (${reviewed.matched.length})`}>
+                <PairTable pairs={reviewed.matched} />
+              </SectionCard>
+            )}
+          </>
+        )}
+      </div>
+    </>
+  );
+}
+
+function sumOf(xs: number[]): number {
+  return xs.reduce((s, x) => s + x, 0);
+}
+
+function BrsRow({ label, value, bold }: { label: string; value: number | null; bold?: boolean }) {
+  return (
+    <tr className={`border-b border-slate-50 ${bold ? 'font-semibold text-slate-900' : 'text-slate-600'}`}>
+      <td className="py-1.5 pr-4">{label}</td>
+      <td className="py-1.5 text-right tabular-nums">{rupees(value)}</td>
+    </tr>
+  );
+}
+
+function PairTable({ pairs, actions }: { pairs: ReconciliationPair[]; actions?: (p: ReconciliationPair) => React.ReactNode }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead className="bg-slate-50 text-slate-500 uppercase text-[10px] tracking-wider">
+          <tr>
+            <th className="text-left px-3 py-2 font-medium">Statement</th>
+            <th className="text-left px-3 py-2 font-medium">Books</th>
+            <th className="text-right px-3 py-2 font-medium">Amount</th>
+            <th className="text-left px-3 py-2 font-medium">Why</th>
+            {actions && <th className="px-3 py-2" />}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {pairs.map((p) => (
+            <tr key={pairKey(p)} className="hover:bg-slate-50 align-top">
+              <td className="px-3 py-2 text-slate-700">
+                <div className="font-mono text-[11px] text-slate-400">{p.line.date}</div>
+                <div className="max-w-xs truncate" title={p.line.narration}>{p.line.narration}</div>
+              </td>
+              <td className="px-3 py-2 text-slate-700">
+                <div className="font-mono text-[11px] text-slate-400">{p.entry.date}</div>
+                <div className="max-w-xs truncate" title={p.entry.counterParty}>{p.entry.counterParty}</div>
+              </td>
+              <td className="px-3 py-2 text-right tabular-nums text-slate-900">
+                {rupees(p.line.debit || p.line.credit)}
+                <div className="text-[10px] text-slate-400">{p.line.credit > 0 ? 'Receipt' : 'Payment'}</div>
+              </td>
+              <td className="px-3 py-2 text-slate-500">
+                <Pill size="xs" color={p.score >= 80 ? 'emerald' : 'amber'}>{p.score}</Pill>{' '}
+                {p.reasons.join(' · ')}
+              </td>
+              {actions && <td className="px-3 py-2">{actions(p)}</td>}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function LineTable({ lines }: { lines: BankStatementLine[] }) {
+  if (lines.length === 0) return <p className="text-xs text-slate-400">Nothing outstanding.</p>;
+  return (
+    <table className="w-full text-xs">
+      <tbody className="divide-y divide-slate-100">
+        {lines.map((l) => (
+          <tr key={l.id}>
+            <td className="py-1.5 pr-3 font-mono text-[11px] text-slate-400 whitespace-nowrap">{l.date}</td>
+            <td className="py-1.5 pr-3 text-slate-700 max-w-xs truncate" title={l.narration}>{l.narration}</td>
+            <td className={`py-1.5 text-right tabular-nums whitespace-nowrap ${l.debit > 0 ? 'text-rose-600' : 'text-emerald-600'}`}>
+              {l.debit > 0 ? `− ${rupees(l.debit)}` : `+ ${rupees(l.credit)}`}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function EntryTable({ entries }: { entries: BookEntry[] }) {
+  if (entries.length === 0) return <p className="text-xs text-slate-400">Nothing outstanding.</p>;
+  return (
+    <table className="w-full text-xs">
+      <tbody className="divide-y divide-slate-100">
+        {entries.map((e) => (
+          <tr key={e.id}>
+            <td className="py-1.5 pr-3 font-mono text-[11px] text-slate-400 whitespace-nowrap">{e.date}</td>
+            <td className="py-1.5 pr-3 text-slate-700 max-w-xs truncate" title={e.counterParty}>{e.counterParty}</td>
+            <td className={`py-1.5 text-right tabular-nums whitespace-nowrap ${e.direction === 'payment' ? 'text-rose-600' : 'text-emerald-600'}`}>
+              {e.direction === 'payment' ? `− ${rupees(e.amount)}` : `+ ${rupees(e.amount)}`}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function SummaryCard({ label, value, color }: { label: string; value: number; color: 'emerald' | 'amber' | 'rose' | 'slate' }) {
+  const m: Record<string, string> = { emerald: 'text-emerald-600', amber: 'text-amber-600', rose: 'text-rose-600', slate: 'text-slate-700' };
+  return (
+    <div className="rounded-lg bg-white border border-slate-200 p-3">
+      <p className="text-[11px] text-slate-500 mb-0.5">{label}</p>
+      <p className={`text-lg font-semibold ${m[color]}`}>{value}</p>
+    </div>
+  );
+}
@@ -3,33 +3,12 @@ import { PageHeader } from '../../components/ui/PageHeader';
 import { useTallyMaster } from '../../data/tally/useTallyMaster';
 import type { TallyMaster } from '../../data/tally/useTallyMaster';
 import { buildTallyXml } from '../../data/tally/buildTallyXml';
-import type { ExportSummary } from '../../data/tally/buildTallyXml';
+import type { ExportSummary, VoucherPreview } from '../../data/tally/buildTallyXml';
+import { renameMaster } from '../../data/tally/masterValidation';
+import type { MasterKind } from '../../data/tally/masterValidation';
 import { MasterPanel } from './MasterPanel';
-
-// Bumped from v4 → v5 because the saved scenario shape changed
-// (`expenseType` was replaced by a 3-way `category`, and `paymentTiming` /
-// `paidFrom` were dropped). Old queues get discarded automatically.
-const QUEUE_LS_KEY = 'heatronics.expense-booking.queue.v5';
-
-function readPersistedQueue(): QueueItem[] {
-  try {
-    const raw = localStorage.getItem(QUEUE_LS_KEY);
-    if (!raw) return [];
-    const parsed = JSON.parse(raw);
-    if (!Array.isArray(parsed)) return [];
-    return parsed as QueueItem[];
-  } catch {
-    return [];
-  }
-}
-
-function persistQueue(q: QueueItem[]) {
-  try {
-    localStorage.setItem(QUEUE_LS_KEY, JSON.stringify(q));
-  } catch {
-    // Quota exceeded — queue still works in memory until refresh.
-  }
-}
+import { MasterGapsPanel } from './MasterGapsPanel';
+import { persistQueue, readPersistedQueue } from '../../data/tally/expenseQueue';
 
 type VendorOrigin = 'Indian' | 'Foreign';
 type YesNoRcm = 'Yes' | 'No' | 'RCM';
@@ -55,6 +34,8 @@ interface BookingStage {
   costCentre?: string | null;
   lines: BookingLine[];
   notes?: string | null;
+  date?: string | null;
+  recurrence?: { frequency: 'monthly'; count: number; startDate?: string | null } | null;
 }
 
 interface ExpenseAdvice {
@@ -151,7 +132,7 @@ export function ExpenseBooking() {
   const [advice, setAdvice] = useState<ExpenseAdvice | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  const [queue, setQueue] = useState<QueueItem[]>(() => readPersistedQueue());
+  const [queue, setQueue] = useState<QueueItem[]>(() => readPersistedQueue<QueueItem>());
 
   useEffect(() => {
     persistQueue(queue);
@@ -401,6 +382,9 @@ export function ExpenseBooking() {
             master={master}
             onRemove={removeFromQueue}
             onClearAll={() => setQueue([])}
+            onRenameMaster={(kind, from, to) =>
+              setQueue((prev) => prev.map((q) => renameMaster(q, kind, from, to)))
+            }
           />
         )}
 
@@ -864,11 +848,13 @@ function QueueCard({
   master,
   onRemove,
   onClearAll,
+  onRenameMaster,
 }: {
   queue: QueueItem[];
   master: TallyMaster | null;
   onRemove: (id: string) => void;
   onClearAll: () => void;
+  onRenameMaster: (kind: MasterKind, from: string, to: string) => void;
 }) {
   const [openId, setOpenId] = useState<string | null>(null);
   const [confirmClear, setConfirmClear] = useState(false);
@@ -976,29 +962,45 @@ function QueueCard({
           );
         })}
       </ul>
-      {master && <ExportFooter queue={queue} master={master} />}
+      {master && <ExportFooter queue={queue} master={master} onRenameMaster={onRenameMaster} />}
     </div>
   );
 }
 
 // --------------------------------------------------------------------------
-// Export footer — generates the Tally Prime XML and offers it as a download,
-// alongside the import-instructions card.
+// Export footer — checks the queue against the master, generates the Tally
+// Prime XML and offers it as a download, alongside the import-instructions
+// card.
 // --------------------------------------------------------------------------
 
-function ExportFooter({ queue, master }: { queue: QueueItem[]; master: TallyMaster }) {
-  const [summary, setSummary] = useState<ExportSummary | null>(null);
+function ExportFooter({
+  queue,
+  master,
+  onRenameMaster,
+}: {
+  queue: QueueItem[];
+  master: TallyMaster;
+  onRenameMaster: (kind: MasterKind, from: string, to: string) => void;
+}) {
+  // The preview is tied to the queue it was built from; editing the queue
+  // drops it, so what gets downloaded is always what was last previewed.
+  const [preview, setPreview] = useState<{ queue: QueueItem[]; summary: ExportSummary } | null>(
+    null
+  );
+  const summary = preview?.queue === queue ? preview.summary : null;
 
-  function generateAndDownload() {
+  function buildPreview() {
     const result = buildTallyXml(
       queue.map((q) => ({ id: q.id, answers: q.answers, advice: q.advice })),
       master,
       { companyName: master.company || 'Heatronics', defaultCostCentre: 'HO' }
     );
-    setSummary(result);
-    if (result.vouchersExported === 0) return;
+    setPreview({ queue, summary: result });
+  }
 
-    const blob = new Blob([result.xml], { type: 'application/xml' });
+  function download() {
+    if (!summary || summary.vouchersExported === 0) return;
+    const blob = new Blob([summary.xml], { type: 'application/xml' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     const today = new Date().toISOString().slice(0, 10);
@@ -1010,29 +1012,23 @@ function ExportFooter({ queue, master }: { queue: QueueItem[]; master: TallyMast
     URL.revokeObjectURL(url);
   }
 
-  function previewOnly() {
-    const result = buildTallyXml(
-      queue.map((q) => ({ id: q.id, answers: q.answers, advice: q.advice })),
-      master,
-      { companyName: master.company || 'Heatronics', defaultCostCentre: 'HO' }
-    );
-    setSummary(result);
-  }
-
   return (
     <div className="border-t border-slate-100 p-4 sm:p-5 space-y-3 bg-slate-50/50">
+      <MasterGapsPanel queue={queue} master={master} onRename={onRenameMaster} />
       <div className="grid grid-cols-2 gap-2">
         <button
           type="button"
-          onClick={previewOnly}
+          onClick={buildPreview}
           className="rounded-lg bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 font-medium py-2 text-sm"
         >
-          Preview export
+          {summary ? 'Refresh preview' : 'Preview export'}
         </button>
         <button
           type="button"
-          onClick={generateAndDownload}
-          className="rounded-lg bg-emerald-600 hover:bg-emerald-700 text-white font-medium py-2 text-sm"
+          onClick={download}
+          disabled={!summary || summary.vouchersExported === 0}
+          title={summary ? undefined : 'Preview the vouchers first'}
+          className="rounded-lg bg-emerald-600 hover:bg-emerald-700 disabled:bg-slate-300 disabled:cursor-not-allowed text-white font-medium py-2 text-sm"
         >
           Download Tally XML
         </button>
@@ -1046,7 +1042,6 @@ function ExportFooter({ queue, master }: { queue: QueueItem[]; master: TallyMast
 
 function ExportSummaryView({ summary }: { summary: ExportSummary }) {
   const hasErrors = summary.itemsSkipped.length > 0;
-  const hasSkippedStages = summary.stagesSkipped.length > 0;
   const hasWarnings = summary.warnings.length > 0;
   return (
     <div className="space-y-2 text-xs">
@@ -1080,24 +1075,7 @@ function ExportSummaryView({ summary }: { summary: ExportSummary }) {
           </ul>
         </details>
       )}
-      {hasSkippedStages && (
-        <details className="rounded-lg border border-amber-200 bg-amber-50">
-          <summary className="px-3 py-1.5 cursor-pointer text-amber-900 font-medium">
-            Manual stages flagged ({summary.stagesSkipped.length})
-          </summary>
-          <p className="px-3 py-2 text-amber-900">
-            Subsequent stages (typically prepaid amortisation Journals) are out
-            of scope for this export and need to be booked manually:
-          </p>
-          <ul className="px-3 pb-2 space-y-0.5 text-amber-900 list-disc list-inside">
-            {summary.stagesSkipped.map((s, i) => (
-              <li key={i}>
-                Item {s.itemId}: stage {s.step} ({s.voucherType})
-              </li>
-            ))}
-          </ul>
-        </details>
-      )}
+      {summary.vouchers.length > 0 && <VoucherPreviewTable vouchers={summary.vouchers} />}
       {hasWarnings && (
         <details className="rounded-lg border border-amber-200 bg-amber-50">
           <summary className="px-3 py-1.5 cursor-pointer text-amber-900 font-medium">
@@ -1114,6 +1092,54 @@ function ExportSummaryView({ summary }: { summary: ExportSummary }) {
   );
 }
 
+// Every voucher the XML will create, in file order, so recurring schedules
+// and later-stage journals can be checked before download.
+function VoucherPreviewTable({ vouchers }: { vouchers: VoucherPreview[] }) {
+  return (
+    <div className="rounded-lg border border-slate-200 bg-white overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead className="bg-slate-50 text-slate-500 uppercase tracking-wider text-[10px] border-b border-slate-100">
+          <tr>
+            <th className="text-left px-3 py-2 w-24">Date</th>
+            <th className="text-left px-3 py-2">Voucher</th>
+            <th className="text-left px-3 py-2">Lines</th>
+            <th className="text-left px-3 py-2 w-28">Bill ref</th>
+            <th className="text-right px-3 py-2 w-28">Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          {vouchers.map((v, i) => (
+            <tr key={i} className="border-t border-slate-100 align-top">
+              <td className="px-3 py-2 tabular-nums text-slate-700">{v.date}</td>
+              <td className="px-3 py-2">
+                <div className="font-medium text-slate-900">{v.voucherType}</div>
+                <div className="text-[10px] text-slate-500">{v.narration}</div>
+              </td>
+              <td className="px-3 py-2 text-slate-700">
+                {v.lines.map((l, j) => (
+                  <div key={j}>
+                    <span className="font-semibold">{l.dr_or_cr}</span> {l.ledger}{' '}
+                    <span className="tabular-nums text-slate-500">
+                      {l.amount.toLocaleString('en-IN')}
+                    </span>
+                    {l.billType && (
+                      <span className="ml-1 text-[10px] text-slate-500">({l.billType})</span>
+                    )}
+                  </div>
+                ))}
+              </td>
+              <td className="px-3 py-2 text-slate-700">{v.billRef}</td>
+              <td className="px-3 py-2 text-right tabular-nums text-slate-900">
+                {v.total.toLocaleString('en-IN')}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
 function ImportInstructions() {
   return (
     <details className="rounded-lg border border-slate-200 bg-white">
@@ -1227,6 +1253,11 @@ function StageCard({ stage }: { stage: BookingStage }) {
                 {stage.costCentre}
               </span>
             )}
+            {stage.recurrence && (
+              <span className="text-[10px] uppercase tracking-wider font-medium px-1.5 py-0.5 rounded bg-slate-100 text-slate-600">
+                Monthly × {stage.recurrence.count}
+              </span>
+            )}
           </div>
           <div className="text-sm font-semibold text-slate-900 mt-1">{stage.title}</div>
           <div className="text-xs text-slate-600 mt-0.5">{stage.when}</div>
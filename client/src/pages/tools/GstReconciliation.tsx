@@ -0,0 +1,440 @@
+import { useCallback, useMemo, useState } from 'react';
+import { PageHeader } from '../../components/ui/PageHeader';
+import { SectionCard, Pill } from '../../components/ui/Card';
+import { parseGstReturn } from '../../utils/gstReturnParsers';
+import { reconcileGstReturn } from '../../utils/gstReconciliation';
+import {
+  parseAndStorePurchaseRegister,
+  parseAndStoreSalesRegister,
+  parseAndStoreTallyDayBook,
+} from '../../utils/stateDataParsers';
+import { isTallyXmlFile } from '../../utils/tallyDayBookParser';
+import { getStateData } from '../../services/stateDataStore';
+import { findSummary, useGstRecon } from '../../data/gstRecon/useGstRecon';
+import { getCurrentUser, setCurrentUser } from '../../data/currentUser';
+import { STATE_NAMES, type StateName } from '../../types/stateData';
+import {
+  GST_RETURN_LABELS,
+  STATE_GST_CODES,
+  type GstMatchStatus,
+  type GstReconLine,
+  type GstReconResult,
+  type GstReturnType,
+  type GstTaxSplit,
+  type ParsedGstReturn,
+} from '../../types/gstRecon';
+
+const iconGst = (
+  <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 14l6-6m-5.5.5h.01m4.99 5h.01M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16l3.5-2 3.5 2 3.5-2 3.5 2z" />
+  </svg>
+);
+
+const fileInputCls =
+  'block w-full text-xs text-slate-500 file:mr-3 file:py-1.5 file:px-3 file:rounded-lg file:border-0 file:text-xs file:font-medium file:bg-slate-100 file:text-slate-700 hover:file:bg-slate-200 file:cursor-pointer cursor-pointer';
+const selectCls = 'w-full rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-sm text-slate-700';
+
+const STATUS_PILL: Record<GstMatchStatus, { label: string; color: 'emerald' | 'amber' | 'rose' | 'sky' }> = {
+  matched: { label: 'Matched', color: 'emerald' },
+  mismatch: { label: 'Value mismatch', color: 'amber' },
+  'missing-in-books': { label: 'Missing in books', color: 'sky' },
+  'missing-in-portal': { label: 'Missing in portal', color: 'rose' },
+};
+
+function rupees(n: number | null): string {
+  return n === null ? '—' : `₹${n.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function taxOf(s: GstTaxSplit): number {
+  return s.igst + s.cgst + s.sgst + s.cess;
+}
+
+function previousMonth(): string {
+  const d = new Date();
+  d.setDate(1);
+  d.setMonth(d.getMonth() - 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+}
+
+export function GstReconciliation() {
+  const [returnType, setReturnType] = useState<GstReturnType>('GSTR2B');
+  const [returnFile, setReturnFile] = useState<File | null>(null);
+  const [month, setMonth] = useState(previousMonth);
+  const [state, setState] = useState<StateName>('UP');
+  const [registerFile, setRegisterFile] = useState<File | null>(null);
+  const [gstinInput, setGstinInput] = useState('');
+  const [user, setUser] = useState(getCurrentUser());
+
+  const [parsed, setParsed] = useState<ParsedGstReturn | null>(null);
+  const [result, setResult] = useState<GstReconResult | null>(null);
+  const [filter, setFilter] = useState<GstMatchStatus | 'open'>('open');
+  const [error, setError] = useState<string | null>(null);
+  const [saveStatus, setSaveStatus] = useState<{ tone: 'ok' | 'error'; text: string } | null>(null);
+  const [processing, setProcessing] = useState(false);
+
+  const { gstRecon, save } = useGstRecon();
+
+  const registerLabel = returnType === 'GSTR1' ? 'sales register' : 'purchase register';
+  const loadedRegister = (() => {
+    const data = getStateData(month, state);
+    return returnType === 'GSTR1' ? data?.salesRegister : data?.purchaseRegister;
+  })();
+
+  const handleReconcile = useCallback(async () => {
+    if (!returnFile) return;
+    setProcessing(true);
+    setError(null);
+    setResult(null);
+    setSaveStatus(null);
+    try {
+      const ret = parseGstReturn(await returnFile.arrayBuffer(), returnFile.name, returnType, STATE_GST_CODES[state]);
+      if (ret.gstin && ret.gstin.slice(0, 2) !== STATE_GST_CODES[state]) {
+        throw new Error(`${ret.gstin} is not a ${state} GSTIN (state code ${STATE_GST_CODES[state]}). Pick the state the return was filed for.`);
+      }
+      if (ret.period && ret.period !== month) {
+        ret.warnings.push(`The return is for ${ret.period}; reconciling against the ${state} · ${month} ${registerLabel}.`);
+      }
+
+      if (registerFile && isTallyXmlFile(registerFile)) {
+        // Day book sales and purchase vouchers carry the invoice number and party GSTIN
+        await parseAndStoreTallyDayBook(registerFile, state, month);
+      } else if (registerFile && returnType === 'GSTR1') {
+        await parseAndStoreSalesRegister(registerFile, month, state);
+      } else if (registerFile) {
+        await parseAndStorePurchaseRegister(registerFile, month, state);
+      }
+      const data = getStateData(month, state);
+      const register = returnType === 'GSTR1' ? data?.salesRegister : data?.purchaseRegister;
+      if (!register) {
+        throw new Error(`No ${registerLabel} for ${state} · ${month}. Upload the Tally ${registerLabel} or day book export.`);
+      }
+
+      setParsed(ret);
+      setResult(reconcileGstReturn(ret, register.entries));
+      if (ret.gstin) setGstinInput(ret.gstin);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setProcessing(false);
+    }
+  }, [returnFile, registerFile, returnType, month, state, registerLabel]);
+
+  const gstin = (parsed?.gstin || gstinInput).trim().toUpperCase();
+  const period = parsed?.period || month;
+  const previous = gstin ? findSummary(gstRecon, gstin, period, returnType) : undefined;
+
+  const handleSave = useCallback(async () => {
+    if (!result || !returnFile) return;
+    if (!user.trim()) return setSaveStatus({ tone: 'error', text: 'Enter your name before saving.' });
+    if (!/^\d{2}[A-Z0-9]{13}$/.test(gstin)) return setSaveStatus({ tone: 'error', text: 'Enter the 15-character GSTIN this return was filed under.' });
+    if (gstin.slice(0, 2) !== STATE_GST_CODES[state]) {
+      return setSaveStatus({ tone: 'error', text: `${gstin} is not a ${state} GSTIN.` });
+    }
+    try {
+      setCurrentUser(user);
+      await save(
+        {
+          gstin,
+          state,
+          period,
+          returnType: result.returnType,
+          counts: result.counts,
+          bookTax: result.bookTax,
+          portalTax: result.portalTax,
+          itcAtRisk: result.itcAtRisk,
+          suppliers: result.suppliers,
+          source: returnFile.name,
+        },
+        user.trim()
+      );
+      setSaveStatus({ tone: 'ok', text: `Saved for ${gstin} · ${period}. The Accounts compliance page now shows this result.` });
+    } catch (err) {
+      setSaveStatus({ tone: 'error', text: err instanceof Error ? err.message : 'Save failed' });
+    }
+  }, [result, returnFile, user, gstin, state, period, save]);
+
+  const visibleLines = useMemo(() => {
+    if (!result) return [];
+    return result.lines.filter((l) => (filter === 'open' ? l.status !== 'matched' : l.status === filter));
+  }, [result, filter]);
+
+  return (
+    <>
+      <PageHeader
+        title="GST Return Reconciliation"
+        description="Match GSTR-1 against the sales register and GSTR-2B against the purchase register, invoice by invoice, with the ITC at risk per supplier."
+        accent="violet"
+        icon={iconGst}
+      />
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 py-8 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="rounded-xl border border-slate-200 bg-white p-5 space-y-3">
+            <h3 className="text-sm font-semibold text-slate-900">1 · GST portal download</h3>
+            <label className="block text-xs text-slate-500">
+              Return
+              <select
+                value={returnType}
+                onChange={(e) => {
+                  setReturnType(e.target.value as GstReturnType);
+                  setResult(null);
+                }}
+                className={`${selectCls} mt-1`}
+              >
+                {(Object.keys(GST_RETURN_LABELS) as GstReturnType[]).map((t) => (
+                  <option key={t} value={t}>{GST_RETURN_LABELS[t]}</option>
+                ))}
+              </select>
+            </label>
+            <input
+              type="file"
+              accept=".json,.xlsx,.xls"
+              onChange={(e) => {
+                setReturnFile(e.target.files?.[0] || null);
+                setResult(null);
+              }}
+              className={fileInputCls}
+            />
+            <p className="text-[11px] text-slate-500">
+              The JSON or Excel download from the GST portal for one GSTIN and month — GSTR-1 as filed, or GSTR-2B as
+              generated. B2B invoices and credit/debit notes are matched; B2C supplies are compared in total.
+            </p>
+          </div>
+
+          <div className="rounded-xl border border-slate-200 bg-white p-5 space-y-3">
+            <h3 className="text-sm font-semibold text-slate-900">2 · Tally {registerLabel}</h3>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block text-xs text-slate-500">
+                Month
+                <input type="month" value={month} onChange={(e) => setMonth(e.target.value)} className={`${selectCls} mt-1`} />
+              </label>
+              <label className="block text-xs text-slate-500">
+                State
+                <select value={state} onChange={(e) => setState(e.target.value as StateName)} className={`${selectCls} mt-1`}>
+                  {STATE_NAMES.map((s) => (
+                    <option key={s} value={s}>{s} ({STATE_GST_CODES[s]})</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <input type="file" accept=".xlsx,.xls,.xml" onChange={(e) => setRegisterFile(e.target.files?.[0] || null)} className={fileInputCls} />
+            <p className="text-[11px] text-slate-500">
+              {loadedRegister && !registerFile
+                ? `Using the ${registerLabel} already loaded for ${state} · ${month}. Upload a file to replace it.`
+                : `The ${registerLabel} export from Tally with its Voucher/Invoice No and GSTIN columns, or the Day Book XML export.`}
+            </p>
+          </div>
+        </div>
+
+        <button
+          onClick={handleReconcile}
+          disabled={!returnFile || processing}
+          className="px-5 py-2.5 bg-violet-600 hover:bg-violet-700 disabled:bg-slate-200 disabled:text-slate-400 text-white text-sm font-medium rounded-lg transition-colors"
+        >
+          {processing ? 'Reconciling…' : 'Reconcile'}
+        </button>
+
+        {error && <div className="rounded-lg border border-rose-200 bg-rose-50 p-4 text-sm text-rose-700">{error}</div>}
+
+        {parsed && result && parsed.warnings.length + (result.unnumbered > 0 ? 1 : 0) > 0 && (
+          <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800 space-y-0.5">
+            {parsed.warnings.map((w) => <p key={w}>{w}</p>)}
+            {result.unnumbered > 0 && (
+              <p>{result.unnumbered} register line{result.unnumbered === 1 ? '' : 's'} without an invoice number could not be matched.</p>
+            )}
+          </div>
+        )}
+
+        {result && (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+              <SummaryCard label="Matched" value={String(result.counts.matched)} color="emerald" />
+              <SummaryCard label="Value mismatch" value={String(result.counts.mismatch)} color="amber" />
+              <SummaryCard label="Missing in books" value={String(result.counts.missingInBooks)} color="slate" />
+              <SummaryCard label="Missing in portal" value={String(result.counts.missingInPortal)} color="rose" />
+              {result.returnType === 'GSTR2B' ? (
+                <SummaryCard label="ITC at risk" value={rupees(result.itcAtRisk)} color={result.itcAtRisk > 0 ? 'rose' : 'emerald'} />
+              ) : (
+                <SummaryCard label="Tax: books − GSTR-1" value={rupees(Math.round((result.bookTax - result.portalTax) * 100) / 100)} color="slate" />
+              )}
+            </div>
+
+            <SectionCard
+              title="Save to compliance"
+              description="Keeps this result against the GSTIN and period so the Accounts compliance category shows it. Re-running replaces it."
+            >
+              <div className="flex flex-wrap items-end gap-3">
+                <label className="block text-xs text-slate-500">
+                  GSTIN
+                  <input
+                    value={gstin}
+                    onChange={(e) => setGstinInput(e.target.value)}
+                    disabled={!!parsed?.gstin}
+                    placeholder={`${STATE_GST_CODES[state]}AAAAA0000A1Z5`}
+                    className={`${selectCls} mt-1 w-48 font-mono disabled:bg-slate-50`}
+                  />
+                </label>
+                <label className="block text-xs text-slate-500">
+                  Your name
+                  <input value={user} onChange={(e) => setUser(e.target.value)} className={`${selectCls} mt-1 w-40`} />
+                </label>
+                <button
+                  onClick={handleSave}
+                  className="px-4 py-1.5 bg-emerald-500 hover:bg-emerald-600 text-white text-xs font-medium rounded-lg transition-colors"
+                >
+                  Save result
+                </button>
+              </div>
+              {previous && !saveStatus && (
+                <p className="mt-2 text-[11px] text-slate-500">
+                  Last saved {new Date(previous.reconciledAt).toLocaleString('en-IN')} by {previous.reconciledBy} from {previous.source}.
+                </p>
+              )}
+              {saveStatus && (
+                <p className={`mt-2 text-xs ${saveStatus.tone === 'ok' ? 'text-emerald-600' : 'text-rose-600'}`}>{saveStatus.text}</p>
+              )}
+            </SectionCard>
+
+            {result.suppliers.length > 0 && (
+              <SectionCard
+                title="ITC at risk by supplier"
+                description="Input tax in the purchase register that GSTR-2B doesn't support — not filed, filed short or marked ineligible. Follow up before claiming in GSTR-3B."
+              >
+                <table className="w-full text-xs">
+                  <thead className="bg-slate-50 text-slate-500 uppercase text-[10px] tracking-wider">
+                    <tr>
+                      <th className="text-left px-3 py-2 font-medium">Supplier</th>
+                      <th className="text-left px-3 py-2 font-medium">GSTIN</th>
+                      <th className="text-right px-3 py-2 font-medium">Invoices</th>
+                      <th className="text-right px-3 py-2 font-medium">ITC at risk</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {result.suppliers.map((s) => (
+                      <tr key={s.gstin || s.name}>
+                        <td className="px-3 py-1.5 text-slate-700">{s.name}</td>
+                        <td className="px-3 py-1.5 font-mono text-[11px] text-slate-500">{s.gstin || '—'}</td>
+                        <td className="px-3 py-1.5 text-right tabular-nums text-slate-600">{s.invoices}</td>
+                        <td className="px-3 py-1.5 text-right tabular-nums text-rose-600">{rupees(s.itcAtRisk)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </SectionCard>
+            )}
+
+            {result.b2c && (
+              <SectionCard title="B2C supplies" description="Reported in GSTR-1 in aggregate, so compared in total against sales without a recipient GSTIN.">
+                <table className="w-full text-sm max-w-xl">
+                  <thead className="text-slate-500 text-[11px]">
+                    <tr>
+                      <th className="text-left py-1.5 font-medium" />
+                      <th className="text-right py-1.5 font-medium">Books</th>
+                      <th className="text-right py-1.5 font-medium">GSTR-1</th>
+                      <th className="text-right py-1.5 font-medium">Difference</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <B2cRow label="Taxable value" books={result.b2c.books.taxable} portal={result.b2c.portal.taxable} />
+                    <B2cRow label="Tax" books={taxOf(result.b2c.books)} portal={taxOf(result.b2c.portal)} />
+                  </tbody>
+                </table>
+              </SectionCard>
+            )}
+
+            <SectionCard
+              title={`Invoices (${visibleLines.length})`}
+              actions={
+                <select value={filter} onChange={(e) => setFilter(e.target.value as GstMatchStatus | 'open')} className={`${selectCls} w-44`}>
+                  <option value="open">Needs attention</option>
+                  {(Object.keys(STATUS_PILL) as GstMatchStatus[]).map((s) => (
+                    <option key={s} value={s}>{STATUS_PILL[s].label}</option>
+                  ))}
+                </select>
+              }
+            >
+              <LineTable lines={visibleLines} showItc={result.returnType === 'GSTR2B'} />
+            </SectionCard>
+          </>
+        )}
+      </div>
+    </>
+  );
+}
+
+function B2cRow({ label, books, portal }: { label: string; books: number; portal: number }) {
+  const diff = Math.round((books - portal) * 100) / 100;
+  return (
+    <tr className="border-b border-slate-50 text-slate-600">
+      <td className="py-1.5 pr-4">{label}</td>
+      <td className="py-1.5 text-right tabular-nums">{rupees(books)}</td>
+      <td className="py-1.5 text-right tabular-nums">{rupees(portal)}</td>
+      <td className={`py-1.5 text-right tabular-nums ${Math.abs(diff) > 1 ? 'text-rose-600' : 'text-slate-400'}`}>{rupees(diff)}</td>
+    </tr>
+  );
+}
+
+function LineTable({ lines, showItc }: { lines: GstReconLine[]; showItc: boolean }) {
+  if (lines.length === 0) return <p className="text-xs text-slate-400">Nothing here.</p>;
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead className="bg-slate-50 text-slate-500 uppercase text-[10px] tracking-wider">
+          <tr>
+            <th className="text-left px-3 py-2 font-medium">Status</th>
+            <th className="text-left px-3 py-2 font-medium">Party</th>
+            <th className="text-left px-3 py-2 font-medium">Invoice</th>
+            <th className="text-right px-3 py-2 font-medium">Books</th>
+            <th className="text-right px-3 py-2 font-medium">Portal</th>
+            {showItc && <th className="text-right px-3 py-2 font-medium">ITC at risk</th>}
+            <th className="text-left px-3 py-2 font-medium">Notes</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {lines.map((l, i) => {
+            const pill = STATUS_PILL[l.status];
+            const gstin = l.portal?.counterpartyGstin || l.book?.counterpartyGstin;
+            return (
+              <tr key={i} className="hover:bg-slate-50 align-top">
+                <td className="px-3 py-2"><Pill size="xs" color={pill.color}>{pill.label}</Pill></td>
+                <td className="px-3 py-2 text-slate-700">
+                  <div className="max-w-[14rem] truncate" title={l.book?.party || l.portal?.counterpartyName}>
+                    {l.book?.party || l.portal?.counterpartyName || '—'}
+                  </div>
+                  {gstin && <div className="font-mono text-[10px] text-slate-400">{gstin}</div>}
+                </td>
+                <td className="px-3 py-2 text-slate-700">
+                  <div>{l.book?.invoiceNo || l.portal?.invoiceNo}</div>
+                  <div className="font-mono text-[10px] text-slate-400">{l.book?.date || l.portal?.date || ''}</div>
+                </td>
+                <td className="px-3 py-2 text-right tabular-nums text-slate-700">
+                  {l.book ? rupees(l.book.taxable) : '—'}
+                  {l.book && <div className="text-[10px] text-slate-400">tax {rupees(taxOf(l.book))}</div>}
+                </td>
+                <td className="px-3 py-2 text-right tabular-nums text-slate-700">
+                  {l.portal ? rupees(l.portal.taxable) : '—'}
+                  {l.portal && <div className="text-[10px] text-slate-400">tax {rupees(taxOf(l.portal))}</div>}
+                </td>
+                {showItc && (
+                  <td className={`px-3 py-2 text-right tabular-nums ${l.itcAtRisk > 0 ? 'text-rose-600' : 'text-slate-300'}`}>
+                    {l.itcAtRisk > 0 ? rupees(l.itcAtRisk) : '—'}
+                  </td>
+                )}
+                <td className="px-3 py-2 text-slate-500">{l.notes.join(' · ')}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function SummaryCard({ label, value, color }: { label: string; value: string; color: 'emerald' | 'amber' | 'rose' | 'slate' }) {
+  const m: Record<string, string> = { emerald: 'text-emerald-600', amber: 'text-amber-600', rose: 'text-rose-600', slate: 'text-slate-700' };
+  return (
+    <div className="rounded-lg bg-white border border-slate-200 p-3">
+      <p className="text-[11px] text-slate-500 mb-0.5">{label}</p>
+      <p className={`text-lg font-semibold ${m[color]}`}>{value}</p>
+    </div>
+  );
+}
@@ -0,0 +1,319 @@
+import { useEffect, useMemo, useState } from 'react';
+import { PageHeader } from '../../components/ui/PageHeader';
+import { SectionCard, Pill } from '../../components/ui/Card';
+import { loadMISData } from '../../utils/googleSheetsStorage';
+import { readGrid } from '../../utils/bankStatementParsers';
+import { isStockMovementsGrid, parseStockMovements, parseStockSummary } from '../../utils/tranzactStockParsers';
+import {
+  NON_MOVING_DAYS,
+  RECON_TOLERANCE,
+  SLOW_MOVING_COVER_DAYS,
+  reconcileClosingStock,
+  tallyClosingStock,
+  valueInventory,
+} from '../../utils/inventoryValuation';
+import type { MISRecord } from '../../types/misTracking';
+import {
+  AGE_BUCKETS,
+  STOCK_CLASS_LABELS,
+  type ItemValuation,
+  type StockClass,
+  type StockMovement,
+  type StockSummary,
+} from '../../types/inventory';
+
+const iconStock = (
+  <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
+  </svg>
+);
+
+const fileInputCls =
+  'block w-full text-xs text-slate-500 file:mr-3 file:py-1.5 file:px-3 file:rounded-lg file:border-0 file:text-xs file:font-medium file:bg-slate-100 file:text-slate-700 hover:file:bg-slate-200 file:cursor-pointer cursor-pointer';
+const selectCls = 'w-full rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-sm text-slate-700';
+
+const RATE_SOURCE_LABELS: Record<ItemValuation['rateSource'], string> = {
+  movements: 'Weighted avg',
+  summary: 'Tranzact price',
+  'fg-master': 'FG master',
+  none: 'No cost',
+};
+
+function rupees(n: number): string {
+  return `₹${n.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function monthLabel(month: string): string {
+  return new Date(Number(month.slice(0, 4)), Number(month.slice(5, 7)) - 1).toLocaleDateString('en-IN', { month: 'short', year: 'numeric' });
+}
+
+export function InventoryValuation() {
+  const [summary, setSummary] = useState<StockSummary | null>(null);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [loadedFiles, setLoadedFiles] = useState<string[]>([]);
+  const [parseWarnings, setParseWarnings] = useState<string[]>([]);
+  const [records, setRecords] = useState<MISRecord[]>([]);
+  const [classFilter, setClassFilter] = useState<StockClass | 'all'>('all');
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [status, setStatus] = useState<{ tone: 'ok' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadMISData().then((data) => {
+      if (!cancelled) setRecords(data.periods);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const valuation = useMemo(
+    () => (summary || movements.length ? valueInventory(summary, movements) : null),
+    [summary, movements]
+  );
+  const recon = useMemo(() => {
+    if (!valuation) return [];
+    return reconcileClosingStock(valuation.monthly, tallyClosingStock(records, valuation.monthly.map((m) => m.month)));
+  }, [valuation, records]);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (!files.length) return;
+    const warnings: string[] = [];
+    let nextSummary = summary;
+    const nextMovements: StockMovement[] = [];
+    try {
+      for (const file of files) {
+        const data = await file.arrayBuffer();
+        // Summary or movements, told apart by their columns
+        if (isStockMovementsGrid(readGrid(data))) {
+          const parsed = parseStockMovements(data, file.name);
+          nextMovements.push(...parsed.movements);
+          warnings.push(...parsed.warnings);
+        } else {
+          nextSummary = parseStockSummary(data, file.name);
+          warnings.push(...nextSummary.warnings.map((w) => `${file.name}: ${w}`));
+        }
+      }
+    } catch (err) {
+      setStatus({ tone: 'error', text: err instanceof Error ? err.message : 'Could not read the file' });
+      return;
+    }
+    setSummary(nextSummary);
+    setMovements((prev) => [...prev, ...nextMovements]);
+    setLoadedFiles((prev) => [...prev, ...files.map((f) => f.name)]);
+    setParseWarnings((prev) => [...prev, ...warnings]);
+    setStatus({
+      tone: 'ok',
+      text: `Read ${files.length} file${files.length === 1 ? '' : 's'}: ${nextMovements.length} movement${nextMovements.length === 1 ? '' : 's'}${nextSummary !== summary ? `, stock summary with ${nextSummary?.items.length ?? 0} items` : ''}.`,
+    });
+  };
+
+  const clear = () => {
+    setSummary(null);
+    setMovements([]);
+    setLoadedFiles([]);
+    setParseWarnings([]);
+    setStatus(null);
+  };
+
+  const items = (valuation?.items ?? []).filter(
+    (i) => (classFilter === 'all' || i.stockClass === classFilter) && (!flaggedOnly || i.flag)
+  );
+  const flagged = valuation?.items.filter((i) => i.flag) ?? [];
+  const ageingTotal = valuation ? AGE_BUCKETS.reduce((sum, b) => sum + valuation.ageing[b], 0) : 0;
+
+  return (
+    <>
+      <PageHeader
+        title="Inventory Valuation"
+        description="Tranzact stock valued per FG item and raw material at weighted average cost, aged by receipt, with slow-moving SKUs flagged and month-end closing stock reconciled to Tally."
+        accent="sky"
+        icon={iconStock}
+      />
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 py-8 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="rounded-xl border border-slate-200 bg-white p-5 space-y-3 md:col-span-2">
+            <h3 className="text-sm font-semibold text-slate-900">Tranzact exports</h3>
+            <input type="file" accept=".xlsx,.xls,.csv" multiple onChange={handleFiles} className={fileInputCls} />
+            <p className="text-[11px] text-slate-500">
+              Inventory → Stock Summary (as on the month-end you are closing) and Inventory → Item-wise Stock Movement for the
+              months before it. Several movement files can be added; the summary sets the quantities on hand.
+            </p>
+            {loadedFiles.length > 0 && (
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-xs text-slate-600 truncate">{loadedFiles.join(' · ')}</p>
+                <button onClick={clear} className="px-2 py-1 text-[11px] rounded bg-slate-100 text-slate-600 hover:bg-slate-200">
+                  Clear
+                </button>
+              </div>
+            )}
+          </div>
+          <div className="rounded-xl border border-slate-200 bg-white p-5 space-y-3">
+            <h3 className="text-sm font-semibold text-slate-900">Show</h3>
+            <select value={classFilter} onChange={(e) => setClassFilter(e.target.value as StockClass | 'all')} className={selectCls}>
+              <option value="all">All stock</option>
+              <option value="FG">{STOCK_CLASS_LABELS.FG}</option>
+              <option value="RM">{STOCK_CLASS_LABELS.RM}</option>
+            </select>
+            <label className="flex items-center gap-2 text-xs text-slate-600">
+              <input type="checkbox" checked={flaggedOnly} onChange={(e) => setFlaggedOnly(e.target.checked)} />
+              Slow and non-moving only
+            </label>
+          </div>
+        </div>
+
+        {status && (
+          <div className={`rounded-lg border p-3 text-xs ${status.tone === 'ok' ? 'border-emerald-200 bg-emerald-50 text-emerald-700' : 'border-rose-200 bg-rose-50 text-rose-700'}`}>
+            {status.text}
+          </div>
+        )}
+
+        {valuation && (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <SummaryCard label={`Stock as on ${valuation.asOf}`} value={rupees(valuation.totals.FG + valuation.totals.RM)} color="slate" />
+              <SummaryCard label={STOCK_CLASS_LABELS.FG} value={rupees(valuation.totals.FG)} color="slate" />
+              <SummaryCard label={STOCK_CLASS_LABELS.RM} value={rupees(valuation.totals.RM)} color="slate" />
+              <SummaryCard
+                label={`Flagged (${flagged.length} item${flagged.length === 1 ? '' : 's'})`}
+                value={rupees(flagged.reduce((sum, i) => sum + i.value, 0))}
+                color={flagged.length ? 'amber' : 'emerald'}
+              />
+            </div>
+
+            {(valuation.warnings.length > 0 || parseWarnings.length > 0) && (
+              <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800 space-y-1">
+                {[...parseWarnings, ...valuation.warnings].map((w, i) => (
+                  <p key={i}>{w}</p>
+                ))}
+              </div>
+            )}
+
+            <SectionCard title="Closing stock vs Tally" description={`Month-end stock from the Tranzact movements against the closing stock in the MIS (the UP balance sheet). Differences over ${rupees(RECON_TOLERANCE)} need a look — usually goods in transit, an unbooked GRN or a valuation difference.`}>
+              {recon.length === 0 ? (
+                <p className="text-xs text-slate-400">Month-end figures need a summary dated at a month-end, or movements spanning one.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs">
+                    <thead className="bg-slate-50 text-slate-500 uppercase text-[10px] tracking-wider">
+                      <tr>
+                        <th className="text-left px-3 py-2 font-medium">Month end</th>
+                        <th className="text-right px-3 py-2 font-medium">FG</th>
+                        <th className="text-right px-3 py-2 font-medium">RM</th>
+                        <th className="text-right px-3 py-2 font-medium">Tranzact</th>
+                        <th className="text-right px-3 py-2 font-medium">Tally</th>
+                        <th className="text-right px-3 py-2 font-medium">Difference</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {recon.map((r, i) => (
+                        <tr key={r.month} className="hover:bg-slate-50">
+                          <td className="px-3 py-2 text-slate-700">{monthLabel(r.month)}</td>
+                          <td className="px-3 py-2 text-right tabular-nums text-slate-600">{rupees(valuation.monthly[i].fg)}</td>
+                          <td className="px-3 py-2 text-right tabular-nums text-slate-600">{rupees(valuation.monthly[i].rm)}</td>
+                          <td className="px-3 py-2 text-right tabular-nums text-slate-800 font-medium">{rupees(r.derived)}</td>
+                          <td className="px-3 py-2 text-right tabular-nums text-slate-600">
+                            {r.tally === null ? <span className="text-slate-400">No MIS</span> : rupees(r.tally)}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {r.difference === null ? (
+                              '—'
+                            ) : Math.abs(r.difference) <= RECON_TOLERANCE ? (
+                              <Pill size="xs" color="emerald">Agrees</Pill>
+                            ) : (
+                              <span className="tabular-nums text-rose-600">{rupees(r.difference)}</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </SectionCard>
+
+            <SectionCard title="Stock ageing" description="Value on hand by days since receipt, oldest stock assumed to go out first.">
+              {ageingTotal === 0 ? (
+                <p className="text-xs text-slate-400">Ageing needs the movement export.</p>
+              ) : (
+                <div className="grid grid-cols-5 gap-3">
+                  {AGE_BUCKETS.map((b) => (
+                    <div key={b} className="rounded-lg bg-slate-50 p-3">
+                      <p className="text-[11px] text-slate-500">{b} days</p>
+                      <p className={`text-sm font-semibold ${b === '180+' || b === '91-180' ? 'text-amber-600' : 'text-slate-800'}`}>{rupees(valuation.ageing[b])}</p>
+                      <p className="text-[10px] text-slate-400">{Math.round((valuation.ageing[b] / ageingTotal) * 100)}%</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </SectionCard>
+
+            <SectionCard
+              title={`Items (${items.length})`}
+              description={`Non-moving: nothing out in ${NON_MOVING_DAYS} days. Slow-moving: more than ${SLOW_MOVING_COVER_DAYS} days of cover at the last ${NON_MOVING_DAYS} days' outward rate.`}
+            >
+              {items.length === 0 ? (
+                <p className="text-xs text-slate-400">No items match.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs">
+                    <thead className="bg-slate-50 text-slate-500 uppercase text-[10px] tracking-wider">
+                      <tr>
+                        <th className="text-left px-3 py-2 font-medium">Item</th>
+                        <th className="text-right px-3 py-2 font-medium">On hand</th>
+                        <th className="text-right px-3 py-2 font-medium">Rate</th>
+                        <th className="text-right px-3 py-2 font-medium">Value</th>
+                        <th className="text-right px-3 py-2 font-medium">Out (90d)</th>
+                        <th className="text-right px-3 py-2 font-medium">Cover</th>
+                        <th className="text-left px-3 py-2 font-medium">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {items.map((i) => (
+                        <tr key={i.itemId} className="align-top hover:bg-slate-50">
+                          <td className="px-3 py-2 text-slate-700">
+                            {i.itemName}
+                            <div className="text-[10px] text-slate-400">{i.itemId} · {i.stockClass}</div>
+                          </td>
+                          <td className="px-3 py-2 text-right tabular-nums text-slate-700">
+                            {i.closingQty.toLocaleString('en-IN')} {i.uom}
+                          </td>
+                          <td className="px-3 py-2 text-right tabular-nums text-slate-600">
+                            {rupees(i.rate)}
+                            <div className="text-[10px] text-slate-400">{RATE_SOURCE_LABELS[i.rateSource]}</div>
+                          </td>
+                          <td className="px-3 py-2 text-right tabular-nums text-slate-800 font-medium">{rupees(i.value)}</td>
+                          <td className="px-3 py-2 text-right tabular-nums text-slate-600">{i.outwardLast90.toLocaleString('en-IN')}</td>
+                          <td className="px-3 py-2 text-right tabular-nums text-slate-600">
+                            {i.daysOfCover === null ? '—' : `${i.daysOfCover}d`}
+                          </td>
+                          <td className="px-3 py-2">
+                            {i.flag === 'non-moving' && <Pill size="xs" color="rose">Non-moving</Pill>}
+                            {i.flag === 'slow-moving' && <Pill size="xs" color="amber">Slow-moving</Pill>}
+                            {i.lastOutward && <div className="text-[10px] text-slate-400 mt-0.5">last out {i.lastOutward}</div>}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </SectionCard>
+          </>
+        )}
+      </div>
+    </>
+  );
+}
+
+function SummaryCard({ label, value, color }: { label: string; value: string; color: 'emerald' | 'amber' | 'rose' | 'slate' }) {
+  const m: Record<string, string> = { emerald: 'text-emerald-600', amber: 'text-amber-600', rose: 'text-rose-600', slate: 'text-slate-700' };
+  return (
+    <div className="rounded-lg bg-white border border-slate-200 p-3">
+      <p className="text-[11px] text-slate-500 mb-0.5">{label}</p>
+      <p className={`text-lg font-semibold ${m[color]}`}>{value}</p>
+    </div>
+  );
+}
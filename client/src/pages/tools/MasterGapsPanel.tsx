@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import type { TallyMaster } from '../../data/tally/useTallyMaster';
+import type { QueueItemForExport } from '../../data/tally/buildTallyXml';
+import { buildMastersXml, validateQueueMasters } from '../../data/tally/masterValidation';
+import type { MasterKind, UnknownMaster } from '../../data/tally/masterValidation';
+
+const KIND_LABEL: Record<MasterKind, string> = {
+  party: 'Party',
+  ledger: 'Ledger',
+  costCentre: 'Cost centre',
+};
+
+// Lists every name the queue uses that the Tally master doesn't have, offers
+// the closest existing master as a one-click replacement, and exports the
+// genuinely new parties as a masters-import XML.
+export function MasterGapsPanel({
+  queue,
+  master,
+  onRename,
+}: {
+  queue: QueueItemForExport[];
+  master: TallyMaster;
+  onRename: (kind: MasterKind, from: string, to: string) => void;
+}) {
+  const gaps = validateQueueMasters(queue, master);
+  // Parties the operator un-ticked from creation; everything else likely-new is created.
+  const [excluded, setExcluded] = useState<Set<string>>(() => new Set());
+  const toCreate = gaps.filter((g) => g.kind === 'party' && g.likelyNew && !excluded.has(g.name));
+
+  if (gaps.length === 0) {
+    return (
+      <div className="rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-xs text-emerald-900">
+        Every ledger, party and cost centre in the queue exists in the Tally master.
+      </div>
+    );
+  }
+
+  function toggle(name: string) {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  }
+
+  function downloadMasters() {
+    if (toCreate.length === 0) return;
+    const xml = buildMastersXml(
+      toCreate.flatMap((g) => (g.newParty ? [g.newParty] : [])),
+      master.company || 'Heatronics'
+    );
+    const blob = new Blob([xml], { type: 'application/xml' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    const today = new Date().toISOString().slice(0, 10);
+    a.href = url;
+    a.download = `tally-masters-${today}.xml`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+    // The vouchers should now name the ledger exactly as created.
+    for (const g of toCreate) onRename('party', g.name, g.name);
+  }
+
+  return (
+    <div className="rounded-lg border border-amber-200 bg-amber-50 text-xs">
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-amber-200">
+        <div className="text-amber-900">
+          <span className="font-semibold">{gaps.length}</span> name{gaps.length === 1 ? '' : 's'} not in the
+          Tally master
+        </div>
+        <button
+          type="button"
+          onClick={downloadMasters}
+          disabled={toCreate.length === 0}
+          className="rounded-md bg-white border border-amber-300 hover:bg-amber-100 disabled:opacity-50 disabled:cursor-not-allowed px-2.5 py-1 font-medium text-amber-900"
+        >
+          Download masters XML ({toCreate.length})
+        </button>
+      </div>
+      <ul className="divide-y divide-amber-200">
+        {gaps.map((g) => (
+          <GapRow
+            key={`${g.kind}:${g.name}`}
+            gap={g}
+            creating={g.kind === 'party' && !!g.likelyNew && !excluded.has(g.name)}
+            onToggleCreate={() => toggle(g.name)}
+            onUse={(to) => onRename(g.kind, g.name, to)}
+          />
+        ))}
+      </ul>
+      {toCreate.length > 0 && (
+        <p className="px-3 py-2 border-t border-amber-200 text-amber-900">
+          Import the masters XML in Tally first (Import → Masters), then the vouchers.
+        </p>
+      )}
+    </div>
+  );
+}
+
+function GapRow({
+  gap,
+  creating,
+  onToggleCreate,
+  onUse,
+}: {
+  gap: UnknownMaster;
+  creating: boolean;
+  onToggleCreate: () => void;
+  onUse: (name: string) => void;
+}) {
+  const p = gap.newParty;
+  return (
+    <li className="px-3 py-2 space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[10px] uppercase tracking-wider font-semibold text-amber-800">
+          {KIND_LABEL[gap.kind]}
+        </span>
+        <span className="font-medium text-slate-900">{gap.name}</span>
+        <span className="text-slate-500">
+          · used by {gap.usedBy.length} booking{gap.usedBy.length === 1 ? '' : 's'}
+        </span>
+      </div>
+      {gap.suggestions.length > 0 ? (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <span className="text-slate-600">Closest:</span>
+          {gap.suggestions.map((s) => (
+            <button
+              key={s.name}
+              type="button"
+              onClick={() => onUse(s.name)}
+              title="Use this master everywhere in the queue"
+              className="rounded-md bg-white border border-slate-300 hover:bg-slate-50 px-2 py-0.5 text-slate-800"
+            >
+              {s.name} <span className="text-slate-400">{Math.round(s.score * 100)}%</span>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="text-slate-600">No similar name in the master.</div>
+      )}
+      {p && gap.likelyNew && (
+        <label className="flex items-start gap-2 text-slate-700">
+          <input type="checkbox" checked={creating} onChange={onToggleCreate} className="mt-0.5" />
+          <span>
+            Create under {p.parent}
+            {p.gstin ? ` · GSTIN ${p.gstin}` : ' · unregistered (no GSTIN on the invoice)'}
+            {p.state ? ` · ${p.state}` : ''}
+            {p.tdsNature ? ` · TDS ${p.tdsSection}: ${p.tdsNature}` : ''}
+          </span>
+        </label>
+      )}
+    </li>
+  );
+}
@@ -0,0 +1,312 @@
+import { Fragment, useEffect, useState } from 'react';
+import { PageHeader } from '../../components/ui/PageHeader';
+import { SectionCard, Pill } from '../../components/ui/Card';
+import { useSettlements } from '../../data/settlements/useSettlements';
+import { useDeckDataset } from '../../data/deckDatasets/useDeckDataset';
+import { getCurrentUser, setCurrentUser } from '../../data/currentUser';
+import { loadMISData } from '../../utils/googleSheetsStorage';
+import { BANK_IDS, BANK_PROFILES, parseBankStatement } from '../../utils/bankStatementParsers';
+import {
+  bankReceiptsByChannel,
+  parseAmazonDateRangeReport,
+  parseBlinkitSettlement,
+  type SettlementParseResult,
+} from '../../utils/settlementParsers';
+import { reconcileSettlements, type SettlementFlagKind, type SettlementReconRow } from '../../utils/settlementReconciliation';
+import type { MISRecord } from '../../types/misTracking';
+import type { BankId } from '../../types/bankReconciliation';
+import type { SettlementChannel, SettlementMonth } from '../../types/settlement';
+
+const iconPayout = (
+  <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 9V7a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2m2 4h10a2 2 0 002-2v-6a2 2 0 00-2-2H9a2 2 0 00-2 2v6a2 2 0 002 2zm7-5a2 2 0 11-4 0 2 2 0 014 0z" />
+  </svg>
+);
+
+const fileInputCls =
+  'block w-full text-xs text-slate-500 file:mr-3 file:py-1.5 file:px-3 file:rounded-lg file:border-0 file:text-xs file:font-medium file:bg-slate-100 file:text-slate-700 hover:file:bg-slate-200 file:cursor-pointer cursor-pointer';
+
+const FLAG_COLOR: Record<SettlementFlagKind, 'amber' | 'rose' | 'sky' | 'violet'> = {
+  unsettled: 'amber',
+  unbilled: 'rose',
+  reserve: 'violet',
+  chargeback: 'rose',
+  'in-transit': 'sky',
+  'unmatched-receipt': 'amber',
+  'missing-report': 'amber',
+};
+
+const FLAG_LABEL: Record<SettlementFlagKind, string> = {
+  unsettled: 'Unsettled orders',
+  unbilled: 'Not in register',
+  reserve: 'Reserve hold',
+  chargeback: 'Chargebacks',
+  'in-transit': 'Payout not in bank',
+  'unmatched-receipt': 'Receipt without payout',
+  'missing-report': 'Report missing',
+};
+
+const BREAKUP: { key: keyof SettlementMonth; label: string; sign: '+' | '−' }[] = [
+  { key: 'sales', label: 'Sales', sign: '+' },
+  { key: 'refunds', label: 'Refunds', sign: '−' },
+  { key: 'gst', label: 'GST collected', sign: '+' },
+  { key: 'referral', label: 'Referral / commission', sign: '−' },
+  { key: 'fulfilment', label: 'Fulfilment (FBA / Blinkit)', sign: '−' },
+  { key: 'ads', label: 'Ads', sign: '−' },
+  { key: 'taxes', label: 'TCS / TDS', sign: '−' },
+  { key: 'credits', label: 'Credits & reimbursements', sign: '+' },
+  { key: 'chargebacks', label: 'Chargebacks', sign: '−' },
+  { key: 'reserve', label: 'Reserve', sign: '−' },
+  { key: 'other', label: 'Other', sign: '+' },
+];
+
+function rupees(n: number | null): string {
+  return n === null ? '—' : `₹${Math.round(n).toLocaleString('en-IN')}`;
+}
+
+type Status = { tone: 'ok' | 'error'; text: string } | null;
+
+function describeMonths(months: string[]): string {
+  const sorted = [...months].sort();
+  return sorted.length === 1 ? sorted[0] : `${sorted[0]} → ${sorted[sorted.length - 1]}`;
+}
+
+export function SettlementReconciliation() {
+  const { settlements, loading, saveMonths, saveReceipts } = useSettlements();
+  const [records, setRecords] = useState<MISRecord[]>([]);
+  const [user, setUser] = useState(getCurrentUser());
+  const [bank, setBank] = useState<BankId>('hdfc');
+  const [status, setStatus] = useState<Status>(null);
+  const [busy, setBusy] = useState(false);
+  const [open, setOpen] = useState<string | null>(null);
+  const [channelFilter, setChannelFilter] = useState<SettlementChannel | 'all'>('all');
+
+  useEffect(() => {
+    let cancelled = false;
+    loadMISData().then((data) => {
+      if (!cancelled) setRecords(data.periods);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // The expected side reads the deck's channel actuals; subscribing re-renders the
+  // table when a new dataset version is installed.
+  useDeckDataset();
+  const rows = reconcileSettlements(settlements, records);
+  const shown = rows.filter((r) => channelFilter === 'all' || r.channel === channelFilter);
+  const flagged = rows.filter((r) => r.flags.length > 0).length;
+
+  async function withUpload(file: File | undefined, run: (data: ArrayBuffer, by: string) => Promise<string>) {
+    if (!file) return;
+    if (!user.trim()) return setStatus({ tone: 'error', text: 'Enter your name before uploading.' });
+    setBusy(true);
+    setStatus(null);
+    try {
+      setCurrentUser(user);
+      setStatus({ tone: 'ok', text: await run(await file.arrayBuffer(), user.trim()) });
+    } catch (err) {
+      setStatus({ tone: 'error', text: err instanceof Error ? err.message : 'Upload failed' });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const uploadReport = (channel: SettlementChannel, parse: (d: ArrayBuffer, source: string) => SettlementParseResult) =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      withUpload(file, async (data, by) => {
+        const parsed = parse(data, file!.name);
+        const months = Object.keys(parsed.months);
+        if (months.length === 0) throw new Error(parsed.warnings.join(' ') || 'No settlement rows found.');
+        await saveMonths(channel, parsed.months, by);
+        return [`${channel}: ${parsed.rows} rows → ${months.length} month(s), ${describeMonths(months)}.`, ...parsed.warnings].join(' ');
+      });
+    };
+
+  const uploadStatement = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    withUpload(file, async (data, by) => {
+      const statement = parseBankStatement(data, bank);
+      if (statement.lines.length === 0) throw new Error(statement.warnings.join(' ') || 'No statement lines found.');
+      const receipts = bankReceiptsByChannel(statement.lines);
+      await saveReceipts(receipts, by);
+      return `${BANK_PROFILES[bank].label}: receipts for ${describeMonths(Object.keys(receipts))} updated.`;
+    });
+  };
+
+  return (
+    <>
+      <PageHeader
+        title="Marketplace Settlements"
+        description="Upload the raw Amazon and Blinkit payout reports — each month is broken into sales, fees, ads, taxes and credits and tied to the escrow receipts and the sales register."
+        accent="violet"
+        icon={iconPayout}
+      />
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 py-8 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="rounded-xl border border-slate-200 bg-white p-5 space-y-2">
+            <h3 className="text-sm font-semibold text-slate-900">Amazon date range report</h3>
+            <input type="file" accept=".csv,.txt,.xlsx" disabled={busy} onChange={uploadReport('Amazon', parseAmazonDateRangeReport)} className={fileInputCls} />
+            <p className="text-[11px] text-slate-500">Payments → Reports Repository → Date Range Reports → Transaction (CSV).</p>
+          </div>
+          <div className="rounded-xl border border-slate-200 bg-white p-5 space-y-2">
+            <h3 className="text-sm font-semibold text-slate-900">Blinkit settlement file</h3>
+            <input type="file" accept=".csv,.xlsx,.xls" disabled={busy} onChange={uploadReport('Blinkit', parseBlinkitSettlement)} className={fileInputCls} />
+            <p className="text-[11px] text-slate-500">Seller settlement export with the payout and deduction columns.</p>
+          </div>
+          <div className="rounded-xl border border-slate-200 bg-white p-5 space-y-2">
+            <h3 className="text-sm font-semibold text-slate-900">Escrow bank statement</h3>
+            <select
+              value={bank}
+              onChange={(e) => setBank(e.target.value as BankId)}
+              className="w-full rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-sm text-slate-700"
+            >
+              {BANK_IDS.filter((id) => id !== 'easebuzz').map((id) => (
+                <option key={id} value={id}>{BANK_PROFILES[id].label}</option>
+              ))}
+            </select>
+            <input type="file" accept=".csv,.xlsx,.xls" disabled={busy} onChange={uploadStatement} className={fileInputCls} />
+            <p className="text-[11px] text-slate-500">Credits naming Amazon or Blinkit are totalled per month as the received payouts.</p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="text"
+            value={user}
+            onChange={(e) => setUser(e.target.value)}
+            placeholder="Your name"
+            className="px-3 py-1.5 text-sm rounded-lg border border-slate-200 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-brand-200"
+          />
+          {busy && <span className="text-xs text-slate-400">Uploading…</span>}
+          {status && (
+            <span className={`text-xs ${status.tone === 'error' ? 'text-rose-600' : 'text-emerald-600'}`}>{status.text}</span>
+          )}
+        </div>
+
+        <SectionCard
+          title="Reconciliation by month"
+          description={
+            loading
+              ? 'Loading saved settlements…'
+              : `${rows.length} channel-month(s), ${flagged} with differences. Register = sales register net revenue (ex-GST) from the saved MIS period; deck feed = the hand-entered Channel P&L figure.`
+          }
+          actions={
+            <div className="flex gap-1">
+              {(['all', 'Amazon', 'Blinkit'] as const).map((c) => (
+                <button
+                  key={c}
+                  onClick={() => setChannelFilter(c)}
+                  className={`px-2.5 py-1 text-xs rounded-lg ${channelFilter === c ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                >
+                  {c === 'all' ? 'All' : c}
+                </button>
+              ))}
+            </div>
+          }
+        >
+          {shown.length === 0 ? (
+            <p className="text-sm text-slate-400">No settlements uploaded yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm whitespace-nowrap">
+                <thead>
+                  <tr className="text-xs text-slate-400 border-b border-slate-200">
+                    <th className="py-2 pr-3 text-left font-medium">Month</th>
+                    <th className="py-2 px-3 text-left font-medium">Channel</th>
+                    <th className="py-2 px-3 text-right font-medium">Settled sales</th>
+                    <th className="py-2 px-3 text-right font-medium">Register</th>
+                    <th className="py-2 px-3 text-right font-medium">Deck feed</th>
+                    <th className="py-2 px-3 text-right font-medium">Net proceeds</th>
+                    <th className="py-2 px-3 text-right font-medium">Payouts</th>
+                    <th className="py-2 px-3 text-right font-medium">Escrow receipts</th>
+                    <th className="py-2 pl-3 text-left font-medium">Differences</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {shown.map((r) => {
+                    const id = `${r.monthKey}:${r.channel}`;
+                    return (
+                      <Fragment key={id}>
+                        <tr
+                          className="border-b border-slate-50 text-slate-700 hover:bg-slate-50 cursor-pointer"
+                          onClick={() => setOpen(open === id ? null : id)}
+                        >
+                          <td className="py-2 pr-3">{r.label}</td>
+                          <td className="py-2 px-3">{r.channel}</td>
+                          <td className="py-2 px-3 text-right tabular-nums">{rupees(r.settledSales)}</td>
+                          <td className="py-2 px-3 text-right tabular-nums">{rupees(r.registerRevenue)}</td>
+                          <td className="py-2 px-3 text-right tabular-nums text-slate-400">{rupees(r.feedSales)}</td>
+                          <td className="py-2 px-3 text-right tabular-nums">{rupees(r.settlement?.net ?? null)}</td>
+                          <td className="py-2 px-3 text-right tabular-nums">{rupees(r.settlement?.payouts ?? null)}</td>
+                          <td className="py-2 px-3 text-right tabular-nums">{rupees(r.bankReceipts)}</td>
+                          <td className="py-2 pl-3">
+                            {r.flags.length === 0 ? (
+                              <Pill size="xs" color="emerald">Reconciled</Pill>
+                            ) : (
+                              <span className="inline-flex flex-wrap gap-1">
+                                {r.flags.map((f) => (
+                                  <Pill key={f.kind} size="xs" color={FLAG_COLOR[f.kind]}>{FLAG_LABEL[f.kind]}</Pill>
+                                ))}
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                        {open === id && <DetailRow row={r} />}
+                      </Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </SectionCard>
+      </div>
+    </>
+  );
+}
+
+function DetailRow({ row }: { row: SettlementReconRow }) {
+  const s = row.settlement;
+  return (
+    <tr className="bg-slate-50/60 border-b border-slate-100">
+      <td colSpan={9} className="px-4 py-3">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 whitespace-normal">
+          {s ? (
+            <table className="text-xs w-full max-w-sm">
+              <tbody>
+                {BREAKUP.map((b) => (
+                  <tr key={b.key} className="text-slate-600">
+                    <td className="py-0.5 pr-3">{b.sign} {b.label}</td>
+                    <td className="py-0.5 text-right tabular-nums">{rupees(s[b.key] as number)}</td>
+                  </tr>
+                ))}
+                <tr className="font-semibold text-slate-800 border-t border-slate-200">
+                  <td className="py-1 pr-3">Net proceeds</td>
+                  <td className="py-1 text-right tabular-nums">{rupees(s.net)}</td>
+                </tr>
+                <tr className="text-slate-400">
+                  <td className="py-0.5 pr-3" colSpan={2}>
+                    {s.orders} orders · {s.source} · uploaded by {s.uploadedBy || 'unknown'}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-xs text-slate-400">No settlement report for this month.</p>
+          )}
+          <ul className="text-xs text-slate-600 space-y-1 list-disc pl-4">
+            {row.flags.length === 0 && <li>Settled sales, payouts and escrow receipts agree within tolerance.</li>}
+            {row.flags.map((f) => (
+              <li key={f.kind}>{f.message}</li>
+            ))}
+          </ul>
+        </div>
+      </td>
+    </tr>
+  );
+}
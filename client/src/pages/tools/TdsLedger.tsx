@@ -0,0 +1,529 @@
+import { useMemo, useState } from 'react';
+import { PageHeader } from '../../components/ui/PageHeader';
+import { SectionCard, Pill } from '../../components/ui/Card';
+import { useTds } from '../../data/tds/useTds';
+import { readPersistedQueue } from '../../data/tally/expenseQueue';
+import { getCurrentUser, setCurrentUser } from '../../data/currentUser';
+import {
+  SECTION_RULES,
+  booksForYear,
+  buildTdsLedger,
+  financialYearOf,
+  type TdsQueueItem,
+} from '../../utils/tdsLedger';
+import { download26Q } from '../../utils/form26qExport';
+import { parseAndStoreTallyDayBook } from '../../utils/stateDataParsers';
+import { STATE_NAMES, type StateName } from '../../types/stateData';
+import {
+  TDS_SECTIONS,
+  type DeducteeType,
+  type TdsDeducteeSection,
+  type TdsIssueKind,
+  type TdsQuarter,
+  type TdsSection,
+} from '../../types/tds';
+
+const iconTds = (
+  <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
+  </svg>
+);
+
+const fileInputCls =
+  'block w-full text-xs text-slate-500 file:mr-3 file:py-1.5 file:px-3 file:rounded-lg file:border-0 file:text-xs file:font-medium file:bg-slate-100 file:text-slate-700 hover:file:bg-slate-200 file:cursor-pointer cursor-pointer';
+const selectCls = 'w-full rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-sm text-slate-700';
+
+const ISSUE_LABELS: Record<TdsIssueKind, { label: string; color: 'rose' | 'amber' | 'slate' }> = {
+  'short-deduction': { label: 'Short deduction', color: 'rose' },
+  rate: { label: 'Rate', color: 'amber' },
+  'no-pan': { label: 'No PAN', color: 'rose' },
+  'no-section': { label: 'No section', color: 'amber' },
+  'certificate-limit': { label: 'Certificate limit', color: 'amber' },
+  'missing-amount': { label: 'Queue', color: 'slate' },
+};
+
+function rupees(n: number): string {
+  return `₹${n.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function monthLabel(month: string): string {
+  return new Date(Number(month.slice(0, 4)), Number(month.slice(5, 7)) - 1).toLocaleDateString('en-IN', { month: 'short', year: 'numeric' });
+}
+
+function todayIso(): string {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function recentYears(): string[] {
+  const current = Number(financialYearOf(todayIso()).slice(0, 4));
+  return [0, 1, 2].map((i) => `${current - i}-${String((current - i + 1) % 100).padStart(2, '0')}`);
+}
+
+export function TdsLedger() {
+  const { tds, saveDeductee, addChallan, removeChallan } = useTds();
+  const [fy, setFy] = useState(() => financialYearOf(todayIso()));
+  const [queue] = useState(() => readPersistedQueue<TdsQueueItem>());
+  const [user, setUser] = useState(getCurrentUser());
+  const [dayBookState, setDayBookState] = useState<StateName>('UP');
+  const [booksVersion, setBooksVersion] = useState(0);
+  const [editing, setEditing] = useState<TdsDeducteeSection | null>(null);
+  const [status, setStatus] = useState<{ tone: 'ok' | 'error'; text: string } | null>(null);
+
+  // booksVersion re-reads the state data store after a day book upload
+  const books = useMemo(() => ({ ...booksForYear(fy), version: booksVersion }), [fy, booksVersion]);
+  const ledger = useMemo(
+    () => buildTdsLedger({ fy, queue, vouchers: books.vouchers, journal: books.journal, tds, today: todayIso() }),
+    [fy, queue, books, tds]
+  );
+
+  const run = async (action: () => Promise<string>) => {
+    if (!user.trim()) return setStatus({ tone: 'error', text: 'Enter your name first.' });
+    try {
+      setCurrentUser(user);
+      setStatus({ tone: 'ok', text: await action() });
+    } catch (err) {
+      setStatus({ tone: 'error', text: err instanceof Error ? err.message : 'Save failed' });
+    }
+  };
+
+  const handleDayBook = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const result = await parseAndStoreTallyDayBook(file, dayBookState);
+      setBooksVersion((v) => v + 1);
+      setStatus({ tone: 'ok', text: `Loaded ${result.months.length} month(s) of ${dayBookState} day book vouchers.` });
+    } catch (err) {
+      setStatus({ tone: 'error', text: err instanceof Error ? err.message : 'Could not read the day book' });
+    }
+  };
+
+  return (
+    <>
+      <PageHeader
+        title="TDS Ledger"
+        description="TDS deducted by section, deductee and quarter from the Expense Booking queue and the Tally day book — thresholds, lower-deduction certificates, deposits due and the Form 26Q working file."
+        accent="amber"
+        icon={iconTds}
+      />
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 py-8 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="rounded-xl border border-slate-200 bg-white p-5 space-y-3">
+            <h3 className="text-sm font-semibold text-slate-900">Financial year</h3>
+            <select value={fy} onChange={(e) => setFy(e.target.value)} className={selectCls}>
+              {recentYears().map((y) => (
+                <option key={y} value={y}>FY {y}</option>
+              ))}
+            </select>
+            <label className="block text-xs text-slate-500">
+              Your name
+              <input value={user} onChange={(e) => setUser(e.target.value)} className={`${selectCls} mt-1`} />
+            </label>
+          </div>
+          <div className="rounded-xl border border-slate-200 bg-white p-5 space-y-3 md:col-span-2">
+            <h3 className="text-sm font-semibold text-slate-900">Sources</h3>
+            <p className="text-xs text-slate-600">
+              {queue.length} queued booking{queue.length === 1 ? '' : 's'} in this browser · {books.vouchers.length} day book
+              voucher{books.vouchers.length === 1 ? '' : 's'} and {books.journal.length} journal register line
+              {books.journal.length === 1 ? '' : 's'} loaded for FY {fy}.
+            </p>
+            <div className="grid grid-cols-3 gap-3 items-end">
+              <label className="block text-xs text-slate-500">
+                State
+                <select value={dayBookState} onChange={(e) => setDayBookState(e.target.value as StateName)} className={`${selectCls} mt-1`}>
+                  {STATE_NAMES.map((s) => (
+                    <option key={s} value={s}>{s}</option>
+                  ))}
+                </select>
+              </label>
+              <div className="col-span-2">
+                <input type="file" accept=".xml" onChange={handleDayBook} className={fileInputCls} />
+              </div>
+            </div>
+            <p className="text-[11px] text-slate-500">
+              Deductions in the books are read from the Tally Day Book XML (the Excel journal register keeps only one credit
+              per voucher, so it can't show the TDS line). Deposits are read from the journal register's TDS Payable / bank entries.
+            </p>
+          </div>
+        </div>
+
+        {status && (
+          <div className={`rounded-lg border p-3 text-xs ${status.tone === 'ok' ? 'border-emerald-200 bg-emerald-50 text-emerald-700' : 'border-rose-200 bg-rose-50 text-rose-700'}`}>
+            {status.text}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {TDS_SECTIONS.map((s) => (
+            <div key={s} className="rounded-lg bg-white border border-slate-200 p-3">
+              <p className="text-[11px] text-slate-500 mb-0.5">{s} · {SECTION_RULES[s].label}</p>
+              <p className="text-lg font-semibold text-slate-800">{rupees(ledger.bySection[s].deducted)}</p>
+              <p className="text-[11px] text-slate-400">
+                on {rupees(ledger.bySection[s].paid)} · {ledger.bySection[s].deductees} deductee{ledger.bySection[s].deductees === 1 ? '' : 's'}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        {ledger.issues.length > 0 && (
+          <SectionCard title={`To fix (${ledger.issues.length})`} description="Short deductions carry interest from the date of credit; fix them before the quarter's return.">
+            <ul className="space-y-1.5 text-xs">
+              {ledger.issues.map((i, idx) => (
+                <li key={idx} className="flex items-start gap-2">
+                  <Pill size="xs" color={ISSUE_LABELS[i.kind].color}>{ISSUE_LABELS[i.kind].label}</Pill>
+                  <span className="text-slate-700">
+                    <span className="font-medium">{i.party}</span>
+                    {i.section ? ` · ${i.section}` : ''} — {i.message}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </SectionCard>
+        )}
+
+        <SectionCard title="Deposits and returns" description="TDS deducted in a month is due by the 7th of the next (March: 30 April). Record each challan so the 26Q rows link to it.">
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-50 text-slate-500 uppercase text-[10px] tracking-wider">
+                <tr>
+                  <th className="text-left px-3 py-2 font-medium">Month</th>
+                  <th className="text-right px-3 py-2 font-medium">Deducted</th>
+                  <th className="text-right px-3 py-2 font-medium">Challans</th>
+                  <th className="text-right px-3 py-2 font-medium">Per books</th>
+                  <th className="text-right px-3 py-2 font-medium">Balance</th>
+                  <th className="text-left px-3 py-2 font-medium">Due</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {ledger.quarters.map((q) => (
+                  <QuarterRows key={q.quarter} quarter={q} onDownload={() => download26Q(ledger, q.quarter, tds)} />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </SectionCard>
+
+        <SectionCard title="Deductees" description="Payments for the year per deductee and section against the threshold. PANs come from the vendor's GSTIN until one is saved.">
+          {ledger.deductees.length === 0 ? (
+            <p className="text-xs text-slate-400">No TDS deductions found for FY {fy}.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-50 text-slate-500 uppercase text-[10px] tracking-wider">
+                  <tr>
+                    <th className="text-left px-3 py-2 font-medium">Deductee</th>
+                    <th className="text-left px-3 py-2 font-medium">Section</th>
+                    <th className="text-left px-3 py-2 font-medium">PAN</th>
+                    <th className="text-right px-3 py-2 font-medium">Paid</th>
+                    <th className="text-right px-3 py-2 font-medium">Deducted</th>
+                    <th className="text-right px-3 py-2 font-medium">Due</th>
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {ledger.deductees.map((d) => (
+                    <tr key={`${d.party}|${d.section}`} className="align-top hover:bg-slate-50">
+                      <td className="px-3 py-2 text-slate-700">
+                        {d.party}
+                        <div className="text-[10px] text-slate-400">
+                          {d.deducteeType === 'company' ? 'Company' : 'Non-company'} · {d.entries.length} payment{d.entries.length === 1 ? '' : 's'}
+                        </div>
+                      </td>
+                      <td className="px-3 py-2 text-slate-600">
+                        {d.section} @ {d.rate}%
+                        {d.certificate && <div className="text-[10px] text-violet-600">197 cert {d.certificate.number}</div>}
+                      </td>
+                      <td className="px-3 py-2">
+                        {d.pan ? <span className="font-mono text-[11px] text-slate-700">{d.pan}</span> : <Pill size="xs" color="rose">Missing</Pill>}
+                        {d.panSource === 'gstin' && <div className="text-[10px] text-slate-400">from GSTIN</div>}
+                      </td>
+                      <td className="px-3 py-2 text-right tabular-nums text-slate-700">
+                        {rupees(d.paid)}
+                        <div className="mt-0.5">
+                          <Pill size="xs" color={d.thresholdCrossed ? 'amber' : 'slate'}>{d.thresholdCrossed ? 'Over threshold' : 'Under threshold'}</Pill>
+                        </div>
+                      </td>
+                      <td className="px-3 py-2 text-right tabular-nums text-slate-700">{rupees(d.deducted)}</td>
+                      <td className={`px-3 py-2 text-right tabular-nums ${d.thresholdCrossed && d.expected - d.deducted > 1 ? 'text-rose-600' : 'text-slate-500'}`}>
+                        {d.thresholdCrossed ? rupees(d.expected) : '—'}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        <button onClick={() => setEditing(d)} className="px-2 py-1 text-[11px] rounded bg-slate-100 text-slate-600 hover:bg-slate-200">
+                          PAN / 197
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {editing && (
+            <DeducteeEditor
+              key={`${editing.party}|${editing.section}`}
+              row={editing}
+              onCancel={() => setEditing(null)}
+              onSave={(deductee) =>
+                run(async () => {
+                  await saveDeductee(deductee, user.trim());
+                  setEditing(null);
+                  return `Saved ${deductee.party}.`;
+                })
+              }
+            />
+          )}
+        </SectionCard>
+
+        <SectionCard title="Challans" description="Deposits made through the income-tax portal (ITNS 281), one per section and month.">
+          <ChallanForm
+            onAdd={(challan) =>
+              run(async () => {
+                await addChallan(challan, user.trim());
+                return `Challan ${challan.challanSerial} recorded.`;
+              })
+            }
+          />
+          {tds.challans.length > 0 && (
+            <table className="w-full text-xs mt-4">
+              <thead className="bg-slate-50 text-slate-500 uppercase text-[10px] tracking-wider">
+                <tr>
+                  <th className="text-left px-3 py-2 font-medium">For month</th>
+                  <th className="text-left px-3 py-2 font-medium">Section</th>
+                  <th className="text-left px-3 py-2 font-medium">BSR · Serial</th>
+                  <th className="text-left px-3 py-2 font-medium">Deposited</th>
+                  <th className="text-right px-3 py-2 font-medium">TDS</th>
+                  <th className="text-right px-3 py-2 font-medium">Interest + fee</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {[...tds.challans].sort((a, b) => b.month.localeCompare(a.month)).map((c) => (
+                  <tr key={c.id}>
+                    <td className="px-3 py-1.5 text-slate-700">{monthLabel(c.month)}</td>
+                    <td className="px-3 py-1.5 text-slate-600">{c.section}</td>
+                    <td className="px-3 py-1.5 font-mono text-[11px] text-slate-500">{c.bsrCode} · {c.challanSerial}</td>
+                    <td className="px-3 py-1.5 text-slate-600">{c.depositedOn}</td>
+                    <td className="px-3 py-1.5 text-right tabular-nums text-slate-700">{rupees(c.tds)}</td>
+                    <td className="px-3 py-1.5 text-right tabular-nums text-slate-500">{rupees(c.interest + c.fee)}</td>
+                    <td className="px-3 py-1.5 text-right">
+                      <button
+                        onClick={() => run(async () => {
+                          await removeChallan(c.id, user.trim());
+                          return 'Challan removed.';
+                        })}
+                        className="text-[11px] text-rose-600 hover:underline"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </SectionCard>
+      </div>
+    </>
+  );
+}
+
+function QuarterRows({ quarter, onDownload }: { quarter: TdsQuarter; onDownload: () => void }) {
+  return (
+    <>
+      <tr className="bg-slate-50/60">
+        <td className="px-3 py-2 font-semibold text-slate-800">{quarter.label}</td>
+        <td className="px-3 py-2 text-right tabular-nums font-semibold text-slate-800">{rupees(quarter.deducted)}</td>
+        <td className="px-3 py-2 text-right tabular-nums font-semibold text-slate-800">{rupees(quarter.challans)}</td>
+        <td />
+        <td className={`px-3 py-2 text-right tabular-nums font-semibold ${quarter.balance > 1 ? 'text-rose-600' : 'text-slate-800'}`}>{rupees(quarter.balance)}</td>
+        <td className="px-3 py-2 text-slate-600">
+          <div className="flex items-center justify-between gap-2">
+            <span>26Q by {quarter.returnDueDate}</span>
+            <button
+              onClick={onDownload}
+              disabled={quarter.deducted === 0}
+              className="px-2.5 py-1 bg-emerald-500 hover:bg-emerald-600 disabled:bg-slate-200 disabled:text-slate-400 text-white text-[11px] font-medium rounded-md transition-colors"
+            >
+              26Q file
+            </button>
+          </div>
+        </td>
+      </tr>
+      {quarter.months.map((m) => (
+        <tr key={m.month}>
+          <td className="px-3 py-1.5 pl-6 text-slate-600">{monthLabel(m.month)}</td>
+          <td className="px-3 py-1.5 text-right tabular-nums text-slate-700">{rupees(m.deducted)}</td>
+          <td className="px-3 py-1.5 text-right tabular-nums text-slate-700">{rupees(m.challans)}</td>
+          <td className="px-3 py-1.5 text-right tabular-nums text-slate-400">{rupees(m.books)}</td>
+          <td className={`px-3 py-1.5 text-right tabular-nums ${m.balance > 1 ? 'text-rose-600' : 'text-slate-400'}`}>{rupees(m.balance)}</td>
+          <td className="px-3 py-1.5 text-slate-500">
+            {m.dueDate} {m.overdue && <Pill size="xs" color="rose">Overdue</Pill>}
+          </td>
+        </tr>
+      ))}
+    </>
+  );
+}
+
+function DeducteeEditor({
+  row,
+  onSave,
+  onCancel,
+}: {
+  row: TdsDeducteeSection;
+  onSave: (d: { party: string; pan: string; deducteeType: DeducteeType; certificate: TdsDeducteeSection['certificate'] }) => void;
+  onCancel: () => void;
+}) {
+  const [pan, setPan] = useState(row.pan || '');
+  const [deducteeType, setDeducteeType] = useState<DeducteeType>(row.deducteeType);
+  const [hasCert, setHasCert] = useState(!!row.certificate);
+  const [cert, setCert] = useState({
+    number: row.certificate?.number || '',
+    rate: String(row.certificate?.rate ?? ''),
+    validFrom: row.certificate?.validFrom || '',
+    validTo: row.certificate?.validTo || '',
+    limit: row.certificate?.limit != null ? String(row.certificate.limit) : '',
+  });
+
+  const save = () =>
+    onSave({
+      party: row.party,
+      pan: pan.trim().toUpperCase(),
+      deducteeType,
+      certificate: hasCert
+        ? {
+            number: cert.number.trim(),
+            section: row.section,
+            rate: Number(cert.rate) || 0,
+            validFrom: cert.validFrom,
+            validTo: cert.validTo,
+            limit: cert.limit ? Number(cert.limit) : null,
+          }
+        : null,
+    });
+
+  return (
+    <div className="mt-4 rounded-lg border border-slate-200 bg-slate-50 p-4 space-y-3">
+      <div className="text-sm font-semibold text-slate-900">{row.party} · {row.section}</div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <label className="block text-xs text-slate-500">
+          PAN
+          <input value={pan} onChange={(e) => setPan(e.target.value)} className={`${selectCls} mt-1 font-mono`} />
+        </label>
+        <label className="block text-xs text-slate-500">
+          Deductee
+          <select value={deducteeType} onChange={(e) => setDeducteeType(e.target.value as DeducteeType)} className={`${selectCls} mt-1`}>
+            <option value="company">Company</option>
+            <option value="non-company">Individual / HUF / firm</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-xs text-slate-600 sm:col-span-2 mt-5">
+          <input type="checkbox" checked={hasCert} onChange={(e) => setHasCert(e.target.checked)} />
+          Holds a lower-deduction certificate (section 197) for {row.section}
+        </label>
+      </div>
+      {hasCert && (
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+          <label className="block text-xs text-slate-500">
+            Certificate no.
+            <input value={cert.number} onChange={(e) => setCert({ ...cert, number: e.target.value })} className={`${selectCls} mt-1`} />
+          </label>
+          <label className="block text-xs text-slate-500">
+            Rate (%)
+            <input type="number" step="0.01" value={cert.rate} onChange={(e) => setCert({ ...cert, rate: e.target.value })} className={`${selectCls} mt-1`} />
+          </label>
+          <label className="block text-xs text-slate-500">
+            Valid from
+            <input type="date" value={cert.validFrom} onChange={(e) => setCert({ ...cert, validFrom: e.target.value })} className={`${selectCls} mt-1`} />
+          </label>
+          <label className="block text-xs text-slate-500">
+            Valid to
+            <input type="date" value={cert.validTo} onChange={(e) => setCert({ ...cert, validTo: e.target.value })} className={`${selectCls} mt-1`} />
+          </label>
+          <label className="block text-xs text-slate-500">
+            Amount limit (₹)
+            <input type="number" value={cert.limit} onChange={(e) => setCert({ ...cert, limit: e.target.value })} placeholder="No cap" className={`${selectCls} mt-1`} />
+          </label>
+        </div>
+      )}
+      <div className="flex gap-2">
+        <button onClick={save} className="px-4 py-1.5 bg-emerald-500 hover:bg-emerald-600 text-white text-xs font-medium rounded-lg transition-colors">
+          Save
+        </button>
+        <button onClick={onCancel} className="px-4 py-1.5 bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 text-xs font-medium rounded-lg transition-colors">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function ChallanForm({
+  onAdd,
+}: {
+  onAdd: (c: { section: TdsSection; month: string; bsrCode: string; challanSerial: string; depositedOn: string; tds: number; interest: number; fee: number }) => void;
+}) {
+  const [form, setForm] = useState({ section: '194C' as TdsSection, month: '', bsrCode: '', challanSerial: '', depositedOn: '', tds: '', interest: '', fee: '' });
+  const set = (k: keyof typeof form) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => setForm({ ...form, [k]: e.target.value });
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-9 gap-3 items-end">
+      <label className="block text-xs text-slate-500">
+        Section
+        <select value={form.section} onChange={set('section')} className={`${selectCls} mt-1`}>
+          {TDS_SECTIONS.map((s) => (
+            <option key={s} value={s}>{s}</option>
+          ))}
+        </select>
+      </label>
+      <label className="block text-xs text-slate-500 sm:col-span-2">
+        Deductions of
+        <input type="month" value={form.month} onChange={set('month')} className={`${selectCls} mt-1`} />
+      </label>
+      <label className="block text-xs text-slate-500">
+        BSR code
+        <input value={form.bsrCode} onChange={set('bsrCode')} maxLength={7} className={`${selectCls} mt-1 font-mono`} />
+      </label>
+      <label className="block text-xs text-slate-500">
+        Serial
+        <input value={form.challanSerial} onChange={set('challanSerial')} maxLength={5} className={`${selectCls} mt-1 font-mono`} />
+      </label>
+      <label className="block text-xs text-slate-500 sm:col-span-2">
+        Deposited on
+        <input type="date" value={form.depositedOn} onChange={set('depositedOn')} className={`${selectCls} mt-1`} />
+      </label>
+      <label className="block text-xs text-slate-500">
+        TDS (₹)
+        <input type="number" value={form.tds} onChange={set('tds')} className={`${selectCls} mt-1`} />
+      </label>
+      <button
+        onClick={() =>
+          onAdd({
+            section: form.section,
+            month: form.month,
+            bsrCode: form.bsrCode.trim(),
+            challanSerial: form.challanSerial.trim(),
+            depositedOn: form.depositedOn,
+            tds: Number(form.tds) || 0,
+            interest: Number(form.interest) || 0,
+            fee: Number(form.fee) || 0,
+          })
+        }
+        disabled={!form.month || !form.depositedOn || !form.tds}
+        className="px-4 py-2 bg-amber-500 hover:bg-amber-600 disabled:bg-slate-200 disabled:text-slate-400 text-white text-xs font-medium rounded-lg transition-colors"
+      >
+        Add challan
+      </button>
+      <label className="block text-xs text-slate-500">
+        Interest (₹)
+        <input type="number" value={form.interest} onChange={set('interest')} className={`${selectCls} mt-1`} />
+      </label>
+      <label className="block text-xs text-slate-500">
+        Late fee (₹)
+        <input type="number" value={form.fee} onChange={set('fee')} className={`${selectCls} mt-1`} />
+      </label>
+    </div>
+  );
+}
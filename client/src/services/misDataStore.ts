@@ -17,6 +17,7 @@ import {
   HeadTransactions,
   SubheadTransactions,
 } from '../types/monthlyMIS';
+import { PeriodLockedError } from '../types/periodClose';
 
 // ============================================
 // MIS DATA STORE
@@ -24,6 +25,34 @@ import {
 
 class MISDataStore {
   private monthlyRecords: Map<string, MonthlyMISRecord> = new Map();
+  private lockedMonths: Set<string> = new Set();
+
+  // ----------------------------------------
+  // PERIOD LOCKS
+  // ----------------------------------------
+
+  /**
+   * Replace the set of locked months (synced from the period close API)
+   */
+  setLockedMonths(months: string[]): void {
+    this.lockedMonths = new Set(months);
+  }
+
+  /**
+   * Check if a month has been locked by the close workflow
+   */
+  isMonthLocked(month: string): boolean {
+    return this.lockedMonths.has(month);
+  }
+
+  /**
+   * Throw if a month is locked — re-parses must go through a reopen
+   */
+  private assertMonthWritable(month: string): void {
+    if (this.lockedMonths.has(month)) {
+      throw new PeriodLockedError(month);
+    }
+  }
 
   // ----------------------------------------
   // GETTERS
@@ -78,6 +107,15 @@ class MISDataStore {
    * Store Balance Sheet data for a specific month and state
    */
   storeBSData(month: string, state: string, bsData: Omit<MonthlyBSData, 'month' | 'state'>): void {
+    this.assertMonthWritable(month);
+    this.restoreBSData(month, state, bsData);
+  }
+
+  /**
+   * Load previously saved BS data into the store without the lock check.
+   * Used when hydrating from storage — that isn't a re-parse.
+   */
+  restoreBSData(month: string, state: string, bsData: Omit<MonthlyBSData, 'month' | 'state'>): void {
     const record = this.getOrCreateMonth(month);
 
     record.bsDataByState[state] = {
@@ -113,6 +151,7 @@ class MISDataStore {
    * Store parsed journal entries for a month
    */
   storeJournalEntries(month: string, entries: ParsedJournalEntry[], filename: string): void {
+    this.assertMonthWritable(month);
     const record = this.getOrCreateMonth(month);
 
     // Replace existing entries for this month
@@ -135,6 +174,7 @@ class MISDataStore {
    * Add journal entries (append mode)
    */
   addJournalEntries(month: string, entries: ParsedJournalEntry[]): void {
+    this.assertMonthWritable(month);
     const record = this.getOrCreateMonth(month);
     record.transactions.journalEntries.push(...entries);
     this.rebuildHeadClassification(record);
@@ -150,6 +190,7 @@ class MISDataStore {
    * Store parsed sales entries for a month
    */
   storeSalesEntries(month: string, entries: ParsedSalesEntry[], filename: string): void {
+    this.assertMonthWritable(month);
     const record = this.getOrCreateMonth(month);
 
     record.transactions.salesEntries = entries;
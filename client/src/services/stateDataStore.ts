@@ -9,6 +9,7 @@ import {
   StateSalesRegister,
   StatePurchaseRegister,
   StateJournalRegister,
+  StateDayBook,
   MonthlyMISData,
   MonthlyMISAggregated,
   RangeMISData,
@@ -86,6 +87,17 @@ export function storeJournalRegister(month: string, state: StateName, jr: StateJ
   });
 }
 
+export function storeDayBook(month: string, state: StateName, db: StateDayBook): void {
+  const data = getOrCreateStateData(month, state);
+  data.dayBook = db;
+  data.dbUploadedAt = new Date().toISOString();
+  console.log(`[StateDataStore] Stored DB for ${month}:${state}`, {
+    company: db.company,
+    vouchers: db.vouchers.length,
+    byKind: db.countsByKind
+  });
+}
+
 // ============================================
 // QUERY FUNCTIONS
 // ============================================
@@ -454,6 +466,7 @@ export function getStoreStats(): { totalEntries: number; months: string[]; entri
         if (data.salesRegister) files.push('SR');
         if (data.purchaseRegister) files.push('PR');
         if (data.journalRegister) files.push('JR');
+        if (data.dayBook) files.push('DB');
         if (files.length > 0) {
           entriesByMonth[month].push(`${state}(${files.join(',')})`);
         }
@@ -68,6 +68,28 @@ export interface PLAccountData {
   creditTotal: number;
 }
 
+/**
+ * Closing position from the Balance Sheet proper (Liabilities / Assets),
+ * by Tally / Busy group. Feeds the cash flow statement and the
+ * working-capital metrics; amounts are closing balances for the period.
+ */
+export interface BalanceSheetPosition {
+  // Liabilities
+  capital: number;            // Capital Account + Reserves & Surplus
+  loans: number;              // Loans (Liability): secured, unsecured, bank OD
+  sundryCreditors: number;    // Trade payables
+  dutiesAndTaxes: number;     // GST / TDS payable; negative when input credit exceeds output
+  provisions: number;
+
+  // Assets
+  fixedAssets: number;        // Net block
+  investments: number;
+  closingStock: number;
+  sundryDebtors: number;      // Trade receivables
+  loansAndAdvances: number;   // Loans & Advances (Asset) + Deposits (Asset)
+  cash: number;               // Cash-in-Hand + Bank Accounts
+}
+
 /**
  * Complete Enhanced Balance Sheet Data
  * Contains all parsed data from Trading + P&L
@@ -104,6 +126,9 @@ export interface EnhancedBalanceSheetData {
   isBalanced: boolean;
   tradingBalanceDiff: number;  // Should be 0
   plBalanceDiff: number;       // Should be 0
+
+  // Balance Sheet proper, when the upload includes it
+  position?: BalanceSheetPosition;
 }
 
 /**
@@ -177,3 +202,22 @@ export function createEmptyEnhancedBalanceSheet(): EnhancedBalanceSheetData {
     plBalanceDiff: 0
   };
 }
+
+/**
+ * Create an all-zero Balance Sheet position
+ */
+export function createEmptyBalanceSheetPosition(): BalanceSheetPosition {
+  return {
+    capital: 0,
+    loans: 0,
+    sundryCreditors: 0,
+    dutiesAndTaxes: 0,
+    provisions: 0,
+    fixedAssets: 0,
+    investments: 0,
+    closingStock: 0,
+    sundryDebtors: 0,
+    loansAndAdvances: 0,
+    cash: 0
+  };
+}
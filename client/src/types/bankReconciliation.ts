@@ -0,0 +1,76 @@
+// Bank Reconciliation Types
+// Statement lines from the bank exports, bank-side entries from the Tally
+// journal register, and the pairs the matching engine makes between them.
+
+import type { JournalEntry } from './stateData';
+
+export type BankId = 'icici' | 'hdfc' | 'central' | 'easebuzz';
+
+/**
+ * One line of a bank statement (or an Easebuzz payout). Dates are ISO
+ * (YYYY-MM-DD); exactly one of debit / credit is non-zero.
+ */
+export interface BankStatementLine {
+  id: string;
+  bank: BankId;
+  row: number;              // 1-based row in the source sheet, for tracing back
+  date: string;
+  narration: string;
+  reference: string;        // Cheque / UTR / bank reference, when the export has one
+  debit: number;            // Withdrawal — money out of the account
+  credit: number;           // Deposit — money into the account
+  balance: number | null;   // Running balance after the line, when the export has one
+}
+
+export interface BankStatementParseResult {
+  bank: BankId;
+  lines: BankStatementLine[];
+  fromDate: string | null;
+  toDate: string | null;
+  closingBalance: number | null;
+  warnings: string[];
+}
+
+/**
+ * A journal register entry that touches the bank ledger, seen from the
+ * bank's side: a receipt debits the bank (statement credit), a payment
+ * credits it (statement debit).
+ */
+export interface BookEntry {
+  id: string;
+  date: string;             // ISO
+  amount: number;
+  direction: 'receipt' | 'payment';
+  counterParty: string;     // The other side of the voucher
+  source: JournalEntry;
+}
+
+export interface ReconciliationPair {
+  line: BankStatementLine;
+  entry: BookEntry;
+  score: number;            // 0–100
+  dayGap: number;
+  reasons: string[];
+}
+
+export interface ReconciliationResult {
+  matched: ReconciliationPair[];
+  suggested: ReconciliationPair[];
+  unmatchedLines: BankStatementLine[];
+  unmatchedEntries: BookEntry[];
+}
+
+/**
+ * Bank Reconciliation Statement: balance as per bank, adjusted for the
+ * unmatched items on either side, gives the balance the books should show.
+ */
+export interface BrsSummary {
+  bank: BankId;
+  asOf: string | null;
+  balancePerBank: number | null;
+  depositsNotCredited: BookEntry[];      // Receipts in books, not yet in the bank
+  paymentsNotPresented: BookEntry[];     // Payments in books, not yet debited by the bank
+  bankDebitsNotInBooks: BankStatementLine[];
+  bankCreditsNotInBooks: BankStatementLine[];
+  balancePerBooks: number | null;
+}
@@ -0,0 +1,18 @@
+// Budget - Types
+// Annual operating plan figures for the MIS Sheet lines. Mirrors
+// server/src/services/budgetStore.ts.
+
+export interface BudgetCell {
+  monthKey: string;
+  entity: string;
+  line: string;
+  /** null clears the cell */
+  value: number | null;
+}
+
+export interface BudgetState {
+  /** monthKey ("YYYY-MM") → entity ("company" | channel) → MisPoint field → ₹ */
+  months: Record<string, Record<string, Record<string, number>>>;
+  updatedAt: string;
+  updatedBy: string;
+}
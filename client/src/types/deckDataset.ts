@@ -0,0 +1,69 @@
+// Deck Dataset - Types
+// Versioned snapshots of the MIS deck's source data: the monthly P&L from
+// MIS-Sheet_FINAL_channels plus the SKU, measured-ad and channel-actuals
+// feeds. Mirrors server/src/services/deckDatasetStore.ts.
+
+import type {
+  MonthlyMIS,
+  FYSummary,
+  D2CRepeatMonth,
+  AmazonRepeatMonth,
+  DiscountMonth,
+} from '../data/misDeck/misDeckData';
+import type { SkuCell } from '../data/misDeck/skuChannelPnl';
+import type { AdMix } from '../data/misDeck/adMeasured';
+import type { AmazonActual, BlinkitActual, D2CCost } from '../data/misDeck/channelActuals';
+
+export type DeckFeed = 'mis' | 'sku' | 'ads' | 'channels';
+
+export const DECK_FEEDS: DeckFeed[] = ['mis', 'sku', 'ads', 'channels'];
+
+export interface DeckDataset {
+  mis: {
+    sourceFile: string;
+    generatedAt: string;
+    months: MonthlyMIS[];
+    fySummary: FYSummary[];
+    d2cRepeats: D2CRepeatMonth[];
+    amazonRepeats: AmazonRepeatMonth[];
+    discounts: DiscountMonth[];
+    d2cAdSpend: Record<string, number>;
+    amazonAdSpend: Record<string, number>;
+  };
+  sku: { cells: SkuCell[] };
+  ads: { d2cMix: AdMix[]; amazonMix: AdMix[]; amazonMonthly: Record<string, number> };
+  channels: {
+    blinkit: Record<string, BlinkitActual>;
+    amazon: Record<string, AmazonActual>;
+    d2c: Record<string, D2CCost>;
+  };
+}
+
+export interface DeckDatasetVersion {
+  version: number;
+  createdAt: string;
+  createdBy: string;
+  note: string;
+  /** Version this snapshot was built on (null for a full upload). */
+  basedOn: number | null;
+  /** Feeds replaced in this snapshot; the rest are carried from `basedOn`. */
+  feeds: DeckFeed[];
+  sourceFiles: Partial<Record<DeckFeed, string>>;
+  firstMonth: string;
+  lastMonth: string;
+  counts: { months: number; skuCells: number; adRows: number; channelMonths: number };
+  warnings: string[];
+}
+
+export interface DeckActivation {
+  version: number;
+  at: string;
+  by: string;
+}
+
+export interface DeckDatasetIndex {
+  active: number | null;
+  versions: DeckDatasetVersion[];
+  activations: DeckActivation[];
+  nextVersion: number;
+}
@@ -0,0 +1,123 @@
+// GST Return Reconciliation Types
+// Invoices as the GST portal reports them (GSTR-1 for outward supplies,
+// GSTR-2B for inward ITC), invoices as the books carry them (sales /
+// purchase registers), and the invoice-by-invoice match between the two.
+
+import type { StateName } from './stateData';
+
+export type GstReturnType = 'GSTR1' | 'GSTR2B';
+
+export const GST_RETURN_LABELS: Record<GstReturnType, string> = {
+  GSTR1: 'GSTR-1 ↔ Sales register',
+  GSTR2B: 'GSTR-2B ↔ Purchase register',
+};
+
+/** Two-digit GST state code at the start of each entity's GSTIN. */
+export const STATE_GST_CODES: Record<StateName, string> = {
+  UP: '09',
+  MH: '27',
+  KA: '29',
+  HR: '06',
+  TG: '36',
+};
+
+export interface GstTaxSplit {
+  taxable: number;
+  igst: number;
+  cgst: number;
+  sgst: number;
+  cess: number;
+}
+
+/**
+ * One document on the portal. Credit notes carry negative values so a
+ * return's invoices sum to its net liability / ITC.
+ */
+export interface PortalInvoice extends GstTaxSplit {
+  counterpartyGstin: string;  // Recipient (GSTR-1) or supplier (GSTR-2B)
+  counterpartyName?: string;
+  invoiceNo: string;
+  date: string | null;        // ISO
+  value: number;              // Invoice value incl. tax
+  docType: 'invoice' | 'credit-note' | 'debit-note';
+  itcAvailable?: boolean;     // GSTR-2B only — false when the portal marks ITC ineligible
+  itcReason?: string;
+}
+
+export interface ParsedGstReturn {
+  returnType: GstReturnType;
+  gstin: string | null;       // Own GSTIN, when the file names it
+  period: string | null;      // "YYYY-MM"
+  invoices: PortalInvoice[];
+  /** GSTR-1 B2C supplies reported in aggregate (B2CS) or without a GSTIN (B2CL). */
+  b2c: GstTaxSplit | null;
+  warnings: string[];
+}
+
+/** One invoice in the books, grouped from register entries. */
+export interface BookInvoice extends GstTaxSplit {
+  counterpartyGstin: string | null;
+  party: string;
+  invoiceNo: string;
+  date: string;
+  entries: number;            // Register lines folded into this invoice
+}
+
+export type GstMatchStatus = 'matched' | 'mismatch' | 'missing-in-books' | 'missing-in-portal';
+
+export interface GstReconLine {
+  status: GstMatchStatus;
+  book: BookInvoice | null;
+  portal: PortalInvoice | null;
+  /** Book − portal, per head; zero when matched. */
+  diff: GstTaxSplit;
+  /** GSTR-2B only: input tax the books claim that the portal doesn't support. */
+  itcAtRisk: number;
+  notes: string[];
+}
+
+export interface GstSupplierRisk {
+  gstin: string;
+  name: string;
+  invoices: number;
+  itcAtRisk: number;
+}
+
+export interface GstReconCounts {
+  matched: number;
+  mismatch: number;
+  missingInBooks: number;
+  missingInPortal: number;
+}
+
+export interface GstReconResult {
+  returnType: GstReturnType;
+  lines: GstReconLine[];
+  counts: GstReconCounts;
+  bookTax: number;            // Total GST per the books (B2B invoices)
+  portalTax: number;          // Total GST per the return (B2B invoices)
+  itcAtRisk: number;
+  suppliers: GstSupplierRisk[];  // GSTR-2B only, highest risk first
+  b2c: { books: GstTaxSplit; portal: GstTaxSplit } | null;  // GSTR-1 only
+  unnumbered: number;         // Register lines with no invoice number, left out
+}
+
+/**
+ * What is kept per GSTIN, period and return once a reconciliation has run
+ * — the Accounts compliance page reads these. Mirrors
+ * server/src/services/gstReconStore.ts.
+ */
+export interface GstReconSummary {
+  gstin: string;
+  state: StateName;
+  period: string;
+  returnType: GstReturnType;
+  counts: GstReconCounts;
+  bookTax: number;
+  portalTax: number;
+  itcAtRisk: number;
+  suppliers: GstSupplierRisk[];
+  source: string;             // Uploaded return file name
+  reconciledAt: string;
+  reconciledBy: string;
+}
@@ -0,0 +1,99 @@
+// Inventory Valuation Types
+// Stock as Tranzact reports it (the stock summary and the per-item movement
+// export), valued per item at weighted average cost, aged by when the stock
+// on hand came in, and rolled up to month-end closing stock for comparison
+// with the Tally closing stock the MIS uses.
+
+export type StockClass = 'FG' | 'RM';
+
+export const STOCK_CLASS_LABELS: Record<StockClass, string> = {
+  FG: 'Finished goods',
+  RM: 'Raw materials & packing',
+};
+
+/** One item line of the Tranzact stock summary. */
+export interface StockSummaryItem {
+  itemId: string;
+  itemName: string;
+  stockClass: StockClass;
+  uom: string;
+  openingQty: number;
+  inwardQty: number;
+  outwardQty: number;
+  closingQty: number;
+  closingValue: number | null;  // When the export carries a value column
+  rate: number | null;          // Average / unit price column
+  store?: string;               // When the export is store-wise
+}
+
+export interface StockSummary {
+  asOf: string | null;          // YYYY-MM-DD, from the report header or file name
+  items: StockSummaryItem[];
+  warnings: string[];
+}
+
+/** One row of the per-item movement export. Quantities are positive. */
+export interface StockMovement {
+  date: string;                 // YYYY-MM-DD
+  itemId: string;
+  itemName: string;
+  stockClass: StockClass;
+  type: string;                 // As Tranzact names it: GRN, Invoice, Production, Adjustment…
+  document: string;
+  inQty: number;
+  outQty: number;
+  rate: number | null;          // Unit cost on inward rows, when present
+}
+
+export interface StockMovementsFile {
+  movements: StockMovement[];
+  from: string | null;
+  to: string | null;
+  warnings: string[];
+}
+
+export type AgeBucket = '0-30' | '31-60' | '61-90' | '91-180' | '180+';
+
+export const AGE_BUCKETS: AgeBucket[] = ['0-30', '31-60', '61-90', '91-180', '180+'];
+
+export type MovementFlag = 'non-moving' | 'slow-moving';
+
+export interface ItemValuation {
+  itemId: string;
+  itemName: string;
+  stockClass: StockClass;
+  uom: string;
+  closingQty: number;
+  rate: number;                 // Weighted average unit cost
+  value: number;
+  rateSource: 'movements' | 'summary' | 'fg-master' | 'none';
+  /** Value of the stock on hand by age of receipt (FIFO); empty without movements. */
+  ageing: Partial<Record<AgeBucket, number>>;
+  outwardLast90: number;        // Quantity
+  daysOfCover: number | null;   // Closing qty ÷ average daily outward (last 90 days)
+  lastOutward: string | null;
+  flag: MovementFlag | null;
+}
+
+export interface MonthlyClosingStock {
+  month: string;                // "YYYY-MM"
+  fg: number;
+  rm: number;
+  total: number;
+}
+
+export interface InventoryValuation {
+  asOf: string;
+  items: ItemValuation[];
+  totals: Record<StockClass, number>;
+  ageing: Record<AgeBucket, number>;
+  monthly: MonthlyClosingStock[];
+  warnings: string[];
+}
+
+export interface ClosingStockReconRow {
+  month: string;
+  derived: number;
+  tally: number | null;
+  difference: number | null;    // derived − tally
+}
@@ -1,6 +1,8 @@
 // MIS Tracking New - Types and Interfaces
 
 import { IndianState, Transaction } from './index';
+import type { ReclassificationEntry } from './reclassification';
+import type { BalanceSheetPosition } from './balanceSheet';
 
 // ============================================
 // PERIOD & STATE MANAGEMENT
@@ -226,6 +228,12 @@ export interface MISRecord {
   // Ignored and excluded transaction counts/amounts
   ignoredTotal?: number;
   excludedTotal?: number;
+
+  // Manual reclassifications replayed from the period's log
+  reclassifications?: {
+    applied: number;
+    unmatched: ReclassificationEntry[];
+  };
 }
 
 // ============================================
@@ -378,6 +386,8 @@ export interface StateBalanceSheetData {
   netSales: number;
   grossProfit: number;
   netProfitLoss: number;  // Positive = profit, Negative = loss
+  // Closing Liabilities / Assets by group, when the upload includes the Balance Sheet
+  position?: BalanceSheetPosition;
 }
 
 // Aggregated Balance Sheet data for MIS reconciliation
@@ -393,6 +403,8 @@ export interface AggregatedBalanceSheetData {
   calculatedCOGS: number;
   // Inter-company stock transfers (to be excluded from revenue comparison)
   stockTransfers?: number;
+  // Closing Liabilities / Assets summed across the states that uploaded one
+  position?: BalanceSheetPosition;
 }
 
 // ============================================
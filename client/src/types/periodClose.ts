@@ -0,0 +1,38 @@
+// Period Close - Types
+// Close workflow for monthly MIS periods: draft → under review → locked.
+// Mirrors server/src/services/periodCloseStore.ts.
+
+export type PeriodCloseStatus = 'draft' | 'under_review' | 'locked';
+export type PeriodCloseAction = 'submit' | 'return' | 'lock' | 'reopen';
+
+export interface PeriodCloseEvent {
+  action: PeriodCloseAction;
+  from: PeriodCloseStatus;
+  to: PeriodCloseStatus;
+  by: string;
+  at: string;
+  reason?: string;
+}
+
+export interface PeriodCloseRecord {
+  periodKey: string;
+  status: PeriodCloseStatus;
+  updatedAt: string;
+  updatedBy: string;
+  lockedAt?: string;
+  lockedBy?: string;
+  history: PeriodCloseEvent[];
+}
+
+export const PERIOD_STATUS_LABELS: Record<PeriodCloseStatus, string> = {
+  draft: 'Draft',
+  under_review: 'Under review',
+  locked: 'Locked',
+};
+
+export class PeriodLockedError extends Error {
+  constructor(public readonly periodKey: string, message?: string) {
+    super(message || `Period ${periodKey} is locked. Reopen it (with a reason) before changing it.`);
+    this.name = 'PeriodLockedError';
+  }
+}
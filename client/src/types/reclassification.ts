@@ -0,0 +1,38 @@
+// Reclassification Log - Types
+// Append-only record of manual head/subhead moves made in the enhanced MIS
+// report. Mirrors server/src/services/reclassificationLog.ts.
+
+import { MISHead, TransactionRef } from './misTracking';
+
+export interface ReclassificationEntry {
+  id: string;
+  periodKey: string;
+  transactionId: string;
+  /**
+   * Stable identity of the transaction across re-parses (transaction ids are
+   * regenerated on every upload). See reclassificationMatchKey().
+   */
+  matchKey: string;
+  account: string;
+  amount: number;
+  fromHead: MISHead;
+  fromSubhead: string;
+  toHead: MISHead;
+  toSubhead: string;
+  user: string;
+  timestamp: string;
+  reason: string;
+}
+
+export type NewReclassificationEntry = Omit<ReclassificationEntry, 'id' | 'periodKey' | 'timestamp'>;
+
+/**
+ * Key used to find "the same" transaction after a re-upload:
+ * source + state + debit/credit side + normalised account name.
+ */
+export function reclassificationMatchKey(
+  ref: Pick<TransactionRef, 'source' | 'state' | 'type' | 'account'>
+): string {
+  const account = ref.account.trim().toLowerCase().replace(/\s+/g, ' ');
+  return [ref.source, ref.state || '', ref.type, account].join('|');
+}
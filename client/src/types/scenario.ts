@@ -0,0 +1,25 @@
+// Scenario - Types
+// Named what-if levers for the MIS deck scenario sandbox. Mirrors
+// server/src/services/scenarioStore.ts.
+
+export interface ScenarioLevers {
+  /** channel → revenue change (0.5 = +50%) */
+  growth: Record<string, number>;
+  /** channel → attributed Sales & Marketing change (-0.2 = −20%) */
+  adSpend: Record<string, number>;
+  /** channel → Channel & Fulfilment as a fraction of net revenue */
+  feeRate: Record<string, number>;
+  /** Product COGS as a fraction of net revenue (missing = COGS_RATE) */
+  cogsRate?: number;
+  /** Factory / conversion cost as a fraction of net revenue (missing = FACTORY_PCT) */
+  factoryPct?: number;
+}
+
+export interface Scenario {
+  id: string;
+  name: string;
+  levers: ScenarioLevers;
+  createdAt: string;
+  updatedAt: string;
+  updatedBy: string;
+}
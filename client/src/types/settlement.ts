@@ -0,0 +1,40 @@
+// Settlement - Types
+// Marketplace settlements per month and channel, and the escrow receipts
+// they reconcile to. Mirrors server/src/services/settlementStore.ts.
+
+export type SettlementChannel = 'Amazon' | 'Blinkit';
+
+export const SETTLEMENT_CHANNELS: SettlementChannel[] = ['Amazon', 'Blinkit'];
+
+/** One channel-month. Costs and deductions are positive magnitudes, in ₹. */
+export interface SettlementMonth {
+  sales: number;         // Product sales ex-GST (incl. shipping / gift-wrap credits, promo rebates)
+  refunds: number;       // Sales reversed on returns
+  gst: number;           // GST collected on the sales
+  taxes: number;         // TCS / TDS withheld by the marketplace
+  referral: number;      // Referral / commission fees
+  fulfilment: number;    // FBA / Blinkit fulfilment and storage
+  ads: number;           // Advertising deducted from the settlement
+  credits: number;       // Reimbursements, claims, adjustments in the seller's favour
+  chargebacks: number;   // Chargebacks and A-to-z claims
+  reserve: number;       // Net amount moved into reserve in the month
+  other: number;         // Everything else (balances to net)
+  net: number;           // Net proceeds earned in the month
+  payouts: number;       // Transfers to the bank dated in the month
+  orders: number;
+  source: string;        // Uploaded file name
+  uploadedAt: string;
+  uploadedBy: string;
+}
+
+/** What a parser produces — the store stamps uploadedAt / uploadedBy. */
+export type ParsedSettlementMonth = Omit<SettlementMonth, 'uploadedAt' | 'uploadedBy'>;
+
+export interface SettlementState {
+  /** monthKey ("YYYY-MM") → channel → settlement */
+  months: Record<string, Partial<Record<SettlementChannel, SettlementMonth>>>;
+  /** monthKey → channel → ₹ credited to the escrow account */
+  bankReceipts: Record<string, Partial<Record<SettlementChannel, number>>>;
+  updatedAt: string;
+  updatedBy: string;
+}
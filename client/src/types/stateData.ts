@@ -41,6 +41,8 @@ export interface SalesRegisterEntry {
   igst: number;
   isStockTransfer: boolean;  // True if party contains "Heatronics"
   toEntity?: string;  // Which Heatronics entity (for stock transfers)
+  invoiceNo?: string;  // Voucher / invoice number, when the register has one
+  gstin?: string;      // Recipient GSTIN, blank for B2C
 }
 
 export interface StateSalesRegister {
@@ -67,6 +69,8 @@ export interface PurchaseRegisterEntry {
   sgst: number;
   cgst: number;
   igst: number;
+  invoiceNo?: string;  // Supplier's invoice number, when the register has one
+  gstin?: string;      // Supplier GSTIN
 }
 
 export interface StatePurchaseRegister {
@@ -111,6 +115,63 @@ export interface StateJournalRegister {
   roundOffs: number;
 }
 
+// ============================================
+// TALLY DAY BOOK (Per State)
+// ============================================
+
+// Base voucher class, derived from the voucher type name since custom types
+// ("Purchase-Expense", "Sales - Amazon") keep their parent's word.
+export type DayBookVoucherKind =
+  | 'sales'
+  | 'purchase'
+  | 'creditNote'
+  | 'debitNote'
+  | 'journal'
+  | 'receipt'
+  | 'payment'
+  | 'contra'
+  | 'other';
+
+export interface DayBookLedgerLine {
+  ledger: string;
+  dr_or_cr: 'Dr' | 'Cr';
+  amount: number;  // Always positive; the side carries the sign
+  isParty: boolean;
+  tax?: 'cgst' | 'sgst' | 'igst' | 'cess';
+  isTDS: boolean;
+  isRoundOff: boolean;
+  costCentres: { category?: string; name: string; amount: number }[];
+  bills: { name: string; type: string; amount: number }[];
+}
+
+export interface DayBookInventoryLine {
+  stockItem: string;
+  quantity: string;  // As Tally writes it, e.g. "12 Nos"
+  rate: string;
+  amount: number;
+}
+
+export interface DayBookVoucher {
+  guid?: string;
+  date: string;  // YYYY-MM-DD
+  voucherType: string;
+  kind: DayBookVoucherKind;
+  voucherNumber?: string;
+  reference?: string;
+  party?: string;
+  partyGstin?: string;
+  placeOfSupply?: string;
+  narration: string;
+  lines: DayBookLedgerLine[];
+  inventory: DayBookInventoryLine[];
+}
+
+export interface StateDayBook {
+  company?: string;
+  vouchers: DayBookVoucher[];
+  countsByKind: Partial<Record<DayBookVoucherKind, number>>;
+}
+
 // ============================================
 // STATE MONTH DATA (Combined)
 // ============================================
@@ -123,12 +184,14 @@ export interface StateMonthData {
   salesRegister?: StateSalesRegister;
   purchaseRegister?: StatePurchaseRegister;
   journalRegister?: StateJournalRegister;
+  dayBook?: StateDayBook;  // Source vouchers when SR/PR/JR came from a Tally day book
 
   // Timestamps for tracking
   bsUploadedAt?: string;
   srUploadedAt?: string;
   prUploadedAt?: string;
   jrUploadedAt?: string;
+  dbUploadedAt?: string;
 }
 
 // ============================================
@@ -225,7 +288,7 @@ export interface RangeMISData {
 // STORAGE KEY HELPERS
 // ============================================
 
-export type FileType = 'BS' | 'SR' | 'PR' | 'JR';
+export type FileType = 'BS' | 'SR' | 'PR' | 'JR' | 'DB';
 
 export function makeStateDataKey(month: string, state: StateName, fileType: FileType): string {
   return `${month}:${state}:${fileType}`;
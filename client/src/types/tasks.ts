@@ -0,0 +1,100 @@
+// Task Types
+// One task model for the finance team's recurring work — what used to be the
+// Task Tracker sheet, the /api/checklist defaults and the compliance ticks.
+// Mirrors server/src/services/taskStore.ts.
+
+export type TaskFrequency = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'half-yearly' | 'yearly' | 'adhoc';
+
+export const TASK_FREQUENCIES: TaskFrequency[] = ['daily', 'weekly', 'monthly', 'quarterly', 'half-yearly', 'yearly', 'adhoc'];
+
+export const TASK_FREQUENCY_LABELS: Record<TaskFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  'half-yearly': 'Half-yearly',
+  yearly: 'Yearly',
+  adhoc: 'Ad-hoc',
+};
+
+/** Where a task came from: one of the three legacy systems, or made here. */
+export type TaskSource = 'tracker' | 'checklist' | 'compliance' | 'manual';
+
+export const TASK_SOURCE_LABELS: Record<TaskSource, string> = {
+  tracker: 'Task Tracker',
+  checklist: 'Accounts checklist',
+  compliance: 'Compliance',
+  manual: 'Added here',
+};
+
+export type TaskRunStatus = 'open' | 'done' | 'skipped';
+
+export interface TaskStep {
+  id: string;
+  title: string;
+}
+
+export interface UnifiedTask {
+  id: string;
+  title: string;
+  description?: string;
+  category?: string;
+  owner?: string;
+  frequency: TaskFrequency;
+  dueDay?: number;            // monthly and rarer: 1-31 (31 = last day); weekly: 0-6 (Sunday-Saturday)
+  months?: number[];          // quarterly / half-yearly / yearly: months (1-12) it falls due in
+  durationDays: number;       // ends on the due date
+  steps: TaskStep[];
+  dependsOn: string[];        // task ids that must be done first, same period
+  monthClose: boolean;
+  source: TaskSource;
+  sourceRef?: string;
+  createdAt: string;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface TaskRun {
+  status: TaskRunStatus;
+  stepsDone: string[];
+  notes?: string;
+  completedAt?: string;
+  completedBy?: string;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface TaskImportRecord {
+  source: TaskSource;
+  at: string;
+  by: string;
+  created: number;
+  updated: number;
+  runs: number;
+}
+
+export interface TaskState {
+  tasks: Record<string, UnifiedTask>;
+  /** runs[taskId][period] — period is YYYY-MM-DD (daily), YYYY-Www (weekly), YYYY-MM, or "once" */
+  runs: Record<string, Record<string, TaskRun>>;
+  imports: TaskImportRecord[];
+  updatedAt: string;
+  updatedBy: string;
+}
+
+/** What the editor sends; the server fills in source and timestamps. */
+export type TaskInput = Omit<UnifiedTask, 'id' | 'source' | 'sourceRef' | 'createdAt' | 'updatedAt' | 'updatedBy'>;
+
+/** A task a migration would bring over, as the server previews it. */
+export interface ImportPreviewTask {
+  id: string;
+  sourceRef: string;
+  title: string;
+  description?: string;
+  category?: string;
+  owner?: string;
+  frequency: TaskFrequency;
+  dueDay?: number;
+  months?: number[];
+  steps: TaskStep[];
+}
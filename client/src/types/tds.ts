@@ -0,0 +1,133 @@
+// TDS Ledger Types
+// Tax deducted at source on vendor payments — what the bookings deduct, what
+// each deductee has been paid against the section thresholds, what has been
+// deposited, and what is still due per quarter for Form 26Q.
+
+export type TdsSection = '194C' | '194J' | '194I' | '194H';
+
+export const TDS_SECTIONS: TdsSection[] = ['194C', '194J', '194I', '194H'];
+
+export type DeducteeType = 'company' | 'non-company';
+
+/** Section 197 certificate: deduct at `rate` instead of the section rate. */
+export interface LowerDeductionCertificate {
+  number: string;
+  section: TdsSection;
+  rate: number;               // Percent
+  validFrom: string;          // YYYY-MM-DD
+  validTo: string;
+  limit: number | null;       // ₹ of payments covered; null = no cap
+}
+
+/** Mirrors server/src/services/tdsStore.ts. */
+export interface TdsDeductee {
+  party: string;
+  pan: string;
+  deducteeType: DeducteeType;
+  certificate: LowerDeductionCertificate | null;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface TdsChallan {
+  id: string;
+  section: TdsSection;
+  month: string;              // "YYYY-MM" of the deductions it pays for
+  bsrCode: string;
+  challanSerial: string;
+  depositedOn: string;        // YYYY-MM-DD
+  tds: number;
+  interest: number;
+  fee: number;
+  addedAt: string;
+  addedBy: string;
+}
+
+export interface TdsState {
+  deductees: Record<string, TdsDeductee>;
+  challans: TdsChallan[];
+  nextChallanId: number;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+/**
+ * One payment or credit to a deductee. `tds` is zero when nothing was
+ * deducted — those still count towards the deductee's threshold.
+ */
+export interface TdsEntry {
+  id: string;
+  source: 'booking' | 'daybook';
+  date: string;               // YYYY-MM-DD
+  party: string;
+  gstin: string | null;
+  section: TdsSection | null; // null: TDS line with no recognisable section
+  /** 26Q section code — 194J and 194-I split by nature (e.g. "4JB"). */
+  returnCode: string | null;
+  base: number;               // Amount paid / credited, ex-GST
+  tds: number;
+  reference: string;          // Invoice or voucher number
+  ledger: string;             // The TDS Payable ledger, when deducted
+}
+
+/** TDS paid to the government per the books (Dr TDS Payable, Cr bank). */
+export interface TdsBookDeposit {
+  date: string;
+  amount: number;
+  section: TdsSection | null;
+  ledger: string;
+}
+
+export type TdsIssueKind = 'short-deduction' | 'rate' | 'no-pan' | 'no-section' | 'certificate-limit' | 'missing-amount';
+
+export interface TdsIssue {
+  kind: TdsIssueKind;
+  party: string;
+  section: TdsSection | null;
+  message: string;
+}
+
+/** A deductee's year under one section, against that section's threshold. */
+export interface TdsDeducteeSection {
+  party: string;
+  pan: string | null;
+  panSource: 'master' | 'gstin' | null;
+  deducteeType: DeducteeType;
+  section: TdsSection;
+  entries: TdsEntry[];
+  paid: number;
+  deducted: number;
+  expected: number;           // At the applicable rate, once the threshold is crossed
+  rate: number;               // Applicable rate, percent
+  thresholdCrossed: boolean;
+  certificate: LowerDeductionCertificate | null;
+}
+
+export interface TdsMonth {
+  month: string;              // "YYYY-MM"
+  deducted: number;
+  challans: number;           // Deposited under challans recorded for the month
+  books: number;              // Deposits in the books attributed to the month
+  balance: number;            // deducted − challans
+  dueDate: string;            // Deposit due date
+  overdue: boolean;
+}
+
+export interface TdsQuarter {
+  quarter: 1 | 2 | 3 | 4;
+  label: string;              // "Q1 (Apr–Jun)"
+  months: TdsMonth[];
+  deducted: number;
+  challans: number;
+  balance: number;
+  returnDueDate: string;      // 26Q filing due date
+}
+
+export interface TdsLedger {
+  fy: string;                 // "2026-27"
+  entries: TdsEntry[];
+  bySection: Record<TdsSection, { paid: number; deducted: number; deductees: number }>;
+  deductees: TdsDeducteeSection[];
+  quarters: TdsQuarter[];
+  issues: TdsIssue[];
+}
@@ -1,32 +1,76 @@
 import * as XLSX from 'xlsx';
 import { skuToFgMapping } from '../data/skuToFgMapping';
 import { fgMaster, FgMasterEntry } from '../data/fgMaster';
+import {
+  AMAZON_FBM_STORE,
+  AMAZON_SELLABLE_STORE,
+  AMAZON_UNSELLABLE_STORE,
+  dispositionToStore,
+  fcToStore,
+} from '../data/amazonStoreMapping';
+import type { StockSummary } from '../types/inventory';
 
 export interface TransformResult {
   outputRows: OutputRow[];
+  stores: StoreTotals[];
   totalFgItems: number;
   totalUnitsMapped: number;
-  unmatchedSkus: string[];
+  unmatchedSkus: UnmatchedSku[];
   missingFgItems: string[];
   totalUnsellable: number;
-  skippedFbm: number;
+  fbmUnits: number;
   period?: string;   // Inventory-Ledger period (e.g. "07/2026"), when detected
 }
 
-// Matches Tranzact Physical Stock Reconciliation template
+// Matches Tranzact Physical Stock Reconciliation template. One upload per
+// store, so rows carry the store they belong to; the template columns are
+// itemId … comment.
 export interface OutputRow {
+  store: string;
   itemId: string;
   itemName: string;
   uom: string;
   physicalStock: number;
-  difference: string; // left empty — Tranzact calculates this
+  bookStock: number | null;   // Tranzact stock in the store, when a book stock file was given
+  difference: number | '';    // Physical − book; blank without book stock
   price: number;
   comment: string;
 }
 
+export interface StoreTotals {
+  store: string;
+  items: number;
+  physical: number;
+  book: number | null;
+  difference: number | null;
+}
+
+export interface UnmatchedSku {
+  sku: string;
+  qty: number;
+  title: string;
+  /** FG item another SKU on the same ASIN maps to, when there is one. */
+  suggestedFgId: string | null;
+}
+
+/** Tranzact stock per store: store → FG item → quantity. */
+export type BookStock = Record<string, Record<string, number>>;
+
+export const DISPOSITION_LABELS: Record<string, string> = {
+  SELLABLE: 'Sellable',
+  CUSTOMER_DAMAGED: 'Customer damaged',
+  CARRIER_DAMAGED: 'Carrier damaged',
+  DEFECTIVE: 'Defective',
+  WAREHOUSE_DAMAGED: 'Warehouse damaged',
+  DISTRIBUTOR_DAMAGED: 'Distributor damaged',
+  EXPIRED: 'Expired',
+  UNSELLABLE: 'Unsellable',
+};
+
 interface FgStock {
   qty: number;
   skus: string[];
+  locations: Record<string, number>;
 }
 
 /** Strip surrounding quotes/whitespace from a TSV cell. */
@@ -44,10 +88,24 @@ function extractSkuCode(raw: string): string {
   return m ? m[0] : clean(raw);
 }
 
+/** "Customer Damaged", "customer-damaged" → "CUSTOMER_DAMAGED". */
+function normaliseDisposition(v: string): string {
+  return clean(v).toUpperCase().replace(/[\s-]+/g, '_');
+}
+
+interface AmazonRow {
+  sku: string;          // As listed, -FBM suffix included
+  mapSku: string;       // The SKU the FG mapping is keyed on
+  asin: string;
+  title: string;
+  location: string;     // FC code, or the country when the report is aggregated by country
+  disposition: string;  // Normalised, e.g. SELLABLE, CUSTOMER_DAMAGED
+  fbm: boolean;
+  qty: number;
+}
+
 interface ParsedReport {
-  rows: { sku: string; qty: number }[];
-  totalUnsellable: number;
-  skippedFbm: number;
+  rows: AmazonRow[];
   period?: string;   // e.g. "07/2026" from the Inventory Ledger
 }
 
@@ -55,7 +113,8 @@ interface ParsedReport {
 // Auto-detects two Seller Central formats:
 //   (a) Manage Inventory snapshot — columns seller-sku / warehouse-condition-code / quantity available
 //   (b) Inventory Ledger (monthly) — columns MSKU / Disposition / Ending Warehouse Balance
-// Both reduce to: SELLABLE on-hand quantity per seller-SKU.
+// Every row is kept with its location and disposition; FBM listings are
+// marked rather than dropped.
 function parseAmazonReport(tsvContent: string): ParsedReport {
   const lines = tsvContent.replace(/\r/g, '').trim().split('\n');
   if (lines.length < 2) {
@@ -74,6 +133,10 @@ function parseAmazonReport(tsvContent: string): ParsedReport {
   const ledCond = find('disposition');
   const ledQty = find('ending warehouse balance');
   const dateIdx = find('date');
+  // Either
+  const locIdx = find('location', 'fulfillment-center-id', 'fulfilment-centre-id', 'fulfillment center', 'fc');
+  const asinIdx = find('asin');
+  const titleIdx = find('title', 'product-name', 'product name');
 
   let skuIdx: number, condIdx: number, qtyIdx: number, ledger: boolean;
   if (snapSku !== -1 && snapCond !== -1 && snapQty !== -1) {
@@ -88,9 +151,7 @@ function parseAmazonReport(tsvContent: string): ParsedReport {
     );
   }
 
-  const rows: { sku: string; qty: number }[] = [];
-  let totalUnsellable = 0;
-  let skippedFbm = 0;
+  const rows: AmazonRow[] = [];
   let period: string | undefined;
 
   for (let i = 1; i < lines.length; i++) {
@@ -100,86 +161,141 @@ function parseAmazonReport(tsvContent: string): ParsedReport {
     const rawSku = clean(cols[skuIdx]);
     if (!rawSku) continue;
     const sku = ledger ? extractSkuCode(rawSku) : rawSku;
-    const condition = clean(cols[condIdx]).toUpperCase();
     const qty = parseInt(clean(cols[qtyIdx]), 10) || 0;
     if (ledger && dateIdx !== -1 && !period) period = clean(cols[dateIdx]) || undefined;
+    if (!qty) continue;
+
+    const fbm = sku.endsWith('-FBM');
+    rows.push({
+      sku,
+      mapSku: fbm ? sku.slice(0, -4) : sku,
+      asin: asinIdx !== -1 ? clean(cols[asinIdx]) : '',
+      title: titleIdx !== -1 ? clean(cols[titleIdx]) : '',
+      location: locIdx !== -1 ? clean(cols[locIdx]).toUpperCase() : '',
+      disposition: normaliseDisposition(cols[condIdx]) || 'SELLABLE',
+      fbm,
+      qty,
+    });
+  }
 
-    if (sku.endsWith('-FBM')) {
-      skippedFbm++;
-      continue;
-    }
-
-    // SELLABLE is the only on-hand, sellable disposition in both formats.
-    if (condition !== 'SELLABLE') {
-      totalUnsellable += qty;
-      continue;
-    }
+  return { rows, period };
+}
 
-    rows.push({ sku, qty });
-  }
+// STEP 2: Location + disposition → Tranzact store (data/amazonStoreMapping.ts)
+export function storeFor(row: Pick<AmazonRow, 'fbm' | 'location' | 'disposition'>): string {
+  if (row.fbm) return AMAZON_FBM_STORE;
+  if (row.disposition !== 'SELLABLE') return dispositionToStore[row.disposition] ?? AMAZON_UNSELLABLE_STORE;
+  return fcToStore[row.location] ?? AMAZON_SELLABLE_STORE;
+}
 
-  return { rows, totalUnsellable, skippedFbm, period };
+/** Every store the transform can write to — the ones a book stock file is compared on. */
+export function amazonStores(): string[] {
+  return [...new Set([
+    AMAZON_SELLABLE_STORE,
+    ...Object.values(fcToStore),
+    ...Object.values(dispositionToStore),
+    AMAZON_UNSELLABLE_STORE,
+    AMAZON_FBM_STORE,
+  ])];
 }
 
-// STEP 2: Match & Consolidate
+// STEP 3: Match & Consolidate per store
 function matchAndConsolidate(
-  amazonRows: { sku: string; qty: number }[],
+  amazonRows: AmazonRow[],
   skuMap: Record<string, string>
-): { fgStock: Record<string, FgStock>; unmatchedSkus: string[] } {
-  const fgStock: Record<string, FgStock> = {};
-  const unmatchedSkus: string[] = [];
+): { fgStock: Record<string, Record<string, FgStock>>; unmatchedSkus: UnmatchedSku[] } {
+  const fgStock: Record<string, Record<string, FgStock>> = {};
+  const unmatched = new Map<string, UnmatchedSku & { asin: string }>();
 
   for (const row of amazonRows) {
-    const fgId = skuMap[row.sku];
+    const fgId = skuMap[row.sku] ?? skuMap[row.mapSku];
     if (!fgId) {
-      unmatchedSkus.push(row.sku);
+      const u = unmatched.get(row.sku) ?? { sku: row.sku, qty: 0, title: row.title, suggestedFgId: null, asin: row.asin };
+      u.qty += row.qty;
+      unmatched.set(row.sku, u);
       continue;
     }
 
-    if (!fgStock[fgId]) {
-      fgStock[fgId] = { qty: 0, skus: [] };
-    }
-    fgStock[fgId].qty += row.qty;
-    fgStock[fgId].skus.push(row.sku);
+    const store = storeFor(row);
+    fgStock[store] ??= {};
+    const stock = (fgStock[store][fgId] ??= { qty: 0, skus: [], locations: {} });
+    stock.qty += row.qty;
+    stock.skus.push(row.sku);
+    if (row.location) stock.locations[row.location] = (stock.locations[row.location] ?? 0) + row.qty;
+  }
+
+  // A new listing of an existing product shares its ASIN with a mapped SKU
+  const fgByAsin = new Map<string, string>();
+  for (const row of amazonRows) {
+    const fgId = skuMap[row.sku] ?? skuMap[row.mapSku];
+    if (fgId && row.asin) fgByAsin.set(row.asin, fgId);
   }
+  const unmatchedSkus = [...unmatched.values()].map(({ asin, ...u }) => ({
+    ...u,
+    suggestedFgId: (asin && fgByAsin.get(asin)) || null,
+  }));
 
   return { fgStock, unmatchedSkus };
 }
 
-// STEP 3: Build output rows for Physical Stock Reconciliation
+// STEP 4: Build output rows for Physical Stock Reconciliation
 function buildOutputRows(
-  fgStock: Record<string, FgStock>,
+  fgStock: Record<string, Record<string, FgStock>>,
   master: Record<string, FgMasterEntry>,
+  bookStock: BookStock | undefined,
   period?: string
 ): { outputRows: OutputRow[]; missingFgItems: string[] } {
   const outputRows: OutputRow[] = [];
-  const missingFgItems: string[] = [];
+  const missingFgItems = new Set<string>();
   const today = new Date().toISOString().split('T')[0];
   const asOf = period ? `Ledger: ${period}` : `Date: ${today}`;
 
-  for (const fgId of Object.keys(fgStock).sort()) {
-    const masterItem = master[fgId];
-    if (!masterItem) {
-      missingFgItems.push(fgId);
-      continue;
-    }
+  // Stores the report has stock in, plus Amazon stores Tranzact still holds
+  // stock in — those items are gone from Amazon and count as zero.
+  const stores = new Set(Object.keys(fgStock));
+  for (const store of amazonStores()) {
+    if (store === AMAZON_FBM_STORE && !stores.has(store)) continue;  // The ledger doesn't list FBM
+    if (Object.values(bookStock?.[store] ?? {}).some(q => q)) stores.add(store);
+  }
 
-    const stock = fgStock[fgId];
-    outputRows.push({
-      itemId: fgId,
-      itemName: masterItem.itemName,
-      uom: masterItem.unit,
-      physicalStock: stock.qty,
-      difference: '',
-      price: masterItem.defaultPrice,
-      comment: `Amazon FBA Stock | SKU(s): ${[...new Set(stock.skus)].join(', ')} | ${asOf}`,
-    });
+  for (const store of [...stores].sort()) {
+    const book = bookStock?.[store];
+    const itemIds = new Set([...Object.keys(fgStock[store] ?? {}), ...Object.keys(book ?? {}).filter(id => book![id])]);
+    for (const fgId of [...itemIds].sort()) {
+      const masterItem = master[fgId];
+      if (!masterItem) {
+        missingFgItems.add(fgId);
+        continue;
+      }
+
+      const stock = fgStock[store]?.[fgId];
+      const physical = stock?.qty ?? 0;
+      const bookQty = book ? book[fgId] ?? 0 : null;
+      const source = store === AMAZON_FBM_STORE ? 'Amazon FBM listing' : 'Amazon FBA Stock';
+      // Ledgers aggregated by country give the country code ("IN"), not an FC
+      const locations = Object.entries(stock?.locations ?? {})
+        .filter(([loc]) => !/^[A-Z]{2}$/.test(loc))
+        .map(([loc, qty]) => `${loc} ${qty}`);
+      outputRows.push({
+        store,
+        itemId: fgId,
+        itemName: masterItem.itemName,
+        uom: masterItem.unit,
+        physicalStock: physical,
+        bookStock: bookQty,
+        difference: bookQty === null ? '' : physical - bookQty,
+        price: masterItem.defaultPrice,
+        comment: stock
+          ? [`${source} | SKU(s): ${[...new Set(stock.skus)].join(', ')}`, locations.length ? `FC: ${locations.join(', ')}` : '', asOf].filter(Boolean).join(' | ')
+          : `Not in Amazon report | ${asOf}`,
+      });
+    }
   }
 
-  return { outputRows, missingFgItems };
+  return { outputRows, missingFgItems: [...missingFgItems] };
 }
 
-// STEP 4: Generate Excel matching Tranzact Physical Stock Reconciliation template
+// STEP 5: Generate Excel matching Tranzact Physical Stock Reconciliation template
 export function generateTranzactExcel(rows: OutputRow[]): Blob {
   const wsData = [
     ['Item ID', 'Item Name', 'UOM', 'Physical Stock', 'Difference', 'Price', 'Comment'],
@@ -212,29 +328,59 @@ export function generateTranzactExcel(rows: OutputRow[]): Blob {
   return new Blob([buf], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
 }
 
-// Main transform — only needs the Amazon report
+/**
+ * Tranzact book stock from a stock summary export. Exports filtered to one
+ * store carry no store column; their items are taken as that store's.
+ */
+export function bookStockFromSummary(summary: StockSummary, store: string): BookStock {
+  const book: BookStock = {};
+  for (const item of summary.items) {
+    const s = item.store || store;
+    book[s] ??= {};
+    book[s][item.itemId] = (book[s][item.itemId] ?? 0) + item.closingQty;
+  }
+  return book;
+}
+
+// Main transform — the Amazon report, plus Tranzact book stock for the difference
 export function transformAmazonToTranzact(
   amazonTsvContent: string,
-  customSkuMap?: Record<string, string>
+  customSkuMap?: Record<string, string>,
+  bookStock?: BookStock
 ): TransformResult {
-  const { rows: amazonRows, totalUnsellable, skippedFbm, period } = parseAmazonReport(amazonTsvContent);
+  const { rows: amazonRows, period } = parseAmazonReport(amazonTsvContent);
 
   const skuMap = customSkuMap || skuToFgMapping;
 
   const { fgStock, unmatchedSkus } = matchAndConsolidate(amazonRows, skuMap);
 
-  const { outputRows, missingFgItems } = buildOutputRows(fgStock, fgMaster, period);
+  const { outputRows, missingFgItems } = buildOutputRows(fgStock, fgMaster, bookStock, period);
 
-  const totalUnitsMapped = outputRows.reduce((sum, r) => sum + r.physicalStock, 0);
+  const stores: StoreTotals[] = [];
+  for (const row of outputRows) {
+    let s = stores.find(t => t.store === row.store);
+    if (!s) {
+      s = { store: row.store, items: 0, physical: 0, book: row.bookStock === null ? null : 0, difference: row.bookStock === null ? null : 0 };
+      stores.push(s);
+    }
+    s.items++;
+    s.physical += row.physicalStock;
+    if (s.book !== null && row.bookStock !== null) {
+      s.book += row.bookStock;
+      s.difference! += row.physicalStock - row.bookStock;
+    }
+  }
 
+  const sellable = new Set([AMAZON_SELLABLE_STORE, ...Object.values(fcToStore)]);
   return {
     outputRows,
-    totalFgItems: outputRows.length,
-    totalUnitsMapped,
-    unmatchedSkus: [...new Set(unmatchedSkus)],
+    stores,
+    totalFgItems: new Set(outputRows.filter(r => sellable.has(r.store) && r.physicalStock > 0).map(r => r.itemId)).size,
+    totalUnitsMapped: outputRows.filter(r => sellable.has(r.store)).reduce((sum, r) => sum + r.physicalStock, 0),
+    unmatchedSkus,
     missingFgItems,
-    totalUnsellable,
-    skippedFbm,
+    totalUnsellable: amazonRows.filter(r => !r.fbm && r.disposition !== 'SELLABLE').reduce((sum, r) => sum + r.qty, 0),
+    fbmUnits: amazonRows.filter(r => r.fbm).reduce((sum, r) => sum + r.qty, 0),
     period,
   };
 }
@@ -10,9 +10,11 @@ import {
   TradingAccountData,
   PLAccountData,
   BalanceSheetParseResult,
+  BalanceSheetPosition,
   createEmptyTradingAccount,
   createEmptyPLAccount,
-  createEmptyEnhancedBalanceSheet
+  createEmptyEnhancedBalanceSheet,
+  createEmptyBalanceSheetPosition
 } from '../types/balanceSheet';
 import { MISHead } from '../types/misTracking';
 import { mapAccountToMISBySection, normalizeAccountName, isSpecialAccount } from './accountMapping';
@@ -688,6 +690,7 @@ function parseAllLineItems(
   // Assign results
   result.tradingAccount = tradingAccount;
   result.plAccount = plAccount;
+  result.position = extractBalanceSheetPosition(lines);
 
   console.log('[parseAllLineItems] After parsing loop:');
   console.log(`  - Section switches detected: ${sectionSwitchCount}`);
@@ -751,7 +754,7 @@ function parseAllLineItems(
 // AGGREGATION
 // ============================================
 
-function aggregateByHead(items: BalanceSheetLineItem[]): Record<string, {
+export function aggregateByHead(items: BalanceSheetLineItem[]): Record<string, {
   head: MISHead;
   total: number;
   subheads: Record<string, {
@@ -803,6 +806,84 @@ function aggregateByHead(items: BalanceSheetLineItem[]): Record<string, {
   return result;
 }
 
+// ============================================
+// BALANCE SHEET POSITION (Liabilities / Assets)
+// ============================================
+
+// A field is read from its parent group line when present (e.g. "Loans (Liability)"),
+// otherwise summed from the sub-groups Busy/Tally print at the top level instead.
+const POSITION_GROUPS: { field: keyof BalanceSheetPosition; group?: RegExp; parts: RegExp[] }[] = [
+  { field: 'capital', parts: [/capital\s*(account|a\/?c)/i, /reserves?\s*(&|and)\s*surplus/i] },
+  {
+    field: 'loans',
+    group: /loans?\s*\(\s*liability\s*\)/i,
+    parts: [/(?<!un)secured\s*loans?/i, /unsecured\s*loans?/i, /bank\s*o\.?\s*d\.?\s*a\/?c|bank\s*overdraft/i]
+  },
+  { field: 'sundryCreditors', parts: [/sundry\s*creditors|trade\s*payables/i] },
+  { field: 'dutiesAndTaxes', parts: [/duties\s*(&|and)\s*taxes/i] },
+  { field: 'provisions', parts: [/provisions/i] },
+  { field: 'fixedAssets', parts: [/fixed\s*assets/i] },
+  { field: 'investments', parts: [/investments/i] },
+  { field: 'closingStock', parts: [/closing\s*stock|stock[-\s]*in[-\s]*hand/i] },
+  { field: 'sundryDebtors', parts: [/sundry\s*debtors|trade\s*receivables/i] },
+  { field: 'loansAndAdvances', parts: [/loans?\s*(&|and)\s*advances/i, /deposits\s*\(\s*asset\s*\)/i] },
+  { field: 'cash', parts: [/cash[-\s]*in[-\s]*hand/i, /bank\s*accounts/i] }
+];
+
+const BS_HEADER = /balance\s*sheet|b\s*a\s*l\s*a\s*n\s*c\s*e\s*s\s*h\s*e\s*e\s*t/i;
+// Trading / P&L headers end the Balance Sheet. "Profit & Loss A/c 1,23,456" on the
+// liabilities side is a balance, not a header, so a header must not carry an amount.
+const ACCOUNT_HEADER = /^\s*(trading|profit\s*(&|and)?\s*loss)\s*(account|a\/?c)\s*($|for\b|from\b|\()/i;
+
+/**
+ * Read closing balances by group from the Balance Sheet part of the upload.
+ * Horizontal Tally layouts print Liabilities and Assets on the same text line
+ * ("Capital Account 5,00,000  Fixed Assets 3,00,000"), so each group name
+ * takes the amount between it and the next group name on the line.
+ * Returns undefined when the upload has no Balance Sheet.
+ */
+export function extractBalanceSheetPosition(lines: string[]): BalanceSheetPosition | undefined {
+  const start = lines.findIndex(l => BS_HEADER.test(l));
+  if (start < 0) return undefined;
+
+  const groupTotals = new Map<keyof BalanceSheetPosition, number>();
+  const partTotals = new Map<keyof BalanceSheetPosition, number>();
+  let found = false;
+
+  for (let i = start + 1; i < lines.length; i++) {
+    const line = lines[i];
+    if (ACCOUNT_HEADER.test(line)) break;
+
+    const hits: { field: keyof BalanceSheetPosition; isGroup: boolean; start: number; end: number }[] = [];
+    for (const g of POSITION_GROUPS) {
+      const patterns: [RegExp, boolean][] = [...(g.group ? [[g.group, true] as [RegExp, boolean]] : []), ...g.parts.map(p => [p, false] as [RegExp, boolean])];
+      for (const [re, isGroup] of patterns) {
+        const m = re.exec(line);
+        if (m) hits.push({ field: g.field, isGroup, start: m.index, end: m.index + m[0].length });
+      }
+    }
+    hits.sort((a, b) => a.start - b.start);
+
+    hits.forEach((h, idx) => {
+      const next = hits[idx + 1];
+      const amount = extractAmountFromLine(line.slice(h.end, next ? next.start : undefined));
+      if (amount === 0) return;
+      const bucket = h.isGroup ? groupTotals : partTotals;
+      if (h.isGroup && bucket.has(h.field)) return;
+      bucket.set(h.field, (bucket.get(h.field) ?? 0) + amount);
+      found = true;
+    });
+  }
+
+  if (!found) return undefined;
+  const position = createEmptyBalanceSheetPosition();
+  for (const { field } of POSITION_GROUPS) {
+    position[field] = groupTotals.get(field) ?? partTotals.get(field) ?? 0;
+  }
+  console.log('[Enhanced BS Parser] Balance Sheet position:', position);
+  return position;
+}
+
 // ============================================
 // UNIFIED PARSER
 // ============================================
@@ -0,0 +1,230 @@
+// Bank Reconciliation
+// Pairs bank statement lines with the bank-side entries of the Tally journal
+// register (parseAndStoreJournalRegister). A pair needs the same direction,
+// the same amount (within a rupee) and dates inside the window; among those,
+// a score from date gap and narration overlap decides the pairing:
+//   • amount      exact 50, within tolerance 40
+//   • date        30 on the same day, tapering to 0 past the window
+//   • narration   up to 20 for words shared with the counter-party ledger
+// Pairs are taken best-first so each line and entry is used once. A pair is
+// "matched" when it scores well and nothing else came close for either side;
+// the rest are "suggested" for the accountant to accept or reject.
+
+import type { JournalEntry } from '../types/stateData';
+import type {
+  BankId,
+  BankStatementLine,
+  BookEntry,
+  BrsSummary,
+  ReconciliationPair,
+  ReconciliationResult,
+} from '../types/bankReconciliation';
+import { toIsoDate } from './bankStatementParsers';
+
+export interface MatchOptions {
+  dateWindowDays: number;
+  amountTolerance: number;
+}
+
+export const DEFAULT_MATCH_OPTIONS: MatchOptions = { dateWindowDays: 3, amountTolerance: 1 };
+
+const MATCH_SCORE = 80;
+const AMBIGUITY_MARGIN = 10;
+
+// How each statement shows up in the journal register. Easebuzz payouts land
+// in Central Bank, so they're the Central Bank receipts against Easebuzz Clearing.
+const BOOK_PATTERNS: Record<BankId, { ledger: RegExp; counterParty?: RegExp }> = {
+  icici: { ledger: /icici/i },
+  hdfc: { ledger: /hdfc/i },
+  central: { ledger: /central\s*bank|\bcbi\b/i },
+  easebuzz: { ledger: /central\s*bank|\bcbi\b/i, counterParty: /easebuzz/i },
+};
+
+// Words every bank narration carries; they say nothing about the counter-party
+const NOISE_WORDS = new Set([
+  'neft', 'rtgs', 'imps', 'upi', 'ach', 'nach', 'ift', 'inb', 'mmt', 'chq', 'clg', 'trf', 'transfer',
+  'payment', 'paid', 'received', 'from', 'the', 'and', 'for', 'ltd', 'pvt', 'private', 'limited',
+  'bank', 'india', 'current', 'account', 'llp', 'payout', 'settlement',
+  // Ledger-name suffixes on the Tally side
+  'receivable', 'payable', 'clearing', 'remittance', 'unsettled', 'escrow', 'creditor', 'debtor', 'sundry',
+]);
+
+function tokens(text: string): Set<string> {
+  return new Set(
+    text.toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(t => t.length >= 3 && !NOISE_WORDS.has(t) && !/^\d+$/.test(t))
+  );
+}
+
+function dayGap(a: string, b: string): number {
+  return Math.round(Math.abs(Date.parse(a) - Date.parse(b)) / 86_400_000);
+}
+
+/** Journal register entries that touch the statement's bank ledger, seen from the bank's side. */
+export function bookEntriesFromJournal(entries: JournalEntry[], bank: BankId): BookEntry[] {
+  const pattern = BOOK_PATTERNS[bank];
+  const out: BookEntry[] = [];
+
+  entries.forEach((entry, i) => {
+    const debitSide = pattern.ledger.test(entry.debitParticulars);
+    const creditSide = pattern.ledger.test(entry.creditParty);
+    if (debitSide === creditSide) return;
+
+    const counterParty = debitSide ? entry.creditParty : entry.debitParticulars;
+    if (pattern.counterParty && !pattern.counterParty.test(counterParty)) return;
+
+    const date = toIsoDate(entry.date);
+    if (!date || entry.debitAmount <= 0) return;
+
+    out.push({
+      id: `jr-${i + 1}`,
+      date,
+      amount: entry.debitAmount,
+      direction: debitSide ? 'receipt' : 'payment',
+      counterParty,
+      source: entry,
+    });
+  });
+
+  return out;
+}
+
+function scorePair(line: BankStatementLine, entry: BookEntry, options: MatchOptions): ReconciliationPair | null {
+  const lineAmount = line.credit > 0 ? line.credit : line.debit;
+  const lineDirection = line.credit > 0 ? 'receipt' : 'payment';
+  if (lineDirection !== entry.direction) return null;
+
+  const diff = Math.abs(lineAmount - entry.amount);
+  if (diff > options.amountTolerance) return null;
+  const gap = dayGap(line.date, entry.date);
+  if (gap > options.dateWindowDays) return null;
+
+  const reasons: string[] = [];
+  let score = diff < 0.005 ? 50 : 40;
+  reasons.push(diff < 0.005 ? 'Same amount' : `Amount within ₹${diff.toFixed(2)}`);
+
+  score += 30 * (1 - gap / (options.dateWindowDays + 1));
+  reasons.push(gap === 0 ? 'Same day' : `${gap} day${gap === 1 ? '' : 's'} apart`);
+
+  const lineWords = tokens(line.narration);
+  const entryWords = tokens(entry.counterParty);
+  const shared = [...entryWords].filter(w => lineWords.has(w));
+  if (shared.length > 0) {
+    const overlap = shared.length / Math.min(lineWords.size, entryWords.size);
+    score += 20 * Math.min(1, overlap);
+    reasons.push(`Narration mentions ${shared.slice(0, 3).join(', ')}`);
+  }
+
+  return { line, entry, score: Math.round(score), dayGap: gap, reasons };
+}
+
+export function reconcile(
+  lines: BankStatementLine[],
+  entries: BookEntry[],
+  options: MatchOptions = DEFAULT_MATCH_OPTIONS
+): ReconciliationResult {
+  const candidates: ReconciliationPair[] = [];
+  for (const line of lines) {
+    for (const entry of entries) {
+      const pair = scorePair(line, entry, options);
+      if (pair) candidates.push(pair);
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score || a.dayGap - b.dayGap);
+
+  const usedLines = new Set<string>();
+  const usedEntries = new Set<string>();
+  const matched: ReconciliationPair[] = [];
+  const suggested: ReconciliationPair[] = [];
+
+  for (const pair of candidates) {
+    if (usedLines.has(pair.line.id) || usedEntries.has(pair.entry.id)) continue;
+
+    // Another still-open pairing for either side within the margin makes
+    // this one a judgement call (e.g. two same-amount payouts a day apart)
+    const rival = candidates.some(c =>
+      c !== pair &&
+      c.score >= pair.score - AMBIGUITY_MARGIN &&
+      ((c.line.id === pair.line.id && !usedEntries.has(c.entry.id)) ||
+       (c.entry.id === pair.entry.id && !usedLines.has(c.line.id)))
+    );
+
+    usedLines.add(pair.line.id);
+    usedEntries.add(pair.entry.id);
+    if (pair.score >= MATCH_SCORE && !rival) matched.push(pair);
+    else suggested.push(pair);
+  }
+
+  return {
+    matched,
+    suggested,
+    unmatchedLines: lines.filter(l => !usedLines.has(l.id)),
+    unmatchedEntries: entries.filter(e => !usedEntries.has(e.id)),
+  };
+}
+
+export function pairKey(pair: ReconciliationPair): string {
+  return `${pair.line.id}|${pair.entry.id}`;
+}
+
+/**
+ * Apply the accountant's review: accepted suggestions become matches,
+ * rejected ones release both sides back to unmatched.
+ */
+export function applyDecisions(
+  result: ReconciliationResult,
+  decisions: Record<string, 'accept' | 'reject'>
+): ReconciliationResult {
+  const accepted = result.suggested.filter(p => decisions[pairKey(p)] === 'accept');
+  const rejected = result.suggested.filter(p => decisions[pairKey(p)] === 'reject');
+  const byDate = <T extends { date: string }>(a: T, b: T) => a.date.localeCompare(b.date);
+
+  return {
+    matched: [...result.matched, ...accepted],
+    suggested: result.suggested.filter(p => !decisions[pairKey(p)]),
+    unmatchedLines: [...result.unmatchedLines, ...rejected.map(p => p.line)].sort(byDate),
+    unmatchedEntries: [...result.unmatchedEntries, ...rejected.map(p => p.entry)].sort(byDate),
+  };
+}
+
+/**
+ * BRS as at the statement's last date. Starting from the bank balance:
+ * add receipts the books have but the bank hasn't credited and bank debits
+ * not yet booked; deduct payments not yet presented and bank credits not
+ * yet booked. Book entries dated after the statement are left out.
+ * Suggestions still awaiting review count as unmatched.
+ */
+export function buildBrs(
+  bank: BankId,
+  result: ReconciliationResult,
+  asOf: string | null,
+  balancePerBank: number | null
+): BrsSummary {
+  const open = [...result.unmatchedEntries, ...result.suggested.map(p => p.entry)]
+    .filter(e => !asOf || e.date <= asOf);
+  const openLines = [...result.unmatchedLines, ...result.suggested.map(p => p.line)];
+
+  const depositsNotCredited = open.filter(e => e.direction === 'receipt');
+  const paymentsNotPresented = open.filter(e => e.direction === 'payment');
+  const bankDebitsNotInBooks = openLines.filter(l => l.debit > 0);
+  const bankCreditsNotInBooks = openLines.filter(l => l.credit > 0);
+
+  const sum = (xs: number[]) => xs.reduce((s, x) => s + x, 0);
+  const balancePerBooks = balancePerBank === null ? null : balancePerBank
+    + sum(depositsNotCredited.map(e => e.amount))
+    - sum(paymentsNotPresented.map(e => e.amount))
+    + sum(bankDebitsNotInBooks.map(l => l.debit))
+    - sum(bankCreditsNotInBooks.map(l => l.credit));
+
+  return {
+    bank,
+    asOf,
+    balancePerBank,
+    depositsNotCredited,
+    paymentsNotPresented,
+    bankDebitsNotInBooks,
+    bankCreditsNotInBooks,
+    balancePerBooks,
+  };
+}
@@ -0,0 +1,279 @@
+// Bank Statement Parsers
+// Reads the statement exports for the banks in the Banking SOPs — ICICI
+// Current, HDFC Escrow, Central Bank CC and Easebuzz payout reports — from
+// CSV or XLSX into a common line shape. Each bank has a column profile; the
+// header row is found by scanning past the account preamble the portals put
+// at the top of the file.
+
+import * as XLSX from 'xlsx';
+import type { BankId, BankStatementParseResult } from '../types/bankReconciliation';
+
+interface BankProfile {
+  id: BankId;
+  label: string;
+  ledger: string;           // Tally bank ledger the statement reconciles against
+  detect: RegExp;           // Header / preamble text that identifies the export
+  fileHint: RegExp;         // Name the portal gives the downloaded file
+  columns: {
+    date: string[];
+    narration: string[];
+    reference: string[];
+    debit: string[];
+    credit: string[];
+    balance: string[];
+    drCr: string[];         // Single amount column + Dr/Cr indicator
+    amount: string[];
+  };
+}
+
+export const BANK_PROFILES: Record<BankId, BankProfile> = {
+  icici: {
+    id: 'icici',
+    label: 'ICICI Bank — Current A/c',
+    ledger: 'ICICI Bank — Current A/c',
+    detect: /transaction remarks|withdrawal amount \(inr/i,
+    fileHint: /icici/i,
+    columns: {
+      date: ['transaction date', 'txn date', 'value date', 'date'],
+      narration: ['transaction remarks', 'remarks', 'description', 'narration', 'particulars'],
+      reference: ['cheque number', 'chq', 'ref'],
+      debit: ['withdrawal amount', 'withdrawal', 'debit'],
+      credit: ['deposit amount', 'deposit', 'credit'],
+      balance: ['balance'],
+      drCr: [],
+      amount: [],
+    },
+  },
+  hdfc: {
+    id: 'hdfc',
+    label: 'HDFC Bank — Escrow A/c',
+    ledger: 'HDFC Bank — Escrow A/c',
+    detect: /chq\.?\s*\/\s*ref|withdrawal amt/i,
+    fileHint: /hdfc/i,
+    columns: {
+      date: ['date', 'value dt'],
+      narration: ['narration', 'description'],
+      reference: ['chq./ref.no', 'chq/ref', 'ref'],
+      debit: ['withdrawal amt', 'withdrawal', 'debit'],
+      credit: ['deposit amt', 'deposit', 'credit'],
+      balance: ['closing balance', 'balance'],
+      drCr: [],
+      amount: [],
+    },
+  },
+  central: {
+    id: 'central',
+    label: 'Central Bank of India — Current A/c',
+    ledger: 'Central Bank of India — Current A/c',
+    detect: /post date|central bank of india|cbin0/i,
+    fileHint: /central|cbi/i,
+    columns: {
+      date: ['post date', 'txn date', 'transaction date', 'value date', 'date'],
+      narration: ['account description', 'description', 'narration', 'particulars'],
+      reference: ['cheque', 'chq', 'ref'],
+      debit: ['debit', 'withdrawal'],
+      credit: ['credit', 'deposit'],
+      balance: ['balance'],
+      drCr: ['dr/cr', 'cr/dr', 'dr / cr'],
+      amount: ['amount'],
+    },
+  },
+  easebuzz: {
+    id: 'easebuzz',
+    label: 'Easebuzz payouts (wired to Central Bank)',
+    ledger: 'Central Bank of India — Current A/c',
+    detect: /payout date|settlement amount|payout amount|\butr\b/i,
+    fileHint: /easebuzz|payout/i,
+    columns: {
+      date: ['payout date', 'settlement date', 'transfer date', 'date'],
+      narration: ['description', 'remarks', 'merchant name'],
+      reference: ['utr', 'bank reference', 'payout id', 'settlement id'],
+      debit: [],
+      credit: ['net amount', 'settlement amount', 'payout amount', 'amount'],
+      balance: [],
+      drCr: [],
+      amount: [],
+    },
+  },
+};
+
+export const BANK_IDS = Object.keys(BANK_PROFILES) as BankId[];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+/**
+ * Normalise the date formats the bank portals, marketplace reports and Tally
+ * exports use to ISO: Excel serials, dd/mm/yyyy, dd-mm-yy, dd-Mon-yyyy,
+ * Mon d, yyyy and yyyy-mm-dd.
+ */
+export function toIsoDate(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') {
+    const d = XLSX.SSF.parse_date_code(value);
+    return d && d.y > 1900 ? `${d.y}-${pad(d.m)}-${pad(d.d)}` : null;
+  }
+  const str = String(value).trim();
+
+  const iso = str.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (iso) return `${iso[1]}-${pad(+iso[2])}-${pad(+iso[3])}`;
+
+  const mdy = str.match(/^([A-Za-z]{3,})\.? (\d{1,2}),? (\d{4})/);
+  if (mdy) {
+    const month = MONTHS.indexOf(mdy[1].slice(0, 3).toLowerCase()) + 1;
+    return month > 0 ? `${mdy[3]}-${pad(month)}-${pad(+mdy[2])}` : null;
+  }
+
+  const dmy = str.match(/^(\d{1,2})[-/. ]([A-Za-z]{3,}|\d{1,2})[-/., ]+(\d{2,4})/);
+  if (!dmy) return null;
+  const month = /\d/.test(dmy[2]) ? +dmy[2] : MONTHS.indexOf(dmy[2].slice(0, 3).toLowerCase()) + 1;
+  const year = dmy[3].length === 2 ? 2000 + +dmy[3] : +dmy[3];
+  const day = +dmy[1];
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/** Amounts as the portals print them: "1,23,456.00", "₹ 500", "250.00 Cr", "(120.00)". */
+export function parseAmount(value: unknown): number {
+  if (value === null || value === undefined || value === '') return 0;
+  if (typeof value === 'number') return value;
+  const str = String(value).trim();
+  const negative = /^\(.*\)$/.test(str) || /\bdr\b/i.test(str);
+  const num = parseFloat(str.replace(/[^0-9.-]/g, ''));
+  if (isNaN(num)) return 0;
+  return negative ? -Math.abs(num) : num;
+}
+
+function findColumn(headers: string[], names: string[], taken: Set<number>): number {
+  for (const name of names) {
+    const i = headers.findIndex((h, idx) => !taken.has(idx) && h.includes(name));
+    if (i >= 0) return i;
+  }
+  return -1;
+}
+
+/** First sheet of a CSV / XLSX as rows of raw cells. */
+export function readGrid(data: ArrayBuffer): unknown[][] {
+  // raw: CSV text stays text, so 03/04/25 isn't read as a US-style date
+  const workbook = XLSX.read(new Uint8Array(data), { type: 'array', raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  return XLSX.utils.sheet_to_json(sheet, { header: 1, raw: true, defval: '' }) as unknown[][];
+}
+
+function normaliseRow(row: unknown[] | undefined): string[] {
+  return (row || []).map(c => String(c ?? '').toLowerCase().replace(/\s+/g, ' ').trim());
+}
+
+/** Best guess at which bank a statement came from, from its preamble and header. */
+export function detectBank(data: ArrayBuffer, fileName = ''): BankId | null {
+  // Only the preamble and header: narrations name other banks all the time
+  const grid = readGrid(data);
+  const headerIdx = grid.findIndex((r, i) => {
+    const text = normaliseRow(r).join(' ');
+    return i < 40 && /date/.test(text) && /debit|credit|withdrawal|deposit|amount/.test(text);
+  });
+  const head = grid.slice(0, headerIdx >= 0 ? headerIdx + 1 : 40).map(r => normaliseRow(r).join(' ')).join(' ');
+  return BANK_IDS.find(id => BANK_PROFILES[id].detect.test(head))
+    ?? BANK_IDS.find(id => BANK_PROFILES[id].fileHint.test(fileName))
+    ?? null;
+}
+
+export function parseBankStatement(data: ArrayBuffer, bank: BankId): BankStatementParseResult {
+  const profile = BANK_PROFILES[bank];
+  const grid = readGrid(data);
+  const warnings: string[] = [];
+  const result: BankStatementParseResult = { bank, lines: [], fromDate: null, toDate: null, closingBalance: null, warnings };
+
+  // Header row: the first row with a date column and at least one amount column
+  let headerIdx = -1;
+  let cols: Record<keyof BankProfile['columns'], number> | null = null;
+  for (let i = 0; i < Math.min(40, grid.length); i++) {
+    const headers = normaliseRow(grid[i]);
+    const taken = new Set<number>();
+    const date = findColumn(headers, profile.columns.date, taken);
+    if (date < 0) continue;
+    taken.add(date);
+    const debit = findColumn(headers, profile.columns.debit, taken);
+    if (debit >= 0) taken.add(debit);
+    const credit = findColumn(headers, profile.columns.credit, taken);
+    if (credit >= 0) taken.add(credit);
+    const amount = debit < 0 && credit < 0 ? findColumn(headers, profile.columns.amount, taken) : -1;
+    if (debit < 0 && credit < 0 && amount < 0) continue;
+    if (amount >= 0) taken.add(amount);
+    const drCr = findColumn(headers, profile.columns.drCr, taken);
+    if (drCr >= 0) taken.add(drCr);
+    const balance = findColumn(headers, profile.columns.balance, taken);
+    if (balance >= 0) taken.add(balance);
+    const reference = findColumn(headers, profile.columns.reference, taken);
+    if (reference >= 0) taken.add(reference);
+    const narration = findColumn(headers, profile.columns.narration, taken);
+    headerIdx = i;
+    cols = { date, narration, reference, debit, credit, balance, drCr, amount };
+    break;
+  }
+
+  if (!cols) {
+    warnings.push(`Could not find the ${profile.label} column headers — is this the right bank?`);
+    return result;
+  }
+
+  const cell = (row: unknown[], c: number) => (c >= 0 ? row[c] : '');
+  let skipped = 0;
+
+  for (let i = headerIdx + 1; i < grid.length; i++) {
+    const row = grid[i];
+    if (!row || row.every(c => c === '' || c === null || c === undefined)) continue;
+
+    const date = toIsoDate(cell(row, cols.date));
+    if (!date) {
+      // Separator rows (HDFC's asterisks), opening / closing balance footers
+      if (String(cell(row, cols.narration) || '').trim()) skipped++;
+      continue;
+    }
+
+    let debit = Math.abs(parseAmount(cell(row, cols.debit)));
+    let credit = Math.abs(parseAmount(cell(row, cols.credit)));
+    if (cols.amount >= 0) {
+      const amount = Math.abs(parseAmount(cell(row, cols.amount)));
+      if (/^d/i.test(String(cell(row, cols.drCr)).trim())) debit = amount;
+      else credit = amount;
+    }
+    if (debit === 0 && credit === 0) continue;
+
+    const reference = String(cell(row, cols.reference) ?? '').trim();
+    const narration = String(cell(row, cols.narration) ?? '').trim()
+      || (bank === 'easebuzz' ? `Easebuzz payout ${reference}`.trim() : '');
+    const balance = cols.balance >= 0 && cell(row, cols.balance) !== '' ? parseAmount(cell(row, cols.balance)) : null;
+
+    result.lines.push({
+      id: `${bank}-${i + 1}`,
+      bank,
+      row: i + 1,
+      date,
+      narration,
+      reference,
+      debit: debit >= credit ? debit : 0,
+      credit: credit > debit ? credit : 0,
+      balance,
+    });
+  }
+
+  if (skipped > 0) warnings.push(`${skipped} row(s) without a valid date were skipped (balance / separator rows).`);
+  if (result.lines.length === 0) warnings.push('No transactions found under the header row.');
+
+  const dates = result.lines.map(l => l.date).sort();
+  result.fromDate = dates[0] ?? null;
+  result.toDate = dates[dates.length - 1] ?? null;
+  // Statements run oldest → newest or newest → oldest; the closing balance
+  // is the one on the latest-dated line, last in file order within that day.
+  const withBalance = result.lines.filter(l => l.balance !== null);
+  if (withBalance.length > 0) {
+    const ascending = withBalance[0].date <= withBalance[withBalance.length - 1].date;
+    result.closingBalance = (ascending ? withBalance[withBalance.length - 1] : withBalance[0]).balance;
+  }
+
+  return result;
+}
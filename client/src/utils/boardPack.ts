@@ -0,0 +1,801 @@
+/**
+ * MIS Deck — PDF Board Pack
+ *
+ * Composes a paginated board pack for one month or quarter from the bundled
+ * deck data (the same source as the live deck and `deckExcelExport.ts`):
+ * a cover, a contents page, then the chosen sections — KPI cards, the P&L
+ * cascade with its bridge, channel mix, the SKU × channel matrix, repeats and
+ * free-text commentary.
+ *
+ * Charts are the deck's own components from `charts.tsx`, drawn as vectors
+ * through `svgToPdf.ts` rather than screenshotted. Every page after the cover
+ * carries the same header (pack title, period, section) and footer (source,
+ * COGM basis, "Page n of N"); the contents page links to each section.
+ */
+
+import { createElement, type ReactElement } from 'react';
+import { jsPDF } from 'jspdf';
+import {
+  LineChart,
+  StackedBarChart,
+  DonutChart,
+  WaterfallChart,
+  inr,
+  pctStr,
+  pctSigned,
+  CHANNEL_COLORS,
+  SERIES_COLORS,
+  type WaterfallStep,
+} from '../components/mis-deck/charts';
+import {
+  seriesFor,
+  seriesForBlended,
+  marginsOf,
+  channelMix,
+  channelLabel,
+  topChannel,
+  totalOrders,
+  skuChannelMatrix,
+  SKU_COVERAGE,
+  FACTORY_PCT,
+  SALES_CHANNELS,
+  type PeriodMIS,
+  type SkuAgg,
+} from '../data/misDeck/analytics';
+import { MIS_SOURCE_FILE, MIS_GENERATED_AT, D2C_REPEATS, AMAZON_REPEATS } from '../data/misDeck/dataset';
+import { drawSvg, pdfText, renderChartSvg, svgSize } from './svgToPdf';
+
+// ============================================
+// OPTIONS
+// ============================================
+
+export type BoardPackGranularity = 'month' | 'quarter';
+
+export type BoardPackSection = 'kpis' | 'pnl' | 'channels' | 'skuchannel' | 'repeats' | 'commentary';
+
+export const BOARD_PACK_SECTIONS: { id: BoardPackSection; title: string; desc: string }[] = [
+  { id: 'kpis', title: 'Key numbers', desc: 'Headline KPI cards and the revenue & EBITDA trend up to the period' },
+  { id: 'pnl', title: 'P&L cascade', desc: 'Net revenue to net income against the prior period and last year, with the bridge' },
+  { id: 'channels', title: 'Channel mix', desc: 'Revenue and share by channel, and how the mix has moved' },
+  { id: 'skuchannel', title: 'SKU × Channel', desc: 'CM2 contribution per product per channel' },
+  { id: 'repeats', title: 'Repeats', desc: 'Repeat-purchase behaviour — Shopify (D2C) & Amazon' },
+  { id: 'commentary', title: 'Commentary', desc: "Management's notes for the period" },
+];
+
+export interface BoardPackOptions {
+  granularity: BoardPackGranularity;
+  /** `PeriodMIS.key` of the month or quarter the pack is for. */
+  periodKey: string;
+  /** Printed in BOARD_PACK_SECTIONS order, whatever order they're given in. */
+  sections: BoardPackSection[];
+  /** Free text; blank lines split paragraphs, lines starting "-" or "•" become bullets. */
+  commentary: string;
+  /** Blend COGM to each fiscal year's rate, as on the deck's Blended view. */
+  blendCogm: boolean;
+}
+
+/** The months or quarters a pack can be built for, oldest first. */
+export function boardPackPeriods(g: BoardPackGranularity): PeriodMIS[] {
+  return seriesFor(g);
+}
+
+// ============================================
+// PAGE LAYOUT (A4 landscape, mm)
+// ============================================
+
+const PAGE_W = 297;
+const PAGE_H = 210;
+const MARGIN = 14;
+const CONTENT_W = PAGE_W - MARGIN * 2;
+const TOP = 24;
+const BOTTOM = PAGE_H - 18;
+const HEADING_H = 7.5;
+const NOTE_H = 5;
+const LEGEND_H = 8;
+
+const INK = '#0f172a';
+const BODY = '#334155';
+const MUTED = '#64748b';
+const RULE = '#e2e8f0';
+const BRAND = '#4f46e5';
+const HEAD_BG = '#1e3a5f';
+const SHADE = '#f1f5f9';
+
+interface Column {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+interface Row {
+  cells: string[];
+  bold?: boolean;
+  shade?: boolean;
+  faint?: boolean;
+  /** Colour chip drawn before the first cell. */
+  swatch?: string;
+}
+
+interface KpiCard {
+  label: string;
+  value: string;
+  sub?: string;
+  tone?: 'brand' | 'amber' | 'slate';
+}
+
+/** Flows content down the pages, starting a new page whenever the next block won't fit. */
+class PackWriter {
+  readonly pdf = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
+  readonly contents: { title: string; page: number }[] = [];
+  y = TOP;
+  private section = '';
+  private readonly pageSection = new Map<number, string>();
+
+  get page(): number {
+    return this.pdf.getNumberOfPages();
+  }
+
+  newPage(section: string) {
+    this.pdf.addPage();
+    this.pageSection.set(this.page, section);
+    this.y = TOP;
+  }
+
+  startSection(title: string, intro?: string) {
+    this.section = title;
+    this.newPage(title);
+    this.contents.push({ title, page: this.page });
+    this.font(16, 'bold', INK);
+    this.pdf.text(pdfText(title), MARGIN, this.y + 4);
+    this.y += 9;
+    if (intro) {
+      this.font(9, 'normal', MUTED);
+      this.pdf.text(pdfText(intro), MARGIN, this.y + 2);
+      this.y += 6;
+    }
+    this.y += 2;
+  }
+
+  ensure(height: number) {
+    if (this.y + height > BOTTOM) this.newPage(this.section);
+  }
+
+  font(size: number, style: 'normal' | 'bold', color: string) {
+    this.pdf.setFont('helvetica', style);
+    this.pdf.setFontSize(size);
+    this.pdf.setTextColor(color);
+  }
+
+  subheading(text: string, note?: string) {
+    // Keep a heading with at least the first rows of whatever follows it
+    this.ensure(HEADING_H + (note ? NOTE_H : 0) + 24);
+    this.font(11, 'bold', INK);
+    this.pdf.text(pdfText(text), MARGIN, this.y + 4);
+    this.y += HEADING_H;
+    if (note) {
+      this.font(8, 'normal', MUTED);
+      this.pdf.text(pdfText(note), MARGIN, this.y + 1);
+      this.y += NOTE_H;
+    }
+  }
+
+  paragraph(text: string, opts: { size?: number; color?: string; bullet?: boolean } = {}) {
+    const size = opts.size ?? 10;
+    const indent = opts.bullet ? 5 : 0;
+    const lineH = size * 0.45;
+    this.font(size, 'normal', opts.color ?? BODY);
+    const lines: string[] = this.pdf.splitTextToSize(pdfText(text), CONTENT_W - indent);
+    lines.forEach((line, i) => {
+      this.ensure(lineH);
+      if (opts.bullet && i === 0) this.pdf.text('•', MARGIN + 1, this.y + lineH - 1);
+      this.pdf.text(line, MARGIN + indent, this.y + lineH - 1);
+      this.y += lineH;
+    });
+    this.y += lineH * 0.5;
+  }
+
+  /** A chart from charts.tsx drawn at (x, y) and scaled to `width`; returns the height used. */
+  chart(element: ReactElement, width: number, x = MARGIN): number {
+    return drawSvg(this.pdf, renderChartSvg(element), x, this.y, width);
+  }
+
+  /** A titled chart with its legend, kept together on one page. */
+  figure(opts: { title: string; note?: string; chart: ReactElement; width: number; legend?: { label: string; color: string }[] }) {
+    const svg = renderChartSvg(opts.chart);
+    const size = svgSize(svg);
+    const height = (size.height * opts.width) / size.width;
+    this.ensure(HEADING_H + (opts.note ? NOTE_H : 0) + height + (opts.legend ? LEGEND_H : 0));
+    this.subheading(opts.title, opts.note);
+    drawSvg(this.pdf, svg, MARGIN, this.y, opts.width);
+    this.y += height + 2;
+    if (opts.legend) this.legend(opts.legend);
+  }
+
+  legend(items: { label: string; color: string }[]) {
+    this.font(8, 'normal', BODY);
+    let x = MARGIN;
+    for (const it of items) {
+      const label = pdfText(it.label);
+      this.pdf.setFillColor(it.color);
+      this.pdf.rect(x, this.y + 0.6, 2.6, 2.6, 'F');
+      this.pdf.text(label, x + 4, this.y + 3);
+      x += 4 + this.pdf.getTextWidth(label) + 6;
+    }
+    this.y += LEGEND_H;
+  }
+
+  kpis(cards: KpiCard[]) {
+    const perRow = 4;
+    const gap = 4;
+    const w = (CONTENT_W - gap * (perRow - 1)) / perRow;
+    const h = 24;
+    const tones = { brand: '#4338ca', amber: '#d97706', slate: INK };
+    for (let i = 0; i < cards.length; i += perRow) {
+      this.ensure(h);
+      cards.slice(i, i + perRow).forEach((c, j) => {
+        const x = MARGIN + j * (w + gap);
+        this.pdf.setDrawColor(RULE);
+        this.pdf.setLineWidth(0.3);
+        this.pdf.roundedRect(x, this.y, w, h, 2, 2, 'S');
+        this.font(7, 'normal', MUTED);
+        this.pdf.text(pdfText(c.label.toUpperCase()), x + 4, this.y + 6, { maxWidth: w - 8 });
+        this.font(16, 'bold', tones[c.tone ?? 'slate']);
+        this.pdf.text(pdfText(c.value), x + 4, this.y + 14.5);
+        if (c.sub) {
+          this.font(8, 'normal', MUTED);
+          this.pdf.text(this.pdf.splitTextToSize(pdfText(c.sub), w - 8)[0], x + 4, this.y + 20);
+        }
+      });
+      this.y += h + gap;
+    }
+    this.y += 2;
+  }
+
+  /** A table that carries on over page breaks, repeating its header row. */
+  table(columns: Column[], rows: Row[], x = MARGIN) {
+    const rowH = 6;
+    const width = columns.reduce((s, c) => s + c.width, 0);
+    const cellText = (text: string, col: Column, cx: number, ty: number) => {
+      const fitted: string = this.pdf.splitTextToSize(pdfText(text), col.width - 3)[0] ?? '';
+      if (col.align === 'right') this.pdf.text(fitted, cx + col.width - 1.5, ty, { align: 'right' });
+      else this.pdf.text(fitted, cx + 1.5, ty);
+    };
+    const header = () => {
+      this.pdf.setFillColor(HEAD_BG);
+      this.pdf.rect(x, this.y, width, rowH + 1, 'F');
+      this.font(8, 'bold', '#ffffff');
+      let cx = x;
+      for (const col of columns) {
+        cellText(col.header, col, cx, this.y + 4.6);
+        cx += col.width;
+      }
+      this.y += rowH + 1;
+    };
+
+    this.ensure(rowH * 3);
+    header();
+    for (const row of rows) {
+      if (this.y + rowH > BOTTOM) {
+        this.newPage(this.section);
+        header();
+      }
+      if (row.shade) {
+        this.pdf.setFillColor(SHADE);
+        this.pdf.rect(x, this.y, width, rowH, 'F');
+      }
+      this.font(8.5, row.bold ? 'bold' : 'normal', row.faint ? MUTED : INK);
+      let cx = x;
+      row.cells.forEach((text, i) => {
+        const col = columns[i];
+        if (!col) return;
+        if (i === 0 && row.swatch) {
+          this.pdf.setFillColor(row.swatch);
+          this.pdf.rect(cx + 1.5, this.y + 1.7, 2.6, 2.6, 'F');
+          cellText(text, { ...col, width: col.width - 4 }, cx + 4, this.y + 4.2);
+        } else {
+          cellText(text, col, cx, this.y + 4.2);
+        }
+        cx += col.width;
+      });
+      this.pdf.setDrawColor(RULE);
+      this.pdf.setLineWidth(0.2);
+      this.pdf.line(x, this.y + rowH, x + width, this.y + rowH);
+      this.y += rowH;
+    }
+    this.y += 5;
+  }
+
+  /** Headers and footers on every page after the cover. */
+  frame(title: string, footer: string) {
+    const total = this.page;
+    for (let i = 2; i <= total; i++) {
+      this.pdf.setPage(i);
+      this.font(8, 'normal', MUTED);
+      this.pdf.text(pdfText(title), MARGIN, 12);
+      this.pdf.text(pdfText(this.pageSection.get(i) ?? ''), PAGE_W - MARGIN, 12, { align: 'right' });
+      this.pdf.setDrawColor(BRAND);
+      this.pdf.setLineWidth(0.4);
+      this.pdf.line(MARGIN, 14.5, PAGE_W - MARGIN, 14.5);
+
+      this.pdf.setDrawColor(RULE);
+      this.pdf.setLineWidth(0.3);
+      this.pdf.line(MARGIN, PAGE_H - 12, PAGE_W - MARGIN, PAGE_H - 12);
+      this.font(7.5, 'normal', MUTED);
+      this.pdf.text(pdfText(footer), MARGIN, PAGE_H - 7.5);
+      this.pdf.text(`Page ${i} of ${total}`, PAGE_W - MARGIN, PAGE_H - 7.5, { align: 'right' });
+    }
+  }
+}
+
+// ============================================
+// SECTIONS
+// ============================================
+
+interface PackContext {
+  g: BoardPackGranularity;
+  series: PeriodMIS[];
+  idx: number;
+  p: PeriodMIS;
+  /** The period before, when it covers as many months (so growth is like for like). */
+  prev: PeriodMIS | null;
+  /** The same period a year earlier, on the same condition. */
+  yoy: PeriodMIS | null;
+}
+
+const money = (v: number, sign = false) => pdfText(inr(v, { sign }));
+
+const MONTHS3 = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function keyToLabel(key: string): string {
+  const [y, m] = key.split('-').map(Number);
+  return `${MONTHS3[(m || 1) - 1]} '${String((y || 0) % 100).padStart(2, '0')}`;
+}
+
+function growth(cur: number, prior: PeriodMIS | null, get: (p: PeriodMIS) => number): number | null {
+  if (!prior) return null;
+  const base = get(prior);
+  return base ? (cur - base) / Math.abs(base) : null;
+}
+
+/** Up to a year of periods ending at the pack's period. */
+function trendOf(ctx: PackContext): PeriodMIS[] {
+  const span = ctx.g === 'month' ? 13 : 8;
+  return ctx.series.slice(Math.max(0, ctx.idx - span + 1), ctx.idx + 1);
+}
+
+function kpiSection(w: PackWriter, ctx: PackContext) {
+  const { p, g } = ctx;
+  const m = marginsOf(p);
+  const top = topChannel(p);
+  const seqLabel = g === 'month' ? 'MoM' : 'QoQ';
+  const rev = (x: PeriodMIS) => x.netRevenue;
+
+  w.startSection('Key numbers', `${p.longLabel}${p.monthsCount > 1 ? ` · ${p.firstMonthShort}–${p.lastMonthShort}` : ''}`);
+  w.kpis([
+    {
+      label: `Net Revenue · ${p.label}`,
+      value: money(p.netRevenue),
+      tone: 'brand',
+      sub: `${seqLabel} ${pctSigned(growth(p.netRevenue, ctx.prev, rev))} · YoY ${pctSigned(growth(p.netRevenue, ctx.yoy, rev))}`,
+    },
+    { label: 'Gross Margin', value: pctStr(m.grossMarginPct), tone: 'brand', sub: `Gross profit ${money(p.grossMargin)}` },
+    { label: 'EBITDA', value: money(p.ebitda), tone: p.ebitda >= 0 ? 'brand' : 'slate', sub: `${pctStr(m.ebitdaPct)} of revenue` },
+    { label: 'Net Income', value: money(p.netIncome), tone: p.netIncome >= 0 ? 'brand' : 'slate', sub: `${pctStr(m.netIncomePct)} of revenue` },
+    { label: 'Contribution Margin (CM2)', value: pctStr(m.cm2Pct), sub: `${money(p.cm2)} after channel & marketing` },
+    { label: 'Top channel', value: channelLabel(top.channel), tone: 'amber', sub: `${pctStr(top.share, 0)} of net revenue` },
+    { label: 'Orders (est.)', value: Math.round(totalOrders(p)).toLocaleString('en-IN'), sub: 'Net revenue ÷ channel AOV' },
+    {
+      label: 'Costs',
+      value: money(p.cogm + p.channelFulfillment + p.salesMarketing + p.platformCosts + p.opex),
+      sub: 'COGM + opex (pre-interest)',
+    },
+  ]);
+
+  const trend = trendOf(ctx);
+  w.figure({
+    title: 'Net Revenue & EBITDA',
+    note: g === 'month' ? 'Last 13 months' : 'Last 8 quarters',
+    chart: createElement(LineChart, {
+      labels: trend.map((t) => t.label),
+      series: [
+        { name: 'Net Revenue', color: SERIES_COLORS[0], values: trend.map((t) => t.netRevenue) },
+        { name: 'EBITDA', color: SERIES_COLORS[1], values: trend.map((t) => t.ebitda) },
+      ],
+      height: 220,
+    }),
+    width: CONTENT_W * 0.75,
+    legend: [
+      { label: 'Net Revenue', color: SERIES_COLORS[0] },
+      { label: 'EBITDA', color: SERIES_COLORS[1] },
+    ],
+  });
+}
+
+const PNL_LINES: { label: string; get: (p: PeriodMIS) => number; margin?: boolean }[] = [
+  { label: 'NET REVENUE', get: (p) => p.netRevenue, margin: true },
+  { label: 'Less: COGM', get: (p) => -p.cogm },
+  { label: 'GROSS MARGIN', get: (p) => p.grossMargin, margin: true },
+  { label: 'Less: Channel & Fulfillment', get: (p) => -p.channelFulfillment },
+  { label: 'CM1 (Contribution Margin 1)', get: (p) => p.cm1, margin: true },
+  { label: 'Less: Sales & Marketing', get: (p) => -p.salesMarketing },
+  { label: 'CM2 (Contribution Margin 2)', get: (p) => p.cm2, margin: true },
+  { label: 'Less: Brand Investment', get: (p) => -p.platformCosts },
+  { label: 'CM3 (Contribution Margin 3)', get: (p) => p.cm3, margin: true },
+  { label: 'Less: Operating Expenses', get: (p) => -p.opex },
+  { label: 'EBITDA', get: (p) => p.ebitda, margin: true },
+  { label: 'Less: Non-Operating (Int/Dep/Amort/Tax)', get: (p) => -p.nonOperating },
+  { label: 'NET INCOME', get: (p) => p.netIncome, margin: true },
+];
+
+function pnlSection(w: PackWriter, ctx: PackContext) {
+  const { p, prev, yoy } = ctx;
+  const share = (x: PeriodMIS, v: number) => (x.netRevenue ? pctStr(v / x.netRevenue) : '–');
+
+  w.startSection('P&L cascade', `${p.longLabel} against ${prev ? prev.longLabel : 'no comparable prior period'} and ${yoy ? yoy.longLabel : 'no comparable period last year'}`);
+  w.table(
+    [
+      { header: 'Particulars', width: 71 },
+      { header: p.label, width: 28, align: 'right' },
+      { header: '% NR', width: 18, align: 'right' },
+      { header: prev?.label ?? 'Prior', width: 28, align: 'right' },
+      { header: '% NR', width: 18, align: 'right' },
+      { header: 'Change', width: 25, align: 'right' },
+      { header: yoy?.label ?? 'Last year', width: 28, align: 'right' },
+      { header: '% NR', width: 18, align: 'right' },
+      { header: 'YoY change', width: 25, align: 'right' },
+    ],
+    PNL_LINES.map((line) => {
+      const cur = line.get(p);
+      return {
+        bold: line.margin,
+        shade: line.margin,
+        cells: [
+          line.label,
+          money(cur),
+          share(p, cur),
+          prev ? money(line.get(prev)) : '–',
+          prev ? share(prev, line.get(prev)) : '–',
+          prev ? money(cur - line.get(prev), true) : '–',
+          yoy ? money(line.get(yoy)) : '–',
+          yoy ? share(yoy, line.get(yoy)) : '–',
+          yoy ? money(cur - line.get(yoy), true) : '–',
+        ],
+      };
+    }),
+  );
+  w.paragraph('Changes are the effect on profit: a cost that grew shows as a negative change.', { size: 8, color: MUTED });
+
+  const steps: WaterfallStep[] = [
+    { label: 'Net Revenue', value: p.netRevenue, type: 'total' },
+    { label: 'COGM', value: -p.cogm, type: 'cost' },
+    { label: 'Channel & Fulfil', value: -p.channelFulfillment, type: 'cost' },
+    { label: 'Sales & Mktg', value: -p.salesMarketing, type: 'cost' },
+    { label: 'Brand Investment', value: -p.platformCosts, type: 'cost' },
+    { label: 'OpEx', value: -p.opex, type: 'cost' },
+    { label: 'Non-Op', value: -p.nonOperating, type: 'cost' },
+    { label: 'Net Income', value: p.netIncome, type: 'total' },
+  ];
+  w.figure({
+    title: `P&L bridge · ${p.longLabel}`,
+    note: 'From net revenue to net income',
+    chart: createElement(WaterfallChart, { steps }),
+    width: CONTENT_W * 0.75,
+  });
+}
+
+function channelSection(w: PackWriter, ctx: PackContext) {
+  const { p, prev } = ctx;
+  const mix = channelMix(p);
+  const prevMix = prev ? channelMix(prev) : null;
+  const channels = SALES_CHANNELS.filter((c) => p.netByChannel[c] || prev?.netByChannel[c]);
+
+  w.startSection('Channel mix', `Net revenue by channel · ${p.longLabel}`);
+  const donutW = 58;
+  w.ensure(donutW);
+  const top = w.y;
+  w.chart(
+    createElement(DonutChart, { data: channels.map((c) => ({ key: c, value: Math.max(0, p.netByChannel[c]) })), colors: CHANNEL_COLORS }),
+    donutW,
+  );
+  w.table(
+    [
+      { header: 'Channel', width: 42 },
+      { header: 'Net revenue', width: 30, align: 'right' },
+      { header: 'Share', width: 22, align: 'right' },
+      { header: prev ? `Share ${prev.label}` : 'Prior share', width: 30, align: 'right' },
+      { header: 'Share move', width: 26, align: 'right' },
+      { header: prev ? `vs ${prev.label}` : 'Growth', width: 28, align: 'right' },
+    ],
+    [
+      ...channels.map((c) => ({
+        swatch: CHANNEL_COLORS[c],
+        cells: [
+          channelLabel(c),
+          money(p.netByChannel[c]),
+          pctStr(mix[c]),
+          prevMix ? pctStr(prevMix[c]) : '–',
+          prevMix ? `${((mix[c] - prevMix[c]) * 100 >= 0 ? '+' : '')}${((mix[c] - prevMix[c]) * 100).toFixed(1)} pp` : '–',
+          pctSigned(growth(p.netByChannel[c], prev, (x) => x.netByChannel[c])),
+        ],
+      })),
+      {
+        bold: true,
+        shade: true,
+        cells: ['Total', money(p.netRevenue), '100.0%', prev ? '100.0%' : '–', '', pctSigned(growth(p.netRevenue, prev, (x) => x.netRevenue))],
+      },
+    ],
+    MARGIN + donutW + 10,
+  );
+  w.y = Math.max(w.y, top + donutW + 6);
+
+  const trend = trendOf(ctx);
+  w.figure({
+    title: 'Channel share over time',
+    note: ctx.g === 'month' ? 'Last 13 months, % of net revenue' : 'Last 8 quarters, % of net revenue',
+    chart: createElement(StackedBarChart, {
+      labels: trend.map((t) => t.label),
+      keys: [...channels],
+      colors: CHANNEL_COLORS,
+      data: trend.map((t) => ({ ...t.netByChannel })),
+      asShare: true,
+      height: 200,
+    }),
+    width: CONTENT_W * 0.75,
+    legend: channels.map((c) => ({ label: channelLabel(c), color: CHANNEL_COLORS[c] })),
+  });
+}
+
+function skuChannelSection(w: PackWriter, ctx: PackContext) {
+  const { p, g } = ctx;
+  const mx = skuChannelMatrix(g, p);
+
+  w.startSection(
+    'SKU × Channel',
+    `CM2 contribution per product per channel · ${p.longLabel}. Real per-unit COGS + ${Math.round(FACTORY_PCT * 100)}% factory cost; before shared opex.`,
+  );
+  if (mx.products.length === 0) {
+    w.paragraph(`The SKU feed has no rows for ${p.longLabel}. It covers ${SKU_COVERAGE.first} to ${SKU_COVERAGE.last}.`, { color: MUTED });
+    return;
+  }
+
+  const fixed = 62 + 28 * 3;
+  const chW = Math.min(30, (CONTENT_W - fixed) / Math.max(1, mx.channels.length));
+  const con = (a: SkuAgg | undefined) => (!a || (a.rev === 0 && a.con === 0) ? '·' : money(a.con));
+  const cmPct = (a: SkuAgg) => (a.rev > 0 ? pctStr(a.con / a.rev) : '–');
+  w.table(
+    [
+      { header: 'Product', width: 62 },
+      ...mx.channels.map((c) => ({ header: channelLabel(c), width: chW, align: 'right' as const })),
+      { header: 'Revenue', width: 28, align: 'right' },
+      { header: 'CM2', width: 28, align: 'right' },
+      { header: 'CM2 %', width: 28, align: 'right' },
+    ],
+    [
+      ...mx.products.map((prod) => {
+        const total = mx.productTotal(prod);
+        return {
+          faint: prod.startsWith('Accessory'),
+          cells: [prod, ...mx.channels.map((c) => con(mx.cell(prod, c))), money(total.rev), money(total.con), cmPct(total)],
+        };
+      }),
+      {
+        bold: true,
+        shade: true,
+        cells: ['Total CM2', ...mx.channels.map((c) => money(mx.channelTotal(c).con)), money(mx.grand.rev), money(mx.grand.con), cmPct(mx.grand)],
+      },
+      { cells: ['Revenue', ...mx.channels.map((c) => money(mx.channelTotal(c).rev)), '', '', ''] },
+      { cells: ['CM2 %', ...mx.channels.map((c) => cmPct(mx.channelTotal(c))), '', '', ''] },
+    ],
+  );
+  w.paragraph(
+    'Amazon and D2C carry measured per-product costs, fees and ads; Blinkit, Offline and OEM are single-SKU channels with COGS from unit cost over real selling price.',
+    { size: 8, color: MUTED },
+  );
+}
+
+function repeatsSection(w: PackWriter, ctx: PackContext) {
+  const { p } = ctx;
+  const inPeriod = new Set(p.monthKeys);
+  const lastKey = p.monthKeys[p.monthKeys.length - 1] ?? '';
+  const keys = [...new Set([...D2C_REPEATS.map((r) => r.key), ...AMAZON_REPEATS.map((r) => r.key)])]
+    .filter((k) => k <= lastKey)
+    .sort()
+    .slice(-12);
+  const d2c = D2C_REPEATS.filter((r) => inPeriod.has(r.key));
+  const amz = AMAZON_REPEATS.filter((r) => inPeriod.has(r.key));
+  const partial = (r: { partial?: boolean }) => (r.partial ? ' (partial)' : '');
+
+  w.startSection('Repeats', `Repeat-purchase behaviour · ${p.longLabel}`);
+  if (keys.length === 0) {
+    w.paragraph(`No repeat-purchase data goes back as far as ${p.longLabel}.`, { color: MUTED });
+    return;
+  }
+
+  const d2cByKey = new Map(D2C_REPEATS.map((r) => [r.key, r]));
+  const amzByKey = new Map(AMAZON_REPEATS.map((r) => [r.key, r]));
+  w.figure({
+    title: 'Repeat rate — Shopify vs Amazon',
+    note: 'Shopify: share of the month’s new cohort that reordered. Amazon: share of the month’s customers who were repeat buyers.',
+    chart: createElement(LineChart, {
+      labels: keys.map(keyToLabel),
+      series: [
+        { name: 'Shopify (D2C)', color: CHANNEL_COLORS.D2C, values: keys.map((k) => d2cByKey.get(k)?.repeatRate ?? null) },
+        { name: 'Amazon', color: CHANNEL_COLORS.Amazon, values: keys.map((k) => amzByKey.get(k)?.repeatCustomerShare ?? null) },
+      ],
+      percent: true,
+      valueFormat: (v: number) => pctStr(v),
+      height: 200,
+    }),
+    width: CONTENT_W * 0.7,
+    legend: [
+      { label: 'Shopify (D2C)', color: CHANNEL_COLORS.D2C },
+      { label: 'Amazon', color: CHANNEL_COLORS.Amazon },
+    ],
+  });
+
+  if (d2c.length > 0) {
+    w.subheading('Shopify (D2C)');
+    w.table(
+      [
+        { header: 'Month', width: 40 },
+        { header: 'Buyers', width: 28, align: 'right' },
+        { header: 'Orders', width: 28, align: 'right' },
+        { header: 'AOV', width: 28, align: 'right' },
+        { header: 'Orders / buyer', width: 30, align: 'right' },
+        { header: 'Repeat rate', width: 30, align: 'right' },
+        { header: 'LTV / buyer', width: 30, align: 'right' },
+      ],
+      d2c.map((r) => ({
+        cells: [
+          keyToLabel(r.key) + partial(r),
+          r.buyers.toLocaleString('en-IN'),
+          r.orders.toLocaleString('en-IN'),
+          money(r.aov),
+          r.freq.toFixed(2),
+          pctStr(r.repeatRate),
+          money(r.histLtv),
+        ],
+      })),
+    );
+  }
+  if (amz.length > 0) {
+    w.subheading('Amazon');
+    w.table(
+      [
+        { header: 'Month', width: 40 },
+        { header: 'Customers', width: 28, align: 'right' },
+        { header: 'Repeat customers', width: 34, align: 'right' },
+        { header: 'Repeat share', width: 30, align: 'right' },
+        { header: 'Repeat sales', width: 30, align: 'right' },
+        { header: 'Repeat sales share', width: 34, align: 'right' },
+      ],
+      amz.map((r) => ({
+        cells: [
+          keyToLabel(r.key) + partial(r),
+          r.customers.toLocaleString('en-IN'),
+          r.repeatCustomers.toLocaleString('en-IN'),
+          pctStr(r.repeatCustomerShare),
+          money(r.repeatSales),
+          pctStr(r.repeatSalesShare),
+        ],
+      })),
+    );
+  }
+  if (d2c.length === 0 && amz.length === 0) {
+    w.paragraph(`Neither repeat feed has figures for ${p.longLabel} itself; the trend above runs to the latest month before it.`, { size: 9, color: MUTED });
+  }
+}
+
+function commentarySection(w: PackWriter, ctx: PackContext, text: string) {
+  w.startSection('Commentary', ctx.p.longLabel);
+  for (const block of text.split(/\n\s*\n/)) {
+    for (const line of block.split('\n').map((l) => l.trim()).filter(Boolean)) {
+      const bullet = /^[-•*]\s*/.test(line);
+      w.paragraph(bullet ? line.replace(/^[-•*]\s*/, '') : line, { bullet });
+    }
+    w.y += 2;
+  }
+}
+
+// ============================================
+// COVER & CONTENTS
+// ============================================
+
+function cover(w: PackWriter, ctx: PackContext, blend: boolean) {
+  const { pdf } = w;
+  pdf.setFillColor(HEAD_BG);
+  pdf.rect(0, 0, 10, PAGE_H, 'F');
+  pdf.setFillColor(BRAND);
+  pdf.rect(10, 0, 2, PAGE_H, 'F');
+
+  w.font(12, 'normal', MUTED);
+  pdf.text('Heatronics', 32, 62);
+  w.font(34, 'bold', INK);
+  pdf.text('Board Pack', 32, 80);
+  w.font(20, 'normal', BRAND);
+  pdf.text(pdfText(ctx.p.longLabel), 32, 94);
+  if (ctx.p.monthsCount > 1) {
+    w.font(11, 'normal', BODY);
+    pdf.text(pdfText(`${ctx.p.firstMonthShort} – ${ctx.p.lastMonthShort} · ${ctx.p.monthsCount} months`), 32, 103);
+  }
+
+  w.font(9, 'normal', MUTED);
+  const lines = [
+    `Prepared ${new Date().toLocaleDateString('en-IN', { day: 'numeric', month: 'long', year: 'numeric' })}`,
+    `Source: ${MIS_SOURCE_FILE} (${MIS_GENERATED_AT})`,
+    blend ? "COGM blended to each fiscal year's revenue-weighted rate" : 'COGM as booked',
+    'Confidential — for the board and investors only',
+  ];
+  lines.forEach((l, i) => pdf.text(pdfText(l), 32, 160 + i * 5.5));
+}
+
+function fillContents(w: PackWriter, page: number) {
+  const { pdf } = w;
+  pdf.setPage(page);
+  let y = TOP + 4;
+  w.font(16, 'bold', INK);
+  pdf.text('Contents', MARGIN, y);
+  y += 12;
+  const right = MARGIN + 170;
+  w.contents.forEach((entry, i) => {
+    w.font(11, 'normal', INK);
+    const label = `${i + 1}.  ${pdfText(entry.title)}`;
+    pdf.text(label, MARGIN, y);
+    pdf.text(String(entry.page), right, y, { align: 'right' });
+    pdf.setDrawColor('#cbd5e1');
+    pdf.setLineWidth(0.2);
+    pdf.setLineDashPattern([0.4, 1.2], 0);
+    pdf.line(MARGIN + pdf.getTextWidth(label) + 2, y - 0.8, right - pdf.getTextWidth(String(entry.page)) - 2, y - 0.8);
+    pdf.setLineDashPattern([], 0);
+    pdf.link(MARGIN, y - 5, right - MARGIN, 7, { pageNumber: entry.page });
+    y += 9;
+  });
+}
+
+// ============================================
+// PUBLIC ENTRY POINTS
+// ============================================
+
+/** Lay out the pack. Throws if the period isn't in the deck data. */
+export function buildBoardPack(options: BoardPackOptions): jsPDF {
+  const g = options.granularity;
+  const series = options.blendCogm ? seriesForBlended(g) : seriesFor(g);
+  const idx = series.findIndex((s) => s.key === options.periodKey);
+  if (idx < 0) throw new Error(`No ${g} "${options.periodKey}" in the MIS data`);
+  const p = series[idx];
+  const comparable = (other?: PeriodMIS) => (other && other.monthsCount === p.monthsCount ? other : null);
+  const ctx: PackContext = {
+    g,
+    series,
+    idx,
+    p,
+    prev: comparable(series[idx - 1]),
+    yoy: comparable(series[idx - (g === 'month' ? 12 : 4)]),
+  };
+
+  const w = new PackWriter();
+  cover(w, ctx, options.blendCogm);
+  w.newPage('Contents');
+  const contentsPage = w.page;
+
+  const chosen = new Set(options.sections);
+  if (chosen.has('kpis')) kpiSection(w, ctx);
+  if (chosen.has('pnl')) pnlSection(w, ctx);
+  if (chosen.has('channels')) channelSection(w, ctx);
+  if (chosen.has('skuchannel')) skuChannelSection(w, ctx);
+  if (chosen.has('repeats')) repeatsSection(w, ctx);
+  if (chosen.has('commentary') && options.commentary.trim()) commentarySection(w, ctx, options.commentary);
+
+  fillContents(w, contentsPage);
+  w.frame(
+    `Heatronics · Board Pack · ${p.longLabel}`,
+    `Source: ${MIS_SOURCE_FILE} (${MIS_GENERATED_AT}) · ${options.blendCogm ? 'Blended COGM' : 'Actual COGM'} · Confidential`,
+  );
+  return w.pdf;
+}
+
+export async function exportBoardPack(options: BoardPackOptions): Promise<void> {
+  const pdf = buildBoardPack(options);
+  const stamp = options.periodKey.replace(/[^A-Za-z0-9-]+/g, '_');
+  pdf.save(`MIS_Board_Pack_${stamp}.pdf`);
+}
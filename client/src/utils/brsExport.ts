@@ -0,0 +1,90 @@
+// BRS export: the Bank Reconciliation Statement for one bank statement as
+// Excel. "BRS" sheet is the statement itself (balance as per bank → balance
+// as per books with the reconciling items listed under each head);
+// "Matched" and "Unmatched" carry the detail behind it.
+
+import XLSX from 'xlsx-js-style';
+import { saveAs } from 'file-saver';
+import { BANK_PROFILES } from './bankStatementParsers';
+import type { BankStatementLine, BookEntry, BrsSummary, ReconciliationResult } from '../types/bankReconciliation';
+
+type Style = NonNullable<XLSX.CellObject['s']>;
+type Cell = string | number | null;
+
+const S = {
+  title: { font: { bold: true, sz: 12, color: { rgb: 'FFFFFF' } }, fill: { fgColor: { rgb: '1E3A5F' }, patternType: 'solid' }, alignment: { horizontal: 'left' } },
+  head: { font: { bold: true, sz: 10, color: { rgb: 'FFFFFF' } }, fill: { fgColor: { rgb: '1E3A5F' }, patternType: 'solid' }, alignment: { horizontal: 'center' } },
+  label: { font: { sz: 10 }, alignment: { horizontal: 'left' } },
+  labelBold: { font: { bold: true, sz: 10 }, alignment: { horizontal: 'left' } },
+  num: { font: { sz: 10 }, alignment: { horizontal: 'right' }, numFmt: '#,##0.00' },
+  numBold: { font: { bold: true, sz: 10 }, alignment: { horizontal: 'right' }, numFmt: '#,##0.00' },
+} satisfies Record<string, Style>;
+
+function sheet(rows: { cells: Cell[]; style?: Style; numStyle?: Style }[], widths: number[]): XLSX.WorkSheet {
+  const ws: XLSX.WorkSheet = {};
+  rows.forEach((row, r) => {
+    row.cells.forEach((v, c) => {
+      const s = typeof v === 'number' ? row.numStyle ?? S.num : row.style ?? S.label;
+      ws[XLSX.utils.encode_cell({ r, c })] = { v: v ?? '', t: typeof v === 'number' ? 'n' : 's', s };
+    });
+  });
+  ws['!ref'] = `A1:${XLSX.utils.encode_cell({ r: Math.max(rows.length - 1, 0), c: widths.length - 1 })}`;
+  ws['!cols'] = widths.map((wch) => ({ wch }));
+  return ws;
+}
+
+const entryRow = (e: BookEntry): Cell[] => ['', e.date, e.counterParty, e.amount];
+const lineRow = (l: BankStatementLine): Cell[] => ['', l.date, `${l.narration}${l.reference ? ` (${l.reference})` : ''}`, l.debit || l.credit];
+
+export function downloadBrs(summary: BrsSummary, result: ReconciliationResult): void {
+  const bank = BANK_PROFILES[summary.bank];
+  const total = (xs: number[]) => xs.reduce((s, x) => s + x, 0);
+  const heading = (label: string, items: number[], sign: '+' | '−') => ({
+    cells: [`${sign} ${label}`, '', '', total(items)] as Cell[],
+    style: S.labelBold,
+    numStyle: S.numBold,
+  });
+
+  const brs = sheet([
+    { cells: [`HEATRONICS · Bank Reconciliation Statement · ${bank.ledger}`, '', '', ''], style: S.title },
+    { cells: [`As at ${summary.asOf ?? '—'}`, '', '', ''], style: S.labelBold },
+    { cells: ['Particulars', 'Date', 'Detail', 'Amount (₹)'], style: S.head },
+    { cells: ['Balance as per bank statement', '', '', summary.balancePerBank], style: S.labelBold, numStyle: S.numBold },
+    heading('Deposits in books not yet credited by bank', summary.depositsNotCredited.map((e) => e.amount), '+'),
+    ...summary.depositsNotCredited.map((e) => ({ cells: entryRow(e) })),
+    heading('Bank debits not yet booked (charges, auto-debits)', summary.bankDebitsNotInBooks.map((l) => l.debit), '+'),
+    ...summary.bankDebitsNotInBooks.map((l) => ({ cells: lineRow(l) })),
+    heading('Payments in books not yet presented', summary.paymentsNotPresented.map((e) => e.amount), '−'),
+    ...summary.paymentsNotPresented.map((e) => ({ cells: entryRow(e) })),
+    heading('Bank credits not yet booked', summary.bankCreditsNotInBooks.map((l) => l.credit), '−'),
+    ...summary.bankCreditsNotInBooks.map((l) => ({ cells: lineRow(l) })),
+    { cells: ['Balance as per books', '', '', summary.balancePerBooks], style: S.labelBold, numStyle: S.numBold },
+  ], [48, 12, 48, 16]);
+
+  const matched = sheet([
+    { cells: ['Statement date', 'Narration', 'Reference', 'Debit', 'Credit', 'Book date', 'Counter-party', 'Amount', 'Score'], style: S.head },
+    ...result.matched.map((p) => ({
+      cells: [p.line.date, p.line.narration, p.line.reference, p.line.debit, p.line.credit, p.entry.date, p.entry.counterParty, p.entry.amount, p.score] as Cell[],
+    })),
+  ], [12, 48, 18, 14, 14, 12, 36, 14, 8]);
+
+  const unmatched = sheet([
+    { cells: ['Side', 'Date', 'Narration / counter-party', 'Reference', 'Money out', 'Money in'], style: S.head },
+    ...[...result.unmatchedLines, ...result.suggested.map((p) => p.line)].map((l) => ({
+      cells: ['Bank', l.date, l.narration, l.reference, l.debit, l.credit] as Cell[],
+    })),
+    ...[...result.unmatchedEntries, ...result.suggested.map((p) => p.entry)].map((e) => ({
+      cells: ['Books', e.date, e.counterParty, '', e.direction === 'payment' ? e.amount : 0, e.direction === 'receipt' ? e.amount : 0] as Cell[],
+    })),
+  ], [8, 12, 48, 18, 14, 14]);
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, brs, 'BRS');
+  XLSX.utils.book_append_sheet(wb, matched, 'Matched');
+  XLSX.utils.book_append_sheet(wb, unmatched, 'Unmatched');
+  const buffer = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
+  saveAs(
+    new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+    `Heatronics_BRS_${summary.bank}_${summary.asOf ?? 'statement'}.xlsx`,
+  );
+}
@@ -0,0 +1,120 @@
+// Budget template: download / import the annual operating plan for one fiscal
+// year as Excel. One "Budget" sheet with an Entity column, the budgetable MIS
+// Sheet lines down the side and the FY's twelve month keys ("2025-04") across
+// the top. Values in ₹ Lac (Qty as a plain count), costs as positive numbers —
+// the same convention as the MIS Sheet download.
+
+import XLSX from 'xlsx-js-style';
+import { saveAs } from 'file-saver';
+import { MIS_SHEET_ROWS, MIS_ENTITIES, type MisEntity } from '../data/misDeck/misSheet';
+import { fiscalYearMonthKeys } from '../data/misDeck/budget';
+import type { BudgetCell, BudgetState } from '../types/budget';
+
+const LAC = 1e5;
+const MONTH_KEY_RE = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/** MIS Sheet rows a budget can be entered for (direct fields, not ratios). */
+export const BUDGET_ROWS = MIS_SHEET_ROWS.filter((r) => r.field && !r.pct);
+
+type Style = NonNullable<XLSX.CellObject['s']>;
+
+const S = {
+  title: { font: { bold: true, sz: 12, color: { rgb: 'FFFFFF' } }, fill: { fgColor: { rgb: '1E3A5F' }, patternType: 'solid' }, alignment: { horizontal: 'left' } },
+  head: { font: { bold: true, sz: 10, color: { rgb: 'FFFFFF' } }, fill: { fgColor: { rgb: '1E3A5F' }, patternType: 'solid' }, alignment: { horizontal: 'center' } },
+  label: { font: { sz: 10 }, alignment: { horizontal: 'left' } },
+  labelBold: { font: { bold: true, sz: 10 }, alignment: { horizontal: 'left' } },
+  num: { font: { sz: 10 }, alignment: { horizontal: 'right' }, numFmt: '#,##0.00' },
+  count: { font: { sz: 10 }, alignment: { horizontal: 'right' }, numFmt: '#,##0' },
+} satisfies Record<string, Style>;
+
+/** Download the template for a fiscal year, pre-filled with any budget already saved. */
+export function downloadBudgetTemplate(fyKey: string, budget: BudgetState): void {
+  const months = fiscalYearMonthKeys(fyKey);
+  const ws: XLSX.WorkSheet = {};
+  const put = (r: number, c: number, v: string | number, s: Style) => {
+    ws[XLSX.utils.encode_cell({ r, c })] = { v, t: typeof v === 'number' ? 'n' : 's', s };
+  };
+
+  put(0, 0, `HEATRONICS MIS · Budget ${fyKey} (₹ Lac; Qty as count; costs positive)`, S.title);
+  for (let c = 1; c < months.length + 2; c++) put(0, c, '', S.title);
+  put(1, 0, 'Entity', S.head);
+  put(1, 1, 'Particulars in INR Lac', S.head);
+  months.forEach((m, i) => put(1, i + 2, m, S.head));
+
+  let r = 2;
+  for (const entity of MIS_ENTITIES) {
+    for (const row of BUDGET_ROWS) {
+      put(r, 0, entity.id, S.label);
+      put(r, 1, row.label, row.bold ? S.labelBold : S.label);
+      months.forEach((m, i) => {
+        const value = budget.months[m]?.[entity.id]?.[row.field!];
+        if (value === undefined) put(r, i + 2, '', S.label);
+        else if (row.count) put(r, i + 2, Math.round(value), S.count);
+        else put(r, i + 2, Math.round((value / LAC) * 100) / 100, S.num);
+      });
+      r++;
+    }
+  }
+
+  ws['!ref'] = `A1:${XLSX.utils.encode_cell({ r, c: months.length + 1 })}`;
+  ws['!cols'] = [{ wch: 14 }, { wch: 26 }, ...months.map(() => ({ wch: 11 }))];
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, 'Budget');
+  const buffer = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
+  saveAs(
+    new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+    `Heatronics_Budget_${fyKey.replace(/\s+/g, '_')}.xlsx`,
+  );
+}
+
+// ----------------------------------------------------------------------------
+// Import: read a filled-in template back into budget cells. Blank cells are
+// skipped (they don't clear an existing figure); unknown entities and lines
+// are reported rather than guessed.
+// ----------------------------------------------------------------------------
+
+export interface ParsedBudget {
+  cells: BudgetCell[];
+  skipped: string[];
+}
+
+const ROW_BY_LABEL = new Map(BUDGET_ROWS.map((r) => [r.label.toLowerCase(), r]));
+const ENTITY_BY_NAME = new Map<string, MisEntity>(
+  MIS_ENTITIES.flatMap((e) => [[e.id.toLowerCase(), e.id], [e.label.toLowerCase(), e.id]] as [string, MisEntity][]),
+);
+
+export function parseBudgetTemplate(data: ArrayBuffer): ParsedBudget | null {
+  const wb = XLSX.read(data, { type: 'array' });
+  const sheetName = wb.SheetNames.find((n) => /budget/i.test(n)) ?? wb.SheetNames[0];
+  const ws = wb.Sheets[sheetName];
+  if (!ws) return null;
+  const grid = XLSX.utils.sheet_to_json<(string | number)[]>(ws, { header: 1, blankrows: true });
+
+  const headerIdx = grid.findIndex((r) => typeof r[1] === 'string' && /particulars/i.test(r[1] as string));
+  if (headerIdx < 0) return null;
+  const monthCols = grid[headerIdx]
+    .map((v, c) => ({ key: String(v ?? '').trim(), c }))
+    .filter(({ key, c }) => c >= 2 && MONTH_KEY_RE.test(key));
+  if (monthCols.length === 0) return null;
+
+  const cells: BudgetCell[] = [];
+  const skipped = new Set<string>();
+  for (let i = headerIdx + 1; i < grid.length; i++) {
+    const raw = grid[i];
+    const entityName = String(raw[0] ?? '').trim();
+    const label = String(raw[1] ?? '').trim();
+    if (!entityName && !label) continue;
+    const entity = ENTITY_BY_NAME.get(entityName.toLowerCase());
+    const row = ROW_BY_LABEL.get(label.toLowerCase());
+    if (!entity || !row) {
+      skipped.add(`${entityName || '(no entity)'} · ${label || '(no line)'}`);
+      continue;
+    }
+    for (const { key, c } of monthCols) {
+      const cell = raw[c];
+      if (typeof cell !== 'number') continue;
+      cells.push({ monthKey: key, entity, line: row.field!, value: row.count ? cell : cell * LAC });
+    }
+  }
+  return { cells, skipped: [...skipped] };
+}
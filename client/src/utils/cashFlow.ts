@@ -0,0 +1,171 @@
+import { MISRecord, periodToString } from '../types/misTracking';
+import { BalanceSheetPosition } from '../types/balanceSheet';
+
+// ============================================
+// CASH FLOW (INDIRECT METHOD) + WORKING CAPITAL
+// ============================================
+// Built from saved MIS periods whose Balance Sheet upload included the
+// Liabilities / Assets side. A month's statement needs its own closing
+// position and the previous month's (as the opening), so the first uploaded
+// month only gets working-capital metrics.
+//
+// Sign convention: every line is its cash impact — a rise in an asset
+// (stock, debtors) is an outflow, a rise in a liability (creditors, GST
+// payable, loans) is an inflow.
+
+export interface CashFlowStatement {
+  ebitda: number;
+
+  // Working-capital movements
+  inventory: number;
+  receivables: number;
+  payables: number;
+  gst: number;                 // Duties & Taxes (net GST / TDS payable)
+  otherWorkingCapital: number; // Loans & Advances (asset) and provisions
+  cashFromOperationsBeforeTax: number;
+  interestAndTax: number;
+  cashFromOperations: number;
+
+  // Investing
+  capex: number;               // Net block movement plus the month's depreciation / amortisation
+  investments: number;
+  cashFromInvesting: number;
+
+  // Financing
+  loans: number;
+  capital: number;
+  cashFromFinancing: number;
+
+  netCashFlow: number;
+  openingCash: number;
+  closingCash: number;
+  // Actual change in Cash + Bank less the derived net cash flow. Non-zero when
+  // the books carry movements the groups above don't capture (e.g. branch
+  // accounts, year-end profit transfer to capital).
+  unexplained: number;
+}
+
+export interface WorkingCapitalMetrics {
+  netWorkingCapital: number;   // Debtors + stock + advances − creditors − duties & taxes − provisions
+  dso: number | null;          // Days sales outstanding
+  dio: number | null;          // Days inventory outstanding
+  dpo: number | null;          // Days payables outstanding
+  ccc: number | null;          // Cash conversion cycle = DSO + DIO − DPO
+}
+
+export interface CashFlowMonth {
+  periodKey: string;
+  label: string;
+  position: BalanceSheetPosition;
+  metrics: WorkingCapitalMetrics;
+  // null for the first month, or when the previous month has no position
+  statement: CashFlowStatement | null;
+}
+
+function daysInMonth(month: number, year: number): number {
+  return new Date(year, month, 0).getDate();
+}
+
+function isPreviousMonth(prev: MISRecord, cur: MISRecord): boolean {
+  const prevIndex = prev.period.year * 12 + prev.period.month;
+  return cur.period.year * 12 + cur.period.month - prevIndex === 1;
+}
+
+/**
+ * DSO uses revenue including GST (receivables carry the tax); DIO and DPO
+ * use COGM as the cost base. Ratios are for the month, on closing balances.
+ */
+export function workingCapitalMetrics(record: MISRecord, position: BalanceSheetPosition): WorkingCapitalMetrics {
+  const days = daysInMonth(record.period.month, record.period.year);
+  const sales = record.revenue.totalRevenue;
+  const cost = record.cogm.totalCOGM;
+  const ratio = (balance: number, flow: number) => (flow > 0 ? (balance / flow) * days : null);
+
+  const dso = ratio(position.sundryDebtors, sales);
+  const dio = ratio(position.closingStock, cost);
+  const dpo = ratio(position.sundryCreditors, cost);
+
+  return {
+    netWorkingCapital:
+      position.sundryDebtors + position.closingStock + position.loansAndAdvances -
+      position.sundryCreditors - position.dutiesAndTaxes - position.provisions,
+    dso,
+    dio,
+    dpo,
+    ccc: dso !== null && dio !== null && dpo !== null ? dso + dio - dpo : null
+  };
+}
+
+export function buildCashFlowStatement(
+  record: MISRecord,
+  opening: BalanceSheetPosition,
+  closing: BalanceSheetPosition
+): CashFlowStatement {
+  const delta = (key: keyof BalanceSheetPosition) => closing[key] - opening[key];
+  const nonOp = record.nonOperating;
+
+  const inventory = -delta('closingStock');
+  const receivables = -delta('sundryDebtors');
+  const payables = delta('sundryCreditors');
+  const gst = delta('dutiesAndTaxes');
+  const otherWorkingCapital = -delta('loansAndAdvances') + delta('provisions');
+  const cashFromOperationsBeforeTax = record.ebitda + inventory + receivables + payables + gst + otherWorkingCapital;
+  const interestAndTax = -((nonOp?.interestExpense || 0) + (nonOp?.incomeTax || 0));
+  const cashFromOperations = cashFromOperationsBeforeTax + interestAndTax;
+
+  const capex = -(delta('fixedAssets') + (nonOp?.depreciation || 0) + (nonOp?.amortization || 0));
+  const investments = -delta('investments');
+  const cashFromInvesting = capex + investments;
+
+  const loans = delta('loans');
+  const capital = delta('capital');
+  const cashFromFinancing = loans + capital;
+
+  const netCashFlow = cashFromOperations + cashFromInvesting + cashFromFinancing;
+
+  return {
+    ebitda: record.ebitda,
+    inventory,
+    receivables,
+    payables,
+    gst,
+    otherWorkingCapital,
+    cashFromOperationsBeforeTax,
+    interestAndTax,
+    cashFromOperations,
+    capex,
+    investments,
+    cashFromInvesting,
+    loans,
+    capital,
+    cashFromFinancing,
+    netCashFlow,
+    openingCash: opening.cash,
+    closingCash: closing.cash,
+    unexplained: closing.cash - opening.cash - netCashFlow
+  };
+}
+
+/**
+ * Cash flow and working-capital metrics for every saved period that has a
+ * Balance Sheet position, oldest first.
+ */
+export function buildCashFlow(records: MISRecord[]): CashFlowMonth[] {
+  const withPosition = records
+    .filter(r => r.balanceSheet?.position)
+    .sort((a, b) => a.period.year * 12 + a.period.month - (b.period.year * 12 + b.period.month));
+
+  return withPosition.map((record, i) => {
+    const position = record.balanceSheet!.position!;
+    const prev = withPosition[i - 1];
+    return {
+      periodKey: record.periodKey,
+      label: periodToString(record.period),
+      position,
+      metrics: workingCapitalMetrics(record, position),
+      statement: prev && isPreviousMonth(prev, record)
+        ? buildCashFlowStatement(record, prev.balanceSheet!.position!, position)
+        : null
+    };
+  });
+}
@@ -13,17 +13,16 @@
 
 import XLSX from 'xlsx-js-style';
 import { saveAs } from 'file-saver';
+import { SALES_CHANNELS, type MonthlyMIS } from '../data/misDeck/misDeckData';
 import {
   MONTHLY_MIS,
   FY_SUMMARY,
-  SALES_CHANNELS,
   MIS_SOURCE_FILE,
   MIS_GENERATED_AT,
   D2C_REPEATS,
   AMAZON_REPEATS,
   DISCOUNT_DATA,
-  type MonthlyMIS,
-} from '../data/misDeck/misDeckData';
+} from '../data/misDeck/dataset';
 import {
   seriesFor,
   seriesForBlended,
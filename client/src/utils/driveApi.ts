@@ -7,7 +7,7 @@ export interface DriveFileInfo {
   id: string;
   name: string;
   mimeType: string;
-  type: 'balance_sheet' | 'sales_register' | 'purchase_register' | 'journal_register' | 'unknown';
+  type: 'balance_sheet' | 'sales_register' | 'purchase_register' | 'journal_register' | 'tally_daybook' | 'unknown';
   month: number;
   year: number;
   stateCode: string;
@@ -22,6 +22,7 @@ export interface DriveStateData {
   hasSalesRegister: boolean;
   hasPurchaseRegister: boolean;
   hasJournalRegister: boolean;
+  hasDayBook: boolean;
 }
 
 export interface DriveMonthData {
@@ -0,0 +1,149 @@
+// Form 26Q working file: one quarter's TDS on non-salary payments, laid out
+// in the columns of the Protean (NSDL) Return Preparation Utility so each
+// block pastes straight into the RPU grid. "Challans" is the challan
+// details block, "Deductees" the Annexure I deductee rows linked to them by
+// challan serial number, and "Unallocated" the deductions no challan
+// covers yet — those must be deposited (with interest) before filing.
+
+import XLSX from 'xlsx-js-style';
+import { saveAs } from 'file-saver';
+import { NO_PAN_RATE, certificateCovers } from './tdsLedger';
+import type { TdsChallan, TdsDeducteeSection, TdsEntry, TdsLedger, TdsState } from '../types/tds';
+
+type Style = NonNullable<XLSX.CellObject['s']>;
+type Cell = string | number | null;
+
+const S = {
+  title: { font: { bold: true, sz: 12, color: { rgb: 'FFFFFF' } }, fill: { fgColor: { rgb: '1E3A5F' }, patternType: 'solid' }, alignment: { horizontal: 'left' } },
+  head: { font: { bold: true, sz: 10, color: { rgb: 'FFFFFF' } }, fill: { fgColor: { rgb: '1E3A5F' }, patternType: 'solid' }, alignment: { horizontal: 'center', wrapText: true } },
+  label: { font: { sz: 10 }, alignment: { horizontal: 'left' } },
+  labelBold: { font: { bold: true, sz: 10 }, alignment: { horizontal: 'left' } },
+  num: { font: { sz: 10 }, alignment: { horizontal: 'right' }, numFmt: '0.00' },
+} satisfies Record<string, Style>;
+
+function sheet(rows: { cells: Cell[]; style?: Style }[], widths: number[]): XLSX.WorkSheet {
+  const ws: XLSX.WorkSheet = {};
+  rows.forEach((row, r) => {
+    row.cells.forEach((v, c) => {
+      const s = typeof v === 'number' ? S.num : row.style ?? S.label;
+      ws[XLSX.utils.encode_cell({ r, c })] = { v: v ?? '', t: typeof v === 'number' ? 'n' : 's', s };
+    });
+  });
+  ws['!ref'] = `A1:${XLSX.utils.encode_cell({ r: Math.max(rows.length - 1, 0), c: widths.length - 1 })}`;
+  ws['!cols'] = widths.map((wch) => ({ wch }));
+  return ws;
+}
+
+/** RPU dates are dd/mm/yyyy. */
+function rpuDate(iso: string): string {
+  return `${iso.slice(8, 10)}/${iso.slice(5, 7)}/${iso.slice(0, 4)}`;
+}
+
+// Deductee code: 01 company, 02 everyone else. Reason codes: A lower
+// deduction under a 197 certificate, C higher rate for want of PAN.
+function deducteeRow(sr: number, challanSr: number | null, row: TdsDeducteeSection, e: TdsEntry): Cell[] {
+  const withCertificate = !!row.pan && certificateCovers(row.certificate, row.section, e.date);
+  const reason = !row.pan ? 'C' : withCertificate ? 'A' : '';
+  const rate = e.base > 0 ? Math.round((e.tds / e.base) * 10000) / 100 : 0;
+  return [
+    sr,
+    challanSr,
+    row.deducteeType === 'company' ? '01' : '02',
+    row.pan || 'PANNOTAVBL',
+    row.party,
+    e.returnCode,
+    rpuDate(e.date),
+    e.base,
+    e.tds,
+    0,
+    0,
+    e.tds,
+    e.tds,
+    rpuDate(e.date),
+    !row.pan ? Math.max(rate, NO_PAN_RATE) : rate,
+    reason,
+    withCertificate ? row.certificate!.number : '',
+    e.reference,
+  ];
+}
+
+const DEDUCTEE_HEAD = [
+  'Sr. No.', 'Challan Sr. No.', 'Deductee code (01 Company / 02 Other)', 'PAN of deductee', 'Name of deductee',
+  'Section code', 'Date of payment / credit', 'Amount paid / credited', 'TDS', 'Surcharge', 'Education cess',
+  'Total tax deducted', 'Total tax deposited', 'Date of deduction', 'Rate at which deducted',
+  'Reason for non-deduction / lower deduction', 'Certificate number u/s 197', 'Invoice / voucher ref.',
+];
+
+export function download26Q(ledger: TdsLedger, quarter: 1 | 2 | 3 | 4, tds: TdsState): void {
+  const months = new Set(ledger.quarters[quarter - 1].months.map((m) => m.month));
+  const challans: TdsChallan[] = tds.challans
+    .filter((c) => months.has(c.month))
+    .sort((a, b) => a.depositedOn.localeCompare(b.depositedOn) || a.section.localeCompare(b.section));
+
+  // Each deduction goes to the first challan for its section and month
+  // with room left; what no challan covers is listed separately.
+  const room = challans.map((c) => c.tds);
+  const allocated: Cell[][] = [];
+  const unallocated: Cell[][] = [];
+  const perChallan = challans.map(() => 0);
+  for (const row of ledger.deductees) {
+    for (const e of row.entries) {
+      if (e.tds <= 0 || !months.has(e.date.slice(0, 7))) continue;
+      const i = challans.findIndex((c, j) => c.section === row.section && e.date.startsWith(c.month) && room[j] + 1 >= e.tds);
+      if (i >= 0) {
+        room[i] -= e.tds;
+        perChallan[i] += e.tds;
+        allocated.push(deducteeRow(allocated.length + 1, i + 1, row, e));
+      } else {
+        unallocated.push(deducteeRow(unallocated.length + 1, null, row, e));
+      }
+    }
+  }
+
+  const fy = ledger.fy;
+  const deductor = sheet([
+    { cells: [`HEATRONICS · Form 26Q working file · FY ${fy} · Q${quarter}`, ''], style: S.title },
+    { cells: ['Financial year', `${fy.slice(0, 4)}-${Number(fy.slice(0, 4)) + 1}`] },
+    { cells: ['Assessment year', `${Number(fy.slice(0, 4)) + 1}-${Number(fy.slice(0, 4)) + 2}`] },
+    { cells: ['Quarter', `Q${quarter}`] },
+    { cells: ['Form', '26Q'] },
+    { cells: ['Return due date', rpuDate(ledger.quarters[quarter - 1].returnDueDate)] },
+    { cells: ['TAN', ''] },
+    { cells: ['Challans', challans.length] },
+    { cells: ['Deductee rows', allocated.length] },
+    { cells: ['Rows without a challan', unallocated.length], style: unallocated.length ? S.labelBold : S.label },
+  ], [28, 24]);
+
+  const challanSheet = sheet([
+    {
+      cells: [
+        'Sr. No.', 'Section code', 'TDS', 'Surcharge', 'Education cess', 'Interest', 'Fee', 'Others',
+        'Total tax deposited', 'BSR code', 'Date on which tax deposited', 'Challan serial no.', 'Minor head',
+        'Total TDS allocated to deductees', 'Deductions for month',
+      ],
+      style: S.head,
+    },
+    ...challans.map((c, i) => ({
+      cells: [
+        i + 1, c.section, c.tds, 0, 0, c.interest, c.fee, 0, c.tds + c.interest + c.fee,
+        c.bsrCode, rpuDate(c.depositedOn), c.challanSerial, '200', Math.round(perChallan[i] * 100) / 100, c.month,
+      ] as Cell[],
+    })),
+  ], [7, 9, 12, 10, 10, 10, 10, 8, 14, 10, 14, 12, 8, 16, 12]);
+
+  const deducteeSheet = sheet([{ cells: DEDUCTEE_HEAD, style: S.head }, ...allocated.map((cells) => ({ cells }))],
+    [7, 9, 12, 13, 36, 9, 12, 14, 12, 9, 9, 12, 12, 12, 10, 14, 16, 18]);
+  const unallocatedSheet = sheet([{ cells: DEDUCTEE_HEAD, style: S.head }, ...unallocated.map((cells) => ({ cells }))],
+    [7, 9, 12, 13, 36, 9, 12, 14, 12, 9, 9, 12, 12, 12, 10, 14, 16, 18]);
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, deductor, 'Return');
+  XLSX.utils.book_append_sheet(wb, challanSheet, 'Challans');
+  XLSX.utils.book_append_sheet(wb, deducteeSheet, 'Deductees');
+  XLSX.utils.book_append_sheet(wb, unallocatedSheet, 'Unallocated');
+  const buffer = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
+  saveAs(
+    new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+    `Heatronics_26Q_FY${fy}_Q${quarter}.xlsx`,
+  );
+}
@@ -4,6 +4,7 @@
 import { MISRecord, MISStorageData, LearnedPattern, periodToKey } from '../types/misTracking';
 import { misDataStore } from '../services/misDataStore';
 import { MonthlyBSData } from '../types/monthlyMIS';
+import { PeriodLockedError } from '../types/periodClose';
 
 // Google Sheet ID from the URL
 const SHEET_ID = '1CgClltIfhvQMZ9kxQ2MqfcebyZzDoZdg6i2evHAo3JI';
@@ -148,6 +149,11 @@ function stripBulkyData(record: MISRecord): MISRecord {
 }
 
 export async function saveMISRecord(record: MISRecord): Promise<boolean> {
+  // A locked period keeps its signed-off record; recomputes are refused.
+  if (misDataStore.isMonthLocked(record.periodKey)) {
+    throw new PeriodLockedError(record.periodKey);
+  }
+
   try {
     const data = await loadMISData();
 
@@ -209,7 +215,7 @@ function syncRecordToMISDataStore(record: MISRecord): void {
         extractedLines: [],
       };
 
-      misDataStore.storeBSData(monthKey, primaryState, bsData);
+      misDataStore.restoreBSData(monthKey, primaryState, bsData);
       console.log(`[MIS Sync] Stored BS data for ${monthKey}/${primaryState}:`, {
         openingStock: bsData.openingStock,
         purchases: bsData.purchases,
@@ -0,0 +1,275 @@
+import type { SalesRegisterEntry, PurchaseRegisterEntry } from '../types/stateData';
+import type {
+  BookInvoice,
+  GstReconCounts,
+  GstReconLine,
+  GstReconResult,
+  GstReturnType,
+  GstSupplierRisk,
+  GstTaxSplit,
+  ParsedGstReturn,
+  PortalInvoice,
+} from '../types/gstRecon';
+
+// ============================================
+// GST RETURN RECONCILIATION
+// ============================================
+// Invoice-by-invoice, per GSTIN and month:
+//   • GSTR-1 (what we filed as outward supplies) ↔ the sales register
+//   • GSTR-2B (what suppliers filed against our GSTIN) ↔ the purchase register
+// Invoices pair on counterparty GSTIN + normalised invoice number; what is
+// left pairs on GSTIN + value when the numbers were keyed differently.
+// For GSTR-2B, input tax the books carry without portal support — missing,
+// short or marked ineligible — is ITC at risk, totalled per supplier.
+
+const VALUE_TOLERANCE = 1;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function emptySplit(): GstTaxSplit {
+  return { taxable: 0, igst: 0, cgst: 0, sgst: 0, cess: 0 };
+}
+
+function taxOf(s: GstTaxSplit): number {
+  return s.igst + s.cgst + s.sgst + s.cess;
+}
+
+/**
+ * "INV/0012", "inv-12" and "INV 12" are the same invoice: case, separators
+ * and leading zeros in the numeric runs don't count.
+ */
+export function normaliseInvoiceNo(raw: string): string {
+  return raw
+    .toUpperCase()
+    .replace(/\d+/g, (d) => d.replace(/^0+(?=\d)/, ''))
+    .replace(/[^A-Z0-9]/g, '');
+}
+
+function normaliseGstin(raw: string | undefined | null): string | null {
+  const g = (raw || '').toUpperCase().replace(/\s/g, '');
+  return /^\d{2}[A-Z0-9]{13}$/.test(g) ? g : null;
+}
+
+// ============================================
+// BOOKS
+// ============================================
+
+type RegisterEntry = SalesRegisterEntry | PurchaseRegisterEntry;
+
+/**
+ * Register lines folded into invoices. Lines without an invoice number are
+ * returned separately — they can't be matched and are reported as such.
+ */
+export function bookInvoicesFromRegister(entries: RegisterEntry[]): {
+  b2b: BookInvoice[];
+  b2c: GstTaxSplit;
+  unnumbered: number;
+} {
+  const byKey = new Map<string, BookInvoice>();
+  const b2c = emptySplit();
+  let unnumbered = 0;
+  // A register exported without its GSTIN column still matches on numbers
+  const hasGstins = entries.some((e) => normaliseGstin(e.gstin));
+
+  for (const e of entries) {
+    const gstin = normaliseGstin(e.gstin);
+    const split = { taxable: e.amount, igst: e.igst, cgst: e.cgst, sgst: e.sgst, cess: 0 };
+    // Sales without a recipient GSTIN are B2C; GSTR-1 only totals those
+    if (!gstin && hasGstins && 'channel' in e) {
+      b2c.taxable += split.taxable;
+      b2c.igst += split.igst;
+      b2c.cgst += split.cgst;
+      b2c.sgst += split.sgst;
+      continue;
+    }
+    if (!e.invoiceNo) {
+      unnumbered++;
+      continue;
+    }
+    const key = `${gstin ?? e.party.toUpperCase()}|${normaliseInvoiceNo(e.invoiceNo)}`;
+    const existing = byKey.get(key);
+    if (existing) {
+      existing.taxable += split.taxable;
+      existing.igst += split.igst;
+      existing.cgst += split.cgst;
+      existing.sgst += split.sgst;
+      existing.entries++;
+      continue;
+    }
+    byKey.set(key, {
+      counterpartyGstin: gstin,
+      party: e.party,
+      invoiceNo: e.invoiceNo,
+      date: e.date,
+      entries: 1,
+      ...split,
+    });
+  }
+
+  return { b2b: [...byKey.values()], b2c, unnumbered };
+}
+
+// ============================================
+// MATCHING
+// ============================================
+
+function diffOf(book: GstTaxSplit | null, portal: GstTaxSplit | null): GstTaxSplit {
+  const b = book ?? emptySplit();
+  const p = portal ?? emptySplit();
+  return {
+    taxable: round2(b.taxable - p.taxable),
+    igst: round2(b.igst - p.igst),
+    cgst: round2(b.cgst - p.cgst),
+    sgst: round2(b.sgst - p.sgst),
+    cess: round2(b.cess - p.cess),
+  };
+}
+
+function withinTolerance(diff: GstTaxSplit): boolean {
+  return Math.abs(diff.taxable) <= VALUE_TOLERANCE && Math.abs(taxOf(diff)) <= VALUE_TOLERANCE;
+}
+
+function makeLine(
+  returnType: GstReturnType,
+  book: BookInvoice | null,
+  portal: PortalInvoice | null,
+  notes: string[]
+): GstReconLine {
+  const diff = diffOf(book, portal);
+  let status: GstReconLine['status'];
+  if (!book) status = 'missing-in-books';
+  else if (!portal) status = 'missing-in-portal';
+  else status = withinTolerance(diff) ? 'matched' : 'mismatch';
+
+  let itcAtRisk = 0;
+  if (returnType === 'GSTR2B' && book) {
+    const bookItc = taxOf(book);
+    if (!portal) {
+      itcAtRisk = bookItc;
+      notes.push('Supplier has not filed this invoice — ITC not in GSTR-2B');
+    } else if (portal.itcAvailable === false) {
+      itcAtRisk = bookItc;
+      notes.push(`ITC marked ineligible on the portal${portal.itcReason ? ` (${portal.itcReason})` : ''}`);
+    } else if (bookItc - taxOf(portal) > VALUE_TOLERANCE) {
+      itcAtRisk = bookItc - taxOf(portal);
+      notes.push('Books claim more tax than the supplier reported');
+    }
+  }
+  if (status === 'mismatch') {
+    const heads = (['taxable', 'igst', 'cgst', 'sgst', 'cess'] as const).filter((k) => Math.abs(diff[k]) > VALUE_TOLERANCE);
+    if (heads.length) notes.push(`Differs on ${heads.map((h) => (h === 'taxable' ? 'taxable value' : h.toUpperCase())).join(', ')}`);
+  }
+  if (returnType === 'GSTR1' && status === 'missing-in-portal') notes.push('Invoiced in books, not reported in GSTR-1');
+  if (returnType === 'GSTR1' && status === 'missing-in-books') notes.push('Reported in GSTR-1, not in the sales register');
+  if (returnType === 'GSTR2B' && status === 'missing-in-books') notes.push('In GSTR-2B, not booked — ITC available to claim');
+
+  return { status, book, portal, diff, itcAtRisk: round2(Math.max(0, itcAtRisk)), notes };
+}
+
+export function reconcileGstReturn(parsed: ParsedGstReturn, entries: RegisterEntry[]): GstReconResult {
+  const { returnType } = parsed;
+  const books = bookInvoicesFromRegister(entries);
+  const lines: GstReconLine[] = [];
+
+  // Several portal documents can share a GSTIN and number — an invoice and
+  // its debit note, a B2B invoice and its amendment — so keep every one.
+  const portalLeft = new Set(parsed.invoices);
+  const portalByKey = new Map<string, PortalInvoice[]>();
+  const portalByNumber = new Map<string, PortalInvoice[]>();
+  for (const inv of parsed.invoices) {
+    const byNo = normaliseInvoiceNo(inv.invoiceNo);
+    const key = `${inv.counterpartyGstin.toUpperCase()}|${byNo}`;
+    portalByKey.set(key, [...(portalByKey.get(key) || []), inv]);
+    portalByNumber.set(byNo, [...(portalByNumber.get(byNo) || []), inv]);
+  }
+  const available = (inv: PortalInvoice) => portalLeft.has(inv);
+  // Of the documents left under one key, the one whose value agrees with the
+  // books, else the original invoice, else the first.
+  const pick = (candidates: PortalInvoice[], book: BookInvoice) =>
+    candidates.find((p) => Math.abs(p.taxable - book.taxable) <= VALUE_TOLERANCE) ??
+    candidates.find((p) => p.docType === 'invoice') ??
+    candidates[0];
+
+  // Pass 1: GSTIN + invoice number. Registers without a GSTIN column match
+  // on the number alone when only one portal invoice carries it.
+  const unmatchedBooks: BookInvoice[] = [];
+  for (const book of books.b2b) {
+    const no = normaliseInvoiceNo(book.invoiceNo);
+    let portal: PortalInvoice | undefined;
+    if (book.counterpartyGstin) {
+      const candidates = (portalByKey.get(`${book.counterpartyGstin}|${no}`) || []).filter(available);
+      if (candidates.length) portal = pick(candidates, book);
+    } else {
+      const candidates = (portalByNumber.get(no) || []).filter(available);
+      if (candidates.length === 1) portal = candidates[0];
+    }
+    if (portal) {
+      portalLeft.delete(portal);
+      lines.push(makeLine(returnType, book, portal, []));
+    } else {
+      unmatchedBooks.push(book);
+    }
+  }
+
+  // Pass 2: same GSTIN, same taxable value — the number was keyed differently
+  const stillUnmatched: BookInvoice[] = [];
+  for (const book of unmatchedBooks) {
+    const portal = book.counterpartyGstin
+      ? [...portalLeft].find(
+          (p) =>
+            p.counterpartyGstin.toUpperCase() === book.counterpartyGstin &&
+            Math.abs(p.taxable - book.taxable) <= VALUE_TOLERANCE
+        )
+      : undefined;
+    if (portal) {
+      portalLeft.delete(portal);
+      lines.push(makeLine(returnType, book, portal, [`Invoice number differs: books "${book.invoiceNo}", portal "${portal.invoiceNo}"`]));
+    } else {
+      stillUnmatched.push(book);
+    }
+  }
+
+  for (const book of stillUnmatched) lines.push(makeLine(returnType, book, null, []));
+  for (const portal of portalLeft) lines.push(makeLine(returnType, null, portal, []));
+
+  const order: Record<GstReconLine['status'], number> = { mismatch: 0, 'missing-in-portal': 1, 'missing-in-books': 2, matched: 3 };
+  lines.sort((a, b) => order[a.status] - order[b.status] || b.itcAtRisk - a.itcAtRisk);
+
+  const counts: GstReconCounts = { matched: 0, mismatch: 0, missingInBooks: 0, missingInPortal: 0 };
+  for (const l of lines) {
+    if (l.status === 'matched') counts.matched++;
+    else if (l.status === 'mismatch') counts.mismatch++;
+    else if (l.status === 'missing-in-books') counts.missingInBooks++;
+    else counts.missingInPortal++;
+  }
+
+  const suppliers = new Map<string, GstSupplierRisk>();
+  if (returnType === 'GSTR2B') {
+    for (const l of lines) {
+      if (l.itcAtRisk <= 0) continue;
+      const gstin = l.portal?.counterpartyGstin || l.book?.counterpartyGstin || '';
+      const key = gstin || l.book?.party || '';
+      const s = suppliers.get(key) ?? {
+        gstin,
+        name: l.book?.party || l.portal?.counterpartyName || gstin,
+        invoices: 0,
+        itcAtRisk: 0,
+      };
+      s.invoices++;
+      s.itcAtRisk = round2(s.itcAtRisk + l.itcAtRisk);
+      suppliers.set(key, s);
+    }
+  }
+
+  return {
+    returnType,
+    lines,
+    counts,
+    bookTax: round2(books.b2b.reduce((s, b) => s + taxOf(b), 0)),
+    portalTax: round2(parsed.invoices.reduce((s, p) => s + taxOf(p), 0)),
+    itcAtRisk: round2(lines.reduce((s, l) => s + l.itcAtRisk, 0)),
+    suppliers: [...suppliers.values()].sort((a, b) => b.itcAtRisk - a.itcAtRisk),
+    b2c: returnType === 'GSTR1' ? { books: books.b2c, portal: parsed.b2c ?? emptySplit() } : null,
+    unnumbered: books.unnumbered,
+  };
+}
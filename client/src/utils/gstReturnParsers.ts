@@ -0,0 +1,387 @@
+// GST Return Parsers
+// Reads the GSTR-1 and GSTR-2B downloads from the GST portal — the JSON
+// files and the Excel workbooks — into PortalInvoice lines. Credit notes
+// come back negative so a return nets the way the portal totals it.
+//
+// GSTR-1 Excel (offline-tool layout) carries only the rate, not the tax
+// amounts; those are worked out from the place of supply against the
+// filer's own state code: same state → CGST + SGST, otherwise IGST.
+
+import * as XLSX from 'xlsx';
+import { parseAmount, toIsoDate } from './bankStatementParsers';
+import type { GstReturnType, GstTaxSplit, ParsedGstReturn, PortalInvoice } from '../types/gstRecon';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function emptySplit(): GstTaxSplit {
+  return { taxable: 0, igst: 0, cgst: 0, sgst: 0, cess: 0 };
+}
+
+function addSplit(into: GstTaxSplit, add: GstTaxSplit, sign = 1): void {
+  into.taxable += sign * add.taxable;
+  into.igst += sign * add.igst;
+  into.cgst += sign * add.cgst;
+  into.sgst += sign * add.sgst;
+  into.cess += sign * add.cess;
+}
+
+// "042026" (MMYYYY, the portal's return period) -> "2026-04"
+function periodFromPortal(raw: unknown): string | null {
+  const m = String(raw ?? '').match(/^(\d{2})(\d{4})$/);
+  return m ? `${m[2]}-${m[1]}` : null;
+}
+
+function num(value: unknown): number {
+  return typeof value === 'number' ? value : parseAmount(value);
+}
+
+// ============================================
+// JSON
+// ============================================
+
+type Json = Record<string, unknown>;
+
+function arr(value: unknown): Json[] {
+  return Array.isArray(value) ? (value as Json[]) : [];
+}
+
+// GSTR-1 line items: itms[].itm_det { txval, iamt, camt, samt, csamt }
+function gstr1Items(items: unknown): GstTaxSplit {
+  const split = emptySplit();
+  for (const item of arr(items)) {
+    const d = (item.itm_det ?? item) as Json;
+    addSplit(split, {
+      taxable: num(d.txval),
+      igst: num(d.iamt),
+      cgst: num(d.camt),
+      sgst: num(d.samt),
+      cess: num(d.csamt),
+    });
+  }
+  return split;
+}
+
+// GSTR-2B documents carry totals at the document level and per item
+function gstr2bDoc(doc: Json): GstTaxSplit {
+  const items = arr(doc.items);
+  const source = items.length > 0 && doc.txval === undefined ? items : [doc];
+  const split = emptySplit();
+  for (const d of source) {
+    addSplit(split, { taxable: num(d.txval), igst: num(d.igst), cgst: num(d.cgst), sgst: num(d.sgst), cess: num(d.cess) });
+  }
+  return split;
+}
+
+function signed(split: GstTaxSplit, sign: number): GstTaxSplit {
+  return {
+    taxable: sign * split.taxable,
+    igst: sign * split.igst,
+    cgst: sign * split.cgst,
+    sgst: sign * split.sgst,
+    cess: sign * split.cess,
+  };
+}
+
+function parseGstr1Json(root: Json, warnings: string[]): ParsedGstReturn {
+  const invoices: PortalInvoice[] = [];
+  for (const party of arr(root.b2b)) {
+    for (const inv of arr(party.inv)) {
+      invoices.push({
+        counterpartyGstin: String(party.ctin ?? ''),
+        invoiceNo: String(inv.inum ?? ''),
+        date: toIsoDate(inv.idt),
+        value: num(inv.val),
+        docType: 'invoice',
+        ...gstr1Items(inv.itms),
+      });
+    }
+  }
+  for (const party of arr(root.cdnr)) {
+    for (const note of arr(party.nt)) {
+      const isCredit = String(note.ntty ?? 'C').toUpperCase() === 'C';
+      const sign = isCredit ? -1 : 1;
+      invoices.push({
+        counterpartyGstin: String(party.ctin ?? ''),
+        invoiceNo: String(note.nt_num ?? ''),
+        date: toIsoDate(note.nt_dt),
+        value: sign * num(note.val),
+        docType: isCredit ? 'credit-note' : 'debit-note',
+        ...signed(gstr1Items(note.itms), sign),
+      });
+    }
+  }
+
+  const b2c = emptySplit();
+  for (const row of arr(root.b2cs)) {
+    addSplit(b2c, { taxable: num(row.txval), igst: num(row.iamt), cgst: num(row.camt), sgst: num(row.samt), cess: num(row.csamt) });
+  }
+  for (const pos of arr(root.b2cl)) {
+    for (const inv of arr(pos.inv)) addSplit(b2c, gstr1Items(inv.itms));
+  }
+  for (const note of arr(root.cdnur)) {
+    const sign = String(note.ntty ?? 'C').toUpperCase() === 'C' ? -1 : 1;
+    addSplit(b2c, gstr1Items(note.itms), sign);
+  }
+  if (invoices.length === 0) warnings.push('No B2B invoices or notes in the GSTR-1 file.');
+
+  return {
+    returnType: 'GSTR1',
+    gstin: root.gstin ? String(root.gstin) : null,
+    period: periodFromPortal(root.fp),
+    invoices,
+    b2c,
+    warnings,
+  };
+}
+
+function parseGstr2bJson(root: Json, warnings: string[]): ParsedGstReturn {
+  const docdata = (root.docdata ?? {}) as Json;
+  const invoices: PortalInvoice[] = [];
+  const itcFlag = (doc: Json) => {
+    const flag = String(doc.itcavl ?? 'Y').toUpperCase();
+    return { itcAvailable: flag !== 'N', itcReason: doc.rsn ? String(doc.rsn) : undefined };
+  };
+
+  for (const party of arr(docdata.b2b)) {
+    for (const inv of arr(party.inv)) {
+      invoices.push({
+        counterpartyGstin: String(party.ctin ?? ''),
+        counterpartyName: party.trdnm ? String(party.trdnm) : undefined,
+        invoiceNo: String(inv.inum ?? ''),
+        date: toIsoDate(inv.dt),
+        value: num(inv.val),
+        docType: 'invoice',
+        ...gstr2bDoc(inv),
+        ...itcFlag(inv),
+      });
+    }
+  }
+  for (const party of arr(docdata.cdnr)) {
+    for (const note of arr(party.nt)) {
+      const isCredit = String(note.typ ?? 'C').toUpperCase() === 'C';
+      const sign = isCredit ? -1 : 1;
+      invoices.push({
+        counterpartyGstin: String(party.ctin ?? ''),
+        counterpartyName: party.trdnm ? String(party.trdnm) : undefined,
+        invoiceNo: String(note.ntnum ?? ''),
+        date: toIsoDate(note.dt),
+        value: sign * num(note.val),
+        docType: isCredit ? 'credit-note' : 'debit-note',
+        ...signed(gstr2bDoc(note), sign),
+        ...itcFlag(note),
+      });
+    }
+  }
+  if (invoices.length === 0) warnings.push('No B2B invoices or notes in the GSTR-2B file.');
+
+  return {
+    returnType: 'GSTR2B',
+    gstin: root.gstin ? String(root.gstin) : null,
+    period: periodFromPortal(root.rtnprd),
+    invoices,
+    b2c: null,
+    warnings,
+  };
+}
+
+// ============================================
+// EXCEL
+// ============================================
+
+interface SheetColumns {
+  gstin: number;
+  name: number;
+  invoiceNo: number;
+  date: number;
+  value: number;
+  taxable: number;
+  igst: number;
+  cgst: number;
+  sgst: number;
+  cess: number;
+  rate: number;
+  pos: number;
+  noteType: number;
+  itc: number;
+  reason: number;
+}
+
+function col(headers: string[], names: string[], exclude: RegExp | null = null): number {
+  for (const name of names) {
+    const i = headers.findIndex((h) => h.includes(name) && !(exclude && exclude.test(h)));
+    if (i >= 0) return i;
+  }
+  return -1;
+}
+
+// The portal's workbooks put grouped headers over two rows ("Tax Amount" /
+// "Integrated Tax(₹)"); the header row is the one naming a GSTIN column,
+// joined with the row below when that row is more header text.
+function sheetHeaders(grid: unknown[][]): { headers: string[]; dataStart: number } | null {
+  for (let i = 0; i < Math.min(grid.length, 12); i++) {
+    const row = (grid[i] || []).map((c) => String(c ?? '').toLowerCase().trim());
+    if (!row.some((c) => c.includes('gstin') || c.includes('place of supply'))) continue;
+    const next = (grid[i + 1] || []).map((c) => String(c ?? '').toLowerCase().trim());
+    const nextIsHeader = next.some((c) => /tax|cess|value|rate/.test(c)) && !next.some((c) => /^\d{2}[a-z]{5}\d{4}/i.test(c));
+    const width = Math.max(row.length, nextIsHeader ? next.length : 0);
+    const headers = Array.from({ length: width }, (_, j) =>
+      [row[j] || '', nextIsHeader ? next[j] || '' : ''].join(' ').trim()
+    );
+    return { headers, dataStart: i + (nextIsHeader ? 2 : 1) };
+  }
+  return null;
+}
+
+function sheetColumns(headers: string[]): SheetColumns {
+  return {
+    gstin: col(headers, ['gstin']),
+    name: col(headers, ['trade/legal name', 'receiver name', 'legal name', 'trade name']),
+    invoiceNo: col(headers, ['invoice number', 'note number', 'note/refund voucher number', 'invoice no', 'note no']),
+    date: col(headers, ['invoice date', 'note date', 'note/refund voucher date', 'date']),
+    value: col(headers, ['invoice value', 'note value', 'note/refund voucher value', 'value'], /taxable/),
+    taxable: col(headers, ['taxable value']),
+    igst: col(headers, ['integrated tax', 'igst']),
+    cgst: col(headers, ['central tax', 'cgst']),
+    sgst: col(headers, ['state/ut tax', 'state tax', 'sgst']),
+    cess: col(headers, ['cess']),
+    rate: col(headers, ['rate'], /applicable/),
+    pos: col(headers, ['place of supply']),
+    noteType: col(headers, ['note type', 'document type', 'note/refund voucher type']),
+    itc: col(headers, ['itc availability']),
+    reason: col(headers, ['reason']),
+  };
+}
+
+function cellText(row: unknown[], i: number): string {
+  return i < 0 ? '' : String(row[i] ?? '').trim();
+}
+
+function rowSplit(row: unknown[], c: SheetColumns, ownStateCode: string | null): GstTaxSplit {
+  const taxable = num(row[c.taxable]);
+  const split: GstTaxSplit = {
+    taxable,
+    igst: c.igst >= 0 ? num(row[c.igst]) : 0,
+    cgst: c.cgst >= 0 ? num(row[c.cgst]) : 0,
+    sgst: c.sgst >= 0 ? num(row[c.sgst]) : 0,
+    cess: c.cess >= 0 ? num(row[c.cess]) : 0,
+  };
+  if (c.igst < 0 && c.cgst < 0 && c.rate >= 0) {
+    const tax = (taxable * num(row[c.rate])) / 100;
+    const pos = cellText(row, c.pos).slice(0, 2);
+    if (ownStateCode && pos === ownStateCode) {
+      split.cgst = round2(tax / 2);
+      split.sgst = round2(tax / 2);
+    } else {
+      split.igst = round2(tax);
+    }
+  }
+  return split;
+}
+
+function parseGstWorkbook(
+  data: ArrayBuffer,
+  returnType: GstReturnType,
+  ownStateCode: string | null,
+  warnings: string[]
+): ParsedGstReturn {
+  const workbook = XLSX.read(data, { type: 'array' });
+  // Multi-rate invoices span several rows; fold them by supplier + number
+  const byKey = new Map<string, PortalInvoice>();
+  const b2c = emptySplit();
+
+  for (const sheetName of workbook.SheetNames) {
+    const kind = sheetName.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const isNotes = kind.includes('cdnr') && !kind.includes('cdnur');
+    // B2BA (amendments) is left out: amended invoices reappear under B2B in a later period
+    const isB2b = kind === 'b2b' || (kind.startsWith('b2b') && !isNotes && !kind.endsWith('a'));
+    const isB2c = returnType === 'GSTR1' && (kind === 'b2cs' || kind === 'b2cl' || kind === 'cdnur');
+    if (!isNotes && !isB2b && !isB2c) continue;
+
+    const grid = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], { header: 1, raw: true }) as unknown[][];
+    const found = sheetHeaders(grid);
+    if (!found) continue;
+    const c = sheetColumns(found.headers);
+
+    for (const row of grid.slice(found.dataStart)) {
+      if (!row || row.length === 0) continue;
+      const split = rowSplit(row, c, ownStateCode);
+      const noteType = cellText(row, c.noteType).toUpperCase();
+      const isCredit = isNotes || kind === 'cdnur' ? !noteType.startsWith('D') : false;
+      const sign = isCredit ? -1 : 1;
+
+      if (isB2c) {
+        if (split.taxable === 0) continue;
+        addSplit(b2c, split, sign);
+        continue;
+      }
+
+      const gstin = cellText(row, c.gstin).toUpperCase();
+      const invoiceNo = cellText(row, c.invoiceNo);
+      if (!/^\d{2}[A-Z0-9]{13}$/.test(gstin) || !invoiceNo) continue;
+
+      const key = `${gstin}|${invoiceNo}|${isNotes ? 'n' : 'i'}`;
+      const existing = byKey.get(key);
+      if (existing) {
+        addSplit(existing, split, sign);
+        continue;
+      }
+      const itc = cellText(row, c.itc);
+      byKey.set(key, {
+        counterpartyGstin: gstin,
+        counterpartyName: cellText(row, c.name) || undefined,
+        invoiceNo,
+        date: toIsoDate(row[c.date]),
+        value: sign * num(row[c.value]),
+        docType: isNotes ? (isCredit ? 'credit-note' : 'debit-note') : 'invoice',
+        ...signed(split, sign),
+        ...(returnType === 'GSTR2B'
+          ? { itcAvailable: !/^no?$/i.test(itc), itcReason: cellText(row, c.reason) || undefined }
+          : {}),
+      });
+    }
+  }
+
+  const invoices = [...byKey.values()].map((inv) => ({
+    ...inv,
+    taxable: round2(inv.taxable),
+    igst: round2(inv.igst),
+    cgst: round2(inv.cgst),
+    sgst: round2(inv.sgst),
+    cess: round2(inv.cess),
+  }));
+  if (invoices.length === 0) {
+    warnings.push(`No B2B invoices found — expected a "B2B" sheet with a supplier / recipient GSTIN column.`);
+  }
+  return { returnType, gstin: null, period: null, invoices, b2c: returnType === 'GSTR1' ? b2c : null, warnings };
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Parse a GSTR-1 or GSTR-2B download. `ownStateCode` is the filer's GST
+ * state code, used only when an Excel return lists rates without amounts.
+ */
+export function parseGstReturn(
+  data: ArrayBuffer,
+  fileName: string,
+  returnType: GstReturnType,
+  ownStateCode: string | null
+): ParsedGstReturn {
+  const warnings: string[] = [];
+  if (/\.json$/i.test(fileName)) {
+    let json: Json;
+    try {
+      json = JSON.parse(new TextDecoder('utf-8').decode(data)) as Json;
+    } catch {
+      throw new Error(`${fileName} is not valid JSON.`);
+    }
+    const root = (json.data ?? json) as Json;
+    const looks2b = 'docdata' in root || 'rtnprd' in root;
+    if (returnType === 'GSTR2B' && !looks2b) throw new Error(`${fileName} is not a GSTR-2B JSON (no docdata).`);
+    if (returnType === 'GSTR1' && looks2b) throw new Error(`${fileName} is a GSTR-2B download, not GSTR-1.`);
+    return returnType === 'GSTR2B' ? parseGstr2bJson(root, warnings) : parseGstr1Json(root, warnings);
+  }
+  return parseGstWorkbook(data, returnType, ownStateCode, warnings);
+}
@@ -0,0 +1,268 @@
+// Inventory Valuation
+// Values Tranzact stock per item at moving weighted average cost, ages the
+// stock on hand by when it came in, flags slow and non-moving items and rolls
+// the movements up to month-end closing stock, which should agree with the
+// Tally closing stock the MIS is built on (calculateMIS reads it from the UP
+// balance sheet).
+//
+// The stock summary is the authority on what is on hand at its date; the
+// movement export supplies the costs, the receipt dates and the history. With
+// both, each item's opening position is worked back from its closing quantity
+// so the replay ends exactly on the summary.
+
+import { fgMaster } from '../data/fgMaster';
+import { getStateData } from '../services/stateDataStore';
+import type { MISRecord } from '../types/misTracking';
+import type {
+  AgeBucket,
+  ClosingStockReconRow,
+  InventoryValuation,
+  ItemValuation,
+  MonthlyClosingStock,
+  StockClass,
+  StockMovement,
+  StockSummary,
+} from '../types/inventory';
+import { AGE_BUCKETS } from '../types/inventory';
+
+/** No outward movement in this many days makes stock on hand non-moving. */
+export const NON_MOVING_DAYS = 90;
+/** More than this many days of cover at the recent outward rate is slow-moving. */
+export const SLOW_MOVING_COVER_DAYS = 180;
+/** Month-end differences within this are rounding, not a reconciling item. */
+export const RECON_TOLERANCE = 1000;
+
+const DAY_MS = 86_400_000;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+function ageBucket(days: number): AgeBucket {
+  if (days <= 30) return '0-30';
+  if (days <= 60) return '31-60';
+  if (days <= 90) return '61-90';
+  if (days <= 180) return '91-180';
+  return '180+';
+}
+
+function monthEnd(month: string): string {
+  const [y, m] = month.split('-').map(Number);
+  return `${month}-${String(new Date(y, m, 0).getDate()).padStart(2, '0')}`;
+}
+
+function monthsBetween(from: string, to: string): string[] {
+  const months: string[] = [];
+  let [y, m] = from.slice(0, 7).split('-').map(Number);
+  const last = to.slice(0, 7);
+  for (;;) {
+    const key = `${y}-${String(m).padStart(2, '0')}`;
+    if (key > last) break;
+    months.push(key);
+    if (++m > 12) { m = 1; y++; }
+  }
+  return months;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+interface ItemInfo {
+  itemId: string;
+  itemName: string;
+  stockClass: StockClass;
+  uom: string;
+}
+
+// ============================================
+// VALUATION
+// ============================================
+
+export function valueInventory(summary: StockSummary | null, movements: StockMovement[], today = new Date().toISOString().slice(0, 10)): InventoryValuation {
+  const warnings: string[] = [];
+  const sorted = [...movements].sort((a, b) => a.date.localeCompare(b.date));
+  const asOf = summary?.asOf ?? sorted[sorted.length - 1]?.date ?? today;
+  const historyFrom = sorted[0]?.date ?? asOf;
+
+  const byItem = new Map<string, StockMovement[]>();
+  const info = new Map<string, ItemInfo>();
+  for (const s of summary?.items ?? []) {
+    info.set(s.itemId, { itemId: s.itemId, itemName: s.itemName, stockClass: s.stockClass, uom: s.uom });
+  }
+  for (const m of sorted) {
+    if (m.date > asOf) continue;
+    if (!byItem.has(m.itemId)) byItem.set(m.itemId, []);
+    byItem.get(m.itemId)!.push(m);
+    if (!info.has(m.itemId)) info.set(m.itemId, { itemId: m.itemId, itemName: m.itemName, stockClass: m.stockClass, uom: '' });
+  }
+  const summaryOf = new Map((summary?.items ?? []).map(s => [s.itemId, s]));
+  if (sorted.some(m => m.date > asOf)) {
+    warnings.push(`Movements after the summary date (${asOf}) are left out of the valuation.`);
+  }
+
+  const months = monthsBetween(historyFrom, asOf);
+  const monthly = new Map<string, MonthlyClosingStock>(months.map(month => [month, { month, fg: 0, rm: 0, total: 0 }]));
+  const items: ItemValuation[] = [];
+  const unreplayable: string[] = [];
+
+  for (const item of info.values()) {
+    const s = summaryOf.get(item.itemId);
+    const moves = byItem.get(item.itemId) ?? [];
+    const masterPrice = fgMaster[item.itemId]?.defaultPrice ?? null;
+    const summaryRate = s
+      ? s.rate ?? (s.closingValue !== null && s.closingQty ? s.closingValue / s.closingQty : null)
+      : null;
+    const seedRate = summaryRate ?? masterPrice ?? 0;
+
+    // Work the opening quantity back from the summary's closing, so the
+    // replay ends on it; with no summary, the history starts from nothing.
+    const netIn = moves.reduce((sum, m) => sum + m.inQty - m.outQty, 0);
+    let qty = s ? s.closingQty - netIn : 0;
+    if (qty < -1e-6) {
+      unreplayable.push(item.itemId);
+      qty = 0;
+    }
+    let rate = seedRate;
+    let costed = false;
+    const layers: { date: string; qty: number }[] = qty > 0 ? [{ date: historyFrom, qty }] : [];
+
+    let next = 0;
+    for (const month of months) {
+      const end = monthEnd(month);
+      for (; next < moves.length && moves[next].date <= end; next++) {
+        const m = moves[next];
+        if (m.inQty) {
+          // Inward without a cost (production, transfers in) comes in at the running average
+          const inRate = m.rate ?? (rate || seedRate);
+          rate = qty + m.inQty > 0 ? (Math.max(qty, 0) * rate + m.inQty * inRate) / (Math.max(qty, 0) + m.inQty) : inRate;
+          if (m.rate !== null) costed = true;
+          qty += m.inQty;
+          layers.push({ date: m.date, qty: m.inQty });
+        }
+        if (m.outQty) {
+          qty -= m.outQty;
+          let left = m.outQty;
+          while (left > 1e-9 && layers.length) {
+            const take = Math.min(left, layers[0].qty);
+            layers[0].qty -= take;
+            left -= take;
+            if (layers[0].qty <= 1e-9) layers.shift();
+          }
+        }
+      }
+      const row = monthly.get(month)!;
+      const value = Math.max(qty, 0) * rate;
+      if (item.stockClass === 'FG') row.fg += value; else row.rm += value;
+    }
+
+    const closingQty = s ? s.closingQty : qty;
+    const rateSource: ItemValuation['rateSource'] = costed
+      ? 'movements'
+      : summaryRate !== null ? 'summary' : masterPrice !== null ? 'fg-master' : 'none';
+    if (!costed) rate = seedRate;
+    const value = Math.max(closingQty, 0) * rate;
+
+    const ageing: ItemValuation['ageing'] = {};
+    if (moves.length) {
+      for (const layer of layers) {
+        const bucket = ageBucket(daysBetween(layer.date, asOf));
+        ageing[bucket] = (ageing[bucket] ?? 0) + layer.qty * rate;
+      }
+    }
+
+    const recentFrom = new Date(Date.parse(asOf) - NON_MOVING_DAYS * DAY_MS).toISOString().slice(0, 10);
+    const outwardLast90 = moves.filter(m => m.date > recentFrom).reduce((sum, m) => sum + m.outQty, 0);
+    const lastOutward = [...moves].reverse().find(m => m.outQty > 0)?.date ?? null;
+    const daysOfCover = outwardLast90 > 0 ? Math.round(closingQty / (outwardLast90 / NON_MOVING_DAYS)) : null;
+    let flag: ItemValuation['flag'] = null;
+    if (moves.length && closingQty > 0) {
+      if (!lastOutward || daysBetween(lastOutward, asOf) > NON_MOVING_DAYS) flag = 'non-moving';
+      else if (daysOfCover !== null && daysOfCover > SLOW_MOVING_COVER_DAYS) flag = 'slow-moving';
+    }
+
+    items.push({
+      ...item,
+      closingQty,
+      rate: round2(rate),
+      value: round2(value),
+      rateSource,
+      ageing,
+      outwardLast90,
+      daysOfCover,
+      lastOutward,
+      flag,
+    });
+  }
+
+  // The last month-end is the valuation itself, summary quantities and all
+  const totals: Record<StockClass, number> = { FG: 0, RM: 0 };
+  const ageing = Object.fromEntries(AGE_BUCKETS.map(b => [b, 0])) as Record<AgeBucket, number>;
+  for (const i of items) {
+    totals[i.stockClass] += i.value;
+    for (const b of AGE_BUCKETS) ageing[b] += i.ageing[b] ?? 0;
+  }
+  const lastMonth = monthly.get(asOf.slice(0, 7));
+  if (lastMonth && asOf === monthEnd(asOf.slice(0, 7))) {
+    lastMonth.fg = totals.FG;
+    lastMonth.rm = totals.RM;
+  } else if (lastMonth) {
+    monthly.delete(lastMonth.month);
+  }
+  for (const row of monthly.values()) {
+    row.fg = round2(row.fg);
+    row.rm = round2(row.rm);
+    row.total = round2(row.fg + row.rm);
+  }
+
+  if (!movements.length) {
+    warnings.push('No movement export — stock is valued at the summary / FG master price, without ageing or slow-moving flags.');
+  } else if (daysBetween(historyFrom, asOf) < NON_MOVING_DAYS) {
+    warnings.push(`The movements cover only ${daysBetween(historyFrom, asOf)} days — non-moving flags need at least ${NON_MOVING_DAYS}.`);
+  }
+  if (unreplayable.length) {
+    warnings.push(`${unreplayable.length} item${unreplayable.length === 1 ? '' : 's'} (${unreplayable.slice(0, 5).join(', ')}${unreplayable.length > 5 ? '…' : ''}) moved out more than the movements and summary account for — their history starts from zero.`);
+  }
+  const unpriced = items.filter(i => i.rateSource === 'none' && i.closingQty > 0);
+  if (unpriced.length) {
+    warnings.push(`${unpriced.length} item${unpriced.length === 1 ? '' : 's'} on hand with no cost anywhere — valued at zero.`);
+  }
+
+  items.sort((a, b) => a.stockClass.localeCompare(b.stockClass) || b.value - a.value);
+  return {
+    asOf,
+    items,
+    totals: { FG: round2(totals.FG), RM: round2(totals.RM) },
+    ageing: Object.fromEntries(AGE_BUCKETS.map(b => [b, round2(ageing[b])])) as Record<AgeBucket, number>,
+    monthly: [...monthly.values()],
+    warnings,
+  };
+}
+
+// ============================================
+// RECONCILIATION TO TALLY
+// ============================================
+
+/**
+ * Tally closing stock per month, as calculateMIS uses it: the saved MIS
+ * record's balance sheet, else the UP balance sheet uploaded this session.
+ */
+export function tallyClosingStock(records: MISRecord[], months: string[]): Record<string, number> {
+  const tally: Record<string, number> = {};
+  const byKey = new Map(records.map(r => [r.periodKey, r]));
+  for (const month of months) {
+    const closing = byKey.get(month)?.balanceSheet?.closingStock ?? getStateData(month, 'UP')?.balanceSheet?.closingStock;
+    if (closing !== undefined) tally[month] = closing;
+  }
+  return tally;
+}
+
+export function reconcileClosingStock(monthly: MonthlyClosingStock[], tally: Record<string, number>): ClosingStockReconRow[] {
+  return monthly.map(m => {
+    const t = tally[m.month] ?? null;
+    return {
+      month: m.month,
+      derived: m.total,
+      tally: t,
+      difference: t === null ? null : round2(m.total - t),
+    };
+  });
+}
@@ -23,7 +23,7 @@ import {
   TransactionRef,
   MISHead
 } from '../types/misTracking';
-import { EnhancedBalanceSheetData } from '../types/balanceSheet';
+import { EnhancedBalanceSheetData, createEmptyBalanceSheetPosition } from '../types/balanceSheet';
 import { MIS_HEADS_CONFIG } from './misClassifier';
 import {
   parseBalanceSheetEnhanced,
@@ -41,6 +41,8 @@ import {
   calculateProratedRawMaterials,
   getAllocatedRawMaterialsForMonth
 } from './cogsCalculator';
+import { ReclassificationEntry } from '../types/reclassification';
+import { applyReclassifications, AppliedReclassification } from './reclassificationReplay';
 
 // ============================================
 // MAIN CALCULATION FUNCTION
@@ -68,6 +70,13 @@ export interface CalculateMISOptions {
     fyTotalRawMaterials: number;
     revenueRatio: number;
   };
+
+  /**
+   * Reclassification log for this period. Replayed onto the parsed balance
+   * sheet lines before expenses are aggregated, so manual moves survive a
+   * re-upload and flow through to both the P&L and the drill-down.
+   */
+  reclassifications?: ReclassificationEntry[];
 }
 
 export async function calculateMIS(
@@ -139,9 +148,17 @@ export async function calculateMIS(
 
   // ============================================
   // STEP 3: Extract Expenses from Balance Sheet
-  // Aggregate expenses from all states' balance sheets
+  // Replay manual reclassifications, then aggregate expenses from all
+  // states' balance sheets
   // ============================================
-  const aggregatedExpenses = aggregateExpensesFromBalanceSheets(stateData, selectedStates);
+  const replay = applyReclassifications(stateData, selectedStates, options?.reclassifications);
+  if (options?.reclassifications?.length) {
+    record.reclassifications = {
+      applied: replay.applied.size,
+      unmatched: replay.unmatched
+    };
+  }
+  const aggregatedExpenses = aggregateExpensesFromBalanceSheets(replay.stateData, selectedStates);
 
   // ============================================
   // STEP 4: Populate COGM
@@ -322,7 +339,8 @@ export async function calculateMIS(
       bsData,
       options?.proratedRawMaterialsAmount !== undefined
         ? { proratedAmount: rawMaterialsValue }
-        : undefined
+        : undefined,
+      replay.applied
     );
 
   record.transactionsByHead = transactionsByHead;
@@ -386,7 +404,7 @@ interface AggregatedExpenses {
   };
   ignoredTotal: number;
   excludedTotal: number;
-  enhancedBSData: EnhancedBalanceSheetData[];
+  enhancedBSData: { state: IndianState; data: EnhancedBalanceSheetData }[];
 }
 
 function aggregateExpensesFromBalanceSheets(
@@ -427,7 +445,7 @@ function aggregateExpensesFromBalanceSheets(
     }
 
     const bsData = data.enhancedBalanceSheetData;
-    result.enhancedBSData.push(bsData);
+    result.enhancedBSData.push({ state, data: bsData });
 
     console.log(`State ${state}: Processing enhanced balance sheet with ${bsData.mappedItems.length} mapped items`);
 
@@ -507,7 +525,8 @@ function aggregateExpensesFromBalanceSheets(
 function buildTransactionsByHead(
   aggregatedExpenses: AggregatedExpenses,
   bsData?: AggregatedBalanceSheetData,
-  rawMaterialsProration?: { proratedAmount: number }
+  rawMaterialsProration?: { proratedAmount: number },
+  reclassified: Map<string, AppliedReclassification> = new Map()
 ): {
   transactionsByHead: TransactionsByHead;
   ignoredTotal: number;
@@ -516,7 +535,7 @@ function buildTransactionsByHead(
   const transactionsByHead: TransactionsByHead = {};
 
   // Build from enhanced balance sheet data
-  for (const bsEnhanced of aggregatedExpenses.enhancedBSData) {
+  for (const { state, data: bsEnhanced } of aggregatedExpenses.enhancedBSData) {
     for (const item of bsEnhanced.mappedItems) {
       if (!item.head || !item.subhead) continue;
 
@@ -546,7 +565,9 @@ function buildTransactionsByHead(
         transactionsByHead[head].subheads.push(subheadEntry);
       }
 
-      // Create transaction reference
+      // Create transaction reference (original = parser mapping, before any
+      // replayed manual reclassification)
+      const moved = reclassified.get(item.id);
       const txnRef: TransactionRef = {
         id: item.id,
         date: '',
@@ -554,9 +575,12 @@ function buildTransactionsByHead(
         amount: item.amount,
         type: item.side === 'debit' ? 'debit' : 'credit',
         source: 'balance_sheet',
-        notes: `${item.section} account`,
-        originalHead: item.head,
-        originalSubhead: item.subhead
+        notes: moved
+          ? `${item.section} account · reclassified by ${moved.entry.user}${moved.entry.reason ? `: ${moved.entry.reason}` : ''}`
+          : `${item.section} account`,
+        originalHead: moved ? moved.originalHead : item.head,
+        originalSubhead: moved ? moved.originalSubhead : item.subhead,
+        state
       };
 
       // Add transaction
@@ -806,6 +830,13 @@ function aggregateBalanceSheetData(
     aggregated.netSales += data.balanceSheetData.netSales || 0;
     aggregated.grossProfit += data.balanceSheetData.grossProfit || 0;
     aggregated.netProfitLoss += data.balanceSheetData.netProfitLoss || 0;
+
+    // Liabilities / Assets are each state's own books, so they add up
+    const position = data.balanceSheetData.position;
+    if (position) {
+      const sum = (aggregated.position ??= createEmptyBalanceSheetPosition());
+      for (const key of Object.keys(sum) as (keyof typeof sum)[]) sum[key] += position[key] || 0;
+    }
   }
 
   if (upData?.balanceSheetData) {
@@ -12,6 +12,7 @@ import {
   ChannelRevenue,
   createEmptyChannelRevenue
 } from '../types/misTracking';
+import { StateSalesRegister } from '../types/stateData';
 import { parseBalanceSheetPDF } from './pdfParser';
 
 // ============================================
@@ -354,6 +355,56 @@ export function parseSalesRegister(file: File, sourceState: IndianState): Promis
   });
 }
 
+// The sales register a Tally day book import built, in the shape the Excel
+// register parses to. Day book amounts are net of GST; the register's
+// "Total Amount" is not, so the tax goes back in.
+export function salesDataFromRegister(sr: StateSalesRegister): StateSalesData {
+  const salesByChannel = createEmptyChannelRevenue();
+  const returnsByChannel = createEmptyChannelRevenue();
+  const taxesByChannel = createEmptyChannelRevenue();
+  let grossSales = 0;
+  let returns = 0;
+  let stockTransfers = 0;
+  let totalTaxes = 0;
+  const lineItems: SalesLineItemNew[] = [];
+
+  for (const entry of sr.entries) {
+    const tax = entry.sgst + entry.cgst + entry.igst;
+    const amount = entry.amount + tax;
+    const isReturn = amount < 0;
+    const absAmount = Math.abs(amount);
+    const channel: SalesChannel | 'Stock Transfer' = entry.isStockTransfer ? 'Stock Transfer' : detectChannel(entry.party);
+    lineItems.push({
+      id: generateId(),
+      date: entry.date,
+      partyName: entry.party,
+      invoiceNo: entry.invoiceNo || '',
+      amount: absAmount,
+      taxAmount: tax,
+      channel,
+      isReturn,
+      isStockTransfer: entry.isStockTransfer,
+      toState: entry.isStockTransfer ? detectTransferToState(entry.party) : undefined
+    });
+
+    if (channel === 'Stock Transfer') {
+      stockTransfers += absAmount;
+    } else if (isReturn) {
+      returns += absAmount;
+      returnsByChannel[channel] += absAmount;
+      taxesByChannel[channel] += tax;
+      totalTaxes += tax;
+    } else {
+      grossSales += absAmount;
+      salesByChannel[channel] += absAmount;
+      taxesByChannel[channel] += tax;
+      totalTaxes += tax;
+    }
+  }
+
+  return { grossSales, returns, stockTransfers, salesByChannel, returnsByChannel, taxesByChannel, totalTaxes, lineItems };
+}
+
 // ============================================
 // PURCHASE REGISTER PARSER
 // ============================================
@@ -0,0 +1,102 @@
+// Reclassification Replay
+// Re-applies the period's manual reclassification log to freshly parsed
+// balance sheet data, so a re-upload doesn't undo manual fixes.
+//
+// Balance sheet line ids are regenerated on every parse, so entries are
+// matched by id first and then by their stable matchKey (source + state +
+// side + account). For a transaction moved more than once, the latest entry
+// wins. Parsed data is never mutated — matching states get cloned items.
+
+import { IndianState } from '../types';
+import { MISHead, StateUploadData } from '../types/misTracking';
+import { BalanceSheetLineItem } from '../types/balanceSheet';
+import { ReclassificationEntry, reclassificationMatchKey } from '../types/reclassification';
+import { aggregateByHead } from './balanceSheetParser';
+
+export interface AppliedReclassification {
+  entry: ReclassificationEntry;
+  /** Classification produced by the parser, before any manual move */
+  originalHead?: MISHead;
+  originalSubhead?: string;
+}
+
+export interface ReclassificationReplayResult {
+  stateData: Record<IndianState, StateUploadData | undefined>;
+  /** Keyed by the (new) balance sheet line item id */
+  applied: Map<string, AppliedReclassification>;
+  /** Entries whose transaction no longer exists in the uploaded data */
+  unmatched: ReclassificationEntry[];
+}
+
+function itemMatchKey(item: BalanceSheetLineItem, state: IndianState): string {
+  return reclassificationMatchKey({
+    source: 'balance_sheet',
+    state,
+    type: item.side === 'debit' ? 'debit' : 'credit',
+    account: item.accountName,
+  });
+}
+
+export function applyReclassifications(
+  stateData: Record<IndianState, StateUploadData | undefined>,
+  selectedStates: IndianState[],
+  entries: ReclassificationEntry[] | undefined
+): ReclassificationReplayResult {
+  if (!entries || entries.length === 0) {
+    return { stateData, applied: new Map(), unmatched: [] };
+  }
+
+  // Latest entry per transaction (by matchKey), in log order
+  const latestByKey = new Map<string, ReclassificationEntry>();
+  const latestById = new Map<string, ReclassificationEntry>();
+  for (const entry of [...entries].sort((a, b) => a.timestamp.localeCompare(b.timestamp))) {
+    latestByKey.set(entry.matchKey, entry);
+    latestById.set(entry.transactionId, entry);
+  }
+
+  const applied = new Map<string, AppliedReclassification>();
+  const usedEntries = new Set<string>();
+  const nextStateData = { ...stateData };
+
+  for (const state of selectedStates) {
+    const data = stateData[state];
+    const bs = data?.enhancedBalanceSheetData;
+    if (!data || !bs) continue;
+
+    let changed = false;
+    const mapped: BalanceSheetLineItem[] = [];
+    const unmapped: BalanceSheetLineItem[] = [];
+
+    const visit = (item: BalanceSheetLineItem, wasMapped: boolean) => {
+      const byId = latestById.get(item.id);
+      const byKey = latestByKey.get(itemMatchKey(item, state));
+      const entry = byId && byKey ? (byId.timestamp > byKey.timestamp ? byId : byKey) : byId || byKey;
+      if (!entry) {
+        (wasMapped ? mapped : unmapped).push(item);
+        return;
+      }
+      changed = true;
+      usedEntries.add(entry.id);
+      applied.set(item.id, { entry, originalHead: item.head, originalSubhead: item.subhead });
+      mapped.push({ ...item, head: entry.toHead, subhead: entry.toSubhead });
+    };
+
+    bs.mappedItems.forEach(item => visit(item, true));
+    bs.unmappedItems.forEach(item => visit(item, false));
+
+    if (changed) {
+      nextStateData[state] = {
+        ...data,
+        enhancedBalanceSheetData: {
+          ...bs,
+          mappedItems: mapped,
+          unmappedItems: unmapped,
+          aggregatedByHead: aggregateByHead(mapped),
+        },
+      };
+    }
+  }
+
+  const unmatched = [...latestByKey.values()].filter(e => !usedEntries.has(e.id));
+  return { stateData: nextStateData, applied, unmatched };
+}
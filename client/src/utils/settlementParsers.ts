@@ -0,0 +1,280 @@
+// Marketplace Settlement Parsers
+// Turns the raw channel payout reports into per-month settlement summaries:
+//   • Amazon — Payments → Reports Repository → Date Range Report (Transaction,
+//     CSV). One row per transaction; "Transfer" rows are the bank payouts.
+//   • Blinkit — the seller settlement file, one row per settlement / order
+//     with the deduction columns alongside the net payout.
+// Months are taken from each row's own date, so a report spanning several
+// months yields one summary per month. Deductions come out as positive
+// magnitudes; `other` is whatever is left so the buckets always add up to
+// the net the report itself shows.
+
+import { readGrid, parseAmount, toIsoDate } from './bankStatementParsers';
+import type { BankStatementLine } from '../types/bankReconciliation';
+import type { ParsedSettlementMonth, SettlementChannel } from '../types/settlement';
+
+export interface SettlementParseResult {
+  months: Record<string, ParsedSettlementMonth>;
+  rows: number;
+  warnings: string[];
+}
+
+function emptyMonth(source: string): ParsedSettlementMonth {
+  return {
+    sales: 0, refunds: 0, gst: 0, taxes: 0, referral: 0, fulfilment: 0, ads: 0,
+    credits: 0, chargebacks: 0, reserve: 0, other: 0, net: 0, payouts: 0, orders: 0, source,
+  };
+}
+
+/** other = net − the named buckets, so sales − deductions + credits + other = net. */
+function balanceToNet(m: ParsedSettlementMonth): ParsedSettlementMonth {
+  const named = m.sales - m.refunds + m.gst - m.taxes - m.referral - m.fulfilment - m.ads
+    + m.credits - m.chargebacks - m.reserve;
+  return { ...m, other: m.net - named };
+}
+
+function round2(m: ParsedSettlementMonth): ParsedSettlementMonth {
+  const out = { ...m };
+  for (const k of Object.keys(out) as (keyof ParsedSettlementMonth)[]) {
+    if (typeof out[k] === 'number') (out[k] as number) = Math.round((out[k] as number) * 100) / 100;
+  }
+  return out;
+}
+
+function headerIndex(grid: unknown[][], required: RegExp[]): number {
+  for (let i = 0; i < Math.min(40, grid.length); i++) {
+    const text = (grid[i] || []).map(c => String(c ?? '').toLowerCase()).join('|');
+    if (required.every(re => re.test(text))) return i;
+  }
+  return -1;
+}
+
+function columnLookup(header: unknown[]) {
+  const names = header.map(c => String(c ?? '').toLowerCase().replace(/\s+/g, ' ').trim());
+  return (...candidates: string[]) => {
+    for (const c of candidates) {
+      // Exact name first: "total" must not pick up "total sales tax liable"
+      const exact = names.indexOf(c);
+      if (exact >= 0) return exact;
+      const prefix = names.findIndex(n => n.startsWith(c));
+      if (prefix >= 0) return prefix;
+    }
+    return -1;
+  };
+}
+
+// ============================================
+// AMAZON — DATE RANGE REPORT
+// ============================================
+
+export function parseAmazonDateRangeReport(data: ArrayBuffer, source: string): SettlementParseResult {
+  const grid = readGrid(data);
+  const warnings: string[] = [];
+  const h = headerIndex(grid, [/date\/time/, /\btype\b/, /\btotal\b/]);
+  if (h < 0) {
+    return { months: {}, rows: 0, warnings: ['Not an Amazon Date Range Report — expected date/time, type and total columns.'] };
+  }
+
+  const col = columnLookup(grid[h]);
+  const c = {
+    date: col('date/time'),
+    type: col('type'),
+    orderId: col('order id'),
+    description: col('description'),
+    productSales: col('product sales'),
+    shipping: col('shipping credits'),
+    giftWrap: col('gift wrap credits'),
+    promo: col('promotional rebates'),
+    gst: col('total sales tax liable', 'product sales tax'),
+    tcsCgst: col('tcs-cgst'),
+    tcsSgst: col('tcs-sgst'),
+    tcsIgst: col('tcs-igst'),
+    tds: col('tds (section 194-o)', 'tds'),
+    selling: col('selling fees'),
+    fba: col('fba fees'),
+    total: col('total'),
+  };
+  const num = (row: unknown[], i: number) => (i >= 0 ? parseAmount(row[i]) : 0);
+
+  const months: Record<string, ParsedSettlementMonth> = {};
+  const orders: Record<string, Set<string>> = {};
+  let rows = 0;
+  let undated = 0;
+
+  for (let i = h + 1; i < grid.length; i++) {
+    const row = grid[i];
+    if (!row || row.length === 0) continue;
+    const date = toIsoDate(row[c.date]);
+    if (!date) {
+      if (row.some(v => v !== '' && v !== null && v !== undefined)) undated++;
+      continue;
+    }
+    rows++;
+    const key = date.slice(0, 7);
+    const m = (months[key] ??= emptyMonth(source));
+    const type = String(row[c.type] ?? '').trim().toLowerCase();
+    const description = String(c.description >= 0 ? row[c.description] ?? '' : '').toLowerCase();
+    const total = num(row, c.total);
+
+    if (type === 'transfer') {
+      // Money sent to the bank shows as a negative total
+      m.payouts += -total;
+      continue;
+    }
+    m.net += total;
+
+    if (/chargeback|a-to-z/.test(type)) {
+      m.chargebacks += -total;
+      continue;
+    }
+    if (/reserve/.test(description)) {
+      m.reserve += -total;
+      continue;
+    }
+    if (type === 'service fee' && /advertis|sponsored/.test(description)) {
+      m.ads += -total;
+      continue;
+    }
+    if (/fba inventory|storage|removal|fulfil/.test(type)) {
+      m.fulfilment += -total;
+      continue;
+    }
+    if (type === 'adjustment' || /reimburse|claim/.test(description)) {
+      m.credits += total;
+      continue;
+    }
+
+    const sales = num(row, c.productSales) + num(row, c.shipping) + num(row, c.giftWrap) + num(row, c.promo);
+    if (type === 'order') {
+      m.sales += sales;
+      const orderId = String(row[c.orderId] ?? '').trim();
+      if (orderId) (orders[key] ??= new Set()).add(orderId);
+    } else if (type === 'refund') {
+      m.refunds += -sales;
+    }
+    m.gst += num(row, c.gst);
+    m.taxes += -(num(row, c.tcsCgst) + num(row, c.tcsSgst) + num(row, c.tcsIgst) + num(row, c.tds));
+    m.referral += -num(row, c.selling);
+    m.fulfilment += -num(row, c.fba);
+  }
+
+  for (const key of Object.keys(months)) {
+    months[key] = round2(balanceToNet({ ...months[key], orders: orders[key]?.size ?? 0 }));
+  }
+  if (undated > 0) warnings.push(`${undated} row(s) without a readable date/time were skipped.`);
+  if (rows === 0) warnings.push('No transactions found under the header row.');
+  return { months, rows, warnings };
+}
+
+// ============================================
+// BLINKIT — SETTLEMENT FILE
+// ============================================
+
+// Column buckets, checked in this order; every column lands in the first
+// bucket whose keywords it matches (so "Net Payout" is never read as sales).
+const BLINKIT_BUCKETS: {
+  bucket: 'payout' | 'sales' | 'referral' | 'fulfilment' | 'ads' | 'taxes' | 'credits' | 'gst';
+  keywords: RegExp;
+}[] = [
+  { bucket: 'payout', keywords: /net payout|payout amount|net settlement|amount payable|settled amount|net amount/ },
+  { bucket: 'taxes', keywords: /\btds\b|\btcs\b/ },
+  { bucket: 'gst', keywords: /^gst$|gst on sales|output gst/ },
+  { bucket: 'ads', keywords: /\bads?\b|advert|marketing/ },
+  { bucket: 'credits', keywords: /credit|claim|reimburse|adjustment|compensation/ },
+  { bucket: 'referral', keywords: /commission|referral/ },
+  { bucket: 'fulfilment', keywords: /fulfil|logistics|platform fee|handling|storage/ },
+  { bucket: 'sales', keywords: /gross sales|sales value|total sales|item value|gmv|^sales$|selling price/ },
+];
+
+export function parseBlinkitSettlement(data: ArrayBuffer, source: string): SettlementParseResult {
+  const grid = readGrid(data);
+  const warnings: string[] = [];
+  const h = headerIndex(grid, [/date/, /payout|settle|net amount|amount payable/]);
+  if (h < 0) {
+    return { months: {}, rows: 0, warnings: ['Not a Blinkit settlement file — expected a date and a payout / settlement amount column.'] };
+  }
+
+  const header = grid[h].map(v => String(v ?? '').toLowerCase().replace(/\s+/g, ' ').trim());
+  const col = columnLookup(grid[h]);
+  const dateCol = col('settlement date', 'payout date', 'payment date', 'transfer date', 'date');
+  const orderCol = col('order id', 'order no');
+  const buckets = new Map<number, (typeof BLINKIT_BUCKETS)[number]['bucket']>();
+  header.forEach((name, i) => {
+    if (i === dateCol || i === orderCol || !name) return;
+    const hit = BLINKIT_BUCKETS.find(b => b.keywords.test(name));
+    if (hit) buckets.set(i, hit.bucket);
+  });
+  if (![...buckets.values()].includes('payout')) {
+    warnings.push('No net payout column found — the net is derived from sales less deductions.');
+  }
+
+  const months: Record<string, ParsedSettlementMonth> = {};
+  const orders: Record<string, Set<string>> = {};
+  let rows = 0;
+
+  for (let i = h + 1; i < grid.length; i++) {
+    const row = grid[i];
+    const date = row ? toIsoDate(row[dateCol]) : null;
+    if (!row || !date) continue;
+    rows++;
+    const key = date.slice(0, 7);
+    const m = (months[key] ??= emptyMonth(source));
+    let payout: number | null = null;
+
+    for (const [c, bucket] of buckets) {
+      const v = parseAmount(row[c]);
+      if (bucket === 'payout') payout = (payout ?? 0) + v;
+      else if (bucket === 'sales') m.sales += v;
+      else if (bucket === 'credits') m.credits += v;
+      // Deduction columns come signed either way depending on the export
+      else m[bucket] += Math.abs(v);
+    }
+    if (payout !== null) {
+      m.net += payout;
+      m.payouts += payout;
+    }
+
+    const orderId = orderCol >= 0 ? String(row[orderCol] ?? '').trim() : '';
+    if (orderId) (orders[key] ??= new Set()).add(orderId);
+  }
+
+  const hasPayout = [...buckets.values()].includes('payout');
+  for (const key of Object.keys(months)) {
+    let m = { ...months[key], orders: orders[key]?.size ?? 0 };
+    if (!hasPayout) {
+      // payout = sales − commission − fulfilment − ads − taxes + credits (Blinkit's own breakup)
+      m.net = m.sales + m.gst - m.referral - m.fulfilment - m.ads - m.taxes + m.credits;
+      m.payouts = m.net;
+    }
+    m = balanceToNet(m);
+    months[key] = round2(m);
+  }
+  if (rows === 0) warnings.push('No settlement rows found under the header row.');
+  return { months, rows, warnings };
+}
+
+// ============================================
+// ESCROW RECEIPTS FROM A BANK STATEMENT
+// ============================================
+
+const RECEIPT_PATTERNS: Record<SettlementChannel, RegExp> = {
+  Amazon: /amazon/i,
+  Blinkit: /blinkit|blink commerce|grofers|zomato hyperpure/i,
+};
+
+/** Marketplace payouts credited to the account, by month and channel. */
+export function bankReceiptsByChannel(lines: BankStatementLine[]): Record<string, Partial<Record<SettlementChannel, number>>> {
+  const out: Record<string, Partial<Record<SettlementChannel, number>>> = {};
+  for (const line of lines) {
+    if (line.credit <= 0) continue;
+    const key = line.date.slice(0, 7);
+    const month = (out[key] ??= {});
+    for (const channel of Object.keys(RECEIPT_PATTERNS) as SettlementChannel[]) {
+      if (RECEIPT_PATTERNS[channel].test(line.narration)) {
+        month[channel] = Math.round(((month[channel] ?? 0) + line.credit) * 100) / 100;
+        break;
+      }
+    }
+  }
+  return out;
+}
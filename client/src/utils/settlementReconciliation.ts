@@ -0,0 +1,156 @@
+import { MISRecord, periodToString } from '../types/misTracking';
+import { SETTLEMENT_CHANNELS, type SettlementChannel, type SettlementMonth, type SettlementState } from '../types/settlement';
+import { AMAZON_ACTUALS, BLINKIT_ACTUALS } from '../data/misDeck/dataset';
+
+// ============================================
+// MARKETPLACE SETTLEMENT RECONCILIATION
+// ============================================
+// Per month and channel, three ties:
+//   • settled sales (sales − refunds, ex-GST) ↔ the sales register's net
+//     revenue for the channel in the saved MIS period
+//   • payouts in the report ↔ receipts seen in the escrow bank statement
+//   • the report's own net ↔ its payouts, via reserve and chargebacks
+// Gaps beyond tolerance become flags with the usual explanation attached.
+// The hand-entered deck feed (channelActuals) is shown alongside so drift
+// between it and the raw reports is visible.
+
+const PAYOUT_TOLERANCE = 1;
+const SALES_TOLERANCE_ABS = 1000;
+const SALES_TOLERANCE_PCT = 0.02;
+
+export type SettlementFlagKind =
+  | 'unsettled'          // Register > settled: orders invoiced, not yet settled
+  | 'unbilled'           // Settled > register: invoices missing or booked in another month
+  | 'reserve'            // Held back by the marketplace
+  | 'chargeback'
+  | 'in-transit'         // Paid out, not (yet) in the escrow statement
+  | 'unmatched-receipt'  // In escrow, no payout in the report
+  | 'missing-report';    // Escrow receipts, no settlement report uploaded
+
+export interface SettlementFlag {
+  kind: SettlementFlagKind;
+  amount: number;
+  message: string;
+}
+
+export interface SettlementReconRow {
+  monthKey: string;
+  label: string;
+  channel: SettlementChannel;
+  settlement: SettlementMonth | null;
+  settledSales: number | null;       // sales − refunds
+  registerRevenue: number | null;    // Sales register net revenue (ex-GST) for the channel
+  bankReceipts: number | null;
+  feedSales: number | null;          // Deck feed (channelActuals), for comparison
+  salesGap: number | null;           // register − settled
+  payoutGap: number | null;          // payouts − bank receipts
+  flags: SettlementFlag[];
+}
+
+function labelFor(monthKey: string): string {
+  const [year, month] = monthKey.split('-').map(Number);
+  return periodToString({ year, month });
+}
+
+function registerRevenue(record: MISRecord | undefined, channel: SettlementChannel): number | null {
+  if (!record) return null;
+  const r = record.revenue;
+  return r.grossRevenue[channel] - r.returns[channel] - r.taxes[channel];
+}
+
+function feedSales(monthKey: string, channel: SettlementChannel): number | null {
+  if (channel === 'Amazon') return AMAZON_ACTUALS[monthKey]?.netSales ?? null;
+  return BLINKIT_ACTUALS[monthKey]?.sales ?? null;
+}
+
+const inr = (n: number) => `₹${Math.round(Math.abs(n)).toLocaleString('en-IN')}`;
+
+function flagsFor(row: Omit<SettlementReconRow, 'flags'>): SettlementFlag[] {
+  const flags: SettlementFlag[] = [];
+  const s = row.settlement;
+
+  if (row.salesGap !== null && row.registerRevenue !== null) {
+    const tolerance = Math.max(SALES_TOLERANCE_ABS, Math.abs(row.registerRevenue) * SALES_TOLERANCE_PCT);
+    if (row.salesGap > tolerance) {
+      flags.push({
+        kind: 'unsettled',
+        amount: row.salesGap,
+        message: `${inr(row.salesGap)} invoiced but not settled in the month — orders awaiting settlement or cancelled after invoicing`,
+      });
+    } else if (row.salesGap < -tolerance) {
+      flags.push({
+        kind: 'unbilled',
+        amount: -row.salesGap,
+        message: `${inr(row.salesGap)} settled but not in the sales register — missing invoices or orders billed in another month`,
+      });
+    }
+  }
+
+  if (s && s.reserve > PAYOUT_TOLERANCE) {
+    flags.push({ kind: 'reserve', amount: s.reserve, message: `${inr(s.reserve)} held in reserve by ${row.channel}` });
+  }
+  if (s && s.chargebacks > PAYOUT_TOLERANCE) {
+    flags.push({ kind: 'chargeback', amount: s.chargebacks, message: `${inr(s.chargebacks)} lost to chargebacks / claims` });
+  }
+
+  if (row.payoutGap !== null) {
+    if (row.payoutGap > PAYOUT_TOLERANCE) {
+      flags.push({
+        kind: 'in-transit',
+        amount: row.payoutGap,
+        message: `${inr(row.payoutGap)} paid out but not in the escrow statement — in transit at month-end or credited elsewhere`,
+      });
+    } else if (row.payoutGap < -PAYOUT_TOLERANCE) {
+      flags.push({
+        kind: 'unmatched-receipt',
+        amount: -row.payoutGap,
+        message: `${inr(row.payoutGap)} received in escrow without a payout in the report — previous month's transfer or a different report range`,
+      });
+    }
+  } else if (!s && row.bankReceipts) {
+    flags.push({
+      kind: 'missing-report',
+      amount: row.bankReceipts,
+      message: `${inr(row.bankReceipts)} received in escrow — upload the ${row.channel} settlement report for the month`,
+    });
+  }
+
+  return flags;
+}
+
+/**
+ * One row per month and channel that has a settlement report or escrow
+ * receipts, newest month first.
+ */
+export function reconcileSettlements(state: SettlementState, records: MISRecord[]): SettlementReconRow[] {
+  const byPeriod = new Map(records.map(r => [r.periodKey, r]));
+  const monthKeys = [...new Set([...Object.keys(state.months), ...Object.keys(state.bankReceipts)])].sort().reverse();
+  const rows: SettlementReconRow[] = [];
+
+  for (const monthKey of monthKeys) {
+    for (const channel of SETTLEMENT_CHANNELS) {
+      const settlement = state.months[monthKey]?.[channel] ?? null;
+      const bankReceipts = state.bankReceipts[monthKey]?.[channel] ?? null;
+      if (!settlement && !bankReceipts) continue;
+
+      const settledSales = settlement ? settlement.sales - settlement.refunds : null;
+      const register = registerRevenue(byPeriod.get(monthKey), channel);
+      const base = {
+        monthKey,
+        label: labelFor(monthKey),
+        channel,
+        settlement,
+        settledSales,
+        registerRevenue: register,
+        bankReceipts,
+        feedSales: feedSales(monthKey, channel),
+        salesGap: settledSales !== null && register !== null ? register - settledSales : null,
+        // A month the statement covered with no marketplace credit counts as ₹0 received
+        payoutGap: settlement && monthKey in state.bankReceipts ? settlement.payouts - (bankReceipts ?? 0) : null,
+      };
+      rows.push({ ...base, flags: flagsFor(base) });
+    }
+  }
+
+  return rows;
+}
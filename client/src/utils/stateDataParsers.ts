@@ -9,17 +9,22 @@ import {
   StateJournalRegister,
   SalesRegisterEntry,
   PurchaseRegisterEntry,
-  JournalEntry
+  JournalEntry,
+  DayBookVoucher,
+  DayBookLedgerLine,
+  StateDayBook
 } from '../types/stateData';
 
 import {
   storeBalanceSheet,
   storeSalesRegister,
   storePurchaseRegister,
-  storeJournalRegister
+  storeJournalRegister,
+  storeDayBook
 } from '../services/stateDataStore';
 
 import { parseBalanceSheetPDF } from './pdfParser';
+import { parseTallyDayBookFile } from './tallyDayBookParser';
 import * as XLSX from 'xlsx';
 
 // ============================================
@@ -112,6 +117,8 @@ export async function parseAndStoreSalesRegister(
   const colIndices = {
     date: findColumnIndex(headers, ['date', 'invoice date', 'bill date']),
     party: findColumnIndex(headers, ['party', 'party name', 'customer', 'buyer']),
+    invoiceNo: findColumnIndex(headers, ['voucher no', 'invoice no', 'bill no', 'vch no']),
+    gstin: findColumnIndex(headers, ['gstin']),
     amount: findColumnIndex(headers, ['amount', 'total', 'invoice amount', 'net amount', 'value']),
     sgst: findColumnIndex(headers, ['sgst', 'state gst']),
     cgst: findColumnIndex(headers, ['cgst', 'central gst']),
@@ -153,7 +160,9 @@ export async function parseAndStoreSalesRegister(
       cgst: rowCGST,
       igst: rowIGST,
       isStockTransfer: isTransfer,
-      toEntity: isTransfer ? extractHeatronicsEntity(party) : undefined
+      toEntity: isTransfer ? extractHeatronicsEntity(party) : undefined,
+      invoiceNo: optionalCell(row, colIndices.invoiceNo),
+      gstin: optionalCell(row, colIndices.gstin)
     };
 
     entries.push(entry);
@@ -205,6 +214,8 @@ export async function parseAndStorePurchaseRegister(
   const colIndices = {
     date: findColumnIndex(headers, ['date', 'invoice date', 'bill date']),
     party: findColumnIndex(headers, ['party', 'party name', 'supplier', 'vendor']),
+    invoiceNo: findColumnIndex(headers, ['supplier invoice no', 'invoice no', 'bill no', 'voucher no', 'vch no']),
+    gstin: findColumnIndex(headers, ['gstin']),
     category: findColumnIndex(headers, ['category', 'type', 'item', 'description']),
     amount: findColumnIndex(headers, ['amount', 'total', 'invoice amount', 'net amount', 'value']),
     sgst: findColumnIndex(headers, ['sgst', 'state gst']),
@@ -243,7 +254,9 @@ export async function parseAndStorePurchaseRegister(
       amount,
       sgst: rowSGST,
       cgst: rowCGST,
-      igst: rowIGST
+      igst: rowIGST,
+      invoiceNo: optionalCell(row, colIndices.invoiceNo),
+      gstin: optionalCell(row, colIndices.gstin)
     };
 
     entries.push(entry);
@@ -354,7 +367,10 @@ export async function parseAndStoreJournalRegister(
     if (!particulars && debit === 0 && credit === 0) continue;
 
     // Check if new date (new entry boundary)
-    const dateStr = dateVal ? String(dateVal).trim() : '';
+    // Date cells come through as Excel serials unless the export wrote them as text
+    const dateStr = typeof dateVal === 'number'
+      ? XLSX.SSF.format('dd-mm-yyyy', dateVal)
+      : dateVal ? String(dateVal).trim() : '';
     const isNewEntry = dateStr && dateStr !== currentDate && isValidDate(dateStr);
 
     if (isNewEntry) {
@@ -491,6 +507,251 @@ function createJournalEntry(
   };
 }
 
+// ============================================
+// TALLY DAY BOOK → SR / PR / JR
+// ============================================
+
+export interface DayBookImportMonth {
+  month: string;
+  vouchers: number;
+  sales: number;
+  purchases: number;
+  journals: number;  // Journal, receipt, payment and contra vouchers
+}
+
+export interface DayBookImportResult {
+  company?: string;
+  months: DayBookImportMonth[];
+  cancelled: number;
+  ignored: number;   // Voucher types with no register (stock journals, memos)
+  warnings: string[];
+}
+
+function gstOf(lines: DayBookLedgerLine[], side: 'Dr' | 'Cr') {
+  const signed = (l: DayBookLedgerLine) => (l.dr_or_cr === side ? l.amount : -l.amount);
+  let sgst = 0, cgst = 0, igst = 0;
+  for (const l of lines) {
+    if (l.tax === 'sgst') sgst += signed(l);
+    else if (l.tax === 'cgst') cgst += signed(l);
+    else if (l.tax === 'igst') igst += signed(l);
+  }
+  return { sgst, cgst, igst };
+}
+
+// The line that carries the counterparty: flagged by Tally, else the
+// largest non-tax line on the given side.
+function partyLineOf(v: DayBookVoucher, side: 'Dr' | 'Cr'): DayBookLedgerLine | undefined {
+  const flagged = v.lines.find((l) => l.isParty && l.dr_or_cr === side);
+  if (flagged) return flagged;
+  return v.lines
+    .filter((l) => l.dr_or_cr === side && !l.tax && !l.isTDS && !l.isRoundOff)
+    .sort((a, b) => b.amount - a.amount)[0];
+}
+
+// Ledger lines that make up the taxable value: everything except the
+// party, GST, TDS and round-off. Returned signed towards `side`.
+function valueLines(v: DayBookVoucher, party: DayBookLedgerLine | undefined, side: 'Dr' | 'Cr') {
+  return v.lines
+    .filter((l) => l !== party && !l.tax && !l.isTDS && !l.isRoundOff)
+    .map((l) => ({ ledger: l.ledger, amount: l.dr_or_cr === side ? l.amount : -l.amount }));
+}
+
+function roundOffOf(v: DayBookVoucher, side: 'Dr' | 'Cr'): number {
+  return v.lines
+    .filter((l) => l.isRoundOff)
+    .reduce((s, l) => s + (l.dr_or_cr === side ? l.amount : -l.amount), 0);
+}
+
+function emptySalesRegister(): StateSalesRegister {
+  return {
+    entries: [], revenueByChannel: {}, totalRevenue: 0, stockTransfers: [], totalStockTransfers: 0,
+    sgst: 0, cgst: 0, igst: 0, roundOffs: 0
+  };
+}
+
+function emptyPurchaseRegister(): StatePurchaseRegister {
+  return { entries: [], purchasesByCategory: {}, totalPurchases: 0, sgst: 0, cgst: 0, igst: 0, roundOffs: 0 };
+}
+
+function emptyJournalRegister(): StateJournalRegister {
+  return {
+    entries: [], expenseEntries: [], expensesByHead: {}, totalExpenses: 0,
+    sgst: 0, cgst: 0, igst: 0, tds: 0, roundOffs: 0
+  };
+}
+
+function addSalesVoucher(sr: StateSalesRegister, v: DayBookVoucher): void {
+  // Credit notes reverse revenue; same lines, opposite sides
+  const sign = v.kind === 'creditNote' ? -1 : 1;
+  const partyLine = partyLineOf(v, v.kind === 'creditNote' ? 'Cr' : 'Dr');
+  const party = v.party || partyLine?.ledger || '';
+  const amount = sign * valueLines(v, partyLine, 'Cr').reduce((s, l) => s + l.amount, 0);
+  const gst = gstOf(v.lines, 'Cr');
+
+  const isTransfer = isStockTransfer(party);
+  const channel = isTransfer ? 'Stock Transfer' : detectChannel(party);
+  const entry: SalesRegisterEntry = {
+    date: v.date,
+    party,
+    channel,
+    amount,
+    sgst: sign * gst.sgst,
+    cgst: sign * gst.cgst,
+    igst: sign * gst.igst,
+    isStockTransfer: isTransfer,
+    toEntity: isTransfer ? extractHeatronicsEntity(party) : undefined,
+    // Our own voucher number is the invoice number GSTR-1 reports
+    invoiceNo: v.voucherNumber || v.reference,
+    gstin: v.partyGstin
+  };
+  sr.entries.push(entry);
+
+  sr.sgst += entry.sgst;
+  sr.cgst += entry.cgst;
+  sr.igst += entry.igst;
+  sr.roundOffs += sign * roundOffOf(v, 'Cr');
+  if (isTransfer) {
+    sr.stockTransfers.push({ toEntity: entry.toEntity!, amount });
+    sr.totalStockTransfers += amount;
+  } else {
+    sr.revenueByChannel[channel] = (sr.revenueByChannel[channel] || 0) + amount;
+    sr.totalRevenue += amount;
+  }
+}
+
+function addPurchaseVoucher(pr: StatePurchaseRegister, v: DayBookVoucher): void {
+  // Debit notes reverse purchases
+  const sign = v.kind === 'debitNote' ? -1 : 1;
+  const partyLine = partyLineOf(v, v.kind === 'debitNote' ? 'Dr' : 'Cr');
+  const values = valueLines(v, partyLine, 'Dr');
+  const amount = sign * values.reduce((s, l) => s + l.amount, 0);
+  const gst = gstOf(v.lines, 'Dr');
+
+  // One entry per voucher, filed under its largest purchase ledger; the
+  // category totals keep every ledger's share.
+  const main = [...values].sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount))[0];
+  const entry: PurchaseRegisterEntry = {
+    date: v.date,
+    party: v.party || partyLine?.ledger || '',
+    category: main?.ledger || 'General',
+    amount,
+    sgst: sign * gst.sgst,
+    cgst: sign * gst.cgst,
+    igst: sign * gst.igst,
+    // Purchases carry the supplier's number in the reference field
+    invoiceNo: v.reference || v.voucherNumber,
+    gstin: v.partyGstin
+  };
+  pr.entries.push(entry);
+  for (const l of values) {
+    pr.purchasesByCategory[l.ledger] = (pr.purchasesByCategory[l.ledger] || 0) + sign * l.amount;
+  }
+  pr.totalPurchases += amount;
+  pr.sgst += entry.sgst;
+  pr.cgst += entry.cgst;
+  pr.igst += entry.igst;
+  pr.roundOffs += sign * roundOffOf(v, 'Dr');
+}
+
+// Journals, receipts, payments and contras: one JournalEntry per debit line
+// against the voucher's main credit line — the shape the Excel journal
+// register produces, so bank reconciliation and expense heads read it unchanged.
+function addJournalVoucher(jr: StateJournalRegister, v: DayBookVoucher, state: StateName): void {
+  const creditParty = partyLineOf(v, 'Cr')?.ledger || '';
+  for (const line of v.lines) {
+    if (line.dr_or_cr !== 'Dr') continue;
+    const entry = createJournalEntry(v.date, line.amount, line.ledger, creditParty, state);
+    jr.entries.push(entry);
+
+    if (entry.isGST) {
+      if (line.tax === 'sgst') jr.sgst += line.amount;
+      else if (line.tax === 'cgst') jr.cgst += line.amount;
+      else if (line.tax === 'igst') jr.igst += line.amount;
+    } else if (entry.isTDS) {
+      jr.tds += line.amount;
+    } else if (entry.isRoundOff) {
+      jr.roundOffs += line.amount;
+    } else if (!entry.isSkipped) {
+      jr.expenseEntries.push(entry);
+      jr.expensesByHead[entry.misHead] = (jr.expensesByHead[entry.misHead] || 0) + line.amount;
+      jr.totalExpenses += line.amount;
+    }
+  }
+}
+
+// One Tally day book export replaces the SR, PR and JR Excel registers for
+// every month it covers. The balance sheet still comes from the PDF — stock
+// and profit figures are reports, not vouchers. Pass `month` to keep only
+// that month's vouchers (e.g. a Drive month folder).
+export async function parseAndStoreTallyDayBook(
+  file: File,
+  state: StateName,
+  month?: string
+): Promise<DayBookImportResult> {
+  const parsed = await parseTallyDayBookFile(file);
+  const vouchers = month ? parsed.vouchers.filter(v => v.date.startsWith(month)) : parsed.vouchers;
+  if (vouchers.length === 0) {
+    throw new Error(
+      month
+        ? `The Tally export has no vouchers dated in ${month}.`
+        : 'The Tally export has no vouchers.'
+    );
+  }
+
+  const byMonth = new Map<string, DayBookVoucher[]>();
+  for (const v of vouchers) {
+    const key = v.date.slice(0, 7);
+    byMonth.set(key, [...(byMonth.get(key) || []), v]);
+  }
+
+  const months: DayBookImportMonth[] = [];
+  let ignored = 0;
+  for (const [key, monthVouchers] of [...byMonth.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    const sr = emptySalesRegister();
+    const pr = emptyPurchaseRegister();
+    const jr = emptyJournalRegister();
+    const countsByKind: StateDayBook['countsByKind'] = {};
+    let journals = 0;
+
+    for (const v of monthVouchers) {
+      countsByKind[v.kind] = (countsByKind[v.kind] || 0) + 1;
+      switch (v.kind) {
+        case 'sales':
+        case 'creditNote':
+          addSalesVoucher(sr, v);
+          break;
+        case 'purchase':
+        case 'debitNote':
+          addPurchaseVoucher(pr, v);
+          break;
+        case 'journal':
+        case 'receipt':
+        case 'payment':
+        case 'contra':
+          addJournalVoucher(jr, v, state);
+          journals++;
+          break;
+        default:
+          ignored++;
+      }
+    }
+
+    storeSalesRegister(key, state, sr);
+    storePurchaseRegister(key, state, pr);
+    storeJournalRegister(key, state, jr);
+    storeDayBook(key, state, { company: parsed.company, vouchers: monthVouchers, countsByKind });
+    months.push({
+      month: key,
+      vouchers: monthVouchers.length,
+      sales: sr.entries.length,
+      purchases: pr.entries.length,
+      journals
+    });
+  }
+
+  return { company: parsed.company, months, cancelled: parsed.cancelled, ignored, warnings: parsed.warnings };
+}
+
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
@@ -542,6 +803,12 @@ function findColumnIndex(headers: string[], possibleNames: string[]): number {
   return -1;
 }
 
+function optionalCell(row: unknown[], index: number): string | undefined {
+  if (index < 0) return undefined;
+  const value = String(row[index] ?? '').trim();
+  return value || undefined;
+}
+
 function parseNumber(value: unknown): number {
   if (value === null || value === undefined || value === '') return 0;
   if (typeof value === 'number') return value;
@@ -0,0 +1,305 @@
+/**
+ * SVG → jsPDF vector drawing
+ *
+ * Renders a chart component from `components/mis-deck/charts.tsx` to static
+ * SVG markup and replays it as PDF drawing operations, so charts in exported
+ * PDFs stay sharp at any zoom (unlike the `html2canvas` screenshot exports).
+ *
+ * Covers what the deck charts draw: <g>, <rect>, <line>, <circle>, <text> and
+ * <path> with absolute M/L/H/V/C/A/Z commands. Colours come from fill/stroke
+ * attributes, or from the few Tailwind `fill-*` classes the charts put on
+ * axis labels.
+ */
+
+import type { ReactElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { GState, type jsPDF } from 'jspdf';
+
+const PT_PER_MM = 72 / 25.4;
+
+// Tailwind text-fill classes used on chart labels.
+const CLASS_FILLS: Record<string, string> = {
+  'fill-slate-300': '#cbd5e1',
+  'fill-slate-400': '#94a3b8',
+  'fill-slate-500': '#64748b',
+  'fill-slate-600': '#475569',
+  'fill-slate-700': '#334155',
+};
+
+/**
+ * The standard PDF fonts only carry WinAnsi glyphs — swap out the few
+ * characters the deck formatters use that would otherwise print as garbage.
+ */
+export function pdfText(s: string): string {
+  return s
+    .replace(/₹\s?/g, 'Rs ')
+    .replace(/→/g, '->')
+    .replace(/▲/g, '+')
+    .replace(/▼/g, '-')
+    .replace(/−/g, '-');
+}
+
+/** Render a chart element to its <svg> (the charts' default 640px width when measured off-screen). */
+export function renderChartSvg(element: ReactElement): SVGSVGElement {
+  const html = renderToStaticMarkup(element);
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const svg = doc.querySelector('svg');
+  if (!svg) throw new Error('Chart rendered no <svg>');
+  return svg as unknown as SVGSVGElement;
+}
+
+/** Natural size of a rendered chart, in SVG units. */
+export function svgSize(svg: SVGSVGElement): { width: number; height: number } {
+  const box = (svg.getAttribute('viewBox') || '').split(/[\s,]+/).map(Number);
+  const width = Number(svg.getAttribute('width')) || box[2] || 640;
+  const height = Number(svg.getAttribute('height')) || box[3] || 240;
+  return { width, height };
+}
+
+/**
+ * Draw `svg` with its top-left at (x, y), scaled to `width` (document units,
+ * mm for the deck exports). Returns the drawn height.
+ */
+export function drawSvg(pdf: jsPDF, svg: SVGSVGElement, x: number, y: number, width: number): number {
+  const size = svgSize(svg);
+  const scale = width / size.width;
+  const ctx: DrawContext = { pdf, scale, ox: x, oy: y };
+  for (const child of Array.from(svg.children)) drawNode(ctx, child);
+  pdf.setLineDashPattern([], 0);
+  pdf.setGState(new GState({ opacity: 1, 'stroke-opacity': 1 }));
+  return size.height * scale;
+}
+
+// ----------------------------------------------------------------------------
+// Element replay
+// ----------------------------------------------------------------------------
+
+interface DrawContext {
+  pdf: jsPDF;
+  scale: number;
+  ox: number;
+  oy: number;
+}
+
+function num(el: Element, attr: string, fallback = 0): number {
+  const v = parseFloat(el.getAttribute(attr) ?? '');
+  return isFinite(v) ? v : fallback;
+}
+
+function colorOf(el: Element, attr: 'fill' | 'stroke'): string | null {
+  const v = el.getAttribute(attr);
+  if (v === null && attr === 'fill') {
+    const cls = (el.getAttribute('class') || '').split(/\s+/).find((c) => CLASS_FILLS[c]);
+    return cls ? CLASS_FILLS[cls] : null;
+  }
+  if (!v || v === 'none' || v === 'transparent' || v === 'currentColor') return null;
+  return v.length === 4 ? `#${v[1]}${v[1]}${v[2]}${v[2]}${v[3]}${v[3]}` : v;
+}
+
+function withOpacity(ctx: DrawContext, el: Element, draw: () => void) {
+  const opacity = num(el, 'opacity', 1);
+  if (opacity < 1) ctx.pdf.setGState(new GState({ opacity, 'stroke-opacity': opacity }));
+  draw();
+  if (opacity < 1) ctx.pdf.setGState(new GState({ opacity: 1, 'stroke-opacity': 1 }));
+}
+
+function applyStroke(ctx: DrawContext, el: Element, color: string) {
+  const { pdf, scale } = ctx;
+  pdf.setDrawColor(color);
+  pdf.setLineWidth(num(el, 'stroke-width', 1) * scale);
+  const dash = (el.getAttribute('stroke-dasharray') || '').split(/[\s,]+/).map(Number).filter((n) => n > 0);
+  pdf.setLineDashPattern(dash.map((d) => d * scale), 0);
+}
+
+function drawNode(ctx: DrawContext, el: Element) {
+  const { pdf, scale, ox, oy } = ctx;
+  const X = (v: number) => ox + v * scale;
+  const Y = (v: number) => oy + v * scale;
+
+  switch (el.tagName.toLowerCase()) {
+    case 'g':
+      for (const child of Array.from(el.children)) drawNode(ctx, child);
+      return;
+
+    case 'rect': {
+      const fill = colorOf(el, 'fill');
+      const w = num(el, 'width') * scale;
+      const h = num(el, 'height') * scale;
+      if (!fill || w <= 0 || h <= 0) return;
+      const rx = Math.min(num(el, 'rx') * scale, w / 2, h / 2);
+      withOpacity(ctx, el, () => {
+        pdf.setFillColor(fill);
+        if (rx > 0) pdf.roundedRect(X(num(el, 'x')), Y(num(el, 'y')), w, h, rx, rx, 'F');
+        else pdf.rect(X(num(el, 'x')), Y(num(el, 'y')), w, h, 'F');
+      });
+      return;
+    }
+
+    case 'line': {
+      const stroke = colorOf(el, 'stroke');
+      if (!stroke) return;
+      applyStroke(ctx, el, stroke);
+      pdf.line(X(num(el, 'x1')), Y(num(el, 'y1')), X(num(el, 'x2')), Y(num(el, 'y2')));
+      pdf.setLineDashPattern([], 0);
+      return;
+    }
+
+    case 'circle': {
+      const fill = colorOf(el, 'fill');
+      if (!fill) return;
+      pdf.setFillColor(fill);
+      pdf.circle(X(num(el, 'cx')), Y(num(el, 'cy')), num(el, 'r') * scale, 'F');
+      return;
+    }
+
+    case 'path': {
+      const fill = colorOf(el, 'fill');
+      const stroke = colorOf(el, 'stroke');
+      if (!fill && !stroke) return;
+      if (!tracePath(pdf, el.getAttribute('d') || '', X, Y)) return;
+      if (stroke) applyStroke(ctx, el, stroke);
+      if (fill) pdf.setFillColor(fill);
+      withOpacity(ctx, el, () => {
+        if (fill && stroke) pdf.fillStroke();
+        else if (fill) pdf.fill();
+        else pdf.stroke();
+      });
+      pdf.setLineDashPattern([], 0);
+      return;
+    }
+
+    case 'text': {
+      const text = pdfText((el.textContent || '').trim());
+      if (!text) return;
+      const anchor = el.getAttribute('text-anchor');
+      pdf.setFont('helvetica', 'normal');
+      pdf.setFontSize(num(el, 'font-size', 10) * scale * PT_PER_MM);
+      pdf.setTextColor(colorOf(el, 'fill') || '#334155');
+      pdf.text(text, X(num(el, 'x')), Y(num(el, 'y')), {
+        align: anchor === 'middle' ? 'center' : anchor === 'end' ? 'right' : 'left',
+      });
+      return;
+    }
+
+    default:
+      // <title>, <defs> and anything else carry nothing to print.
+      return;
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Path data
+// ----------------------------------------------------------------------------
+
+/** Replays absolute path commands as jsPDF path operations; false when nothing was traced. */
+function tracePath(pdf: jsPDF, d: string, X: (v: number) => number, Y: (v: number) => number): boolean {
+  const tokens = d.match(/[MLHVCAZmlhvcaz]|-?\d*\.?\d+(?:e[-+]?\d+)?/g) ?? [];
+  let i = 0;
+  let cmd = '';
+  let cx = 0, cy = 0, sx = 0, sy = 0;
+  let traced = false;
+  const next = () => parseFloat(tokens[i++]);
+
+  while (i < tokens.length) {
+    if (/[A-Za-z]/.test(tokens[i])) cmd = tokens[i++];
+    switch (cmd) {
+      case 'M':
+        cx = sx = next(); cy = sy = next();
+        pdf.moveTo(X(cx), Y(cy));
+        cmd = 'L'; // further pairs are implicit line-tos
+        break;
+      case 'L':
+        cx = next(); cy = next();
+        pdf.lineTo(X(cx), Y(cy));
+        traced = true;
+        break;
+      case 'H':
+        cx = next();
+        pdf.lineTo(X(cx), Y(cy));
+        traced = true;
+        break;
+      case 'V':
+        cy = next();
+        pdf.lineTo(X(cx), Y(cy));
+        traced = true;
+        break;
+      case 'C': {
+        const [x1, y1, x2, y2] = [next(), next(), next(), next()];
+        cx = next(); cy = next();
+        pdf.curveTo(X(x1), Y(y1), X(x2), Y(y2), X(cx), Y(cy));
+        traced = true;
+        break;
+      }
+      case 'A': {
+        const [rx, ry, rot, large, sweep] = [next(), next(), next(), next(), next()];
+        const ex = next(), ey = next();
+        for (const c of arcToCurves(cx, cy, rx, ry, rot, large !== 0, sweep !== 0, ex, ey)) {
+          pdf.curveTo(X(c[0]), Y(c[1]), X(c[2]), Y(c[3]), X(c[4]), Y(c[5]));
+        }
+        cx = ex; cy = ey;
+        traced = true;
+        break;
+      }
+      case 'Z':
+      case 'z':
+        pdf.close();
+        cx = sx; cy = sy;
+        break;
+      default:
+        // Relative or unsupported command — stop rather than draw something wrong.
+        return traced;
+    }
+  }
+  return traced;
+}
+
+/** An SVG elliptical arc as cubic Béziers of at most 90° each (SVG spec F.6 endpoint → centre conversion). */
+function arcToCurves(
+  x1: number, y1: number, rx: number, ry: number, rotDeg: number,
+  large: boolean, sweep: boolean, x2: number, y2: number,
+): number[][] {
+  if (rx === 0 || ry === 0 || (x1 === x2 && y1 === y2)) return [[x1, y1, x2, y2, x2, y2]];
+  const phi = (rotDeg * Math.PI) / 180;
+  const cos = Math.cos(phi), sin = Math.sin(phi);
+  const dx = (x1 - x2) / 2, dy = (y1 - y2) / 2;
+  const x1p = cos * dx + sin * dy;
+  const y1p = -sin * dx + cos * dy;
+  rx = Math.abs(rx); ry = Math.abs(ry);
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) { rx *= Math.sqrt(lambda); ry *= Math.sqrt(lambda); }
+
+  const radicand = (rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p) / (rx * rx * y1p * y1p + ry * ry * x1p * x1p);
+  const coef = (large === sweep ? -1 : 1) * Math.sqrt(Math.max(0, radicand));
+  const cxp = (coef * rx * y1p) / ry;
+  const cyp = (-coef * ry * x1p) / rx;
+  const cx = cos * cxp - sin * cyp + (x1 + x2) / 2;
+  const cy = sin * cxp + cos * cyp + (y1 + y2) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const theta1 = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let delta = angle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  const segments = Math.ceil(Math.abs(delta) / (Math.PI / 2));
+  const step = delta / segments;
+  const k = (4 / 3) * Math.tan(step / 4);
+  const point = (t: number) => [
+    cx + rx * Math.cos(t) * cos - ry * Math.sin(t) * sin,
+    cy + rx * Math.cos(t) * sin + ry * Math.sin(t) * cos,
+  ];
+  const deriv = (t: number) => [
+    -rx * Math.sin(t) * cos - ry * Math.cos(t) * sin,
+    -rx * Math.sin(t) * sin + ry * Math.cos(t) * cos,
+  ];
+
+  const out: number[][] = [];
+  for (let s = 0; s < segments; s++) {
+    const t1 = theta1 + s * step;
+    const t2 = t1 + step;
+    const [p1x, p1y] = point(t1), [p2x, p2y] = point(t2);
+    const [d1x, d1y] = deriv(t1), [d2x, d2y] = deriv(t2);
+    out.push([p1x + k * d1x, p1y + k * d1y, p2x - k * d2x, p2y - k * d2y, p2x, p2y]);
+  }
+  return out;
+}
@@ -0,0 +1,317 @@
+// Tally Day Book Parser
+// Reads Tally Prime's native XML export (Display → Day Book → Export, or any
+// voucher export) into DayBookVoucher records with every ledger line, party,
+// GST split, bill reference and cost-centre allocation kept.
+//
+// Tally's XML is not always well-formed — it writes UTF-16 by default and
+// emits control-character references like "&#4;" that strict XML parsers
+// reject — so this walks the tags with a small tolerant tokenizer instead of
+// DOMParser. Only the structure Tally actually writes is handled: elements,
+// attributes, text, comments and CDATA.
+
+import type {
+  DayBookInventoryLine,
+  DayBookLedgerLine,
+  DayBookVoucher,
+  DayBookVoucherKind
+} from '../types/stateData';
+
+export interface DayBookParseResult {
+  company?: string;
+  vouchers: DayBookVoucher[];
+  cancelled: number;  // Cancelled / optional / deleted vouchers left out
+  warnings: string[];
+}
+
+// ============================================
+// XML TOKENIZER
+// ============================================
+
+interface XmlNode {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlNode[];
+  text: string;
+}
+
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<!DOCTYPE[^>]*>|<(\/?)([A-Za-z_][\w.:-]*)((?:\s+[^\s=>/]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+const ATTR_PATTERN = /([^\s=>/]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+function decodeEntities(s: string): string {
+  return s
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => charFromCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => charFromCode(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function charFromCode(code: number): string {
+  // Tally writes &#4; / &#13; inside names and narrations; keep only printable text and newlines
+  if (code === 10 || code === 9) return String.fromCharCode(code);
+  if (code < 32 || Number.isNaN(code)) return '';
+  return String.fromCodePoint(code);
+}
+
+function parseXml(xml: string): XmlNode {
+  const root: XmlNode = { name: '#root', attrs: {}, children: [], text: '' };
+  const stack: XmlNode[] = [root];
+  let last = 0;
+
+  for (const match of xml.matchAll(TOKEN_PATTERN)) {
+    const top = stack[stack.length - 1];
+    const between = xml.slice(last, match.index);
+    if (between.trim()) top.text += decodeEntities(between);
+    last = match.index + match[0].length;
+
+    if (match[1] !== undefined) {
+      top.text += match[1];
+      continue;
+    }
+    const [, , closing, name, rawAttrs, selfClosing] = match;
+    if (!name) continue;  // Comment, declaration or DOCTYPE
+
+    if (closing) {
+      // Unbalanced close tags are ignored rather than unwinding the whole stack
+      const at = stack.map((n) => n.name).lastIndexOf(name.toUpperCase());
+      if (at > 0) stack.length = at;
+      continue;
+    }
+
+    const attrs: Record<string, string> = {};
+    for (const a of (rawAttrs || '').matchAll(ATTR_PATTERN)) {
+      attrs[a[1].toUpperCase()] = decodeEntities(a[2] ?? a[3] ?? '');
+    }
+    const node: XmlNode = { name: name.toUpperCase(), attrs, children: [], text: '' };
+    top.children.push(node);
+    if (!selfClosing) stack.push(node);
+  }
+
+  return root;
+}
+
+function child(node: XmlNode, name: string): XmlNode | undefined {
+  return node.children.find((c) => c.name === name);
+}
+
+function children(node: XmlNode, ...names: string[]): XmlNode[] {
+  return node.children.filter((c) => names.includes(c.name));
+}
+
+function text(node: XmlNode | undefined, name: string): string {
+  const c = node && child(node, name);
+  return c ? c.text.trim() : '';
+}
+
+function findAll(node: XmlNode, name: string, out: XmlNode[] = []): XmlNode[] {
+  for (const c of node.children) {
+    if (c.name === name) out.push(c);
+    else findAll(c, name, out);
+  }
+  return out;
+}
+
+// ============================================
+// ENCODING
+// ============================================
+
+function decodeBuffer(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes.subarray(2));
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+  // BOM-less UTF-16: ASCII "<" followed by a zero byte
+  if (bytes[0] === 0x3c && bytes[1] === 0x00) return new TextDecoder('utf-16le').decode(bytes);
+  return new TextDecoder('utf-8').decode(bytes);
+}
+
+// ============================================
+// VOUCHER MAPPING
+// ============================================
+
+const KIND_PATTERNS: { kind: DayBookVoucherKind; pattern: RegExp }[] = [
+  { kind: 'creditNote', pattern: /credit\s*note/i },
+  { kind: 'debitNote', pattern: /debit\s*note/i },
+  { kind: 'sales', pattern: /\bsales?\b/i },
+  { kind: 'purchase', pattern: /\bpurchases?\b/i },
+  { kind: 'receipt', pattern: /\breceipts?\b/i },
+  { kind: 'payment', pattern: /\bpayments?\b/i },
+  { kind: 'contra', pattern: /\bcontra\b/i },
+  { kind: 'journal', pattern: /\bjournals?\b|\bjv\b/i }
+];
+
+function voucherKind(voucherType: string): DayBookVoucherKind {
+  for (const { kind, pattern } of KIND_PATTERNS) {
+    if (pattern.test(voucherType)) return kind;
+  }
+  return 'other';
+}
+
+function taxHead(ledger: string): DayBookLedgerLine['tax'] {
+  if (/\bcgst\b/i.test(ledger)) return 'cgst';
+  if (/\b(sgst|utgst)\b/i.test(ledger)) return 'sgst';
+  if (/\bigst\b/i.test(ledger)) return 'igst';
+  if (/\b(gst\s*)?cess\b/i.test(ledger)) return 'cess';
+  return undefined;
+}
+
+// "-1,180.00", "1180.00 Dr", "₹ 1,180.00" — exchange annotations ("@ 83.10/USD") are dropped.
+function parseTallyAmount(raw: string): number {
+  const m = raw.replace(/,/g, '').match(/-?\d+(?:\.\d+)?/);
+  return m ? parseFloat(m[0]) : 0;
+}
+
+// YYYYMMDD -> YYYY-MM-DD
+function isoFromTally(raw: string): string | null {
+  const m = raw.trim().match(/^(\d{4})(\d{2})(\d{2})$/);
+  return m ? `${m[1]}-${m[2]}-${m[3]}` : null;
+}
+
+function isYes(raw: string): boolean {
+  return /^yes$/i.test(raw.trim());
+}
+
+function ledgerLine(node: XmlNode, ledger: string): DayBookLedgerLine | null {
+  const signed = parseTallyAmount(text(node, 'AMOUNT'));
+  if (!ledger || signed === 0) return null;
+  const deemed = text(node, 'ISDEEMEDPOSITIVE');
+  // ISDEEMEDPOSITIVE is authoritative; the amount sign (negative = Dr) covers exports without it
+  const isDebit = deemed ? isYes(deemed) : signed < 0;
+
+  const costCentres: DayBookLedgerLine['costCentres'] = [];
+  for (const cat of children(node, 'CATEGORYALLOCATIONS.LIST')) {
+    const category = text(cat, 'CATEGORY') || undefined;
+    for (const cc of children(cat, 'COSTCENTREALLOCATIONS.LIST')) {
+      const name = text(cc, 'NAME');
+      if (name) costCentres.push({ category, name, amount: Math.abs(parseTallyAmount(text(cc, 'AMOUNT'))) });
+    }
+  }
+
+  const bills = children(node, 'BILLALLOCATIONS.LIST')
+    .map((b) => ({
+      name: text(b, 'NAME'),
+      type: text(b, 'BILLTYPE'),
+      amount: Math.abs(parseTallyAmount(text(b, 'AMOUNT')))
+    }))
+    .filter((b) => b.name || b.type);
+
+  return {
+    ledger,
+    dr_or_cr: isDebit ? 'Dr' : 'Cr',
+    amount: Math.abs(signed),
+    isParty: isYes(text(node, 'ISPARTYLEDGER')),
+    tax: taxHead(ledger),
+    isTDS: /\btds\b/i.test(ledger),
+    isRoundOff: /round(ed|ing)?\s*off/i.test(ledger),
+    costCentres,
+    bills
+  };
+}
+
+function mapVoucher(node: XmlNode, warnings: string[]): DayBookVoucher | null {
+  const voucherType = text(node, 'VOUCHERTYPENAME') || node.attrs.VCHTYPE || '';
+  const voucherNumber = text(node, 'VOUCHERNUMBER') || undefined;
+  const label = `${voucherType || 'Voucher'} ${voucherNumber ?? ''}`.trim();
+  const date = isoFromTally(text(node, 'DATE'));
+  if (!date) {
+    warnings.push(`${label}: no readable DATE, skipped`);
+    return null;
+  }
+
+  const lines: DayBookLedgerLine[] = [];
+  for (const le of children(node, 'ALLLEDGERENTRIES.LIST', 'LEDGERENTRIES.LIST')) {
+    const line = ledgerLine(le, text(le, 'LEDGERNAME'));
+    if (line) lines.push(line);
+  }
+
+  // Item invoices post the sales / purchase ledger through each item's accounting allocation
+  const inventory: DayBookInventoryLine[] = [];
+  for (const inv of children(node, 'ALLINVENTORYENTRIES.LIST', 'INVENTORYENTRIES.LIST')) {
+    inventory.push({
+      stockItem: text(inv, 'STOCKITEMNAME'),
+      quantity: text(inv, 'BILLEDQTY') || text(inv, 'ACTUALQTY'),
+      rate: text(inv, 'RATE'),
+      amount: Math.abs(parseTallyAmount(text(inv, 'AMOUNT')))
+    });
+    for (const alloc of children(inv, 'ACCOUNTINGALLOCATIONS.LIST')) {
+      const line = ledgerLine(alloc, text(alloc, 'LEDGERNAME'));
+      if (line) lines.push(line);
+    }
+  }
+
+  if (lines.length === 0) {
+    warnings.push(`${label} (${date}): no ledger entries, skipped`);
+    return null;
+  }
+
+  const party = text(node, 'PARTYLEDGERNAME') || text(node, 'PARTYNAME') || undefined;
+  if (party) {
+    for (const line of lines) {
+      if (line.ledger === party) line.isParty = true;
+    }
+  }
+
+  const dr = lines.filter((l) => l.dr_or_cr === 'Dr').reduce((s, l) => s + l.amount, 0);
+  const cr = lines.filter((l) => l.dr_or_cr === 'Cr').reduce((s, l) => s + l.amount, 0);
+  if (Math.abs(dr - cr) > 0.05) {
+    warnings.push(`${label} (${date}): debits ${dr.toFixed(2)} ≠ credits ${cr.toFixed(2)}`);
+  }
+
+  return {
+    guid: text(node, 'GUID') || undefined,
+    date,
+    voucherType,
+    kind: voucherKind(voucherType),
+    voucherNumber,
+    reference: text(node, 'REFERENCE') || undefined,
+    party,
+    partyGstin: text(node, 'PARTYGSTIN') || undefined,
+    placeOfSupply: text(node, 'PLACEOFSUPPLY') || undefined,
+    narration: text(node, 'NARRATION'),
+    lines,
+    inventory
+  };
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+export function parseTallyDayBookXml(xml: string): DayBookParseResult {
+  const root = parseXml(xml);
+  if (!findAll(root, 'ENVELOPE').length && !findAll(root, 'VOUCHER').length) {
+    throw new Error('Not a Tally XML export — no ENVELOPE or VOUCHER elements found.');
+  }
+
+  const warnings: string[] = [];
+  const vouchers: DayBookVoucher[] = [];
+  let cancelled = 0;
+
+  for (const node of findAll(root, 'VOUCHER')) {
+    if (
+      /^delete$/i.test(node.attrs.ACTION || '') ||
+      isYes(text(node, 'ISCANCELLED')) ||
+      isYes(text(node, 'ISOPTIONAL')) ||
+      isYes(text(node, 'ISDELETED'))
+    ) {
+      cancelled++;
+      continue;
+    }
+    const voucher = mapVoucher(node, warnings);
+    if (voucher) vouchers.push(voucher);
+  }
+
+  vouchers.sort((a, b) => a.date.localeCompare(b.date));
+  const company = findAll(root, 'SVCURRENTCOMPANY')[0]?.text.trim() || undefined;
+  return { company, vouchers, cancelled, warnings };
+}
+
+export async function parseTallyDayBookFile(file: File): Promise<DayBookParseResult> {
+  return parseTallyDayBookXml(decodeBuffer(await file.arrayBuffer()));
+}
+
+export function isTallyXmlFile(file: { name: string; type?: string }): boolean {
+  return /\.xml$/i.test(file.name) || /xml/i.test(file.type || '');
+}
@@ -0,0 +1,489 @@
+import { toIsoDate } from './bankStatementParsers';
+import { cleanMasterName } from '../data/tally/masterValidation';
+import { getStateData } from '../services/stateDataStore';
+import { STATE_NAMES } from '../types/stateData';
+import type { DayBookVoucher, JournalEntry } from '../types/stateData';
+import {
+  TDS_SECTIONS,
+  type DeducteeType,
+  type LowerDeductionCertificate,
+  type TdsBookDeposit,
+  type TdsDeducteeSection,
+  type TdsEntry,
+  type TdsIssue,
+  type TdsLedger,
+  type TdsMonth,
+  type TdsQuarter,
+  type TdsSection,
+  type TdsState,
+} from '../types/tds';
+
+// ============================================
+// TDS LEDGER
+// ============================================
+// Deductions come from two places: Expense Booking queue items not yet in
+// Tally, and purchase / journal vouchers in the Tally day book. A booking
+// that reached Tally shows up in both; the day book copy wins. Every
+// payment to a vendor counts towards the section threshold for the
+// financial year, deducted or not — that is how short deductions show.
+// Deposits are the challans recorded here; the journal register's Dr TDS
+// Payable / Cr bank entries are shown alongside as the books' view.
+
+interface SectionRule {
+  label: string;
+  /** 26Q section code and rate (percent) by nature; the first is the default. */
+  natures: { code: string; nature: string; rate: Record<DeducteeType, number> }[];
+  singleThreshold: number | null;   // Per payment
+  annualThreshold: number | null;   // Per deductee per financial year
+  monthlyThreshold: number | null;  // Per deductee per month (rent)
+}
+
+export const SECTION_RULES: Record<TdsSection, SectionRule> = {
+  '194C': {
+    label: 'Contractors',
+    natures: [{ code: '94C', nature: 'Contract work', rate: { company: 2, 'non-company': 1 } }],
+    singleThreshold: 30000,
+    annualThreshold: 100000,
+    monthlyThreshold: null,
+  },
+  '194J': {
+    label: 'Professional / technical fees',
+    natures: [
+      { code: '4JB', nature: 'Professional fees', rate: { company: 10, 'non-company': 10 } },
+      { code: '4JA', nature: 'Technical services', rate: { company: 2, 'non-company': 2 } },
+    ],
+    singleThreshold: null,
+    annualThreshold: 50000,
+    monthlyThreshold: null,
+  },
+  '194I': {
+    label: 'Rent',
+    natures: [
+      { code: '4IB', nature: 'Land / building', rate: { company: 10, 'non-company': 10 } },
+      { code: '4IA', nature: 'Plant / machinery', rate: { company: 2, 'non-company': 2 } },
+    ],
+    singleThreshold: null,
+    annualThreshold: null,
+    monthlyThreshold: 50000,
+  },
+  '194H': {
+    label: 'Commission / brokerage',
+    natures: [{ code: '94H', nature: 'Commission', rate: { company: 2, 'non-company': 2 } }],
+    singleThreshold: null,
+    annualThreshold: 20000,
+    monthlyThreshold: null,
+  },
+};
+
+/** Section 206AA: no PAN, deduct at the higher of the section rate and 20%. */
+export const NO_PAN_RATE = 20;
+
+const TOLERANCE = 1;
+const TDS_LEDGER = /\btds\b/i;
+const TAX_LEDGER = /\b([csi]gst|utgst|gst|cess)\b/i;
+const ROUND_OFF_LEDGER = /round/i;
+const BANK_LEDGER = /\b(bank|icici|hdfc|sbi|axis|kotak)\b/i;
+const PAN_PATTERN = /^[A-Z]{5}\d{4}[A-Z]$/;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function sectionFromLedger(ledger: string): TdsSection | null {
+  const m = /194\s*-?\s*([CJIH])(?![A-Z])/i.exec(ledger);
+  return m ? (`194${m[1].toUpperCase()}` as TdsSection) : null;
+}
+
+// 194J and 194-I carry two rates; the lower one (technical services, plant
+// and machinery) shows in the ledger name or in the rate actually deducted.
+function returnCodeFor(section: TdsSection, ledger: string, base: number, tds: number): string {
+  const [standard, alternate] = SECTION_RULES[section].natures;
+  if (!alternate) return standard.code;
+  const hint = section === '194J' ? /technical|call\s*cent/i : /machinery|plant|equipment/i;
+  const effective = base > 0 ? (tds / base) * 100 : 0;
+  return hint.test(ledger) || (tds > 0 && Math.abs(effective - alternate.rate.company) < 0.5) ? alternate.code : standard.code;
+}
+
+function rateFor(section: TdsSection, returnCode: string | null, type: DeducteeType): number {
+  const natures = SECTION_RULES[section].natures;
+  return (natures.find((n) => n.code === returnCode) ?? natures[0]).rate[type];
+}
+
+export function panFromGstin(gstin: string | null | undefined): string | null {
+  const pan = (gstin || '').toUpperCase().slice(2, 12);
+  return PAN_PATTERN.test(pan) ? pan : null;
+}
+
+/** The fourth PAN character is the holder's status; "C" is a company. */
+export function deducteeTypeFromPan(pan: string | null): DeducteeType {
+  return pan?.[3] === 'C' ? 'company' : 'non-company';
+}
+
+function partyKey(party: string): string {
+  return party.trim().toUpperCase();
+}
+
+// ============================================
+// FINANCIAL YEAR & DUE DATES
+// ============================================
+
+/** "2026-27" for any date from 1 Apr 2026 to 31 Mar 2027. */
+export function financialYearOf(date: string): string {
+  const y = Number(date.slice(0, 4));
+  const start = Number(date.slice(5, 7)) >= 4 ? y : y - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+}
+
+export function monthsOfFinancialYear(fy: string): string[] {
+  const start = Number(fy.slice(0, 4));
+  return Array.from({ length: 12 }, (_, i) => {
+    const m = ((i + 3) % 12) + 1;
+    return `${m >= 4 ? start : start + 1}-${String(m).padStart(2, '0')}`;
+  });
+}
+
+export function quarterOf(month: string): 1 | 2 | 3 | 4 {
+  const m = Number(month.slice(5, 7));
+  return m >= 4 && m <= 6 ? 1 : m >= 7 && m <= 9 ? 2 : m >= 10 ? 3 : 4;
+}
+
+/** TDS deducted in a month is due by the 7th of the next; March's by 30 April. */
+export function depositDueDate(month: string): string {
+  const y = Number(month.slice(0, 4));
+  const m = Number(month.slice(5, 7));
+  if (m === 3) return `${y}-04-30`;
+  return m === 12 ? `${y + 1}-01-07` : `${y}-${String(m + 1).padStart(2, '0')}-07`;
+}
+
+export function form26qDueDate(fy: string, quarter: 1 | 2 | 3 | 4): string {
+  const start = Number(fy.slice(0, 4));
+  return { 1: `${start}-07-31`, 2: `${start}-10-31`, 3: `${start + 1}-01-31`, 4: `${start + 1}-05-31` }[quarter];
+}
+
+const QUARTER_LABELS = { 1: 'Q1 (Apr–Jun)', 2: 'Q2 (Jul–Sep)', 3: 'Q3 (Oct–Dec)', 4: 'Q4 (Jan–Mar)' } as const;
+
+function previousMonth(month: string): string {
+  const d = new Date(Number(month.slice(0, 4)), Number(month.slice(5, 7)) - 2, 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+}
+
+// ============================================
+// SOURCES
+// ============================================
+
+/** The queue fields the ledger reads — a narrow copy of Expense Booking's item. */
+export interface TdsQueueItem {
+  id: string;
+  savedAt: string;
+  manualEntry?: { invoiceNumber?: string; invoiceDate?: string };
+  answers: { party?: string; tdsApplicable?: 'Yes' | 'No' };
+  advice: {
+    stages: { lines: { dr_or_cr: 'Dr' | 'Cr'; ledger: string; amount: number | null }[] }[];
+    invoiceExtract?: { vendor?: string; gstin?: string; invoiceNumber?: string; invoiceDate?: string } | null;
+  };
+}
+
+export function entriesFromQueue(queue: TdsQueueItem[]): { entries: TdsEntry[]; issues: TdsIssue[] } {
+  const entries: TdsEntry[] = [];
+  const issues: TdsIssue[] = [];
+  for (const item of queue) {
+    const lines = item.advice.stages?.[0]?.lines || [];
+    const tdsLines = lines.filter((l) => l.dr_or_cr === 'Cr' && TDS_LEDGER.test(l.ledger));
+    const partyLine = lines.find((l) => l.dr_or_cr === 'Cr' && !TDS_LEDGER.test(l.ledger) && !TAX_LEDGER.test(l.ledger));
+    const party = partyLine ? cleanMasterName(partyLine.ledger) : item.answers.party || '';
+    if (!party) continue;
+
+    const base = lines
+      .filter((l) => l.dr_or_cr === 'Dr' && !TAX_LEDGER.test(l.ledger) && !TDS_LEDGER.test(l.ledger) && !ROUND_OFF_LEDGER.test(l.ledger))
+      .reduce((s, l) => s + (l.amount ?? 0), 0);
+    const tds = tdsLines.reduce((s, l) => s + (l.amount ?? 0), 0);
+    const ledger = tdsLines[0] ? cleanMasterName(tdsLines[0].ledger) : '';
+    const section = ledger ? sectionFromLedger(ledger) : null;
+
+    if (tdsLines.some((l) => l.amount === null) || (item.answers.tdsApplicable === 'Yes' && !tdsLines.length)) {
+      issues.push({
+        kind: 'missing-amount',
+        party,
+        section,
+        message: tdsLines.length
+          ? 'Queued booking has a TDS line with no amount — fill it before exporting.'
+          : 'Queued booking is marked TDS applicable but has no TDS Payable line.',
+      });
+    }
+
+    const extract = item.advice.invoiceExtract;
+    entries.push({
+      id: `q:${item.id}`,
+      source: 'booking',
+      date: toIsoDate(item.manualEntry?.invoiceDate || extract?.invoiceDate) || item.savedAt.slice(0, 10),
+      party,
+      gstin: extract?.gstin?.trim().toUpperCase() || null,
+      section,
+      returnCode: section ? returnCodeFor(section, ledger, base, tds) : null,
+      base: round2(base),
+      tds: round2(tds),
+      reference: item.manualEntry?.invoiceNumber || extract?.invoiceNumber || '',
+      ledger,
+    });
+  }
+  return { entries, issues };
+}
+
+// Purchases and journals credit the party; a payment voucher that deducts
+// (an advance) debits it. Payments that only settle a bill are skipped —
+// the bill was the credit.
+export function entriesFromDayBook(vouchers: DayBookVoucher[]): TdsEntry[] {
+  const entries: TdsEntry[] = [];
+  for (const v of vouchers) {
+    if (!['purchase', 'journal', 'payment'].includes(v.kind)) continue;
+    const tdsLines = v.lines.filter((l) => l.isTDS && l.dr_or_cr === 'Cr');
+    if (v.kind === 'payment' && !tdsLines.length) continue;
+
+    const partySide = v.kind === 'payment' ? 'Dr' : 'Cr';
+    const partyLine = v.lines.find((l) => l.isParty && l.dr_or_cr === partySide);
+    const party = partyLine?.ledger || v.party;
+    if (!party) continue;
+
+    const base = v.kind === 'payment'
+      ? partyLine?.amount ?? 0
+      : v.lines
+          .filter((l) => l.dr_or_cr === 'Dr' && !l.isParty && !l.tax && !l.isTDS && !l.isRoundOff)
+          .reduce((s, l) => s + l.amount, 0);
+    if (base <= 0) continue;
+
+    const tds = tdsLines.reduce((s, l) => s + l.amount, 0);
+    const ledger = tdsLines[0]?.ledger || '';
+    const section = ledger ? sectionFromLedger(ledger) : null;
+    entries.push({
+      id: `db:${v.guid || `${v.date}:${v.voucherType}:${v.voucherNumber || ''}:${party}`}`,
+      source: 'daybook',
+      date: v.date,
+      party,
+      gstin: v.partyGstin?.toUpperCase() || null,
+      section,
+      returnCode: section ? returnCodeFor(section, ledger, base, tds) : null,
+      base: round2(base),
+      tds: round2(tds),
+      reference: v.reference || v.voucherNumber || '',
+      ledger,
+    });
+  }
+  return entries;
+}
+
+export function depositsFromJournal(entries: JournalEntry[]): TdsBookDeposit[] {
+  return entries
+    .filter((e) => TDS_LEDGER.test(e.debitParticulars) && BANK_LEDGER.test(e.creditParty))
+    .map((e) => ({
+      date: toIsoDate(e.date) || '',
+      amount: e.debitAmount,
+      section: sectionFromLedger(e.debitParticulars),
+      ledger: e.debitParticulars,
+    }))
+    .filter((d) => d.date);
+}
+
+/** Day book vouchers and journal register entries loaded for the year, all states. */
+export function booksForYear(fy: string): { vouchers: DayBookVoucher[]; journal: JournalEntry[] } {
+  const vouchers: DayBookVoucher[] = [];
+  const journal: JournalEntry[] = [];
+  for (const month of monthsOfFinancialYear(fy)) {
+    for (const state of STATE_NAMES) {
+      const data = getStateData(month, state);
+      if (data?.dayBook) vouchers.push(...data.dayBook.vouchers.filter((v) => v.date.startsWith(month)));
+      if (data?.journalRegister) journal.push(...data.journalRegister.entries);
+    }
+  }
+  return { vouchers, journal };
+}
+
+// ============================================
+// LEDGER
+// ============================================
+
+export function certificateCovers(c: LowerDeductionCertificate | null, section: TdsSection, date: string): boolean {
+  return !!c && c.section === section && date >= c.validFrom && date <= c.validTo;
+}
+
+function thresholdCrossed(section: TdsSection, entries: TdsEntry[]): boolean {
+  const rule = SECTION_RULES[section];
+  const paid = entries.reduce((s, e) => s + e.base, 0);
+  if (rule.annualThreshold !== null && paid > rule.annualThreshold) return true;
+  if (rule.singleThreshold !== null && entries.some((e) => e.base > rule.singleThreshold!)) return true;
+  if (rule.monthlyThreshold !== null) {
+    const byMonth = new Map<string, number>();
+    for (const e of entries) byMonth.set(e.date.slice(0, 7), (byMonth.get(e.date.slice(0, 7)) || 0) + e.base);
+    return [...byMonth.values()].some((v) => v > rule.monthlyThreshold!);
+  }
+  return false;
+}
+
+// Once a deductee crosses the threshold, tax is due on everything paid in
+// the year (rent: on every month above the monthly limit; contractors below
+// the annual limit: only on payments above the single limit). A certificate
+// sets the rate until its limit is used up.
+function expectedTds(row: Omit<TdsDeducteeSection, 'expected' | 'paid' | 'deducted'>): { expected: number; overLimit: boolean } {
+  const rule = SECTION_RULES[row.section];
+  const monthly = new Map<string, number>();
+  for (const e of row.entries) monthly.set(e.date.slice(0, 7), (monthly.get(e.date.slice(0, 7)) || 0) + e.base);
+  const underAnnual = rule.annualThreshold !== null && row.entries.reduce((s, e) => s + e.base, 0) <= rule.annualThreshold;
+
+  let certUsed = 0;
+  let overLimit = false;
+  let expected = 0;
+  for (const e of [...row.entries].sort((a, b) => a.date.localeCompare(b.date))) {
+    if (rule.monthlyThreshold !== null && (monthly.get(e.date.slice(0, 7)) || 0) <= rule.monthlyThreshold) continue;
+    if (underAnnual && rule.singleThreshold !== null && e.base <= rule.singleThreshold) continue;
+    let rate = row.pan ? rateFor(row.section, e.returnCode, row.deducteeType) : Math.max(NO_PAN_RATE, rateFor(row.section, e.returnCode, row.deducteeType));
+    const c = row.certificate;
+    if (row.pan && certificateCovers(c, row.section, e.date)) {
+      if (c!.limit === null || certUsed + e.base <= c!.limit) {
+        rate = c!.rate;
+        certUsed += e.base;
+      } else {
+        overLimit = true;
+      }
+    }
+    expected += (e.base * rate) / 100;
+  }
+  return { expected: round2(expected), overLimit };
+}
+
+export interface BuildTdsLedgerInput {
+  fy: string;
+  queue: TdsQueueItem[];
+  vouchers: DayBookVoucher[];
+  journal: JournalEntry[];
+  tds: TdsState;
+  today: string;              // YYYY-MM-DD
+}
+
+export function buildTdsLedger({ fy, queue, vouchers, journal, tds, today }: BuildTdsLedgerInput): TdsLedger {
+  const fromBooks = entriesFromDayBook(vouchers).filter((e) => financialYearOf(e.date) === fy);
+  const fromQueue = entriesFromQueue(queue);
+  const issues: TdsIssue[] = [...fromQueue.issues];
+
+  // Drop queued bookings already in the day book
+  const booked = (q: TdsEntry) =>
+    fromBooks.some(
+      (b) => partyKey(b.party) === partyKey(q.party) && Math.abs(b.base - q.base) <= TOLERANCE && Math.abs(b.tds - q.tds) <= TOLERANCE
+    );
+  const entries = [...fromBooks, ...fromQueue.entries.filter((e) => financialYearOf(e.date) === fy && !booked(e))];
+
+  // Undeducted payments take the section the party is otherwise deducted
+  // under (or holds a certificate for); parties never deducted are not TDS vendors.
+  const knownSection = new Map<string, TdsSection>();
+  for (const e of entries) if (e.section && e.tds > 0) knownSection.set(partyKey(e.party), e.section);
+  for (const d of Object.values(tds.deductees)) {
+    if (d.certificate && !knownSection.has(partyKey(d.party))) knownSection.set(partyKey(d.party), d.certificate.section);
+  }
+  for (const e of entries) {
+    if (!e.section && e.tds === 0) {
+      e.section = knownSection.get(partyKey(e.party)) ?? null;
+      e.returnCode = e.section ? SECTION_RULES[e.section].natures[0].code : null;
+    }
+    if (!e.section && e.tds > 0) {
+      issues.push({ kind: 'no-section', party: e.party, section: null, message: `TDS ledger "${e.ledger}" doesn't name a section — rename it (e.g. "TDS Payable - 194J").` });
+    }
+  }
+  const ledgerEntries = entries.filter((e) => e.section).sort((a, b) => a.date.localeCompare(b.date));
+
+  // Per deductee and section
+  const groups = new Map<string, TdsEntry[]>();
+  for (const e of ledgerEntries) {
+    const key = `${partyKey(e.party)}|${e.section}`;
+    groups.set(key, [...(groups.get(key) || []), e]);
+  }
+  const deductees: TdsDeducteeSection[] = [];
+  for (const group of groups.values()) {
+    const first = group[0];
+    const section = first.section!;
+    const record = tds.deductees[partyKey(first.party)];
+    const gstinPan = panFromGstin(group.find((e) => e.gstin)?.gstin);
+    const pan = record?.pan || gstinPan;
+    const deducteeType = record?.deducteeType ?? deducteeTypeFromPan(pan);
+    const base = {
+      party: first.party,
+      pan,
+      panSource: record?.pan ? ('master' as const) : gstinPan ? ('gstin' as const) : null,
+      deducteeType,
+      section,
+      entries: group,
+      rate: record?.certificate && certificateCovers(record.certificate, section, first.date)
+        ? record.certificate.rate
+        : pan ? rateFor(section, first.returnCode, deducteeType) : NO_PAN_RATE,
+      thresholdCrossed: thresholdCrossed(section, group),
+      certificate: record?.certificate?.section === section ? record.certificate : null,
+    };
+    const { expected, overLimit } = base.thresholdCrossed ? expectedTds(base) : { expected: 0, overLimit: false };
+    const row: TdsDeducteeSection = {
+      ...base,
+      paid: round2(group.reduce((s, e) => s + e.base, 0)),
+      deducted: round2(group.reduce((s, e) => s + e.tds, 0)),
+      expected,
+    };
+    deductees.push(row);
+
+    if (row.thresholdCrossed && row.expected - row.deducted > TOLERANCE) {
+      issues.push({
+        kind: 'short-deduction',
+        party: row.party,
+        section,
+        message: `Paid ₹${fmt(row.paid)} against the ${section} threshold; ₹${fmt(row.expected)} due at ${row.rate}%, ₹${fmt(row.deducted)} deducted — short by ₹${fmt(row.expected - row.deducted)}.`,
+      });
+    } else if (row.thresholdCrossed && row.deducted - row.expected > TOLERANCE) {
+      issues.push({
+        kind: 'rate',
+        party: row.party,
+        section,
+        message: `₹${fmt(row.deducted)} deducted where ₹${fmt(row.expected)} is due at ${row.rate}% — check the rate or the deductee type.`,
+      });
+    }
+    if (!row.pan && row.deducted > 0) {
+      issues.push({ kind: 'no-pan', party: row.party, section, message: `No PAN on record — ${NO_PAN_RATE}% applies and 26Q reports "PANNOTAVBL". Add the PAN below.` });
+    }
+    if (overLimit) {
+      issues.push({ kind: 'certificate-limit', party: row.party, section, message: `Payments have passed the ₹${fmt(row.certificate?.limit ?? 0)} limit on certificate ${row.certificate?.number}; the normal rate applies beyond it.` });
+    }
+  }
+  deductees.sort((a, b) => a.section.localeCompare(b.section) || b.paid - a.paid);
+
+  const bySection = Object.fromEntries(
+    TDS_SECTIONS.map((s) => {
+      const rows = deductees.filter((d) => d.section === s);
+      return [s, {
+        paid: round2(rows.reduce((t, d) => t + d.paid, 0)),
+        deducted: round2(rows.reduce((t, d) => t + d.deducted, 0)),
+        deductees: rows.length,
+      }];
+    })
+  ) as TdsLedger['bySection'];
+
+  // Deposits: challans by the month they pay for; book deposits against the
+  // month before they were made
+  const bookDeposits = depositsFromJournal(journal);
+  const months: TdsMonth[] = monthsOfFinancialYear(fy).map((month) => {
+    const deducted = round2(ledgerEntries.filter((e) => e.date.startsWith(month)).reduce((s, e) => s + e.tds, 0));
+    const challans = round2(tds.challans.filter((c) => c.month === month).reduce((s, c) => s + c.tds, 0));
+    const books = round2(bookDeposits.filter((d) => previousMonth(d.date.slice(0, 7)) === month).reduce((s, d) => s + d.amount, 0));
+    const balance = round2(deducted - challans);
+    const dueDate = depositDueDate(month);
+    return { month, deducted, challans, books, balance, dueDate, overdue: balance > TOLERANCE && today > dueDate };
+  });
+  const quarters: TdsQuarter[] = ([1, 2, 3, 4] as const).map((q) => {
+    const qMonths = months.filter((m) => quarterOf(m.month) === q);
+    return {
+      quarter: q,
+      label: QUARTER_LABELS[q],
+      months: qMonths,
+      deducted: round2(qMonths.reduce((s, m) => s + m.deducted, 0)),
+      challans: round2(qMonths.reduce((s, m) => s + m.challans, 0)),
+      balance: round2(qMonths.reduce((s, m) => s + m.balance, 0)),
+      returnDueDate: form26qDueDate(fy, q),
+    };
+  });
+
+  return { fy, entries: ledgerEntries, bySection, deductees, quarters, issues };
+}
+
+function fmt(n: number): string {
+  return n.toLocaleString('en-IN', { maximumFractionDigits: 2 });
+}
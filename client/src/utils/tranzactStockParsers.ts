@@ -0,0 +1,190 @@
+// Tranzact Stock Parsers
+// The two inventory exports Tranzact gives us:
+//   • Stock summary — Inventory → Stock Summary, one row per item with
+//     opening, inward, outward and closing quantities (and a value / price
+//     column when "show value" is on).
+//   • Stock movements — Inventory → Item-wise Stock Movement, one row per
+//     transaction (GRN, invoice, production, transfer, adjustment) with the
+//     quantity in or out and the rate.
+// Both come as Excel or CSV; the header row is found by its column names,
+// below whatever title block the export puts on top.
+
+import { readGrid, parseAmount, toIsoDate } from './bankStatementParsers';
+import { fgMaster } from '../data/fgMaster';
+import type { StockClass, StockMovement, StockMovementsFile, StockSummary, StockSummaryItem } from '../types/inventory';
+
+function headerIndex(grid: unknown[][], required: RegExp[]): number {
+  for (let i = 0; i < Math.min(40, grid.length); i++) {
+    const text = (grid[i] || []).map(c => String(c ?? '').toLowerCase()).join('|');
+    if (required.every(re => re.test(text))) return i;
+  }
+  return -1;
+}
+
+function columnLookup(header: unknown[]) {
+  const names = header.map(c => String(c ?? '').toLowerCase().replace(/\s+/g, ' ').trim());
+  return (...candidates: string[]) => {
+    for (const c of candidates) {
+      const exact = names.indexOf(c);
+      if (exact >= 0) return exact;
+      const prefix = names.findIndex(n => n.startsWith(c));
+      if (prefix >= 0) return prefix;
+    }
+    return -1;
+  };
+}
+
+const cell = (row: unknown[], i: number) => (i >= 0 ? row[i] : undefined);
+const text = (row: unknown[], i: number) => String(cell(row, i) ?? '').trim();
+
+/** FG items are the ones in the FG master (or numbered FG-); everything else is material. */
+export function stockClassOf(itemId: string, category = ''): StockClass {
+  if (fgMaster[itemId] || /^FG[-_ ]/i.test(itemId)) return 'FG';
+  return /finished|\bfg\b/i.test(category) ? 'FG' : 'RM';
+}
+
+// "As on 30/09/2026", "Stock Summary 01-09-2026 to 30-09-2026" — the last
+// date in the title block, else one in the file name.
+function reportDate(grid: unknown[][], headerRow: number, fileName: string): string | null {
+  let found: string | null = null;
+  for (let i = 0; i < headerRow; i++) {
+    for (const c of grid[i] || []) {
+      for (const m of String(c ?? '').matchAll(/\d{1,2}[-/.][A-Za-z0-9]{1,3}[-/.]\d{2,4}|\d{4}-\d{2}-\d{2}/g)) {
+        found = toIsoDate(m[0]) ?? found;
+      }
+    }
+  }
+  if (found) return found;
+  const m = fileName.match(/\d{1,2}[-_.]\d{1,2}[-_.]\d{4}|\d{4}[-_.]\d{2}[-_.]\d{2}/g);
+  return m ? toIsoDate(m[m.length - 1].replace(/_/g, '-')) : null;
+}
+
+export function isStockMovementsGrid(grid: unknown[][]): boolean {
+  return headerIndex(grid, [/\bdate\b/, /item/, /\b(in|out|inward|outward|qty|quantity)\b/]) >= 0
+    && headerIndex(grid, [/closing/]) < 0;
+}
+
+// ============================================
+// STOCK SUMMARY
+// ============================================
+
+export function parseStockSummary(data: ArrayBuffer, fileName: string): StockSummary {
+  const grid = readGrid(data);
+  const h = headerIndex(grid, [/item/, /closing|current stock|in stock/]);
+  if (h < 0) {
+    return { asOf: null, items: [], warnings: ['Not a Tranzact stock summary — expected item and closing stock columns.'] };
+  }
+  const col = columnLookup(grid[h]);
+  const c = {
+    id: col('item id', 'item code', 'sku', 'code'),
+    name: col('item name', 'item description', 'name', 'description'),
+    category: col('item category', 'category', 'item type', 'type', 'group'),
+    uom: col('uom', 'unit', 'units'),
+    opening: col('opening stock', 'opening qty', 'opening quantity', 'opening'),
+    inward: col('inward qty', 'inward quantity', 'inward', 'stock in', 'in qty'),
+    outward: col('outward qty', 'outward quantity', 'outward', 'stock out', 'out qty'),
+    closing: col('closing stock', 'closing qty', 'closing quantity', 'current stock', 'in stock', 'closing'),
+    value: col('closing value', 'stock value', 'value', 'total value', 'amount'),
+    rate: col('avg price', 'average price', 'avg. price', 'weighted average', 'rate', 'price', 'unit price'),
+    store: col('store', 'store name', 'warehouse'),
+  };
+
+  const warnings: string[] = [];
+  const items: StockSummaryItem[] = [];
+  for (const row of grid.slice(h + 1)) {
+    const itemId = text(row, c.id) || text(row, c.name);
+    if (!itemId || /^total/i.test(itemId)) continue;
+    const value = c.value >= 0 && text(row, c.value) !== '' ? parseAmount(cell(row, c.value)) : null;
+    const rate = c.rate >= 0 && text(row, c.rate) !== '' ? parseAmount(cell(row, c.rate)) : null;
+    items.push({
+      itemId,
+      itemName: text(row, c.name) || itemId,
+      stockClass: stockClassOf(itemId, text(row, c.category)),
+      uom: text(row, c.uom),
+      openingQty: parseAmount(cell(row, c.opening)),
+      inwardQty: parseAmount(cell(row, c.inward)),
+      outwardQty: parseAmount(cell(row, c.outward)),
+      closingQty: parseAmount(cell(row, c.closing)),
+      closingValue: value,
+      rate,
+      ...(text(row, c.store) ? { store: text(row, c.store) } : {}),
+    });
+  }
+  if (c.value < 0 && c.rate < 0) {
+    warnings.push('The summary has no value or price column — items are valued from the movements, or the FG master price.');
+  }
+  return { asOf: reportDate(grid, h, fileName), items, warnings };
+}
+
+// ============================================
+// STOCK MOVEMENTS
+// ============================================
+
+export function parseStockMovements(data: ArrayBuffer, fileName: string): StockMovementsFile {
+  const grid = readGrid(data);
+  const h = headerIndex(grid, [/\bdate\b/, /item/, /\b(in|out|inward|outward|qty|quantity)\b/]);
+  if (h < 0) {
+    return { movements: [], from: null, to: null, warnings: [`${fileName}: not a Tranzact stock movement export — expected date, item and quantity columns.`] };
+  }
+  const col = columnLookup(grid[h]);
+  const c = {
+    date: col('date', 'transaction date', 'document date', 'posting date'),
+    id: col('item id', 'item code', 'sku', 'code'),
+    name: col('item name', 'item description', 'name', 'description'),
+    category: col('item category', 'category', 'item type'),
+    type: col('transaction type', 'document type', 'voucher type', 'type', 'activity'),
+    document: col('document no', 'document number', 'reference', 'voucher no', 'doc no'),
+    inQty: col('in qty', 'inward qty', 'inward quantity', 'inward', 'stock in', 'in'),
+    outQty: col('out qty', 'outward qty', 'outward quantity', 'outward', 'stock out', 'out'),
+    qty: col('quantity', 'qty', 'change'),
+    rate: col('rate', 'unit price', 'price', 'unit cost', 'cost'),
+    value: col('value', 'amount', 'total value'),
+  };
+
+  const warnings: string[] = [];
+  const movements: StockMovement[] = [];
+  let skipped = 0;
+  for (const row of grid.slice(h + 1)) {
+    const itemId = text(row, c.id) || text(row, c.name);
+    const date = toIsoDate(cell(row, c.date));
+    if (!itemId || !date) {
+      if (itemId || text(row, c.date)) skipped++;
+      continue;
+    }
+    // Separate in / out columns, or one signed quantity
+    let inQty = Math.abs(parseAmount(cell(row, c.inQty)));
+    let outQty = Math.abs(parseAmount(cell(row, c.outQty)));
+    if (c.inQty < 0 && c.outQty < 0) {
+      const q = parseAmount(cell(row, c.qty));
+      inQty = q > 0 ? q : 0;
+      outQty = q < 0 ? -q : 0;
+    }
+    if (!inQty && !outQty) continue;
+
+    let rate = c.rate >= 0 && text(row, c.rate) !== '' ? Math.abs(parseAmount(cell(row, c.rate))) : null;
+    if (rate === null && c.value >= 0 && (inQty || outQty)) {
+      const value = Math.abs(parseAmount(cell(row, c.value)));
+      rate = value ? value / (inQty || outQty) : null;
+    }
+    movements.push({
+      date,
+      itemId,
+      itemName: text(row, c.name) || itemId,
+      stockClass: stockClassOf(itemId, text(row, c.category)),
+      type: text(row, c.type),
+      document: text(row, c.document),
+      inQty,
+      outQty,
+      rate,
+    });
+  }
+  if (skipped) warnings.push(`${fileName}: ${skipped} row${skipped === 1 ? '' : 's'} without a readable date or item skipped.`);
+
+  movements.sort((a, b) => a.date.localeCompare(b.date));
+  return {
+    movements,
+    from: movements[0]?.date ?? null,
+    to: movements[movements.length - 1]?.date ?? null,
+    warnings,
+  };
+}
@@ -12,6 +12,12 @@ import misRoutes from './routes/mis.js';
 import driveRoutes from './routes/drive.js';
 import expenseBookingRoutes from './routes/expenseBooking.js';
 import sopVisualsRoutes from './routes/sopVisuals.js';
+import classificationRoutes from './routes/classification.js';
+import llmRoutes from './routes/llm.js';
+import complianceRoutes from './routes/compliance.js';
+import calendarRoutes from './routes/calendar.js';
+import taskRoutes from './routes/tasks.js';
+import { startDigestScheduler } from './services/complianceDigest.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -35,6 +41,11 @@ app.use('/api/mis', misRoutes);
 app.use('/api/drive', driveRoutes);
 app.use('/api/expense-booking', expenseBookingRoutes);
 app.use('/api/sop-visuals', sopVisualsRoutes);
+app.use('/api/classification', classificationRoutes);
+app.use('/api/llm', llmRoutes);
+app.use('/api/compliance', complianceRoutes);
+app.use('/api/calendar', calendarRoutes);
+app.use('/api/tasks', taskRoutes);
 
 // Health check
 app.get('/api/health', (req, res) => {
@@ -60,6 +71,7 @@ if (process.env.NODE_ENV === 'production') {
 }
 
 app.listen(PORT, () => {
+  startDigestScheduler();
   console.log(`
 ╔═══════════════════════════════════════════════════════════════╗
 ║         Heatronics Accounting Dashboard Server                ║
@@ -72,6 +84,11 @@ app.listen(PORT, () => {
 ║    - /api/drive           - Google Drive Integration          ║
 ║    - /api/expense-booking - AI Expense Booking Advisor        ║
 ║    - /api/sop-visuals     - SOP Visuals Registry              ║
+║    - /api/classification  - Classification Rules & AI         ║
+║    - /api/llm             - LLM provider & usage              ║
+║    - /api/compliance      - Compliance calendar & digest      ║
+║    - /api/calendar        - iCal feeds (compliance, tasks)    ║
+║    - /api/tasks           - Tasks, dependencies & close plan  ║
 ║    - /api/health          - Health check                      ║
 ╚═══════════════════════════════════════════════════════════════╝
   `);
@@ -0,0 +1,204 @@
+import { Router, Response } from 'express';
+import { complianceStore, COMPLIANCE_CATEGORIES, ComplianceCategoryKey } from '../services/complianceStore.js';
+import {
+  ComplianceCategoryItems,
+  ComplianceOccurrence,
+  addDays,
+  feedSlug,
+  isoDate,
+  loadComplianceItems,
+  loadTrackerTasks,
+  occurrencesBetween,
+  todayIst
+} from '../services/complianceCalendar.js';
+import { TaskTrackerTask } from '../services/googleSheets.js';
+import { CalendarEvent, renderCalendar } from '../services/ical.js';
+
+const router = Router();
+
+// Feeds carry the last quarter (so recent misses stay visible) and the year ahead
+const FEED_PAST_DAYS = 90;
+const FEED_AHEAD_DAYS = 365;
+const REMIND_DAYS_BEFORE = 2;
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+function sendCalendar(res: Response, fileName: string, name: string, events: CalendarEvent[]) {
+  res.set('Content-Type', 'text/calendar; charset=utf-8');
+  res.set('Content-Disposition', `inline; filename="${fileName}"`);
+  res.send(renderCalendar(name, events));
+}
+
+function handleFeedError(res: Response, err: unknown, label: string) {
+  const message = err instanceof Error ? err.message : 'Unknown error';
+  console.error(`calendar/${label} failed:`, message);
+  res.status(500).json({ error: message });
+}
+
+function complianceEvent(o: ComplianceOccurrence, today: string): CalendarEvent {
+  const done = !!o.progress?.completed;
+  const states = o.states ? ` (${o.states.join(', ')})` : '';
+  const details = [
+    `${o.categoryName} · period ${o.period}`,
+    o.item.description,
+    o.item.owner && `Owner: ${o.item.owner}`,
+    o.item.authority && `Authority: ${o.item.authority}`,
+    o.item.penalty && `Penalty: ${o.item.penalty}`,
+    o.adjustment && `Due date ${o.adjustment === 'extended' ? 'extended' : 'moved'} from ${o.statutory}: ${o.reason}`,
+    done && `Done${o.progress?.completedBy ? ` by ${o.progress.completedBy}` : ''}${o.progress?.completedAt ? ` on ${o.progress.completedAt.slice(0, 10)}` : ''}`
+  ].filter(Boolean);
+  return {
+    uid: `${o.item.id}.${o.period}${o.states ? `.${o.states.join('-')}` : ''}@heatronics-compliance`,
+    date: o.due,
+    summary: `${done ? '✓ ' : ''}${o.item.form ? `${o.item.form}: ` : ''}${o.item.title}${states}`,
+    description: details.join('\n'),
+    categories: [o.categoryName],
+    alarmDaysBefore: !done && o.due >= today ? REMIND_DAYS_BEFORE : undefined
+  };
+}
+
+async function complianceFeed(filter: (cat: ComplianceCategoryItems) => ComplianceCategoryItems) {
+  const state = await complianceStore.get();
+  const categories = (await loadComplianceItems(state)).map(filter);
+  const today = todayIst();
+  const occurrences = occurrencesBetween(categories, state, addDays(today, -FEED_PAST_DAYS), addDays(today, FEED_AHEAD_DAYS));
+  return { categories, events: occurrences.map(o => complianceEvent(o, today)) };
+}
+
+/**
+ * A recurring event from the task's schedule. Daily and ad-hoc tasks are
+ * left out — a calendar full of them is noise. A monthly task due on the
+ * 31st lands on each month's last day.
+ */
+function taskEvent(task: TaskTrackerTask, today: string): CalendarEvent | null {
+  if (task.dueDay === undefined) return null;
+  const [y, m] = today.split('-').map(Number);
+  let date: string;
+  let rrule: string;
+  if (task.frequency === 'monthly') {
+    const lastDay = new Date(Date.UTC(y, m, 0)).getUTCDate();
+    date = isoDate(y, m, Math.min(task.dueDay, lastDay));
+    rrule = `FREQ=MONTHLY;BYMONTHDAY=${task.dueDay >= 31 ? -1 : task.dueDay}`;
+  } else if (task.frequency === 'weekly' && task.dueDay >= 0 && task.dueDay <= 6) {
+    const weekday = new Date(Date.UTC(y, m - 1, Number(today.slice(8)))).getUTCDay();
+    date = addDays(today, (task.dueDay - weekday + 7) % 7);
+    rrule = `FREQ=WEEKLY;BYDAY=${WEEKDAYS[task.dueDay]}`;
+  } else {
+    return null;
+  }
+  return {
+    uid: `${task.id}@heatronics-tasks`,
+    date,
+    summary: task.title,
+    description: [task.category && `Category: ${task.category}`, task.description].filter(Boolean).join('\n'),
+    categories: task.category ? [task.category] : undefined,
+    rrule: task.isRepeatable ? rrule : undefined
+  };
+}
+
+// The subscribable feeds, for the calendar page to list
+router.get('/feeds', async (req, res) => {
+  try {
+    const state = await complianceStore.get();
+    const categories = await loadComplianceItems(state);
+    const owners = new Map<string, string>();
+    for (const cat of categories) {
+      for (const item of cat.items) if (item.owner) owners.set(feedSlug(item.owner), item.owner);
+    }
+    const tasks = await loadTrackerTasks();
+    const taskCategories = new Map<string, string>();
+    for (const t of tasks) {
+      if (t.category) taskCategories.set(feedSlug(t.category), t.category);
+      if (t.owner && !owners.has(feedSlug(t.owner))) owners.set(feedSlug(t.owner), t.owner);
+    }
+
+    res.json({
+      compliance: [
+        { label: 'All compliance', path: '/api/calendar/compliance.ics' },
+        ...categories.map(c => ({ label: c.name, path: `/api/calendar/compliance/${c.category}.ics` }))
+      ],
+      owners: [...owners].sort((a, b) => a[1].localeCompare(b[1]))
+        .map(([slug, owner]) => ({ label: owner, path: `/api/calendar/owner/${slug}.ics` })),
+      tasks: [
+        { label: 'All tasks', path: '/api/calendar/tasks.ics' },
+        ...[...taskCategories].map(([slug, category]) => ({ label: category, path: `/api/calendar/tasks/${slug}.ics` }))
+      ]
+    });
+  } catch (err) {
+    handleFeedError(res, err, 'feeds');
+  }
+});
+
+router.get('/compliance.ics', async (req, res) => {
+  try {
+    const { events } = await complianceFeed(c => c);
+    sendCalendar(res, 'compliance.ics', 'Heatronics compliance', events);
+  } catch (err) {
+    handleFeedError(res, err, 'compliance');
+  }
+});
+
+router.get('/compliance/:category.ics', async (req, res) => {
+  try {
+    const { category } = req.params;
+    if (!(COMPLIANCE_CATEGORIES as readonly string[]).includes(category)) {
+      return res.status(404).json({ error: `Unknown category ${category}` });
+    }
+    const { categories, events } = await complianceFeed(c =>
+      c.category === category ? c : { ...c, items: [] }
+    );
+    const name = categories.find(c => c.category === (category as ComplianceCategoryKey))?.name ?? category;
+    sendCalendar(res, `compliance-${category}.ics`, `Heatronics compliance — ${name}`, events);
+  } catch (err) {
+    handleFeedError(res, err, 'compliance (category)');
+  }
+});
+
+router.get('/owner/:owner.ics', async (req, res) => {
+  try {
+    const { owner } = req.params;
+    let ownerName = owner;
+    const { events } = await complianceFeed(c => ({
+      ...c,
+      items: c.items.filter(i => {
+        if (!i.owner || feedSlug(i.owner) !== owner) return false;
+        ownerName = i.owner;
+        return true;
+      })
+    }));
+    const today = todayIst();
+    for (const t of await loadTrackerTasks()) {
+      if (!t.owner || feedSlug(t.owner) !== owner) continue;
+      ownerName = t.owner;
+      const event = taskEvent(t, today);
+      if (event) events.push(event);
+    }
+    sendCalendar(res, `compliance-${owner}.ics`, `Heatronics compliance — ${ownerName}`, events);
+  } catch (err) {
+    handleFeedError(res, err, 'owner');
+  }
+});
+
+router.get('/tasks.ics', async (req, res) => {
+  try {
+    const today = todayIst();
+    const events = (await loadTrackerTasks()).map(t => taskEvent(t, today)).filter((e): e is CalendarEvent => !!e);
+    sendCalendar(res, 'tasks.ics', 'Heatronics tasks', events);
+  } catch (err) {
+    handleFeedError(res, err, 'tasks');
+  }
+});
+
+router.get('/tasks/:category.ics', async (req, res) => {
+  try {
+    const { category } = req.params;
+    const today = todayIst();
+    const tasks = (await loadTrackerTasks()).filter(t => t.category && feedSlug(t.category) === category);
+    const events = tasks.map(t => taskEvent(t, today)).filter((e): e is CalendarEvent => !!e);
+    sendCalendar(res, `tasks-${category}.ics`, `Heatronics tasks — ${tasks[0]?.category ?? category}`, events);
+  } catch (err) {
+    handleFeedError(res, err, 'tasks (category)');
+  }
+});
+
+export default router;
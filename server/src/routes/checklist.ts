@@ -2,7 +2,7 @@ import { Router } from 'express';
 
 const router = Router();
 
-interface ChecklistItem {
+export interface ChecklistItem {
   id: string;
   category: string;
   title: string;
@@ -14,7 +14,7 @@ interface ChecklistItem {
   tags: string[];
 }
 
-interface ChecklistCompletion {
+export interface ChecklistCompletion {
   id: string;
   checklistId: string;
   completedAt: string;
@@ -27,6 +27,11 @@ interface ChecklistCompletion {
 let checklists: ChecklistItem[] = getDefaultChecklists();
 let completions: ChecklistCompletion[] = [];
 
+/** Everything held here, for the move to the task engine (routes/tasks.ts). */
+export function checklistSnapshot(): { checklists: ChecklistItem[]; completions: ChecklistCompletion[] } {
+  return { checklists, completions };
+}
+
 // Get all checklists
 router.get('/', (req, res) => {
   const { category, frequency } = req.query;
@@ -0,0 +1,430 @@
+import { Router, Request, Response } from 'express';
+import { getClassificationBackend, NewClassificationRule } from '../services/classificationStore.js';
+import { MIS_CATEGORIES, SYSTEM_RULES } from '../services/classificationSeed.js';
+import { geminiClassifier, EntityToClassify, ClassificationResult, GeminiConfig } from '../services/geminiClassifier.js';
+import { ClassificationRule, MISCategory, MISConfig } from '../services/googleSheets.js';
+
+const router = Router();
+
+/** Most entities accepted by one /classify call (one Gemini prompt). */
+const MAX_BATCH = 200;
+
+const MATCH_TYPES: ClassificationRule['matchType'][] = ['exact', 'contains', 'regex'];
+const RULE_SOURCES: ClassificationRule['source'][] = ['user', 'system', 'gemini'];
+const DEFAULT_PRIORITY: Record<ClassificationRule['source'], number> = { user: 0, system: 1, gemini: 2 };
+
+function readUser(req: Request): string | undefined {
+  const header = req.get('X-User');
+  return header ? header.trim() : undefined;
+}
+
+function handleError(res: Response, err: unknown, label: string) {
+  const message = err instanceof Error ? err.message : 'Unknown error';
+  console.error(`classification/${label} failed:`, message);
+  return res.status(500).json({ error: message });
+}
+
+/** Sheet categories, or the built-in tree when MIS_Categories is empty. */
+async function loadCategories(): Promise<MISCategory[]> {
+  const { store } = await getClassificationBackend();
+  const categories = await store.getCategories();
+  return categories.length > 0 ? categories : MIS_CATEGORIES;
+}
+
+function isMatchType(v: unknown): v is ClassificationRule['matchType'] {
+  return typeof v === 'string' && (MATCH_TYPES as string[]).includes(v);
+}
+
+function isRuleSource(v: unknown): v is ClassificationRule['source'] {
+  return typeof v === 'string' && (RULE_SOURCES as string[]).includes(v);
+}
+
+/**
+ * Validate a rule body (the client's savePatternToAPI shape). Returns the
+ * rule or an error message for a 400.
+ */
+function readRule(raw: unknown, categories: MISCategory[]): NewClassificationRule | string {
+  const body = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const pattern = typeof body.pattern === 'string' ? body.pattern.trim() : '';
+  if (!pattern) return 'pattern is required';
+
+  const matchType = body.matchType ?? 'contains';
+  if (!isMatchType(matchType)) return `matchType must be one of ${MATCH_TYPES.join(', ')}`;
+  if (matchType === 'regex') {
+    try {
+      new RegExp(pattern, 'i');
+    } catch {
+      return `pattern is not a valid regular expression: ${pattern}`;
+    }
+  }
+
+  const category = categories.find(c => c.head === body.head && c.subhead === body.subhead);
+  if (!category) return `Unknown category: ${body.head} / ${body.subhead}`;
+
+  const source = body.source ?? 'user';
+  if (!isRuleSource(source)) return `source must be one of ${RULE_SOURCES.join(', ')}`;
+
+  const confidence = body.confidence ?? 100;
+  if (typeof confidence !== 'number' || confidence < 0 || confidence > 100) {
+    return 'confidence must be a number between 0 and 100';
+  }
+  const priority = body.priority ?? DEFAULT_PRIORITY[source];
+  if (typeof priority !== 'number' || !Number.isInteger(priority) || priority < 0) {
+    return 'priority must be a non-negative integer';
+  }
+
+  return {
+    ruleId: typeof body.ruleId === 'string' && body.ruleId.trim() ? body.ruleId.trim() : undefined,
+    pattern,
+    matchType,
+    head: category.head,
+    subhead: category.subhead,
+    confidence,
+    source,
+    priority,
+    active: body.active !== false,
+    createdDate: typeof body.createdDate === 'string' && body.createdDate ? body.createdDate : undefined,
+    notes: typeof body.notes === 'string' ? body.notes : '',
+  };
+}
+
+function samePattern(a: Pick<ClassificationRule, 'pattern' | 'matchType'>, b: Pick<ClassificationRule, 'pattern' | 'matchType'>): boolean {
+  return a.matchType === b.matchType && a.pattern.trim().toLowerCase() === b.pattern.trim().toLowerCase();
+}
+
+// ============================================
+// STATUS & CATEGORIES
+// ============================================
+
+router.get('/status', async (_req, res) => {
+  try {
+    const { kind, store } = await getClassificationBackend();
+    const [rules, config] = await Promise.all([store.getRules(), store.getConfig()]);
+    res.json({
+      backend: kind,
+      ai: geminiClassifier.getConfig(classifierConfig(config)),
+      rulesCount: rules.length,
+    });
+  } catch (err) {
+    handleError(res, err, 'status');
+  }
+});
+
+router.get('/categories', async (_req, res) => {
+  try {
+    res.json(await loadCategories());
+  } catch (err) {
+    handleError(res, err, 'categories');
+  }
+});
+
+// ============================================
+// RULES
+// ============================================
+
+router.get('/rules', async (_req, res) => {
+  try {
+    const { store } = await getClassificationBackend();
+    res.json(await store.getRules());
+  } catch (err) {
+    handleError(res, err, 'rules');
+  }
+});
+
+// Create a rule. The client also posts here when it re-learns a pattern it
+// already has, so a matching ruleId — or the same pattern — updates in place.
+router.post('/rules', async (req, res) => {
+  try {
+    const { store } = await getClassificationBackend();
+    const rule = readRule(req.body, await loadCategories());
+    if (typeof rule === 'string') return res.status(400).json({ error: rule });
+
+    const rules = await store.getRules();
+    const existing = rules.find(r => (rule.ruleId && r.ruleId === rule.ruleId) || samePattern(r, rule));
+    if (existing) {
+      const { ruleId: _ruleId, createdDate: _createdDate, ...updates } = rule;
+      await store.updateRule(existing.ruleId, updates);
+      return res.json({ ...existing, ...updates });
+    }
+
+    const added = await store.addRule(rule);
+    if (!added) return res.status(500).json({ error: 'Failed to save rule' });
+    res.status(201).json(added);
+  } catch (err) {
+    handleError(res, err, 'rules/create');
+  }
+});
+
+router.put('/rules/:id', async (req, res) => {
+  try {
+    const { store } = await getClassificationBackend();
+    const rule = readRule(req.body, await loadCategories());
+    if (typeof rule === 'string') return res.status(400).json({ error: rule });
+
+    const existing = (await store.getRules()).find(r => r.ruleId === req.params.id);
+    if (!existing) return res.status(404).json({ error: `Rule not found: ${req.params.id}` });
+
+    const { ruleId: _ruleId, createdDate: _createdDate, ...updates } = rule;
+    if (!(await store.updateRule(existing.ruleId, updates))) {
+      return res.status(500).json({ error: 'Failed to update rule' });
+    }
+    res.json({ ...existing, ...updates });
+  } catch (err) {
+    handleError(res, err, 'rules/update');
+  }
+});
+
+router.delete('/rules/:id', async (req, res) => {
+  try {
+    const { store } = await getClassificationBackend();
+    const exists = (await store.getRules()).some(r => r.ruleId === req.params.id);
+    if (!exists) return res.status(404).json({ error: `Rule not found: ${req.params.id}` });
+    if (!(await store.deleteRule(req.params.id))) {
+      return res.status(500).json({ error: 'Failed to delete rule' });
+    }
+    res.json({ success: true });
+  } catch (err) {
+    handleError(res, err, 'rules/delete');
+  }
+});
+
+// ============================================
+// CLASSIFY
+// ============================================
+
+function readEntities(body: unknown): EntityToClassify[] | string {
+  const raw = body && typeof body === 'object' ? (body as Record<string, unknown>).entities : undefined;
+  if (!Array.isArray(raw) || raw.length === 0) return 'entities must be a non-empty array';
+  if (raw.length > MAX_BATCH) return `At most ${MAX_BATCH} entities per request`;
+
+  const entities: EntityToClassify[] = [];
+  for (const value of raw) {
+    const item = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+    const name = typeof item.name === 'string' ? item.name.trim() : '';
+    if (!name) return 'Each entity needs a name';
+    entities.push({
+      name,
+      type: item.type === 'party' ? 'party' : 'ledger',
+      amount: typeof item.amount === 'number' ? item.amount : undefined,
+      context: typeof item.context === 'string' ? item.context : undefined,
+    });
+  }
+  return entities;
+}
+
+/** MIS_Config's AI settings, in the classifier's shape. */
+function classifierConfig(config: MISConfig): GeminiConfig {
+  return {
+    model: config.geminiModel,
+    temperature: config.geminiTemperature,
+    reviewThreshold: config.confidenceAutoAccept,
+  };
+}
+
+// Classify a batch: rules → Jaccard similarity → Gemini. Matched rules get
+// their usage bumped and every classified entity is written to the history.
+router.post('/classify', async (req, res) => {
+  try {
+    const entities = readEntities(req.body);
+    if (typeof entities === 'string') return res.status(400).json({ error: entities });
+    const period = typeof req.body.period === 'string' ? req.body.period : '';
+    const state = typeof req.body.state === 'string' ? req.body.state : '';
+
+    const { store } = await getClassificationBackend();
+    const [rules, categories, config] = await Promise.all([store.getRules(), loadCategories(), store.getConfig()]);
+
+    const results = await geminiClassifier.classifyEntities(entities, categories, rules, classifierConfig(config));
+
+    // One write each for the usage counts and the history, not one per result.
+    await store.incrementRulesUsage(results.map(r => r.ruleId).filter((id): id is string => Boolean(id)));
+    const amounts = new Map(entities.map(e => [e.name, e.amount ?? 0]));
+    await store.logClassifications(results.flatMap(result =>
+      result.head && result.subhead
+        ? [{
+            period,
+            state,
+            entity: result.entityName,
+            amount: amounts.get(result.entityName) ?? 0,
+            head: result.head,
+            subhead: result.subhead,
+            classifiedBy: result.source,
+            ruleId: result.ruleId ?? '',
+          }]
+        : []
+    ));
+
+    const summary: Record<ClassificationResult['source'] | 'needsReview', number> = {
+      rule: 0, similarity: 0, gemini: 0, none: 0, needsReview: 0,
+    };
+    for (const result of results) {
+      summary[result.source] += 1;
+      if (result.needsReview) summary.needsReview += 1;
+    }
+    res.json({ results, summary });
+  } catch (err) {
+    handleError(res, err, 'classify');
+  }
+});
+
+// ============================================
+// HISTORY
+// ============================================
+
+router.get('/history', async (req, res) => {
+  try {
+    const limit = Math.min(1000, Math.max(1, parseInt(String(req.query.limit ?? '100'), 10) || 100));
+    const { store } = await getClassificationBackend();
+    res.json(await store.getHistory(limit));
+  } catch (err) {
+    handleError(res, err, 'history');
+  }
+});
+
+// Log classifications confirmed by hand (the classify endpoint logs its own).
+router.post('/history', async (req, res) => {
+  try {
+    const entries = req.body?.entries;
+    if (!Array.isArray(entries) || entries.length === 0) {
+      return res.status(400).json({ error: 'entries must be a non-empty array' });
+    }
+    for (const entry of entries) {
+      if (typeof entry?.entity !== 'string' || typeof entry.head !== 'string' || typeof entry.subhead !== 'string') {
+        return res.status(400).json({ error: 'Each entry needs entity, head and subhead' });
+      }
+    }
+
+    const { store } = await getClassificationBackend();
+    const classifiedBy = readUser(req) || 'user';
+    await store.logClassifications(entries.map(entry => ({
+      period: typeof entry.period === 'string' ? entry.period : '',
+      state: typeof entry.state === 'string' ? entry.state : '',
+      entity: entry.entity,
+      amount: typeof entry.amount === 'number' ? entry.amount : 0,
+      head: entry.head,
+      subhead: entry.subhead,
+      classifiedBy,
+      ruleId: typeof entry.ruleId === 'string' ? entry.ruleId : '',
+    })));
+    res.status(201).json({ logged: entries.length });
+  } catch (err) {
+    handleError(res, err, 'history/log');
+  }
+});
+
+// ============================================
+// CONFIG
+// ============================================
+
+type EditableConfig = Pick<MISConfig, 'geminiPrompt' | 'geminiModel' | 'geminiTemperature' | 'confidenceAutoAccept' | 'confidenceNeedsReview'>;
+
+router.get('/config', async (_req, res) => {
+  try {
+    const { store } = await getClassificationBackend();
+    res.json(await store.getConfig());
+  } catch (err) {
+    handleError(res, err, 'config');
+  }
+});
+
+router.put('/config', async (req, res) => {
+  try {
+    const body = req.body || {};
+    const updates: Partial<EditableConfig> = {};
+
+    for (const key of ['geminiPrompt', 'geminiModel'] as const) {
+      if (body[key] === undefined) continue;
+      if (typeof body[key] !== 'string' || !body[key].trim()) {
+        return res.status(400).json({ error: `${key} must be a non-empty string` });
+      }
+      updates[key] = body[key];
+    }
+    if (body.geminiTemperature !== undefined) {
+      const t = body.geminiTemperature;
+      if (typeof t !== 'number' || t < 0 || t > 1) {
+        return res.status(400).json({ error: 'geminiTemperature must be between 0 and 1' });
+      }
+      updates.geminiTemperature = t;
+    }
+    for (const key of ['confidenceAutoAccept', 'confidenceNeedsReview'] as const) {
+      if (body[key] === undefined) continue;
+      const v = body[key];
+      if (typeof v !== 'number' || v < 0 || v > 100) {
+        return res.status(400).json({ error: `${key} must be between 0 and 100` });
+      }
+      updates[key] = v;
+    }
+
+    const { store } = await getClassificationBackend();
+    const merged = { ...(await store.getConfig()), ...updates };
+    if (merged.confidenceNeedsReview > merged.confidenceAutoAccept) {
+      return res.status(400).json({ error: 'confidenceNeedsReview cannot exceed confidenceAutoAccept' });
+    }
+    if (!(await store.saveConfig(updates))) {
+      return res.status(500).json({ error: 'Failed to save config' });
+    }
+    res.json(merged);
+  } catch (err) {
+    handleError(res, err, 'config/update');
+  }
+});
+
+// ============================================
+// MIGRATION (seed the system rules)
+// ============================================
+
+router.get('/migration/status', async (_req, res) => {
+  try {
+    const { store } = await getClassificationBackend();
+    const [config, rules] = await Promise.all([store.getConfig(), store.getRules()]);
+    res.json({
+      migrationCompleted: config.migrationCompleted,
+      lastMigrationDate: config.lastMigrationDate,
+      currentRulesCount: rules.length,
+      migrationRulesCount: SYSTEM_RULES.length,
+    });
+  } catch (err) {
+    handleError(res, err, 'migration/status');
+  }
+});
+
+// Copy the system rules into the store. Patterns already present are
+// skipped, so `force` re-runs only fill in what was deleted.
+router.post('/migration/run', async (req, res) => {
+  try {
+    const force = req.body?.force === true;
+    const { store } = await getClassificationBackend();
+    const [config, rules] = await Promise.all([store.getConfig(), store.getRules()]);
+    if (config.migrationCompleted && !force) {
+      return res.status(409).json({ error: `Migration already ran on ${config.lastMigrationDate || 'an earlier date'} — pass force to re-run` });
+    }
+
+    const missing: NewClassificationRule[] = SYSTEM_RULES
+      .map(seed => ({
+        ...seed,
+        matchType: 'regex' as const,
+        confidence: 90,
+        source: 'system' as const,
+        priority: DEFAULT_PRIORITY.system,
+        active: true,
+        notes: 'Default pattern',
+      }))
+      .filter(seed => !rules.some(r => samePattern(r, seed)));
+
+    const added = missing.length > 0 ? await store.addRulesBatch(missing) : [];
+    if (added.length < missing.length) {
+      return res.status(500).json({ error: 'Failed to write the system rules' });
+    }
+    await store.saveConfig({ migrationCompleted: true, lastMigrationDate: new Date().toISOString() });
+
+    res.json({
+      rulesAdded: added.length,
+      message: added.length > 0
+        ? `Added ${added.length} system rules (${SYSTEM_RULES.length - added.length} already present)`
+        : 'All system rules already present',
+    });
+  } catch (err) {
+    handleError(res, err, 'migration/run');
+  }
+});
+
+export default router;
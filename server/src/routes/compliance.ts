@@ -0,0 +1,397 @@
+import { Router, Request, Response } from 'express';
+import {
+  complianceStore,
+  ComplianceRevisionConflictError,
+  COMPLIANCE_CATEGORIES,
+  COMPLIANCE_FREQUENCIES,
+  EVIDENCE_KINDS,
+  GST_SCHEMES,
+  GST_STATE_GROUPS,
+  GST_STATES,
+  ComplianceCategoryKey,
+  ComplianceItem,
+  ComplianceState,
+  EvidenceKind,
+  GstScheme,
+  GstStateGroup
+} from '../services/complianceStore.js';
+import { buildDigest, sendDigest } from '../services/complianceDigest.js';
+import { loadComplianceItems } from '../services/complianceCalendar.js';
+import { googleDriveService } from '../services/googleDrive.js';
+import { isValidPeriodKey } from '../services/periodCloseStore.js';
+import { emptyMap } from '../services/jsonStore.js';
+
+const router = Router();
+
+const MAX_EVIDENCE_BYTES = 15 * 1024 * 1024;
+
+function readSavedBy(req: Request): string | undefined {
+  const header = req.get('X-User');
+  return header ? header.trim() : undefined;
+}
+
+function handleStoreError(res: Response, err: unknown, label: string) {
+  if (err instanceof ComplianceRevisionConflictError) {
+    return res.status(409).json({
+      error: err.message,
+      currentRevision: err.currentRevision,
+      baseRevision: err.baseRevision
+    });
+  }
+  const message = err instanceof Error ? err.message : 'Unknown error';
+  console.error(`compliance/${label} failed:`, message);
+  return res.status(500).json({ error: message });
+}
+
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+const DATE_PATTERN = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+// Item ids are free text in the editor, but never start with "_".
+const ITEM_ID_PATTERN = /^[A-Za-z0-9][\w.-]{0,63}$/;
+
+/** Ids of every item on the calendar: saved edits where there are some, else the templates. */
+async function knownItemIds(state?: ComplianceState): Promise<Set<string>> {
+  const categories = await loadComplianceItems(state ?? await complianceStore.get());
+  return new Set(categories.flatMap(c => c.items.map(item => item.id)));
+}
+
+async function isKnownItem(itemId: string): Promise<boolean> {
+  return (await knownItemIds()).has(itemId);
+}
+
+/** Everything but the event log, which is served per item. */
+function view(state: ComplianceState) {
+  const { events: _events, ...rest } = state;
+  return rest;
+}
+
+function isCategory(v: unknown): v is ComplianceCategoryKey {
+  return typeof v === 'string' && (COMPLIANCE_CATEGORIES as readonly string[]).includes(v);
+}
+
+function isEvidenceKind(v: unknown): v is EvidenceKind {
+  return typeof v === 'string' && (EVIDENCE_KINDS as readonly string[]).includes(v);
+}
+
+/** An item list as the editor sends it, or the reason it isn't one. */
+function readItems(raw: unknown): ComplianceItem[] | string {
+  if (!Array.isArray(raw)) return 'items must be an array';
+  const ids = new Set<string>();
+  for (const [i, item] of raw.entries()) {
+    const it = item as Record<string, unknown>;
+    if (typeof it?.id !== 'string' || !it.id.trim()) return `items[${i}].id is required`;
+    if (!ITEM_ID_PATTERN.test(it.id)) return `items[${i}].id "${it.id}" may only use letters, digits, "_", "." and "-"`;
+    if (ids.has(it.id)) return `items[${i}].id "${it.id}" is used twice`;
+    ids.add(it.id);
+    if (typeof it.title !== 'string' || !it.title.trim()) return `items[${i}].title is required`;
+    if (!(COMPLIANCE_FREQUENCIES as readonly unknown[]).includes(it.frequency)) {
+      return `items[${i}].frequency must be one of ${COMPLIANCE_FREQUENCIES.join(', ')}`;
+    }
+  }
+  return raw as ComplianceItem[];
+}
+
+// Categories (edited copies only — unedited ones come from the templates) and all progress
+router.get('/', async (req, res) => {
+  try {
+    res.json(view(await complianceStore.get()));
+  } catch (err) {
+    handleStoreError(res, err, 'get');
+  }
+});
+
+// Save a category's items: { items, baseRevision } — 409 if someone saved in between
+router.put('/categories/:category', async (req, res) => {
+  try {
+    const { category } = req.params;
+    if (!isCategory(category)) return res.status(404).json({ error: `Unknown category ${category}` });
+    const body = (req.body || {}) as Record<string, unknown>;
+    const items = readItems(body.items);
+    if (typeof items === 'string') return res.status(400).json({ error: items });
+    const baseRevision = typeof body.baseRevision === 'number' ? body.baseRevision : 0;
+
+    res.json(await complianceStore.putCategory(category, items, baseRevision, readSavedBy(req) || 'unknown'));
+  } catch (err) {
+    handleStoreError(res, err, 'categories (put)');
+  }
+});
+
+// Back to the template
+router.delete('/categories/:category', async (req, res) => {
+  try {
+    const { category } = req.params;
+    if (!isCategory(category)) return res.status(404).json({ error: `Unknown category ${category}` });
+    const state = await complianceStore.clearCategory(category, readSavedBy(req) || 'unknown');
+    if (!state) return res.status(404).json({ error: 'Category has no saved edits' });
+    res.json(state);
+  } catch (err) {
+    handleStoreError(res, err, 'categories (delete)');
+  }
+});
+
+// Mark done / not done, with an optional note: { completed, note? }
+router.put('/progress/:itemId/:period', async (req, res) => {
+  try {
+    const { itemId, period } = req.params;
+    if (!isValidPeriodKey(period)) return res.status(400).json({ error: 'period must be YYYY-MM' });
+    if (!(await isKnownItem(itemId))) return res.status(404).json({ error: `Unknown compliance item ${itemId}` });
+    const body = (req.body || {}) as Record<string, unknown>;
+    if (typeof body.completed !== 'boolean') return res.status(400).json({ error: 'completed must be true or false' });
+    if (body.note !== undefined && typeof body.note !== 'string') return res.status(400).json({ error: 'note must be a string' });
+    const by = readSavedBy(req);
+    if (!by) return res.status(400).json({ error: 'X-User is required to record progress' });
+
+    res.json(await complianceStore.setProgress(itemId, period, { completed: body.completed, note: body.note as string | undefined }, by));
+  } catch (err) {
+    handleStoreError(res, err, 'progress');
+  }
+});
+
+// Attach evidence: { kind, fileName, mimeType, dataBase64 } — the file goes to Drive
+router.post('/progress/:itemId/:period/evidence', async (req, res) => {
+  try {
+    const { itemId, period } = req.params;
+    if (!isValidPeriodKey(period)) return res.status(400).json({ error: 'period must be YYYY-MM' });
+    if (!(await isKnownItem(itemId))) return res.status(404).json({ error: `Unknown compliance item ${itemId}` });
+    const { kind, fileName, mimeType, dataBase64 } = (req.body || {}) as Record<string, unknown>;
+    if (!isEvidenceKind(kind)) return res.status(400).json({ error: `kind must be one of ${EVIDENCE_KINDS.join(', ')}` });
+    if (typeof fileName !== 'string' || !fileName.trim()) return res.status(400).json({ error: 'fileName is required' });
+    if (typeof mimeType !== 'string' || !mimeType.trim()) return res.status(400).json({ error: 'mimeType is required' });
+    if (typeof dataBase64 !== 'string' || !dataBase64) return res.status(400).json({ error: 'dataBase64 is required' });
+    const by = readSavedBy(req);
+    if (!by) return res.status(400).json({ error: 'X-User is required to attach evidence' });
+
+    const content = Buffer.from(dataBase64, 'base64');
+    if (content.length > MAX_EVIDENCE_BYTES) return res.status(413).json({ error: 'Evidence files are limited to 15 MB' });
+
+    const file = await googleDriveService.uploadEvidence(period, `${itemId} · ${fileName.trim()}`, mimeType.trim(), content);
+    res.status(201).json(await complianceStore.addEvidence(
+      itemId,
+      period,
+      { fileId: file.id, fileName: fileName.trim(), mimeType: file.mimeType, size: file.size, kind, webViewLink: file.webViewLink },
+      by
+    ));
+  } catch (err) {
+    handleStoreError(res, err, 'evidence');
+  }
+});
+
+// Detach evidence (the file stays on Drive)
+router.delete('/progress/:itemId/:period/evidence/:fileId', async (req, res) => {
+  try {
+    const { itemId, period, fileId } = req.params;
+    if (!(await isKnownItem(itemId))) return res.status(404).json({ error: `Unknown compliance item ${itemId}` });
+    const state = await complianceStore.removeEvidence(itemId, period, fileId, readSavedBy(req) || 'unknown');
+    if (!state) return res.status(404).json({ error: 'Evidence not found' });
+    res.json(state);
+  } catch (err) {
+    handleStoreError(res, err, 'evidence (delete)');
+  }
+});
+
+// Every period of one item, newest first, with its event log
+router.get('/items/:itemId/history', async (req, res) => {
+  try {
+    const { itemId } = req.params;
+    if (!(await isKnownItem(itemId))) return res.status(404).json({ error: `Unknown compliance item ${itemId}` });
+    res.json(await complianceStore.history(itemId));
+  } catch (err) {
+    handleStoreError(res, err, 'history');
+  }
+});
+
+// Add or rename a holiday: { name } — due dates on it roll to the next working day
+router.put('/holidays/:date', async (req, res) => {
+  try {
+    const { date } = req.params;
+    if (!DATE_PATTERN.test(date)) return res.status(400).json({ error: 'date must be YYYY-MM-DD' });
+    const { name } = (req.body || {}) as Record<string, unknown>;
+    if (typeof name !== 'string' || !name.trim()) return res.status(400).json({ error: 'name is required' });
+    res.json(view(await complianceStore.putHoliday(date, name.trim(), readSavedBy(req) || 'unknown')));
+  } catch (err) {
+    handleStoreError(res, err, 'holidays (put)');
+  }
+});
+
+router.delete('/holidays/:date', async (req, res) => {
+  try {
+    const { date } = req.params;
+    if (!DATE_PATTERN.test(date)) return res.status(400).json({ error: 'date must be YYYY-MM-DD' });
+    const state = await complianceStore.removeHoliday(date, readSavedBy(req) || 'unknown');
+    if (!state) return res.status(404).json({ error: 'Not a holiday on the calendar' });
+    res.json(view(state));
+  } catch (err) {
+    handleStoreError(res, err, 'holidays (delete)');
+  }
+});
+
+// Move one period's due date: { dueDate, reason } — e.g. a CBIC notification extending GSTR-3B
+router.put('/due-dates/:itemId/:period', async (req, res) => {
+  try {
+    const { itemId, period } = req.params;
+    if (!isValidPeriodKey(period)) return res.status(400).json({ error: 'period must be YYYY-MM' });
+    if (!(await isKnownItem(itemId))) return res.status(404).json({ error: `Unknown compliance item ${itemId}` });
+    const { dueDate, reason } = (req.body || {}) as Record<string, unknown>;
+    if (typeof dueDate !== 'string' || !DATE_PATTERN.test(dueDate)) return res.status(400).json({ error: 'dueDate must be YYYY-MM-DD' });
+    if (typeof reason !== 'string' || !reason.trim()) return res.status(400).json({ error: 'reason is required (e.g. the notification number)' });
+    const by = readSavedBy(req);
+    if (!by) return res.status(400).json({ error: 'X-User is required to move a due date' });
+
+    res.json(view(await complianceStore.putDueDateOverride(itemId, period, dueDate, reason.trim(), by)));
+  } catch (err) {
+    handleStoreError(res, err, 'due-dates (put)');
+  }
+});
+
+router.delete('/due-dates/:itemId/:period', async (req, res) => {
+  try {
+    const { itemId, period } = req.params;
+    if (!isValidPeriodKey(period)) return res.status(400).json({ error: 'period must be YYYY-MM' });
+    if (!(await isKnownItem(itemId))) return res.status(404).json({ error: `Unknown compliance item ${itemId}` });
+    const state = await complianceStore.removeDueDateOverride(itemId, period, readSavedBy(req) || 'unknown');
+    if (!state) return res.status(404).json({ error: 'No override for that period' });
+    res.json(view(state));
+  } catch (err) {
+    handleStoreError(res, err, 'due-dates (delete)');
+  }
+});
+
+/** A { stateCode: group } map covering every registration, or the reason it isn't one. */
+function readStateGroups(raw: unknown): Record<string, GstStateGroup> | string {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return 'gstStateGroups must be an object';
+  const given = raw as Record<string, unknown>;
+  const unknownState = Object.keys(given).find(code => !GST_STATES.includes(code));
+  if (unknownState !== undefined) return `gstStateGroups: unknown state "${unknownState}"`;
+  const groups = emptyMap<GstStateGroup>();
+  for (const code of GST_STATES) {
+    const group = given[code];
+    if (!(GST_STATE_GROUPS as readonly unknown[]).includes(group)) {
+      return `gstStateGroups.${code} must be one of ${GST_STATE_GROUPS.join(', ')}`;
+    }
+    groups[code] = group as GstStateGroup;
+  }
+  return groups;
+}
+
+// GST filing scheme: { gstScheme, gstStateGroups: { KA: 'A', HR: 'B', … } }
+router.put('/settings', async (req, res) => {
+  try {
+    const { gstScheme, gstStateGroups } = (req.body || {}) as Record<string, unknown>;
+    if (!(GST_SCHEMES as readonly unknown[]).includes(gstScheme)) {
+      return res.status(400).json({ error: `gstScheme must be one of ${GST_SCHEMES.join(', ')}` });
+    }
+    const groups = readStateGroups(gstStateGroups);
+    if (typeof groups === 'string') return res.status(400).json({ error: groups });
+    res.json(view(await complianceStore.putDueDateSettings(
+      { gstScheme: gstScheme as GstScheme, gstStateGroups: groups },
+      readSavedBy(req) || 'unknown'
+    )));
+  } catch (err) {
+    handleStoreError(res, err, 'settings');
+  }
+});
+
+// Weekly digest: recipients, schedule and the last send
+router.get('/digest', async (req, res) => {
+  try {
+    res.json((await complianceStore.get()).digest);
+  } catch (err) {
+    handleStoreError(res, err, 'digest');
+  }
+});
+
+// { enabled, recipients, weekday (0 = Sunday), hour } — India time
+router.put('/digest', async (req, res) => {
+  try {
+    const { enabled, recipients, weekday, hour } = (req.body || {}) as Record<string, unknown>;
+    if (typeof enabled !== 'boolean') return res.status(400).json({ error: 'enabled must be true or false' });
+    if (!Array.isArray(recipients) || recipients.some(r => typeof r !== 'string' || !EMAIL_PATTERN.test(r.trim()))) {
+      return res.status(400).json({ error: 'recipients must be a list of email addresses' });
+    }
+    if (!Number.isInteger(weekday) || (weekday as number) < 0 || (weekday as number) > 6) {
+      return res.status(400).json({ error: 'weekday must be 0 (Sunday) to 6 (Saturday)' });
+    }
+    if (!Number.isInteger(hour) || (hour as number) < 0 || (hour as number) > 23) {
+      return res.status(400).json({ error: 'hour must be 0 to 23' });
+    }
+    const state = await complianceStore.putDigestSettings(
+      { enabled, recipients: recipients.map(r => (r as string).trim()), weekday: weekday as number, hour: hour as number },
+      readSavedBy(req) || 'unknown'
+    );
+    res.json(state.digest);
+  } catch (err) {
+    handleStoreError(res, err, 'digest (put)');
+  }
+});
+
+// This week's digest as it would be sent
+router.get('/digest/preview', async (req, res) => {
+  try {
+    const digest = await buildDigest();
+    res.type('html').send(digest.html);
+  } catch (err) {
+    handleStoreError(res, err, 'digest (preview)');
+  }
+});
+
+// Send now, to the configured recipients or { recipients }
+router.post('/digest/send', async (req, res) => {
+  try {
+    const body = (req.body || {}) as Record<string, unknown>;
+    const recipients = Array.isArray(body.recipients)
+      ? (body.recipients as unknown[]).filter((r): r is string => typeof r === 'string' && EMAIL_PATTERN.test(r.trim())).map(r => r.trim())
+      : (await complianceStore.get()).digest.recipients;
+    if (recipients.length === 0) return res.status(400).json({ error: 'No recipients — add some to the digest first' });
+    res.json(await sendDigest(recipients));
+  } catch (err) {
+    handleStoreError(res, err, 'digest (send)');
+  }
+});
+
+// Move a browser's locally kept calendar in: { categories: { key: items }, progress }
+router.post('/import', async (req, res) => {
+  try {
+    const body = (req.body || {}) as Record<string, unknown>;
+    const rawCategories = (body.categories || {}) as Record<string, unknown>;
+    const categories: Partial<Record<ComplianceCategoryKey, ComplianceItem[]>> = {};
+    for (const [key, raw] of Object.entries(rawCategories)) {
+      if (!isCategory(key)) return res.status(400).json({ error: `Unknown category ${key}` });
+      const items = readItems(raw);
+      if (typeof items === 'string') return res.status(400).json({ error: `${key}: ${items}` });
+      categories[key] = items;
+    }
+    const rawProgress = (body.progress || {}) as Record<string, Record<string, { completed: boolean; completedAt?: string; note?: string }>>;
+    if (typeof rawProgress !== 'object' || Array.isArray(rawProgress)) return res.status(400).json({ error: 'progress must be an object' });
+    for (const periods of Object.values(rawProgress)) {
+      if (Object.keys(periods || {}).some(p => !isValidPeriodKey(p))) {
+        return res.status(400).json({ error: 'progress periods must be YYYY-MM' });
+      }
+    }
+    const by = readSavedBy(req);
+    if (!by) return res.status(400).json({ error: 'X-User is required to import' });
+
+    // Progress for items no longer on the calendar (deleted in the browser's
+    // copy, or never real) is left behind rather than failing the import.
+    const known = await knownItemIds();
+    for (const items of Object.values(categories)) items.forEach(item => known.add(item.id));
+    const progress: typeof rawProgress = {};
+    let skipped = 0;
+    for (const [itemId, periods] of Object.entries(rawProgress)) {
+      if (known.has(itemId)) progress[itemId] = periods;
+      else skipped++;
+    }
+
+    const result = await complianceStore.importLocal({ categories, progress }, by);
+    res.json({
+      state: view(result.state),
+      categories: result.categories,
+      entries: result.entries,
+      skipped
+    });
+  } catch (err) {
+    handleStoreError(res, err, 'import');
+  }
+});
+
+export default router;
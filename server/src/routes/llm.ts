@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { llm } from '../services/llmClient.js';
+
+const router = Router();
+
+// Which provider / model the AI features are using.
+router.get('/status', (_req, res) => {
+  try {
+    const provider = llm.getProvider();
+    res.json({ provider: provider.name, model: provider.model });
+  } catch (err) {
+    // Misconfigured LLM_PROVIDER — report it rather than fail the page.
+    res.json({ provider: null, model: null, error: err instanceof Error ? err.message : 'Unknown error' });
+  }
+});
+
+// Token and cost totals per feature since the server started.
+router.get('/usage', (_req, res) => {
+  res.json(llm.usage.snapshot());
+});
+
+export default router;
@@ -1,110 +1,944 @@
-import { Router } from 'express';
+import express, { Router, Request, Response } from 'express';
+import { misSessionStore, MISSession, VersionConflictError } from '../services/misSessionStore.js';
+import {
+  periodCloseStore,
+  PeriodLockedError,
+  PeriodTransitionError,
+  PeriodCloseAction,
+  PERIOD_CLOSE_ACTIONS,
+  isValidPeriodKey,
+  toPeriodKey
+} from '../services/periodCloseStore.js';
+import { reclassificationLog } from '../services/reclassificationLog.js';
+import { MIS_CATEGORIES } from '../services/classificationSeed.js';
+import { budgetStore, BudgetCell, BUDGET_ENTITIES, BUDGET_LINES } from '../services/budgetStore.js';
+import { scenarioStore, ScenarioLevers, ScenarioNameTakenError } from '../services/scenarioStore.js';
+import {
+  settlementStore,
+  SETTLEMENT_CHANNELS,
+  SETTLEMENT_NUMBERS,
+  SettlementChannel,
+  SettlementMonth
+} from '../services/settlementStore.js';
+import { gstReconStore, GST_RETURN_TYPES, GstReturnType, GstReconSummary } from '../services/gstReconStore.js';
+import {
+  tdsStore,
+  TDS_SECTIONS,
+  DEDUCTEE_TYPES,
+  TdsSection,
+  DeducteeType,
+  LowerDeductionCertificate
+} from '../services/tdsStore.js';
+import { skuMappingStore } from '../services/skuMappingStore.js';
+import {
+  deckDatasetStore,
+  DatasetBaseChangedError,
+  DatasetVersionNotFoundError,
+  DECK_CHANNELS,
+  DECK_FEEDS,
+  DeckDataset,
+  DeckFeed
+} from '../services/deckDatasetStore.js';
+import { importFeed, mergeFeed, validateDataset } from '../services/deckDatasetImport.js';
 
 const router = Router();
 
-interface MISSession {
-  id: string;
-  name: string;
-  createdAt: string;
-  updatedAt: string;
-  period: string; // e.g., "Oct 2024"
-  status: 'draft' | 'completed';
-  data: {
-    balanceSheetData?: unknown;
-    journalData?: unknown;
-    purchaseData?: unknown;
-    classifications?: unknown;
-    report?: unknown;
-  };
+/**
+ * Version the client last read, taken from `If-Match` (e.g. `If-Match: 3`)
+ * or `?expectedVersion=3`. Absent means "last write wins".
+ */
+function readExpectedVersion(req: Request): number | undefined {
+  const raw = req.get('If-Match') ?? req.query.expectedVersion;
+  if (raw === undefined || raw === '') return undefined;
+  const parsed = parseInt(String(raw).replace(/"/g, ''), 10);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+function readSavedBy(req: Request): string | undefined {
+  const header = req.get('X-User');
+  return header ? header.trim() : undefined;
+}
+
+function handleStoreError(res: Response, err: unknown, label: string) {
+  if (err instanceof PeriodLockedError) {
+    return res.status(423).json({ error: err.message, periodKey: err.periodKey, lockedBy: err.lockedBy });
+  }
+  if (err instanceof PeriodTransitionError) {
+    return res.status(409).json({ error: err.message });
+  }
+  if (err instanceof DatasetBaseChangedError) {
+    return res.status(409).json({ error: err.message, basedOn: err.basedOn, active: err.active });
+  }
+  if (err instanceof DatasetVersionNotFoundError) {
+    return res.status(404).json({ error: err.message });
+  }
+  if (err instanceof ScenarioNameTakenError) {
+    return res.status(409).json({ error: err.message });
+  }
+  if (err instanceof VersionConflictError) {
+    return res.status(409).json({
+      error: err.message,
+      currentVersion: err.currentVersion,
+      expectedVersion: err.expectedVersion
+    });
+  }
+  const message = err instanceof Error ? err.message : 'Unknown error';
+  console.error(`mis/${label} failed:`, message);
+  return res.status(500).json({ error: message });
+}
+
+/**
+ * Reject writes into a locked period. Sessions carry a display period
+ * ("Oct 2024"); unreadable labels are never locked.
+ */
+async function assertPeriodLabelWritable(period: unknown): Promise<void> {
+  const periodKey = typeof period === 'string' ? toPeriodKey(period) : null;
+  if (periodKey) await periodCloseStore.assertWritable(periodKey);
+}
+
+/**
+ * Session write guard: reject writes to a session whose period has been
+ * locked — and, when the write moves the session, into a locked target
+ * period. The store runs it inside the write, so a lock taken after the
+ * request arrived still holds.
+ */
+async function assertSessionWritable(current: MISSession, next: MISSession): Promise<void> {
+  await assertPeriodLabelWritable(current.period);
+  if (next.period !== current.period) await assertPeriodLabelWritable(next.period);
 }
 
-// In-memory storage for MIS sessions
-let misSessions: MISSession[] = [];
+/** Session periods are "YYYY-MM" or the display form ("Oct 2024"). */
+function isSessionPeriod(period: unknown): period is string {
+  const periodKey = typeof period === 'string' ? toPeriodKey(period) : null;
+  return periodKey !== null && isValidPeriodKey(periodKey);
+}
 
 // Get all MIS sessions
-router.get('/sessions', (req, res) => {
-  const sessions = misSessions.map(s => ({
-    id: s.id,
-    name: s.name,
-    createdAt: s.createdAt,
-    updatedAt: s.updatedAt,
-    period: s.period,
-    status: s.status
-  }));
-  res.json(sessions);
+router.get('/sessions', async (req, res) => {
+  try {
+    res.json(await misSessionStore.list());
+  } catch (err) {
+    handleStoreError(res, err, 'sessions');
+  }
 });
 
 // Get single session
-router.get('/sessions/:id', (req, res) => {
-  const session = misSessions.find(s => s.id === req.params.id);
-  if (!session) {
-    return res.status(404).json({ error: 'Session not found' });
+router.get('/sessions/:id', async (req, res) => {
+  try {
+    const session = await misSessionStore.get(req.params.id);
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    res.setHeader('ETag', String(session.version));
+    res.json(session);
+  } catch (err) {
+    handleStoreError(res, err, 'sessions/:id');
   }
-  res.json(session);
 });
 
 // Create new session
-router.post('/sessions', (req, res) => {
-  const { name, period } = req.body;
-
-  const session: MISSession = {
-    id: `mis-${Date.now()}`,
-    name: name || `MIS Report - ${period || new Date().toLocaleDateString()}`,
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-    period: period || new Date().toLocaleDateString('en-IN', { month: 'short', year: 'numeric' }),
-    status: 'draft',
-    data: {}
-  };
-
-  misSessions.push(session);
-  res.status(201).json(session);
+router.post('/sessions', async (req, res) => {
+  try {
+    const { name, period } = req.body || {};
+    if (period !== undefined && !isSessionPeriod(period)) {
+      return res.status(400).json({ error: 'period must be YYYY-MM or a month label like "Oct 2024"' });
+    }
+    // An omitted period defaults to the current month in the store.
+    await assertPeriodLabelWritable(period || new Date().toISOString().slice(0, 7));
+    const session = await misSessionStore.create({ name, period, savedBy: readSavedBy(req) });
+    res.status(201).json(session);
+  } catch (err) {
+    handleStoreError(res, err, 'sessions (create)');
+  }
 });
 
 // Update session
-router.put('/sessions/:id', (req, res) => {
-  const index = misSessions.findIndex(s => s.id === req.params.id);
-  if (index === -1) {
-    return res.status(404).json({ error: 'Session not found' });
+router.put('/sessions/:id', async (req, res) => {
+  try {
+    const { name, period, status, data } = req.body || {};
+    if (period !== undefined && !isSessionPeriod(period)) {
+      return res.status(400).json({ error: 'period must be YYYY-MM or a month label like "Oct 2024"' });
+    }
+    if (status !== undefined && status !== 'draft' && status !== 'completed') {
+      return res.status(400).json({ error: "status must be 'draft' or 'completed'" });
+    }
+    const session = await misSessionStore.update(
+      req.params.id,
+      {
+        ...(name !== undefined && { name }),
+        ...(period !== undefined && { period }),
+        ...(status !== undefined && { status }),
+        ...(data !== undefined && { data })
+      },
+      { expectedVersion: readExpectedVersion(req), savedBy: readSavedBy(req), guard: assertSessionWritable }
+    );
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    res.json(session);
+  } catch (err) {
+    handleStoreError(res, err, 'sessions/:id (update)');
   }
+});
 
-  misSessions[index] = {
-    ...misSessions[index],
-    ...req.body,
-    updatedAt: new Date().toISOString()
-  };
+// Save session data (partial update). Each save is kept as a version.
+router.patch('/sessions/:id/data', async (req, res) => {
+  try {
+    const session = await misSessionStore.patchData(
+      req.params.id,
+      req.body || {},
+      { expectedVersion: readExpectedVersion(req), savedBy: readSavedBy(req), guard: assertSessionWritable }
+    );
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    res.json(session);
+  } catch (err) {
+    handleStoreError(res, err, 'sessions/:id/data');
+  }
+});
+
+// List saved versions of a session (metadata only)
+router.get('/sessions/:id/versions', async (req, res) => {
+  try {
+    const versions = await misSessionStore.history(req.params.id);
+    if (!versions) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    res.json(versions);
+  } catch (err) {
+    handleStoreError(res, err, 'sessions/:id/versions');
+  }
+});
+
+// Get a full snapshot of one version
+router.get('/sessions/:id/versions/:version', async (req, res) => {
+  try {
+    const version = parseInt(req.params.version, 10);
+    if (isNaN(version)) {
+      return res.status(400).json({ error: 'Invalid version' });
+    }
+    const entry = await misSessionStore.getVersion(req.params.id, version);
+    if (!entry) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+    res.json(entry);
+  } catch (err) {
+    handleStoreError(res, err, 'sessions/:id/versions/:version');
+  }
+});
+
+// Restore an earlier version (recorded as a new version)
+router.post('/sessions/:id/versions/:version/restore', async (req, res) => {
+  try {
+    const version = parseInt(req.params.version, 10);
+    if (isNaN(version)) {
+      return res.status(400).json({ error: 'Invalid version' });
+    }
+    const session = await misSessionStore.restore(
+      req.params.id,
+      version,
+      { expectedVersion: readExpectedVersion(req), savedBy: readSavedBy(req), guard: assertSessionWritable }
+    );
+    if (!session) {
+      return res.status(404).json({ error: 'Session or version not found' });
+    }
+    res.json(session);
+  } catch (err) {
+    handleStoreError(res, err, 'sessions/:id/restore');
+  }
+});
+
+// Delete session
+router.delete('/sessions/:id', async (req, res) => {
+  try {
+    const removed = await misSessionStore.remove(req.params.id, { guard: assertSessionWritable });
+    if (!removed) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    res.status(204).send();
+  } catch (err) {
+    handleStoreError(res, err, 'sessions/:id (delete)');
+  }
+});
+
+// ============================================
+// PERIOD CLOSE (draft → under_review → locked)
+// ============================================
+
+// List every period that has left draft at least once
+router.get('/periods', async (req, res) => {
+  try {
+    res.json(await periodCloseStore.list());
+  } catch (err) {
+    handleStoreError(res, err, 'periods');
+  }
+});
+
+// Close state for one period (implicitly draft if never touched)
+router.get('/periods/:periodKey', async (req, res) => {
+  try {
+    const { periodKey } = req.params;
+    if (!isValidPeriodKey(periodKey)) {
+      return res.status(400).json({ error: 'periodKey must be YYYY-MM' });
+    }
+    res.json(await periodCloseStore.get(periodKey));
+  } catch (err) {
+    handleStoreError(res, err, 'periods/:periodKey');
+  }
+});
+
+// Move a period through the close workflow: submit / return / lock / reopen
+router.post('/periods/:periodKey/transition', async (req, res) => {
+  try {
+    const { periodKey } = req.params;
+    const { action, by, reason } = req.body || {};
+    if (!isValidPeriodKey(periodKey)) {
+      return res.status(400).json({ error: 'periodKey must be YYYY-MM' });
+    }
+    if (!PERIOD_CLOSE_ACTIONS.includes(action)) {
+      return res.status(400).json({ error: `action must be one of ${PERIOD_CLOSE_ACTIONS.join(', ')}` });
+    }
+    const actor = (typeof by === 'string' && by.trim()) || readSavedBy(req);
+    if (!actor) {
+      return res.status(400).json({ error: 'by (user) is required' });
+    }
+    const record = await periodCloseStore.transition(
+      periodKey,
+      action as PeriodCloseAction,
+      actor,
+      typeof reason === 'string' ? reason : undefined
+    );
+    res.json(record);
+  } catch (err) {
+    handleStoreError(res, err, 'periods/:periodKey/transition');
+  }
+});
+
+// Write guard for client-side pipelines (re-parse, recompute, reclassify).
+// 204 when the period is writable, 423 when it is locked.
+router.post('/periods/:periodKey/guard', async (req, res) => {
+  try {
+    const { periodKey } = req.params;
+    if (!isValidPeriodKey(periodKey)) {
+      return res.status(400).json({ error: 'periodKey must be YYYY-MM' });
+    }
+    await periodCloseStore.assertWritable(periodKey);
+    res.status(204).send();
+  } catch (err) {
+    handleStoreError(res, err, 'periods/:periodKey/guard');
+  }
+});
+
+// ============================================
+// RECLASSIFICATION LOG (append-only, per period)
+// ============================================
+
+router.get('/periods/:periodKey/reclassifications', async (req, res) => {
+  try {
+    const { periodKey } = req.params;
+    if (!isValidPeriodKey(periodKey)) {
+      return res.status(400).json({ error: 'periodKey must be YYYY-MM' });
+    }
+    res.json(await reclassificationLog.list(periodKey));
+  } catch (err) {
+    handleStoreError(res, err, 'periods/:periodKey/reclassifications');
+  }
+});
+
+router.post('/periods/:periodKey/reclassifications', async (req, res) => {
+  try {
+    const { periodKey } = req.params;
+    if (!isValidPeriodKey(periodKey)) {
+      return res.status(400).json({ error: 'periodKey must be YYYY-MM' });
+    }
+    const {
+      transactionId, matchKey, account, amount,
+      fromHead, fromSubhead, toHead, toSubhead, user, reason
+    } = req.body || {};
+    for (const [field, value] of Object.entries({ transactionId, matchKey, account, fromHead, toHead, user })) {
+      if (!value || typeof value !== 'string') {
+        return res.status(400).json({ error: `${field} is required` });
+      }
+    }
+    // The log is replayed on every recompute, so only a head / subhead the MIS has
+    if (!MIS_CATEGORIES.some(c => c.head === toHead && c.subhead === toSubhead)) {
+      return res.status(400).json({ error: `"${toHead}" / "${toSubhead}" is not an MIS head and subhead` });
+    }
+    if (fromHead === toHead && (fromSubhead || '') === (toSubhead || '')) {
+      return res.status(400).json({ error: 'from and to classification are the same' });
+    }
+    await periodCloseStore.assertWritable(periodKey);
+
+    const entry = await reclassificationLog.append(periodKey, {
+      transactionId,
+      matchKey,
+      account,
+      amount: typeof amount === 'number' ? amount : 0,
+      fromHead,
+      fromSubhead: typeof fromSubhead === 'string' ? fromSubhead : '',
+      toHead,
+      toSubhead: typeof toSubhead === 'string' ? toSubhead : '',
+      user: user.trim(),
+      reason: typeof reason === 'string' ? reason.trim() : ''
+    });
+    res.status(201).json(entry);
+  } catch (err) {
+    handleStoreError(res, err, 'periods/:periodKey/reclassifications (append)');
+  }
+});
+
+// ============================================
+// BUDGET (annual operating plan, per month / entity / line)
+// ============================================
+
+router.get('/budgets', async (req, res) => {
+  try {
+    res.json(await budgetStore.get());
+  } catch (err) {
+    handleStoreError(res, err, 'budgets');
+  }
+});
+
+// Upsert a batch of budget cells: { cells: [{ monthKey, entity, line, value }], by }
+router.put('/budgets', async (req, res) => {
+  try {
+    const { cells, by } = req.body || {};
+    if (!Array.isArray(cells) || cells.length === 0) {
+      return res.status(400).json({ error: 'cells must be a non-empty array' });
+    }
+    for (const cell of cells as BudgetCell[]) {
+      if (!cell || !isValidPeriodKey(cell.monthKey)) {
+        return res.status(400).json({ error: 'monthKey must be YYYY-MM' });
+      }
+      if (typeof cell.entity !== 'string' || !BUDGET_ENTITIES.includes(cell.entity)) {
+        return res.status(400).json({ error: `entity must be one of ${BUDGET_ENTITIES.join(', ')}` });
+      }
+      if (typeof cell.line !== 'string' || !BUDGET_LINES.includes(cell.line)) {
+        return res.status(400).json({ error: `line "${cell.line}" is not a MIS Sheet field` });
+      }
+      if (cell.value !== null && (typeof cell.value !== 'number' || !isFinite(cell.value))) {
+        return res.status(400).json({ error: `value for ${cell.monthKey} ${cell.entity} ${cell.line} must be a number or null` });
+      }
+    }
+    const actor = (typeof by === 'string' && by.trim()) || readSavedBy(req) || 'unknown';
+    res.json(await budgetStore.apply(cells as BudgetCell[], actor));
+  } catch (err) {
+    handleStoreError(res, err, 'budgets (put)');
+  }
+});
+
+// ============================================
+// SCENARIOS (named what-if levers over a base period)
+// ============================================
+
+const LEVER_MAPS = ['growth', 'adSpend', 'feeRate'] as const;
+
+/** Validate a { name, levers } body; returns an error message or the cleaned input. */
+function readScenarioBody(body: unknown): { name: string; levers: ScenarioLevers } | string {
+  const { name, levers } = (body || {}) as { name?: unknown; levers?: Record<string, unknown> };
+  if (typeof name !== 'string' || !name.trim()) return 'name is required';
+  if (!levers || typeof levers !== 'object') return 'levers must be an object';
+  const isNum = (v: unknown) => typeof v === 'number' && isFinite(v);
+  const out: ScenarioLevers = { growth: {}, adSpend: {}, feeRate: {} };
+  for (const key of LEVER_MAPS) {
+    const map = levers[key] ?? {};
+    if (typeof map !== 'object' || map === null) return `levers.${key} must be an object`;
+    for (const [channel, v] of Object.entries(map)) {
+      if (!(DECK_CHANNELS as readonly string[]).includes(channel)) {
+        return `levers.${key}: unknown channel ${channel} — use ${DECK_CHANNELS.join(', ')}`;
+      }
+      if (!isNum(v)) return `levers.${key}.${channel} must be a number`;
+      out[key][channel] = v as number;
+    }
+  }
+  for (const key of ['cogsRate', 'factoryPct'] as const) {
+    if (levers[key] === undefined || levers[key] === null) continue;
+    if (!isNum(levers[key])) return `levers.${key} must be a number`;
+    out[key] = levers[key] as number;
+  }
+  return { name: name.trim(), levers: out };
+}
+
+router.get('/scenarios', async (req, res) => {
+  try {
+    res.json({ scenarios: await scenarioStore.list() });
+  } catch (err) {
+    handleStoreError(res, err, 'scenarios');
+  }
+});
+
+// Save a new scenario: { name, levers }
+router.post('/scenarios', async (req, res) => {
+  try {
+    const input = readScenarioBody(req.body);
+    if (typeof input === 'string') return res.status(400).json({ error: input });
+    res.status(201).json(await scenarioStore.create(input.name, input.levers, readSavedBy(req) || 'unknown'));
+  } catch (err) {
+    handleStoreError(res, err, 'scenarios (create)');
+  }
+});
+
+router.put('/scenarios/:id', async (req, res) => {
+  try {
+    const input = readScenarioBody(req.body);
+    if (typeof input === 'string') return res.status(400).json({ error: input });
+    const scenario = await scenarioStore.update(req.params.id, input.name, input.levers, readSavedBy(req) || 'unknown');
+    if (!scenario) return res.status(404).json({ error: 'Scenario not found' });
+    res.json(scenario);
+  } catch (err) {
+    handleStoreError(res, err, 'scenarios (update)');
+  }
+});
 
-  res.json(misSessions[index]);
+router.delete('/scenarios/:id', async (req, res) => {
+  try {
+    const removed = await scenarioStore.remove(req.params.id);
+    if (!removed) {
+      return res.status(404).json({ error: 'Scenario not found' });
+    }
+    res.status(204).send();
+  } catch (err) {
+    handleStoreError(res, err, 'scenarios (delete)');
+  }
+});
+
+// ============================================
+// SETTLEMENTS (marketplace payouts, per month / channel)
+// ============================================
+
+function isSettlementChannel(v: unknown): v is SettlementChannel {
+  return typeof v === 'string' && (SETTLEMENT_CHANNELS as readonly string[]).includes(v);
+}
+
+router.get('/settlements', async (req, res) => {
+  try {
+    res.json(await settlementStore.get());
+  } catch (err) {
+    handleStoreError(res, err, 'settlements');
+  }
+});
+
+// Replace escrow receipts for the months given: { receipts: { "2025-04": { Amazon: 123, Blinkit: 45 } } }
+router.put('/settlements/bank-receipts', async (req, res) => {
+  try {
+    const { receipts } = req.body || {};
+    if (!receipts || typeof receipts !== 'object') {
+      return res.status(400).json({ error: 'receipts must be an object' });
+    }
+    for (const [monthKey, byChannel] of Object.entries(receipts as Record<string, unknown>)) {
+      if (!isValidPeriodKey(monthKey)) return res.status(400).json({ error: 'month keys must be YYYY-MM' });
+      if (!byChannel || typeof byChannel !== 'object') {
+        return res.status(400).json({ error: `receipts.${monthKey} must be an object` });
+      }
+      for (const [channel, v] of Object.entries(byChannel)) {
+        if (!isSettlementChannel(channel)) return res.status(400).json({ error: `Unknown channel ${channel}` });
+        if (typeof v !== 'number' || !isFinite(v)) {
+          return res.status(400).json({ error: `receipts.${monthKey}.${channel} must be a number` });
+        }
+      }
+    }
+    res.json(await settlementStore.putBankReceipts(receipts, readSavedBy(req) || 'unknown'));
+  } catch (err) {
+    handleStoreError(res, err, 'settlements (bank receipts)');
+  }
+});
+
+// Replace one channel's months: { months: { "2025-04": { sales, refunds, ..., source } } }
+router.put('/settlements/:channel', async (req, res) => {
+  try {
+    const { channel } = req.params;
+    if (!isSettlementChannel(channel)) return res.status(404).json({ error: `Unknown channel ${channel}` });
+    const { months } = req.body || {};
+    if (!months || typeof months !== 'object' || Object.keys(months).length === 0) {
+      return res.status(400).json({ error: 'months must be a non-empty object' });
+    }
+    for (const [monthKey, month] of Object.entries(months as Record<string, Record<string, unknown>>)) {
+      if (!isValidPeriodKey(monthKey)) return res.status(400).json({ error: 'month keys must be YYYY-MM' });
+      for (const key of SETTLEMENT_NUMBERS) {
+        if (typeof month?.[key] !== 'number' || !isFinite(month[key] as number)) {
+          return res.status(400).json({ error: `months.${monthKey}.${key} must be a number` });
+        }
+      }
+      if (typeof month.source !== 'string') {
+        return res.status(400).json({ error: `months.${monthKey}.source must be a string` });
+      }
+    }
+    res.json(await settlementStore.putMonths(
+      channel,
+      months as Record<string, Omit<SettlementMonth, 'uploadedAt' | 'uploadedBy'>>,
+      readSavedBy(req) || 'unknown'
+    ));
+  } catch (err) {
+    handleStoreError(res, err, 'settlements (put)');
+  }
+});
+
+// ============================================
+// GST RECONCILIATION (GSTR-1 / GSTR-2B vs registers, per GSTIN / period)
+// ============================================
+
+const GSTIN_PATTERN = /^\d{2}[A-Z0-9]{13}$/;
+const GST_RECON_COUNTS = ['matched', 'mismatch', 'missingInBooks', 'missingInPortal'] as const;
+
+function isGstReturnType(v: unknown): v is GstReturnType {
+  return typeof v === 'string' && (GST_RETURN_TYPES as readonly string[]).includes(v);
+}
+
+router.get('/gst-recon', async (req, res) => {
+  try {
+    res.json(await gstReconStore.get());
+  } catch (err) {
+    handleStoreError(res, err, 'gst-recon');
+  }
 });
 
-// Save session data (partial update)
-router.patch('/sessions/:id/data', (req, res) => {
-  const index = misSessions.findIndex(s => s.id === req.params.id);
-  if (index === -1) {
-    return res.status(404).json({ error: 'Session not found' });
+// Record one reconciliation: { state, counts, bookTax, portalTax, itcAtRisk, suppliers, source }
+router.put('/gst-recon/:gstin/:period/:returnType', async (req, res) => {
+  try {
+    const { gstin, period, returnType } = req.params;
+    if (!GSTIN_PATTERN.test(gstin)) return res.status(400).json({ error: 'gstin must be a 15-character GSTIN' });
+    if (!isValidPeriodKey(period)) return res.status(400).json({ error: 'period must be YYYY-MM' });
+    if (!isGstReturnType(returnType)) return res.status(404).json({ error: `Unknown return ${returnType}` });
+
+    const body = (req.body || {}) as Record<string, unknown>;
+    if (typeof body.state !== 'string' || !body.state) {
+      return res.status(400).json({ error: 'state is required' });
+    }
+    const counts = body.counts as Record<string, unknown> | undefined;
+    for (const key of GST_RECON_COUNTS) {
+      if (typeof counts?.[key] !== 'number' || !isFinite(counts[key] as number)) {
+        return res.status(400).json({ error: `counts.${key} must be a number` });
+      }
+    }
+    for (const key of ['bookTax', 'portalTax', 'itcAtRisk'] as const) {
+      if (typeof body[key] !== 'number' || !isFinite(body[key] as number)) {
+        return res.status(400).json({ error: `${key} must be a number` });
+      }
+    }
+    if (!Array.isArray(body.suppliers)) return res.status(400).json({ error: 'suppliers must be an array' });
+    if (typeof body.source !== 'string') return res.status(400).json({ error: 'source must be a string' });
+
+    res.json(await gstReconStore.put(
+      {
+        gstin,
+        state: body.state,
+        period,
+        returnType,
+        counts: counts as unknown as GstReconSummary['counts'],
+        bookTax: body.bookTax as number,
+        portalTax: body.portalTax as number,
+        itcAtRisk: body.itcAtRisk as number,
+        suppliers: body.suppliers as GstReconSummary['suppliers'],
+        source: body.source
+      },
+      readSavedBy(req) || 'unknown'
+    ));
+  } catch (err) {
+    handleStoreError(res, err, 'gst-recon (put)');
   }
+});
+
+// ============================================
+// TDS (deductee PANs, lower-deduction certificates, challans)
+// ============================================
+
+const PAN_PATTERN = /^[A-Z]{5}\d{4}[A-Z]$/;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isTdsSection(v: unknown): v is TdsSection {
+  return typeof v === 'string' && (TDS_SECTIONS as readonly string[]).includes(v);
+}
+
+function isDeducteeType(v: unknown): v is DeducteeType {
+  return typeof v === 'string' && (DEDUCTEE_TYPES as readonly string[]).includes(v);
+}
+
+function isAmount(v: unknown): v is number {
+  return typeof v === 'number' && isFinite(v) && v >= 0;
+}
 
-  misSessions[index] = {
-    ...misSessions[index],
-    data: {
-      ...misSessions[index].data,
-      ...req.body
-    },
-    updatedAt: new Date().toISOString()
+function readCertificate(raw: unknown): LowerDeductionCertificate | null | string {
+  if (raw === null || raw === undefined) return null;
+  const c = raw as Record<string, unknown>;
+  if (typeof c.number !== 'string' || !c.number.trim()) return 'certificate.number is required';
+  if (!isTdsSection(c.section)) return `certificate.section must be one of ${TDS_SECTIONS.join(', ')}`;
+  if (!isAmount(c.rate) || c.rate > 100) return 'certificate.rate must be a percentage';
+  if (typeof c.validFrom !== 'string' || !ISO_DATE_PATTERN.test(c.validFrom)) return 'certificate.validFrom must be YYYY-MM-DD';
+  if (typeof c.validTo !== 'string' || !ISO_DATE_PATTERN.test(c.validTo)) return 'certificate.validTo must be YYYY-MM-DD';
+  if (c.validTo < c.validFrom) return 'certificate.validTo is before validFrom';
+  if (c.limit !== null && c.limit !== undefined && !isAmount(c.limit)) return 'certificate.limit must be a number or null';
+  return {
+    number: c.number.trim(),
+    section: c.section,
+    rate: c.rate,
+    validFrom: c.validFrom,
+    validTo: c.validTo,
+    limit: (c.limit as number | null | undefined) ?? null
   };
+}
 
-  res.json(misSessions[index]);
+router.get('/tds', async (req, res) => {
+  try {
+    res.json(await tdsStore.get());
+  } catch (err) {
+    handleStoreError(res, err, 'tds');
+  }
 });
 
-// Delete session
-router.delete('/sessions/:id', (req, res) => {
-  const index = misSessions.findIndex(s => s.id === req.params.id);
-  if (index === -1) {
-    return res.status(404).json({ error: 'Session not found' });
+// Save a deductee: { pan, deducteeType, certificate? }
+router.put('/tds/deductees/:party', async (req, res) => {
+  try {
+    const party = req.params.party.trim();
+    if (!party) return res.status(400).json({ error: 'party is required' });
+    const body = (req.body || {}) as Record<string, unknown>;
+    const pan = typeof body.pan === 'string' ? body.pan.trim().toUpperCase() : '';
+    if (!PAN_PATTERN.test(pan)) return res.status(400).json({ error: 'pan must be a 10-character PAN' });
+    if (!isDeducteeType(body.deducteeType)) {
+      return res.status(400).json({ error: `deducteeType must be one of ${DEDUCTEE_TYPES.join(', ')}` });
+    }
+    const certificate = readCertificate(body.certificate);
+    if (typeof certificate === 'string') return res.status(400).json({ error: certificate });
+
+    res.json(await tdsStore.putDeductee(
+      { party, pan, deducteeType: body.deducteeType, certificate },
+      readSavedBy(req) || 'unknown'
+    ));
+  } catch (err) {
+    handleStoreError(res, err, 'tds (deductee)');
+  }
+});
+
+router.delete('/tds/deductees/:party', async (req, res) => {
+  try {
+    const state = await tdsStore.removeDeductee(req.params.party, readSavedBy(req) || 'unknown');
+    if (!state) return res.status(404).json({ error: 'Deductee not found' });
+    res.json(state);
+  } catch (err) {
+    handleStoreError(res, err, 'tds (deductee delete)');
+  }
+});
+
+// Record a deposit: { section, month, bsrCode, challanSerial, depositedOn, tds, interest?, fee? }
+router.post('/tds/challans', async (req, res) => {
+  try {
+    const body = (req.body || {}) as Record<string, unknown>;
+    if (!isTdsSection(body.section)) {
+      return res.status(400).json({ error: `section must be one of ${TDS_SECTIONS.join(', ')}` });
+    }
+    if (typeof body.month !== 'string' || !isValidPeriodKey(body.month)) {
+      return res.status(400).json({ error: 'month must be YYYY-MM' });
+    }
+    if (typeof body.bsrCode !== 'string' || !/^\d{7}$/.test(body.bsrCode)) {
+      return res.status(400).json({ error: 'bsrCode must be 7 digits' });
+    }
+    if (typeof body.challanSerial !== 'string' || !/^\d{1,5}$/.test(body.challanSerial)) {
+      return res.status(400).json({ error: 'challanSerial must be up to 5 digits' });
+    }
+    if (typeof body.depositedOn !== 'string' || !ISO_DATE_PATTERN.test(body.depositedOn)) {
+      return res.status(400).json({ error: 'depositedOn must be YYYY-MM-DD' });
+    }
+    for (const key of ['tds', 'interest', 'fee'] as const) {
+      if (body[key] !== undefined && !isAmount(body[key])) {
+        return res.status(400).json({ error: `${key} must be a non-negative number` });
+      }
+    }
+    if (!isAmount(body.tds) || body.tds === 0) return res.status(400).json({ error: 'tds must be more than zero' });
+
+    res.status(201).json(await tdsStore.addChallan(
+      {
+        section: body.section,
+        month: body.month,
+        bsrCode: body.bsrCode,
+        challanSerial: body.challanSerial.padStart(5, '0'),
+        depositedOn: body.depositedOn,
+        tds: body.tds,
+        interest: (body.interest as number | undefined) ?? 0,
+        fee: (body.fee as number | undefined) ?? 0
+      },
+      readSavedBy(req) || 'unknown'
+    ));
+  } catch (err) {
+    handleStoreError(res, err, 'tds (challan)');
+  }
+});
+
+router.delete('/tds/challans/:id', async (req, res) => {
+  try {
+    const state = await tdsStore.removeChallan(req.params.id, readSavedBy(req) || 'unknown');
+    if (!state) return res.status(404).json({ error: 'Challan not found' });
+    res.json(state);
+  } catch (err) {
+    handleStoreError(res, err, 'tds (challan delete)');
+  }
+});
+
+// ============================================
+// SKU MAPPINGS (Amazon seller SKU → Tranzact FG item)
+// ============================================
+
+// Seller SKUs are free text — spaces, "/", "+" and the like all occur. Any
+// printable characters up to Amazon's 40, but not a leading "_" or space.
+const SKU_PATTERN = /^[^\p{C}\s_][^\p{C}]{0,39}$/u;
+const FG_ITEM_PATTERN = /^FG-\d{3,}$/;
+
+router.get('/sku-mappings', async (req, res) => {
+  try {
+    res.json(await skuMappingStore.get());
+  } catch (err) {
+    handleStoreError(res, err, 'sku-mappings');
+  }
+});
+
+// Map a SKU: { fgItemId }
+router.put('/sku-mappings/:sku', async (req, res) => {
+  try {
+    const sku = req.params.sku.trim();
+    if (!SKU_PATTERN.test(sku)) return res.status(400).json({ error: 'sku must be a seller SKU code' });
+    const body = (req.body || {}) as Record<string, unknown>;
+    const fgItemId = typeof body.fgItemId === 'string' ? body.fgItemId.trim().toUpperCase() : '';
+    if (!FG_ITEM_PATTERN.test(fgItemId)) return res.status(400).json({ error: 'fgItemId must be an FG item ID (FG-0001)' });
+
+    res.json(await skuMappingStore.put(sku, fgItemId, readSavedBy(req) || 'unknown'));
+  } catch (err) {
+    handleStoreError(res, err, 'sku-mappings (put)');
+  }
+});
+
+router.delete('/sku-mappings/:sku', async (req, res) => {
+  try {
+    const sku = req.params.sku.trim();
+    if (!SKU_PATTERN.test(sku)) return res.status(400).json({ error: 'sku must be a seller SKU code' });
+    const state = await skuMappingStore.remove(sku, readSavedBy(req) || 'unknown');
+    if (!state) return res.status(404).json({ error: 'No saved mapping for that SKU' });
+    res.json(state);
+  } catch (err) {
+    handleStoreError(res, err, 'sku-mappings (delete)');
+  }
+});
+
+// ============================================
+// DECK DATASETS (versioned snapshots behind the MIS deck)
+// ============================================
+
+function isDeckFeed(v: unknown): v is DeckFeed {
+  return typeof v === 'string' && (DECK_FEEDS as readonly string[]).includes(v);
+}
+
+function readVersion(raw: string): number | null {
+  const version = parseInt(raw, 10);
+  return isNaN(version) ? null : version;
+}
+
+// Version list, activation log and the active version
+router.get('/datasets', async (req, res) => {
+  try {
+    res.json(await deckDatasetStore.list());
+  } catch (err) {
+    handleStoreError(res, err, 'datasets');
+  }
+});
+
+router.get('/datasets/active', async (req, res) => {
+  try {
+    const active = await deckDatasetStore.getActive();
+    if (!active) return res.status(404).json({ error: 'No dataset published yet' });
+    res.json(active);
+  } catch (err) {
+    handleStoreError(res, err, 'datasets/active');
+  }
+});
+
+router.get('/datasets/:version', async (req, res) => {
+  try {
+    const version = readVersion(req.params.version);
+    if (version === null) return res.status(400).json({ error: 'Invalid version' });
+    const entry = await deckDatasetStore.get(version);
+    if (!entry) return res.status(404).json({ error: 'Version not found' });
+    res.json(entry);
+  } catch (err) {
+    handleStoreError(res, err, 'datasets/:version');
+  }
+});
+
+// Publish a complete dataset: { data, note? }
+router.post('/datasets', async (req, res) => {
+  try {
+    const { data, note } = req.body || {};
+    const errors = validateDataset(data);
+    if (errors.length) return res.status(400).json({ error: 'Dataset failed validation', errors });
+    const version = await deckDatasetStore.publish(
+      data as DeckDataset,
+      { note: typeof note === 'string' ? note : '', basedOn: null, feeds: [...DECK_FEEDS], sourceFiles: {}, warnings: [] },
+      readSavedBy(req) || 'unknown'
+    );
+    res.status(201).json(version);
+  } catch (err) {
+    handleStoreError(res, err, 'datasets (publish)');
+  }
+});
+
+// Import one source file (raw body) on top of the active dataset.
+// ?note=…&replaceRestated=1, file name in X-File-Name.
+router.post(
+  '/datasets/import/:feed',
+  express.raw({ type: 'application/octet-stream', limit: '50mb' }),
+  async (req, res) => {
+    try {
+      const { feed } = req.params;
+      if (!isDeckFeed(feed)) return res.status(404).json({ error: `Unknown feed ${feed}` });
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ error: 'Send the file as application/octet-stream' });
+      }
+      const active = await deckDatasetStore.getActive();
+      if (!active) {
+        return res.status(409).json({ error: 'No dataset published yet — publish a complete dataset before importing feeds' });
+      }
+
+      let sourceFile: string;
+      try {
+        sourceFile = decodeURIComponent(req.get('X-File-Name') || `${feed} upload`);
+      } catch {
+        return res.status(400).json({ error: 'X-File-Name must be URI-encoded' });
+      }
+      const imported = importFeed(feed, req.body);
+      if (imported.errors.length) {
+        return res.status(400).json({ error: `${sourceFile} failed validation`, errors: imported.errors, warnings: imported.warnings });
+      }
+      const merged = mergeFeed(active.data, feed, imported, {
+        sourceFile,
+        replaceRestated: req.query.replaceRestated === '1' || req.query.replaceRestated === 'true',
+      });
+      const errors = validateDataset(merged.data);
+      if (errors.length) return res.status(400).json({ error: 'Merged dataset failed validation', errors });
+
+      const version = await deckDatasetStore.publish(
+        merged.data,
+        {
+          note: typeof req.query.note === 'string' ? req.query.note : `${feed}: ${imported.months[0]} → ${imported.months[imported.months.length - 1]}`,
+          basedOn: active.version.version,
+          feeds: [feed],
+          sourceFiles: { ...active.version.sourceFiles, [feed]: sourceFile },
+          warnings: [...imported.warnings, ...merged.warnings],
+        },
+        readSavedBy(req) || 'unknown'
+      );
+      res.status(201).json(version);
+    } catch (err) {
+      handleStoreError(res, err, 'datasets/import');
+    }
   }
+);
 
-  misSessions.splice(index, 1);
-  res.status(204).send();
+// Roll back (or forward) to an existing version
+router.post('/datasets/:version/activate', async (req, res) => {
+  try {
+    const version = readVersion(req.params.version);
+    if (version === null) return res.status(400).json({ error: 'Invalid version' });
+    res.json(await deckDatasetStore.activate(version, readSavedBy(req) || 'unknown'));
+  } catch (err) {
+    handleStoreError(res, err, 'datasets/:version/activate');
+  }
 });
 
 // Get ignore patterns (configurable)
@@ -0,0 +1,371 @@
+import { randomUUID } from 'crypto';
+import { Router, Request, Response } from 'express';
+import {
+  taskStore,
+  importedTaskId,
+  ImportedRun,
+  ImportedTask,
+  TaskGraphError,
+  TaskRun,
+  TaskSource,
+  TaskState,
+  TaskStep,
+  UnifiedTask,
+  TASK_FREQUENCIES,
+  TASK_ID_PATTERN,
+  TASK_RUN_STATUSES,
+  TaskFrequency,
+  TaskRunStatus
+} from '../services/taskStore.js';
+import { complianceStore, ComplianceState } from '../services/complianceStore.js';
+import { loadComplianceItems } from '../services/complianceCalendar.js';
+import { checklistSnapshot } from './checklist.js';
+import { isValidPeriodKey } from '../services/periodCloseStore.js';
+import { own } from '../services/jsonStore.js';
+
+const router = Router();
+
+// "YYYY-MM-DD", "YYYY-Www", "YYYY-MM" or "once"
+const PERIOD_PATTERN = /^(\d{4}-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?|\d{4}-W(0[1-9]|[1-4]\d|5[0-3])|once)$/;
+
+// The close chain the compliance calendar's own notes describe. Everything
+// else comes over unlinked; dependencies are set on the Tasks page.
+const COMPLIANCE_CLOSE_CHAIN: Record<string, string[]> = {
+  'acc-mis-close': [],
+  'inv-monthly-update': ['acc-mis-close']
+};
+
+function readSavedBy(req: Request): string | undefined {
+  const header = req.get('X-User');
+  return header ? header.trim() : undefined;
+}
+
+function handleStoreError(res: Response, err: unknown, label: string) {
+  if (err instanceof TaskGraphError) return res.status(400).json({ error: err.message });
+  const message = err instanceof Error ? err.message : 'Unknown error';
+  console.error(`tasks/${label} failed:`, message);
+  return res.status(500).json({ error: message });
+}
+
+/** Compliance-linked tasks show the ticks kept on their compliance item. */
+function view(state: TaskState, compliance: ComplianceState): TaskState {
+  const runs = { ...state.runs };
+  for (const task of Object.values(state.tasks)) {
+    if (task.source !== 'compliance' || !task.sourceRef) continue;
+    runs[task.id] = Object.fromEntries(
+      Object.entries(own(compliance.progress, task.sourceRef) ?? {}).map(([period, p]): [string, TaskRun] => [period, {
+        status: p.completed ? 'done' : 'open',
+        stepsDone: [],
+        notes: p.note,
+        completedAt: p.completedAt,
+        completedBy: p.completedBy,
+        updatedAt: p.updatedAt,
+        updatedBy: p.updatedBy
+      }])
+    );
+  }
+  return { ...state, runs };
+}
+
+async function respond(res: Response, state: TaskState) {
+  res.json(view(state, await complianceStore.get()));
+}
+
+function isTaskId(id: string): boolean {
+  return TASK_ID_PATTERN.test(id);
+}
+
+function isMonth(v: unknown): v is number {
+  return Number.isInteger(v) && (v as number) >= 1 && (v as number) <= 12;
+}
+
+/** A task as the editor sends it, or the reason it isn't one. */
+function readTask(id: string, raw: Record<string, unknown>): Omit<UnifiedTask, 'source' | 'sourceRef' | 'createdAt' | 'updatedAt' | 'updatedBy'> | string {
+  const { title, description, category, owner, frequency, dueDay, months, durationDays, steps, dependsOn, monthClose } = raw;
+  if (typeof title !== 'string' || !title.trim()) return 'title is required';
+  if (!(TASK_FREQUENCIES as readonly unknown[]).includes(frequency)) {
+    return `frequency must be one of ${TASK_FREQUENCIES.join(', ')}`;
+  }
+  const maxDay = frequency === 'weekly' ? 6 : 31;
+  const minDay = frequency === 'weekly' ? 0 : 1;
+  if (dueDay !== undefined && dueDay !== null && (!Number.isInteger(dueDay) || (dueDay as number) < minDay || (dueDay as number) > maxDay)) {
+    return `dueDay must be ${minDay} to ${maxDay} for a ${frequency} task`;
+  }
+  if (months !== undefined && months !== null && (!Array.isArray(months) || !months.every(isMonth))) {
+    return 'months must be a list of 1-12';
+  }
+  if (durationDays !== undefined && (!Number.isInteger(durationDays) || (durationDays as number) < 1 || (durationDays as number) > 31)) {
+    return 'durationDays must be 1 to 31';
+  }
+  if (!Array.isArray(steps) || steps.some(s => typeof s?.id !== 'string' || typeof s?.title !== 'string' || !s.title.trim())) {
+    return 'steps must be a list of { id, title }';
+  }
+  if (!Array.isArray(dependsOn) || dependsOn.some(d => typeof d !== 'string' || !TASK_ID_PATTERN.test(d))) return 'dependsOn must be a list of task ids';
+  return {
+    id,
+    title: title.trim(),
+    description: typeof description === 'string' && description.trim() ? description.trim() : undefined,
+    category: typeof category === 'string' && category.trim() ? category.trim() : undefined,
+    owner: typeof owner === 'string' && owner.trim() ? owner.trim() : undefined,
+    frequency: frequency as TaskFrequency,
+    dueDay: typeof dueDay === 'number' ? dueDay : undefined,
+    months: Array.isArray(months) && months.length ? [...new Set(months as number[])].sort((a, b) => a - b) : undefined,
+    durationDays: typeof durationDays === 'number' ? durationDays : 1,
+    steps: (steps as TaskStep[]).map(s => ({ id: s.id, title: s.title.trim() })),
+    dependsOn: dependsOn as string[],
+    monthClose: monthClose === true
+  };
+}
+
+// ---------- Migration sources ----------
+
+/** The legacy Task Tracker as the browser holds it: sheet tasks plus localStorage ticks. */
+function trackerSource(body: Record<string, unknown>): { tasks: ImportedTask[]; runs: ImportedRun[] } | string {
+  const rawTasks = body.tasks;
+  const rawCompletions = body.completions ?? [];
+  if (!Array.isArray(rawTasks)) return 'tasks must be an array';
+  if (!Array.isArray(rawCompletions)) return 'completions must be an array';
+  const tasks: ImportedTask[] = [];
+  const frequencies = new Map<string, TaskFrequency>();
+  for (const raw of rawTasks as Record<string, unknown>[]) {
+    if (typeof raw?.id !== 'string' || typeof raw.title !== 'string' || !raw.title.trim()) continue;
+    if (!TASK_ID_PATTERN.test(importedTaskId('tracker', raw.id))) continue;
+    const frequency = (['daily', 'weekly', 'monthly', 'adhoc'].includes(raw.frequency as string) ? raw.frequency : 'monthly') as TaskFrequency;
+    frequencies.set(raw.id, frequency);
+    tasks.push({
+      sourceRef: raw.id,
+      title: raw.title.trim(),
+      description: typeof raw.description === 'string' && raw.description ? raw.description : undefined,
+      category: typeof raw.category === 'string' && raw.category ? raw.category : undefined,
+      frequency,
+      dueDay: typeof raw.dueDay === 'number' ? raw.dueDay : undefined,
+      steps: []
+    });
+  }
+  const runs: ImportedRun[] = [];
+  for (const c of rawCompletions as Record<string, unknown>[]) {
+    const frequency = frequencies.get(c?.taskId as string);
+    if (!frequency || typeof c.period !== 'string' || (c.status !== 'completed' && c.status !== 'skipped')) continue;
+    runs.push({
+      sourceRef: c.taskId as string,
+      // Ad-hoc ticks were keyed by the day they were made
+      period: frequency === 'adhoc' ? 'once' : c.period,
+      status: c.status === 'completed' ? 'done' : 'skipped',
+      completedAt: typeof c.completedAt === 'string' ? c.completedAt : undefined,
+      notes: typeof c.notes === 'string' && c.notes ? c.notes : undefined
+    });
+  }
+  return { tasks, runs };
+}
+
+/** /api/checklist's defaults and anything added since the server started. */
+function checklistSource(): { tasks: ImportedTask[]; runs: ImportedRun[] } {
+  const { checklists, completions } = checklistSnapshot();
+  return {
+    tasks: checklists.map(c => ({
+      sourceRef: c.id,
+      title: c.title,
+      description: c.description || undefined,
+      category: c.category,
+      owner: c.responsible || undefined,
+      frequency: c.frequency,
+      dueDay: c.dueDay,
+      steps: (c.steps ?? []).map((title, i) => ({ id: `s${i + 1}`, title })),
+      monthClose: c.id === 'monthly-mis-preparation'
+    })),
+    runs: completions.map(c => ({
+      sourceRef: c.checklistId,
+      period: c.period,
+      status: 'done',
+      completedAt: c.completedAt,
+      completedBy: c.completedBy || undefined,
+      notes: c.notes
+    }))
+  };
+}
+
+/** Every compliance item, linked — its ticks stay on the item. */
+async function complianceSource(): Promise<{ tasks: ImportedTask[]; runs: ImportedRun[] }> {
+  const categories = await loadComplianceItems(await complianceStore.get());
+  return {
+    tasks: categories.flatMap(cat => cat.items.map((item): ImportedTask => ({
+      sourceRef: item.id,
+      title: item.form ? `${item.form}: ${item.title}` : item.title,
+      description: item.description,
+      category: cat.name,
+      owner: item.owner,
+      // The calendar ticks every item once a month, whatever its frequency
+      frequency: item.frequency === 'one-time' || item.frequency === 'daily' || item.frequency === 'weekly' ? 'monthly' : item.frequency,
+      dueDay: item.dueDay,
+      months: item.frequency === 'yearly' && item.dueMonth ? [item.dueMonth] : item.months,
+      steps: [],
+      dependsOnRefs: own(COMPLIANCE_CLOSE_CHAIN, item.id),
+      monthClose: Object.hasOwn(COMPLIANCE_CLOSE_CHAIN, item.id)
+    }))),
+    runs: []
+  };
+}
+
+async function migrationSource(
+  source: string,
+  body: Record<string, unknown>
+): Promise<{ tasks: ImportedTask[]; runs: ImportedRun[] } | string> {
+  switch (source) {
+    case 'tracker':
+      return trackerSource(body);
+    case 'checklist':
+      return checklistSource();
+    case 'compliance':
+      return complianceSource();
+    default:
+      return `Unknown source ${source} — use tracker, checklist or compliance`;
+  }
+}
+
+// ---------- Routes ----------
+
+// Every task, its runs and the migrations done so far
+router.get('/', async (req, res) => {
+  try {
+    await respond(res, await taskStore.get());
+  } catch (err) {
+    handleStoreError(res, err, 'get');
+  }
+});
+
+router.post('/', async (req, res) => {
+  try {
+    const task = readTask(`task-${randomUUID()}`, (req.body || {}) as Record<string, unknown>);
+    if (typeof task === 'string') return res.status(400).json({ error: task });
+    const state = await taskStore.putTask(task, 'create', readSavedBy(req) || 'unknown');
+    if (!state) return res.status(409).json({ error: 'Task id already taken — try again' });
+    res.status(201);
+    await respond(res, state);
+  } catch (err) {
+    handleStoreError(res, err, 'create');
+  }
+});
+
+router.put('/:id', async (req, res) => {
+  try {
+    if (!isTaskId(req.params.id)) return res.status(400).json({ error: 'Not a task id' });
+    const task = readTask(req.params.id, (req.body || {}) as Record<string, unknown>);
+    if (typeof task === 'string') return res.status(400).json({ error: task });
+    const state = await taskStore.putTask(task, 'replace', readSavedBy(req) || 'unknown');
+    if (!state) return res.status(404).json({ error: 'Task not found' });
+    await respond(res, state);
+  } catch (err) {
+    handleStoreError(res, err, 'put');
+  }
+});
+
+router.delete('/:id', async (req, res) => {
+  try {
+    if (!isTaskId(req.params.id)) return res.status(400).json({ error: 'Not a task id' });
+    const state = await taskStore.removeTask(req.params.id, readSavedBy(req) || 'unknown');
+    if (!state) return res.status(404).json({ error: 'Task not found' });
+    await respond(res, state);
+  } catch (err) {
+    handleStoreError(res, err, 'delete');
+  }
+});
+
+// { status?: open | done | skipped, notes? } — compliance-linked tasks are ticked on their item
+router.put('/:id/runs/:period', async (req, res) => {
+  try {
+    const by = readSavedBy(req);
+    if (!by) return res.status(400).json({ error: 'X-User header is required' });
+    const { id, period } = req.params;
+    if (!isTaskId(id)) return res.status(400).json({ error: 'Not a task id' });
+    if (!PERIOD_PATTERN.test(period)) return res.status(400).json({ error: 'period must be YYYY-MM-DD, YYYY-Www, YYYY-MM or once' });
+    const { status, notes } = (req.body || {}) as Record<string, unknown>;
+    if (status !== undefined && !(TASK_RUN_STATUSES as readonly unknown[]).includes(status)) {
+      return res.status(400).json({ error: `status must be one of ${TASK_RUN_STATUSES.join(', ')}` });
+    }
+    if (notes !== undefined && typeof notes !== 'string') return res.status(400).json({ error: 'notes must be text' });
+
+    const { tasks } = await taskStore.get();
+    const task = own(tasks, id);
+    if (!task) return res.status(404).json({ error: 'Task not found' });
+    if (task.source === 'compliance' && task.sourceRef) {
+      if (status === 'skipped') return res.status(400).json({ error: 'Compliance items are done or not — they cannot be skipped' });
+      // The same checks as ticking it on the compliance calendar
+      if (!isValidPeriodKey(period)) return res.status(400).json({ error: 'Compliance items are ticked per month — period must be YYYY-MM' });
+      const compliance = await complianceStore.get();
+      const onCalendar = (await loadComplianceItems(compliance)).some(cat => cat.items.some(item => item.id === task.sourceRef));
+      if (!onCalendar) return res.status(404).json({ error: `Compliance item ${task.sourceRef} is no longer on the calendar` });
+      const { progress } = compliance;
+      const current = own(progress, task.sourceRef)?.[period];
+      await complianceStore.setProgress(
+        task.sourceRef,
+        period,
+        { completed: status === undefined ? !!current?.completed : status === 'done', note: notes as string | undefined },
+        by
+      );
+      return respond(res, await taskStore.get());
+    }
+    const state = await taskStore.setRun(id, period, { status: status as TaskRunStatus | undefined, notes: notes as string | undefined }, by);
+    if (!state) return res.status(404).json({ error: 'Task not found' });
+    await respond(res, state);
+  } catch (err) {
+    handleStoreError(res, err, 'run');
+  }
+});
+
+// { done: boolean }
+router.put('/:id/runs/:period/steps/:stepId', async (req, res) => {
+  try {
+    const by = readSavedBy(req);
+    if (!by) return res.status(400).json({ error: 'X-User header is required' });
+    const { id, period, stepId } = req.params;
+    if (!isTaskId(id)) return res.status(400).json({ error: 'Not a task id' });
+    if (!PERIOD_PATTERN.test(period)) return res.status(400).json({ error: 'period must be YYYY-MM-DD, YYYY-Www, YYYY-MM or once' });
+    const { done } = (req.body || {}) as Record<string, unknown>;
+    if (typeof done !== 'boolean') return res.status(400).json({ error: 'done must be true or false' });
+    const state = await taskStore.setStep(id, period, stepId, done, by);
+    if (!state) return res.status(404).json({ error: 'Task or step not found' });
+    await respond(res, state);
+  } catch (err) {
+    handleStoreError(res, err, 'step');
+  }
+});
+
+// What a migration would bring over, with the task id each one gets
+router.get('/import/:source', async (req, res) => {
+  try {
+    if (req.params.source === 'tracker') {
+      return res.status(400).json({ error: 'The Task Tracker lives in the browser — the page previews it' });
+    }
+    const found = await migrationSource(req.params.source, {});
+    if (typeof found === 'string') return res.status(400).json({ error: found });
+    res.json({
+      tasks: found.tasks.map(t => ({ ...t, id: importedTaskId(req.params.source as TaskSource, t.sourceRef) })),
+      runs: found.runs.length
+    });
+  } catch (err) {
+    handleStoreError(res, err, 'import (preview)');
+  }
+});
+
+// { refs?: string[] } picks which source tasks to bring; tracker also sends { tasks, completions }
+router.post('/import/:source', async (req, res) => {
+  try {
+    const by = readSavedBy(req);
+    if (!by) return res.status(400).json({ error: 'X-User header is required' });
+    const body = (req.body || {}) as Record<string, unknown>;
+    if (body.refs !== undefined && (!Array.isArray(body.refs) || body.refs.some(r => typeof r !== 'string'))) {
+      return res.status(400).json({ error: 'refs must be a list of source ids' });
+    }
+    const found = await migrationSource(req.params.source, body);
+    if (typeof found === 'string') return res.status(400).json({ error: found });
+    const picked = body.refs ? new Set(body.refs as string[]) : null;
+    const tasks = picked ? found.tasks.filter(t => picked.has(t.sourceRef)) : found.tasks;
+    const runs = picked ? found.runs.filter(r => picked.has(r.sourceRef)) : found.runs;
+    const { state, record } = await taskStore.importTasks(req.params.source as TaskSource, tasks, runs, by);
+    res.json({ ...view(state, await complianceStore.get()), imported: record });
+  } catch (err) {
+    handleStoreError(res, err, 'import');
+  }
+});
+
+export default router;
@@ -0,0 +1,79 @@
+import { JsonStateStore, StateBackend, createBackend, emptyMap, ownOrInit } from './jsonStore.js';
+import { DECK_CHANNELS } from './deckDatasetStore.js';
+
+// ---------------------------------------------------------------------------
+// Budget Store
+//
+// Annual operating plan figures for the MIS Sheet, per month ("YYYY-MM"),
+// per entity ("company" or a sales channel) and per line (a MIS Sheet
+// field such as "netRevenue" or "cogs"). Values are in ₹, costs as positive
+// magnitudes — the same convention as the actuals. Subtotals that aren't
+// entered are derived on the client from the cascade.
+// ---------------------------------------------------------------------------
+
+/** "company" plus the sales channels — the MIS Sheet's entity picker. */
+export const BUDGET_ENTITIES: readonly string[] = ['company', ...DECK_CHANNELS];
+
+/** MIS Sheet fields a budget can be entered for (the client's MisPoint keys). */
+export const BUDGET_LINES: readonly string[] = [
+  'qty', 'grossRevenue', 'channelMargin', 'returns', 'gst', 'ssClaim', 'discounts',
+  'netRevenue', 'cogs', 'grossMargin', 'logistics', 'cm1', 'marketing', 'cm2',
+  'branding', 'cm3', 'payroll', 'profFee', 'otherExpense', 'otherIncome', 'ebitda',
+  'openingCash', 'funding', 'closingCash', 'cashBurn', 'ebitdaBurn', 'runway',
+];
+
+export interface BudgetCell {
+  monthKey: string;
+  entity: string;
+  line: string;
+  /** null clears the cell */
+  value: number | null;
+}
+
+export interface BudgetState {
+  /** monthKey → entity → line → ₹ */
+  months: Record<string, Record<string, Record<string, number>>>;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+class BudgetStore {
+  private readonly store: JsonStateStore<BudgetState>;
+
+  constructor(backend: StateBackend<BudgetState>) {
+    this.store = new JsonStateStore(backend, () => ({ months: {}, updatedAt: '', updatedBy: '' }));
+  }
+
+  get(): Promise<BudgetState> {
+    return this.store.read();
+  }
+
+  /** Upsert (or clear) a batch of cells in one write. */
+  apply(cells: BudgetCell[], by: string): Promise<BudgetState> {
+    return this.store.mutate(state => {
+      for (const { monthKey, entity, line, value } of cells) {
+        if (!BUDGET_ENTITIES.includes(entity) || !BUDGET_LINES.includes(line)) continue;
+        const month = ownOrInit(state.months, monthKey, emptyMap<Record<string, number>>);
+        const lines = ownOrInit(month, entity, emptyMap<number>);
+        if (value === null) {
+          delete lines[line];
+          if (Object.keys(lines).length === 0) delete month[entity];
+          if (Object.keys(month).length === 0) delete state.months[monthKey];
+        } else {
+          lines[line] = value;
+        }
+      }
+      state.updatedAt = new Date().toISOString();
+      state.updatedBy = by;
+      return state;
+    });
+  }
+}
+
+export function createBudgetStore(
+  backend: StateBackend<BudgetState> = createBackend('budgets.json')
+): BudgetStore {
+  return new BudgetStore(backend);
+}
+
+export const budgetStore = createBudgetStore();
@@ -0,0 +1,131 @@
+import { MISCategory, ClassificationRule } from './googleSheets.js';
+
+// ---------------------------------------------------------------------------
+// Classification Seed
+//
+// The MIS head/subhead tree and the system rules the classification API
+// starts from. Categories mirror MIS_HEADS_CONFIG in the client's
+// misClassifier.ts; the rules are its DEFAULT_PATTERNS as regex sources and
+// are what "migration" copies into an empty rules store.
+// ---------------------------------------------------------------------------
+
+const HEADS: { head: string; type: MISCategory['type']; subheads: string[] }[] = [
+  { head: 'A. Revenue', type: 'revenue', subheads: ['Website', 'Amazon', 'Blinkit', 'Offline & OEM'] },
+  { head: 'B. Returns', type: 'expense', subheads: ['Website', 'Amazon', 'Blinkit', 'Offline & OEM'] },
+  { head: 'C. Discounts', type: 'expense', subheads: ['Website', 'Amazon', 'Blinkit', 'Offline & OEM'] },
+  { head: 'D. Taxes', type: 'expense', subheads: ['Website', 'Amazon', 'Blinkit', 'Offline & OEM'] },
+  {
+    head: 'E. COGM',
+    type: 'expense',
+    subheads: [
+      'Raw Materials & Inventory',
+      'Manufacturing Wages',
+      'Contract Wages (Mfg)',
+      'Inbound Transport',
+      'Factory Rent',
+      'Factory Electricity',
+      'Factory Maintainence',
+      'Job work',
+    ],
+  },
+  { head: 'F. Channel & Fulfillment', type: 'expense', subheads: ['Amazon Fees', 'Blinkit Fees', 'D2C Fees'] },
+  {
+    head: 'G. Sales & Marketing',
+    type: 'expense',
+    subheads: ['Facebook Ads', 'Google Ads', 'Amazon Ads', 'Blinkit Ads', 'Agency Fees'],
+  },
+  { head: 'H. Platform Costs', type: 'expense', subheads: ['Shopify Subscription', 'Wati Subscription', 'Shopflo subscription'] },
+  {
+    head: 'I. Operating Expenses',
+    type: 'expense',
+    subheads: [
+      'Salaries (Admin, Mgmt)',
+      'Miscellaneous (Travel, insurance)',
+      'Legal & CA expenses',
+      'Platform Costs (CRM, inventory softwares)',
+      'Administrative Expenses (Office Rent, utilities, admin supplies)',
+    ],
+  },
+  {
+    head: 'J. Non-Operating',
+    type: 'expense',
+    subheads: ['Less: Interest Expense', 'Less: Depreciation', 'Less: Amortization', 'Less: Income Tax'],
+  },
+  { head: 'X. Exclude', type: 'ignore', subheads: ['Personal Expenses', 'Owner Withdrawals'] },
+  { head: 'Z. Ignore', type: 'ignore', subheads: ['GST Input/Output', 'TDS', 'Bank Transfers', 'Inter-company'] },
+];
+
+export const MIS_CATEGORIES: MISCategory[] = HEADS.flatMap(({ head, type, subheads }) =>
+  subheads.map(subhead => ({
+    head,
+    subhead,
+    type,
+    plLine: head.replace(/^[A-Z]\.\s*/, ''),
+    active: true,
+  }))
+);
+
+export type SeedRule = Pick<ClassificationRule, 'pattern' | 'head' | 'subhead'>;
+
+export const SYSTEM_RULES: SeedRule[] = [
+  // COGM - Raw Materials
+  { pattern: 'opening\\s*stock', head: 'E. COGM', subhead: 'Raw Materials & Inventory' },
+  { pattern: 'closing\\s*stock', head: 'E. COGM', subhead: 'Raw Materials & Inventory' },
+  { pattern: 'purchase', head: 'E. COGM', subhead: 'Raw Materials & Inventory' },
+  { pattern: 'raw\\s*material', head: 'E. COGM', subhead: 'Raw Materials & Inventory' },
+
+  // COGM - Manufacturing
+  { pattern: 'job\\s*work', head: 'E. COGM', subhead: 'Job work' },
+  { pattern: 'manufacturing\\s*wage', head: 'E. COGM', subhead: 'Manufacturing Wages' },
+  { pattern: 'contract\\s*wage', head: 'E. COGM', subhead: 'Contract Wages (Mfg)' },
+  { pattern: 'factory\\s*rent', head: 'E. COGM', subhead: 'Factory Rent' },
+  { pattern: 'factory.*electric', head: 'E. COGM', subhead: 'Factory Electricity' },
+  { pattern: 'electricity.*water', head: 'E. COGM', subhead: 'Factory Electricity' },
+  { pattern: 'power\\s*backup', head: 'E. COGM', subhead: 'Factory Electricity' },
+  { pattern: 'factory.*maintain', head: 'E. COGM', subhead: 'Factory Maintainence' },
+  { pattern: 'consumable', head: 'E. COGM', subhead: 'Raw Materials & Inventory' },
+
+  // COGM - Transport
+  { pattern: 'freight', head: 'E. COGM', subhead: 'Inbound Transport' },
+  { pattern: 'inbound.*transport', head: 'E. COGM', subhead: 'Inbound Transport' },
+  { pattern: 'transport.*inward', head: 'E. COGM', subhead: 'Inbound Transport' },
+
+  // Channel & Fulfillment
+  { pattern: 'amazon.*fee', head: 'F. Channel & Fulfillment', subhead: 'Amazon Fees' },
+  { pattern: 'blinkit.*fee', head: 'F. Channel & Fulfillment', subhead: 'Blinkit Fees' },
+  { pattern: 'courier|shiprocket|delhivery', head: 'F. Channel & Fulfillment', subhead: 'D2C Fees' },
+
+  // Sales & Marketing
+  { pattern: 'facebook.*ad|meta.*ad', head: 'G. Sales & Marketing', subhead: 'Facebook Ads' },
+  { pattern: 'google.*ad', head: 'G. Sales & Marketing', subhead: 'Google Ads' },
+  { pattern: 'amazon.*ad', head: 'G. Sales & Marketing', subhead: 'Amazon Ads' },
+  { pattern: 'blinkit.*ad', head: 'G. Sales & Marketing', subhead: 'Blinkit Ads' },
+  { pattern: 'agency|marketing.*agency', head: 'G. Sales & Marketing', subhead: 'Agency Fees' },
+
+  // Platform Costs
+  { pattern: 'shopify', head: 'H. Platform Costs', subhead: 'Shopify Subscription' },
+  { pattern: 'wati', head: 'H. Platform Costs', subhead: 'Wati Subscription' },
+  { pattern: 'shopflo', head: 'H. Platform Costs', subhead: 'Shopflo subscription' },
+
+  // Operating Expenses
+  { pattern: 'salary|salaries', head: 'I. Operating Expenses', subhead: 'Salaries (Admin, Mgmt)' },
+  { pattern: 'travel|insurance', head: 'I. Operating Expenses', subhead: 'Miscellaneous (Travel, insurance)' },
+  { pattern: 'legal|ca\\s*fee|audit', head: 'I. Operating Expenses', subhead: 'Legal & CA expenses' },
+  { pattern: 'crm|inventory\\s*software|busy', head: 'I. Operating Expenses', subhead: 'Platform Costs (CRM, inventory softwares)' },
+  { pattern: 'office\\s*rent|admin.*expense|stationery', head: 'I. Operating Expenses', subhead: 'Administrative Expenses (Office Rent, utilities, admin supplies)' },
+
+  // Non-Operating
+  { pattern: 'interest', head: 'J. Non-Operating', subhead: 'Less: Interest Expense' },
+  { pattern: 'depreciation', head: 'J. Non-Operating', subhead: 'Less: Depreciation' },
+  { pattern: 'amortization', head: 'J. Non-Operating', subhead: 'Less: Amortization' },
+  { pattern: 'income\\s*tax', head: 'J. Non-Operating', subhead: 'Less: Income Tax' },
+
+  // Ignore
+  { pattern: 'gst|cgst|sgst|igst', head: 'Z. Ignore', subhead: 'GST Input/Output' },
+  { pattern: '^tds', head: 'Z. Ignore', subhead: 'TDS' },
+  { pattern: 'bank\\s*transfer|neft|rtgs|imps', head: 'Z. Ignore', subhead: 'Bank Transfers' },
+  { pattern: 'inter.*company|heatronics', head: 'Z. Ignore', subhead: 'Inter-company' },
+
+  // Exclude
+  { pattern: 'personal|owner.*withdraw', head: 'X. Exclude', subhead: 'Personal Expenses' },
+];
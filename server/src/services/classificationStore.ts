@@ -0,0 +1,175 @@
+import { JsonStateStore, StateBackend, createBackend } from './jsonStore.js';
+import {
+  googleSheetsService,
+  defaultMISConfig,
+  MISCategory,
+  MISConfig,
+  ClassificationRule,
+  ClassificationHistoryEntry,
+} from './googleSheets.js';
+import { MIS_CATEGORIES } from './classificationSeed.js';
+
+// ---------------------------------------------------------------------------
+// Classification Store
+//
+// Backend for /api/classification: categories, rules, config and the
+// classification history. The book of record is the MIS Google Sheet
+// (googleSheetsService); when the Sheet can't be reached — no credentials,
+// offline dev — the same operations run against a local JSON document
+// (MIS_DATA_DIR/classification.json) so the API still works end to end.
+//
+//   CLASSIFICATION_STORE=sheets (default) → Google Sheet, local on failure
+//   CLASSIFICATION_STORE=local            → local JSON only
+// ---------------------------------------------------------------------------
+
+export type NewClassificationRule = Omit<ClassificationRule, 'ruleId' | 'createdDate' | 'timesUsed'> & {
+  ruleId?: string;
+  createdDate?: string;
+};
+
+/** The operations the API needs — implemented by googleSheetsService and the local store. */
+export interface ClassificationBackend {
+  getCategories(): Promise<MISCategory[]>;
+  getRules(): Promise<ClassificationRule[]>;
+  addRule(rule: NewClassificationRule): Promise<ClassificationRule | null>;
+  addRulesBatch(rules: NewClassificationRule[]): Promise<ClassificationRule[]>;
+  updateRule(ruleId: string, updates: Partial<ClassificationRule>): Promise<boolean>;
+  deleteRule(ruleId: string): Promise<boolean>;
+  /** Bump timesUsed once per distinct rule id. */
+  incrementRulesUsage(ruleIds: string[]): Promise<void>;
+  getConfig(): Promise<MISConfig>;
+  saveConfig(config: Partial<MISConfig>): Promise<boolean>;
+  logClassifications(entries: Omit<ClassificationHistoryEntry, 'timestamp'>[]): Promise<boolean>;
+  getHistory(limit?: number): Promise<ClassificationHistoryEntry[]>;
+}
+
+export interface ClassificationState {
+  categories: MISCategory[];
+  rules: ClassificationRule[];
+  history: ClassificationHistoryEntry[];
+  config: MISConfig;
+}
+
+/** History kept by the local store; older entries are dropped. */
+const HISTORY_LIMIT = 5000;
+
+class LocalClassificationStore implements ClassificationBackend {
+  private readonly store: JsonStateStore<ClassificationState>;
+
+  constructor(backend: StateBackend<ClassificationState>) {
+    this.store = new JsonStateStore(backend, () => ({
+      categories: MIS_CATEGORIES,
+      rules: [],
+      history: [],
+      config: defaultMISConfig(),
+    }));
+  }
+
+  async getCategories(): Promise<MISCategory[]> {
+    return (await this.store.read()).categories;
+  }
+
+  async getRules(): Promise<ClassificationRule[]> {
+    return (await this.store.read()).rules;
+  }
+
+  async addRule(rule: NewClassificationRule): Promise<ClassificationRule | null> {
+    const [added] = await this.addRulesBatch([rule]);
+    return added ?? null;
+  }
+
+  addRulesBatch(rules: NewClassificationRule[]): Promise<ClassificationRule[]> {
+    return this.store.mutate(state => {
+      const now = Date.now();
+      const added = rules.map((rule, index): ClassificationRule => ({
+        ...rule,
+        ruleId: rule.ruleId || (rules.length === 1 ? `R${now}` : `R${now}_${index}`),
+        createdDate: rule.createdDate || new Date(now).toISOString(),
+        timesUsed: 0,
+      }));
+      state.rules = [...state.rules, ...added];
+      return added;
+    });
+  }
+
+  updateRule(ruleId: string, updates: Partial<ClassificationRule>): Promise<boolean> {
+    return this.store.mutate(state => {
+      const index = state.rules.findIndex(r => r.ruleId === ruleId);
+      if (index === -1) return false;
+      state.rules[index] = { ...state.rules[index], ...updates, ruleId };
+      return true;
+    });
+  }
+
+  deleteRule(ruleId: string): Promise<boolean> {
+    return this.store.mutate(state => {
+      const before = state.rules.length;
+      state.rules = state.rules.filter(r => r.ruleId !== ruleId);
+      return state.rules.length < before;
+    });
+  }
+
+  async incrementRulesUsage(ruleIds: string[]): Promise<void> {
+    if (ruleIds.length === 0) return;
+    const used = new Set(ruleIds);
+    await this.store.mutate(state => {
+      for (const rule of state.rules) {
+        if (used.has(rule.ruleId)) rule.timesUsed += 1;
+      }
+    });
+  }
+
+  async getConfig(): Promise<MISConfig> {
+    return (await this.store.read()).config;
+  }
+
+  saveConfig(config: Partial<MISConfig>): Promise<boolean> {
+    return this.store.mutate(state => {
+      state.config = { ...state.config, ...config };
+      return true;
+    });
+  }
+
+  logClassifications(entries: Omit<ClassificationHistoryEntry, 'timestamp'>[]): Promise<boolean> {
+    return this.store.mutate(state => {
+      const timestamp = new Date().toISOString();
+      state.history = [...state.history, ...entries.map(entry => ({ ...entry, timestamp }))].slice(-HISTORY_LIMIT);
+      return true;
+    });
+  }
+
+  async getHistory(limit: number = 100): Promise<ClassificationHistoryEntry[]> {
+    const { history } = await this.store.read();
+    return history.slice(-limit).reverse(); // Most recent first
+  }
+}
+
+export function createLocalClassificationStore(
+  backend: StateBackend<ClassificationState> = createBackend('classification.json')
+): ClassificationBackend {
+  return new LocalClassificationStore(backend);
+}
+
+export interface ResolvedClassificationBackend {
+  kind: 'sheets' | 'local';
+  store: ClassificationBackend;
+}
+
+let resolved: Promise<ResolvedClassificationBackend> | null = null;
+
+/** Resolve the backend once per process; the Sheet is tried first unless CLASSIFICATION_STORE=local. */
+export function getClassificationBackend(): Promise<ResolvedClassificationBackend> {
+  if (!resolved) {
+    resolved = (async () => {
+      const wanted = (process.env.CLASSIFICATION_STORE || 'sheets').toLowerCase();
+      if (wanted !== 'local' && (googleSheetsService.isInitialized() || await googleSheetsService.initialize())) {
+        return { kind: 'sheets', store: googleSheetsService };
+      }
+      if (wanted !== 'local') {
+        console.warn('Classification: Google Sheets unavailable, using the local JSON store');
+      }
+      return { kind: 'local', store: createLocalClassificationStore() };
+    })();
+  }
+  return resolved;
+}
@@ -0,0 +1,251 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  COMPLIANCE_CATEGORIES,
+  ComplianceCategoryKey,
+  ComplianceDueRule,
+  ComplianceItem,
+  ComplianceProgressEntry,
+  ComplianceState,
+  GST_STATE_GROUP_DEFAULTS,
+  GstStateGroup
+} from './complianceStore.js';
+import { googleSheetsService, TaskTrackerTask } from './googleSheets.js';
+import { taskStore, UnifiedTask } from './taskStore.js';
+
+// ---------------------------------------------------------------------------
+// Compliance Calendar
+//
+// The server-side view of the compliance calendar, for the iCal feeds and
+// the weekly digest. Items come from the same templates the client ships
+// (client/public/data/compliance, or the built copy in client/dist) with
+// the team's saved edits applied; due dates are worked out exactly as
+// client/src/data/compliance/dueDates.ts does — keep the two in step.
+//
+//   COMPLIANCE_TEMPLATE_DIR → read the templates from here instead
+// ---------------------------------------------------------------------------
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export interface ComplianceCategoryItems {
+  category: ComplianceCategoryKey;
+  name: string;
+  items: ComplianceItem[];
+}
+
+export interface ComplianceOccurrence {
+  category: ComplianceCategoryKey;
+  categoryName: string;
+  item: ComplianceItem;
+  period: string;
+  /** The rule's date, before holidays and extensions. */
+  statutory: string;
+  due: string;
+  adjustment?: 'extended' | 'holiday' | 'weekend';
+  reason?: string;
+  /** The registrations this date is for, when the item's day differs by QRMP group. */
+  states?: string[];
+  progress?: ComplianceProgressEntry;
+}
+
+async function templateDir(): Promise<string> {
+  const candidates = [
+    process.env.COMPLIANCE_TEMPLATE_DIR,
+    process.env.CLIENT_BUILD_PATH && path.join(process.env.CLIENT_BUILD_PATH, 'data/compliance'),
+    path.join(__dirname, '../../../client/dist/data/compliance'),
+    path.join(__dirname, '../../../client/public/data/compliance')
+  ].filter((d): d is string => !!d);
+  for (const dir of candidates) {
+    try {
+      await fs.access(path.join(dir, 'accounts.json'));
+      return dir;
+    } catch {
+      // try the next one
+    }
+  }
+  throw new Error(`Compliance templates not found (looked in ${candidates.join(', ')})`);
+}
+
+/** Every category's items: the saved edit where there is one, else the template. */
+export async function loadComplianceItems(state: ComplianceState): Promise<ComplianceCategoryItems[]> {
+  const dir = await templateDir();
+  return Promise.all(COMPLIANCE_CATEGORIES.map(async category => {
+    const template = JSON.parse(await fs.readFile(path.join(dir, `${category}.json`), 'utf8')) as {
+      name: string;
+      items: ComplianceItem[];
+    };
+    return { category, name: template.name, items: state.categories[category]?.items ?? template.items };
+  }));
+}
+
+/**
+ * Tasks for the feeds and the digest: the task engine's own (compliance-
+ * linked ones already show as filings), or the Task Tracker sheet until
+ * it has been migrated. Empty when neither can be read.
+ */
+export async function loadTrackerTasks(): Promise<TaskTrackerTask[]> {
+  const { tasks } = await taskStore.get();
+  const own = Object.values(tasks).filter(t => t.source !== 'compliance');
+  if (own.length > 0) {
+    return own
+      .filter((t): t is UnifiedTask & { frequency: TaskTrackerTask['frequency'] } =>
+        t.frequency === 'daily' || t.frequency === 'weekly' || t.frequency === 'monthly' || t.frequency === 'adhoc')
+      .map(t => ({
+        id: t.id,
+        title: t.title,
+        description: t.description,
+        frequency: t.frequency,
+        isRepeatable: t.frequency !== 'adhoc',
+        dueDay: t.dueDay,
+        category: t.category,
+        owner: t.owner,
+        createdAt: t.createdAt
+      }));
+  }
+  if (!googleSheetsService.isInitialized() && !(await googleSheetsService.initialize())) return [];
+  return googleSheetsService.getTasks();
+}
+
+/** "Accounts Manager" → "accounts-manager", for the owner and task-category feed URLs. */
+export function feedSlug(owner: string): string {
+  return owner.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+// ---------- Dates ----------
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isoDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function toUtc(iso: string): Date {
+  const [y, m, d] = iso.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+export function addDays(iso: string, days: number): string {
+  const d = new Date(toUtc(iso).getTime() + days * DAY_MS);
+  return isoDate(d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate());
+}
+
+export function daysBetween(a: string, b: string): number {
+  return Math.round((toUtc(b).getTime() - toUtc(a).getTime()) / DAY_MS);
+}
+
+/** Wall-clock India time (UTC+5:30, no DST) read through the UTC getters. */
+export function istClock(now: Date = new Date()): Date {
+  return new Date(now.getTime() + 330 * 60 * 1000);
+}
+
+/** Today in India, whatever zone the server runs in. */
+export function todayIst(now: Date = new Date()): string {
+  return istClock(now).toISOString().slice(0, 10);
+}
+
+// ---------- Due dates (mirrors the client engine) ----------
+
+function ruleFor(item: ComplianceItem, state: ComplianceState): ComplianceDueRule | null {
+  if (state.dueDateSettings.gstScheme === 'qrmp') {
+    if (item.qrmp === null) return null;
+    return item.qrmp ?? item;
+  }
+  return item.qrmpOnly ? null : item;
+}
+
+function isDueInMonth(rule: ComplianceDueRule, month: number): boolean {
+  switch (rule.frequency) {
+    case 'quarterly':
+    case 'half-yearly':
+      return (rule.months ?? []).includes(month);
+    case 'yearly':
+      return rule.dueMonth === month;
+    default:
+      return true;
+  }
+}
+
+/** Registrations by QRMP group; settings saved before groups were per state fall back to the statutory table. */
+function stateGroups(state: ComplianceState): [GstStateGroup, string[]][] {
+  const groups = { ...GST_STATE_GROUP_DEFAULTS, ...state.dueDateSettings.gstStateGroups };
+  const byGroup = new Map<GstStateGroup, string[]>();
+  for (const [code, group] of Object.entries(groups)) byGroup.set(group, [...(byGroup.get(group) ?? []), code]);
+  return [...byGroup].sort(([a], [b]) => a.localeCompare(b));
+}
+
+type ResolvedDate = Pick<ComplianceOccurrence, 'period' | 'statutory' | 'due' | 'adjustment' | 'reason' | 'states'>;
+
+/**
+ * The period's due dates: one, or one per QRMP group for rules whose day
+ * depends on it. An extension sets a single date for every registration.
+ */
+function resolve(item: ComplianceItem, year: number, month: number, state: ComplianceState): ResolvedDate[] {
+  const rule = ruleFor(item, state);
+  if (!rule || !isDueInMonth(rule, month)) return [];
+  if (rule.frequency === 'daily' || rule.frequency === 'weekly' || rule.frequency === 'one-time') return [];
+  const { dueDay, dueDayGroupB } = rule;
+  if (!dueDay) return [];
+  const period = `${year}-${String(month).padStart(2, '0')}`;
+  if (!dueDayGroupB || state.dueDateOverrides[item.id]?.[period]) return [resolveDay(item, year, month, dueDay, state)];
+  return stateGroups(state).map(([group, states]) => ({
+    ...resolveDay(item, year, month, group === 'B' ? dueDayGroupB : dueDay, state),
+    states
+  }));
+}
+
+function resolveDay(item: ComplianceItem, year: number, month: number, day: number, state: ComplianceState): ResolvedDate {
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const statutory = isoDate(year, month, Math.min(day, lastDay));
+  const period = `${year}-${String(month).padStart(2, '0')}`;
+
+  const override = state.dueDateOverrides[item.id]?.[period];
+  if (override) return { period, statutory, due: override.dueDate, adjustment: 'extended', reason: override.reason };
+
+  // Sundays and calendar holidays roll to the next working day
+  let due = statutory;
+  let adjustment: 'holiday' | 'weekend' | undefined;
+  let reason: string | undefined;
+  while (state.holidays[due] || toUtc(due).getUTCDay() === 0) {
+    if (!adjustment) {
+      adjustment = state.holidays[due] ? 'holiday' : 'weekend';
+      reason = state.holidays[due]?.name ?? 'Sunday';
+    }
+    due = addDays(due, 1);
+  }
+  return { period, statutory, due, adjustment, reason };
+}
+
+/** Dated filings falling due between `from` and `to` (inclusive), by due date. */
+export function occurrencesBetween(
+  categories: ComplianceCategoryItems[],
+  state: ComplianceState,
+  from: string,
+  to: string
+): ComplianceOccurrence[] {
+  const [fy, fm] = from.split('-').map(Number);
+  const [ty, tm] = to.split('-').map(Number);
+  const out: ComplianceOccurrence[] = [];
+  // Start a couple of periods early: an extension can push a period's date later
+  for (let i = -2; ; i++) {
+    const d = new Date(Date.UTC(fy, fm - 1 + i, 1));
+    const year = d.getUTCFullYear();
+    const month = d.getUTCMonth() + 1;
+    if (year > ty || (year === ty && month > tm)) break;
+    for (const cat of categories) {
+      for (const item of cat.items) {
+        for (const r of resolve(item, year, month, state)) {
+          if (r.due < from || r.due > to) continue;
+          out.push({
+            category: cat.category,
+            categoryName: cat.name,
+            item,
+            ...r,
+            progress: state.progress[item.id]?.[r.period]
+          });
+        }
+      }
+    }
+  }
+  return out.sort((a, b) => a.due.localeCompare(b.due) || a.item.title.localeCompare(b.item.title));
+}
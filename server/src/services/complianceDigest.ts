@@ -0,0 +1,222 @@
+import { complianceStore, ComplianceState } from './complianceStore.js';
+import {
+  ComplianceCategoryItems,
+  ComplianceOccurrence,
+  addDays,
+  daysBetween,
+  istClock,
+  loadComplianceItems,
+  loadTrackerTasks,
+  occurrencesBetween,
+  todayIst
+} from './complianceCalendar.js';
+import { TaskTrackerTask } from './googleSheets.js';
+import { createMailTransport, MailResult } from './mailTransport.js';
+
+// ---------------------------------------------------------------------------
+// Weekly compliance digest
+//
+// One email to the configured recipients: filings overdue (looking back
+// DIGEST_OVERDUE_DAYS), filings and Task Tracker tasks due in the next
+// DIGEST_UPCOMING_DAYS, and what was completed in the last week. The
+// scheduler checks every quarter hour and sends once per week, on the
+// configured weekday from the configured hour (India time).
+//
+//   APP_BASE_URL → links back to the dashboard in the email
+// ---------------------------------------------------------------------------
+
+export const DIGEST_UPCOMING_DAYS = 14;
+export const DIGEST_OVERDUE_DAYS = 90;
+export const DIGEST_COMPLETED_DAYS = 7;
+
+const CHECK_EVERY_MS = 15 * 60 * 1000;
+
+export interface ComplianceDigest {
+  subject: string;
+  html: string;
+  text: string;
+  counts: { overdue: number; upcoming: number; tasks: number; completed: number };
+}
+
+interface CompletedRow {
+  title: string;
+  categoryName: string;
+  period: string;
+  completedBy?: string;
+  completedAt: string;
+  evidence: number;
+}
+
+interface TaskRow {
+  task: TaskTrackerTask;
+  due: string;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function formatDate(iso: string): string {
+  const [y, m, d] = iso.split('-');
+  return `${d}/${m}/${y}`;
+}
+
+/** Dates in [from, to] a monthly or weekly task falls on. Daily and ad-hoc tasks have no date to show. */
+function taskOccurrences(tasks: TaskTrackerTask[], from: string, to: string): TaskRow[] {
+  const rows: TaskRow[] = [];
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    const [y, m, d] = day.split('-').map(Number);
+    const date = new Date(Date.UTC(y, m - 1, d));
+    const lastDay = new Date(Date.UTC(y, m, 0)).getUTCDate();
+    for (const task of tasks) {
+      if (task.dueDay === undefined) continue;
+      if (task.frequency === 'monthly' && Math.min(task.dueDay, lastDay) === d) rows.push({ task, due: day });
+      if (task.frequency === 'weekly' && task.dueDay === date.getUTCDay()) rows.push({ task, due: day });
+    }
+  }
+  return rows;
+}
+
+function completedSince(state: ComplianceState, categories: ComplianceCategoryItems[], since: string): CompletedRow[] {
+  const rows: CompletedRow[] = [];
+  for (const cat of categories) {
+    for (const item of cat.items) {
+      for (const [period, entry] of Object.entries(state.progress[item.id] ?? {})) {
+        if (!entry.completed || !entry.completedAt || entry.completedAt.slice(0, 10) < since) continue;
+        rows.push({
+          title: item.title,
+          categoryName: cat.name,
+          period,
+          completedBy: entry.completedBy,
+          completedAt: entry.completedAt,
+          evidence: entry.evidence.length
+        });
+      }
+    }
+  }
+  return rows.sort((a, b) => b.completedAt.localeCompare(a.completedAt));
+}
+
+function occurrenceLine(o: ComplianceOccurrence, today: string): string {
+  const late = daysBetween(o.due, today);
+  const when = late > 0 ? `${late} day${late === 1 ? '' : 's'} late` : late === 0 ? 'due today' : `in ${-late} days`;
+  const moved = o.adjustment ? ` (${o.adjustment === 'extended' ? 'extended' : 'moved'}: ${o.reason})` : '';
+  return `${formatDate(o.due)} · ${when}${moved}`;
+}
+
+function htmlSection(title: string, color: string, rows: string[][], empty: string): string {
+  const body = rows.length === 0
+    ? `<p style="color:#64748b;font-size:13px;margin:4px 0 16px">${escapeHtml(empty)}</p>`
+    : `<table style="width:100%;border-collapse:collapse;font-size:13px;margin:4px 0 16px">${rows
+      .map(cells => `<tr>${cells
+        .map((c, i) => `<td style="padding:6px 8px;border-bottom:1px solid #e2e8f0;${i === 0 ? 'font-weight:600;color:#0f172a' : 'color:#475569'}">${escapeHtml(c)}</td>`)
+        .join('')}</tr>`)
+      .join('')}</table>`;
+  return `<h3 style="font-size:14px;color:${color};margin:16px 0 4px">${escapeHtml(title)} (${rows.length})</h3>${body}`;
+}
+
+export async function buildDigest(today: string = todayIst()): Promise<ComplianceDigest> {
+  const state = await complianceStore.get();
+  const categories = await loadComplianceItems(state);
+  const horizon = addDays(today, DIGEST_UPCOMING_DAYS);
+  const open = occurrencesBetween(categories, state, addDays(today, -DIGEST_OVERDUE_DAYS), horizon)
+    .filter(o => !o.progress?.completed);
+  const overdue = open.filter(o => o.due < today);
+  const upcoming = open.filter(o => o.due >= today);
+  const tasks = taskOccurrences(await loadTrackerTasks(), today, horizon);
+  const completed = completedSince(state, categories, addDays(today, -DIGEST_COMPLETED_DAYS));
+
+  const filingRow = (o: ComplianceOccurrence) => [
+    `${o.item.form ? `${o.item.form} — ${o.item.title}` : o.item.title}${o.states ? ` (${o.states.join(', ')})` : ''}`,
+    o.categoryName,
+    `${o.period} · ${occurrenceLine(o, today)}`,
+    o.item.owner ?? ''
+  ];
+  const taskRow = (t: TaskRow) => [t.task.title, t.task.category || 'Task', formatDate(t.due), t.task.frequency];
+  const completedRow = (c: CompletedRow) => [
+    c.title,
+    c.categoryName,
+    `${c.period} · done ${formatDate(c.completedAt.slice(0, 10))}${c.completedBy ? ` by ${c.completedBy}` : ''}`,
+    c.evidence ? `${c.evidence} file${c.evidence === 1 ? '' : 's'}` : 'no evidence'
+  ];
+
+  const subject = `Compliance week of ${formatDate(today)}: ${overdue.length} overdue, ${upcoming.length + tasks.length} due in ${DIGEST_UPCOMING_DAYS} days`;
+  const base = process.env.APP_BASE_URL?.replace(/\/$/, '');
+  const link = base
+    ? `<p style="font-size:13px;margin:16px 0 0"><a href="${escapeHtml(`${base}/compliance`)}" style="color:#2563eb">Open the compliance calendar</a></p>`
+    : '';
+
+  const html = `<!doctype html><html><body style="font-family:-apple-system,Segoe UI,Roboto,sans-serif;max-width:720px;margin:0 auto;padding:16px">
+<h2 style="font-size:18px;color:#0f172a;margin:0 0 4px">Compliance digest</h2>
+<p style="color:#64748b;font-size:13px;margin:0 0 8px">Week of ${escapeHtml(formatDate(today))}</p>
+${htmlSection('Overdue', '#be123c', overdue.map(filingRow), 'Nothing overdue.')}
+${htmlSection(`Due in the next ${DIGEST_UPCOMING_DAYS} days`, '#0f172a', upcoming.map(filingRow), 'No filings due.')}
+${htmlSection('Tasks', '#0f172a', tasks.map(taskRow), 'No dated tasks.')}
+${htmlSection(`Completed in the last ${DIGEST_COMPLETED_DAYS} days`, '#047857', completed.map(completedRow), 'Nothing marked done.')}
+${link}
+</body></html>`;
+
+  const textSection = (title: string, rows: string[][]) =>
+    `${title} (${rows.length})\n${rows.length ? rows.map(r => `  - ${r.filter(Boolean).join(' | ')}`).join('\n') : '  (none)'}`;
+  const text = [
+    `Compliance digest — week of ${formatDate(today)}`,
+    textSection('Overdue', overdue.map(filingRow)),
+    textSection(`Due in the next ${DIGEST_UPCOMING_DAYS} days`, upcoming.map(filingRow)),
+    textSection('Tasks', tasks.map(taskRow)),
+    textSection(`Completed in the last ${DIGEST_COMPLETED_DAYS} days`, completed.map(completedRow)),
+    base ? `${base}/compliance` : ''
+  ].filter(Boolean).join('\n\n');
+
+  return {
+    subject,
+    html,
+    text,
+    counts: { overdue: overdue.length, upcoming: upcoming.length, tasks: tasks.length, completed: completed.length }
+  };
+}
+
+/** Build and send now. `week` marks the scheduled send for that week as done. */
+export async function sendDigest(
+  recipients: string[],
+  week?: string
+): Promise<MailResult & { transport: string; counts: ComplianceDigest['counts'] }> {
+  const digest = await buildDigest();
+  const transport = createMailTransport();
+  try {
+    const result = await transport.send({ to: recipients, subject: digest.subject, html: digest.html, text: digest.text });
+    await complianceStore.recordDigestSent(`Sent to ${recipients.length} via ${transport.name}: ${result.detail}`, week);
+    return { ...result, transport: transport.name, counts: digest.counts };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    await complianceStore.recordDigestFailed(`Failed via ${transport.name}: ${message}`);
+    throw err;
+  }
+}
+
+/** Monday of the week `iso` falls in. */
+function mondayOf(iso: string): string {
+  const [y, m, d] = iso.split('-').map(Number);
+  const weekday = new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+  return addDays(iso, -((weekday + 6) % 7));
+}
+
+/** Sends when it's the configured weekday and hour and this week hasn't gone yet. */
+export async function runScheduledDigest(now: Date = new Date()): Promise<boolean> {
+  const { digest } = await complianceStore.get();
+  if (!digest.enabled || digest.recipients.length === 0) return false;
+  const clock = istClock(now);
+  if (clock.getUTCDay() !== digest.weekday || clock.getUTCHours() < digest.hour) return false;
+  const week = mondayOf(todayIst(now));
+  if (digest.lastSentWeek === week) return false;
+  await sendDigest(digest.recipients, week);
+  return true;
+}
+
+export function startDigestScheduler(): void {
+  const timer = setInterval(() => {
+    runScheduledDigest().catch(err => {
+      console.error('Compliance digest failed:', err instanceof Error ? err.message : err);
+    });
+  }, CHECK_EVERY_MS);
+  timer.unref();
+}
@@ -0,0 +1,456 @@
+import { JsonStateStore, StateBackend, createBackend, emptyMap, own, ownOrInit } from './jsonStore.js';
+
+// ---------------------------------------------------------------------------
+// Compliance Store
+//
+// The compliance calendar, shared by the whole team. Categories start from
+// the templates the client ships (/data/compliance/*.json); an edit saves
+// the category's full item list here, and that copy wins from then on.
+// Progress is kept per item and period ("YYYY-MM") with who completed it
+// and the evidence filed (stored on Drive; only the file reference lives
+// here). Every change is appended to the item's event log, so each item
+// carries its history across all periods.
+//
+// The due-date engine's shared inputs live here too: the holiday calendar,
+// per-period due-date overrides (CBIC / CBDT extensions) and the GST
+// filing scheme, which picks the QRMP variant of GST items. So are the
+// weekly digest's recipients and schedule.
+// ---------------------------------------------------------------------------
+
+export const COMPLIANCE_CATEGORIES = ['accounts', 'legal', 'mca', 'iso', 'hr', 'investors', 'admin'] as const;
+export type ComplianceCategoryKey = typeof COMPLIANCE_CATEGORIES[number];
+
+export const COMPLIANCE_FREQUENCIES = ['daily', 'weekly', 'monthly', 'quarterly', 'half-yearly', 'yearly', 'one-time'] as const;
+export type ComplianceFrequency = typeof COMPLIANCE_FREQUENCIES[number];
+
+export const EVIDENCE_KINDS = ['challan', 'acknowledgement', 'other'] as const;
+export type EvidenceKind = typeof EVIDENCE_KINDS[number];
+
+export const GST_SCHEMES = ['monthly', 'qrmp'] as const;
+export type GstScheme = typeof GST_SCHEMES[number];
+
+/** QRMP 3B dates differ by state: group A files on the 22nd, group B on the 24th. */
+export const GST_STATE_GROUPS = ['A', 'B'] as const;
+export type GstStateGroup = typeof GST_STATE_GROUPS[number];
+
+/** The company's GST registrations and the QRMP group each state is in (Notification 76/2020-CT). */
+export const GST_STATE_GROUP_DEFAULTS: Readonly<Record<string, GstStateGroup>> = {
+  KA: 'A',
+  MH: 'A',
+  TG: 'A',
+  HR: 'B',
+  UP: 'B'
+};
+export const GST_STATES = Object.keys(GST_STATE_GROUP_DEFAULTS);
+
+export interface ComplianceDueRule {
+  frequency: ComplianceFrequency;
+  dueDay?: number;
+  dueMonth?: number;
+  months?: number[];
+  dueDayGroupB?: number;
+}
+
+/** Same shape as the client's ComplianceItem. */
+export interface ComplianceItem {
+  id: string;
+  title: string;
+  description?: string;
+  form?: string;
+  frequency: ComplianceFrequency;
+  dueDay?: number;
+  dueMonth?: number;
+  months?: number[];
+  owner?: string;
+  authority?: string;
+  penalty?: string;
+  notes?: string;
+  qrmp?: ComplianceDueRule | null;
+  qrmpOnly?: boolean;
+}
+
+export interface ComplianceCategoryOverride {
+  items: ComplianceItem[];
+  /** Bumped on every save; a save must name the revision it was edited from. */
+  revision: number;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface ComplianceEvidence {
+  fileId: string;           // Drive file id
+  fileName: string;
+  mimeType: string;
+  size: number;
+  kind: EvidenceKind;
+  webViewLink?: string;
+  uploadedAt: string;
+  uploadedBy: string;
+}
+
+export interface ComplianceProgressEntry {
+  completed: boolean;
+  completedAt?: string;
+  completedBy?: string;
+  note?: string;
+  evidence: ComplianceEvidence[];
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export type ComplianceEventAction =
+  | 'completed'
+  | 'reopened'
+  | 'note'
+  | 'evidence-added'
+  | 'evidence-removed'
+  | 'due-date-moved'
+  | 'due-date-restored'
+  | 'imported';
+
+export interface ComplianceEvent {
+  at: string;
+  by: string;
+  period: string;
+  action: ComplianceEventAction;
+  detail?: string;
+}
+
+export interface ComplianceHoliday {
+  name: string;
+  addedAt: string;
+  addedBy: string;
+}
+
+/** A due date moved for one period, e.g. by a CBIC notification. */
+export interface ComplianceDueDateOverride {
+  dueDate: string;          // YYYY-MM-DD
+  reason: string;
+  setAt: string;
+  setBy: string;
+}
+
+export interface ComplianceDueDateSettings {
+  gstScheme: GstScheme;
+  /** QRMP group per registration, by state code. */
+  gstStateGroups: Record<string, GstStateGroup>;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface ComplianceDigestSettings {
+  enabled: boolean;
+  recipients: string[];
+  /** 0 = Sunday … 6 = Saturday, India time */
+  weekday: number;
+  hour: number;
+  updatedAt: string;
+  updatedBy: string;
+  /** Monday (YYYY-MM-DD) of the week last sent, so a week never goes twice. */
+  lastSentWeek?: string;
+  lastSentAt?: string;
+  lastResult?: string;
+  /** The last failed send, cleared by the next one that goes through. */
+  lastFailedAt?: string;
+  lastFailure?: string;
+}
+
+export interface ComplianceState {
+  categories: Partial<Record<ComplianceCategoryKey, ComplianceCategoryOverride>>;
+  /** progress[itemId][period] */
+  progress: Record<string, Record<string, ComplianceProgressEntry>>;
+  /** events[itemId], oldest first */
+  events: Record<string, ComplianceEvent[]>;
+  /** holidays["YYYY-MM-DD"] */
+  holidays: Record<string, ComplianceHoliday>;
+  /** dueDateOverrides[itemId][period] */
+  dueDateOverrides: Record<string, Record<string, ComplianceDueDateOverride>>;
+  dueDateSettings: ComplianceDueDateSettings;
+  digest: ComplianceDigestSettings;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface ComplianceItemHistory {
+  itemId: string;
+  periods: ({ period: string } & ComplianceProgressEntry)[];
+  events: ComplianceEvent[];
+}
+
+export class ComplianceRevisionConflictError extends Error {
+  constructor(
+    public readonly category: string,
+    public readonly currentRevision: number,
+    public readonly baseRevision: number
+  ) {
+    super(`${category} was changed by someone else (revision ${currentRevision}, edited from ${baseRevision}) — reload and apply your edit again`);
+    this.name = 'ComplianceRevisionConflictError';
+  }
+}
+
+class ComplianceStore {
+  private readonly store: JsonStateStore<ComplianceState>;
+
+  constructor(backend: StateBackend<ComplianceState>) {
+    this.store = new JsonStateStore(backend, () => ({
+      categories: {},
+      progress: {},
+      events: {},
+      holidays: {},
+      dueDateOverrides: {},
+      dueDateSettings: { gstScheme: 'monthly', gstStateGroups: { ...GST_STATE_GROUP_DEFAULTS }, updatedAt: '', updatedBy: '' },
+      digest: { enabled: false, recipients: [], weekday: 1, hour: 9, updatedAt: '', updatedBy: '' },
+      updatedAt: '',
+      updatedBy: ''
+    }));
+  }
+
+  get(): Promise<ComplianceState> {
+    return this.store.read();
+  }
+
+  async history(itemId: string): Promise<ComplianceItemHistory> {
+    const state = await this.store.read();
+    const periods = Object.entries(own(state.progress, itemId) ?? {})
+      .map(([period, entry]) => ({ period, ...entry }))
+      .sort((a, b) => b.period.localeCompare(a.period));
+    return { itemId, periods, events: own(state.events, itemId) ?? [] };
+  }
+
+  /** Throws ComplianceRevisionConflictError when the category moved on since baseRevision. */
+  putCategory(category: ComplianceCategoryKey, items: ComplianceItem[], baseRevision: number, by: string): Promise<ComplianceState> {
+    return this.store.mutate(state => {
+      const current = state.categories[category]?.revision ?? 0;
+      if (current !== baseRevision) throw new ComplianceRevisionConflictError(category, current, baseRevision);
+      const now = new Date().toISOString();
+      state.categories[category] = { items, revision: current + 1, updatedAt: now, updatedBy: by };
+      state.updatedAt = now;
+      state.updatedBy = by;
+      return state;
+    });
+  }
+
+  /** Back to the template. Null when the category was never edited. */
+  clearCategory(category: ComplianceCategoryKey, by: string): Promise<ComplianceState | null> {
+    return this.store.mutate(state => {
+      if (!state.categories[category]) return null;
+      delete state.categories[category];
+      state.updatedAt = new Date().toISOString();
+      state.updatedBy = by;
+      return state;
+    });
+  }
+
+  setProgress(itemId: string, period: string, update: { completed: boolean; note?: string }, by: string): Promise<ComplianceState> {
+    return this.store.mutate(state => {
+      const now = new Date().toISOString();
+      const entry = entryFor(state, itemId, period, now, by);
+      if (update.completed !== entry.completed) {
+        entry.completed = update.completed;
+        entry.completedAt = update.completed ? now : undefined;
+        entry.completedBy = update.completed ? by : undefined;
+        logEvent(state, itemId, { at: now, by, period, action: update.completed ? 'completed' : 'reopened' });
+      }
+      if (update.note !== undefined && update.note !== (entry.note ?? '')) {
+        entry.note = update.note || undefined;
+        logEvent(state, itemId, { at: now, by, period, action: 'note', detail: update.note });
+      }
+      entry.updatedAt = now;
+      entry.updatedBy = by;
+      state.updatedAt = now;
+      state.updatedBy = by;
+      return state;
+    });
+  }
+
+  addEvidence(itemId: string, period: string, evidence: Omit<ComplianceEvidence, 'uploadedAt' | 'uploadedBy'>, by: string): Promise<ComplianceState> {
+    return this.store.mutate(state => {
+      const now = new Date().toISOString();
+      const entry = entryFor(state, itemId, period, now, by);
+      entry.evidence.push({ ...evidence, uploadedAt: now, uploadedBy: by });
+      entry.updatedAt = now;
+      entry.updatedBy = by;
+      logEvent(state, itemId, { at: now, by, period, action: 'evidence-added', detail: `${evidence.kind}: ${evidence.fileName}` });
+      state.updatedAt = now;
+      state.updatedBy = by;
+      return state;
+    });
+  }
+
+  /** Detaches the file (it stays on Drive). Null when the entry has no such file. */
+  removeEvidence(itemId: string, period: string, fileId: string, by: string): Promise<ComplianceState | null> {
+    return this.store.mutate(state => {
+      const periods = own(state.progress, itemId);
+      const entry = periods && own(periods, period);
+      const file = entry?.evidence.find(e => e.fileId === fileId);
+      if (!entry || !file) return null;
+      const now = new Date().toISOString();
+      entry.evidence = entry.evidence.filter(e => e.fileId !== fileId);
+      entry.updatedAt = now;
+      entry.updatedBy = by;
+      logEvent(state, itemId, { at: now, by, period, action: 'evidence-removed', detail: `${file.kind}: ${file.fileName}` });
+      state.updatedAt = now;
+      state.updatedBy = by;
+      return state;
+    });
+  }
+
+  putHoliday(date: string, name: string, by: string): Promise<ComplianceState> {
+    return this.store.mutate(state => {
+      const now = new Date().toISOString();
+      state.holidays[date] = { name, addedAt: now, addedBy: by };
+      state.updatedAt = now;
+      state.updatedBy = by;
+      return state;
+    });
+  }
+
+  /** Null when the date isn't on the calendar. */
+  removeHoliday(date: string, by: string): Promise<ComplianceState | null> {
+    return this.store.mutate(state => {
+      if (!own(state.holidays, date)) return null;
+      delete state.holidays[date];
+      state.updatedAt = new Date().toISOString();
+      state.updatedBy = by;
+      return state;
+    });
+  }
+
+  putDueDateOverride(itemId: string, period: string, dueDate: string, reason: string, by: string): Promise<ComplianceState> {
+    return this.store.mutate(state => {
+      const now = new Date().toISOString();
+      const periods = ownOrInit(state.dueDateOverrides, itemId, emptyMap<ComplianceDueDateOverride>);
+      periods[period] = { dueDate, reason, setAt: now, setBy: by };
+      logEvent(state, itemId, { at: now, by, period, action: 'due-date-moved', detail: `${dueDate} — ${reason}` });
+      state.updatedAt = now;
+      state.updatedBy = by;
+      return state;
+    });
+  }
+
+  /** Back to the rule's date. Null when the period had no override. */
+  removeDueDateOverride(itemId: string, period: string, by: string): Promise<ComplianceState | null> {
+    return this.store.mutate(state => {
+      const periods = own(state.dueDateOverrides, itemId);
+      if (!periods || !own(periods, period)) return null;
+      const now = new Date().toISOString();
+      delete periods[period];
+      if (Object.keys(periods).length === 0) delete state.dueDateOverrides[itemId];
+      logEvent(state, itemId, { at: now, by, period, action: 'due-date-restored' });
+      state.updatedAt = now;
+      state.updatedBy = by;
+      return state;
+    });
+  }
+
+  putDueDateSettings(
+    settings: Pick<ComplianceDueDateSettings, 'gstScheme' | 'gstStateGroups'>,
+    by: string
+  ): Promise<ComplianceState> {
+    return this.store.mutate(state => {
+      const now = new Date().toISOString();
+      state.dueDateSettings = { ...settings, updatedAt: now, updatedBy: by };
+      state.updatedAt = now;
+      state.updatedBy = by;
+      return state;
+    });
+  }
+
+  putDigestSettings(
+    settings: Pick<ComplianceDigestSettings, 'enabled' | 'recipients' | 'weekday' | 'hour'>,
+    by: string
+  ): Promise<ComplianceState> {
+    return this.store.mutate(state => {
+      const now = new Date().toISOString();
+      state.digest = { ...state.digest, ...settings, updatedAt: now, updatedBy: by };
+      state.updatedAt = now;
+      state.updatedBy = by;
+      return state;
+    });
+  }
+
+  /** `week` is set only for the scheduled send; a manual send doesn't use up the week. */
+  recordDigestSent(result: string, week?: string): Promise<ComplianceState> {
+    return this.store.mutate(state => {
+      const { lastFailedAt: _at, lastFailure: _failure, ...digest } = state.digest;
+      state.digest = {
+        ...digest,
+        lastSentAt: new Date().toISOString(),
+        lastResult: result,
+        ...(week ? { lastSentWeek: week } : {})
+      };
+      return state;
+    });
+  }
+
+  /** A failed send leaves the last good one (and the week) as it was. */
+  recordDigestFailed(failure: string): Promise<ComplianceState> {
+    return this.store.mutate(state => {
+      state.digest = { ...state.digest, lastFailedAt: new Date().toISOString(), lastFailure: failure };
+      return state;
+    });
+  }
+
+  /**
+   * One-off move of a browser's locally kept calendar. Only fills gaps:
+   * categories nobody has edited here and item-periods with no entry yet.
+   */
+  importLocal(
+    input: {
+      categories: Partial<Record<ComplianceCategoryKey, ComplianceItem[]>>;
+      progress: Record<string, Record<string, { completed: boolean; completedAt?: string; note?: string }>>;
+    },
+    by: string
+  ): Promise<{ state: ComplianceState; categories: number; entries: number }> {
+    return this.store.mutate(state => {
+      const now = new Date().toISOString();
+      let categories = 0;
+      let entries = 0;
+      for (const [key, items] of Object.entries(input.categories) as [ComplianceCategoryKey, ComplianceItem[]][]) {
+        if (state.categories[key]) continue;
+        state.categories[key] = { items, revision: 1, updatedAt: now, updatedBy: by };
+        categories++;
+      }
+      for (const [itemId, periods] of Object.entries(input.progress)) {
+        for (const [period, p] of Object.entries(periods)) {
+          const existing = own(state.progress, itemId);
+          if (!p.completed || (existing && own(existing, period))) continue;
+          const target = ownOrInit(state.progress, itemId, emptyMap<ComplianceProgressEntry>);
+          target[period] = {
+            completed: true,
+            completedAt: p.completedAt ?? now,
+            completedBy: by,
+            note: p.note,
+            evidence: [],
+            updatedAt: now,
+            updatedBy: by
+          };
+          logEvent(state, itemId, { at: now, by, period, action: 'imported', detail: 'Completion recorded in a browser before the calendar was shared' });
+          entries++;
+        }
+      }
+      if (categories || entries) {
+        state.updatedAt = now;
+        state.updatedBy = by;
+      }
+      return { state, categories, entries };
+    });
+  }
+}
+
+function entryFor(state: ComplianceState, itemId: string, period: string, now: string, by: string): ComplianceProgressEntry {
+  const periods = ownOrInit(state.progress, itemId, emptyMap<ComplianceProgressEntry>);
+  return ownOrInit(periods, period, () => ({ completed: false, evidence: [], updatedAt: now, updatedBy: by }));
+}
+
+function logEvent(state: ComplianceState, itemId: string, event: ComplianceEvent): void {
+  ownOrInit(state.events, itemId, (): ComplianceEvent[] => []).push(event);
+}
+
+export function createComplianceStore(
+  backend: StateBackend<ComplianceState> = createBackend('compliance.json')
+): ComplianceStore {
+  return new ComplianceStore(backend);
+}
+
+export const complianceStore = createComplianceStore();
@@ -0,0 +1,587 @@
+import * as XLSX from 'xlsx';
+import {
+  DECK_CHANNELS,
+  DeckAdMix,
+  DeckAmazonActual,
+  DeckBlinkitActual,
+  DeckChannel,
+  DeckD2CCost,
+  DeckDataset,
+  DeckFeed,
+  DeckFYSummary,
+  DeckMonth,
+  DeckSkuCell,
+} from './deckDatasetStore.js';
+
+// ---------------------------------------------------------------------------
+// Deck Dataset Import
+//
+// Turns the uploaded source files into dataset sections and folds them into
+// the active snapshot:
+//
+//   mis      — MIS-Sheet_FINAL_channels.xlsx. One "Mon YYYY" P&L sheet per
+//              month, in either the sales-register layout (gross revenue,
+//              returns and GST by channel) or the management-model layout
+//              (net sales by channel). The FY and Txn sheets are ignored.
+//   sku      — SKU × channel P&L cells: month, channel, product, revenue,
+//              cogs, other, [contribution], units.
+//   ads      — measured ad spend: month, channel (D2C / Amazon), product,
+//              ad. Amazon rows with no product (or "TOTAL") are the month's
+//              complete gross spend.
+//   channels — channel actuals: month, channel, then the Blinkit
+//              settlement, Amazon payments and D2C cost columns.
+//
+// Feeds are CSV or the first sheet of a workbook. Every feed replaces the
+// months it contains and keeps the rest, so a monthly upload only needs
+// the new month. Anything that would corrupt the deck is an error and the
+// import is rejected; figures that don't tie are reported as warnings.
+// ---------------------------------------------------------------------------
+
+export interface FeedImport<T> {
+  data: T;
+  months: string[];
+  errors: string[];
+  warnings: string[];
+}
+
+const TOLERANCE = 1;
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const MONTH_SHEET = /^(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]* (\d{4})$/i;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const ties = (a: number, b: number) => Math.abs(a - b) <= TOLERANCE;
+const inr = (n: number) => `₹${Math.round(n).toLocaleString('en-IN')}`;
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const text = String(value ?? '').replace(/[₹,\s]/g, '');
+  if (!text) return null;
+  const negative = /^\(.*\)$/.test(text);
+  const n = Number(text.replace(/[()]/g, ''));
+  return Number.isFinite(n) ? (negative ? -n : n) : null;
+}
+
+/** "2025-05", "May 2025", "May-25", "05/2025" or an Excel date serial → "2025-05". */
+export function toMonthKey(value: unknown): string | null {
+  if (typeof value === 'number' && value > 20000 && value < 80000) {
+    // Excel serial day (1900 date system)
+    const d = new Date(Date.UTC(1899, 11, 30) + Math.floor(value) * 86400000);
+    return `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, '0')}`;
+  }
+  const text = String(value ?? '').trim();
+  let m = text.match(/^(\d{4})-(\d{1,2})(?:-\d{1,2})?$/);
+  if (m) return `${m[1]}-${m[2].padStart(2, '0')}`;
+  m = text.match(/^([a-z]{3})[a-z]*[\s\-'’]+(\d{2}|\d{4})$/i);
+  if (m) {
+    const month = MONTHS.indexOf(m[1].toLowerCase());
+    if (month < 0) return null;
+    const year = m[2].length === 2 ? 2000 + Number(m[2]) : Number(m[2]);
+    return `${year}-${String(month + 1).padStart(2, '0')}`;
+  }
+  m = text.match(/^(\d{1,2})[/-](\d{4})$/);
+  if (m) return `${m[2]}-${m[1].padStart(2, '0')}`;
+  return null;
+}
+
+function fiscalYearName(key: string): string {
+  const [year, month] = key.split('-').map(Number);
+  const start = month >= 4 ? year : year - 1;
+  return `FY ${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+}
+
+function channelOf(label: string): DeckChannel | null {
+  const text = label.replace(/\s+returns?$/i, '').trim().toLowerCase();
+  if (/^ecommerce|amazon/.test(text)) return 'Amazon';
+  return DECK_CHANNELS.find(c => c.toLowerCase() === text) ?? null;
+}
+
+// ============================================
+// MIS WORKBOOK
+// ============================================
+
+type Section = 'gross' | 'net' | 'returns' | 'taxes' | 'cogm' | 'channel' | 'sm' | 'platform' | 'opex' | 'nonop';
+
+const SECTIONS: [RegExp, Section][] = [
+  [/GROSS REVENUE/, 'gross'],
+  [/NET SALES/, 'net'],
+  [/RETURNS/, 'returns'],
+  [/TAXES/, 'taxes'],
+  [/COST OF GOODS/, 'cogm'],
+  [/CHANNEL/, 'channel'],
+  [/SALES & MARKETING/, 'sm'],
+  [/PLATFORM|OTHER DIRECT/, 'platform'],
+  [/NON-OPERATING/, 'nonop'],
+  [/OPERATING EXPENSES/, 'opex'],
+];
+
+const TOTALS: [RegExp, string][] = [
+  [/^TOTAL GROSS REVENUE/, 'grossTotal'],
+  [/^TOTAL RETURNS/, 'returnsTotal'],
+  [/^TOTAL TAXES/, 'taxesTotal'],
+  [/^NET REVENUE/, 'netRevenue'],
+  [/^ADD: INTER-BRANCH/, 'interBranch'],
+  [/^TURNOVER/, 'turnover'],
+  [/^TOTAL (COGM|COGS)/, 'cogmTotal'],
+  [/^GROSS MARGIN/, 'grossMargin'],
+  [/^TOTAL CHANNEL/, 'channelTotal'],
+  [/^CM1/, 'cm1'],
+  [/^TOTAL SALES & MARKETING/, 'smTotal'],
+  [/^CM2/, 'cm2'],
+  [/^TOTAL PLATFORM|^TOTAL OTHER DIRECT/, 'platformTotal'],
+  [/^CM3/, 'cm3'],
+  [/^TOTAL OPERATING EXPENSES/, 'opexTotal'],
+  [/^EBITDA/, 'ebitda'],
+  [/^TOTAL NON-OPERATING/, 'nonopTotal'],
+  [/^NET INCOME/, 'netIncome'],
+];
+
+const REQUIRED = ['netRevenue', 'grossMargin', 'cm1', 'cm2', 'cm3', 'ebitda', 'netIncome'];
+
+function parseMonthSheet(grid: unknown[][], key: string, sheet: string, warnings: string[]): DeckMonth | string {
+  const totals: Record<string, number> = {};
+  const lines: Partial<Record<Section, [string, number][]>> = {};
+  let section: Section | null = null;
+
+  for (const row of grid) {
+    const raw = String(row[0] ?? '');
+    const label = raw.trim();
+    if (!label) continue;
+    const upper = label.toUpperCase();
+    if (/^[A-Z]\.\s/.test(upper)) {
+      section = SECTIONS.find(([re]) => re.test(upper))?.[1] ?? null;
+      continue;
+    }
+    const amount = toNumber(row[1]);
+    if (amount === null) continue;
+    const total = TOTALS.find(([re]) => re.test(upper));
+    if (total) {
+      totals[total[1]] ??= amount;
+      continue;
+    }
+    if (section && /^\s/.test(raw)) (lines[section] ??= []).push([label, amount]);
+  }
+
+  const missing = REQUIRED.filter(k => totals[k] === undefined);
+  if (missing.length) return `${sheet}: no ${missing.join(', ')} row — not a monthly P&L sheet`;
+
+  const sum = (s: Section) => (lines[s] ?? []).reduce((acc, [, v]) => acc + v, 0);
+  const byChannel = (s: Section, where: string) => {
+    const out: Partial<Record<DeckChannel, number>> = {};
+    for (const [label, value] of lines[s] ?? []) {
+      const channel = channelOf(label);
+      if (!channel) {
+        warnings.push(`${sheet}: "${label}" under ${where} is not a sales channel — left out of the channel split`);
+        continue;
+      }
+      out[channel] = round2((out[channel] ?? 0) + value);
+    }
+    return out;
+  };
+  const withTotal = (s: Section, totalKey: string, totalLabel: string) => {
+    const out: Record<string, number> = {};
+    for (const [label, value] of lines[s] ?? []) out[label] = value;
+    if (totals[totalKey] !== undefined) out[totalLabel] = totals[totalKey];
+    return out;
+  };
+
+  const salesRegister = lines.gross !== undefined || totals.grossTotal !== undefined;
+  const grossByChannel = salesRegister ? byChannel('gross', 'gross revenue') : {};
+  const returnsByChannel = salesRegister ? byChannel('returns', 'returns') : {};
+  let netByChannel: Partial<Record<DeckChannel, number>>;
+  if (salesRegister) {
+    netByChannel = {};
+    for (const c of DECK_CHANNELS) {
+      if (grossByChannel[c] === undefined && returnsByChannel[c] === undefined) continue;
+      netByChannel[c] = round2((grossByChannel[c] ?? 0) + (returnsByChannel[c] ?? 0));
+    }
+  } else {
+    netByChannel = byChannel('net', 'net sales');
+  }
+
+  const t = totals;
+  const [year, month] = key.split('-').map(Number);
+  const record: DeckMonth = {
+    key,
+    label: `${MONTH_LABELS[month - 1]} ${year}`,
+    month,
+    year,
+    netByChannel,
+    grossByChannel,
+    returnsByChannel,
+    totalGrossRevenue: t.grossTotal ?? 0,
+    totalReturns: t.returnsTotal ?? 0,
+    totalTaxes: t.taxesTotal ?? 0,
+    netRevenue: t.netRevenue,
+    interBranch: t.interBranch ?? 0,
+    turnover: t.turnover ?? t.netRevenue + (t.interBranch ?? 0),
+    grossMargin: t.grossMargin,
+    cm1: t.cm1,
+    cm2: t.cm2,
+    cm3: t.cm3,
+    ebitda: t.ebitda,
+    netIncome: t.netIncome,
+    cogmLines: withTotal('cogm', 'cogmTotal', salesRegister ? 'TOTAL COGM' : 'TOTAL COGS'),
+    opexLines: withTotal('opex', 'opexTotal', 'TOTAL OPERATING EXPENSES'),
+    // Cost blocks as positive magnitudes, taken from the margin steps so they
+    // always tie to the margins the sheet reports
+    cogm: round2(t.netRevenue - t.grossMargin),
+    channelFulfillment: round2(t.grossMargin - t.cm1),
+    salesMarketing: round2(t.cm1 - t.cm2),
+    platformCosts: round2(t.cm2 - t.cm3),
+    opex: round2(t.cm3 - t.ebitda),
+    nonOperating: round2(t.ebitda - t.netIncome),
+  };
+
+  // Cross-checks against the sheet's own totals
+  const checks: [string, number | undefined, number][] = [
+    ['channel & fulfilment total', t.channelTotal === undefined ? undefined : -t.channelTotal, record.channelFulfillment],
+    ['sales & marketing total', t.smTotal === undefined ? undefined : -t.smTotal, record.salesMarketing],
+    ['operating expenses total', t.opexTotal === undefined ? undefined : -t.opexTotal, record.opex],
+    ['non-operating total', t.nonopTotal === undefined ? undefined : -t.nonopTotal, record.nonOperating],
+  ];
+  if (lines.gross) checks.push(['gross revenue lines', t.grossTotal, sum('gross')]);
+  if (lines.returns) checks.push(['returns lines', t.returnsTotal, sum('returns')]);
+  if (salesRegister) {
+    checks.push(['net revenue (gross + returns + taxes)', t.netRevenue, (t.grossTotal ?? 0) + (t.returnsTotal ?? 0) + (t.taxesTotal ?? 0)]);
+  } else {
+    checks.push(['net sales by channel', t.netRevenue, sum('net')]);
+  }
+  for (const [what, expected, actual] of checks) {
+    if (expected !== undefined && !ties(expected, actual)) {
+      warnings.push(`${sheet}: ${what} ${inr(actual)} ≠ ${inr(expected)} on the sheet`);
+    }
+  }
+  return record;
+}
+
+export function parseMisWorkbook(buffer: Buffer): FeedImport<DeckMonth[]> {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(buffer, { type: 'buffer' });
+  } catch {
+    return { data: [], months: [], errors: ['Not a readable Excel workbook'], warnings };
+  }
+
+  const months: DeckMonth[] = [];
+  for (const name of workbook.SheetNames) {
+    const match = name.trim().match(MONTH_SHEET);
+    if (!match) continue;
+    const key = toMonthKey(`${match[1]} ${match[2]}`)!;
+    if (months.some(m => m.key === key)) {
+      errors.push(`${name}: ${key} appears on more than one sheet`);
+      continue;
+    }
+    const grid = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, defval: '' });
+    const parsed = parseMonthSheet(grid, key, name, warnings);
+    if (typeof parsed === 'string') errors.push(parsed);
+    else months.push(parsed);
+  }
+  if (months.length === 0 && errors.length === 0) {
+    errors.push('No monthly P&L sheets ("May 2025", …) found in the workbook');
+  }
+  months.sort((a, b) => a.key.localeCompare(b.key));
+  return { data: months, months: months.map(m => m.key), errors, warnings };
+}
+
+/** FY rows recomputed from the months, for the fiscal years in `names`. */
+export function fySummaries(months: DeckMonth[], names: Set<string>): DeckFYSummary[] {
+  const out: DeckFYSummary[] = [];
+  for (const name of names) {
+    const members = months.filter(m => fiscalYearName(m.key) === name);
+    const netRevenue = members.reduce((s, m) => s + m.netRevenue, 0);
+    if (members.length === 0 || netRevenue === 0) continue;
+    const channelNet = DECK_CHANNELS.map(c => members.reduce((s, m) => s + Math.max(0, m.netByChannel[c] ?? 0), 0));
+    const channelTotal = channelNet.reduce((a, b) => a + b, 0);
+    const pct = (n: number) => Math.round((n / netRevenue) * 1000) / 1000;
+    out.push({
+      name,
+      netRevenue: round2(netRevenue),
+      mix: Object.fromEntries(
+        DECK_CHANNELS.map((c, i) => [c, channelTotal ? Math.round((channelNet[i] / channelTotal) * 1000) / 1000 : 0])
+      ) as Record<DeckChannel, number>,
+      grossMarginPct: pct(members.reduce((s, m) => s + m.grossMargin, 0)),
+      ebitdaPct: pct(members.reduce((s, m) => s + m.ebitda, 0)),
+      netIncomePct: pct(members.reduce((s, m) => s + m.netIncome, 0)),
+    });
+  }
+  return out;
+}
+
+// ============================================
+// TABULAR FEEDS
+// ============================================
+
+type Row = { line: number; get: (...names: string[]) => unknown };
+
+function readTable(buffer: Buffer): Row[] | string {
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(buffer, { type: 'buffer', raw: true });
+  } catch {
+    return 'Not a readable CSV or Excel file';
+  }
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return 'The file has no sheets';
+  const grid = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '' });
+  const headerAt = grid.findIndex(r => r.some(c => /^(month|m)$/i.test(String(c).trim())));
+  if (headerAt < 0) return 'No header row with a "month" column';
+  const header = grid[headerAt].map(c => String(c).trim().toLowerCase().replace(/[\s_]+/g, ' '));
+  return grid.slice(headerAt + 1)
+    .map((cells, i) => ({
+      line: headerAt + i + 2,
+      get: (...names: string[]) => {
+        const at = header.findIndex(h => names.includes(h));
+        return at >= 0 ? cells[at] : undefined;
+      },
+      blank: cells.every(c => String(c).trim() === ''),
+    }))
+    .filter(r => !r.blank);
+}
+
+function readNumber(row: Row, errors: string[], ...names: string[]): number {
+  const value = row.get(...names);
+  if (value === undefined || String(value).trim() === '') return 0;
+  const n = toNumber(value);
+  if (n === null) {
+    errors.push(`Row ${row.line}: ${names[0]} "${value}" is not a number`);
+    return 0;
+  }
+  return n;
+}
+
+function readKeyAndChannel(row: Row, errors: string[]): { m: string; ch: DeckChannel } | null {
+  const m = toMonthKey(row.get('month', 'm'));
+  const chRaw = String(row.get('channel', 'ch') ?? '').trim();
+  const ch = channelOf(chRaw);
+  if (!m) errors.push(`Row ${row.line}: month "${row.get('month', 'm')}" is not a month`);
+  if (!ch) errors.push(`Row ${row.line}: channel "${chRaw}" is not one of ${DECK_CHANNELS.join(', ')}`);
+  return m && ch ? { m, ch } : null;
+}
+
+export function parseSkuFeed(buffer: Buffer): FeedImport<DeckSkuCell[]> {
+  const table = readTable(buffer);
+  if (typeof table === 'string') return { data: [], months: [], errors: [table], warnings: [] };
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const cells: DeckSkuCell[] = [];
+
+  for (const row of table) {
+    const id = readKeyAndChannel(row, errors);
+    const p = String(row.get('product', 'p', 'sku') ?? '').trim();
+    if (!p) errors.push(`Row ${row.line}: no product`);
+    const rev = readNumber(row, errors, 'revenue', 'rev');
+    const cogs = readNumber(row, errors, 'cogs');
+    const oth = readNumber(row, errors, 'other', 'oth');
+    const u = readNumber(row, errors, 'units', 'u');
+    const given = row.get('contribution', 'con');
+    const con = given === undefined || String(given).trim() === '' ? round2(rev - cogs - oth) : readNumber(row, errors, 'contribution', 'con');
+    if (!ties(con, rev - cogs - oth)) {
+      warnings.push(`Row ${row.line}: contribution ${inr(con)} ≠ revenue − cogs − other (${inr(rev - cogs - oth)})`);
+    }
+    if (id && p) cells.push({ m: id.m, ch: id.ch, p, rev, cogs, oth, con, u });
+  }
+  if (table.length === 0) errors.push('No SKU rows under the header');
+  return { data: cells, months: [...new Set(cells.map(c => c.m))].sort(), errors, warnings };
+}
+
+export function parseAdsFeed(buffer: Buffer): FeedImport<DeckDataset['ads']> {
+  const empty: DeckDataset['ads'] = { d2cMix: [], amazonMix: [], amazonMonthly: {} };
+  const table = readTable(buffer);
+  if (typeof table === 'string') return { data: empty, months: [], errors: [table], warnings: [] };
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const data = empty;
+
+  for (const row of table) {
+    const id = readKeyAndChannel(row, errors);
+    const p = String(row.get('product', 'p') ?? '').trim();
+    const ad = readNumber(row, errors, 'ad', 'spend', 'ad spend');
+    if (!id) continue;
+    if (id.ch !== 'D2C' && id.ch !== 'Amazon') {
+      errors.push(`Row ${row.line}: measured ad mix is only kept for D2C and Amazon, not ${id.ch}`);
+    } else if (!p || /^total$/i.test(p)) {
+      if (id.ch === 'Amazon') data.amazonMonthly[id.m] = round2((data.amazonMonthly[id.m] ?? 0) + ad);
+      else errors.push(`Row ${row.line}: D2C rows need a product`);
+    } else {
+      (id.ch === 'D2C' ? data.d2cMix : data.amazonMix).push({ m: id.m, p, ad });
+    }
+  }
+
+  // Without a reported total, fall back to the mapped spend so the month still weights the split
+  const mapped = new Map<string, number>();
+  for (const r of data.amazonMix) mapped.set(r.m, (mapped.get(r.m) ?? 0) + r.ad);
+  for (const [m, total] of mapped) {
+    if (data.amazonMonthly[m] === undefined) {
+      data.amazonMonthly[m] = round2(total);
+      warnings.push(`${m}: no Amazon total row — using the mapped spend ${inr(total)} as the month's gross`);
+    } else if (data.amazonMonthly[m] + TOLERANCE < total) {
+      warnings.push(`${m}: Amazon mapped spend ${inr(total)} exceeds the reported total ${inr(data.amazonMonthly[m])}`);
+    }
+  }
+  if (table.length === 0) errors.push('No ad rows under the header');
+  const months = [...new Set([...data.d2cMix, ...data.amazonMix].map((r: DeckAdMix) => r.m).concat(Object.keys(data.amazonMonthly)))].sort();
+  return { data, months, errors, warnings };
+}
+
+export function parseChannelsFeed(buffer: Buffer): FeedImport<DeckDataset['channels']> {
+  const empty: DeckDataset['channels'] = { blinkit: {}, amazon: {}, d2c: {} };
+  const table = readTable(buffer);
+  if (typeof table === 'string') return { data: empty, months: [], errors: [table], warnings: [] };
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const data = empty;
+
+  for (const row of table) {
+    const id = readKeyAndChannel(row, errors);
+    if (!id) continue;
+    const n = (...names: string[]) => readNumber(row, errors, ...names);
+    if (id.ch === 'Blinkit') {
+      const b: DeckBlinkitActual = {
+        sales: n('sales'), fulfilment: n('fulfilment', 'fulfillment'), ads: n('ads'),
+        taxes: n('taxes'), credits: n('credits'), payout: 0,
+      };
+      const derived = round2(b.sales - b.fulfilment - b.ads - b.taxes + b.credits);
+      const given = row.get('payout');
+      b.payout = given === undefined || String(given).trim() === '' ? derived : n('payout');
+      if (!ties(b.payout, derived)) {
+        warnings.push(`Row ${row.line}: Blinkit payout ${inr(b.payout)} ≠ sales − deductions + credits (${inr(derived)})`);
+      }
+      data.blinkit[id.m] = b;
+    } else if (id.ch === 'Amazon') {
+      const a: DeckAmazonActual = { netSales: n('net sales', 'netsales', 'sales'), referral: n('referral'), fba: n('fba'), ads: n('ads') };
+      data.amazon[id.m] = a;
+    } else if (id.ch === 'D2C') {
+      const d: DeckD2CCost = { meta: n('meta'), google: n('google'), shiprocket: n('shiprocket'), shopflo: n('shopflo'), gateway: n('gateway') };
+      data.d2c[id.m] = d;
+    } else {
+      errors.push(`Row ${row.line}: channel actuals are kept for Blinkit, Amazon and D2C, not ${id.ch}`);
+    }
+  }
+  if (table.length === 0) errors.push('No channel rows under the header');
+  const months = [...new Set([...Object.keys(data.blinkit), ...Object.keys(data.amazon), ...Object.keys(data.d2c)])].sort();
+  return { data, months, errors, warnings };
+}
+
+// ============================================
+// MERGE INTO A SNAPSHOT
+// ============================================
+
+function replaceMonths<T extends { m: string }>(base: T[], incoming: T[]): T[] {
+  const months = new Set(incoming.map(r => r.m));
+  return [...base.filter(r => !months.has(r.m)), ...incoming].sort((a, b) => a.m.localeCompare(b.m));
+}
+
+function replaceKeys<T>(base: Record<string, T>, incoming: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries({ ...base, ...incoming }).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Fold one imported feed into `base`. Months restated in the base snapshot
+ * (tied to an external statement) are kept unless `replaceRestated` is set.
+ */
+export function mergeFeed(
+  base: DeckDataset,
+  feed: DeckFeed,
+  imported: FeedImport<unknown>,
+  opts: { sourceFile: string; replaceRestated?: boolean }
+): { data: DeckDataset; warnings: string[] } {
+  const data: DeckDataset = structuredClone(base);
+  const warnings: string[] = [];
+
+  if (feed === 'mis') {
+    const byKey = new Map(data.mis.months.map(m => [m.key, m]));
+    const touched = new Set<string>();
+    for (const month of imported.data as DeckMonth[]) {
+      const current = byKey.get(month.key);
+      if (current?.restated && !opts.replaceRestated) {
+        warnings.push(`${current.label} kept as restated ("${current.restated.slice(0, 80)}…")`);
+        continue;
+      }
+      byKey.set(month.key, month);
+      touched.add(fiscalYearName(month.key));
+    }
+    data.mis.months = [...byKey.values()].sort((a, b) => a.key.localeCompare(b.key));
+    const recomputed = fySummaries(data.mis.months, touched);
+    data.mis.fySummary = [...data.mis.fySummary.filter(f => !recomputed.some(r => r.name === f.name)), ...recomputed]
+      .sort((a, b) => a.name.localeCompare(b.name));
+    data.mis.sourceFile = opts.sourceFile;
+    data.mis.generatedAt = new Date().toISOString().slice(0, 10);
+  } else if (feed === 'sku') {
+    data.sku.cells = replaceMonths(data.sku.cells, imported.data as DeckSkuCell[]);
+  } else if (feed === 'ads') {
+    const ads = imported.data as DeckDataset['ads'];
+    data.ads.d2cMix = replaceMonths(data.ads.d2cMix, ads.d2cMix);
+    data.ads.amazonMix = replaceMonths(data.ads.amazonMix, ads.amazonMix);
+    data.ads.amazonMonthly = replaceKeys(data.ads.amazonMonthly, ads.amazonMonthly);
+  } else {
+    const channels = imported.data as DeckDataset['channels'];
+    data.channels.blinkit = replaceKeys(data.channels.blinkit, channels.blinkit);
+    data.channels.amazon = replaceKeys(data.channels.amazon, channels.amazon);
+    data.channels.d2c = replaceKeys(data.channels.d2c, channels.d2c);
+  }
+
+  return { data, warnings };
+}
+
+export function importFeed(feed: DeckFeed, buffer: Buffer): FeedImport<unknown> {
+  if (feed === 'mis') return parseMisWorkbook(buffer);
+  if (feed === 'sku') return parseSkuFeed(buffer);
+  if (feed === 'ads') return parseAdsFeed(buffer);
+  return parseChannelsFeed(buffer);
+}
+
+// ============================================
+// FULL-DATASET VALIDATION
+// ============================================
+
+const isNum = (v: unknown) => typeof v === 'number' && Number.isFinite(v);
+const isMonthKey = (v: unknown) => typeof v === 'string' && /^\d{4}-(0[1-9]|1[0-2])$/.test(v);
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/** Structural problems that would break the deck; empty when `data` is usable. */
+export function validateDataset(data: unknown): string[] {
+  if (!isRecord(data)) return ['Dataset must be an object'];
+  const errors: string[] = [];
+  const d = data as Partial<DeckDataset>;
+
+  if (!isRecord(d.mis) || !Array.isArray(d.mis.months)) {
+    errors.push('mis.months must be an array');
+  } else {
+    const seen = new Set<string>();
+    d.mis.months.forEach((m, i) => {
+      const where = `mis.months[${i}]`;
+      if (!isRecord(m) || !isMonthKey(m.key)) return errors.push(`${where}: key must be YYYY-MM`);
+      if (seen.has(m.key)) errors.push(`${where}: ${m.key} appears twice`);
+      seen.add(m.key);
+      for (const f of ['netRevenue', 'grossMargin', 'cm1', 'cm2', 'cm3', 'ebitda', 'netIncome', 'cogm', 'opex'] as const) {
+        if (!isNum(m[f])) errors.push(`${where} (${m.key}): ${f} must be a number`);
+      }
+      if (!isRecord(m.netByChannel)) errors.push(`${where} (${m.key}): netByChannel must be an object`);
+    });
+    if (d.mis.months.length === 0) errors.push('mis.months is empty');
+    for (const f of ['fySummary', 'd2cRepeats', 'amazonRepeats', 'discounts'] as const) {
+      if (!Array.isArray(d.mis[f])) errors.push(`mis.${f} must be an array`);
+    }
+    for (const f of ['d2cAdSpend', 'amazonAdSpend'] as const) {
+      if (!isRecord(d.mis[f])) errors.push(`mis.${f} must be an object`);
+    }
+  }
+
+  if (!isRecord(d.sku) || !Array.isArray(d.sku.cells)) {
+    errors.push('sku.cells must be an array');
+  } else {
+    const bad = d.sku.cells.findIndex(c => !isMonthKey(c?.m) || !DECK_CHANNELS.includes(c?.ch) || !isNum(c?.rev) || !isNum(c?.con));
+    if (bad >= 0) errors.push(`sku.cells[${bad}]: needs a YYYY-MM month, a sales channel and numeric rev / con`);
+  }
+
+  if (!isRecord(d.ads) || !Array.isArray(d.ads.d2cMix) || !Array.isArray(d.ads.amazonMix) || !isRecord(d.ads.amazonMonthly)) {
+    errors.push('ads must have d2cMix, amazonMix and amazonMonthly');
+  }
+  if (!isRecord(d.channels) || !isRecord(d.channels.blinkit) || !isRecord(d.channels.amazon) || !isRecord(d.channels.d2c)) {
+    errors.push('channels must have blinkit, amazon and d2c');
+  }
+  return errors;
+}
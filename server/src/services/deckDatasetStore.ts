@@ -0,0 +1,239 @@
+import { JsonStateStore, StateBackend, createBackend } from './jsonStore.js';
+
+// ---------------------------------------------------------------------------
+// Deck Dataset Store
+//
+// The MIS deck's source data — the monthly P&L from MIS-Sheet_FINAL_channels
+// plus the SKU × channel, measured-ad and channel-actuals feeds — kept as
+// immutable, numbered snapshots. Every import publishes a complete new
+// snapshot (the active one with the imported feed replaced) and makes it
+// active; rolling back just points `active` at an earlier version.
+//
+// The index (deck-datasets.json) holds the version metadata and the
+// activation log; each snapshot's data lives in its own document
+// (deck-datasets/v<n>.json) so listing versions never loads the payloads.
+// ---------------------------------------------------------------------------
+
+export const DECK_FEEDS = ['mis', 'sku', 'ads', 'channels'] as const;
+export type DeckFeed = typeof DECK_FEEDS[number];
+
+export const DECK_CHANNELS = ['D2C', 'Amazon', 'Blinkit', 'OEM', 'Offline', 'Export'] as const;
+export type DeckChannel = typeof DECK_CHANNELS[number];
+
+/** One month of the company P&L. Mirrors MonthlyMIS in client/src/data/misDeck/misDeckData.ts. */
+export interface DeckMonth {
+  key: string;
+  label: string;
+  month: number;
+  year: number;
+  netByChannel: Partial<Record<DeckChannel, number>>;
+  grossByChannel: Partial<Record<DeckChannel, number>>;
+  returnsByChannel: Partial<Record<DeckChannel, number>>;
+  totalGrossRevenue: number;
+  totalReturns: number;
+  totalTaxes: number;
+  netRevenue: number;
+  interBranch: number;
+  turnover: number;
+  grossMargin: number;
+  cm1: number;
+  cm2: number;
+  cm3: number;
+  ebitda: number;
+  netIncome: number;
+  cogm: number;
+  channelFulfillment: number;
+  salesMarketing: number;
+  platformCosts: number;
+  opex: number;
+  nonOperating: number;
+  costOfFundraising?: number;
+  cogmLines: Record<string, number>;
+  opexLines: Record<string, number>;
+  restated?: string;
+}
+
+export interface DeckFYSummary {
+  name: string;
+  netRevenue: number;
+  mix: Record<DeckChannel, number>;
+  grossMarginPct: number;
+  ebitdaPct: number;
+  netIncomePct: number;
+}
+
+export interface DeckSkuCell { m: string; ch: DeckChannel; p: string; rev: number; cogs: number; oth: number; con: number; u: number }
+export interface DeckAdMix { m: string; p: string; ad: number }
+export interface DeckBlinkitActual { sales: number; fulfilment: number; ads: number; taxes: number; credits: number; payout: number }
+export interface DeckAmazonActual { netSales: number; referral: number; fba: number; ads: number }
+export interface DeckD2CCost { meta: number; google: number; shiprocket: number; shopflo: number; gateway: number }
+
+export interface DeckDataset {
+  mis: {
+    sourceFile: string;
+    generatedAt: string;
+    months: DeckMonth[];
+    fySummary: DeckFYSummary[];
+    /** Repeat-purchase, discount and ad-spend series kept with the MIS (hand-curated, carried between imports). */
+    d2cRepeats: Record<string, unknown>[];
+    amazonRepeats: Record<string, unknown>[];
+    discounts: Record<string, unknown>[];
+    d2cAdSpend: Record<string, number>;
+    amazonAdSpend: Record<string, number>;
+  };
+  sku: { cells: DeckSkuCell[] };
+  ads: { d2cMix: DeckAdMix[]; amazonMix: DeckAdMix[]; amazonMonthly: Record<string, number> };
+  channels: {
+    blinkit: Record<string, DeckBlinkitActual>;
+    amazon: Record<string, DeckAmazonActual>;
+    d2c: Record<string, DeckD2CCost>;
+  };
+}
+
+export interface DeckDatasetVersion {
+  version: number;
+  createdAt: string;
+  createdBy: string;
+  note: string;
+  /** Version this snapshot was built on (null for a full upload). */
+  basedOn: number | null;
+  /** Feeds replaced in this snapshot; the rest are carried from `basedOn`. */
+  feeds: DeckFeed[];
+  sourceFiles: Partial<Record<DeckFeed, string>>;
+  firstMonth: string;
+  lastMonth: string;
+  counts: { months: number; skuCells: number; adRows: number; channelMonths: number };
+  warnings: string[];
+}
+
+export interface DeckActivation {
+  version: number;
+  at: string;
+  by: string;
+}
+
+export interface DeckDatasetIndex {
+  active: number | null;
+  versions: DeckDatasetVersion[];
+  /** Every change of the active version, oldest first. */
+  activations: DeckActivation[];
+  nextVersion: number;
+}
+
+export class DatasetVersionNotFoundError extends Error {
+  constructor(public readonly version: number) {
+    super(`Dataset version ${version} not found`);
+    this.name = 'DatasetVersionNotFoundError';
+  }
+}
+
+/** The active version moved on while a feed import was being built on it. */
+export class DatasetBaseChangedError extends Error {
+  constructor(public readonly basedOn: number, public readonly active: number | null) {
+    super(`The active dataset is now version ${active ?? 'none'}, not ${basedOn} — import the file again`);
+    this.name = 'DatasetBaseChangedError';
+  }
+}
+
+function summarise(data: DeckDataset): Pick<DeckDatasetVersion, 'firstMonth' | 'lastMonth' | 'counts'> {
+  const keys = data.mis.months.map(m => m.key).sort();
+  return {
+    firstMonth: keys[0] ?? '',
+    lastMonth: keys[keys.length - 1] ?? '',
+    counts: {
+      months: keys.length,
+      skuCells: data.sku.cells.length,
+      adRows: data.ads.d2cMix.length + data.ads.amazonMix.length,
+      channelMonths:
+        Object.keys(data.channels.blinkit).length +
+        Object.keys(data.channels.amazon).length +
+        Object.keys(data.channels.d2c).length,
+    },
+  };
+}
+
+class DeckDatasetStore {
+  private readonly index: JsonStateStore<DeckDatasetIndex>;
+  private readonly snapshots = new Map<number, StateBackend<DeckDataset>>();
+
+  constructor(
+    backend: StateBackend<DeckDatasetIndex>,
+    private readonly snapshotBackend: (version: number) => StateBackend<DeckDataset>
+  ) {
+    this.index = new JsonStateStore(backend, () => ({ active: null, versions: [], activations: [], nextVersion: 1 }));
+  }
+
+  private snapshot(version: number): StateBackend<DeckDataset> {
+    let backend = this.snapshots.get(version);
+    if (!backend) {
+      backend = this.snapshotBackend(version);
+      this.snapshots.set(version, backend);
+    }
+    return backend;
+  }
+
+  list(): Promise<DeckDatasetIndex> {
+    return this.index.read();
+  }
+
+  async get(version: number): Promise<{ version: DeckDatasetVersion; data: DeckDataset } | null> {
+    const index = await this.index.read();
+    const meta = index.versions.find(v => v.version === version);
+    if (!meta) return null;
+    const data = await this.snapshot(version).load();
+    return data ? { version: meta, data } : null;
+  }
+
+  async getActive(): Promise<{ version: DeckDatasetVersion; data: DeckDataset } | null> {
+    const index = await this.index.read();
+    return index.active === null ? null : this.get(index.active);
+  }
+
+  /**
+   * Store `data` as a new version and make it active. Data merged onto
+   * `basedOn` is refused once another version has been made active since,
+   * so one import can't silently drop another.
+   */
+  publish(
+    data: DeckDataset,
+    meta: Pick<DeckDatasetVersion, 'note' | 'basedOn' | 'feeds' | 'sourceFiles' | 'warnings'>,
+    by: string
+  ): Promise<DeckDatasetVersion> {
+    return this.index.mutate(async state => {
+      if (meta.basedOn !== null && state.active !== meta.basedOn) {
+        throw new DatasetBaseChangedError(meta.basedOn, state.active);
+      }
+      const version = state.nextVersion++;
+      // The snapshot is written before the index that lists it
+      await this.snapshot(version).save(data);
+      const now = new Date().toISOString();
+      const entry: DeckDatasetVersion = { version, createdAt: now, createdBy: by, ...meta, ...summarise(data) };
+      state.versions.push(entry);
+      state.active = version;
+      state.activations.push({ version, at: now, by });
+      return entry;
+    });
+  }
+
+  /** Point the deck at an earlier (or later) snapshot. */
+  activate(version: number, by: string): Promise<DeckDatasetIndex> {
+    return this.index.mutate(state => {
+      if (!state.versions.some(v => v.version === version)) throw new DatasetVersionNotFoundError(version);
+      if (state.active !== version) {
+        state.active = version;
+        state.activations.push({ version, at: new Date().toISOString(), by });
+      }
+      return state;
+    });
+  }
+}
+
+export function createDeckDatasetStore(
+  backend: StateBackend<DeckDatasetIndex> = createBackend('deck-datasets.json'),
+  snapshotBackend: (version: number) => StateBackend<DeckDataset> = version =>
+    createBackend(`deck-datasets/v${version}.json`)
+): DeckDatasetStore {
+  return new DeckDatasetStore(backend, snapshotBackend);
+}
+
+export const deckDatasetStore = createDeckDatasetStore();
@@ -1,6 +1,5 @@
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
-const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta/models';
-const DEFAULT_MODEL = process.env.GEMINI_MODEL || 'gemini-2.5-flash';
+import { llm, JsonSchema, LlmIncompleteError } from './llmClient.js';
+import { LlmPart } from './llmProviders.js';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -70,6 +69,10 @@ export interface BookingStage {
   lines: BookingLine[];
   costCentre?: string | null;
   notes?: string | null;
+  /** YYYY-MM-DD for a one-off stage booked after the invoice date. */
+  date?: string | null;
+  /** Monthly schedule (prepaid amortisation); line amounts are per month. */
+  recurrence?: { frequency: 'monthly'; count: number; startDate?: string | null } | null;
 }
 
 export interface ExpenseAdvice {
@@ -158,8 +161,10 @@ The operator has classified this expense as: **${category}**.
 
 Apply the rule for the chosen category — do not switch voucher types based on TDS or GST. The voucher type name MUST match the master exactly.
 
-## Booking approach (IMPORTANT — single-stage)
-Every booking is exactly ONE stage that creates a creditor for the vendor. Bank-side settlement is booked separately during reconciliation and is OUT OF SCOPE for this tool.
+## Booking approach (IMPORTANT — one purchase stage)
+Stage 1 is the ONE voucher that creates a creditor for the vendor. Bank-side settlement is booked separately during reconciliation and is OUT OF SCOPE for this tool.
+
+Prepaid exception: when a Goods or Services invoice pays for a period longer than one month (annual subscriptions, insurance, AMC, advance rent), Dr a prepaid-expense ledger from the master in stage 1 instead of the expense ledger, then add stage 2 — a "Journal" that Dr's the expense ledger and Cr's the same prepaid ledger each month. Give stage 2 a "recurrence" of { "frequency": "monthly", "count": <months in the service period>, "startDate": "YYYY-MM-DD" of the first month-end, or null to start at the invoice month }, and write its line amounts PER MONTH (taxable base ÷ months, rounded to paise — the export trues up the last month). Every other booking has exactly one stage.
 
 ### Capital (Journal voucher)
 - Dr the fixed-asset ledger you pick from the master. Asset ledgers live under groups starting with "Asset -" inside parents like "Plant and Machinery", "Computer and IT Equipment", "Furniture and Furnishings", "Office Equipment", "Office Equipments", "Vehicles and Transport", "Fixed Assets". Pick the closest one by reading the description.
@@ -201,7 +206,7 @@ ${JSON.stringify(master)}
 ## Grounding rules (STRICT)
 - Use ONLY ledger names, voucher type names and cost centre names that appear EXACTLY in the master. Match case and punctuation.
 - If a perfect match doesn't exist, pick the closest entry and add a sentence to "warnings" describing the substitution.
-- Voucher type is determined SOLELY by category: Capital → "Journal", Goods → "Purchase-Expense", Services → "Purchase-Services". No other voucher types.
+- Stage 1's voucher type is determined SOLELY by category: Capital → "Journal", Goods → "Purchase-Expense", Services → "Purchase-Services". The prepaid amortisation stage is always "Journal". No other voucher types.
 - DO NOT invent any bill series, prefix, or voucher number. Tally Prime auto-numbers.
 
 ## Response format — JSON ONLY, no prose, no markdown fences
@@ -218,7 +223,8 @@ ${JSON.stringify(master)}
       "lines": [
         { "dr_or_cr": "Dr"|"Cr", "ledger": "EXACT name from master.ledgers", "amount": number | null, "notes": "optional" }
       ],
-      "notes": "extra guidance for this specific stage, or null"
+      "notes": "extra guidance for this specific stage, or null",
+      "recurrence": { "frequency": "monthly", "count": number, "startDate": "YYYY-MM-DD" | null } | null
     }
   ],
   "gstTreatment": "one short line on GST handling",
@@ -238,138 +244,53 @@ Use null for line amounts you cannot determine. Stages must be in chronological
 }
 
 // ---------------------------------------------------------------------------
-// Gemini call
+// Response schema
 // ---------------------------------------------------------------------------
 
-interface GeminiPart {
-  text?: string;
-  inline_data?: { mime_type: string; data: string };
-}
-
-async function callGemini(parts: GeminiPart[]): Promise<string> {
-  if (!GEMINI_API_KEY) {
-    throw new Error('GEMINI_API_KEY environment variable is not set on the server');
-  }
-  const url = `${GEMINI_API_BASE}/${DEFAULT_MODEL}:generateContent?key=${GEMINI_API_KEY}`;
-  const requestBody = JSON.stringify({
-    contents: [{ parts }],
-    generationConfig: {
-      temperature: 0.2,
-      topP: 0.8,
-      // Booking advice carries the full master in context plus a multi-line
-      // JSON output. 4 KB is too tight; truncated outputs surfaced as
-      // "Unterminated string in JSON" errors. 16 KB gives plenty of room
-      // and stays well under Gemini 2.5 Flash's 64 KB output cap.
-      maxOutputTokens: 16384,
-      responseMimeType: 'application/json',
+const ADVICE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['summary', 'stages'],
+  properties: {
+    summary: { type: 'string' },
+    stages: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['step', 'voucherType', 'lines'],
+        properties: {
+          step: { type: 'number' },
+          title: { type: 'string' },
+          voucherType: { type: 'string' },
+          costCentre: { type: ['string', 'null'] },
+          date: { type: ['string', 'null'] },
+          recurrence: {
+            type: ['object', 'null'],
+            properties: {
+              frequency: { enum: ['monthly'] },
+              count: { type: 'integer' },
+              startDate: { type: ['string', 'null'] },
+            },
+          },
+          lines: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['dr_or_cr', 'ledger'],
+              properties: {
+                dr_or_cr: { enum: ['Dr', 'Cr'] },
+                ledger: { type: 'string' },
+                amount: { type: ['number', 'null'] },
+              },
+            },
+          },
+        },
+      },
     },
-  });
-
-  // Gemini intermittently returns 503 UNAVAILABLE / 429 RESOURCE_EXHAUSTED
-  // when the model is hot. Retry a few times with exponential backoff
-  // before giving up, and surface a friendlier message if all retries fail.
-  const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
-  const MAX_ATTEMPTS = 4;
-  let lastErrorText = '';
-  let lastStatus = 0;
-
-  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
-    let response: Response;
-    try {
-      response = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: requestBody,
-      });
-    } catch (e) {
-      lastErrorText = e instanceof Error ? e.message : String(e);
-      lastStatus = 0;
-      if (attempt < MAX_ATTEMPTS) {
-        await sleep(backoffMs(attempt));
-        continue;
-      }
-      throw new Error(`Gemini network error after ${MAX_ATTEMPTS} attempts: ${lastErrorText}`);
-    }
-
-    if (response.ok) {
-      const data = (await response.json()) as {
-        candidates?: {
-          content?: { parts?: { text?: string }[] };
-          finishReason?: string;
-        }[];
-      };
-      const candidate = data.candidates?.[0];
-      const text = candidate?.content?.parts?.[0]?.text;
-      if (!text) throw new Error('Empty response from Gemini');
-      if (candidate?.finishReason && candidate.finishReason !== 'STOP') {
-        // MAX_TOKENS, SAFETY, RECITATION, OTHER — flag clearly instead of
-        // letting the JSON parser stumble on a truncated payload.
-        throw new Error(
-          `Gemini response was incomplete (finishReason=${candidate.finishReason}). The booking is likely too detailed to fit. Try splitting the invoice into smaller items or remove very long notes.`
-        );
-      }
-      return text;
-    }
-
-    lastStatus = response.status;
-    lastErrorText = await response.text();
-
-    if (RETRYABLE_STATUS.has(response.status) && attempt < MAX_ATTEMPTS) {
-      await sleep(backoffMs(attempt));
-      continue;
-    }
-    break;
-  }
-
-  if (lastStatus === 503 || /UNAVAILABLE/i.test(lastErrorText)) {
-    throw new Error(
-      `Gemini is temporarily overloaded (503 UNAVAILABLE) and didn't recover after ${MAX_ATTEMPTS} retries. Please try again in a minute — usually clears within a few seconds.`
-    );
-  }
-  if (lastStatus === 429 || /RESOURCE_EXHAUSTED/i.test(lastErrorText)) {
-    throw new Error(
-      `Gemini rate limit hit (429). Please wait a moment and retry, or check the project quota in Google Cloud Console.`
-    );
-  }
-  throw new Error(`Gemini API error: ${lastStatus} - ${lastErrorText}`);
-}
-
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-// 1.5s, 3s, 6s — caps total wait at ~10.5s before giving up.
-function backoffMs(attempt: number): number {
-  return Math.min(1500 * 2 ** (attempt - 1), 6000);
-}
-
-function parseJsonFromText(text: string): ExpenseAdvice {
-  let jsonText = text.trim();
-  if (jsonText.includes('```json')) {
-    jsonText = jsonText.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-  } else if (jsonText.includes('```')) {
-    jsonText = jsonText.replace(/```\n?/g, '');
-  }
-  jsonText = jsonText.trim();
-  try {
-    return JSON.parse(jsonText) as ExpenseAdvice;
-  } catch (e) {
-    // Log the raw response and a window around the failure point so we can
-    // diagnose without the user having to repro.
-    const message = e instanceof Error ? e.message : String(e);
-    const posMatch = /position\s+(\d+)/.exec(message);
-    const pos = posMatch ? parseInt(posMatch[1], 10) : -1;
-    const snippet =
-      pos >= 0
-        ? jsonText.slice(Math.max(0, pos - 80), Math.min(jsonText.length, pos + 80))
-        : jsonText.slice(0, 240);
-    console.error('Gemini JSON parse failed:', message);
-    console.error('Length:', jsonText.length, 'Snippet around failure:', JSON.stringify(snippet));
-    throw new Error(
-      `AI returned malformed JSON (${message}). Length ${jsonText.length}. The response was likely truncated or contains an unescaped character.`
-    );
-  }
-}
+    warnings: { type: 'array', items: { type: 'string' } },
+    invoiceExtract: { type: ['object', 'null'] },
+  },
+};
 
 // ---------------------------------------------------------------------------
 // Validation against master — flag any AI references that don't exist
@@ -415,13 +336,37 @@ export async function getExpenseBookingAdvice(
     throw new Error('Either manualEntry or attachments must be provided');
   }
   const prompt = buildPrompt(req.tallyMaster, req.answers, req.manualEntry, attachments.length);
-  const parts: GeminiPart[] = [{ text: prompt }];
+  const parts: LlmPart[] = [{ text: prompt }];
   for (const a of attachments) {
     if (a.data && a.mime) {
-      parts.push({ inline_data: { mime_type: a.mime, data: a.data } });
+      parts.push({ inlineData: { mimeType: a.mime, data: a.data } });
+    }
+  }
+
+  let advice: ExpenseAdvice;
+  try {
+    advice = await llm.generateJson<ExpenseAdvice>(
+      'expense-booking',
+      {
+        parts,
+        temperature: 0.2,
+        topP: 0.8,
+        // Booking advice carries the full master in context plus a multi-line
+        // JSON output. 4 KB is too tight; truncated outputs surfaced as
+        // "Unterminated string in JSON" errors. 16 KB gives plenty of room
+        // and stays well under Gemini 2.5 Flash's 64 KB output cap.
+        maxOutputTokens: 16384,
+      },
+      ADVICE_SCHEMA,
+      { timeoutMs: 120_000 }
+    );
+  } catch (err) {
+    if (err instanceof LlmIncompleteError) {
+      throw new Error(
+        `AI response was incomplete (finishReason=${err.finishReason}). The booking is likely too detailed to fit. Try splitting the invoice into smaller items or remove very long notes.`
+      );
     }
+    throw err;
   }
-  const raw = await callGemini(parts);
-  const advice = parseJsonFromText(raw);
   return validateAgainstMaster(advice, req.tallyMaster);
 }
@@ -1,4 +1,5 @@
 import { MISCategory, ClassificationRule } from './googleSheets.js';
+import { llm, JsonSchema } from './llmClient.js';
 
 // ============================================
 // TYPES
@@ -23,59 +24,71 @@ export interface ClassificationResult {
 }
 
 export interface GeminiConfig {
-  model?: string;
+  model?: string;            // Applies when the LLM provider is Gemini
   temperature?: number;
-  apiKey?: string;
+  reviewThreshold?: number;  // Gemini results below this confidence need review
 }
 
-// ============================================
-// GEMINI API CONFIGURATION
-// ============================================
+interface GeminiSuggestion {
+  entityName: string;
+  head: string;
+  subhead: string;
+  confidence?: number;
+  reasoning?: string;
+}
 
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY || '';
-const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta/models';
-const DEFAULT_MODEL = 'gemini-3-flash-preview';  // Latest Gemini model
+const SUGGESTIONS_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    required: ['entityName', 'head', 'subhead'],
+    properties: {
+      entityName: { type: 'string' },
+      head: { type: 'string' },
+      subhead: { type: 'string' },
+      confidence: { type: 'number' },
+      reasoning: { type: 'string' },
+    },
+  },
+};
 
 // ============================================
 // GEMINI CLASSIFIER SERVICE
 // ============================================
 
-class GeminiClassifierService {
-  private apiKey: string;
-  private model: string;
-  private temperature: number;
-
-  constructor() {
-    this.apiKey = GEMINI_API_KEY;
-    this.model = DEFAULT_MODEL;
-    this.temperature = 0.2;
-  }
-
-  // Set config from Google Sheets MIS_Config
-  setConfig(config: GeminiConfig): void {
-    if (config.apiKey) {
-      this.apiKey = config.apiKey;
-    }
-    if (config.model) {
-      // Normalize model name - handle various formats
-      let modelName = config.model.trim();
-      // If it's a full path, extract just the model name
-      if (modelName.includes('/')) {
-        modelName = modelName.split('/').pop() || modelName;
-      }
-      this.model = modelName;
-    }
-    if (config.temperature !== undefined) {
-      this.temperature = Math.max(0, Math.min(1, config.temperature));
+const DEFAULT_MODEL = 'gemini-3-flash-preview';  // Latest Gemini model
+const DEFAULT_TEMPERATURE = 0.2;
+const DEFAULT_REVIEW_THRESHOLD = 80;
+
+/**
+ * Normalize a config from Google Sheets MIS_Config. Resolved per call rather
+ * than stored on the singleton, so concurrent requests never see each
+ * other's settings.
+ */
+function resolveConfig(config: GeminiConfig = {}): Required<GeminiConfig> {
+  let model = DEFAULT_MODEL;
+  if (config.model?.trim()) {
+    // Normalize model name - if it's a full path, extract just the model name
+    model = config.model.trim();
+    if (model.includes('/')) {
+      model = model.split('/').pop() || model;
     }
-    console.log(`Gemini config set: model=${this.model}, temperature=${this.temperature}`);
   }
+  return {
+    model,
+    temperature: config.temperature !== undefined ? Math.max(0, Math.min(1, config.temperature)) : DEFAULT_TEMPERATURE,
+    reviewThreshold: config.reviewThreshold !== undefined
+      ? Math.max(0, Math.min(100, config.reviewThreshold))
+      : DEFAULT_REVIEW_THRESHOLD,
+  };
+}
 
-  getConfig(): GeminiConfig {
-    return {
-      model: this.model,
-      temperature: this.temperature
-    };
+class GeminiClassifierService {
+  /** The settings a call with this config would use. */
+  getConfig(config: GeminiConfig = {}): GeminiConfig {
+    const { model, temperature, reviewThreshold } = resolveConfig(config);
+    const provider = llm.getProvider();
+    return { model: provider.name === 'gemini' ? model : provider.model, temperature, reviewThreshold };
   }
 
   private buildPrompt(
@@ -153,18 +166,21 @@ Respond ONLY with the JSON array, no other text.`;
   async classifyEntities(
     entities: EntityToClassify[],
     categories: MISCategory[],
-    existingRules: ClassificationRule[]
+    existingRules: ClassificationRule[],
+    config: GeminiConfig = {}
   ): Promise<ClassificationResult[]> {
     if (entities.length === 0) return [];
+    const { model, temperature, reviewThreshold } = resolveConfig(config);
 
-    // First, check for exact rule matches
+    // First, check for rule matches (active rules, lowest priority number first)
     const results: ClassificationResult[] = [];
     const entitiesToClassify: EntityToClassify[] = [];
+    const activeRules = existingRules
+      .filter(r => r.active !== false)
+      .sort((a, b) => (a.priority ?? 1) - (b.priority ?? 1));
 
     for (const entity of entities) {
-      const matchingRule = existingRules.find(r =>
-        (r.entityName || r.pattern).toLowerCase() === entity.name.toLowerCase()
-      );
+      const matchingRule = activeRules.find(r => this.matchesRule(entity.name, r));
 
       if (matchingRule) {
         results.push({
@@ -177,7 +193,7 @@ Respond ONLY with the JSON array, no other text.`;
         });
       } else {
         // Check for similarity match
-        const similarRule = this.findSimilarRule(entity.name, existingRules);
+        const similarRule = this.findSimilarRule(entity.name, activeRules);
         if (similarRule && similarRule.similarity > 0.8) {
           results.push({
             entityName: entity.name,
@@ -202,12 +218,24 @@ Respond ONLY with the JSON array, no other text.`;
     // Use Gemini for unmatched entities
     try {
       const prompt = this.buildPrompt(entitiesToClassify, categories, existingRules);
-      const geminiResults = await this.callGeminiAPI(prompt);
+      const provider = llm.getProvider();
+      const geminiResults = await llm.generateJson<GeminiSuggestion[]>(
+        'classification',
+        {
+          parts: [{ text: prompt }],
+          // The MIS_Config model is a Gemini one; other providers keep theirs.
+          model: provider.name === 'gemini' ? model : undefined,
+          temperature,
+          topP: 0.8,
+          maxOutputTokens: 4096,
+        },
+        SUGGESTIONS_SCHEMA
+      );
 
-      // Parse and validate Gemini results
+      // Validate Gemini results against the categories
       for (const entity of entitiesToClassify) {
         const geminiResult = geminiResults.find(
-          (r: any) => r.entityName?.toLowerCase() === entity.name.toLowerCase()
+          r => r.entityName.toLowerCase() === entity.name.toLowerCase()
         );
 
         if (geminiResult && geminiResult.head && geminiResult.subhead) {
@@ -224,7 +252,7 @@ Respond ONLY with the JSON array, no other text.`;
               confidence: geminiResult.confidence || 70,
               source: 'gemini',
               reasoning: geminiResult.reasoning,
-              needsReview: (geminiResult.confidence || 70) < 80
+              needsReview: (geminiResult.confidence || 70) < reviewThreshold
             });
           } else {
             // Gemini returned invalid category, mark for review
@@ -251,7 +279,7 @@ Respond ONLY with the JSON array, no other text.`;
         }
       }
     } catch (error) {
-      console.error('Gemini API error:', error);
+      console.error('AI classification error:', error instanceof Error ? error.message : error);
       // Mark all unclassified entities as needing review
       for (const entity of entitiesToClassify) {
         results.push({
@@ -269,60 +297,22 @@ Respond ONLY with the JSON array, no other text.`;
     return results;
   }
 
-  private async callGeminiAPI(prompt: string): Promise<any[]> {
-    if (!this.apiKey) {
-      throw new Error('GEMINI_API_KEY environment variable is not set on the server');
-    }
-    // Build URL dynamically based on model
-    const apiUrl = `${GEMINI_API_BASE}/${this.model}:generateContent`;
-    console.log(`Calling Gemini API: ${apiUrl} (temperature=${this.temperature})`);
-
-    const response = await fetch(`${apiUrl}?key=${this.apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{
-            text: prompt
-          }]
-        }],
-        generationConfig: {
-          temperature: this.temperature,
-          topP: 0.8,
-          maxOutputTokens: 4096,
+  private matchesRule(entityName: string, rule: ClassificationRule): boolean {
+    const name = entityName.toLowerCase().trim();
+    const pattern = (rule.pattern || rule.entityName || '').toLowerCase().trim();
+    if (!pattern) return false;
+
+    switch (rule.matchType) {
+      case 'contains':
+        return name.includes(pattern);
+      case 'regex':
+        try {
+          return new RegExp(rule.pattern, 'i').test(entityName);
+        } catch {
+          return name.includes(pattern);
         }
-      })
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
-    }
-
-    const data = await response.json() as {
-      candidates?: { content?: { parts?: { text?: string }[] } }[]
-    };
-    const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
-
-    if (!text) {
-      throw new Error('Empty response from Gemini');
-    }
-
-    // Parse JSON from response (may include markdown code blocks)
-    let jsonText = text;
-    if (text.includes('```json')) {
-      jsonText = text.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-    } else if (text.includes('```')) {
-      jsonText = text.replace(/```\n?/g, '');
-    }
-
-    try {
-      return JSON.parse(jsonText.trim());
-    } catch (parseError) {
-      console.error('Failed to parse Gemini response:', text);
-      throw new Error('Invalid JSON response from Gemini');
+      default:
+        return name === pattern;
     }
   }
 
@@ -335,6 +325,8 @@ Respond ONLY with the JSON array, no other text.`;
     const normalizedName = entityName.toLowerCase().trim();
 
     for (const rule of rules) {
+      // Regex patterns aren't words — they either matched above or not at all
+      if (rule.matchType === 'regex') continue;
       const normalizedRuleName = (rule.entityName || rule.pattern || '').toLowerCase().trim();
       if (!normalizedRuleName) continue;
 
@@ -384,12 +376,14 @@ Respond ONLY with the JSON array, no other text.`;
     entityType: 'ledger' | 'party',
     categories: MISCategory[],
     rules: ClassificationRule[],
-    context?: string
+    context?: string,
+    config?: GeminiConfig
   ): Promise<ClassificationResult> {
     const results = await this.classifyEntities(
       [{ name: entityName, type: entityType, context }],
       categories,
-      rules
+      rules,
+      config
     );
 
     return results[0] || {
@@ -405,14 +399,15 @@ Respond ONLY with the JSON array, no other text.`;
   // Bootstrap classification rules from sample data
   async bootstrapFromSampleData(
     sampleEntities: string[],
-    categories: MISCategory[]
+    categories: MISCategory[],
+    config?: GeminiConfig
   ): Promise<ClassificationResult[]> {
     const entities: EntityToClassify[] = sampleEntities.map(name => ({
       name,
       type: 'ledger' as const
     }));
 
-    return this.classifyEntities(entities, categories, []);
+    return this.classifyEntities(entities, categories, [], config);
   }
 }
 
@@ -1,4 +1,5 @@
 import { google, drive_v3 } from 'googleapis';
+import { Readable } from 'stream';
 
 // State code mappings
 const STATE_CODES: Record<string, string> = {
@@ -38,7 +39,7 @@ export interface DriveFileInfo {
   id: string;
   name: string;
   mimeType: string;
-  type: 'balance_sheet' | 'sales_register' | 'purchase_register' | 'journal_register' | 'unknown';
+  type: 'balance_sheet' | 'sales_register' | 'purchase_register' | 'journal_register' | 'tally_daybook' | 'unknown';
   month: number;
   year: number;
   stateCode: string;
@@ -57,9 +58,22 @@ export interface DriveMonthData {
     hasSalesRegister: boolean;
     hasPurchaseRegister: boolean;
     hasJournalRegister: boolean;
+    hasDayBook: boolean;
   }[];
 }
 
+export interface DriveUploadResult {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  webViewLink?: string;
+}
+
+// Compliance evidence (challans, acknowledgements) lives beside the inputs,
+// one sub-folder per period
+const EVIDENCE_FOLDER_NAME = 'Heatronics Compliance Evidence';
+
 export interface DriveFolderStructure {
   inputsFolderId: string;
   years: {
@@ -71,6 +85,8 @@ export interface DriveFolderStructure {
 
 class GoogleDriveService {
   private drive: drive_v3.Drive | null = null;
+  private writer: drive_v3.Drive | null = null;
+  private readonly folderIds = new Map<string, string>();
   private inputsFolderId: string;
 
   constructor() {
@@ -157,6 +173,8 @@ class GoogleDriveService {
       type = 'purchase_register';
     } else if (baseName === 'JR' || baseName.startsWith('JR ') || baseName.startsWith('JR_') || baseName.startsWith('JR-')) {
       type = 'journal_register';
+    } else if (baseName === 'DB' || baseName.startsWith('DB ') || baseName.startsWith('DB_') || baseName.startsWith('DB-')) {
+      type = 'tally_daybook';
     }
     // Full names (for backward compatibility)
     else if (upperName.includes('BALANCE')) {
@@ -167,6 +185,10 @@ class GoogleDriveService {
       type = 'purchase_register';
     } else if (upperName.includes('JOURNALREGISTER') || upperName.includes('JOURNAL REGISTER') || upperName.includes('JOURNAL_REGISTER')) {
       type = 'journal_register';
+    } else if (upperName.includes('DAYBOOK') || upperName.includes('DAY BOOK') || upperName.includes('DAY_BOOK')) {
+      // Tally's native XML export; one file stands in for SR, PR and JR, so
+      // it's recognised by name only — not every .xml in the folder is one
+      type = 'tally_daybook';
     }
 
     // Extract state code (look for KA, MH, HR, UP, TL in filename) - optional since folder provides this
@@ -223,7 +245,7 @@ class GoogleDriveService {
     }
 
     // Now baseFolders should be year folders (2023-24, 2024-25, etc.)
-    const yearFolders = baseFolders;
+    const yearFolders = baseFolders.filter(f => f.name !== EVIDENCE_FOLDER_NAME);
 
     for (const yearFolder of yearFolders) {
       const yearData = {
@@ -277,7 +299,8 @@ class GoogleDriveService {
             hasBalanceSheet: stateFiles.some(f => f.type === 'balance_sheet'),
             hasSalesRegister: stateFiles.some(f => f.type === 'sales_register'),
             hasPurchaseRegister: stateFiles.some(f => f.type === 'purchase_register'),
-            hasJournalRegister: stateFiles.some(f => f.type === 'journal_register')
+            hasJournalRegister: stateFiles.some(f => f.type === 'journal_register'),
+            hasDayBook: stateFiles.some(f => f.type === 'tally_daybook')
           });
         }
 
@@ -334,6 +357,72 @@ class GoogleDriveService {
     return allFiles;
   }
 
+  /**
+   * Uploads go through a second client with the `drive.file` scope: it can
+   * create files, and sees only the ones it created — which is all it needs.
+   */
+  private async getWriter(): Promise<drive_v3.Drive> {
+    if (!this.writer) {
+      const auth = new google.auth.GoogleAuth({
+        scopes: ['https://www.googleapis.com/auth/drive.file'],
+      });
+      this.writer = google.drive({ version: 'v3', auth });
+    }
+    return this.writer;
+  }
+
+  /** Find (or create) a folder by name under a parent; ids are cached for the process. */
+  private async ensureFolder(parentId: string, name: string): Promise<string> {
+    const cacheKey = `${parentId}/${name}`;
+    const cached = this.folderIds.get(cacheKey);
+    if (cached) return cached;
+
+    const writer = await this.getWriter();
+    const existing = await writer.files.list({
+      q: `'${parentId}' in parents and mimeType = 'application/vnd.google-apps.folder' and name = '${name.replace(/'/g, "\\'")}' and trashed = false`,
+      fields: 'files(id)',
+      pageSize: 1
+    });
+    let id = existing.data.files?.[0]?.id;
+    if (!id) {
+      const created = await writer.files.create({
+        requestBody: { name, mimeType: 'application/vnd.google-apps.folder', parents: [parentId] },
+        fields: 'id'
+      });
+      id = created.data.id;
+    }
+    if (!id) throw new Error(`Could not create Drive folder "${name}"`);
+    this.folderIds.set(cacheKey, id);
+    return id;
+  }
+
+  /**
+   * Store a compliance evidence file (challan PDF, acknowledgement) under
+   * "Heatronics Compliance Evidence/<period>". Read it back with
+   * getFileContent like any other Drive file.
+   */
+  async uploadEvidence(period: string, fileName: string, mimeType: string, content: Buffer): Promise<DriveUploadResult> {
+    if (content.length === 0) throw new Error('Empty file payload');
+    const root = await this.ensureFolder(this.inputsFolderId, EVIDENCE_FOLDER_NAME);
+    const folderId = await this.ensureFolder(root, period);
+
+    const writer = await this.getWriter();
+    const created = await writer.files.create({
+      requestBody: { name: fileName, mimeType, parents: [folderId] },
+      media: { mimeType, body: Readable.from(content) },
+      fields: 'id, name, mimeType, size, webViewLink'
+    });
+    if (!created.data.id) throw new Error('Drive returned no fileId');
+
+    return {
+      id: created.data.id,
+      name: created.data.name || fileName,
+      mimeType: created.data.mimeType || mimeType,
+      size: Number(created.data.size ?? content.length),
+      webViewLink: created.data.webViewLink || undefined
+    };
+  }
+
   setInputsFolderId(folderId: string) {
     this.inputsFolderId = folderId;
   }
@@ -53,9 +53,23 @@ const SHEET_NAMES = {
   CATEGORIES: 'MIS_Categories',
   RULES: 'MIS_Classification_Rules',
   HISTORY: 'MIS_Classification_History',
-  CONFIG: 'MIS_Config'
+  CONFIG: 'MIS_Config',
+  TASKS: 'Tasks'
 };
 
+/** A row of the Task Tracker sheet — same shape as the client's Task. */
+export interface TaskTrackerTask {
+  id: string;
+  title: string;
+  description?: string;
+  frequency: 'daily' | 'weekly' | 'monthly' | 'adhoc';
+  isRepeatable: boolean;
+  dueDay?: number;  // monthly: 1-31, weekly: 0-6 (Sunday-Saturday)
+  category?: string;
+  owner?: string;   // Task engine tasks only; the sheet has no owner column
+  createdAt: string;
+}
+
 // ============================================
 // CONFIG TYPES
 // ============================================
@@ -70,6 +84,58 @@ export interface MISConfig {
   lastMigrationDate: string;
 }
 
+const DEFAULT_GEMINI_PROMPT = `You are a financial transaction classifier for Heatronics, a D2C consumer electronics company in India.
+
+Given a transaction entity name (ledger account or party name), classify it into the appropriate MIS Head and Subhead.
+
+Available Categories:
+- A. Revenue: Website, Amazon, Blinkit, Offline & OEM
+- B. Returns: Website, Amazon, Blinkit, Offline & OEM
+- C. Discounts: Website, Amazon, Blinkit, Offline & OEM
+- D. Taxes: Website, Amazon, Blinkit, Offline & OEM
+- E. COGM: Raw Materials & Inventory, Manufacturing Wages, Contract Wages (Mfg), Inbound Transport, Factory Rent, Factory Electricity, Factory Maintainence, Job work
+- F. Channel & Fulfillment: Amazon Fees, Blinkit Fees, D2C Fees
+- G. Sales & Marketing: Facebook Ads, Google Ads, Amazon Ads, Blinkit Ads, Agency Fees
+- H. Platform Costs: Shopify Subscription, Wati Subscription, Shopflo subscription
+- I. Operating Expenses: Salaries (Admin, Mgmt), Miscellaneous (Travel, insurance), Legal & CA expenses, Platform Costs (CRM, inventory softwares), Administrative Expenses (Office Rent, utilities, admin supplies)
+- J. Non-Operating: Less: Interest Expense, Less: Depreciation, Less: Amortization, Less: Income Tax
+- X. Exclude: Personal Expenses, Owner Withdrawals
+- Z. Ignore: GST Input/Output, TDS, Bank Transfers, Inter-company
+
+Guidelines:
+- Amazon/Blinkit platform fees and logistics → F. Channel & Fulfillment
+- Shiprocket, payment gateways → F. Channel & Fulfillment > D2C Fees
+- Facebook/Meta, Google ads → G. Sales & Marketing
+- Manufacturing employee names → E. COGM > Manufacturing Wages
+- Admin employee names → I. Operating Expenses > Salaries
+- GST entries (CGST, SGST, IGST) → Z. Ignore
+- Bank accounts, cash → Z. Ignore
+- TDS entries → Z. Ignore
+- Personal expenses → X. Exclude
+
+Return JSON format:
+{
+  "head": "selected head",
+  "subhead": "selected subhead",
+  "confidence": 0-100,
+  "reasoning": "brief explanation"
+}
+
+If unsure, set confidence below 70.`;
+
+/** Config used until MIS_Config has a value for a key. */
+export function defaultMISConfig(): MISConfig {
+  return {
+    geminiPrompt: DEFAULT_GEMINI_PROMPT,
+    geminiModel: 'gemini-3-flash-preview',  // Latest Gemini model
+    geminiTemperature: 0.2,
+    confidenceAutoAccept: 85,
+    confidenceNeedsReview: 70,
+    migrationCompleted: false,
+    lastMigrationDate: ''
+  };
+}
+
 // ============================================
 // GOOGLE SHEETS SERVICE
 // ============================================
@@ -428,10 +494,18 @@ class GoogleSheetsService {
   }
 
   async incrementRuleUsage(ruleId: string): Promise<void> {
+    await this.incrementRulesUsage([ruleId]);
+  }
+
+  // One read of the rules for the whole batch; each used rule's row is rewritten once.
+  async incrementRulesUsage(ruleIds: string[]): Promise<void> {
+    if (ruleIds.length === 0) return;
     const rules = await this.getRules();
-    const rule = rules.find(r => r.ruleId === ruleId);
-    if (rule) {
-      await this.updateRule(ruleId, { timesUsed: rule.timesUsed + 1 });
+    for (const ruleId of new Set(ruleIds)) {
+      const rule = rules.find(r => r.ruleId === ruleId);
+      if (rule) {
+        await this.updateRule(ruleId, { timesUsed: rule.timesUsed + 1 });
+      }
     }
   }
 
@@ -478,15 +552,7 @@ class GoogleSheetsService {
   async getConfig(): Promise<MISConfig> {
     if (!this.sheets) throw new Error('Sheets not initialized');
 
-    const defaultConfig: MISConfig = {
-      geminiPrompt: this.getDefaultGeminiPrompt(),
-      geminiModel: 'gemini-3-flash-preview',  // Latest Gemini model
-      geminiTemperature: 0.2,
-      confidenceAutoAccept: 85,
-      confidenceNeedsReview: 70,
-      migrationCompleted: false,
-      lastMigrationDate: ''
-    };
+    const defaultConfig = defaultMISConfig();
 
     try {
       const response = await this.sheets.spreadsheets.values.get({
@@ -581,17 +647,7 @@ class GoogleSheetsService {
     if (!this.sheets) throw new Error('Sheets not initialized');
 
     try {
-      const defaultConfig: MISConfig = {
-        geminiPrompt: this.getDefaultGeminiPrompt(),
-        geminiModel: 'gemini-3-flash-preview',  // Latest Gemini model
-        geminiTemperature: 0.2,
-        confidenceAutoAccept: 85,
-        confidenceNeedsReview: 70,
-        migrationCompleted: false,
-        lastMigrationDate: ''
-      };
-
-      await this.saveConfig(defaultConfig);
+      await this.saveConfig(defaultMISConfig());
       console.log('Config sheet initialized');
       return true;
     } catch (error) {
@@ -600,77 +656,38 @@ class GoogleSheetsService {
     }
   }
 
-  private getDefaultGeminiPrompt(): string {
-    return `You are a financial transaction classifier for Heatronics, a D2C consumer electronics company in India.
-
-Given a transaction entity name (ledger account or party name), classify it into the appropriate MIS Head and Subhead.
-
-Available Categories:
-- A. Revenue: Website, Amazon, Blinkit, Offline & OEM
-- B. Returns: Website, Amazon, Blinkit, Offline & OEM
-- C. Discounts: Website, Amazon, Blinkit, Offline & OEM
-- D. Taxes: Website, Amazon, Blinkit, Offline & OEM
-- E. COGM: Raw Materials & Inventory, Manufacturing Wages, Contract Wages (Mfg), Inbound Transport, Factory Rent, Factory Electricity, Factory Maintainence, Job work
-- F. Channel & Fulfillment: Amazon Fees, Blinkit Fees, D2C Fees
-- G. Sales & Marketing: Facebook Ads, Google Ads, Amazon Ads, Blinkit Ads, Agency Fees
-- H. Platform Costs: Shopify Subscription, Wati Subscription, Shopflo subscription
-- I. Operating Expenses: Salaries (Admin, Mgmt), Miscellaneous (Travel, insurance), Legal & CA expenses, Platform Costs (CRM, inventory softwares), Administrative Expenses (Office Rent, utilities, admin supplies)
-- J. Non-Operating: Less: Interest Expense, Less: Depreciation, Less: Amortization, Less: Income Tax
-- X. Exclude: Personal Expenses, Owner Withdrawals
-- Z. Ignore: GST Input/Output, TDS, Bank Transfers, Inter-company
-
-Guidelines:
-- Amazon/Blinkit platform fees and logistics → F. Channel & Fulfillment
-- Shiprocket, payment gateways → F. Channel & Fulfillment > D2C Fees
-- Facebook/Meta, Google ads → G. Sales & Marketing
-- Manufacturing employee names → E. COGM > Manufacturing Wages
-- Admin employee names → I. Operating Expenses > Salaries
-- GST entries (CGST, SGST, IGST) → Z. Ignore
-- Bank accounts, cash → Z. Ignore
-- TDS entries → Z. Ignore
-- Personal expenses → X. Exclude
-
-Return JSON format:
-{
-  "head": "selected head",
-  "subhead": "selected subhead",
-  "confidence": 0-100,
-  "reasoning": "brief explanation"
-}
-
-If unsure, set confidence below 70.`;
-  }
-
   // ============================================
   // HISTORY OPERATIONS
   // ============================================
 
   async logClassification(entry: Omit<ClassificationHistoryEntry, 'timestamp'>): Promise<boolean> {
+    return this.logClassifications([entry]);
+  }
+
+  // Appends every entry in a single request.
+  async logClassifications(entries: Omit<ClassificationHistoryEntry, 'timestamp'>[]): Promise<boolean> {
     if (!this.sheets) throw new Error('Sheets not initialized');
+    if (entries.length === 0) return true;
 
     try {
-      const fullEntry: ClassificationHistoryEntry = {
-        ...entry,
-        timestamp: new Date().toISOString()
-      };
+      const timestamp = new Date().toISOString();
+      const values = entries.map(entry => [
+        timestamp,
+        entry.period,
+        entry.state,
+        entry.entity,
+        entry.amount,
+        entry.head,
+        entry.subhead,
+        entry.classifiedBy,
+        entry.ruleId
+      ]);
 
       await this.sheets.spreadsheets.values.append({
         spreadsheetId: SHEET_ID,
         range: `${SHEET_NAMES.HISTORY}!A:I`,
         valueInputOption: 'RAW',
-        requestBody: {
-          values: [[
-            fullEntry.timestamp,
-            fullEntry.period,
-            fullEntry.state,
-            fullEntry.entity,
-            fullEntry.amount,
-            fullEntry.head,
-            fullEntry.subhead,
-            fullEntry.classifiedBy,
-            fullEntry.ruleId
-          ]]
-        }
+        requestBody: { values }
       });
 
       return true;
@@ -731,6 +748,46 @@ If unsure, set confidence below 70.`;
     }
   }
 
+  // ============================================
+  // TASK TRACKER
+  // ============================================
+
+  async getTasks(): Promise<TaskTrackerTask[]> {
+    if (!this.sheets) throw new Error('Sheets not initialized');
+
+    try {
+      const response = await this.sheets.spreadsheets.values.get({
+        spreadsheetId: SHEET_ID,
+        range: `${SHEET_NAMES.TASKS}!A:H`,
+      });
+
+      const rows = response.data.values;
+      if (!rows || rows.length <= 1) return [];
+
+      // Columns are matched by header, as the Task Tracker page reads them
+      const headers = rows[0].map((h: string) => String(h).toLowerCase().replace(/\s/g, ''));
+      const col = (row: string[], name: string) => row[headers.indexOf(name)] ?? '';
+
+      return rows.slice(1).map(row => {
+        const frequency = col(row, 'frequency');
+        const dueDay = parseInt(col(row, 'dueday'));
+        return {
+          id: col(row, 'id'),
+          title: col(row, 'title'),
+          description: col(row, 'description') || undefined,
+          frequency: (['daily', 'weekly', 'monthly', 'adhoc'].includes(frequency) ? frequency : 'monthly') as TaskTrackerTask['frequency'],
+          isRepeatable: String(col(row, 'isrepeatable')).toUpperCase() === 'TRUE',
+          dueDay: isNaN(dueDay) ? undefined : dueDay,
+          category: col(row, 'category') || undefined,
+          createdAt: col(row, 'createdat') || new Date().toISOString()
+        };
+      }).filter(task => task.id && task.title);
+    } catch (error) {
+      console.error('Error fetching tasks:', error);
+      return [];
+    }
+  }
+
   // ============================================
   // STATISTICS
   // ============================================
@@ -0,0 +1,86 @@
+import { JsonStateStore, StateBackend, createBackend } from './jsonStore.js';
+
+// ---------------------------------------------------------------------------
+// GST Reconciliation Store
+//
+// The outcome of reconciling a GST return against the books, per GSTIN,
+// period ("YYYY-MM") and return (GSTR-1 ↔ sales register, GSTR-2B ↔
+// purchase register). The matching runs on the client against the parsed
+// registers; only the summary is kept here, for the Accounts compliance
+// view. Re-running a reconciliation replaces its entry.
+// ---------------------------------------------------------------------------
+
+export const GST_RETURN_TYPES = ['GSTR1', 'GSTR2B'] as const;
+export type GstReturnType = typeof GST_RETURN_TYPES[number];
+
+export interface GstReconCounts {
+  matched: number;
+  mismatch: number;
+  missingInBooks: number;
+  missingInPortal: number;
+}
+
+export interface GstSupplierRisk {
+  gstin: string;
+  name: string;
+  invoices: number;
+  itcAtRisk: number;
+}
+
+export interface GstReconSummary {
+  gstin: string;
+  state: string;
+  period: string;
+  returnType: GstReturnType;
+  counts: GstReconCounts;
+  bookTax: number;
+  portalTax: number;
+  itcAtRisk: number;
+  suppliers: GstSupplierRisk[];
+  source: string;
+  reconciledAt: string;
+  reconciledBy: string;
+}
+
+export interface GstReconState {
+  /** "GSTIN:YYYY-MM:GSTR1" → summary */
+  summaries: Record<string, GstReconSummary>;
+  updatedAt: string;
+}
+
+export function gstReconKey(gstin: string, period: string, returnType: GstReturnType): string {
+  return `${gstin}:${period}:${returnType}`;
+}
+
+class GstReconStore {
+  private readonly store: JsonStateStore<GstReconState>;
+
+  constructor(backend: StateBackend<GstReconState>) {
+    this.store = new JsonStateStore(backend, () => ({ summaries: {}, updatedAt: '' }));
+  }
+
+  get(): Promise<GstReconState> {
+    return this.store.read();
+  }
+
+  put(summary: Omit<GstReconSummary, 'reconciledAt' | 'reconciledBy'>, by: string): Promise<GstReconState> {
+    return this.store.mutate(state => {
+      const now = new Date().toISOString();
+      state.summaries[gstReconKey(summary.gstin, summary.period, summary.returnType)] = {
+        ...summary,
+        reconciledAt: now,
+        reconciledBy: by
+      };
+      state.updatedAt = now;
+      return state;
+    });
+  }
+}
+
+export function createGstReconStore(
+  backend: StateBackend<GstReconState> = createBackend('gst-recon.json')
+): GstReconStore {
+  return new GstReconStore(backend);
+}
+
+export const gstReconStore = createGstReconStore();
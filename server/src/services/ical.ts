@@ -0,0 +1,98 @@
+// ---------------------------------------------------------------------------
+// iCalendar (RFC 5545) rendering for the calendar feeds.
+//
+// All events are all-day. Lines are CRLF-terminated and folded at 75
+// octets; text values are escaped. Enough of the spec for Google Calendar,
+// Outlook and Apple Calendar subscriptions — nothing more.
+// ---------------------------------------------------------------------------
+
+export interface CalendarEvent {
+  uid: string;
+  /** YYYY-MM-DD; the first occurrence when `rrule` is set. */
+  date: string;
+  summary: string;
+  description?: string;
+  categories?: string[];
+  /** e.g. "FREQ=MONTHLY;BYMONTHDAY=7" */
+  rrule?: string;
+  /** Reminder at 9 am this many days before; none when unset. */
+  alarmDaysBefore?: number;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** Fold to 75 octets per line without splitting a multi-byte character. */
+function fold(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const ch of line) {
+    const size = Buffer.byteLength(ch);
+    const limit = parts.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += ch;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function compactDate(iso: string): string {
+  return iso.replace(/-/g, '');
+}
+
+function nextDay(iso: string): string {
+  const [y, m, d] = iso.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + 1)).toISOString().slice(0, 10);
+}
+
+export function renderCalendar(name: string, events: CalendarEvent[], now: Date = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Heatronics//Accounting Dashboard//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'X-WR-TIMEZONE:Asia/Kolkata',
+    'REFRESH-INTERVAL;VALUE=DURATION:PT6H',
+    'X-PUBLISHED-TTL:PT6H'
+  ];
+  for (const e of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${e.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${compactDate(e.date)}`,
+      `DTEND;VALUE=DATE:${compactDate(nextDay(e.date))}`,
+      `SUMMARY:${escapeText(e.summary)}`,
+      'TRANSP:TRANSPARENT'
+    );
+    if (e.rrule) lines.push(`RRULE:${e.rrule}`);
+    if (e.description) lines.push(`DESCRIPTION:${escapeText(e.description)}`);
+    if (e.categories?.length) lines.push(`CATEGORIES:${e.categories.map(escapeText).join(',')}`);
+    if (e.alarmDaysBefore !== undefined) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(e.summary)}`,
+        `TRIGGER:-PT${e.alarmDaysBefore * 24 - 9}H`,
+        'END:VALARM'
+      );
+    }
+    lines.push('END:VEVENT');
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
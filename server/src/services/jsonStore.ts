@@ -0,0 +1,134 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// ---------------------------------------------------------------------------
+// JSON State Store
+//
+// Small persistence primitive shared by the server-side stores (MIS
+// sessions, period close, ...). Each store owns one JSON document:
+//
+//   memory  — kept in the process only. Wiped on restart; used for tests
+//             and quick local runs (MIS_STORE=memory).
+//   file    — MIS_DATA_DIR/<fileName>, written atomically (tmp + rename).
+//             Point MIS_DATA_DIR at a mounted volume on Cloud Run.
+//
+// Mutations are serialised per store so concurrent requests can't
+// interleave a read-modify-write.
+// ---------------------------------------------------------------------------
+
+export interface StateBackend<T> {
+  load(): Promise<T | null>;
+  save(state: T): Promise<void>;
+}
+
+export class MemoryBackend<T> implements StateBackend<T> {
+  private state: T | null = null;
+
+  async load(): Promise<T | null> {
+    return this.state ? structuredClone(this.state) : null;
+  }
+
+  async save(state: T): Promise<void> {
+    this.state = structuredClone(state);
+  }
+}
+
+export class JsonFileBackend<T> implements StateBackend<T> {
+  constructor(private readonly filePath: string) {}
+
+  async load(): Promise<T | null> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(raw) as T;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw err;
+    }
+  }
+
+  async save(state: T): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(state), 'utf8');
+    await fs.rename(tmp, this.filePath);
+  }
+}
+
+/** Directory used by file-backed stores. */
+export function getDataDir(): string {
+  return process.env.MIS_DATA_DIR || path.join(process.cwd(), 'data');
+}
+
+/**
+ * Pick the backend from the environment:
+ *   MIS_STORE=memory           → MemoryBackend
+ *   MIS_STORE=file (default)   → JsonFileBackend under MIS_DATA_DIR
+ */
+export function createBackend<T>(fileName: string): StateBackend<T> {
+  const backend = (process.env.MIS_STORE || 'file').toLowerCase();
+  if (backend === 'memory') return new MemoryBackend<T>();
+  return new JsonFileBackend<T>(path.join(getDataDir(), fileName));
+}
+
+export class JsonStateStore<T> {
+  private cache: T | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly backend: StateBackend<T>,
+    private readonly empty: () => T
+  ) {}
+
+  async read(): Promise<T> {
+    if (this.cache) return this.cache;
+    const loaded = await this.backend.load();
+    this.cache = loaded ? { ...this.empty(), ...loaded } : this.empty();
+    return this.cache;
+  }
+
+  /**
+   * Run `fn` against the current state and persist the result. `fn` may
+   * throw (or reject) to abort — nothing is saved and the in-memory copy
+   * is reloaded on the next read.
+   */
+  mutate<R>(fn: (state: T) => R | Promise<R>): Promise<R> {
+    const run = this.queue.then(async () => {
+      const state = await this.read();
+      try {
+        const result = await fn(state);
+        await this.backend.save(state);
+        return result;
+      } catch (err) {
+        this.cache = null;
+        throw err;
+      }
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+// ---------- Maps keyed by request input ----------
+//
+// Stores key their maps by ids and periods that arrive in requests. Read
+// them through own properties only and give new maps no prototype, so
+// "__proto__" and friends never reach Object.prototype.
+
+/** A map with no prototype. */
+export function emptyMap<T>(): Record<string, T> {
+  return Object.create(null) as Record<string, T>;
+}
+
+/** The map's own entry for `key`; inherited properties don't count. */
+export function own<T>(map: Record<string, T>, key: string): T | undefined {
+  return Object.hasOwn(map, key) ? map[key] : undefined;
+}
+
+/** The map's own entry for `key`, set to `init()` first if there isn't one. */
+export function ownOrInit<T>(map: Record<string, T>, key: string, init: () => T): T {
+  if (!Object.hasOwn(map, key)) {
+    // Defined rather than assigned: maps loaded from disk have a prototype
+    Object.defineProperty(map, key, { value: init(), writable: true, enumerable: true, configurable: true });
+  }
+  return map[key];
+}
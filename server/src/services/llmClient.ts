@@ -0,0 +1,301 @@
+import {
+  LlmProvider,
+  LlmRequest,
+  LlmResponse,
+  LlmHttpError,
+  createProviderFromEnv,
+} from './llmProviders.js';
+
+// ---------------------------------------------------------------------------
+// LLM Client
+//
+// What every feature gets around a provider call:
+//   - retries with exponential backoff on 429 / 5xx / network errors
+//   - a per-attempt timeout (LLM_TIMEOUT_MS, default 90s)
+//   - truncated or blocked responses rejected instead of half-parsed
+//   - JSON extraction plus validation against a small JSON-schema subset
+//   - token and cost accounting per feature (GET /api/llm/usage)
+// ---------------------------------------------------------------------------
+
+/** Response cut short by the model (token cap, safety filter). */
+export class LlmIncompleteError extends Error {
+  constructor(public readonly finishReason: LlmResponse['finishReason']) {
+    super(`LLM response was incomplete (finishReason=${finishReason})`);
+    this.name = 'LlmIncompleteError';
+  }
+}
+
+/** Response that isn't valid JSON or doesn't match the expected schema. */
+export class LlmResponseError extends Error {
+  constructor(message: string, public readonly problems: string[] = []) {
+    super(message);
+    this.name = 'LlmResponseError';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// JSON schema (the subset the features need)
+// ---------------------------------------------------------------------------
+
+type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchema {
+  type?: JsonType | JsonType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  minItems?: number;
+  enum?: unknown[];
+}
+
+function jsonTypeOf(value: unknown): JsonType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonType;
+}
+
+/** Problems found in `value`, as "$.path: message" strings; empty when it matches. */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, at: string = '$'): string[] {
+  const problems: string[] = [];
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = jsonTypeOf(value);
+    const ok = allowed.includes(actual) || (actual === 'integer' && allowed.includes('number'));
+    if (!ok) return [`${at}: expected ${allowed.join(' | ')}, got ${actual}`];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    problems.push(`${at}: ${JSON.stringify(value)} is not one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`);
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      problems.push(`${at}: expected at least ${schema.minItems} item(s)`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => problems.push(...validateJsonSchema(item, schema.items!, `${at}[${i}]`)));
+    }
+  } else if (value && typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (obj[key] === undefined) problems.push(`${at}.${key}: required`);
+    }
+    for (const [key, sub] of Object.entries(schema.properties ?? {})) {
+      if (obj[key] !== undefined) problems.push(...validateJsonSchema(obj[key], sub, `${at}.${key}`));
+    }
+  }
+  return problems;
+}
+
+/** Parse a model's JSON reply, tolerating ```json fences. */
+export function extractJson(text: string): unknown {
+  let jsonText = text.trim();
+  if (jsonText.includes('```json')) {
+    jsonText = jsonText.replace(/```json\n?/g, '').replace(/```\n?/g, '');
+  } else if (jsonText.includes('```')) {
+    jsonText = jsonText.replace(/```\n?/g, '');
+  }
+  jsonText = jsonText.trim();
+  try {
+    return JSON.parse(jsonText);
+  } catch (e) {
+    // Log a window around the failure point so it can be diagnosed without a repro.
+    const message = e instanceof Error ? e.message : String(e);
+    const posMatch = /position\s+(\d+)/.exec(message);
+    const pos = posMatch ? parseInt(posMatch[1], 10) : -1;
+    const snippet =
+      pos >= 0
+        ? jsonText.slice(Math.max(0, pos - 80), Math.min(jsonText.length, pos + 80))
+        : jsonText.slice(0, 240);
+    console.error('LLM JSON parse failed:', message);
+    console.error('Length:', jsonText.length, 'Snippet around failure:', JSON.stringify(snippet));
+    throw new LlmResponseError(
+      `AI returned malformed JSON (${message}). Length ${jsonText.length}. The response was likely truncated or contains an unescaped character.`
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Usage accounting
+// ---------------------------------------------------------------------------
+
+/** List prices in USD per 1M tokens, for budgeting only. Unlisted models are counted as unpriced. */
+const PRICE_PER_MTOK: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+  'gemini-2.5-pro': { input: 1.25, output: 10.00 },
+  'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+};
+
+export interface LlmFeatureUsage {
+  calls: number;
+  failures: number;
+  retries: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  /** Calls on models missing from the price table (not in costUsd). */
+  unpricedCalls: number;
+  lastCallAt: string;
+}
+
+export function estimateCostUsd(model: string, inputTokens: number, outputTokens: number): number | null {
+  const price = PRICE_PER_MTOK[model];
+  if (!price) return null;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+class LlmUsageLedger {
+  private readonly byFeature = new Map<string, LlmFeatureUsage>();
+  private readonly since = new Date().toISOString();
+
+  private entry(feature: string): LlmFeatureUsage {
+    let usage = this.byFeature.get(feature);
+    if (!usage) {
+      usage = { calls: 0, failures: 0, retries: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, unpricedCalls: 0, lastCallAt: '' };
+      this.byFeature.set(feature, usage);
+    }
+    return usage;
+  }
+
+  record(feature: string, response: LlmResponse, retries: number): void {
+    const usage = this.entry(feature);
+    const cost = estimateCostUsd(response.model, response.usage.inputTokens, response.usage.outputTokens);
+    usage.calls += 1;
+    usage.retries += retries;
+    usage.inputTokens += response.usage.inputTokens;
+    usage.outputTokens += response.usage.outputTokens;
+    if (cost === null) usage.unpricedCalls += 1;
+    else usage.costUsd += cost;
+    usage.lastCallAt = new Date().toISOString();
+  }
+
+  recordFailure(feature: string, retries: number): void {
+    const usage = this.entry(feature);
+    usage.failures += 1;
+    usage.retries += retries;
+    usage.lastCallAt = new Date().toISOString();
+  }
+
+  /** Totals since the process started. */
+  snapshot(): { since: string; features: Record<string, LlmFeatureUsage> } {
+    return { since: this.since, features: Object.fromEntries([...this.byFeature].map(([k, v]) => [k, { ...v }])) };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Client
+// ---------------------------------------------------------------------------
+
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+
+export interface LlmClientOptions {
+  maxAttempts?: number;
+  timeoutMs?: number;
+  /** Swappable so tests don't wait out the backoff. */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface LlmCallOptions {
+  /** Per-attempt timeout; defaults to the client's. */
+  timeoutMs?: number;
+}
+
+// 1.5s, 3s, 6s — caps total wait at ~10.5s before giving up.
+function backoffMs(attempt: number): number {
+  return Math.min(1500 * 2 ** (attempt - 1), 6000);
+}
+
+export class LlmClient {
+  private provider: LlmProvider | null;
+  private readonly maxAttempts: number;
+  private readonly timeoutMs: number;
+  private readonly sleep: (ms: number) => Promise<void>;
+  readonly usage = new LlmUsageLedger();
+
+  /** @param provider null = build from the environment on first use */
+  constructor(provider: LlmProvider | null = null, opts: LlmClientOptions = {}) {
+    this.provider = provider;
+    this.maxAttempts = opts.maxAttempts ?? 4;
+    this.timeoutMs = opts.timeoutMs ?? (parseInt(process.env.LLM_TIMEOUT_MS || '', 10) || 90_000);
+    this.sleep = opts.sleep ?? (ms => new Promise(resolve => setTimeout(resolve, ms)));
+  }
+
+  getProvider(): LlmProvider {
+    if (!this.provider) this.provider = createProviderFromEnv();
+    return this.provider;
+  }
+
+  /** Swap the provider, e.g. for a FixtureProvider in tests. */
+  setProvider(provider: LlmProvider): void {
+    this.provider = provider;
+  }
+
+  /**
+   * One completed response, after retries. `feature` labels the call in
+   * the usage ledger ("expense-booking", "classification", ...).
+   */
+  async generateText(feature: string, req: LlmRequest, opts: LlmCallOptions = {}): Promise<LlmResponse> {
+    const provider = this.getProvider();
+    const timeoutMs = opts.timeoutMs ?? this.timeoutMs;
+    let lastStatus = 0;
+    let lastErrorText = '';
+    let retries = 0;
+
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      try {
+        const response = await provider.generate({ ...req, signal: AbortSignal.timeout(timeoutMs) });
+        this.usage.record(feature, response, retries);
+        if (!response.text) throw new LlmResponseError(`Empty response from ${provider.name}`);
+        if (response.finishReason !== 'stop') throw new LlmIncompleteError(response.finishReason);
+        return response;
+      } catch (err) {
+        if (err instanceof LlmResponseError || err instanceof LlmIncompleteError) throw err;
+        if (err instanceof Error && err.name === 'TimeoutError') {
+          this.usage.recordFailure(feature, retries);
+          throw new Error(`${provider.name} did not answer within ${Math.round(timeoutMs / 1000)}s`);
+        }
+
+        const retryable = err instanceof LlmHttpError ? RETRYABLE_STATUS.has(err.status) : err instanceof TypeError;
+        lastStatus = err instanceof LlmHttpError ? err.status : 0;
+        lastErrorText = err instanceof LlmHttpError ? err.body : err instanceof Error ? err.message : String(err);
+        if (!retryable || attempt === this.maxAttempts) {
+          this.usage.recordFailure(feature, retries);
+          if (!retryable) throw err;
+          break;
+        }
+        retries += 1;
+        await this.sleep(backoffMs(attempt));
+      }
+    }
+
+    if (lastStatus === 503 || /UNAVAILABLE/i.test(lastErrorText)) {
+      throw new Error(
+        `${provider.name} is temporarily overloaded (503 UNAVAILABLE) and didn't recover after ${this.maxAttempts} attempts. Please try again in a minute — usually clears within a few seconds.`
+      );
+    }
+    if (lastStatus === 429 || /RESOURCE_EXHAUSTED/i.test(lastErrorText)) {
+      throw new Error(`${provider.name} rate limit hit (429). Please wait a moment and retry, or check the project quota.`);
+    }
+    if (lastStatus === 0) {
+      throw new Error(`${provider.name} network error after ${this.maxAttempts} attempts: ${lastErrorText}`);
+    }
+    throw new Error(`${provider.name} API error: ${lastStatus} - ${lastErrorText}`);
+  }
+
+  /** A JSON response checked against `schema`; the caller's type is trusted once it matches. */
+  async generateJson<T>(feature: string, req: LlmRequest, schema: JsonSchema, opts: LlmCallOptions = {}): Promise<T> {
+    const response = await this.generateText(feature, { ...req, json: true }, opts);
+    const value = extractJson(response.text);
+    const problems = validateJsonSchema(value, schema);
+    if (problems.length > 0) {
+      console.error(`${feature}: LLM response failed schema validation:`, problems.slice(0, 10));
+      throw new LlmResponseError(
+        `AI response didn't match the expected shape (${problems.slice(0, 3).join('; ')}${problems.length > 3 ? '; …' : ''})`,
+        problems
+      );
+    }
+    return value as T;
+  }
+}
+
+export const llm = new LlmClient();
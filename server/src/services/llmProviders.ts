@@ -0,0 +1,315 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// ---------------------------------------------------------------------------
+// LLM Providers
+//
+// One request/response shape for every model the server talks to. A
+// provider does a single HTTP round trip and reports what came back;
+// retries, timeouts, JSON validation and usage accounting live in
+// llmClient.ts so every feature gets them the same way.
+//
+//   gemini   — Google Generative Language API (GEMINI_API_KEY)
+//   openai   — any OpenAI-compatible /chat/completions endpoint, e.g. a
+//              local Ollama or vLLM server (LLM_BASE_URL, LLM_API_KEY)
+//   fixture  — replays recorded responses from LLM_FIXTURE_DIR; with
+//              LLM_FIXTURE_MODE=record it calls Gemini and saves what it
+//              gets, so features can be exercised without network later.
+//
+// Pick one with LLM_PROVIDER (default gemini); LLM_MODEL overrides the
+// provider's default model.
+// ---------------------------------------------------------------------------
+
+export type LlmPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };  // base64 image / PDF
+
+export interface LlmRequest {
+  parts: LlmPart[];
+  /** Model override; providers fall back to their configured model. */
+  model?: string;
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  /** Ask the model for a JSON-only response. */
+  json?: boolean;
+  /** Aborted by the client when the timeout fires. */
+  signal?: AbortSignal;
+}
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmResponse {
+  text: string;
+  model: string;
+  /** 'stop' when the model finished on its own; anything else means truncated or blocked. */
+  finishReason: 'stop' | 'length' | 'safety' | 'other';
+  usage: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly name: 'gemini' | 'openai' | 'fixture';
+  readonly model: string;
+  generate(req: LlmRequest): Promise<LlmResponse>;
+}
+
+/** Non-2xx reply from a provider. `status` drives the retry decision. */
+export class LlmHttpError extends Error {
+  constructor(public readonly status: number, public readonly body: string, provider: string) {
+    super(`${provider} API error: ${status} - ${body}`);
+    this.name = 'LlmHttpError';
+  }
+}
+
+export class LlmFixtureMissingError extends Error {
+  constructor(public readonly key: string) {
+    super(`No recorded LLM response for request ${key} — record it with LLM_FIXTURE_MODE=record`);
+    this.name = 'LlmFixtureMissingError';
+  }
+}
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+// ---------------------------------------------------------------------------
+// Gemini
+// ---------------------------------------------------------------------------
+
+function geminiFinishReason(reason: string | undefined): LlmResponse['finishReason'] {
+  if (!reason || reason === 'STOP') return 'stop';
+  if (reason === 'MAX_TOKENS') return 'length';
+  if (reason === 'SAFETY' || reason === 'RECITATION' || reason === 'BLOCKLIST') return 'safety';
+  return 'other';
+}
+
+export class GeminiProvider implements LlmProvider {
+  readonly name = 'gemini';
+
+  constructor(private readonly apiKey: string, readonly model: string = DEFAULT_GEMINI_MODEL) {}
+
+  async generate(req: LlmRequest): Promise<LlmResponse> {
+    if (!this.apiKey) {
+      throw new Error('GEMINI_API_KEY environment variable is not set on the server');
+    }
+    // Accept "models/gemini-x" as well as the bare name.
+    const model = (req.model || this.model).split('/').pop() || this.model;
+    const response = await fetch(`${GEMINI_API_BASE}/${model}:generateContent?key=${this.apiKey}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      signal: req.signal,
+      body: JSON.stringify({
+        contents: [{
+          parts: req.parts.map(p => 'text' in p
+            ? { text: p.text }
+            : { inline_data: { mime_type: p.inlineData.mimeType, data: p.inlineData.data } }),
+        }],
+        generationConfig: {
+          temperature: req.temperature ?? 0.2,
+          topP: req.topP ?? 0.8,
+          maxOutputTokens: req.maxOutputTokens ?? 4096,
+          ...(req.json ? { responseMimeType: 'application/json' } : {}),
+        },
+      }),
+    });
+    if (!response.ok) throw new LlmHttpError(response.status, await response.text(), 'Gemini');
+
+    const data = (await response.json()) as {
+      candidates?: { content?: { parts?: { text?: string }[] }; finishReason?: string }[];
+      usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+    };
+    const candidate = data.candidates?.[0];
+    return {
+      text: candidate?.content?.parts?.map(p => p.text ?? '').join('') ?? '',
+      model,
+      finishReason: geminiFinishReason(candidate?.finishReason),
+      usage: {
+        inputTokens: data.usageMetadata?.promptTokenCount ?? 0,
+        outputTokens: data.usageMetadata?.candidatesTokenCount ?? 0,
+      },
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// OpenAI-compatible (local Ollama / vLLM / LM Studio, or a hosted gateway)
+// ---------------------------------------------------------------------------
+
+export class OpenAICompatibleProvider implements LlmProvider {
+  readonly name = 'openai';
+
+  constructor(
+    private readonly baseUrl: string,
+    readonly model: string,
+    private readonly apiKey: string = ''
+  ) {}
+
+  async generate(req: LlmRequest): Promise<LlmResponse> {
+    const content = req.parts.map(p => 'text' in p
+      ? { type: 'text', text: p.text }
+      : { type: 'image_url', image_url: { url: `data:${p.inlineData.mimeType};base64,${p.inlineData.data}` } });
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      signal: req.signal,
+      body: JSON.stringify({
+        model: req.model || this.model,
+        messages: [{ role: 'user', content }],
+        temperature: req.temperature ?? 0.2,
+        top_p: req.topP ?? 0.8,
+        max_tokens: req.maxOutputTokens ?? 4096,
+        // No response_format: local servers support it unevenly and json_object
+        // rejects top-level arrays. The prompts already ask for JSON only.
+      }),
+    });
+    if (!response.ok) throw new LlmHttpError(response.status, await response.text(), 'OpenAI-compatible');
+
+    const data = (await response.json()) as {
+      model?: string;
+      choices?: { message?: { content?: string }; finish_reason?: string }[];
+      usage?: { prompt_tokens?: number; completion_tokens?: number };
+    };
+    const choice = data.choices?.[0];
+    const reason = choice?.finish_reason;
+    return {
+      text: choice?.message?.content ?? '',
+      model: data.model || req.model || this.model,
+      finishReason: !reason || reason === 'stop' ? 'stop' : reason === 'length' ? 'length' : reason === 'content_filter' ? 'safety' : 'other',
+      usage: {
+        inputTokens: data.usage?.prompt_tokens ?? 0,
+        outputTokens: data.usage?.completion_tokens ?? 0,
+      },
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Fixture / replay
+// ---------------------------------------------------------------------------
+
+/**
+ * Stable key for a request: the parts (attachments by content hash) and the
+ * JSON flag. Model and sampling settings are left out so a fixture recorded
+ * against one model replays for any.
+ */
+export function fixtureKey(req: Pick<LlmRequest, 'parts' | 'json'>): string {
+  const hash = createHash('sha256');
+  for (const part of req.parts) {
+    if ('text' in part) {
+      hash.update(`text:${part.text}\n`);
+    } else {
+      hash.update(`data:${part.inlineData.mimeType}:${createHash('sha256').update(part.inlineData.data).digest('hex')}\n`);
+    }
+  }
+  hash.update(`json:${Boolean(req.json)}`);
+  return hash.digest('hex').slice(0, 24);
+}
+
+interface FixtureFile {
+  key: string;
+  recordedAt: string;
+  /** First few hundred characters of the prompt, for whoever reads the file. */
+  promptPreview: string;
+  response: LlmResponse;
+}
+
+export class FixtureProvider implements LlmProvider {
+  readonly name = 'fixture';
+  private readonly memory = new Map<string, LlmResponse>();
+
+  /**
+   * @param dir       where fixtures are read from / written to (null = in-memory only)
+   * @param recordVia when set, misses are sent to this provider and saved
+   */
+  constructor(
+    private readonly dir: string | null,
+    private readonly recordVia: LlmProvider | null = null
+  ) {}
+
+  get model(): string {
+    return this.recordVia?.model ?? 'fixture';
+  }
+
+  /** Register a canned response for a request (tests, demos). */
+  add(req: Pick<LlmRequest, 'parts' | 'json'>, text: string, usage: LlmUsage = { inputTokens: 0, outputTokens: 0 }): void {
+    this.memory.set(fixtureKey(req), { text, model: 'fixture', finishReason: 'stop', usage });
+  }
+
+  async generate(req: LlmRequest): Promise<LlmResponse> {
+    const key = fixtureKey(req);
+    const known = this.memory.get(key) ?? (await this.load(key));
+    // A replay spends nothing; the recorded usage stays in the fixture file.
+    if (known) return { ...known, usage: { inputTokens: 0, outputTokens: 0 } };
+    if (!this.recordVia) throw new LlmFixtureMissingError(key);
+
+    const response = await this.recordVia.generate(req);
+    this.memory.set(key, response);
+    await this.save(key, req, response);
+    return response;
+  }
+
+  private fileFor(key: string): string | null {
+    return this.dir ? path.join(this.dir, `${key}.json`) : null;
+  }
+
+  private async load(key: string): Promise<LlmResponse | null> {
+    const file = this.fileFor(key);
+    if (!file) return null;
+    try {
+      const fixture = JSON.parse(await fs.readFile(file, 'utf8')) as FixtureFile;
+      this.memory.set(key, fixture.response);
+      return fixture.response;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw err;
+    }
+  }
+
+  private async save(key: string, req: LlmRequest, response: LlmResponse): Promise<void> {
+    const file = this.fileFor(key);
+    if (!file) return;
+    const prompt = req.parts.map(p => ('text' in p ? p.text : `[${p.inlineData.mimeType}]`)).join('\n');
+    const fixture: FixtureFile = {
+      key,
+      recordedAt: new Date().toISOString(),
+      promptPreview: prompt.slice(0, 400),
+      response,
+    };
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(fixture, null, 2), 'utf8');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Selection
+// ---------------------------------------------------------------------------
+
+/** Build the provider described by the environment. */
+export function createProviderFromEnv(env: NodeJS.ProcessEnv = process.env): LlmProvider {
+  const kind = (env.LLM_PROVIDER || 'gemini').toLowerCase();
+  const gemini = () => new GeminiProvider(env.GEMINI_API_KEY || '', env.LLM_MODEL || env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL);
+
+  switch (kind) {
+    case 'gemini':
+      return gemini();
+    case 'openai': {
+      if (!env.LLM_BASE_URL) throw new Error('LLM_PROVIDER=openai needs LLM_BASE_URL (e.g. http://localhost:11434/v1)');
+      if (!env.LLM_MODEL) throw new Error('LLM_PROVIDER=openai needs LLM_MODEL');
+      return new OpenAICompatibleProvider(env.LLM_BASE_URL, env.LLM_MODEL, env.LLM_API_KEY || '');
+    }
+    case 'fixture': {
+      const dir = env.LLM_FIXTURE_DIR || path.join(process.cwd(), 'fixtures', 'llm');
+      const record = (env.LLM_FIXTURE_MODE || 'replay').toLowerCase() === 'record';
+      return new FixtureProvider(dir, record ? gemini() : null);
+    }
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${kind}" — expected gemini, openai or fixture`);
+  }
+}
@@ -0,0 +1,240 @@
+import fs from 'fs/promises';
+import net from 'net';
+import path from 'path';
+import tls from 'tls';
+import { randomUUID } from 'crypto';
+import { getDataDir } from './jsonStore.js';
+
+// ---------------------------------------------------------------------------
+// Mail Transport
+//
+// Outgoing mail (the weekly compliance digest) goes through a MailTransport,
+// picked from the environment:
+//   MAIL_TRANSPORT=file (default) → .eml files under MAIL_OUTBOX_DIR
+//                                   (default MIS_DATA_DIR/outbox), for
+//                                   local runs and testing
+//   MAIL_TRANSPORT=smtp           → SMTP_HOST / SMTP_PORT (587) /
+//                                   SMTP_SECURE (true for 465) /
+//                                   SMTP_USER / SMTP_PASS
+//   MAIL_FROM                     → sender address for both
+//
+// The SMTP client is deliberately small: EHLO, STARTTLS when offered,
+// AUTH PLAIN, one message per connection.
+// ---------------------------------------------------------------------------
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface MailResult {
+  messageId: string;
+  /** Where it went — the file written, or the SMTP server's reply. */
+  detail: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<MailResult>;
+}
+
+export function mailFrom(): string {
+  return process.env.MAIL_FROM || 'Heatronics Accounts <accounts@heatronics.in>';
+}
+
+/** The bare address from "Name <addr>". */
+function address(mailbox: string): string {
+  const m = mailbox.match(/<([^>]+)>/);
+  return (m ? m[1] : mailbox).trim();
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function base64Lines(value: string): string {
+  return (Buffer.from(value, 'utf8').toString('base64').match(/.{1,76}/g) ?? []).join('\r\n');
+}
+
+/** RFC 5322 message with text and HTML alternatives. */
+export function buildMime(message: MailMessage, messageId: string, date: Date = new Date()): string {
+  const boundary = `=_digest_${messageId.replace(/[^a-z0-9]/gi, '')}`;
+  return [
+    `From: ${mailFrom()}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: <${messageId}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.html),
+    `--${boundary}--`,
+    ''
+  ].join('\r\n');
+}
+
+function newMessageId(): string {
+  return `${randomUUID()}@${address(mailFrom()).split('@')[1] || 'localhost'}`;
+}
+
+class FileSinkTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly dir: string) {}
+
+  async send(message: MailMessage): Promise<MailResult> {
+    const messageId = newMessageId();
+    await fs.mkdir(this.dir, { recursive: true });
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const file = path.join(this.dir, `${stamp}-${messageId.split('@')[0].slice(0, 8)}.eml`);
+    await fs.writeFile(file, buildMime(message, messageId));
+    return { messageId, detail: file };
+  }
+}
+
+interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+/** Line-oriented reply reader over a socket that can be swapped for its TLS upgrade. */
+class SmtpSession {
+  private buffer = '';
+  private waiting: ((reply: { code: number; text: string }) => void) | null = null;
+  private failed: ((err: Error) => void) | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      this.drain();
+    });
+    socket.on('error', err => this.failed?.(err));
+  }
+
+  private drain() {
+    // A reply ends on a line whose code is followed by a space, not "-"
+    const lines = this.buffer.split('\r\n');
+    const last = lines.findIndex(l => /^\d{3} /.test(l));
+    if (last === -1 || !this.waiting) return;
+    const reply = lines.slice(0, last + 1);
+    this.buffer = lines.slice(last + 1).join('\r\n');
+    const resolve = this.waiting;
+    this.waiting = null;
+    resolve({ code: Number(reply[last].slice(0, 3)), text: reply.join('\n') });
+  }
+
+  read(): Promise<{ code: number; text: string }> {
+    return new Promise((resolve, reject) => {
+      this.waiting = resolve;
+      this.failed = reject;
+      this.drain();
+    });
+  }
+
+  async command(line: string | null, expect: number[]): Promise<string> {
+    if (line !== null) this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (!expect.includes(reply.code)) {
+      throw new Error(`SMTP ${line?.split(' ')[0] ?? 'greeting'} failed: ${reply.text}`);
+    }
+    return reply.text;
+  }
+
+  upgrade(host: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.socket.removeAllListeners('data');
+      const secured = tls.connect({ socket: this.socket, servername: host }, () => resolve());
+      secured.once('error', reject);
+      this.socket = secured;
+      this.attach(secured);
+    });
+  }
+
+  end() {
+    this.socket.end();
+  }
+}
+
+class SmtpTransport implements MailTransport {
+  readonly name = 'smtp';
+
+  constructor(private readonly options: SmtpOptions) {}
+
+  private connect(): Promise<net.Socket> {
+    const { host, port, secure } = this.options;
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+        : net.connect({ host, port }, () => resolve(socket));
+      socket.setTimeout(30_000, () => socket.destroy(new Error('SMTP connection timed out')));
+      socket.once('error', reject);
+    });
+  }
+
+  async send(message: MailMessage): Promise<MailResult> {
+    const { host, secure, user, pass } = this.options;
+    const messageId = newMessageId();
+    const session = new SmtpSession(await this.connect());
+    const helo = process.env.SMTP_HELO || 'localhost';
+    try {
+      await session.command(null, [220]);
+      let features = await session.command(`EHLO ${helo}`, [250]);
+      if (!secure && /STARTTLS/i.test(features)) {
+        await session.command('STARTTLS', [220]);
+        await session.upgrade(host);
+        features = await session.command(`EHLO ${helo}`, [250]);
+      }
+      if (user) {
+        if (!/AUTH[ =][^\n]*PLAIN/i.test(features)) throw new Error('SMTP server does not offer AUTH PLAIN');
+        const token = Buffer.from(`\0${user}\0${pass ?? ''}`, 'utf8').toString('base64');
+        await session.command(`AUTH PLAIN ${token}`, [235]);
+      }
+      await session.command(`MAIL FROM:<${address(mailFrom())}>`, [250]);
+      for (const to of message.to) await session.command(`RCPT TO:<${address(to)}>`, [250, 251]);
+      await session.command('DATA', [354]);
+      // Dot-stuff lines that start with "."
+      const body = buildMime(message, messageId).replace(/\r\n\./g, '\r\n..');
+      const accepted = await session.command(`${body}\r\n.`, [250]);
+      await session.command('QUIT', [221]).catch(() => undefined);
+      return { messageId, detail: accepted };
+    } finally {
+      session.end();
+    }
+  }
+}
+
+export function createMailTransport(): MailTransport {
+  const kind = (process.env.MAIL_TRANSPORT || 'file').toLowerCase();
+  if (kind === 'smtp') {
+    const host = process.env.SMTP_HOST;
+    if (!host) throw new Error('MAIL_TRANSPORT=smtp needs SMTP_HOST');
+    return new SmtpTransport({
+      host,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER || undefined,
+      pass: process.env.SMTP_PASS || undefined
+    });
+  }
+  return new FileSinkTransport(process.env.MAIL_OUTBOX_DIR || path.join(getDataDir(), 'outbox'));
+}
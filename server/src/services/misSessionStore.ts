@@ -0,0 +1,233 @@
+import { JsonStateStore, StateBackend, createBackend } from './jsonStore.js';
+
+// ---------------------------------------------------------------------------
+// MIS Session Store
+//
+// Persistence layer behind the /api/mis/sessions routes. Stored as one
+// JSON document (mis-sessions.json) through the shared JsonStateStore, so
+// MIS_STORE=memory keeps the old process-local behaviour for tests.
+//
+// Every write bumps the session's `version` and appends a full snapshot to
+// that session's history, so an earlier set of classifications can be
+// inspected or restored. Only the last MAX_SESSION_VERSIONS snapshots are
+// kept; version numbers carry on counting. Writers can pass the version they last read
+// (`expectedVersion`); if someone else has written since, the store throws
+// a VersionConflictError instead of silently overwriting.
+// ---------------------------------------------------------------------------
+
+/** Snapshots kept per session; older ones are dropped as new ones arrive. */
+export const MAX_SESSION_VERSIONS = 50;
+
+export interface MISSessionData {
+  balanceSheetData?: unknown;
+  journalData?: unknown;
+  purchaseData?: unknown;
+  classifications?: unknown;
+  report?: unknown;
+}
+
+export interface MISSession {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  period: string; // e.g., "Oct 2024"
+  status: 'draft' | 'completed';
+  version: number;
+  data: MISSessionData;
+}
+
+export type MISSessionSummary = Omit<MISSession, 'data'>;
+
+export interface MISSessionVersion {
+  version: number;
+  savedAt: string;
+  savedBy: string;
+  /** Which operation produced this version (create / update / data / restore). */
+  action: 'create' | 'update' | 'data' | 'restore';
+  snapshot: MISSession;
+}
+
+export interface WriteOptions {
+  /** Version the caller last read. Omit to skip the conflict check. */
+  expectedVersion?: number;
+  savedBy?: string;
+  /**
+   * Runs inside the write, against the session as stored and as it would
+   * be saved; throw to refuse it (e.g. a locked period).
+   */
+  guard?: (current: MISSession, next: MISSession) => Promise<void>;
+}
+
+export class VersionConflictError extends Error {
+  constructor(public readonly currentVersion: number, public readonly expectedVersion: number) {
+    super(`Session was modified (current version ${currentVersion}, expected ${expectedVersion})`);
+    this.name = 'VersionConflictError';
+  }
+}
+
+export interface MISSessionStore {
+  list(): Promise<MISSessionSummary[]>;
+  get(id: string): Promise<MISSession | null>;
+  create(input: { name?: string; period?: string; savedBy?: string }): Promise<MISSession>;
+  update(id: string, changes: Partial<Pick<MISSession, 'name' | 'period' | 'status' | 'data'>>, opts?: WriteOptions): Promise<MISSession | null>;
+  patchData(id: string, data: MISSessionData, opts?: WriteOptions): Promise<MISSession | null>;
+  remove(id: string, opts?: Pick<WriteOptions, 'guard'>): Promise<boolean>;
+  history(id: string): Promise<Omit<MISSessionVersion, 'snapshot'>[] | null>;
+  getVersion(id: string, version: number): Promise<MISSessionVersion | null>;
+  restore(id: string, version: number, opts?: WriteOptions): Promise<MISSession | null>;
+}
+
+export interface StoreState {
+  sessions: MISSession[];
+  history: Record<string, MISSessionVersion[]>;
+}
+
+class PersistentMISSessionStore implements MISSessionStore {
+  private readonly store: JsonStateStore<StoreState>;
+
+  constructor(backend: StateBackend<StoreState>) {
+    this.store = new JsonStateStore(backend, () => ({ sessions: [], history: {} }));
+  }
+
+  private mutate<T>(fn: (state: StoreState) => T | Promise<T>): Promise<T> {
+    return this.store.mutate(fn);
+  }
+
+  private load(): Promise<StoreState> {
+    return this.store.read();
+  }
+
+  private async commit(
+    state: StoreState,
+    index: number,
+    next: MISSession,
+    action: MISSessionVersion['action'],
+    opts: WriteOptions
+  ): Promise<MISSession> {
+    const current = state.sessions[index];
+    if (opts.expectedVersion !== undefined && opts.expectedVersion !== current.version) {
+      throw new VersionConflictError(current.version, opts.expectedVersion);
+    }
+    await opts.guard?.(current, next);
+    const saved: MISSession = {
+      ...next,
+      id: current.id,
+      createdAt: current.createdAt,
+      version: current.version + 1,
+      updatedAt: new Date().toISOString(),
+    };
+    state.sessions[index] = saved;
+    const versions = (state.history[saved.id] ||= []);
+    versions.push({
+      version: saved.version,
+      savedAt: saved.updatedAt,
+      savedBy: opts.savedBy || 'anonymous',
+      action,
+      snapshot: saved,
+    });
+    if (versions.length > MAX_SESSION_VERSIONS) versions.splice(0, versions.length - MAX_SESSION_VERSIONS);
+    return saved;
+  }
+
+  async list(): Promise<MISSessionSummary[]> {
+    const state = await this.load();
+    return state.sessions.map(({ data: _data, ...summary }) => summary);
+  }
+
+  async get(id: string): Promise<MISSession | null> {
+    const state = await this.load();
+    return state.sessions.find(s => s.id === id) || null;
+  }
+
+  create(input: { name?: string; period?: string; savedBy?: string }): Promise<MISSession> {
+    return this.mutate(state => {
+      const now = new Date().toISOString();
+      const period = input.period || new Date().toLocaleDateString('en-IN', { month: 'short', year: 'numeric' });
+      const session: MISSession = {
+        id: `mis-${Date.now()}`,
+        name: input.name || `MIS Report - ${period}`,
+        createdAt: now,
+        updatedAt: now,
+        period,
+        status: 'draft',
+        version: 1,
+        data: {},
+      };
+      state.sessions.push(session);
+      state.history[session.id] = [{
+        version: 1,
+        savedAt: now,
+        savedBy: input.savedBy || 'anonymous',
+        action: 'create',
+        snapshot: session,
+      }];
+      return session;
+    });
+  }
+
+  update(
+    id: string,
+    changes: Partial<Pick<MISSession, 'name' | 'period' | 'status' | 'data'>>,
+    opts: WriteOptions = {}
+  ): Promise<MISSession | null> {
+    return this.mutate(state => {
+      const index = state.sessions.findIndex(s => s.id === id);
+      if (index === -1) return null;
+      return this.commit(state, index, { ...state.sessions[index], ...changes }, 'update', opts);
+    });
+  }
+
+  patchData(id: string, data: MISSessionData, opts: WriteOptions = {}): Promise<MISSession | null> {
+    return this.mutate(state => {
+      const index = state.sessions.findIndex(s => s.id === id);
+      if (index === -1) return null;
+      const current = state.sessions[index];
+      return this.commit(state, index, { ...current, data: { ...current.data, ...data } }, 'data', opts);
+    });
+  }
+
+  remove(id: string, opts: Pick<WriteOptions, 'guard'> = {}): Promise<boolean> {
+    return this.mutate(async state => {
+      const index = state.sessions.findIndex(s => s.id === id);
+      if (index === -1) return false;
+      await opts.guard?.(state.sessions[index], state.sessions[index]);
+      state.sessions.splice(index, 1);
+      delete state.history[id];
+      return true;
+    });
+  }
+
+  async history(id: string): Promise<Omit<MISSessionVersion, 'snapshot'>[] | null> {
+    const state = await this.load();
+    const versions = state.history[id];
+    if (!versions) return null;
+    return versions.map(({ snapshot: _snapshot, ...meta }) => meta);
+  }
+
+  async getVersion(id: string, version: number): Promise<MISSessionVersion | null> {
+    const state = await this.load();
+    return state.history[id]?.find(v => v.version === version) || null;
+  }
+
+  /**
+   * Roll a session back to an earlier snapshot. This is itself a new
+   * version — history is never rewritten.
+   */
+  restore(id: string, version: number, opts: WriteOptions = {}): Promise<MISSession | null> {
+    return this.mutate(state => {
+      const index = state.sessions.findIndex(s => s.id === id);
+      if (index === -1) return null;
+      const target = state.history[id]?.find(v => v.version === version);
+      if (!target) return null;
+      const { name, period, status, data } = target.snapshot;
+      return this.commit(state, index, { ...state.sessions[index], name, period, status, data }, 'restore', opts);
+    });
+  }
+}
+
+export function createMISSessionStore(backend: StateBackend<StoreState> = createBackend('mis-sessions.json')): MISSessionStore {
+  return new PersistentMISSessionStore(backend);
+}
+
+export const misSessionStore = createMISSessionStore();
@@ -0,0 +1,160 @@
+import { JsonStateStore, StateBackend, createBackend } from './jsonStore.js';
+
+// ---------------------------------------------------------------------------
+// Period Close Store
+//
+// Tracks the close state of each monthly MIS period (periodKey "YYYY-MM"):
+//
+//   draft ──submit──▶ under_review ──lock──▶ locked
+//     ▲                    │                   │
+//     └──────return────────┘                   │
+//     └──────────────reopen (reason)───────────┘
+//
+// A period with no record is implicitly `draft`. Locked periods reject
+// re-parses, recomputes and reclassifications; the only way back is a
+// reopen, which must carry a reason and is kept in the period's history.
+// ---------------------------------------------------------------------------
+
+export type PeriodCloseStatus = 'draft' | 'under_review' | 'locked';
+export type PeriodCloseAction = 'submit' | 'return' | 'lock' | 'reopen';
+
+export interface PeriodCloseEvent {
+  action: PeriodCloseAction;
+  from: PeriodCloseStatus;
+  to: PeriodCloseStatus;
+  by: string;
+  at: string;
+  reason?: string;
+}
+
+export interface PeriodCloseRecord {
+  periodKey: string;
+  status: PeriodCloseStatus;
+  updatedAt: string;
+  updatedBy: string;
+  lockedAt?: string;
+  lockedBy?: string;
+  history: PeriodCloseEvent[];
+}
+
+export interface PeriodCloseState {
+  periods: Record<string, PeriodCloseRecord>;
+}
+
+const TRANSITIONS: Record<PeriodCloseAction, { from: PeriodCloseStatus; to: PeriodCloseStatus }> = {
+  submit: { from: 'draft', to: 'under_review' },
+  return: { from: 'under_review', to: 'draft' },
+  lock: { from: 'under_review', to: 'locked' },
+  reopen: { from: 'locked', to: 'draft' },
+};
+
+export const PERIOD_CLOSE_ACTIONS = Object.keys(TRANSITIONS) as PeriodCloseAction[];
+
+export class PeriodTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PeriodTransitionError';
+  }
+}
+
+export class PeriodLockedError extends Error {
+  constructor(public readonly periodKey: string, public readonly lockedBy?: string) {
+    super(`Period ${periodKey} is locked${lockedBy ? ` (locked by ${lockedBy})` : ''}. File a reopen with a reason first.`);
+    this.name = 'PeriodLockedError';
+  }
+}
+
+const PERIOD_KEY_RE = /^\d{4}-(0[1-9]|1[0-2])$/;
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+export function isValidPeriodKey(periodKey: string): boolean {
+  return PERIOD_KEY_RE.test(periodKey);
+}
+
+/**
+ * Normalise a period label to "YYYY-MM". Accepts the key itself or the
+ * display form used by MIS sessions ("Oct 2024", "October 2024").
+ * Returns null when the label can't be read.
+ */
+export function toPeriodKey(label: string): string | null {
+  const trimmed = label.trim();
+  if (isValidPeriodKey(trimmed)) return trimmed;
+  const match = trimmed.match(/^([A-Za-z]{3})[A-Za-z]*\.?\s+(\d{4})$/);
+  if (!match) return null;
+  const month = MONTHS.indexOf(match[1].toLowerCase());
+  if (month === -1) return null;
+  return `${match[2]}-${String(month + 1).padStart(2, '0')}`;
+}
+
+function draftRecord(periodKey: string): PeriodCloseRecord {
+  return { periodKey, status: 'draft', updatedAt: '', updatedBy: '', history: [] };
+}
+
+class PeriodCloseStore {
+  private readonly store: JsonStateStore<PeriodCloseState>;
+
+  constructor(backend: StateBackend<PeriodCloseState>) {
+    this.store = new JsonStateStore(backend, () => ({ periods: {} }));
+  }
+
+  async list(): Promise<PeriodCloseRecord[]> {
+    const state = await this.store.read();
+    return Object.values(state.periods).sort((a, b) => a.periodKey.localeCompare(b.periodKey));
+  }
+
+  async get(periodKey: string): Promise<PeriodCloseRecord> {
+    const state = await this.store.read();
+    return state.periods[periodKey] || draftRecord(periodKey);
+  }
+
+  async isLocked(periodKey: string): Promise<boolean> {
+    return (await this.get(periodKey)).status === 'locked';
+  }
+
+  /** Throw PeriodLockedError if the period can't be written to. */
+  async assertWritable(periodKey: string): Promise<void> {
+    const record = await this.get(periodKey);
+    if (record.status === 'locked') throw new PeriodLockedError(periodKey, record.lockedBy);
+  }
+
+  transition(periodKey: string, action: PeriodCloseAction, by: string, reason?: string): Promise<PeriodCloseRecord> {
+    return this.store.mutate(state => {
+      const rule = TRANSITIONS[action];
+      if (!rule) throw new PeriodTransitionError(`Unknown action "${action}"`);
+      const current = state.periods[periodKey] || draftRecord(periodKey);
+      if (current.status !== rule.from) {
+        throw new PeriodTransitionError(`Cannot ${action} ${periodKey}: period is ${current.status}, expected ${rule.from}`);
+      }
+      const trimmedReason = reason?.trim();
+      if (action === 'reopen' && !trimmedReason) {
+        throw new PeriodTransitionError('A reason is required to reopen a locked period');
+      }
+
+      const at = new Date().toISOString();
+      const next: PeriodCloseRecord = {
+        ...current,
+        status: rule.to,
+        updatedAt: at,
+        updatedBy: by,
+        history: [...current.history, { action, from: rule.from, to: rule.to, by, at, ...(trimmedReason && { reason: trimmedReason }) }],
+      };
+      if (action === 'lock') {
+        next.lockedAt = at;
+        next.lockedBy = by;
+      } else {
+        delete next.lockedAt;
+        delete next.lockedBy;
+      }
+      state.periods[periodKey] = next;
+      return next;
+    });
+  }
+}
+
+export function createPeriodCloseStore(
+  backend: StateBackend<PeriodCloseState> = createBackend('period-close.json')
+): PeriodCloseStore {
+  return new PeriodCloseStore(backend);
+}
+
+export const periodCloseStore = createPeriodCloseStore();
@@ -0,0 +1,67 @@
+import { JsonStateStore, StateBackend, createBackend } from './jsonStore.js';
+
+// ---------------------------------------------------------------------------
+// Reclassification Log
+//
+// Append-only audit trail of manual head/subhead moves made in the enhanced
+// MIS report, kept per period. Entries are never edited or deleted — to
+// undo a move, append the reverse move. The client replays the log when it
+// recomputes a period so manual fixes survive a re-upload.
+// ---------------------------------------------------------------------------
+
+export interface ReclassificationEntry {
+  id: string;
+  periodKey: string;
+  transactionId: string;
+  matchKey: string;
+  account: string;
+  amount: number;
+  fromHead: string;
+  fromSubhead: string;
+  toHead: string;
+  toSubhead: string;
+  user: string;
+  timestamp: string;
+  reason: string;
+}
+
+export type NewReclassificationEntry = Omit<ReclassificationEntry, 'id' | 'periodKey' | 'timestamp'>;
+
+export interface ReclassificationLogState {
+  entries: Record<string, ReclassificationEntry[]>;
+}
+
+class ReclassificationLog {
+  private readonly store: JsonStateStore<ReclassificationLogState>;
+
+  constructor(backend: StateBackend<ReclassificationLogState>) {
+    this.store = new JsonStateStore(backend, () => ({ entries: {} }));
+  }
+
+  async list(periodKey: string): Promise<ReclassificationEntry[]> {
+    const state = await this.store.read();
+    return state.entries[periodKey] || [];
+  }
+
+  append(periodKey: string, input: NewReclassificationEntry): Promise<ReclassificationEntry> {
+    return this.store.mutate(state => {
+      const existing = state.entries[periodKey] || [];
+      const entry: ReclassificationEntry = {
+        ...input,
+        id: `rc-${periodKey}-${existing.length + 1}`,
+        periodKey,
+        timestamp: new Date().toISOString(),
+      };
+      state.entries[periodKey] = [...existing, entry];
+      return entry;
+    });
+  }
+}
+
+export function createReclassificationLog(
+  backend: StateBackend<ReclassificationLogState> = createBackend('reclassifications.json')
+): ReclassificationLog {
+  return new ReclassificationLog(backend);
+}
+
+export const reclassificationLog = createReclassificationLog();
@@ -0,0 +1,98 @@
+import { JsonStateStore, StateBackend, createBackend } from './jsonStore.js';
+
+// ---------------------------------------------------------------------------
+// Scenario Store
+//
+// Named what-if scenarios for the MIS deck: a set of levers (per-channel
+// revenue growth, ad-spend change and fee rate; company COGS and factory
+// rates) the client applies to a base period's channel P&L. The server only
+// keeps the levers — every result is recomputed from the actuals on read.
+// ---------------------------------------------------------------------------
+
+export interface ScenarioLevers {
+  /** channel → revenue change (0.5 = +50%) */
+  growth: Record<string, number>;
+  /** channel → attributed Sales & Marketing change (-0.2 = −20%) */
+  adSpend: Record<string, number>;
+  /** channel → Channel & Fulfilment as a fraction of net revenue */
+  feeRate: Record<string, number>;
+  /** Product COGS as a fraction of net revenue */
+  cogsRate?: number;
+  /** Factory / conversion cost as a fraction of net revenue */
+  factoryPct?: number;
+}
+
+export interface Scenario {
+  id: string;
+  name: string;
+  levers: ScenarioLevers;
+  createdAt: string;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+interface ScenarioState {
+  scenarios: Scenario[];
+  nextId: number;
+}
+
+export class ScenarioNameTakenError extends Error {
+  constructor(public readonly scenarioName: string) {
+    super(`A scenario named "${scenarioName}" already exists`);
+    this.name = 'ScenarioNameTakenError';
+  }
+}
+
+class ScenarioStore {
+  private readonly store: JsonStateStore<ScenarioState>;
+
+  constructor(backend: StateBackend<ScenarioState>) {
+    this.store = new JsonStateStore(backend, () => ({ scenarios: [], nextId: 1 }));
+  }
+
+  async list(): Promise<Scenario[]> {
+    return (await this.store.read()).scenarios;
+  }
+
+  create(name: string, levers: ScenarioLevers, by: string): Promise<Scenario> {
+    return this.store.mutate(state => {
+      assertNameFree(state, name);
+      const now = new Date().toISOString();
+      const scenario: Scenario = { id: `sc-${state.nextId++}`, name, levers, createdAt: now, updatedAt: now, updatedBy: by };
+      state.scenarios.push(scenario);
+      return scenario;
+    });
+  }
+
+  /** Replace a scenario's name and levers; null when it doesn't exist. */
+  update(id: string, name: string, levers: ScenarioLevers, by: string): Promise<Scenario | null> {
+    return this.store.mutate(state => {
+      const scenario = state.scenarios.find(s => s.id === id);
+      if (!scenario) return null;
+      assertNameFree(state, name, id);
+      Object.assign(scenario, { name, levers, updatedAt: new Date().toISOString(), updatedBy: by });
+      return scenario;
+    });
+  }
+
+  remove(id: string): Promise<boolean> {
+    return this.store.mutate(state => {
+      const before = state.scenarios.length;
+      state.scenarios = state.scenarios.filter(s => s.id !== id);
+      return state.scenarios.length < before;
+    });
+  }
+}
+
+function assertNameFree(state: ScenarioState, name: string, exceptId?: string) {
+  const clash = state.scenarios.find(s => s.id !== exceptId && s.name.toLowerCase() === name.toLowerCase());
+  if (clash) throw new ScenarioNameTakenError(name);
+}
+
+export function createScenarioStore(
+  backend: StateBackend<ScenarioState> = createBackend('scenarios.json')
+): ScenarioStore {
+  return new ScenarioStore(backend);
+}
+
+export const scenarioStore = createScenarioStore();
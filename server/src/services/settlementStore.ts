@@ -0,0 +1,109 @@
+import { JsonStateStore, StateBackend, createBackend, emptyMap, ownOrInit } from './jsonStore.js';
+
+// ---------------------------------------------------------------------------
+// Settlement Store
+//
+// Marketplace settlements parsed on the client from the raw channel reports
+// (Amazon payments date-range report, Blinkit settlement file), summarised
+// per month ("YYYY-MM") and channel, plus the payouts seen landing in the
+// escrow bank account. Re-uploading a report replaces the months it covers
+// for that channel; other months are left alone.
+// ---------------------------------------------------------------------------
+
+export const SETTLEMENT_CHANNELS = ['Amazon', 'Blinkit'] as const;
+export type SettlementChannel = typeof SETTLEMENT_CHANNELS[number];
+
+/** The numeric fields of a channel-month, in ₹ except `orders`. */
+export const SETTLEMENT_NUMBERS = [
+  'sales', 'refunds', 'gst', 'taxes', 'referral', 'fulfilment', 'ads',
+  'credits', 'chargebacks', 'reserve', 'other', 'net', 'payouts', 'orders'
+] as const;
+
+/** One channel-month. Costs and deductions are positive magnitudes, in ₹. */
+export interface SettlementMonth {
+  sales: number;         // Product sales ex-GST (incl. shipping / gift-wrap credits, promo rebates)
+  refunds: number;       // Sales reversed on returns
+  gst: number;           // GST collected on the sales
+  taxes: number;         // TCS / TDS withheld by the marketplace
+  referral: number;      // Referral / commission fees
+  fulfilment: number;    // FBA / Blinkit fulfilment and storage
+  ads: number;           // Advertising deducted from the settlement
+  credits: number;       // Reimbursements, claims, adjustments in the seller's favour
+  chargebacks: number;   // Chargebacks and A-to-z claims
+  reserve: number;       // Net amount moved into reserve in the month
+  other: number;         // Everything else (balances to net)
+  net: number;           // Net proceeds earned in the month
+  payouts: number;       // Transfers to the bank dated in the month
+  orders: number;
+  source: string;        // Uploaded file name
+  uploadedAt: string;
+  uploadedBy: string;
+}
+
+export interface SettlementState {
+  /** monthKey → channel → settlement */
+  months: Record<string, Partial<Record<SettlementChannel, SettlementMonth>>>;
+  /** monthKey → channel → ₹ credited to the escrow account */
+  bankReceipts: Record<string, Partial<Record<SettlementChannel, number>>>;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+class SettlementStore {
+  private readonly store: JsonStateStore<SettlementState>;
+
+  constructor(backend: StateBackend<SettlementState>) {
+    this.store = new JsonStateStore(backend, () => ({ months: {}, bankReceipts: {}, updatedAt: '', updatedBy: '' }));
+  }
+
+  get(): Promise<SettlementState> {
+    return this.store.read();
+  }
+
+  /** Replace the given months of one channel's settlements. */
+  putMonths(
+    channel: SettlementChannel,
+    months: Record<string, Omit<SettlementMonth, 'uploadedAt' | 'uploadedBy'>>,
+    by: string
+  ): Promise<SettlementState> {
+    return this.store.mutate(state => {
+      const now = new Date().toISOString();
+      for (const [monthKey, month] of Object.entries(months)) {
+        // Only the known fields — anything else in the request isn't saved
+        const saved = { source: month.source, uploadedAt: now, uploadedBy: by } as SettlementMonth;
+        for (const key of SETTLEMENT_NUMBERS) saved[key] = month[key];
+        ownOrInit(state.months, monthKey, emptyMap<SettlementMonth>)[channel] = saved;
+      }
+      state.updatedAt = now;
+      state.updatedBy = by;
+      return state;
+    });
+  }
+
+  /** Replace the escrow receipts for the given months (all channels of each month). */
+  putBankReceipts(
+    receipts: Record<string, Partial<Record<SettlementChannel, number>>>,
+    by: string
+  ): Promise<SettlementState> {
+    return this.store.mutate(state => {
+      for (const [monthKey, byChannel] of Object.entries(receipts)) {
+        const saved = emptyMap<number>();
+        for (const channel of SETTLEMENT_CHANNELS) {
+          if (byChannel[channel] !== undefined) saved[channel] = byChannel[channel];
+        }
+        state.bankReceipts[monthKey] = saved;
+      }
+      state.updatedAt = new Date().toISOString();
+      state.updatedBy = by;
+      return state;
+    });
+  }
+}
+
+export function createSettlementStore(
+  backend: StateBackend<SettlementState> = createBackend('settlements.json')
+): SettlementStore {
+  return new SettlementStore(backend);
+}
+
+export const settlementStore = createSettlementStore();
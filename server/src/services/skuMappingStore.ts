@@ -0,0 +1,65 @@
+import { JsonStateStore, StateBackend, createBackend, own } from './jsonStore.js';
+
+// ---------------------------------------------------------------------------
+// SKU Mapping Store
+//
+// Amazon seller SKUs mapped to Tranzact FG items from the Amazon → Tranzact
+// tool, on top of the mapping that ships with the client
+// (data/skuToFgMapping.ts). An entry here wins over the shipped one, so a
+// remapped listing takes effect without a release.
+// ---------------------------------------------------------------------------
+
+export interface SkuMapping {
+  sku: string;
+  fgItemId: string;
+  addedAt: string;
+  addedBy: string;
+}
+
+export interface SkuMappingState {
+  /** Seller SKU → mapping */
+  mappings: Record<string, SkuMapping>;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+class SkuMappingStore {
+  private readonly store: JsonStateStore<SkuMappingState>;
+
+  constructor(backend: StateBackend<SkuMappingState>) {
+    this.store = new JsonStateStore(backend, () => ({ mappings: {}, updatedAt: '', updatedBy: '' }));
+  }
+
+  get(): Promise<SkuMappingState> {
+    return this.store.read();
+  }
+
+  put(sku: string, fgItemId: string, by: string): Promise<SkuMappingState> {
+    return this.store.mutate(state => {
+      const now = new Date().toISOString();
+      state.mappings[sku] = { sku, fgItemId, addedAt: now, addedBy: by };
+      state.updatedAt = now;
+      state.updatedBy = by;
+      return state;
+    });
+  }
+
+  /** Null when the SKU has no saved mapping. */
+  remove(sku: string, by: string): Promise<SkuMappingState | null> {
+    return this.store.mutate(state => {
+      if (!own(state.mappings, sku)) return null;
+      delete state.mappings[sku];
+      state.updatedAt = new Date().toISOString();
+      state.updatedBy = by;
+      return state;
+    });
+  }
+}
+
+export function createSkuMappingStore(
+  backend: StateBackend<SkuMappingState> = createBackend('sku-mappings.json')
+): SkuMappingStore {
+  return new SkuMappingStore(backend);
+}
+
+export const skuMappingStore = createSkuMappingStore();
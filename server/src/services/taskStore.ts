@@ -0,0 +1,352 @@
+import { JsonStateStore, StateBackend, createBackend, emptyMap, own, ownOrInit } from './jsonStore.js';
+
+// ---------------------------------------------------------------------------
+// Task Store
+//
+// One task model for the finance team's recurring work, replacing the Task
+// Tracker sheet, the /api/checklist defaults and the per-item ticks of the
+// compliance calendar. A task has a schedule (frequency + due day, and the
+// months it falls in when it isn't monthly), an owner, sub-steps, and the
+// tasks it has to wait for:
+//
+//   Close books ──▶ Generate MIS ──▶ Investor update
+//
+// dependsOn must stay acyclic; puts that would close a loop are refused.
+//
+// Runs are kept per task per period — "YYYY-MM-DD" for daily tasks,
+// "YYYY-Www" (ISO week) for weekly, "YYYY-MM" for anything monthly or
+// rarer, "once" for ad-hoc. Tasks linked to a compliance item keep no runs
+// here: their ticks live with the item (and its evidence) in
+// complianceStore, and the route reads and writes them there.
+// ---------------------------------------------------------------------------
+
+export const TASK_FREQUENCIES = ['daily', 'weekly', 'monthly', 'quarterly', 'half-yearly', 'yearly', 'adhoc'] as const;
+export type TaskFrequency = typeof TASK_FREQUENCIES[number];
+
+/** Where a task came from: one of the three legacy systems, or made here. */
+export const TASK_SOURCES = ['tracker', 'checklist', 'compliance', 'manual'] as const;
+export type TaskSource = typeof TASK_SOURCES[number];
+
+/** Ids made here ("task-…") or by a migration ("<source>:<ref>"). */
+export const TASK_ID_PATTERN = /^(task-|tracker:|checklist:|compliance:)[\w.:-]+$/;
+
+export const TASK_RUN_STATUSES = ['open', 'done', 'skipped'] as const;
+export type TaskRunStatus = typeof TASK_RUN_STATUSES[number];
+
+export interface TaskStep {
+  id: string;
+  title: string;
+}
+
+export interface UnifiedTask {
+  id: string;
+  title: string;
+  description?: string;
+  category?: string;
+  owner?: string;
+  frequency: TaskFrequency;
+  /** monthly and rarer: day of month (31 = last day); weekly: 0-6 (Sunday-Saturday) */
+  dueDay?: number;
+  /** quarterly / half-yearly / yearly: the months (1-12) it falls due in */
+  months?: number[];
+  /** Working days the task takes, ending on the due date — drawn on the close timeline. */
+  durationDays: number;
+  steps: TaskStep[];
+  /** Task ids that must be done (for the same period) before this one can start. */
+  dependsOn: string[];
+  /** Part of the month-end close. */
+  monthClose: boolean;
+  source: TaskSource;
+  /** The task, checklist or compliance item id in the source system. */
+  sourceRef?: string;
+  createdAt: string;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface TaskRun {
+  status: TaskRunStatus;
+  /** Ids of the steps ticked off. */
+  stepsDone: string[];
+  notes?: string;
+  completedAt?: string;
+  completedBy?: string;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface TaskImportRecord {
+  source: TaskSource;
+  at: string;
+  by: string;
+  created: number;
+  updated: number;
+  runs: number;
+}
+
+export interface TaskState {
+  tasks: Record<string, UnifiedTask>;
+  /** runs[taskId][period] */
+  runs: Record<string, Record<string, TaskRun>>;
+  imports: TaskImportRecord[];
+  updatedAt: string;
+  updatedBy: string;
+}
+
+/** A task as a migration hands it over: schedule and text, no links yet. */
+export type ImportedTask = Omit<UnifiedTask, 'id' | 'source' | 'dependsOn' | 'monthClose' | 'durationDays' | 'createdAt' | 'updatedAt' | 'updatedBy'> & {
+  sourceRef: string;
+  dependsOnRefs?: string[];
+  monthClose?: boolean;
+};
+
+export interface ImportedRun {
+  sourceRef: string;
+  period: string;
+  status: Exclude<TaskRunStatus, 'open'>;
+  completedAt?: string;
+  completedBy?: string;
+  notes?: string;
+}
+
+export class TaskGraphError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TaskGraphError';
+  }
+}
+
+/** The id a migrated task gets, so re-running a migration updates in place. */
+export function importedTaskId(source: TaskSource, sourceRef: string): string {
+  return `${source}:${sourceRef}`;
+}
+
+/** The dependency path from `to` back round to `from`, if adding from → to would close a loop. */
+function findCycle(tasks: Record<string, UnifiedTask>, from: string, to: string): string[] | null {
+  const seen = new Set<string>();
+  const walk = (id: string, path: string[]): string[] | null => {
+    if (id === from) return path;
+    if (seen.has(id)) return null;
+    seen.add(id);
+    for (const next of own(tasks, id)?.dependsOn ?? []) {
+      const found = walk(next, [...path, next]);
+      if (found) return found;
+    }
+    return null;
+  };
+  return walk(to, [to]);
+}
+
+function checkDependencies(tasks: Record<string, UnifiedTask>, task: Pick<UnifiedTask, 'id' | 'dependsOn'>): void {
+  for (const dep of task.dependsOn) {
+    if (dep === task.id) throw new TaskGraphError('A task cannot depend on itself');
+    if (!own(tasks, dep)) throw new TaskGraphError(`Unknown dependency ${dep}`);
+    const cycle = findCycle(tasks, task.id, dep);
+    if (cycle) {
+      const titles = [task.id, ...cycle].map(id => own(tasks, id)?.title ?? id);
+      throw new TaskGraphError(`That would make a loop: ${titles.join(' → ')}`);
+    }
+  }
+}
+
+class TaskStore {
+  private readonly store: JsonStateStore<TaskState>;
+
+  constructor(backend: StateBackend<TaskState>) {
+    this.store = new JsonStateStore(backend, () => ({
+      tasks: emptyMap(),
+      runs: emptyMap(),
+      imports: [],
+      updatedAt: '',
+      updatedBy: ''
+    }));
+  }
+
+  get(): Promise<TaskState> {
+    return this.store.read();
+  }
+
+  /**
+   * Create a task, or replace one keeping its source fields. Null when
+   * creating over an existing id or replacing a task that's gone.
+   */
+  putTask(
+    input: Omit<UnifiedTask, 'source' | 'sourceRef' | 'createdAt' | 'updatedAt' | 'updatedBy'>,
+    mode: 'create' | 'replace',
+    by: string
+  ): Promise<TaskState | null> {
+    return this.store.mutate(state => {
+      const now = new Date().toISOString();
+      const existing = own(state.tasks, input.id);
+      if (mode === 'create' ? existing : !existing) return null;
+      const next: UnifiedTask = {
+        ...input,
+        dependsOn: [...new Set(input.dependsOn)],
+        source: existing?.source ?? 'manual',
+        sourceRef: existing?.sourceRef,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+        updatedBy: by
+      };
+      // Check against the graph as it would be with this task in it
+      checkDependencies({ ...state.tasks, [next.id]: next }, next);
+      // Steps that were removed can't stay ticked
+      const stepIds = new Set(next.steps.map(s => s.id));
+      for (const run of Object.values(own(state.runs, next.id) ?? {})) {
+        run.stepsDone = run.stepsDone.filter(id => stepIds.has(id));
+      }
+      state.tasks[next.id] = next;
+      state.updatedAt = now;
+      state.updatedBy = by;
+      return state;
+    });
+  }
+
+  /** Refuses while other tasks still wait on this one. Returns null if it wasn't there. */
+  removeTask(id: string, by: string): Promise<TaskState | null> {
+    return this.store.mutate(state => {
+      if (!own(state.tasks, id)) return null;
+      const dependents = Object.values(state.tasks).filter(t => t.dependsOn.includes(id));
+      if (dependents.length > 0) {
+        throw new TaskGraphError(`${dependents.map(t => t.title).join(', ')} still depend${dependents.length === 1 ? 's' : ''} on this task`);
+      }
+      delete state.tasks[id];
+      delete state.runs[id];
+      state.updatedAt = new Date().toISOString();
+      state.updatedBy = by;
+      return state;
+    });
+  }
+
+  /** Set a period's status and notes. Null if the task doesn't exist. */
+  setRun(
+    taskId: string,
+    period: string,
+    update: { status?: TaskRunStatus; notes?: string },
+    by: string
+  ): Promise<TaskState | null> {
+    return this.store.mutate(state => {
+      if (!own(state.tasks, taskId)) return null;
+      const now = new Date().toISOString();
+      const run = runFor(state, taskId, period, now, by);
+      if (update.status && update.status !== run.status) {
+        run.status = update.status;
+        run.completedAt = update.status === 'open' ? undefined : now;
+        run.completedBy = update.status === 'open' ? undefined : by;
+      }
+      if (update.notes !== undefined) run.notes = update.notes || undefined;
+      run.updatedAt = now;
+      run.updatedBy = by;
+      state.updatedAt = now;
+      state.updatedBy = by;
+      return state;
+    });
+  }
+
+  /** Tick or untick one step. Null if the task or step doesn't exist. */
+  setStep(taskId: string, period: string, stepId: string, done: boolean, by: string): Promise<TaskState | null> {
+    return this.store.mutate(state => {
+      const task = own(state.tasks, taskId);
+      if (!task || !task.steps.some(s => s.id === stepId)) return null;
+      const now = new Date().toISOString();
+      const run = runFor(state, taskId, period, now, by);
+      const ticked = new Set(run.stepsDone);
+      if (done) ticked.add(stepId);
+      else ticked.delete(stepId);
+      run.stepsDone = task.steps.map(s => s.id).filter(id => ticked.has(id));
+      run.updatedAt = now;
+      run.updatedBy = by;
+      state.updatedAt = now;
+      state.updatedBy = by;
+      return state;
+    });
+  }
+
+  /**
+   * Bring tasks over from one of the legacy systems. Tasks are keyed by
+   * source and source id, so running it again refreshes the schedule and
+   * text but keeps the owner, dependencies and close flag set here. Runs
+   * only fill periods that have nothing recorded yet.
+   */
+  importTasks(
+    source: TaskSource,
+    tasks: ImportedTask[],
+    runs: ImportedRun[],
+    by: string
+  ): Promise<{ state: TaskState; record: TaskImportRecord }> {
+    return this.store.mutate(state => {
+      const now = new Date().toISOString();
+      const record: TaskImportRecord = { source, at: now, by, created: 0, updated: 0, runs: 0 };
+      const links: { id: string; refs: string[] }[] = [];
+      for (const t of tasks) {
+        const { sourceRef, dependsOnRefs, monthClose, ...fields } = t;
+        const id = importedTaskId(source, sourceRef);
+        if (dependsOnRefs?.length) links.push({ id, refs: dependsOnRefs });
+        const existing = own(state.tasks, id);
+        state.tasks[id] = existing
+          ? { ...existing, ...fields, owner: existing.owner ?? fields.owner, updatedAt: now, updatedBy: by }
+          : {
+            ...fields,
+            id,
+            durationDays: 1,
+            dependsOn: [],
+            monthClose: monthClose ?? false,
+            source,
+            sourceRef,
+            createdAt: now,
+            updatedAt: now,
+            updatedBy: by
+          };
+        if (existing) record.updated++;
+        else record.created++;
+      }
+      // Links named in the source, for tasks that have none yet
+      for (const { id, refs } of links) {
+        const task = state.tasks[id];
+        if (task.dependsOn.length > 0) continue;
+        const deps = refs.map(ref => importedTaskId(source, ref)).filter(dep => own(state.tasks, dep));
+        try {
+          checkDependencies(state.tasks, { id: task.id, dependsOn: deps });
+          task.dependsOn = deps;
+        } catch {
+          // A loop in the source data — leave this one unlinked
+        }
+      }
+      for (const r of runs) {
+        const taskId = importedTaskId(source, r.sourceRef);
+        const task = own(state.tasks, taskId);
+        if (!task || own(runsOf(state, taskId), r.period)) continue;
+        runsOf(state, taskId)[r.period] = {
+          status: r.status,
+          stepsDone: r.status === 'done' ? task.steps.map(s => s.id) : [],
+          notes: r.notes,
+          completedAt: r.completedAt ?? now,
+          completedBy: r.completedBy ?? by,
+          updatedAt: now,
+          updatedBy: by
+        };
+        record.runs++;
+      }
+      state.imports.push(record);
+      state.updatedAt = now;
+      state.updatedBy = by;
+      return { state, record };
+    });
+  }
+}
+
+function runsOf(state: TaskState, taskId: string): Record<string, TaskRun> {
+  return ownOrInit(state.runs, taskId, emptyMap<TaskRun>);
+}
+
+function runFor(state: TaskState, taskId: string, period: string, now: string, by: string): TaskRun {
+  return ownOrInit(runsOf(state, taskId), period, () => ({ status: 'open', stepsDone: [], updatedAt: now, updatedBy: by }));
+}
+
+export function createTaskStore(
+  backend: StateBackend<TaskState> = createBackend('tasks.json')
+): TaskStore {
+  return new TaskStore(backend);
+}
+
+export const taskStore = createTaskStore();
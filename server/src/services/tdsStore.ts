@@ -0,0 +1,132 @@
+import { JsonStateStore, StateBackend, createBackend } from './jsonStore.js';
+
+// ---------------------------------------------------------------------------
+// TDS Store
+//
+// The parts of the TDS ledger that aren't in the books: each deductee's PAN
+// and type (company / other — it picks the 194C rate and the 26Q deductee
+// code), any lower-deduction certificate (section 197) they hold, and the
+// challans TDS was deposited under. Deductions themselves are read on the
+// client from the Expense Booking queue and the Tally registers.
+// ---------------------------------------------------------------------------
+
+export const TDS_SECTIONS = ['194C', '194J', '194I', '194H'] as const;
+export type TdsSection = typeof TDS_SECTIONS[number];
+
+export const DEDUCTEE_TYPES = ['company', 'non-company'] as const;
+export type DeducteeType = typeof DEDUCTEE_TYPES[number];
+
+export interface LowerDeductionCertificate {
+  number: string;
+  section: TdsSection;
+  rate: number;           // Percent, e.g. 0.5
+  validFrom: string;      // YYYY-MM-DD
+  validTo: string;
+  limit: number | null;   // ₹ of payments the certificate covers; null = no cap
+}
+
+export interface TdsDeductee {
+  party: string;          // Tally party ledger name
+  pan: string;
+  deducteeType: DeducteeType;
+  certificate: LowerDeductionCertificate | null;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface TdsChallan {
+  id: string;
+  section: TdsSection;
+  month: string;          // "YYYY-MM" of the deductions it pays for
+  bsrCode: string;        // 7 digits
+  challanSerial: string;  // 5 digits
+  depositedOn: string;    // YYYY-MM-DD
+  tds: number;
+  interest: number;
+  fee: number;
+  addedAt: string;
+  addedBy: string;
+}
+
+export interface TdsState {
+  /** Upper-cased party name → deductee */
+  deductees: Record<string, TdsDeductee>;
+  challans: TdsChallan[];
+  nextChallanId: number;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export function deducteeKey(party: string): string {
+  return party.trim().toUpperCase();
+}
+
+class TdsStore {
+  private readonly store: JsonStateStore<TdsState>;
+
+  constructor(backend: StateBackend<TdsState>) {
+    this.store = new JsonStateStore(backend, () => ({
+      deductees: {},
+      challans: [],
+      nextChallanId: 1,
+      updatedAt: '',
+      updatedBy: ''
+    }));
+  }
+
+  get(): Promise<TdsState> {
+    return this.store.read();
+  }
+
+  putDeductee(deductee: Omit<TdsDeductee, 'updatedAt' | 'updatedBy'>, by: string): Promise<TdsState> {
+    return this.store.mutate(state => {
+      const now = new Date().toISOString();
+      state.deductees[deducteeKey(deductee.party)] = { ...deductee, updatedAt: now, updatedBy: by };
+      state.updatedAt = now;
+      state.updatedBy = by;
+      return state;
+    });
+  }
+
+  /** Null when the party has no deductee record. */
+  removeDeductee(party: string, by: string): Promise<TdsState | null> {
+    return this.store.mutate(state => {
+      const key = deducteeKey(party);
+      if (!state.deductees[key]) return null;
+      delete state.deductees[key];
+      state.updatedAt = new Date().toISOString();
+      state.updatedBy = by;
+      return state;
+    });
+  }
+
+  addChallan(challan: Omit<TdsChallan, 'id' | 'addedAt' | 'addedBy'>, by: string): Promise<TdsState> {
+    return this.store.mutate(state => {
+      const now = new Date().toISOString();
+      state.challans.push({ ...challan, id: `ch-${state.nextChallanId++}`, addedAt: now, addedBy: by });
+      state.updatedAt = now;
+      state.updatedBy = by;
+      return state;
+    });
+  }
+
+  /** Null when no challan has that id. */
+  removeChallan(id: string, by: string): Promise<TdsState | null> {
+    return this.store.mutate(state => {
+      const before = state.challans.length;
+      state.challans = state.challans.filter(c => c.id !== id);
+      if (state.challans.length === before) return null;
+      state.updatedAt = new Date().toISOString();
+      state.updatedBy = by;
+      return state;
+    });
+  }
+}
+
+export function createTdsStore(
+  backend: StateBackend<TdsState> = createBackend('tds.json')
+): TdsStore {
+  return new TdsStore(backend);
+}
+
+export const tdsStore = createTdsStore();